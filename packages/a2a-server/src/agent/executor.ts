@@ -59,6 +59,10 @@ class TaskWrapper {
       _agentSettings: this.agentSettings,
       _taskState: this.task.taskState,
     };
+    const geminiClient = this.task.geminiClient;
+    if (geminiClient.isInitialized()) {
+      persistedState._conversationHistory = geminiClient.getHistory();
+    }
 
     const sdkTask: SDKTask = {
       id: this.task.id,
@@ -82,8 +86,8 @@ class TaskWrapper {
  */
 export class CoderAgentExecutor implements AgentExecutor {
   private tasks: Map<string, TaskWrapper> = new Map();
-  // Track tasks with an active execution loop.
-  private executingTasks = new Set<string>();
+  // Track tasks with an active execution loop and the controller that aborts it.
+  private executingTasks = new Map<string, AbortController>();
 
   constructor(private taskStore?: TaskStore) {}
 
@@ -128,6 +132,9 @@ export class CoderAgentExecutor implements AgentExecutor {
     );
     runtimeTask.taskState = persistedState._taskState;
     await runtimeTask.geminiClient.initialize();
+    if (persistedState._conversationHistory) {
+      runtimeTask.geminiClient.setHistory(persistedState._conversationHistory);
+    }
 
     const wrapper = new TaskWrapper(runtimeTask, agentSettings);
     this.tasks.set(sdkTask.id, wrapper);
@@ -245,6 +252,8 @@ export class CoderAgentExecutor implements AgentExecutor {
         undefined,
         true,
       );
+      // Stop the execution loop, if any, now that the task is canceled.
+      this.executingTasks.get(taskId)?.abort();
       logger.info(
         `[CoderAgentExecutor] Task ${taskId} cancellation processed. Saving state.`,
       );
@@ -462,7 +471,7 @@ export class CoderAgentExecutor implements AgentExecutor {
     logger.info(
       `[CoderAgentExecutor] Starting main execution for message ${userMessage.messageId} for task ${taskId}.`,
     );
-    this.executingTasks.add(taskId);
+    this.executingTasks.set(taskId, abortController);
 
     try {
       let agentTurnActive = true;
@@ -647,4 +647,96 @@ describe('Task', () => {
       expect(task.currentPromptId).toBe(expectedPromptId2);
     });
   });
+
+  describe('subscribe', () => {
+    it('should deliver published events to listeners until they unsubscribe', () => {
+      const mockEventBus: ExecutionEventBus = {
+        publish: vi.fn(),
+        on: vi.fn(),
+        off: vi.fn(),
+        once: vi.fn(),
+        removeAllListeners: vi.fn(),
+        finished: vi.fn(),
+      };
+      // @ts-expect-error - Calling private constructor
+      const task = new Task(
+        'task-id',
+        'context-id',
+        createMockConfig() as Config,
+        mockEventBus,
+      );
+      const listener = vi.fn();
+
+      const unsubscribe = task.subscribe(listener);
+      task.setTaskStateAndPublishUpdate('working', {
+        kind: CoderAgentEvent.StateChangeEvent,
+      });
+      unsubscribe();
+      task.setTaskStateAndPublishUpdate('input-required', {
+        kind: CoderAgentEvent.StateChangeEvent,
+      });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          kind: 'status-update',
+          status: expect.objectContaining({ state: 'working' }),
+        }),
+      );
+      expect(mockEventBus.publish).toHaveBeenCalledTimes(2);
+    });
+
+    it('should deliver events when no event bus is attached', () => {
+      // @ts-expect-error - Calling private constructor
+      const task = new Task(
+        'task-id',
+        'context-id',
+        createMockConfig() as Config,
+      );
+      const listener = vi.fn();
+
+      task.subscribe(listener);
+      task.setTaskStateAndPublishUpdate('working', {
+        kind: CoderAgentEvent.StateChangeEvent,
+      });
+
+      expect(listener).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe('confirmToolCall', () => {
+    let task: Task;
+    const onConfirm = vi.fn();
+
+    beforeEach(() => {
+      // @ts-expect-error - Calling private constructor
+      task = new Task('task-id', 'context-id', createMockConfig() as Config);
+      task.pendingToolConfirmationDetails.set('call-1', {
+        type: 'info',
+        title: 'Run tool',
+        prompt: 'Run it?',
+        onConfirm,
+      });
+    });
+
+    afterEach(() => {
+      onConfirm.mockReset();
+    });
+
+    it('should apply the outcome to the pending tool call', async () => {
+      expect(await task.confirmToolCall('call-1', 'proceed_once')).toBe(true);
+
+      expect(onConfirm).toHaveBeenCalledWith(
+        ToolConfirmationOutcome.ProceedOnce,
+      );
+      expect(task.pendingToolConfirmationDetails.has('call-1')).toBe(false);
+    });
+
+    it('should reject unknown outcomes and tool calls', async () => {
+      expect(await task.confirmToolCall('call-1', 'maybe')).toBe(false);
+      expect(await task.confirmToolCall('call-2', 'proceed_once')).toBe(false);
+
+      expect(onConfirm).not.toHaveBeenCalled();
+    });
+  });
 });
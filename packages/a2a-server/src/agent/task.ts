@@ -30,7 +30,7 @@ import {
   EDIT_TOOL_NAMES,
   processRestorableToolCalls,
 } from '@google/gemini-cli-core';
-import type { RequestContext } from '@a2a-js/sdk/server';
+import type { AgentExecutionEvent, RequestContext } from '@a2a-js/sdk/server';
 import { type ExecutionEventBus } from '@a2a-js/sdk/server';
 import type {
   TaskStatusUpdateEvent,
@@ -75,6 +75,9 @@ export class Task {
   promptCount = 0;
   autoExecute: boolean;
 
+  // Listeners that observe events independently of the current event bus.
+  private eventListeners = new Set<(event: AgentExecutionEvent) => void>();
+
   // For tool waiting logic
   private pendingToolCalls: Map<string, string> = new Map(); //toolCallId --> status
   private toolCompletionPromise?: Promise<void>;
@@ -153,6 +156,26 @@ export class Task {
     return metadata;
   }
 
+  /**
+   * Registers a listener for every event this task publishes, regardless of
+   * which request's event bus is currently attached.
+   *
+   * @returns A function that removes the listener.
+   */
+  subscribe(listener: (event: AgentExecutionEvent) => void): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  private publish(event: AgentExecutionEvent): void {
+    this.eventBus?.publish(event);
+    for (const listener of this.eventListeners) {
+      listener(event);
+    }
+  }
+
   private _resetToolCompletionPromise(): void {
     this.toolCompletionPromise = new Promise((resolve, reject) => {
       this.toolCompletionNotifier = { resolve, reject };
@@ -301,7 +324,7 @@ export class Task {
       metadataError,
       traceId,
     );
-    this.eventBus?.publish(event);
+    this.publish(event);
   }
 
   private _schedulerOutputUpdate(
@@ -340,7 +363,7 @@ export class Task {
       append: true,
       lastChunk: false,
     };
-    this.eventBus?.publish(artifactEvent);
+    this.publish(artifactEvent);
   }
 
   private async _schedulerAllToolCallsComplete(
@@ -397,7 +420,7 @@ export class Task {
           message,
           false, // Always false for these continuous updates
         );
-        this.eventBus?.publish(event);
+        this.publish(event);
       }
     });
 
@@ -871,11 +894,31 @@ export class Task {
         message,
         false,
       );
-      this.eventBus?.publish(event);
+      this.publish(event);
       return false;
     }
   }
 
+  /**
+   * Applies a confirmation outcome to a tool call awaiting approval, as if it
+   * had arrived as a data part in a user message.
+   *
+   * @returns Whether the confirmation was applied.
+   */
+  async confirmToolCall(
+    callId: string,
+    outcome: string,
+    newContent?: string,
+  ): Promise<boolean> {
+    return this._handleToolConfirmationPart({
+      kind: 'data',
+      data:
+        newContent === undefined
+          ? { callId, outcome }
+          : { callId, outcome, newContent },
+    });
+  }
+
   getAndClearCompletedTools(): CompletedToolCall[] {
     const tools = [...this.completedToolCalls];
     this.completedToolCalls = [];
@@ -1023,7 +1066,7 @@ export class Task {
     const textContent: TextContent = {
       kind: CoderAgentEvent.TextContentEvent,
     };
-    this.eventBus?.publish(
+    this.publish(
       this._createStatusUpdateEvent(
         this.taskState,
         textContent,
@@ -1057,7 +1100,7 @@ export class Task {
     const thought: Thought = {
       kind: CoderAgentEvent.ThoughtEvent,
     };
-    this.eventBus?.publish(
+    this.publish(
       this._createStatusUpdateEvent(
         this.taskState,
         thought,
@@ -1079,7 +1122,7 @@ export class Task {
     const citationEvent: Citation = {
       kind: CoderAgentEvent.CitationEvent,
     };
-    this.eventBus?.publish(
+    this.publish(
       this._createStatusUpdateEvent(this.taskState, citationEvent, message),
     );
   }
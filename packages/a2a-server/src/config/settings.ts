@@ -31,6 +31,7 @@ export interface Settings {
   showMemoryUsage?: boolean;
   checkpointing?: CheckpointingSettings;
   folderTrust?: boolean;
+  taskStore?: TaskStoreSettings;
 
   // Git-aware file filtering settings
   fileFiltering?: {
@@ -50,6 +51,24 @@ export interface CheckpointingSettings {
   enabled?: boolean;
 }
 
+export type TaskStoreType = 'memory' | 'gcs' | 'filesystem' | 'sqlite';
+
+export interface TaskStoreSettings {
+  /**
+   * Where tasks are kept. `sqlite` uses the `node:sqlite` module and needs
+   * Node.js 22.5 or later (with `--experimental-sqlite` before 22.13).
+   */
+  type?: TaskStoreType;
+  /** Bucket for the `gcs` store. */
+  bucketName?: string;
+  /** Directory for the `filesystem` store or database file for `sqlite`. */
+  path?: string;
+  /** Tasks not updated for this many days are deleted. */
+  maxAgeDays?: number;
+  /** Only the most recently updated tasks, up to this many, are kept. */
+  maxTasks?: number;
+}
+
 /**
  * Loads settings from user and workspace directories.
  * Project settings override user settings.
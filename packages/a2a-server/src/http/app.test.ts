@@ -97,6 +97,7 @@ vi.mock('@google/gemini-cli-core', async () => {
       sendMessageStream: sendMessageStreamSpy,
       getUserTier: vi.fn().mockReturnValue('free'),
       initialize: vi.fn(),
+      isInitialized: vi.fn().mockReturnValue(false),
     })),
     performRestore: vi.fn(),
   };
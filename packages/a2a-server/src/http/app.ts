@@ -6,8 +6,7 @@
 
 import express from 'express';
 
-import type { AgentCard, Message } from '@a2a-js/sdk';
-import type { TaskStore } from '@a2a-js/sdk/server';
+import type { AgentCard, Message, TaskState } from '@a2a-js/sdk';
 import {
   DefaultRequestHandler,
   InMemoryTaskStore,
@@ -18,7 +17,7 @@ import { A2AExpressApp } from '@a2a-js/sdk/server/express'; // Import server com
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../utils/logger.js';
 import type { AgentSettings } from '../types.js';
-import { GCSTaskStore, NoOpTaskStore } from '../persistence/gcs.js';
+import { createTaskStores } from '../persistence/factory.js';
 import { CoderAgentExecutor } from '../agent/executor.js';
 import { requestStorage } from './requestStorage.js';
 import { loadConfig, loadEnvironment, setTargetDir } from '../config/config.js';
@@ -36,6 +35,13 @@ type CommandResponse = {
   subCommands: CommandResponse[];
 };
 
+const TERMINAL_TASK_STATES: TaskState[] = [
+  'completed',
+  'canceled',
+  'failed',
+  'rejected',
+];
+
 const coderAgentCard: AgentCard = {
   name: 'Gemini SDLC Agent',
   description:
@@ -169,26 +175,24 @@ export async function createApp() {
     }
 
     // loadEnvironment() is called within getConfig now
-    const bucketName = process.env['GCS_BUCKET_NAME'];
-    let taskStoreForExecutor: TaskStore;
-    let taskStoreForHandler: TaskStore;
-
-    if (bucketName) {
-      logger.info(`Using GCSTaskStore with bucket: ${bucketName}`);
-      const gcsTaskStore = new GCSTaskStore(bucketName);
-      taskStoreForExecutor = gcsTaskStore;
-      taskStoreForHandler = new NoOpTaskStore(gcsTaskStore);
-    } else {
-      logger.info('Using InMemoryTaskStore');
-      const inMemoryTaskStore = new InMemoryTaskStore();
-      taskStoreForExecutor = inMemoryTaskStore;
-      taskStoreForHandler = inMemoryTaskStore;
-    }
+    const {
+      executorStore: taskStoreForExecutor,
+      handlerStore: taskStoreForHandler,
+    } = await createTaskStores(settings.taskStore);
 
     const agentExecutor = new CoderAgentExecutor(taskStoreForExecutor);
 
     const context = { config, git, agentExecutor };
 
+    const getOrReconstructTask = async (taskId: string) => {
+      const wrapper = agentExecutor.getTask(taskId);
+      if (wrapper) {
+        return wrapper;
+      }
+      const sdkTask = await taskStoreForExecutor.load(taskId);
+      return sdkTask ? agentExecutor.reconstruct(sdkTask) : undefined;
+    };
+
     const requestHandler = new DefaultRequestHandler(
       coderAgentCard,
       taskStoreForHandler,
@@ -304,20 +308,150 @@ export async function createApp() {
     });
 
     expressApp.get('/tasks/:taskId/metadata', async (req, res) => {
-      const taskId = req.params.taskId;
-      let wrapper = agentExecutor.getTask(taskId);
-      if (!wrapper) {
-        const sdkTask = await taskStoreForExecutor.load(taskId);
-        if (sdkTask) {
-          wrapper = await agentExecutor.reconstruct(sdkTask);
-        }
-      }
+      const wrapper = await getOrReconstructTask(req.params.taskId);
       if (!wrapper) {
         res.status(404).send({ error: 'Task not found' });
         return;
       }
       res.json({ metadata: await wrapper.task.getMetadata() });
     });
+
+    expressApp.get('/tasks/:taskId/events', async (req, res) => {
+      const taskId = req.params.taskId;
+      try {
+        const wrapper = await getOrReconstructTask(taskId);
+        if (!wrapper) {
+          res.status(404).send({ error: 'Task not found' });
+          return;
+        }
+
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+        });
+        const writeEvent = (event: AgentExecutionEvent) => {
+          const jsonRpcResponse = { jsonrpc: '2.0', id: taskId, result: event };
+          res.write(`data: ${JSON.stringify(jsonRpcResponse)}\n\n`);
+        };
+
+        // Start with a snapshot so subscribers know the current state.
+        writeEvent(wrapper.toSDKTask());
+        if (TERMINAL_TASK_STATES.includes(wrapper.task.taskState)) {
+          res.end();
+          return;
+        }
+
+        const unsubscribe = wrapper.task.subscribe((event) => {
+          writeEvent(event);
+          if (
+            event.kind === 'status-update' &&
+            event.final &&
+            TERMINAL_TASK_STATES.includes(event.status.state)
+          ) {
+            unsubscribe();
+            res.end();
+          }
+        });
+        req.on('close', unsubscribe);
+      } catch (error) {
+        logger.error(
+          `[CoreAgent] Error streaming events for task ${taskId}:`,
+          error,
+        );
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : 'Unknown error streaming task events';
+        res.status(500).send({ error: errorMessage });
+      }
+    });
+
+    expressApp.post('/tasks/:taskId/cancel', async (req, res) => {
+      const taskId = req.params.taskId;
+      try {
+        const wrapper = await getOrReconstructTask(taskId);
+        if (!wrapper) {
+          res.status(404).send({ error: 'Task not found' });
+          return;
+        }
+        if (TERMINAL_TASK_STATES.includes(wrapper.task.taskState)) {
+          res.status(409).send({
+            error: `Task ${taskId} is already ${wrapper.task.taskState}.`,
+          });
+          return;
+        }
+
+        const eventBus = new DefaultExecutionEventBus();
+        await agentExecutor.cancelTask(taskId, eventBus);
+        eventBus.finished();
+        if (wrapper.task.taskState !== 'canceled') {
+          res.status(500).send({ error: `Failed to cancel task ${taskId}.` });
+          return;
+        }
+        res.status(200).json({ id: taskId, state: wrapper.task.taskState });
+      } catch (error) {
+        logger.error(`[CoreAgent] Error canceling task ${taskId}:`, error);
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : 'Unknown error canceling task';
+        res.status(500).send({ error: errorMessage });
+      }
+    });
+
+    expressApp.post('/tasks/:taskId/confirm', async (req, res) => {
+      const taskId = req.params.taskId;
+      const { callId, outcome, newContent } = req.body ?? {};
+      if (typeof callId !== 'string' || typeof outcome !== 'string') {
+        res
+          .status(400)
+          .send({ error: '"callId" and "outcome" fields must be strings.' });
+        return;
+      }
+      if (newContent !== undefined && typeof newContent !== 'string') {
+        res.status(400).send({ error: '"newContent" field must be a string.' });
+        return;
+      }
+      try {
+        // Pending confirmations only live in memory, so there is nothing to
+        // confirm on a task reconstructed from the store.
+        const wrapper = agentExecutor.getTask(taskId);
+        if (!wrapper) {
+          res.status(404).send({ error: 'Task not found' });
+          return;
+        }
+        if (!wrapper.task.pendingToolConfirmationDetails.has(callId)) {
+          res.status(404).send({
+            error: `No tool call ${callId} is awaiting confirmation.`,
+          });
+          return;
+        }
+
+        const confirmed = await wrapper.task.confirmToolCall(
+          callId,
+          outcome,
+          newContent,
+        );
+        if (!confirmed) {
+          res.status(400).send({
+            error: `Could not apply outcome "${outcome}" to tool call ${callId}.`,
+          });
+          return;
+        }
+        res.status(200).json({ id: taskId, callId, outcome });
+      } catch (error) {
+        logger.error(
+          `[CoreAgent] Error confirming tool call ${callId} for task ${taskId}:`,
+          error,
+        );
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : 'Unknown error confirming tool call';
+        res.status(500).send({ error: errorMessage });
+      }
+    });
     return expressApp;
   } catch (error) {
     logger.error('[CoreAgent] Error during startup:', error);
@@ -4,7 +4,15 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  vi,
+  type Mock,
+} from 'vitest';
 import request from 'supertest';
 import type express from 'express';
 import * as fs from 'node:fs';
@@ -24,6 +32,18 @@ vi.mock('../utils/logger.js', () => ({
   logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
 }));
 
+const mockTasks = vi.hoisted(
+  () =>
+    new Map<
+      string,
+      {
+        subscribe: Mock;
+        confirmToolCall: Mock;
+        pendingToolConfirmationDetails: Map<string, unknown>;
+      }
+    >(),
+);
+
 // Mock Task.create to avoid its complex setup
 vi.mock('../agent/task.js', () => {
   class MockTask {
@@ -37,11 +57,37 @@ vi.mock('../agent/task.js', () => {
     };
     geminiClient = {
       initialize: vi.fn().mockResolvedValue(undefined),
+      isInitialized: vi.fn().mockReturnValue(false),
     };
+    pendingToolConfirmationDetails = new Map<string, unknown>();
+    listeners = new Set<(event: unknown) => void>();
     constructor(id: string, contextId: string) {
       this.id = id;
       this.contextId = contextId;
+      mockTasks.set(id, this);
     }
+    subscribe = vi.fn().mockImplementation((listener) => {
+      this.listeners.add(listener);
+      return () => this.listeners.delete(listener);
+    });
+    confirmToolCall = vi.fn().mockResolvedValue(true);
+    cancelPendingTools = vi.fn();
+    setTaskStateAndPublishUpdate = vi
+      .fn()
+      .mockImplementation(
+        (state: string, _message, _text, _parts, final = false) => {
+          this.taskState = state;
+          for (const listener of this.listeners) {
+            listener({
+              kind: 'status-update',
+              taskId: this.id,
+              contextId: this.contextId,
+              status: { state },
+              final,
+            });
+          }
+        },
+      );
     static create = vi
       .fn()
       .mockImplementation((id, contextId) =>
@@ -69,6 +115,12 @@ vi.mock('../config/config.js', async () => {
   };
 });
 
+const parseSSEEvents = (stream: string) =>
+  stream
+    .split('\n\n')
+    .filter(Boolean)
+    .map((chunk) => JSON.parse(chunk.replace(/^data: /, '')).result);
+
 describe('Agent Server Endpoints', () => {
   let app: express.Express;
   let server: Server;
@@ -152,6 +204,110 @@ describe('Agent Server Endpoints', () => {
     expect(response.status).toBe(404);
   });
 
+  it('should cancel a task via POST /tasks/:taskId/cancel', async () => {
+    const taskId = (await createTask('test-context-cancel')).body;
+
+    const response = await request(app).post(`/tasks/${taskId}/cancel`);
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ id: taskId, state: 'canceled' });
+
+    const secondResponse = await request(app).post(`/tasks/${taskId}/cancel`);
+    expect(secondResponse.status).toBe(409);
+    expect(secondResponse.body.error).toBe(
+      `Task ${taskId} is already canceled.`,
+    );
+  });
+
+  it('should return 404 when canceling a non-existent task', async () => {
+    const response = await request(app).post('/tasks/fake-task/cancel');
+    expect(response.status).toBe(404);
+  });
+
+  it('should stream task events until the task is canceled', async () => {
+    const taskId = (await createTask('test-context-events')).body;
+    const eventsResponse = request(app)
+      .get(`/tasks/${taskId}/events`)
+      .then((response) => response);
+    await vi.waitFor(() =>
+      expect(mockTasks.get(taskId)?.subscribe).toHaveBeenCalled(),
+    );
+
+    await request(app).post(`/tasks/${taskId}/cancel`).expect(200);
+
+    const response = await eventsResponse;
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('text/event-stream');
+    const events = parseSSEEvents(response.text);
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({
+      kind: 'task',
+      id: taskId,
+      status: { state: 'submitted' },
+    });
+    expect(events[1]).toMatchObject({
+      kind: 'status-update',
+      status: { state: 'canceled' },
+      final: true,
+    });
+  });
+
+  it('should end the event stream immediately for a finished task', async () => {
+    const taskId = (await createTask('test-context-finished')).body;
+    await request(app).post(`/tasks/${taskId}/cancel`).expect(200);
+
+    const response = await request(app).get(`/tasks/${taskId}/events`);
+    expect(response.status).toBe(200);
+    const events = parseSSEEvents(response.text);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      kind: 'task',
+      status: { state: 'canceled' },
+    });
+  });
+
+  it('should confirm a pending tool call via POST /tasks/:taskId/confirm', async () => {
+    const taskId = (await createTask('test-context-confirm')).body;
+    const task = mockTasks.get(taskId)!;
+    task.pendingToolConfirmationDetails.set('call-1', {});
+
+    const response = await request(app)
+      .post(`/tasks/${taskId}/confirm`)
+      .send({ callId: 'call-1', outcome: 'proceed_once' });
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      id: taskId,
+      callId: 'call-1',
+      outcome: 'proceed_once',
+    });
+    expect(task.confirmToolCall).toHaveBeenCalledWith(
+      'call-1',
+      'proceed_once',
+      undefined,
+    );
+  });
+
+  it('should reject invalid tool confirmations', async () => {
+    const taskId = (await createTask('test-context-confirm-invalid')).body;
+
+    const missingFields = await request(app)
+      .post(`/tasks/${taskId}/confirm`)
+      .send({ callId: 'call-1' });
+    expect(missingFields.status).toBe(400);
+
+    const unknownCall = await request(app)
+      .post(`/tasks/${taskId}/confirm`)
+      .send({ callId: 'call-1', outcome: 'proceed_once' });
+    expect(unknownCall.status).toBe(404);
+    expect(unknownCall.body.error).toBe(
+      'No tool call call-1 is awaiting confirmation.',
+    );
+
+    const unknownTask = await request(app)
+      .post('/tasks/fake-task/confirm')
+      .send({ callId: 'call-1', outcome: 'proceed_once' });
+    expect(unknownTask.status).toBe(404);
+  });
+
   it('should return agent metadata via GET /.well-known/agent-card.json', async () => {
     const response = await request(app).get('/.well-known/agent-card.json');
     const port = (server.address() as AddressInfo).port;
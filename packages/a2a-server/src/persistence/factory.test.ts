@@ -0,0 +1,188 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InMemoryTaskStore } from '@a2a-js/sdk/server';
+
+import { createTaskStores, resolveTaskStoreSettings } from './factory.js';
+import { GCSTaskStore, NoOpTaskStore } from './gcs.js';
+import { FileSystemTaskStore } from './fs.js';
+import { SqliteTaskStore } from './sqlite.js';
+
+vi.mock('./gcs.js', () => ({
+  GCSTaskStore: vi.fn(),
+  NoOpTaskStore: vi.fn(),
+}));
+vi.mock('./fs.js', () => {
+  const FileSystemTaskStore = vi.fn();
+  FileSystemTaskStore.prototype.ready = vi.fn();
+  return { FileSystemTaskStore };
+});
+vi.mock('./sqlite.js', () => {
+  const SqliteTaskStore = vi.fn();
+  SqliteTaskStore.prototype.ready = vi.fn();
+  return { SqliteTaskStore };
+});
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+describe('task store factory', () => {
+  const originalVersions = process.versions;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // The sqlite store is only accepted on Node.js versions with node:sqlite.
+    Object.defineProperty(process, 'versions', {
+      value: { ...originalVersions, node: '22.13.0' },
+      configurable: true,
+    });
+    vi.stubEnv('GCS_BUCKET_NAME', '');
+    vi.stubEnv('TASK_STORE_TYPE', '');
+    vi.stubEnv('TASK_STORE_PATH', '');
+    vi.stubEnv('TASK_STORE_MAX_AGE_DAYS', '');
+    vi.stubEnv('TASK_STORE_MAX_TASKS', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    Object.defineProperty(process, 'versions', {
+      value: originalVersions,
+      configurable: true,
+    });
+  });
+
+  describe('resolveTaskStoreSettings', () => {
+    it('should default to the in-memory store', () => {
+      expect(resolveTaskStoreSettings().type).toBe('memory');
+    });
+
+    it('should use GCS when only a bucket is configured', () => {
+      vi.stubEnv('GCS_BUCKET_NAME', 'bucket');
+
+      expect(resolveTaskStoreSettings()).toMatchObject({
+        type: 'gcs',
+        bucketName: 'bucket',
+      });
+    });
+
+    it('should let the environment override settings', () => {
+      vi.stubEnv('TASK_STORE_TYPE', 'sqlite');
+      vi.stubEnv('TASK_STORE_PATH', '/data/tasks.db');
+      vi.stubEnv('TASK_STORE_MAX_TASKS', '50');
+
+      expect(
+        resolveTaskStoreSettings({
+          type: 'filesystem',
+          path: '/settings/path',
+          maxAgeDays: 30,
+          maxTasks: 10,
+        }),
+      ).toEqual({
+        type: 'sqlite',
+        bucketName: undefined,
+        path: '/data/tasks.db',
+        maxAgeDays: 30,
+        maxTasks: 50,
+      });
+    });
+
+    it('should reject unknown store types and invalid limits', () => {
+      vi.stubEnv('TASK_STORE_TYPE', 'redis');
+      expect(() => resolveTaskStoreSettings()).toThrow(
+        "Unknown task store type 'redis'. Expected one of: memory, gcs, filesystem, sqlite.",
+      );
+
+      vi.stubEnv('TASK_STORE_TYPE', '');
+      vi.stubEnv('TASK_STORE_MAX_AGE_DAYS', 'soon');
+      expect(() => resolveTaskStoreSettings()).toThrow(
+        'TASK_STORE_MAX_AGE_DAYS must be a non-negative number, got: soon',
+      );
+    });
+
+    it('should reject the sqlite store before Node.js 22.5', () => {
+      expect(() =>
+        resolveTaskStoreSettings({ type: 'sqlite' }, '22.4.1'),
+      ).toThrow(
+        'The sqlite task store requires Node.js 22.5 or later, but this is Node.js 22.4.1. Use the filesystem store instead.',
+      );
+      vi.stubEnv('TASK_STORE_TYPE', 'sqlite');
+      expect(() => resolveTaskStoreSettings({}, '20.19.0')).toThrow(
+        'requires Node.js 22.5 or later',
+      );
+      expect(resolveTaskStoreSettings({}, '22.5.0').type).toBe('sqlite');
+      expect(resolveTaskStoreSettings({}, '24.0.0').type).toBe('sqlite');
+    });
+  });
+
+  describe('createTaskStores', () => {
+    it('should share one in-memory store', async () => {
+      const { executorStore, handlerStore } = await createTaskStores();
+
+      expect(executorStore).toBeInstanceOf(InMemoryTaskStore);
+      expect(handlerStore).toBe(executorStore);
+    });
+
+    it('should wrap persistent stores for the request handler', async () => {
+      const { executorStore, handlerStore } = await createTaskStores({
+        type: 'gcs',
+        bucketName: 'bucket',
+      });
+
+      expect(GCSTaskStore).toHaveBeenCalledWith('bucket');
+      expect(executorStore).toBeInstanceOf(GCSTaskStore);
+      expect(NoOpTaskStore).toHaveBeenCalledWith(executorStore);
+      expect(handlerStore).toBeInstanceOf(NoOpTaskStore);
+    });
+
+    it('should pass the path and retention to local stores', async () => {
+      await createTaskStores({
+        type: 'filesystem',
+        path: '/data/tasks',
+        maxAgeDays: 7,
+      });
+      await createTaskStores({
+        type: 'sqlite',
+        path: '/data/tasks.db',
+        maxTasks: 3,
+      });
+
+      expect(FileSystemTaskStore).toHaveBeenCalledWith({
+        rootDir: '/data/tasks',
+        retention: { maxAgeDays: 7, maxTasks: undefined },
+      });
+      expect(SqliteTaskStore).toHaveBeenCalledWith({
+        dbPath: '/data/tasks.db',
+        retention: { maxAgeDays: undefined, maxTasks: 3 },
+      });
+    });
+
+    it('should wait for local stores to open', async () => {
+      await createTaskStores({ type: 'filesystem' });
+      await createTaskStores({ type: 'sqlite' });
+
+      expect(FileSystemTaskStore.prototype.ready).toHaveBeenCalledTimes(1);
+      expect(SqliteTaskStore.prototype.ready).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail when a local store cannot be opened', async () => {
+      vi.mocked(SqliteTaskStore.prototype.ready).mockRejectedValueOnce(
+        new Error('The SQLite task store requires the node:sqlite module'),
+      );
+
+      await expect(createTaskStores({ type: 'sqlite' })).rejects.toThrow(
+        'The SQLite task store requires the node:sqlite module',
+      );
+    });
+
+    it('should require a bucket for the gcs store', async () => {
+      await expect(createTaskStores({ type: 'gcs' })).rejects.toThrow(
+        'The gcs task store requires GCS_BUCKET_NAME or taskStore.bucketName.',
+      );
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as path from 'node:path';
+import type { TaskStore } from '@a2a-js/sdk/server';
+import { InMemoryTaskStore } from '@a2a-js/sdk/server';
+import { logger } from '../utils/logger.js';
+import {
+  USER_SETTINGS_DIR,
+  type TaskStoreSettings,
+  type TaskStoreType,
+} from '../config/settings.js';
+import { GCSTaskStore, NoOpTaskStore } from './gcs.js';
+import { FileSystemTaskStore } from './fs.js';
+import { SqliteTaskStore } from './sqlite.js';
+
+const TASK_STORE_TYPES: readonly TaskStoreType[] = [
+  'memory',
+  'gcs',
+  'filesystem',
+  'sqlite',
+];
+
+export const DEFAULT_TASK_STORE_DIR = path.join(USER_SETTINGS_DIR, 'a2a');
+
+export interface TaskStores {
+  /** The store the agent executor saves tasks to. */
+  executorStore: TaskStore;
+  /** The store handed to the A2A request handler. */
+  handlerStore: TaskStore;
+}
+
+function parseLimit(name: string, value: string | undefined) {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const limit = Number(value);
+  if (!Number.isFinite(limit) || limit < 0) {
+    throw new Error(`${name} must be a non-negative number, got: ${value}`);
+  }
+  return limit;
+}
+
+function isTaskStoreType(value: string): value is TaskStoreType {
+  return TASK_STORE_TYPES.some((type) => type === value);
+}
+
+/** Whether a Node.js version has the built-in `node:sqlite` module (22.5+). */
+function hasNodeSqlite(nodeVersion: string): boolean {
+  const [major, minor] = nodeVersion.split('.').map(Number);
+  return major > 22 || (major === 22 && minor >= 5);
+}
+
+/**
+ * Merges the `taskStore` settings with the environment, which takes
+ * precedence. Without an explicit type, `GCS_BUCKET_NAME` selects the GCS
+ * store and the in-memory store is used otherwise.
+ *
+ * @throws {Error} if the `sqlite` store is selected on a Node.js version
+ *   without `node:sqlite`.
+ */
+export function resolveTaskStoreSettings(
+  settings: TaskStoreSettings = {},
+  nodeVersion: string = process.versions.node,
+): TaskStoreSettings {
+  const env = process.env;
+  const bucketName = env['GCS_BUCKET_NAME'] || settings.bucketName;
+  const type = env['TASK_STORE_TYPE'] || settings.type;
+  if (type !== undefined && !isTaskStoreType(type)) {
+    throw new Error(
+      `Unknown task store type '${type}'. Expected one of: ${TASK_STORE_TYPES.join(', ')}.`,
+    );
+  }
+  if (type === 'sqlite' && !hasNodeSqlite(nodeVersion)) {
+    throw new Error(
+      `The sqlite task store requires Node.js 22.5 or later, but this is Node.js ${nodeVersion}. Use the filesystem store instead.`,
+    );
+  }
+  return {
+    type: type ?? (bucketName ? 'gcs' : 'memory'),
+    bucketName,
+    path: env['TASK_STORE_PATH'] || settings.path,
+    maxAgeDays:
+      parseLimit('TASK_STORE_MAX_AGE_DAYS', env['TASK_STORE_MAX_AGE_DAYS']) ??
+      settings.maxAgeDays,
+    maxTasks:
+      parseLimit('TASK_STORE_MAX_TASKS', env['TASK_STORE_MAX_TASKS']) ??
+      settings.maxTasks,
+  };
+}
+
+/**
+ * Creates the task stores for the configured type. Local stores are opened
+ * before this resolves, so a misconfigured store fails at startup rather
+ * than on the first request.
+ */
+export async function createTaskStores(
+  settings?: TaskStoreSettings,
+): Promise<TaskStores> {
+  const resolved = resolveTaskStoreSettings(settings);
+  const retention = {
+    maxAgeDays: resolved.maxAgeDays,
+    maxTasks: resolved.maxTasks,
+  };
+
+  let store: TaskStore;
+  switch (resolved.type) {
+    case 'gcs':
+      if (!resolved.bucketName) {
+        throw new Error(
+          'The gcs task store requires GCS_BUCKET_NAME or taskStore.bucketName.',
+        );
+      }
+      logger.info(`Using GCSTaskStore with bucket: ${resolved.bucketName}`);
+      store = new GCSTaskStore(resolved.bucketName);
+      break;
+    case 'filesystem': {
+      const rootDir =
+        resolved.path ?? path.join(DEFAULT_TASK_STORE_DIR, 'tasks');
+      logger.info(`Using FileSystemTaskStore in: ${rootDir}`);
+      const fsStore = new FileSystemTaskStore({ rootDir, retention });
+      await fsStore.ready();
+      store = fsStore;
+      break;
+    }
+    case 'sqlite': {
+      const dbPath =
+        resolved.path ?? path.join(DEFAULT_TASK_STORE_DIR, 'tasks.db');
+      logger.info(`Using SqliteTaskStore with database: ${dbPath}`);
+      const sqliteStore = new SqliteTaskStore({ dbPath, retention });
+      await sqliteStore.ready();
+      store = sqliteStore;
+      break;
+    }
+    default: {
+      logger.info('Using InMemoryTaskStore');
+      const inMemoryTaskStore = new InMemoryTaskStore();
+      return {
+        executorStore: inMemoryTaskStore,
+        handlerStore: inMemoryTaskStore,
+      };
+    }
+  }
+
+  // Only the executor writes to persistent stores; it saves the task state
+  // it needs to reconstruct a task, which the handler's copy lacks.
+  return { executorStore: store, handlerStore: new NoOpTaskStore(store) };
+}
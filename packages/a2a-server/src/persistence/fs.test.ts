@@ -0,0 +1,160 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { Task as SDKTask } from '@a2a-js/sdk';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { FileSystemTaskStore } from './fs.js';
+import { setTargetDir } from '../config/config.js';
+import { METADATA_KEY } from '../types.js';
+
+vi.mock('../config/config.js', () => ({
+  setTargetDir: vi.fn(),
+}));
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const createTask = (id: string): SDKTask => ({
+  id,
+  contextId: `context-${id}`,
+  kind: 'task',
+  status: { state: 'working', timestamp: new Date().toISOString() },
+  metadata: {
+    [METADATA_KEY]: {
+      _agentSettings: { kind: 'agent-settings', workspacePath: '/ws' },
+      _taskState: 'input-required',
+      _conversationHistory: [{ role: 'user', parts: [{ text: 'hello' }] }],
+    },
+    _contextId: `context-${id}`,
+  },
+  history: [],
+  artifacts: [],
+});
+
+describe('FileSystemTaskStore', () => {
+  let testDir: string;
+  let storeDir: string;
+  let workspaceDir: string;
+  let restoreDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fs-task-store-test-'));
+    storeDir = path.join(testDir, 'store');
+    workspaceDir = path.join(testDir, 'workspace');
+    restoreDir = path.join(testDir, 'restore');
+    fs.mkdirSync(workspaceDir);
+    vi.spyOn(process, 'cwd').mockReturnValue(workspaceDir);
+    vi.mocked(setTargetDir).mockReturnValue(restoreDir);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should round-trip task metadata and the workspace', async () => {
+    fs.mkdirSync(path.join(workspaceDir, 'src'));
+    fs.writeFileSync(path.join(workspaceDir, 'src', 'a.ts'), 'const a = 1;');
+    const store = new FileSystemTaskStore({ rootDir: storeDir });
+    const task = createTask('task-1');
+
+    await store.save(task);
+    const loaded = await new FileSystemTaskStore({ rootDir: storeDir }).load(
+      'task-1',
+    );
+
+    expect(loaded).toEqual({
+      id: 'task-1',
+      contextId: 'context-task-1',
+      kind: 'task',
+      status: { state: 'input-required', timestamp: expect.any(String) },
+      metadata: task.metadata,
+      history: [],
+      artifacts: [],
+    });
+    expect(setTargetDir).toHaveBeenCalledWith({
+      kind: 'agent-settings',
+      workspacePath: '/ws',
+    });
+    expect(fs.readFileSync(path.join(restoreDir, 'src', 'a.ts'), 'utf-8')).toBe(
+      'const a = 1;',
+    );
+  });
+
+  it('should drop a stale workspace archive when the workspace is emptied', async () => {
+    fs.writeFileSync(path.join(workspaceDir, 'a.txt'), 'a');
+    const store = new FileSystemTaskStore({ rootDir: storeDir });
+    await store.save(createTask('task-1'));
+
+    fs.rmSync(path.join(workspaceDir, 'a.txt'));
+    await store.save(createTask('task-1'));
+
+    expect(
+      fs.existsSync(path.join(storeDir, 'task-1', 'workspace.tar.gz')),
+    ).toBe(false);
+  });
+
+  it('should return undefined for unknown tasks', async () => {
+    const store = new FileSystemTaskStore({ rootDir: storeDir });
+
+    expect(await store.load('missing')).toBeUndefined();
+  });
+
+  it('should reject invalid task ids', async () => {
+    const store = new FileSystemTaskStore({ rootDir: storeDir });
+
+    await expect(store.load('../escape')).rejects.toThrow(
+      'Invalid taskId: ../escape',
+    );
+  });
+
+  it('should reject tasks without persisted state', async () => {
+    const store = new FileSystemTaskStore({ rootDir: storeDir });
+
+    await expect(
+      store.save({ ...createTask('t'), metadata: {} }),
+    ).rejects.toThrow('Task t is missing persisted state in metadata.');
+  });
+
+  it('should keep only the newest tasks when maxTasks is set', async () => {
+    const store = new FileSystemTaskStore({
+      rootDir: storeDir,
+      retention: { maxTasks: 2 },
+    });
+    for (const [index, id] of ['old', 'middle', 'new'].entries()) {
+      await store.save(createTask(id));
+      const recordPath = path.join(storeDir, id, 'task.json');
+      const time = new Date(Date.now() - (3 - index) * 60_000);
+      fs.utimesSync(recordPath, time, time);
+    }
+
+    // The third save evicted the least recently updated task.
+    expect(fs.readdirSync(storeDir).sort()).toEqual(['middle', 'new']);
+    expect(await store.cleanup()).toEqual([]);
+  });
+
+  it('should remove tasks older than maxAgeDays on startup', async () => {
+    await new FileSystemTaskStore({ rootDir: storeDir }).save(
+      createTask('stale'),
+    );
+    const recordPath = path.join(storeDir, 'stale', 'task.json');
+    const tenDaysAgo = new Date(Date.now() - 10 * 24 * 60 * 60 * 1000);
+    fs.utimesSync(recordPath, tenDaysAgo, tenDaysAgo);
+
+    const store = new FileSystemTaskStore({
+      rootDir: storeDir,
+      retention: { maxAgeDays: 7 },
+    });
+
+    expect(await store.load('stale')).toBeUndefined();
+    expect(fs.existsSync(path.join(storeDir, 'stale'))).toBe(false);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fse from 'fs-extra';
+import { promises as fsPromises } from 'node:fs';
+import { join } from 'node:path';
+import type { Task as SDKTask } from '@a2a-js/sdk';
+import type { TaskStore } from '@a2a-js/sdk/server';
+import { v4 as uuidv4 } from 'uuid';
+import { isNodeError } from '@google/gemini-cli-core';
+import { logger } from '../utils/logger.js';
+import { setTargetDir } from '../config/config.js';
+import {
+  fromTaskRecord,
+  getRecordPersistedState,
+  toTaskRecord,
+  type TaskRecord,
+} from './record.js';
+import {
+  getExpiredTaskIds,
+  hasRetentionLimits,
+  type PersistedTaskEntry,
+  type TaskStoreRetention,
+} from './retention.js';
+import {
+  assertTaskIdValid,
+  createWorkspaceArchive,
+  extractWorkspaceArchive,
+  getTmpArchivePath,
+  isTaskIdValid,
+} from './workspace.js';
+
+const RECORD_FILE = 'task.json';
+const WORKSPACE_FILE = 'workspace.tar.gz';
+
+export interface FileSystemTaskStoreOptions {
+  /** Directory holding one subdirectory per task. */
+  rootDir: string;
+  retention?: TaskStoreRetention;
+}
+
+/**
+ * Persists tasks on the local disk. Each task gets a directory containing a
+ * JSON record of its metadata and history, and a tarball of its workspace.
+ */
+export class FileSystemTaskStore implements TaskStore {
+  private rootDir: string;
+  private retention: TaskStoreRetention;
+  private initialized: Promise<void>;
+
+  constructor(options: FileSystemTaskStoreOptions) {
+    if (!options.rootDir) {
+      throw new Error('A directory is required for the file system store.');
+    }
+    this.rootDir = options.rootDir;
+    this.retention = options.retention ?? {};
+    logger.info(`FileSystemTaskStore initializing in: ${this.rootDir}`);
+    this.initialized = this.initialize();
+    // Failures surface from ready(), save() and load(); log them here so an
+    // unawaited store doesn't cause an unhandled rejection.
+    this.initialized.catch((error) => {
+      logger.error(
+        `Failed to initialize task store in ${this.rootDir}:`,
+        error,
+      );
+    });
+  }
+
+  /** Resolves once the store directory is ready, or rejects if it is not. */
+  async ready(): Promise<void> {
+    await this.initialized;
+  }
+
+  private async initialize(): Promise<void> {
+    await fse.ensureDir(this.rootDir);
+    await this.cleanup();
+  }
+
+  private getTaskDir(taskId: string): string {
+    assertTaskIdValid(taskId);
+    return join(this.rootDir, taskId);
+  }
+
+  async save(task: SDKTask): Promise<void> {
+    await this.initialized;
+    const taskId = task.id;
+    const taskDir = this.getTaskDir(taskId);
+    const record = toTaskRecord(task);
+
+    try {
+      await fse.ensureDir(taskDir);
+      const workspacePath = join(taskDir, WORKSPACE_FILE);
+      const tmpArchivePath = getTmpArchivePath(taskId);
+      try {
+        if (await createWorkspaceArchive(process.cwd(), tmpArchivePath)) {
+          await fse.move(tmpArchivePath, workspacePath, { overwrite: true });
+        } else {
+          // Don't let a stale archive resurrect files on the next load.
+          await fse.remove(workspacePath);
+        }
+      } finally {
+        await fse.remove(tmpArchivePath);
+      }
+
+      // Write the record last and atomically, so a task is only loadable
+      // once its workspace archive is in place.
+      const recordPath = join(taskDir, RECORD_FILE);
+      const tmpRecordPath = `${recordPath}.${uuidv4()}.tmp`;
+      await fsPromises.writeFile(tmpRecordPath, JSON.stringify(record));
+      await fsPromises.rename(tmpRecordPath, recordPath);
+      logger.info(`Task ${taskId} saved to ${taskDir}`);
+    } catch (error) {
+      logger.error(`Failed to save task ${taskId} to disk:`, error);
+      throw error;
+    }
+
+    await this.cleanup();
+  }
+
+  async load(taskId: string): Promise<SDKTask | undefined> {
+    await this.initialized;
+    const taskDir = this.getTaskDir(taskId);
+
+    try {
+      let record: TaskRecord;
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+        record = JSON.parse(
+          await fsPromises.readFile(join(taskDir, RECORD_FILE), 'utf-8'),
+        ) as TaskRecord;
+      } catch (error) {
+        if (isNodeError(error) && error.code === 'ENOENT') {
+          logger.info(`Task ${taskId} not found on disk.`);
+          return undefined;
+        }
+        throw error;
+      }
+
+      const persistedState = getRecordPersistedState(record);
+      const workDir = setTargetDir(persistedState._agentSettings);
+      await fse.ensureDir(workDir);
+      const workspacePath = join(taskDir, WORKSPACE_FILE);
+      if (await fse.pathExists(workspacePath)) {
+        await extractWorkspaceArchive(workspacePath, workDir);
+        logger.info(`Task ${taskId} workspace restored to ${workDir}`);
+      }
+
+      return fromTaskRecord(record);
+    } catch (error) {
+      logger.error(`Failed to load task ${taskId} from disk:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes the tasks that fall outside the retention limits.
+   *
+   * @returns The ids of the deleted tasks.
+   */
+  async cleanup(): Promise<string[]> {
+    if (!hasRetentionLimits(this.retention)) {
+      return [];
+    }
+
+    const entries: PersistedTaskEntry[] = [];
+    const dirents = await fsPromises.readdir(this.rootDir, {
+      withFileTypes: true,
+    });
+    for (const dirent of dirents) {
+      if (!dirent.isDirectory() || !isTaskIdValid(dirent.name)) {
+        continue;
+      }
+      const taskDir = join(this.rootDir, dirent.name);
+      // A directory without a record is a save that never completed.
+      const stats = await fsPromises
+        .stat(join(taskDir, RECORD_FILE))
+        .catch(() => fsPromises.stat(taskDir));
+      entries.push({ taskId: dirent.name, updatedAt: stats.mtimeMs });
+    }
+
+    const expired = getExpiredTaskIds(entries, this.retention);
+    for (const taskId of expired) {
+      await fse.remove(join(this.rootDir, taskId));
+    }
+    if (expired.length > 0) {
+      logger.info(`Removed ${expired.length} expired task(s) from disk.`);
+    }
+    return expired;
+  }
+}
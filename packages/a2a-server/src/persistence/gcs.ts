@@ -17,19 +17,13 @@ import { logger } from '../utils/logger.js';
 import { setTargetDir } from '../config/config.js';
 import { getPersistedState, type PersistedTaskMetadata } from '../types.js';
 import { v4 as uuidv4 } from 'uuid';
+import { isTaskIdValid } from './workspace.js';
 
 type ObjectType = 'metadata' | 'workspace';
 
 const getTmpArchiveFilename = (taskId: string): string =>
   `task-${taskId}-workspace-${uuidv4()}.tar.gz`;
 
-// Validate the taskId to prevent path traversal attacks by ensuring it only contains safe characters.
-const isTaskIdValid = (taskId: string): boolean => {
-  // Allow only alphanumeric characters, dashes, and underscores, and ensure it's not empty.
-  const validTaskIdRegex = /^[a-zA-Z0-9_-]+$/;
-  return validTaskIdRegex.test(taskId);
-};
-
 export class GCSTaskStore implements TaskStore {
   private storage: Storage;
   private bucketName: string;
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Task as SDKTask } from '@a2a-js/sdk';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  getPersistedState,
+  type PersistedStateMetadata,
+  type PersistedTaskMetadata,
+} from '../types.js';
+
+/**
+ * Everything the local task stores keep about a task apart from its
+ * workspace archive.
+ */
+export interface TaskRecord {
+  id: string;
+  contextId: string;
+  updatedAt: string;
+  metadata: PersistedTaskMetadata;
+  history: NonNullable<SDKTask['history']>;
+  artifacts: NonNullable<SDKTask['artifacts']>;
+}
+
+export function toTaskRecord(task: SDKTask): TaskRecord {
+  const metadata: PersistedTaskMetadata = task.metadata ?? {};
+  if (!getPersistedState(metadata)) {
+    throw new Error(`Task ${task.id} is missing persisted state in metadata.`);
+  }
+  return {
+    id: task.id,
+    contextId: task.contextId,
+    updatedAt: new Date().toISOString(),
+    metadata,
+    history: task.history ?? [],
+    artifacts: task.artifacts ?? [],
+  };
+}
+
+export function getRecordPersistedState(
+  record: TaskRecord,
+): PersistedStateMetadata {
+  const persistedState = getPersistedState(record.metadata);
+  if (!persistedState) {
+    throw new Error(
+      `Loaded metadata for task ${record.id} is missing internal persisted state.`,
+    );
+  }
+  return persistedState;
+}
+
+export function fromTaskRecord(record: TaskRecord): SDKTask {
+  const persistedState = getRecordPersistedState(record);
+  return {
+    id: record.id,
+    contextId:
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+      (record.metadata['_contextId'] as string | undefined) ||
+      record.contextId ||
+      uuidv4(),
+    kind: 'task',
+    status: {
+      state: persistedState._taskState,
+      timestamp: record.updatedAt,
+    },
+    metadata: record.metadata,
+    history: record.history,
+    artifacts: record.artifacts,
+  };
+}
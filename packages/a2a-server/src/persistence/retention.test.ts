@@ -0,0 +1,41 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getExpiredTaskIds, hasRetentionLimits } from './retention.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('getExpiredTaskIds', () => {
+  const now = 100 * DAY_MS;
+  const entries = [
+    { taskId: 'a', updatedAt: now - 1 * DAY_MS },
+    { taskId: 'b', updatedAt: now - 10 * DAY_MS },
+    { taskId: 'c', updatedAt: now - 3 * DAY_MS },
+  ];
+
+  it('should expire nothing without limits', () => {
+    expect(getExpiredTaskIds(entries, {}, now)).toEqual([]);
+    expect(hasRetentionLimits({})).toBe(false);
+  });
+
+  it('should expire tasks older than maxAgeDays', () => {
+    expect(getExpiredTaskIds(entries, { maxAgeDays: 7 }, now)).toEqual(['b']);
+  });
+
+  it('should expire the least recently updated tasks beyond maxTasks', () => {
+    expect(getExpiredTaskIds(entries, { maxTasks: 1 }, now)).toEqual([
+      'c',
+      'b',
+    ]);
+  });
+
+  it('should combine both limits', () => {
+    expect(
+      getExpiredTaskIds(entries, { maxAgeDays: 2, maxTasks: 2 }, now),
+    ).toEqual(['c', 'b']);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Limits on how many persisted tasks a store keeps. Unset limits are not
+ * enforced.
+ */
+export interface TaskStoreRetention {
+  /** Tasks not updated for this many days are deleted. */
+  maxAgeDays?: number;
+  /** Only the most recently updated tasks, up to this many, are kept. */
+  maxTasks?: number;
+}
+
+export interface PersistedTaskEntry {
+  taskId: string;
+  updatedAt: number;
+}
+
+export function hasRetentionLimits(retention: TaskStoreRetention): boolean {
+  return retention.maxAgeDays !== undefined || retention.maxTasks !== undefined;
+}
+
+/**
+ * Returns the ids of the tasks that fall outside the retention limits.
+ */
+export function getExpiredTaskIds(
+  entries: PersistedTaskEntry[],
+  retention: TaskStoreRetention,
+  now: number = Date.now(),
+): string[] {
+  const newestFirst = [...entries].sort((a, b) => b.updatedAt - a.updatedAt);
+  const cutoff =
+    retention.maxAgeDays !== undefined
+      ? now - retention.maxAgeDays * DAY_MS
+      : -Infinity;
+  const maxTasks = retention.maxTasks ?? Infinity;
+  return newestFirst
+    .filter((entry, index) => index >= maxTasks || entry.updatedAt < cutoff)
+    .map((entry) => entry.taskId);
+}
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { Task as SDKTask } from '@a2a-js/sdk';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { openSqliteDatabase, SqliteTaskStore } from './sqlite.js';
+import { setTargetDir } from '../config/config.js';
+import { logger } from '../utils/logger.js';
+import { METADATA_KEY } from '../types.js';
+
+vi.mock('../config/config.js', () => ({
+  setTargetDir: vi.fn(),
+}));
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const moduleName = 'node:sqlite';
+const hasNodeSqlite = await import(moduleName).then(
+  () => true,
+  () => false,
+);
+
+const createTask = (id: string): SDKTask => ({
+  id,
+  contextId: `context-${id}`,
+  kind: 'task',
+  status: { state: 'working', timestamp: new Date().toISOString() },
+  metadata: {
+    [METADATA_KEY]: {
+      _agentSettings: { kind: 'agent-settings', workspacePath: '/ws' },
+      _taskState: 'input-required',
+    },
+    _contextId: `context-${id}`,
+  },
+  history: [],
+  artifacts: [],
+});
+
+describe('SqliteTaskStore', () => {
+  let testDir: string;
+  let dbPath: string;
+  let workspaceDir: string;
+  let restoreDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlite-task-store-test-'));
+    dbPath = path.join(testDir, 'db', 'tasks.db');
+    workspaceDir = path.join(testDir, 'workspace');
+    restoreDir = path.join(testDir, 'restore');
+    fs.mkdirSync(workspaceDir);
+    vi.spyOn(process, 'cwd').mockReturnValue(workspaceDir);
+    vi.mocked(setTargetDir).mockReturnValue(restoreDir);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it.skipIf(hasNodeSqlite)(
+    'should explain that node:sqlite is required when it is missing',
+    async () => {
+      await expect(openSqliteDatabase(dbPath)).rejects.toThrow(
+        'The SQLite task store requires the node:sqlite module (Node.js 22.5 or later)',
+      );
+    },
+  );
+
+  it('should reject requests when the database cannot be opened', async () => {
+    const store = new SqliteTaskStore({
+      dbPath,
+      openDatabase: () => Promise.reject(new Error('cannot open')),
+    });
+
+    await expect(store.ready()).rejects.toThrow('cannot open');
+    await expect(store.load('task-1')).rejects.toThrow('cannot open');
+    expect(logger.error).toHaveBeenCalledWith(
+      `Failed to open SQLite database ${dbPath}:`,
+      expect.any(Error),
+    );
+  });
+
+  describe.skipIf(!hasNodeSqlite)('with node:sqlite', () => {
+    it('should round-trip task metadata and the workspace', async () => {
+      fs.writeFileSync(path.join(workspaceDir, 'a.txt'), 'hello');
+      const store = new SqliteTaskStore({ dbPath });
+      const task = createTask('task-1');
+
+      await store.save(task);
+      const loaded = await store.load('task-1');
+      await store.close();
+
+      expect(loaded).toMatchObject({
+        id: 'task-1',
+        contextId: 'context-task-1',
+        status: { state: 'input-required' },
+        metadata: task.metadata,
+      });
+      expect(fs.readFileSync(path.join(restoreDir, 'a.txt'), 'utf-8')).toBe(
+        'hello',
+      );
+    });
+
+    it('should return undefined for unknown tasks', async () => {
+      const store = new SqliteTaskStore({ dbPath });
+
+      expect(await store.load('missing')).toBeUndefined();
+      await store.close();
+    });
+
+    it('should keep only the newest tasks when maxTasks is set', async () => {
+      const store = new SqliteTaskStore({
+        dbPath,
+        retention: { maxTasks: 1 },
+      });
+
+      await store.save(createTask('old'));
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await store.save(createTask('new'));
+
+      expect(await store.load('old')).toBeUndefined();
+      expect(await store.load('new')).toBeDefined();
+      await store.close();
+    });
+  });
+});
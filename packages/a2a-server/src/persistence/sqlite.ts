@@ -0,0 +1,259 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fse from 'fs-extra';
+import { promises as fsPromises } from 'node:fs';
+import { dirname } from 'node:path';
+import type { Task as SDKTask } from '@a2a-js/sdk';
+import type { TaskStore } from '@a2a-js/sdk/server';
+import { logger } from '../utils/logger.js';
+import { setTargetDir } from '../config/config.js';
+import {
+  fromTaskRecord,
+  getRecordPersistedState,
+  toTaskRecord,
+  type TaskRecord,
+} from './record.js';
+import {
+  getExpiredTaskIds,
+  hasRetentionLimits,
+  type TaskStoreRetention,
+} from './retention.js';
+import {
+  assertTaskIdValid,
+  createWorkspaceArchive,
+  extractWorkspaceArchive,
+  getTmpArchivePath,
+} from './workspace.js';
+
+/** The subset of `node:sqlite`'s `StatementSync` used by the store. */
+interface SqliteStatement {
+  run(...params: unknown[]): unknown;
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+/** The subset of `node:sqlite`'s `DatabaseSync` used by the store. */
+export interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+  close(): void;
+}
+
+interface TaskRow {
+  id: string;
+  context_id: string;
+  updated_at: number;
+  metadata: string;
+  history: string;
+  artifacts: string;
+  workspace: Uint8Array | null;
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS tasks (
+  id TEXT PRIMARY KEY,
+  context_id TEXT NOT NULL,
+  updated_at INTEGER NOT NULL,
+  metadata TEXT NOT NULL,
+  history TEXT NOT NULL,
+  artifacts TEXT NOT NULL,
+  workspace BLOB
+);
+CREATE INDEX IF NOT EXISTS tasks_updated_at ON tasks (updated_at);
+`;
+
+/**
+ * Opens a database with the SQLite driver built into Node.js, which is
+ * available from Node.js 22.5 (behind `--experimental-sqlite` before 22.13).
+ */
+export async function openSqliteDatabase(
+  dbPath: string,
+): Promise<SqliteDatabase> {
+  // A variable specifier keeps older @types/node from rejecting the import.
+  const moduleName = 'node:sqlite';
+  let sqlite: { DatabaseSync: new (path: string) => SqliteDatabase };
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+    sqlite = (await import(moduleName)) as typeof sqlite;
+  } catch (error) {
+    throw new Error(
+      `The SQLite task store requires the node:sqlite module (Node.js 22.5 or later): ${error}`,
+    );
+  }
+  await fse.ensureDir(dirname(dbPath));
+  return new sqlite.DatabaseSync(dbPath);
+}
+
+export interface SqliteTaskStoreOptions {
+  /** Path of the database file, created if it does not exist. */
+  dbPath: string;
+  retention?: TaskStoreRetention;
+  /** Opens the database; defaults to `openSqliteDatabase`. */
+  openDatabase?: (dbPath: string) => Promise<SqliteDatabase>;
+}
+
+/**
+ * Persists tasks in a single SQLite database file, with the workspace
+ * tarball stored alongside each task's metadata and history.
+ */
+export class SqliteTaskStore implements TaskStore {
+  private dbPath: string;
+  private retention: TaskStoreRetention;
+  private db: Promise<SqliteDatabase>;
+
+  constructor(options: SqliteTaskStoreOptions) {
+    if (!options.dbPath) {
+      throw new Error('A database path is required for the SQLite store.');
+    }
+    this.dbPath = options.dbPath;
+    this.retention = options.retention ?? {};
+    logger.info(`SqliteTaskStore initializing with database: ${this.dbPath}`);
+    this.db = this.initialize(options.openDatabase ?? openSqliteDatabase);
+    // Failures surface from ready(), save() and load(); log them here so an
+    // unawaited store doesn't cause an unhandled rejection.
+    this.db.catch((error) => {
+      logger.error(`Failed to open SQLite database ${this.dbPath}:`, error);
+    });
+  }
+
+  /** Resolves once the database is open, or rejects if it cannot be. */
+  async ready(): Promise<void> {
+    await this.db;
+  }
+
+  private async initialize(
+    openDatabase: (dbPath: string) => Promise<SqliteDatabase>,
+  ): Promise<SqliteDatabase> {
+    const db = await openDatabase(this.dbPath);
+    db.exec(SCHEMA);
+    this.cleanupDatabase(db);
+    return db;
+  }
+
+  async save(task: SDKTask): Promise<void> {
+    const db = await this.db;
+    const taskId = task.id;
+    assertTaskIdValid(taskId);
+    const record = toTaskRecord(task);
+
+    try {
+      let workspace: Buffer | null = null;
+      const tmpArchivePath = getTmpArchivePath(taskId);
+      try {
+        if (await createWorkspaceArchive(process.cwd(), tmpArchivePath)) {
+          workspace = await fsPromises.readFile(tmpArchivePath);
+        }
+      } finally {
+        await fse.remove(tmpArchivePath);
+      }
+
+      db.prepare(
+        `INSERT INTO tasks (id, context_id, updated_at, metadata, history, artifacts, workspace)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           context_id = excluded.context_id,
+           updated_at = excluded.updated_at,
+           metadata = excluded.metadata,
+           history = excluded.history,
+           artifacts = excluded.artifacts,
+           workspace = excluded.workspace`,
+      ).run(
+        record.id,
+        record.contextId,
+        Date.parse(record.updatedAt),
+        JSON.stringify(record.metadata),
+        JSON.stringify(record.history),
+        JSON.stringify(record.artifacts),
+        workspace,
+      );
+      logger.info(`Task ${taskId} saved to ${this.dbPath}`);
+    } catch (error) {
+      logger.error(`Failed to save task ${taskId} to SQLite:`, error);
+      throw error;
+    }
+
+    this.cleanupDatabase(db);
+  }
+
+  async load(taskId: string): Promise<SDKTask | undefined> {
+    const db = await this.db;
+    assertTaskIdValid(taskId);
+
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+      const row = db.prepare('SELECT * FROM tasks WHERE id = ?').get(taskId) as
+        | TaskRow
+        | undefined;
+      if (!row) {
+        logger.info(`Task ${taskId} not found in SQLite.`);
+        return undefined;
+      }
+
+      const record: TaskRecord = {
+        id: row.id,
+        contextId: row.context_id,
+        updatedAt: new Date(row.updated_at).toISOString(),
+        metadata: JSON.parse(row.metadata),
+        history: JSON.parse(row.history),
+        artifacts: JSON.parse(row.artifacts),
+      };
+      const persistedState = getRecordPersistedState(record);
+      const workDir = setTargetDir(persistedState._agentSettings);
+      await fse.ensureDir(workDir);
+      if (row.workspace) {
+        const tmpArchivePath = getTmpArchivePath(taskId);
+        try {
+          await fsPromises.writeFile(tmpArchivePath, row.workspace);
+          await extractWorkspaceArchive(tmpArchivePath, workDir);
+          logger.info(`Task ${taskId} workspace restored to ${workDir}`);
+        } finally {
+          await fse.remove(tmpArchivePath);
+        }
+      }
+
+      return fromTaskRecord(record);
+    } catch (error) {
+      logger.error(`Failed to load task ${taskId} from SQLite:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes the tasks that fall outside the retention limits.
+   *
+   * @returns The ids of the deleted tasks.
+   */
+  async cleanup(): Promise<string[]> {
+    return this.cleanupDatabase(await this.db);
+  }
+
+  async close(): Promise<void> {
+    (await this.db).close();
+  }
+
+  private cleanupDatabase(db: SqliteDatabase): string[] {
+    if (!hasRetentionLimits(this.retention)) {
+      return [];
+    }
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+    const rows = db.prepare('SELECT id, updated_at FROM tasks').all() as Array<
+      Pick<TaskRow, 'id' | 'updated_at'>
+    >;
+    const expired = getExpiredTaskIds(
+      rows.map((row) => ({ taskId: row.id, updatedAt: row.updated_at })),
+      this.retention,
+    );
+    const deleteTask = db.prepare('DELETE FROM tasks WHERE id = ?');
+    for (const taskId of expired) {
+      deleteTask.run(taskId);
+    }
+    if (expired.length > 0) {
+      logger.info(`Removed ${expired.length} expired task(s) from SQLite.`);
+    }
+    return expired;
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as tar from 'tar';
+import * as fse from 'fs-extra';
+import { promises as fsPromises } from 'node:fs';
+import { tmpdir } from '@google/gemini-cli-core';
+import { join } from 'node:path';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger.js';
+
+export const getTmpArchivePath = (taskId: string): string =>
+  join(tmpdir(), `task-${taskId}-workspace-${uuidv4()}.tar.gz`);
+
+// Validate the taskId to prevent path traversal attacks by ensuring it only contains safe characters.
+export const isTaskIdValid = (taskId: string): boolean => {
+  // Allow only alphanumeric characters, dashes, and underscores, and ensure it's not empty.
+  const validTaskIdRegex = /^[a-zA-Z0-9_-]+$/;
+  return validTaskIdRegex.test(taskId);
+};
+
+export const assertTaskIdValid = (taskId: string): void => {
+  if (!isTaskIdValid(taskId)) {
+    throw new Error(`Invalid taskId: ${taskId}`);
+  }
+};
+
+/**
+ * Packs the contents of `workDir` into a gzipped tarball at `archivePath`.
+ *
+ * @returns false if the workspace is missing or empty and nothing was written.
+ */
+export async function createWorkspaceArchive(
+  workDir: string,
+  archivePath: string,
+): Promise<boolean> {
+  if (!(await fse.pathExists(workDir))) {
+    logger.info(`Workspace directory ${workDir} not found, skipping archive.`);
+    return false;
+  }
+  const entries = await fsPromises.readdir(workDir);
+  if (entries.length === 0) {
+    logger.info(`Workspace directory ${workDir} is empty, skipping archive.`);
+    return false;
+  }
+  await tar.c(
+    { gzip: true, file: archivePath, cwd: workDir, portable: true },
+    entries,
+  );
+  if (!(await fse.pathExists(archivePath))) {
+    throw new Error(`tar.c command failed to create ${archivePath}`);
+  }
+  return true;
+}
+
+/** Unpacks a tarball created by `createWorkspaceArchive` into `workDir`. */
+export async function extractWorkspaceArchive(
+  archivePath: string,
+  workDir: string,
+): Promise<void> {
+  await fse.ensureDir(workDir);
+  await tar.x({ file: archivePath, cwd: workDir });
+}
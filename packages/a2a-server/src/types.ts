@@ -8,6 +8,7 @@ import type {
   MCPServerStatus,
   ToolConfirmationOutcome,
 } from '@google/gemini-cli-core';
+import type { Content } from '@google/genai';
 import type { TaskState } from '@a2a-js/sdk';
 
 // Interfaces and enums for the CoderAgent protocol.
@@ -116,6 +117,8 @@ export interface TaskMetadata {
 export interface PersistedStateMetadata {
   _agentSettings: AgentSettings;
   _taskState: TaskState;
+  /** The model conversation, so a reloaded task can pick up where it left off. */
+  _conversationHistory?: Content[];
 }
 
 export type PersistedTaskMetadata = { [k: string]: unknown };
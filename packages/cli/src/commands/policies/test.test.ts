@@ -0,0 +1,196 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { format } from 'node:util';
+import {
+  ApprovalMode,
+  InProcessCheckerType,
+  PolicyDecision,
+  type PolicyEngineConfig,
+} from '@google/gemini-cli-core';
+import { handleTest, readRecordedCalls } from './test.js';
+import { createPolicyEngineConfig } from '../../config/policy.js';
+import type { MergedSettings } from '../../config/settings.js';
+
+const debugLogger = vi.hoisted(() => ({
+  log: vi.fn(),
+  error: vi.fn(),
+}));
+
+vi.mock('@google/gemini-cli-core', async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import('@google/gemini-cli-core')>();
+  return {
+    ...actual,
+    debugLogger,
+  };
+});
+
+vi.mock('../../config/policy.js');
+vi.mock('../utils.js', () => ({
+  exitCli: vi.fn(),
+}));
+
+const policyConfig: PolicyEngineConfig = {
+  rules: [
+    {
+      toolName: 'run_shell_command',
+      argsPattern: /"command":"rm /,
+      decision: PolicyDecision.DENY,
+      priority: 3.1,
+      source: 'Admin: team.toml',
+    },
+    {
+      toolName: 'run_shell_command',
+      decision: PolicyDecision.ALLOW,
+      priority: 2.1,
+      source: 'User: shell.toml',
+    },
+    {
+      decision: PolicyDecision.ALLOW,
+      priority: 1.999,
+      modes: [ApprovalMode.YOLO],
+    },
+  ],
+};
+
+describe('policies test command', () => {
+  let tempDir: string;
+  const settings = {} as MergedSettings;
+
+  const output = () =>
+    debugLogger.log.mock.calls
+      .map(([message, ...args]) => format(message, ...args))
+      .join('\n');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(createPolicyEngineConfig).mockResolvedValue(policyConfig);
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'policies-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should explain a single call with every matching rule', async () => {
+    const passed = await handleTest({
+      tool: 'run_shell_command',
+      args: '{"command":"rm -rf build"}',
+      settings,
+    });
+
+    expect(passed).toBe(true);
+    expect(createPolicyEngineConfig).toHaveBeenCalledWith(
+      settings,
+      ApprovalMode.DEFAULT,
+    );
+    const text = output();
+    expect(text).toContain('Decision: DENY');
+    expect(text).toContain(
+      'Decided by: DENY | tool run_shell_command | args match /"command":"rm / | priority 3.1 | admin tier | source Admin: team.toml',
+    );
+    expect(text).toContain(
+      '- ALLOW | tool run_shell_command | priority 2.1 | user tier | source User: shell.toml',
+    );
+    expect(text).not.toContain('modes yolo');
+  });
+
+  it('should check recorded calls against their expected decisions', async () => {
+    const file = path.join(tempDir, 'calls.jsonl');
+    fs.writeFileSync(
+      file,
+      [
+        '{"name":"run_shell_command","args":{"command":"ls"},"expect":"allow"}',
+        '{"name":"write_file","args":{"file_path":"a.ts"},"expect":"ask_user"}',
+        '{"name":"write_file","approvalMode":"yolo","expect":"allow"}',
+        '{"name":"run_shell_command","args":{"command":"rm -rf /"},"expect":"allow"}',
+      ].join('\n'),
+    );
+
+    const passed = await handleTest({ file, settings });
+
+    expect(passed).toBe(false);
+    const text = output();
+    expect(text.match(/PASS/g)).toHaveLength(3);
+    expect(text).toContain('FAIL: expected ALLOW');
+    expect(text).toContain('(mode: yolo)');
+    expect(text).toContain('4 calls checked, 1 failed.');
+  });
+
+  it('should run safety checkers and list hook checkers', async () => {
+    vi.mocked(createPolicyEngineConfig).mockResolvedValue({
+      ...policyConfig,
+      checkers: [
+        {
+          toolName: 'run_shell_command',
+          checker: {
+            type: 'in-process',
+            name: InProcessCheckerType.ALLOWED_PATH,
+          },
+        },
+      ],
+      hookCheckers: [
+        {
+          eventName: 'BeforeTool',
+          checker: { type: 'in-process', name: InProcessCheckerType.SECRETS },
+        },
+      ],
+    });
+
+    const passed = await handleTest({
+      tool: 'run_shell_command',
+      args: JSON.stringify({ command: 'ls', dir_path: os.tmpdir() }),
+      settings,
+    });
+
+    expect(passed).toBe(true);
+    const text = output();
+    expect(text).toContain('Decision: DENY');
+    expect(text).toContain('is outside of the allowed workspace directories');
+    expect(text).toContain(
+      'Hook checkers: secrets (in-process, BeforeTool hooks)',
+    );
+  });
+
+  it('should deny calls that would ask the user in non-interactive mode', async () => {
+    const passed = await handleTest({
+      tool: 'write_file',
+      nonInteractive: true,
+      settings,
+    });
+
+    expect(passed).toBe(true);
+    expect(output()).toContain('Decision: DENY');
+  });
+
+  describe('readRecordedCalls', () => {
+    it('should read a JSON array of calls', async () => {
+      const file = path.join(tempDir, 'calls.json');
+      fs.writeFileSync(
+        file,
+        JSON.stringify([{ name: 'glob', args: { pattern: '*' } }]),
+      );
+
+      expect(await readRecordedCalls(file)).toEqual([
+        { name: 'glob', args: { pattern: '*' } },
+      ]);
+    });
+
+    it('should reject invalid calls', async () => {
+      const file = path.join(tempDir, 'calls.json');
+      fs.writeFileSync(file, JSON.stringify([{ name: 'glob', expect: 'yes' }]));
+
+      await expect(readRecordedCalls(file)).rejects.toThrow(
+        /Invalid call #1 in .*calls\.json: expect:/,
+      );
+    });
+  });
+});
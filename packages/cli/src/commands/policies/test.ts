@@ -0,0 +1,250 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { CommandModule } from 'yargs';
+import * as fs from 'node:fs/promises';
+import {
+  ApprovalMode,
+  PolicyDecision,
+  PolicyEngine,
+  WorkspaceContext,
+  createCheckerRunner,
+  debugLogger,
+  getPolicyTierName,
+  type PolicyExplanation,
+  type PolicyRule,
+} from '@google/gemini-cli-core';
+import chalk from 'chalk';
+import { z } from 'zod';
+import { loadSettings, type MergedSettings } from '../../config/settings.js';
+import { createPolicyEngineConfig } from '../../config/policy.js';
+import { getErrorMessage } from '../../utils/errors.js';
+import { exitCli } from '../utils.js';
+
+const ApprovalModeSchema = z.enum(['default', 'auto_edit', 'yolo', 'plan']);
+
+const APPROVAL_MODES: Record<
+  z.infer<typeof ApprovalModeSchema>,
+  ApprovalMode
+> = {
+  default: ApprovalMode.DEFAULT,
+  auto_edit: ApprovalMode.AUTO_EDIT,
+  yolo: ApprovalMode.YOLO,
+  plan: ApprovalMode.PLAN,
+};
+
+/**
+ * Schema for a recorded tool call in a test file.
+ */
+const RecordedCallSchema = z.object({
+  name: z.string(),
+  args: z.record(z.unknown()).optional(),
+  serverName: z.string().optional(),
+  approvalMode: ApprovalModeSchema.optional(),
+  expect: z.nativeEnum(PolicyDecision).optional(),
+});
+
+type RecordedCall = z.infer<typeof RecordedCallSchema>;
+
+interface TestArgs {
+  tool?: string;
+  args?: string;
+  file?: string;
+  mode?: z.infer<typeof ApprovalModeSchema>;
+  nonInteractive?: boolean;
+  settings?: MergedSettings;
+}
+
+/**
+ * Reads recorded calls from a JSON array or a JSON Lines file.
+ */
+export async function readRecordedCalls(
+  filePath: string,
+): Promise<RecordedCall[]> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  let records: unknown[];
+  if (content.trimStart().startsWith('[')) {
+    records = z.array(z.unknown()).parse(JSON.parse(content));
+  } else {
+    records = content
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line));
+  }
+  return records.map((record, i) => {
+    const result = RecordedCallSchema.safeParse(record);
+    if (!result.success) {
+      const issues = result.error.issues
+        .map((issue) => `${issue.path.join('.') || 'call'}: ${issue.message}`)
+        .join(', ');
+      throw new Error(`Invalid call #${i + 1} in ${filePath}: ${issues}`);
+    }
+    return result.data;
+  });
+}
+
+function describeRule(rule: PolicyRule): string {
+  const tier = getPolicyTierName(rule.priority);
+  return [
+    rule.decision.toUpperCase(),
+    rule.toolName ? `tool ${rule.toolName}` : 'all tools',
+    rule.argsPattern && `args match /${rule.argsPattern.source}/`,
+    rule.pathGlobs && `paths ${rule.pathGlobs.join(', ')}`,
+    rule.commandMatcher && `command ${JSON.stringify(rule.commandMatcher)}`,
+    rule.shellExecution && `runs in ${rule.shellExecution}`,
+    rule.modes?.length && `modes ${rule.modes.join(', ')}`,
+    rule.priority !== undefined && `priority ${rule.priority}`,
+    tier && `${tier} tier`,
+    rule.source && `source ${rule.source}`,
+  ]
+    .filter(Boolean)
+    .join(' | ');
+}
+
+/**
+ * Formats an explanation of a call as plain text lines.
+ */
+export function formatExplanation(
+  call: RecordedCall,
+  explanation: PolicyExplanation,
+): string[] {
+  const lines = [
+    chalk.bold(
+      `${call.name} ${JSON.stringify(call.args ?? {})} (mode: ${explanation.approvalMode})`,
+    ),
+    `  Decision: ${chalk.bold(explanation.decision.toUpperCase())}`,
+    `  Decided by: ${explanation.rule ? describeRule(explanation.rule) : 'default decision'}`,
+  ];
+  if (explanation.reason) {
+    lines.push(`  Reason: ${explanation.reason}`);
+  }
+  lines.push('  Matching rules (highest priority first):');
+  if (explanation.matchingRules.length === 0) {
+    lines.push('    none');
+  }
+  for (const rule of explanation.matchingRules) {
+    const marker = rule === explanation.rule ? '*' : '-';
+    lines.push(`    ${marker} ${describeRule(rule)}`);
+  }
+  if (explanation.matchingCheckers.length > 0) {
+    lines.push(
+      `  Safety checkers: ${explanation.matchingCheckers
+        .map(({ checker }) => `${checker.name} (${checker.type})`)
+        .join(', ')}`,
+    );
+  }
+  if (explanation.matchingHookCheckers.length > 0) {
+    lines.push(
+      `  Hook checkers: ${explanation.matchingHookCheckers
+        .map(
+          ({ eventName, checker }) =>
+            `${checker.name} (${checker.type}, ${eventName ?? 'all'} hooks)`,
+        )
+        .join(', ')}`,
+    );
+  }
+  return lines;
+}
+
+/**
+ * Explains each call against the policy engine built from the user's
+ * settings and policy files. Returns false if any call's decision differs
+ * from its expected decision.
+ */
+export async function handleTest(args: TestArgs): Promise<boolean> {
+  const calls: RecordedCall[] = args.file
+    ? await readRecordedCalls(args.file)
+    : [
+        RecordedCallSchema.parse({
+          name: args.tool,
+          args: args.args ? JSON.parse(args.args) : undefined,
+        }),
+      ];
+
+  const settings = args.settings ?? loadSettings().merged;
+  const approvalMode = APPROVAL_MODES[args.mode ?? 'default'];
+  const workspaceContext = new WorkspaceContext(process.cwd());
+  const policyEngine = new PolicyEngine(
+    {
+      ...(await createPolicyEngineConfig(settings, approvalMode)),
+      nonInteractive: args.nonInteractive,
+      getWorkspaceDirectories: () => workspaceContext.getDirectories(),
+    },
+    // Run the safety checkers as a session would, so decisions match.
+    createCheckerRunner({ getWorkspaceContext: () => workspaceContext }),
+  );
+
+  let failures = 0;
+  for (const call of calls) {
+    const explanation = await policyEngine.explain(
+      { name: call.name, args: call.args },
+      call.serverName,
+      call.approvalMode ? APPROVAL_MODES[call.approvalMode] : approvalMode,
+    );
+    const lines = formatExplanation(call, explanation);
+    if (call.expect && call.expect !== explanation.decision) {
+      failures++;
+      lines.push(chalk.red(`  FAIL: expected ${call.expect.toUpperCase()}`));
+    } else if (call.expect) {
+      lines.push(chalk.green('  PASS'));
+    }
+    debugLogger.log(lines.join('\n') + '\n');
+  }
+
+  if (calls.some((call) => call.expect)) {
+    const summary = `${calls.length} calls checked, ${failures} failed.`;
+    debugLogger.log(failures ? chalk.red(summary) : chalk.green(summary));
+  }
+  return failures === 0;
+}
+
+export const testCommand: CommandModule<object, TestArgs> = {
+  command: 'test [tool] [args]',
+  describe:
+    'Shows how the policies decide a tool call, or checks a file of recorded calls.',
+  builder: (yargs) =>
+    yargs
+      .positional('tool', {
+        describe: 'The name of the tool to call.',
+        type: 'string',
+      })
+      .positional('args', {
+        describe: 'The arguments of the call as a JSON object.',
+        type: 'string',
+      })
+      .option('file', {
+        describe:
+          'A JSON array or JSON Lines file of calls with name, args and optional serverName, approvalMode and expect fields. Fails if a decision differs from expect.',
+        type: 'string',
+      })
+      .option('mode', {
+        describe: 'The approval mode to evaluate calls in.',
+        choices: ApprovalModeSchema.options,
+        default: 'default' as const,
+      })
+      .option('non-interactive', {
+        describe:
+          'Evaluate as a non-interactive session, where calls that would ask the user are denied.',
+        type: 'boolean',
+        default: false,
+      })
+      .check((argv) => {
+        if (!argv.tool === !argv.file) {
+          throw new Error('Specify either a tool name or --file.');
+        }
+        return true;
+      }),
+  handler: async (argv) => {
+    let passed: boolean;
+    try {
+      passed = await handleTest(argv);
+    } catch (error) {
+      debugLogger.error(getErrorMessage(error));
+      passed = false;
+    }
+    await exitCli(passed ? 0 : 1);
+  },
+};
@@ -21,6 +21,7 @@ describe('validateAuthMethod', () => {
     vi.stubEnv('GOOGLE_CLOUD_PROJECT', undefined);
     vi.stubEnv('GOOGLE_CLOUD_LOCATION', undefined);
     vi.stubEnv('GOOGLE_API_KEY', undefined);
+    vi.stubEnv('OPENAI_BASE_URL', undefined);
   });
 
   afterEach(() => {
@@ -83,6 +84,24 @@ describe('validateAuthMethod', () => {
         '• GOOGLE_API_KEY environment variable (if using express mode).\n' +
         'Update your environment and try again (no reload needed if using .env)!',
     },
+    {
+      description:
+        'should return null for USE_OPENAI_COMPATIBLE if OPENAI_BASE_URL is set',
+      authType: AuthType.USE_OPENAI_COMPATIBLE,
+      envs: { OPENAI_BASE_URL: 'http://localhost:8000/v1' },
+      expected: null,
+    },
+    {
+      description:
+        'should return an error message for USE_OPENAI_COMPATIBLE if no base URL is configured',
+      authType: AuthType.USE_OPENAI_COMPATIBLE,
+      envs: {},
+      expected:
+        'When using an OpenAI-compatible API, you must specify either:\n' +
+        '• OPENAI_BASE_URL environment variable.\n' +
+        '• security.auth.openaiCompatible.baseUrl in your settings.\n' +
+        'Update your environment and try again (no reload needed if using .env)!',
+    },
     {
       description: 'should return an error message for an invalid auth method',
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -8,7 +8,8 @@ import { AuthType } from '@google/gemini-cli-core';
 import { loadEnvironment, loadSettings } from './settings.js';
 
 export function validateAuthMethod(authMethod: string): string | null {
-  loadEnvironment(loadSettings().merged, process.cwd());
+  const settings = loadSettings().merged;
+  loadEnvironment(settings, process.cwd());
   if (
     authMethod === AuthType.LOGIN_WITH_GOOGLE ||
     authMethod === AuthType.COMPUTE_ADC
@@ -42,5 +43,20 @@ export function validateAuthMethod(authMethod: string): string | null {
     return null;
   }
 
+  if (authMethod === AuthType.USE_OPENAI_COMPATIBLE) {
+    if (
+      !process.env['OPENAI_BASE_URL'] &&
+      !settings.security?.auth?.openaiCompatible?.baseUrl
+    ) {
+      return (
+        'When using an OpenAI-compatible API, you must specify either:\n' +
+        '• OPENAI_BASE_URL environment variable.\n' +
+        '• security.auth.openaiCompatible.baseUrl in your settings.\n' +
+        'Update your environment and try again (no reload needed if using .env)!'
+      );
+    }
+    return null;
+  }
+
   return 'Invalid auth method selected.';
 }
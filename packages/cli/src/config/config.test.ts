@@ -27,6 +27,8 @@ import * as ServerConfig from '@google/gemini-cli-core';
 import { isWorkspaceTrusted } from './trustedFolders.js';
 import { ExtensionManager } from './extension-manager.js';
 import { RESUME_LATEST } from '../utils/sessionUtils.js';
+import { loadSandboxConfig } from './sandboxConfig.js';
+import { createShellSandbox } from '../utils/shellSandbox.js';
 
 vi.mock('./trustedFolders.js', () => ({
   isWorkspaceTrusted: vi.fn(() => ({ isTrusted: true, source: 'file' })), // Default to trusted
@@ -36,6 +38,10 @@ vi.mock('./sandboxConfig.js', () => ({
   loadSandboxConfig: vi.fn(async () => undefined),
 }));
 
+vi.mock('../utils/shellSandbox.js', () => ({
+  createShellSandbox: vi.fn(),
+}));
+
 vi.mock('../commands/utils.js', () => ({
   exitCli: vi.fn(),
 }));
@@ -1939,6 +1945,52 @@ describe('loadCliConfig compressionThreshold', () => {
   });
 });
 
+describe('loadCliConfig sandboxScope', () => {
+  const sandboxConfig = { command: 'docker' as const, image: 'image' };
+  const shellSandbox = { name: 'docker', wrap: vi.fn(), dispose: vi.fn() };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(os.homedir).mockReturnValue('/mock/home/user');
+    vi.stubEnv('GEMINI_API_KEY', 'test-api-key');
+    vi.spyOn(ExtensionManager.prototype, 'getExtensions').mockReturnValue([]);
+    vi.mocked(loadSandboxConfig).mockResolvedValue(sandboxConfig);
+    vi.mocked(createShellSandbox).mockReturnValue(shellSandbox);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should create a shell sandbox when only shell commands are sandboxed', async () => {
+    process.argv = ['node', 'script.js'];
+    const argv = await parseArguments(createTestMergedSettings());
+    const settings = createTestMergedSettings({
+      tools: { sandboxScope: 'shell' },
+    });
+    const config = await loadCliConfig(settings, 'test-session', argv);
+    expect(createShellSandbox).toHaveBeenCalledWith(
+      sandboxConfig,
+      process.cwd(),
+      [],
+    );
+    expect(config.getShellSandbox()).toBe(shellSandbox);
+  });
+
+  it('should not create a shell sandbox when the whole session is sandboxed', async () => {
+    process.argv = ['node', 'script.js'];
+    const argv = await parseArguments(createTestMergedSettings());
+    const config = await loadCliConfig(
+      createTestMergedSettings(),
+      'test-session',
+      argv,
+    );
+    expect(createShellSandbox).not.toHaveBeenCalled();
+    expect(config.getShellSandbox()).toBeUndefined();
+  });
+});
+
 describe('loadCliConfig useRipgrep', () => {
   beforeEach(() => {
     vi.resetAllMocks();
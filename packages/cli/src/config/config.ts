@@ -11,6 +11,7 @@ import { mcpCommand } from '../commands/mcp.js';
 import { extensionsCommand } from '../commands/extensions.js';
 import { skillsCommand } from '../commands/skills.js';
 import { hooksCommand } from '../commands/hooks.js';
+import { policiesCommand } from '../commands/policies.js';
 import {
   setGeminiMdFilename as setServerGeminiMdFilename,
   getCurrentGeminiMdFilename,
@@ -43,6 +44,7 @@ import {
   type HookDefinition,
   type HookEventName,
   type OutputFormat,
+  type WorktreeService,
 } from '@google/gemini-cli-core';
 import {
   type Settings,
@@ -52,6 +54,7 @@ import {
 } from './settings.js';
 
 import { loadSandboxConfig } from './sandboxConfig.js';
+import { createShellSandbox } from '../utils/shellSandbox.js';
 import { resolvePath } from '../utils/resolvePath.js';
 import { RESUME_LATEST } from '../utils/sessionUtils.js';
 
@@ -93,6 +96,7 @@ export interface CliArgs {
   rawOutput: boolean | undefined;
   acceptRawOutputRisk: boolean | undefined;
   isCommand: boolean | undefined;
+  worktree: string | undefined;
 }
 
 export async function parseArguments(
@@ -207,7 +211,7 @@ export async function parseArguments(
           // one, and not being passed at all.
           skipValidation: true,
           description:
-            'Resume a previous session. Use "latest" for most recent or index number (e.g. --resume 5)',
+            'Resume a previous session. Use "latest" for most recent or index number (e.g. --resume 5). Add @ and a prompt number to fork the session before that prompt (e.g. --resume 5@2)',
           coerce: (value: string): string => {
             // When --resume passed with a value (`gemini --resume 123`): value = "123" (string)
             // When --resume passed without a value (`gemini --resume`): value = "" (string)
@@ -239,6 +243,11 @@ export async function parseArguments(
             // Handle comma-separated values
             dirs.flatMap((dir) => dir.split(',').map((d) => d.trim())),
         })
+        .option('worktree', {
+          type: 'string',
+          description:
+            'Run the session in a new git worktree on its own branch, leaving the current checkout untouched. Optionally name the worktree (e.g. --worktree fix-login).',
+        })
         .option('screen-reader', {
           type: 'boolean',
           description: 'Enable screen reader mode for accessibility.',
@@ -248,7 +257,7 @@ export async function parseArguments(
           type: 'string',
           nargs: 1,
           description: 'The format of the CLI output.',
-          choices: ['text', 'json', 'stream-json'],
+          choices: ['text', 'json', 'stream-json', 'sarif', 'junit'],
         })
         .option('fake-responses', {
           type: 'string',
@@ -272,6 +281,8 @@ export async function parseArguments(
     )
     // Register MCP subcommands
     .command(mcpCommand)
+    // Register policy subcommands
+    .command(policiesCommand)
     // Ensure validation flows through .fail() for clean UX
     .fail((msg, err) => {
       if (err) throw err;
@@ -297,12 +308,12 @@ export async function parseArguments(
       }
       if (
         argv['outputFormat'] &&
-        !['text', 'json', 'stream-json'].includes(
+        !['text', 'json', 'stream-json', 'sarif', 'junit'].includes(
           // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
           argv['outputFormat'] as string,
         )
       ) {
-        return `Invalid values:\n  Argument: output-format, Given: "${argv['outputFormat']}", Choices: "text", "json", "stream-json"`;
+        return `Invalid values:\n  Argument: output-format, Given: "${argv['outputFormat']}", Choices: "text", "json", "stream-json", "sarif", "junit"`;
       }
       return true;
     });
@@ -416,6 +427,7 @@ export function isDebugMode(argv: CliArgs): boolean {
 
 export interface LoadCliConfigOptions {
   cwd?: string;
+  worktree?: WorktreeService;
   projectHooks?: { [K in HookEventName]?: HookDefinition[] } & {
     disabled?: string[];
   };
@@ -427,7 +439,7 @@ export async function loadCliConfig(
   argv: CliArgs,
   options: LoadCliConfigOptions = {},
 ): Promise<Config> {
-  const { cwd = process.cwd(), projectHooks } = options;
+  const { cwd = process.cwd(), projectHooks, worktree } = options;
   const debugMode = isDebugMode(argv);
 
   const loadedSettings = loadSettings(cwd);
@@ -723,6 +735,13 @@ export async function loadCliConfig(
     clientVersion: await getVersion(),
     embeddingModel: DEFAULT_GEMINI_EMBEDDING_MODEL,
     sandbox: sandboxConfig,
+    shellSandbox:
+      sandboxConfig && settings.tools?.sandboxScope === 'shell'
+        ? createShellSandbox(sandboxConfig, cwd, [
+            ...includeDirectories,
+            ...(worktree ? [worktree.session.gitCommonDir] : []),
+          ])
+        : undefined,
     targetDir: cwd,
     includeDirectories,
     loadMemoryFromIncludeDirectories:
@@ -742,6 +761,7 @@ export async function loadCliConfig(
     mcpEnabled,
     extensionsEnabled,
     agents: settings.agents,
+    worktree,
     adminSkillsEnabled,
     allowedMcpServers: mcpEnabled
       ? (argv.allowedMcpServerNames ?? settings.mcp?.allowed)
@@ -775,11 +795,13 @@ export async function loadCliConfig(
       process.env['https_proxy'] ||
       process.env['HTTP_PROXY'] ||
       process.env['http_proxy'],
+    openaiCompatible: settings.security?.auth?.openaiCompatible,
     cwd,
     fileDiscoveryService: fileService,
     bugCommand: settings.advanced?.bugCommand,
     model: resolvedModel,
     maxSessionTurns: settings.model?.maxSessionTurns,
+    budget: settings.budget,
     experimentalZedIntegration: argv.experimentalAcp || false,
     listExtensions: argv.listExtensions || false,
     listSessions: argv.listSessions || false,
@@ -804,6 +826,10 @@ export async function loadCliConfig(
     trustedFolder,
     useBackgroundColor: settings.ui?.useBackgroundColor,
     useRipgrep: settings.tools?.useRipgrep,
+    semanticSearch: settings.tools?.semanticSearch,
+    lsp: settings.lsp,
+    webSearch: settings.tools?.webSearch,
+    webFetch: settings.tools?.webFetch,
     enableInteractiveShell: settings.tools?.shell?.enableInteractiveShell,
     shellToolInactivityTimeout: settings.tools?.shell?.inactivityTimeout,
     enableShellOutputEfficiency:
@@ -920,9 +920,9 @@ describe('extension tests', () => {
 
         expect(extension.hooks).toBeDefined();
         expect(extension.hooks?.BeforeTool).toHaveLength(1);
-        expect(extension.hooks?.BeforeTool?.[0].hooks[0].command).toBe(
-          `echo ${extDir}`,
-        );
+        expect(extension.hooks?.BeforeTool?.[0].hooks[0]).toMatchObject({
+          command: `echo ${extDir}`,
+        });
       });
 
       it('should not load hooks if hooks.enabled is false', async () => {
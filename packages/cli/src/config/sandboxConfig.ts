@@ -27,6 +27,7 @@ const VALID_SANDBOX_COMMANDS: ReadonlyArray<SandboxConfig['command']> = [
   'docker',
   'podman',
   'sandbox-exec',
+  'bwrap',
 ];
 
 function isSandboxCommand(value: string): value is SandboxConfig['command'] {
@@ -72,7 +73,7 @@ function getSandboxCommand(
     );
   }
 
-  // look for seatbelt, docker, or podman, in that order
+  // look for seatbelt, docker, podman, or bubblewrap, in that order
   // for container-based sandboxing, require sandbox to be enabled explicitly
   if (os.platform() === 'darwin' && commandExists.sync('sandbox-exec')) {
     return 'sandbox-exec';
@@ -80,13 +81,19 @@ function getSandboxCommand(
     return 'docker';
   } else if (commandExists.sync('podman') && sandbox === true) {
     return 'podman';
+  } else if (
+    os.platform() === 'linux' &&
+    commandExists.sync('bwrap') &&
+    sandbox === true
+  ) {
+    return 'bwrap';
   }
 
   // throw an error if user requested sandbox but no command was found
   if (sandbox === true) {
     throw new FatalSandboxError(
       'GEMINI_SANDBOX is true but failed to determine command for sandbox; ' +
-        'install docker or podman or specify command in GEMINI_SANDBOX',
+        'install docker, podman or bubblewrap (bwrap) or specify command in GEMINI_SANDBOX',
     );
   }
 
@@ -18,6 +18,10 @@ import {
   type AuthType,
   type AgentOverride,
   type CustomTheme,
+  type BudgetLimits,
+  type ModelPricing,
+  type LspServerConfig,
+  DEFAULT_BUDGET_WARNING_THRESHOLD,
 } from '@google/gemini-cli-core';
 import type { SessionRetentionSettings } from './settings.js';
 import { DEFAULT_MIN_RETENTION } from '../utils/sessionCleanup.js';
@@ -793,6 +797,67 @@ const SETTINGS_SCHEMA = {
     },
   },
 
+  budget: {
+    type: 'object',
+    label: 'Budget',
+    category: 'Model',
+    requiresRestart: true,
+    default: {},
+    description:
+      'Token and estimated cost limits. When a limit is reached, no further requests are sent to the model.',
+    showInDialog: false,
+    properties: {
+      session: {
+        type: 'object',
+        label: 'Session Budget',
+        category: 'Model',
+        requiresRestart: true,
+        default: undefined as BudgetLimits | undefined,
+        description: 'Limits for a single session.',
+        showInDialog: false,
+        ref: 'BudgetLimits',
+      },
+      daily: {
+        type: 'object',
+        label: 'Daily Budget',
+        category: 'Model',
+        requiresRestart: true,
+        default: undefined as BudgetLimits | undefined,
+        description:
+          'Limits shared by all sessions on the same day (local time).',
+        showInDialog: false,
+        ref: 'BudgetLimits',
+      },
+      warningThreshold: {
+        type: 'number',
+        label: 'Budget Warning Threshold',
+        category: 'Model',
+        requiresRestart: true,
+        default: DEFAULT_BUDGET_WARNING_THRESHOLD as number,
+        description:
+          'The fraction of a budget limit at which the footer shows a warning.',
+        showInDialog: false,
+      },
+      pricing: {
+        type: 'object',
+        label: 'Model Pricing',
+        category: 'Model',
+        requiresRestart: true,
+        default: undefined as Record<string, ModelPricing> | undefined,
+        description: oneLine`
+          Per-model prices in US dollars per million tokens, used to estimate cost.
+          Overrides or extends the built-in prices (for example {"gemini-2.5-pro": {"input": 1.25, "output": 10}}).
+        `,
+        showInDialog: false,
+        additionalProperties: {
+          type: 'object',
+          description: 'Input, output and cached token prices for a model.',
+          ref: 'ModelPricing',
+        },
+      },
+    },
+  },
+
   modelConfigs: {
     type: 'object',
     label: 'Model Configs',
@@ -868,6 +933,38 @@ const SETTINGS_SCHEMA = {
           ref: 'AgentOverride',
         },
       },
+      parallel: {
+        type: 'object',
+        label: 'Parallel Subagents',
+        category: 'Advanced',
+        requiresRestart: true,
+        default: {},
+        description:
+          'Limits for running several subagents at once with run_agents_in_parallel.',
+        showInDialog: false,
+        properties: {
+          maxConcurrency: {
+            type: 'number',
+            label: 'Max Concurrent Subagents',
+            category: 'Advanced',
+            requiresRestart: true,
+            default: 3,
+            description:
+              'Maximum number of subagents that run at the same time in a parallel fan-out.',
+            showInDialog: false,
+          },
+          maxTasks: {
+            type: 'number',
+            label: 'Max Parallel Tasks',
+            category: 'Advanced',
+            requiresRestart: true,
+            default: 10,
+            description:
+              'Maximum number of tasks accepted in a single parallel fan-out call.',
+            showInDialog: false,
+          },
+        },
+      },
     },
   },
 
@@ -1021,6 +1118,20 @@ const SETTINGS_SCHEMA = {
         `,
         showInDialog: false,
       },
+      sandboxScope: {
+        type: 'enum',
+        label: 'Sandbox Scope',
+        category: 'Tools',
+        requiresRestart: true,
+        default: 'session',
+        description:
+          'What runs in the sandbox. `session` relaunches the whole CLI inside it. `shell` keeps the CLI on the host and runs only shell commands inside it.',
+        showInDialog: false,
+        options: [
+          { value: 'session', label: 'Session' },
+          { value: 'shell', label: 'Shell commands' },
+        ],
+      },
       shell: {
         type: 'object',
         label: 'Shell',
@@ -1170,6 +1281,173 @@ const SETTINGS_SCHEMA = {
           'Use ripgrep for file content search instead of the fallback implementation. Provides faster search performance.',
         showInDialog: true,
       },
+      semanticSearch: {
+        type: 'object',
+        label: 'Semantic Search',
+        category: 'Tools',
+        requiresRestart: true,
+        default: {},
+        description: 'Settings for the semantic_search tool.',
+        showInDialog: false,
+        properties: {
+          enabled: {
+            type: 'boolean',
+            label: 'Enable Semantic Search',
+            category: 'Tools',
+            requiresRestart: true,
+            default: false,
+            description: oneLine`
+              Enable the semantic_search tool, which finds code related to a natural language query
+              using an embedding index of the workspace.
+            `,
+            showInDialog: true,
+          },
+          embedder: {
+            type: 'enum',
+            label: 'Semantic Search Embedder',
+            category: 'Tools',
+            requiresRestart: true,
+            default: 'gemini',
+            description: oneLine`
+              How code is embedded for semantic search.
+              'gemini' uses the configured embedding model; 'local' uses an offline embedder that only matches shared vocabulary.
+            `,
+            showInDialog: false,
+            options: [
+              { value: 'gemini', label: 'Gemini' },
+              { value: 'local', label: 'Local' },
+            ],
+          },
+        },
+      },
+      webSearch: {
+        type: 'object',
+        label: 'Web Search',
+        category: 'Tools',
+        requiresRestart: true,
+        default: {},
+        description: oneLine`
+          Where the google_web_search tool gets its results.
+          Search APIs receive the WEB_SEARCH_API_KEY environment variable as their API key.
+        `,
+        showInDialog: false,
+        properties: {
+          provider: {
+            type: 'enum',
+            label: 'Web Search Provider',
+            category: 'Tools',
+            requiresRestart: true,
+            default: 'gemini',
+            description: oneLine`
+              'gemini' uses Google Search grounding through the Gemini API.
+              'searxng' and 'brave' query a SearXNG instance or the Brave Search API, and 'http' queries any JSON search API described by the endpoint template.
+            `,
+            showInDialog: false,
+            options: [
+              { value: 'gemini', label: 'Gemini' },
+              { value: 'searxng', label: 'SearXNG' },
+              { value: 'brave', label: 'Brave Search' },
+              { value: 'http', label: 'HTTP template' },
+            ],
+          },
+          endpoint: {
+            type: 'string',
+            label: 'Web Search Endpoint',
+            category: 'Tools',
+            requiresRestart: true,
+            default: undefined as string | undefined,
+            description: oneLine`
+              URL of the search API, e.g. "http://localhost:8888/search" for SearXNG.
+              For the 'http' provider, "{query}" is replaced with the URL-encoded query.
+            `,
+            showInDialog: false,
+          },
+          headers: {
+            type: 'object',
+            label: 'Web Search Headers',
+            category: 'Tools',
+            requiresRestart: true,
+            default: undefined as Record<string, string> | undefined,
+            description: 'Extra HTTP headers sent with every search request.',
+            showInDialog: false,
+            additionalProperties: {
+              type: 'string',
+            },
+          },
+          resultsPath: {
+            type: 'string',
+            label: 'Web Search Results Path',
+            category: 'Tools',
+            requiresRestart: true,
+            default: undefined as string | undefined,
+            description: oneLine`
+              For the 'http' provider, the dot-separated path of the results array in the JSON response, e.g. "data.items".
+              Defaults to "results".
+            `,
+            showInDialog: false,
+          },
+          maxResults: {
+            type: 'number',
+            label: 'Web Search Max Results',
+            category: 'Tools',
+            requiresRestart: true,
+            default: 10,
+            description:
+              'Maximum number of search API results passed to the model.',
+            showInDialog: false,
+          },
+        },
+      },
+      webFetch: {
+        type: 'object',
+        label: 'Web Fetch',
+        category: 'Tools',
+        requiresRestart: true,
+        default: {},
+        description: 'Limits for crawling sites with the web_fetch tool.',
+        showInDialog: false,
+        properties: {
+          maxCrawlDepth: {
+            type: 'number',
+            label: 'Web Fetch Max Crawl Depth',
+            category: 'Tools',
+            requiresRestart: true,
+            default: 2,
+            description:
+              'Deepest level of same-origin links a web_fetch crawl may follow.',
+            showInDialog: false,
+          },
+          maxCrawlPages: {
+            type: 'number',
+            label: 'Web Fetch Max Crawl Pages',
+            category: 'Tools',
+            requiresRestart: true,
+            default: 20,
+            description: 'Maximum number of pages fetched by one crawl.',
+            showInDialog: false,
+          },
+          respectRobotsTxt: {
+            type: 'boolean',
+            label: 'Web Fetch Respect robots.txt',
+            category: 'Tools',
+            requiresRestart: true,
+            default: true,
+            description: "Skip pages that the site's robots.txt disallows.",
+            showInDialog: false,
+          },
+          cache: {
+            type: 'boolean',
+            label: 'Web Fetch Cache',
+            category: 'Tools',
+            requiresRestart: true,
+            default: true,
+            description: oneLine`
+              Cache crawled pages on disk and revalidate them with their ETag or Last-Modified date.
+            `,
+            showInDialog: false,
+          },
+        },
+      },
       truncateToolOutputThreshold: {
         type: 'number',
         label: 'Tool Output Truncation Threshold',
@@ -1195,6 +1473,49 @@ const SETTINGS_SCHEMA = {
     },
   },
 
+  lsp: {
+    type: 'object',
+    label: 'Language Servers',
+    category: 'Tools',
+    requiresRestart: true,
+    default: {},
+    description:
+      'Language servers used by the symbol navigation tools (find_definition, find_references, document_symbols and rename_symbol).',
+    showInDialog: false,
+    properties: {
+      servers: {
+        type: 'object',
+        label: 'Language Servers',
+        category: 'Tools',
+        requiresRestart: true,
+        default: {} as Record<string, LspServerConfig>,
+        description: oneLine`
+          Language servers keyed by name, each started over stdio on first use
+          (for example {"typescript": {"command": "typescript-language-server", "args": ["--stdio"], "languages": ["TypeScript", "JavaScript"]}}).
+          The symbol navigation tools are only available when at least one server is configured.
+        `,
+        showInDialog: false,
+        mergeStrategy: MergeStrategy.SHALLOW_MERGE,
+        additionalProperties: {
+          type: 'object',
+          ref: 'LspServerConfig',
+        },
+      },
+      diagnosticsOnEdit: {
+        type: 'boolean',
+        label: 'Diagnostics On Edit',
+        category: 'Tools',
+        requiresRestart: true,
+        default: false,
+        description: oneLine`
+          Append the errors and warnings reported by the language server to the result of the
+          replace and write_file tools, so the model sees type errors immediately.
+        `,
+        showInDialog: true,
+      },
+    },
+  },
+
   mcp: {
     type: 'object',
     label: 'MCP',
@@ -1391,6 +1712,38 @@ const SETTINGS_SCHEMA = {
             description: 'Whether to use an external authentication flow.',
             showInDialog: false,
           },
+          openaiCompatible: {
+            type: 'object',
+            label: 'OpenAI-Compatible API',
+            category: 'Security',
+            requiresRestart: true,
+            default: {},
+            description:
+              'Settings for the OpenAI-compatible auth type (vLLM, Ollama, LiteLLM and similar servers). The API key is read from the OPENAI_API_KEY environment variable.',
+            showInDialog: false,
+            properties: {
+              baseUrl: {
+                type: 'string',
+                label: 'Base URL',
+                category: 'Security',
+                requiresRestart: true,
+                default: undefined as string | undefined,
+                description:
+                  'Base URL of the chat-completions API, e.g. "http://localhost:11434/v1". The OPENAI_BASE_URL environment variable takes precedence.',
+                showInDialog: false,
+              },
+              model: {
+                type: 'string',
+                label: 'Model',
+                category: 'Security',
+                requiresRestart: true,
+                default: undefined as string | undefined,
+                description:
+                  'Model name sent to the server for every request. The OPENAI_MODEL environment variable takes precedence. When unset, the CLI model name is sent unchanged.',
+                showInDialog: false,
+              },
+            },
+          },
         },
       },
     },
@@ -2058,6 +2411,11 @@ export const SETTINGS_SCHEMA_DEFINITIONS: Record<
         description:
           'Service account email to impersonate (name@project.iam.gserviceaccount.com).',
       },
+      allowSampling: {
+        type: 'boolean',
+        description:
+          'Allows the server to request model completions through MCP sampling. Each request is still subject to policy and asks for confirmation by default.',
+      },
     },
   },
   TelemetrySettings: {
@@ -2115,6 +2473,84 @@ export const SETTINGS_SCHEMA_DEFINITIONS: Record<
     },
     required: ['urlTemplate'],
   },
+  LspServerConfig: {
+    type: 'object',
+    description: 'A language server started over stdio.',
+    additionalProperties: false,
+    properties: {
+      command: {
+        type: 'string',
+        description: 'The command that starts the language server.',
+      },
+      args: {
+        type: 'array',
+        description: 'Arguments passed to the command.',
+        items: { type: 'string' },
+      },
+      languages: {
+        type: 'array',
+        description:
+          'Languages handled by the server, e.g. "TypeScript", "Python" or "Go".',
+        items: { type: 'string' },
+      },
+      env: {
+        type: 'object',
+        description: 'Environment variables for the server process.',
+        additionalProperties: { type: 'string' },
+      },
+      initializationOptions: {
+        type: 'object',
+        description: 'Options sent to the server in the initialize request.',
+      },
+    },
+    required: ['command', 'languages'],
+  },
+  BudgetLimits: {
+    type: 'object',
+    description:
+      'Token and estimated cost limits. Limits that are not set are not enforced.',
+    additionalProperties: false,
+    properties: {
+      inputTokens: {
+        type: 'number',
+        description:
+          'Maximum prompt tokens that were not served from the cache.',
+      },
+      outputTokens: {
+        type: 'number',
+        description: 'Maximum response and thinking tokens.',
+      },
+      cachedTokens: {
+        type: 'number',
+        description: 'Maximum cached prompt tokens.',
+      },
+      costUsd: {
+        type: 'number',
+        description: 'Maximum estimated cost in US dollars.',
+      },
+    },
+  },
+  ModelPricing: {
+    type: 'object',
+    description: 'Token prices for a model, in US dollars per million tokens.',
+    additionalProperties: false,
+    properties: {
+      input: {
+        type: 'number',
+        description: 'Price of prompt tokens.',
+      },
+      output: {
+        type: 'number',
+        description: 'Price of response and thinking tokens.',
+      },
+      cached: {
+        type: 'number',
+        description:
+          'Price of cached prompt tokens. Defaults to the input price.',
+      },
+    },
+    required: ['input', 'output'],
+  },
   SummarizeToolOutputSettings: {
     type: 'object',
     description:
@@ -2282,14 +2718,36 @@ export const SETTINGS_SCHEMA_DEFINITIONS: Record<
               },
               type: {
                 type: 'string',
+                enum: ['command', 'http', 'module'],
                 description:
-                  'Type of hook (currently only "command" supported).',
+                  'Type of hook: "command" runs a shell command, "http" POSTs the input to a URL, and "module" calls a handler exported by a local ES module.',
               },
               command: {
                 type: 'string',
                 description:
                   'Shell command to execute. Receives JSON input via stdin and returns JSON output via stdout.',
               },
+              url: {
+                type: 'string',
+                description:
+                  'URL that receives the JSON input as a POST request and returns JSON output in the response body. Environment variables ($VAR or ${VAR}) are expanded.',
+              },
+              headers: {
+                type: 'object',
+                description:
+                  'HTTP headers sent with the request. Environment variables ($VAR or ${VAR}) in values are expanded.',
+                additionalProperties: { type: 'string' },
+              },
+              module: {
+                type: 'string',
+                description:
+                  'Path to an ES module exporting the hook handler, relative to the project directory.',
+              },
+              export: {
+                type: 'string',
+                description:
+                  'Name of the exported handler function. Defaults to the default export.',
+              },
               description: {
                 type: 'string',
                 description: 'A description of the hook.',
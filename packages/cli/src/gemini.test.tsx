@@ -495,6 +495,7 @@ describe('gemini.tsx main function kitty protocol', () => {
       rawOutput: undefined,
       acceptRawOutputRisk: undefined,
       isCommand: undefined,
+      worktree: undefined,
     });
 
     await act(async () => {
@@ -10,7 +10,7 @@ import { AppContainer } from './ui/AppContainer.js';
 import { loadCliConfig, parseArguments } from './config/config.js';
 import * as cliConfig from './config/config.js';
 import { readStdin } from './utils/readStdin.js';
-import { basename } from 'node:path';
+import { basename, dirname } from 'node:path';
 import v8 from 'node:v8';
 import os from 'node:os';
 import dns from 'node:dns';
@@ -38,11 +38,13 @@ import {
 } from './utils/sessionCleanup.js';
 import {
   type Config,
+  type WorktreeService,
   type ResumedSessionData,
   type OutputPayload,
   type ConsoleLogPayload,
   type UserFeedbackPayload,
   sessionId,
+  forkConversation,
   logUserPrompt,
   AuthType,
   getOauthClient,
@@ -50,6 +52,7 @@ import {
   debugLogger,
   recordSlowRender,
   coreEvents,
+  getErrorMessage,
   CoreEvent,
   createWorkingStdio,
   patchStdio,
@@ -74,6 +77,7 @@ import {
   type InitializationResult,
 } from './core/initializer.js';
 import { validateAuthMethod } from './config/auth.js';
+import { setupWorktreeSession } from './utils/worktree.js';
 import { runZedIntegration } from './zed-integration/zedIntegration.js';
 import { validateNonInteractiveAuth } from './validateNonInterActiveAuth.js';
 import { checkForUpdates } from './ui/utils/updateCheck.js';
@@ -350,6 +354,19 @@ export async function main() {
     process.exit(ExitCodes.FATAL_INPUT_ERROR);
   }
 
+  // Move into the session's worktree before anything resolves the working
+  // directory, including the sandbox mounts of a relaunched process.
+  let worktree: WorktreeService | undefined;
+  try {
+    worktree = await setupWorktreeSession(argv, sessionId);
+  } catch (error) {
+    writeToStderr(
+      `Error: Could not set up the worktree: ${getErrorMessage(error)}\n`,
+    );
+    await runExitCleanup();
+    process.exit(ExitCodes.FATAL_INPUT_ERROR);
+  }
+
   const isDebugMode = cliConfig.isDebugMode(argv);
   const consolePatcher = new ConsolePatcher({
     stderr: true,
@@ -384,6 +401,7 @@ export async function main() {
 
   const partialConfig = await loadCliConfig(settings.merged, sessionId, argv, {
     projectHooks: settings.workspace.settings.hooks,
+    worktree,
   });
   adminControlsListner.setConfig(partialConfig);
 
@@ -442,8 +460,12 @@ export async function main() {
   // Run deferred command now that we have admin settings.
   await runDeferredCommand(settings.merged);
 
-  // hop into sandbox if we are outside and sandboxing is enabled
-  if (!process.env['SANDBOX']) {
+  // hop into sandbox if we are outside and sandboxing is enabled, unless
+  // only shell commands are sandboxed
+  if (
+    !process.env['SANDBOX'] &&
+    settings.merged.tools.sandboxScope !== 'shell'
+  ) {
     const memoryArgs = settings.merged.advanced.autoConfigureMemory
       ? getNodeMemoryArgs(isDebugMode)
       : [];
@@ -508,9 +530,18 @@ export async function main() {
     const loadConfigHandle = startupProfiler.start('load_cli_config');
     const config = await loadCliConfig(settings.merged, sessionId, argv, {
       projectHooks: settings.workspace.settings.hooks,
+      worktree,
     });
     loadConfigHandle?.end();
 
+    if (worktree) {
+      const { worktreePath, branch } = worktree.session;
+      coreEvents.emitFeedback(
+        'info',
+        `Working in the worktree ${worktreePath} on branch '${branch}'. Use /worktree to review the changes and merge, discard or keep them.`,
+      );
+    }
+
     // Initialize storage immediately after loading config to ensure that
     // storage-related operations (like listing or resuming sessions) have
     // access to the project identifier.
@@ -642,10 +673,15 @@ export async function main() {
       const sessionSelector = new SessionSelector(config);
       try {
         const result = await sessionSelector.resolveSession(argv.resume);
-        resumedSessionData = {
-          conversation: result.sessionData,
-          filePath: result.sessionPath,
-        };
+        resumedSessionData = result.forkAtMessageId
+          ? // Start a new branch so the original session is left untouched.
+            forkConversation(result.sessionData, dirname(result.sessionPath), {
+              messageId: result.forkAtMessageId,
+            })
+          : {
+              conversation: result.sessionData,
+              filePath: result.sessionPath,
+            };
         // Use the existing session ID to continue recording to the same session
         config.setSessionId(resumedSessionData.conversation.sessionId);
       } catch (error) {
@@ -20,6 +20,7 @@ import {
   uiTelemetryService,
   FatalInputError,
   CoreEvent,
+  RunReport,
 } from '@google/gemini-cli-core';
 import type { Part } from '@google/genai';
 import { runNonInteractive } from './nonInteractiveCli.js';
@@ -633,6 +634,30 @@ describe('runNonInteractive', () => {
     ).rejects.toThrow('process.exit(53) called');
   });
 
+  it('should exit with the budget exit code when a budget limit is reached', async () => {
+    mockGeminiClient.sendMessageStream.mockReturnValue(
+      createStreamFromEvents([
+        {
+          type: GeminiEventType.BudgetExceeded,
+          value: { scope: 'daily', metric: 'costUsd', used: 10.5, limit: 10 },
+        },
+      ]),
+    );
+
+    await expect(
+      runNonInteractive({
+        config: mockConfig,
+        settings: mockSettings,
+        input: 'Expensive prompt',
+        prompt_id: 'prompt-id-budget',
+      }),
+    ).rejects.toThrow('process.exit(55) called');
+    expect(mockCoreEvents.emitFeedback).toHaveBeenCalledWith(
+      'error',
+      'Budget limit reached. Daily cost budget: $10.50 of $10.00 used. Increase the limit in the budget settings in settings.json.',
+    );
+  });
+
   it('should preprocess @include commands before sending to the model', async () => {
     // 1. Mock the imported atCommandProcessor
     const { handleAtCommand } = await import(
@@ -951,6 +976,126 @@ describe('runNonInteractive', () => {
     );
   });
 
+  it('should write a SARIF report instead of the response text', async () => {
+    const runReport = new RunReport();
+    runReport.addFinding({
+      filePath: 'src/db.ts',
+      startLine: 10,
+      severity: 'error',
+      message: 'Query is built from user input.',
+    });
+    mockConfig.getRunReport = vi.fn().mockReturnValue(runReport);
+    mockConfig.getTargetDir = vi.fn().mockReturnValue('/test/project');
+    vi.mocked(mockConfig.getOutputFormat).mockReturnValue(OutputFormat.SARIF);
+    mockGeminiClient.sendMessageStream.mockReturnValue(
+      createStreamFromEvents([
+        { type: GeminiEventType.Content, value: 'Found one issue.' },
+        {
+          type: GeminiEventType.Finished,
+          value: { reason: undefined, usageMetadata: { totalTokenCount: 10 } },
+        },
+      ]),
+    );
+
+    await runNonInteractive({
+      config: mockConfig,
+      settings: mockSettings,
+      input: 'Review the code',
+      prompt_id: 'prompt-id-sarif',
+    });
+
+    const output = getWrittenOutput();
+    expect(output).not.toContain('Found one issue.');
+    const [run] = JSON.parse(output).runs;
+    expect(run.invocations).toEqual([{ executionSuccessful: true }]);
+    expect(run.results).toEqual([
+      expect.objectContaining({
+        level: 'error',
+        message: { text: 'Query is built from user input.' },
+      }),
+    ]);
+  });
+
+  it('should record tool calls in the JUnit report', async () => {
+    const runReport = new RunReport();
+    mockConfig.getRunReport = vi.fn().mockReturnValue(runReport);
+    vi.mocked(mockConfig.getOutputFormat).mockReturnValue(OutputFormat.JUNIT);
+    mockSchedulerSchedule.mockResolvedValue([
+      {
+        status: 'error',
+        request: {
+          callId: 'tool-1',
+          name: 'errorTool',
+          args: {},
+          isClientInitiated: false,
+          prompt_id: 'prompt-id-junit',
+        },
+        tool: {} as AnyDeclarativeTool,
+        invocation: {} as AnyToolInvocation,
+        durationMs: 250,
+        response: {
+          callId: 'tool-1',
+          error: new Error('Execution failed'),
+          errorType: ToolErrorType.EXECUTION_FAILED,
+          responseParts: [{ text: 'Execution failed' }],
+          resultDisplay: 'Execution failed',
+          contentLength: undefined,
+        },
+      },
+    ]);
+    mockGeminiClient.sendMessageStream
+      .mockReturnValueOnce(
+        createStreamFromEvents([
+          {
+            type: GeminiEventType.ToolCallRequest,
+            value: {
+              callId: 'tool-1',
+              name: 'errorTool',
+              args: {},
+              isClientInitiated: false,
+              prompt_id: 'prompt-id-junit',
+            },
+          },
+        ]),
+      )
+      .mockReturnValueOnce(
+        createStreamFromEvents([
+          { type: GeminiEventType.Content, value: 'Done' },
+          {
+            type: GeminiEventType.Finished,
+            value: {
+              reason: undefined,
+              usageMetadata: { totalTokenCount: 10 },
+            },
+          },
+        ]),
+      );
+
+    await runNonInteractive({
+      config: mockConfig,
+      settings: mockSettings,
+      input: 'Use a tool',
+      prompt_id: 'prompt-id-junit',
+    });
+
+    expect(runReport.getToolCalls()).toEqual([
+      {
+        callId: 'tool-1',
+        name: 'errorTool',
+        status: 'error',
+        durationMs: 250,
+        error: {
+          type: ToolErrorType.EXECUTION_FAILED,
+          message: 'Execution failed',
+        },
+      },
+    ]);
+    const output = getWrittenOutput();
+    expect(output).toContain('tests="2" failures="1"');
+    expect(output).toContain('name="errorTool (tool-1)" time="0.250"');
+    expect(output).not.toContain('Done');
+  });
+
   it('should execute a slash command that returns a prompt', async () => {
     const mockCommand = {
       name: 'testcommand',
@@ -1238,6 +1383,125 @@ describe('runNonInteractive', () => {
     );
   });
 
+  it('should finish without calling the model when a command returns a message', async () => {
+    const mockCommand = {
+      name: 'check',
+      description: 'a workflow that stops early',
+      action: vi.fn().mockResolvedValue({
+        type: 'message',
+        messageType: 'info',
+        content: 'All tests pass.',
+      }),
+    };
+    mockGetCommands.mockReturnValue([mockCommand]);
+
+    await runNonInteractive({
+      config: mockConfig,
+      settings: mockSettings,
+      input: '/check',
+      prompt_id: 'prompt-id-message',
+    });
+
+    expect(mockGeminiClient.sendMessageStream).not.toHaveBeenCalled();
+    expect(mockCoreEvents.emitFeedback).toHaveBeenCalledWith(
+      'info',
+      'All tests pass.',
+    );
+  });
+
+  it('should write the JSON result when a command returns a message', async () => {
+    mockGetCommands.mockReturnValue([
+      {
+        name: 'check',
+        description: 'a workflow that stops early',
+        action: vi.fn().mockResolvedValue({
+          type: 'message',
+          messageType: 'info',
+          content: 'All tests pass.',
+        }),
+      },
+    ]);
+    vi.mocked(mockConfig.getOutputFormat).mockReturnValue(OutputFormat.JSON);
+    vi.mocked(uiTelemetryService.getMetrics).mockReturnValue(
+      MOCK_SESSION_METRICS,
+    );
+
+    await runNonInteractive({
+      config: mockConfig,
+      settings: mockSettings,
+      input: '/check',
+      prompt_id: 'prompt-id-message-json',
+    });
+
+    expect(processStdoutSpy).toHaveBeenCalledWith(
+      JSON.stringify(
+        {
+          session_id: 'test-session-id',
+          response: '',
+          stats: MOCK_SESSION_METRICS,
+        },
+        null,
+        2,
+      ),
+    );
+  });
+
+  it('should emit a result event for streaming JSON when a command returns a message', async () => {
+    mockGetCommands.mockReturnValue([
+      {
+        name: 'check',
+        description: 'a workflow that stops early',
+        action: vi.fn().mockResolvedValue({
+          type: 'message',
+          messageType: 'info',
+          content: 'All tests pass.',
+        }),
+      },
+    ]);
+    vi.mocked(mockConfig.getOutputFormat).mockReturnValue(
+      OutputFormat.STREAM_JSON,
+    );
+    vi.mocked(uiTelemetryService.getMetrics).mockReturnValue(
+      MOCK_SESSION_METRICS,
+    );
+
+    await runNonInteractive({
+      config: mockConfig,
+      settings: mockSettings,
+      input: '/check',
+      prompt_id: 'prompt-id-message-stream',
+    });
+
+    const events = getWrittenOutput()
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(events.map((event) => event.type)).toEqual(['init', 'result']);
+    expect(events[1]).toMatchObject({ status: 'success' });
+  });
+
+  it('should throw FatalInputError if a command returns an error message', async () => {
+    const mockCommand = {
+      name: 'review',
+      description: 'a command with invalid arguments',
+      action: vi.fn().mockResolvedValue({
+        type: 'message',
+        messageType: 'error',
+        content: "Missing required argument 'file'.",
+      }),
+    };
+    mockGetCommands.mockReturnValue([mockCommand]);
+
+    await expect(
+      runNonInteractive({
+        config: mockConfig,
+        settings: mockSettings,
+        input: '/review',
+        prompt_id: 'prompt-id-error-message',
+      }),
+    ).rejects.toThrow("Missing required argument 'file'.");
+  });
+
   it('should pass arguments to the slash command action', async () => {
     const mockAction = vi.fn().mockResolvedValue({
       type: 'submit_prompt',
@@ -44,8 +44,10 @@ import {
   handleToolError,
   handleCancellationError,
   handleMaxTurnsExceededError,
+  handleBudgetExceededError,
 } from './utils/errors.js';
 import { TextOutput } from './ui/utils/textOutput.js';
+import { formatRunReport, isRunReportFormat } from './utils/runReport.js';
 
 interface RunNonInteractiveParams {
   config: Config;
@@ -98,6 +100,7 @@ export async function runNonInteractive({
       config.getOutputFormat() === OutputFormat.STREAM_JSON
         ? new StreamJsonFormatter()
         : null;
+    const writesRunReport = isRunReportFormat(config.getOutputFormat());
 
     const abortController = new AbortController();
 
@@ -246,6 +249,28 @@ export async function runNonInteractive({
           config,
           settings,
         );
+        // The command finished without a prompt for the model.
+        if (slashCommandResult === null) {
+          if (streamFormatter) {
+            const metrics = uiTelemetryService.getMetrics();
+            const durationMs = Date.now() - startTime;
+            streamFormatter.emitEvent({
+              type: JsonStreamEventType.RESULT,
+              timestamp: new Date().toISOString(),
+              status: 'success',
+              stats: streamFormatter.convertToStreamStats(metrics, durationMs),
+            });
+          } else if (config.getOutputFormat() === OutputFormat.JSON) {
+            const formatter = new JsonFormatter();
+            const stats = uiTelemetryService.getMetrics();
+            textOutput.write(
+              formatter.format(config.getSessionId(), '', stats),
+            );
+          } else if (writesRunReport) {
+            textOutput.write(formatRunReport(config, { status: 'success' }));
+          }
+          return;
+        }
         // If a slash command is found and returns a prompt, use it.
         // Otherwise, slashCommandResult falls through to the default prompt
         // handling.
@@ -328,7 +353,7 @@ export async function runNonInteractive({
               });
             } else if (config.getOutputFormat() === OutputFormat.JSON) {
               responseText += output;
-            } else {
+            } else if (!writesRunReport) {
               if (event.value) {
                 textOutput.write(output);
               }
@@ -362,6 +387,8 @@ export async function runNonInteractive({
                 message: 'Maximum session turns exceeded',
               });
             }
+          } else if (event.type === GeminiEventType.BudgetExceeded) {
+            handleBudgetExceededError(config, event.value);
           } else if (event.type === GeminiEventType.Error) {
             throw event.value.error;
           } else if (event.type === GeminiEventType.AgentExecutionStopped) {
@@ -382,6 +409,8 @@ export async function runNonInteractive({
                   durationMs,
                 ),
               });
+            } else if (writesRunReport) {
+              textOutput.write(formatRunReport(config, { status: 'success' }));
             }
             return;
           } else if (event.type === GeminiEventType.AgentExecutionBlocked) {
@@ -404,6 +433,21 @@ export async function runNonInteractive({
             const toolResponse = completedToolCall.response;
             const requestInfo = completedToolCall.request;
 
+            if (writesRunReport) {
+              config.getRunReport().recordToolCall({
+                callId: requestInfo.callId,
+                name: requestInfo.name,
+                status: completedToolCall.status,
+                durationMs: completedToolCall.durationMs,
+                error: toolResponse.error
+                  ? {
+                      type: toolResponse.errorType || 'TOOL_EXECUTION_ERROR',
+                      message: toolResponse.error.message,
+                    }
+                  : undefined,
+              });
+            }
+
             if (streamFormatter) {
               streamFormatter.emitEvent({
                 type: JsonStreamEventType.TOOL_RESULT,
@@ -487,6 +531,8 @@ export async function runNonInteractive({
               textOutput.write(
                 formatter.format(config.getSessionId(), responseText, stats),
               );
+            } else if (writesRunReport) {
+              textOutput.write(formatRunReport(config, { status: 'success' }));
             } else {
               textOutput.ensureTrailingNewline(); // Ensure a final newline
             }
@@ -511,6 +557,8 @@ export async function runNonInteractive({
             textOutput.write(
               formatter.format(config.getSessionId(), responseText, stats),
             );
+          } else if (writesRunReport) {
+            textOutput.write(formatRunReport(config, { status: 'success' }));
           } else {
             textOutput.ensureTrailingNewline(); // Ensure a final newline
           }
@@ -7,6 +7,7 @@
 import type { PartListUnion } from '@google/genai';
 import { parseSlashCommand } from './utils/commands.js';
 import {
+  coreEvents,
   FatalInputError,
   Logger,
   uiTelemetryService,
@@ -25,7 +26,9 @@ import type { SessionStatsState } from './ui/contexts/SessionContext.js';
  * Processes a slash command in a non-interactive environment.
  *
  * @returns A Promise that resolves to `PartListUnion` if a valid command is
- *   found and results in a prompt, or `undefined` otherwise.
+ *   found and results in a prompt, `null` if the command finished without a
+ *   prompt for the model (such as a workflow that stopped early), or
+ *   `undefined` otherwise.
  * @throws {FatalInputError} if the command result is not supported in
  *   non-interactive mode.
  */
@@ -34,7 +37,7 @@ export const handleSlashCommand = async (
   abortController: AbortController,
   config: Config,
   settings: LoadedSettings,
-): Promise<PartListUnion | undefined> => {
+): Promise<PartListUnion | null | undefined> => {
   const trimmed = rawQuery.trim();
   if (!trimmed.startsWith('/')) {
     return;
@@ -82,6 +85,7 @@ export const handleSlashCommand = async (
           name: commandToExecute.name,
           args,
         },
+        abortSignal: abortController.signal,
       };
 
       const result = await commandToExecute.action(context, args);
@@ -90,6 +94,12 @@ export const handleSlashCommand = async (
         switch (result.type) {
           case 'submit_prompt':
             return result.content;
+          case 'message':
+            if (result.messageType === 'error') {
+              throw new FatalInputError(result.content);
+            }
+            coreEvents.emitFeedback('info', result.content);
+            return null;
           case 'confirm_shell_commands':
             // This result indicates a command attempted to confirm shell commands.
             // However note that currently, ShellTool is excluded in non-interactive
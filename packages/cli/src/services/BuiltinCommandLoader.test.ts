@@ -128,6 +128,7 @@ describe('BuiltinCommandLoader', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     mockConfig = {
+      getCheckpointingEnabled: vi.fn().mockReturnValue(true),
       getFolderTrust: vi.fn().mockReturnValue(true),
       isPlanEnabled: vi.fn().mockReturnValue(false),
       getEnableExtensionReloading: () => false,
@@ -137,6 +138,7 @@ describe('BuiltinCommandLoader', () => {
       isSkillsSupportEnabled: vi.fn().mockReturnValue(true),
       isAgentsEnabled: vi.fn().mockReturnValue(false),
       getMcpEnabled: vi.fn().mockReturnValue(true),
+      getWorktreeService: vi.fn().mockReturnValue(undefined),
       getSkillManager: vi.fn().mockReturnValue({
         getAllSkills: vi.fn().mockReturnValue([]),
         isAdminEnabled: vi.fn().mockReturnValue(true),
@@ -159,6 +161,13 @@ describe('BuiltinCommandLoader', () => {
     expect(restoreCommandMock).toHaveBeenCalledWith(mockConfig);
   });
 
+  it('should include checkpoints command when checkpointing is enabled', async () => {
+    const loader = new BuiltinCommandLoader(mockConfig);
+    const commands = await loader.loadCommands(new AbortController().signal);
+
+    expect(commands.find((c) => c.name === 'checkpoints')).toBeDefined();
+  });
+
   it('should filter out null command definitions returned by factories', async () => {
     // ideCommand is now a constant SlashCommand
     const loader = new BuiltinCommandLoader(mockConfig);
@@ -247,6 +256,16 @@ describe('BuiltinCommandLoader', () => {
     expect(planCmd).toBeUndefined();
   });
 
+  it('should include worktree command only in a worktree session', async () => {
+    const loader = new BuiltinCommandLoader(mockConfig);
+    let commands = await loader.loadCommands(new AbortController().signal);
+    expect(commands.find((c) => c.name === 'worktree')).toBeUndefined();
+
+    (mockConfig.getWorktreeService as Mock).mockReturnValue({});
+    commands = await loader.loadCommands(new AbortController().signal);
+    expect(commands.find((c) => c.name === 'worktree')).toBeDefined();
+  });
+
   it('should exclude agents command when agents are disabled', async () => {
     mockConfig.isAgentsEnabled = vi.fn().mockReturnValue(false);
     const loader = new BuiltinCommandLoader(mockConfig);
@@ -296,6 +315,7 @@ describe('BuiltinCommandLoader profile', () => {
       isSkillsSupportEnabled: vi.fn().mockReturnValue(true),
       isAgentsEnabled: vi.fn().mockReturnValue(false),
       getMcpEnabled: vi.fn().mockReturnValue(true),
+      getWorktreeService: vi.fn().mockReturnValue(undefined),
       getSkillManager: vi.fn().mockReturnValue({
         getAllSkills: vi.fn().mockReturnValue([]),
         isAdminEnabled: vi.fn().mockReturnValue(true),
@@ -24,6 +24,7 @@ import {
 import { DefaultArgumentProcessor } from './prompt-processors/argumentProcessor.js';
 import type { CommandContext } from '../ui/commands/types.js';
 import { AtFileProcessor } from './prompt-processors/atFileProcessor.js';
+import { runWorkflow } from './commandWorkflow.js';
 
 const mockShellProcess = vi.hoisted(() => vi.fn());
 const mockAtFileProcess = vi.hoisted(() => vi.fn());
@@ -58,6 +59,14 @@ vi.mock('./prompt-processors/argumentProcessor.js', async (importOriginal) => {
       .mockImplementation(() => new original.DefaultArgumentProcessor()),
   };
 });
+vi.mock('./commandWorkflow.js', async (importOriginal) => {
+  const original =
+    await importOriginal<typeof import('./commandWorkflow.js')>();
+  return {
+    ...original,
+    runWorkflow: vi.fn(),
+  };
+});
 vi.mock('@google/gemini-cli-core', async (importOriginal) => {
   const original =
     await importOriginal<typeof import('@google/gemini-cli-core')>();
@@ -1402,4 +1411,138 @@ describe('FileCommandLoader', () => {
       expect(commands[0].description).toBe('d'.repeat(97) + '...');
     });
   });
+
+  describe('Typed Arguments and Workflows', () => {
+    const reviewToml = `prompt = "Review {{file}} for {{focus}}."
+[[arguments]]
+name = "file"
+type = "file"
+required = true
+
+[[arguments]]
+name = "focus"
+type = "enum"
+values = ["security", "speed"]
+default = "speed"
+`;
+
+    it('passes parsed arguments to the processors', async () => {
+      const userCommandsDir = Storage.getUserCommandsDir();
+      mock({ [userCommandsDir]: { 'review.toml': reviewToml } });
+
+      const loader = new FileCommandLoader(null);
+      const commands = await loader.loadCommands(signal);
+      const command = commands.find((c) => c.name === 'review');
+      expect(command?.completion).toBeDefined();
+      expect(ShellProcessor).toHaveBeenCalledTimes(1);
+      expect(DefaultArgumentProcessor).not.toHaveBeenCalled();
+
+      await command!.action?.(
+        createMockCommandContext({
+          invocation: {
+            raw: '/review src/a.ts',
+            name: 'review',
+            args: 'src/a.ts',
+          },
+        }),
+        'src/a.ts',
+      );
+      expect(mockShellProcess).toHaveBeenCalledWith(
+        [{ text: 'Review {{file}} for {{focus}}.' }],
+        expect.objectContaining({
+          invocation: expect.objectContaining({
+            namedArgs: { file: 'src/a.ts', focus: 'speed' },
+          }),
+        }),
+      );
+    });
+
+    it('returns the usage when the arguments are invalid', async () => {
+      const userCommandsDir = Storage.getUserCommandsDir();
+      mock({ [userCommandsDir]: { 'review.toml': reviewToml } });
+
+      const loader = new FileCommandLoader(null);
+      const commands = await loader.loadCommands(signal);
+      const result = await commands[0].action?.(
+        createMockCommandContext({
+          invocation: {
+            raw: '/review a.ts --focus style',
+            name: 'review',
+            args: 'a.ts --focus style',
+          },
+        }),
+        'a.ts --focus style',
+      );
+
+      expect(result).toEqual({
+        type: 'message',
+        messageType: 'error',
+        content:
+          "Argument 'focus' must be one of security, speed, got 'style'.\nUsage: /review <file> [--focus security|speed]",
+      });
+      expect(mockShellProcess).not.toHaveBeenCalled();
+    });
+
+    it('runs the steps of a workflow command', async () => {
+      const userCommandsDir = Storage.getUserCommandsDir();
+      mock({
+        [userCommandsDir]: {
+          'fix.toml': `[[steps]]
+shell = "npm test"
+stop_if = "success"
+
+[[steps]]
+prompt = "Fix the failing tests."
+`,
+        },
+      });
+      vi.mocked(runWorkflow).mockResolvedValue({
+        type: 'submit_prompt',
+        content: [{ text: 'done' }],
+      });
+
+      const loader = new FileCommandLoader(null);
+      const commands = await loader.loadCommands(signal);
+      const context = createMockCommandContext({
+        invocation: { raw: '/fix', name: 'fix', args: '' },
+      });
+      const result = await commands[0].action?.(context, '');
+
+      expect(result).toEqual({
+        type: 'submit_prompt',
+        content: [{ text: 'done' }],
+      });
+      expect(runWorkflow).toHaveBeenCalledWith(
+        'fix',
+        [
+          expect.objectContaining({ shell: 'npm test', stop_if: 'success' }),
+          expect.objectContaining({ prompt: 'Fix the failing tests.' }),
+        ],
+        context,
+        expect.any(Function),
+      );
+      // Workflow prompts do not get the raw invocation appended.
+      expect(DefaultArgumentProcessor).not.toHaveBeenCalled();
+    });
+
+    it('ignores invalid argument and workflow definitions', async () => {
+      const userCommandsDir = Storage.getUserCommandsDir();
+      mock({
+        [userCommandsDir]: {
+          'both.toml': 'prompt = "a"\n[[steps]]\nprompt = "b"',
+          'bad_enum.toml':
+            'prompt = "a"\n[[arguments]]\nname = "x"\ntype = "enum"',
+          'duplicate.toml':
+            'prompt = "a"\n[[arguments]]\nname = "x"\n[[arguments]]\nname = "x"',
+          'bad_step.toml': '[[steps]]\nshell = "ls"\nprompt = "b"',
+          'good.toml': 'prompt = "This one is fine"',
+        },
+      });
+
+      const loader = new FileCommandLoader(null);
+      const commands = await loader.loadCommands(signal);
+
+      expect(commands.map((c) => c.name)).toEqual(['good']);
+    });
+  });
 });
@@ -34,6 +34,15 @@ import {
 } from './prompt-processors/shellProcessor.js';
 import { AtFileProcessor } from './prompt-processors/atFileProcessor.js';
 import { sanitizeForDisplay } from '../ui/utils/textUtils.js';
+import {
+  ArgumentParseError,
+  CommandArgumentSchema,
+  completeArguments,
+  formatUsage,
+  parseArguments,
+  type CommandArgument,
+} from './commandArguments.js';
+import { runWorkflow, WorkflowStepSchema } from './commandWorkflow.js';
 
 interface CommandDirectory {
   path: string;
@@ -45,13 +54,75 @@ interface CommandDirectory {
  * Defines the Zod schema for a command definition file. This serves as the
  * single source of truth for both validation and type inference.
  */
-const TomlCommandDefSchema = z.object({
-  prompt: z.string({
-    required_error: "The 'prompt' field is required.",
-    invalid_type_error: "The 'prompt' field must be a string.",
-  }),
-  description: z.string().optional(),
-});
+const TomlCommandDefSchema = z
+  .object({
+    prompt: z
+      .string({
+        invalid_type_error: "The 'prompt' field must be a string.",
+      })
+      .optional(),
+    description: z.string().optional(),
+    arguments: z.array(CommandArgumentSchema).default([]),
+    steps: z.array(WorkflowStepSchema).nonempty().optional(),
+  })
+  .refine((def) => (def.prompt === undefined) !== (def.steps === undefined), {
+    message: "Exactly one of the 'prompt' or 'steps' fields is required.",
+  })
+  .refine(
+    (def) =>
+      new Set(def.arguments.map((arg) => arg.name)).size ===
+      def.arguments.length,
+    { message: 'Argument names must be unique.' },
+  );
+
+/**
+ * Returns whether a prompt template refers to the raw arguments or to one of
+ * the declared arguments.
+ */
+function usesArguments(text: string, declared: CommandArgument[]): boolean {
+  return (
+    text.includes(SHORTHAND_ARGS_PLACEHOLDER) ||
+    declared.some((arg) => text.includes(`{{${arg.name}}}`))
+  );
+}
+
+/**
+ * Builds the prompt-processor pipeline for a prompt template.
+ *
+ * @param appendRawArgs Whether to append the raw invocation when the
+ *   template does not use any arguments.
+ */
+function createPromptProcessors(
+  prompt: string,
+  commandName: string,
+  declared: CommandArgument[],
+  appendRawArgs: boolean,
+): IPromptProcessor[] {
+  const processors: IPromptProcessor[] = [];
+  const usesArgs = usesArguments(prompt, declared);
+  const usesShellInjection = prompt.includes(SHELL_INJECTION_TRIGGER);
+  const usesAtFileInjection = prompt.includes(AT_FILE_INJECTION_TRIGGER);
+
+  // 1. @-File Injection (Security First).
+  // This runs first to ensure we're not executing shell commands that
+  // could dynamically generate malicious @-paths.
+  if (usesAtFileInjection) {
+    processors.push(new AtFileProcessor(commandName));
+  }
+
+  // 2. Argument and Shell Injection.
+  // This runs after file content has been safely injected.
+  if (usesShellInjection || usesArgs) {
+    processors.push(new ShellProcessor(commandName));
+  }
+
+  // 3. Default Argument Handling.
+  // Appends the raw invocation if no arguments are used.
+  if (!usesArgs && appendRawArgs) {
+    processors.push(new DefaultArgumentProcessor());
+  }
+  return processors;
+}
 
 /**
  * Discovers and loads custom slash commands from .toml files in both the
@@ -255,33 +326,30 @@ export class FileCommandLoader implements ICommandLoader {
       description = `[${extensionName}] ${description}`;
     }
 
-    const processors: IPromptProcessor[] = [];
-    const usesArgs = validDef.prompt.includes(SHORTHAND_ARGS_PLACEHOLDER);
-    const usesShellInjection = validDef.prompt.includes(
-      SHELL_INJECTION_TRIGGER,
-    );
-    const usesAtFileInjection = validDef.prompt.includes(
-      AT_FILE_INJECTION_TRIGGER,
-    );
-
-    // 1. @-File Injection (Security First).
-    // This runs first to ensure we're not executing shell commands that
-    // could dynamically generate malicious @-paths.
-    if (usesAtFileInjection) {
-      processors.push(new AtFileProcessor(baseCommandName));
-    }
-
-    // 2. Argument and Shell Injection.
-    // This runs after file content has been safely injected.
-    if (usesShellInjection || usesArgs) {
-      processors.push(new ShellProcessor(baseCommandName));
-    }
-
-    // 3. Default Argument Handling.
-    // Appends the raw invocation if no explicit {{args}} are used.
-    if (!usesArgs) {
-      processors.push(new DefaultArgumentProcessor());
+    const declaredArgs = validDef.arguments;
+    const usage = formatUsage(baseCommandName, declaredArgs);
+    // The raw invocation is only appended to single-prompt commands that
+    // leave argument parsing to the model.
+    const appendRawArgs = declaredArgs.length === 0 && !validDef.steps;
+    const processorsByPrompt = new Map<string, IPromptProcessor[]>();
+    const prompts = validDef.steps
+      ? validDef.steps.flatMap((step) => step.prompt ?? [])
+      : [validDef.prompt ?? ''];
+    for (const prompt of prompts) {
+      if (!processorsByPrompt.has(prompt)) {
+        processorsByPrompt.set(
+          prompt,
+          createPromptProcessors(
+            prompt,
+            baseCommandName,
+            declaredArgs,
+            appendRawArgs,
+          ),
+        );
+      }
     }
+    const getProcessors = (prompt: string) =>
+      processorsByPrompt.get(prompt) ?? [];
 
     return {
       name: baseCommandName,
@@ -289,6 +357,16 @@ export class FileCommandLoader implements ICommandLoader {
       kind: CommandKind.FILE,
       extensionName,
       extensionId,
+      completion:
+        declaredArgs.length > 0
+          ? (context: CommandContext, partialArg: string) =>
+              completeArguments(
+                declaredArgs,
+                partialArg,
+                /\s$/.test(context.invocation?.raw ?? ''),
+                this.config?.getTargetDir() ?? this.projectRoot,
+              )
+          : undefined,
       action: async (
         context: CommandContext,
         _args: string,
@@ -300,18 +378,51 @@ export class FileCommandLoader implements ICommandLoader {
           );
           return {
             type: 'submit_prompt',
-            content: [{ text: validDef.prompt }], // Fallback to unprocessed prompt
+            content: [{ text: validDef.prompt ?? '' }], // Fallback to unprocessed prompt
           };
         }
 
+        let commandContext = context;
+        if (declaredArgs.length > 0) {
+          try {
+            commandContext = {
+              ...context,
+              invocation: {
+                ...context.invocation,
+                namedArgs: parseArguments(
+                  context.invocation.args,
+                  declaredArgs,
+                ),
+              },
+            };
+          } catch (e) {
+            if (e instanceof ArgumentParseError) {
+              return {
+                type: 'message',
+                messageType: 'error',
+                content: `${e.message}\nUsage: ${usage}`,
+              };
+            }
+            throw e;
+          }
+        }
+
         try {
-          let processedContent: PromptPipelineContent = [
-            { text: validDef.prompt },
-          ];
-          for (const processor of processors) {
+          if (validDef.steps) {
+            return await runWorkflow(
+              baseCommandName,
+              validDef.steps,
+              commandContext,
+              getProcessors,
+            );
+          }
+
+          const prompt = validDef.prompt ?? '';
+          let processedContent: PromptPipelineContent = [{ text: prompt }];
+          for (const processor of getProcessors(prompt)) {
             processedContent = await processor.process(
               processedContent,
-              context,
+              commandContext,
             );
           }
 
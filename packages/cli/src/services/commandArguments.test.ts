@@ -0,0 +1,183 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  CommandArgumentSchema,
+  completeArguments,
+  formatUsage,
+  parseArguments,
+  tokenizeArguments,
+  type CommandArgument,
+} from './commandArguments.js';
+
+const declare = (args: unknown[]): CommandArgument[] =>
+  args.map((arg) => CommandArgumentSchema.parse(arg));
+
+describe('tokenizeArguments', () => {
+  it('should split on whitespace and keep quoted text together', () => {
+    expect(tokenizeArguments(`src/a.ts  "two words" 'it\\'s' --x=""`)).toEqual([
+      'src/a.ts',
+      'two words',
+      "it's",
+      '--x=',
+    ]);
+  });
+
+  it('should reject unterminated quotes', () => {
+    expect(() => tokenizeArguments('"open')).toThrow(
+      'Unterminated " quote in arguments.',
+    );
+  });
+});
+
+describe('CommandArgumentSchema', () => {
+  it('should require values for enum arguments', () => {
+    expect(
+      CommandArgumentSchema.safeParse({ name: 'focus', type: 'enum' }).success,
+    ).toBe(false);
+  });
+
+  it('should reserve the args name', () => {
+    expect(CommandArgumentSchema.safeParse({ name: 'args' }).success).toBe(
+      false,
+    );
+  });
+});
+
+describe('parseArguments', () => {
+  const declared = declare([
+    { name: 'file', type: 'file', required: true },
+    { name: 'focus', type: 'enum', values: ['security', 'speed'] },
+    { name: 'depth', type: 'number', default: 2 },
+    { name: 'strict', type: 'boolean' },
+  ]);
+
+  it('should fill positional arguments in declaration order', () => {
+    expect(parseArguments('src/a.ts speed 3', declared)).toEqual({
+      file: 'src/a.ts',
+      focus: 'speed',
+      depth: 3,
+      strict: false,
+    });
+  });
+
+  it('should accept named arguments and apply defaults', () => {
+    expect(
+      parseArguments('--focus=security --strict src/a.ts', declared),
+    ).toEqual({
+      file: 'src/a.ts',
+      focus: 'security',
+      depth: 2,
+      strict: true,
+    });
+    expect(parseArguments('--file "my file.ts" --depth 1', declared)).toEqual({
+      file: 'my file.ts',
+      focus: '',
+      depth: 1,
+      strict: false,
+    });
+  });
+
+  it('should append extra words to a trailing string argument', () => {
+    const withNote = declare([
+      { name: 'file', type: 'file', required: true },
+      { name: 'note' },
+    ]);
+    expect(parseArguments('a.ts look at -- --the loop', withNote)).toEqual({
+      file: 'a.ts',
+      note: 'look at --the loop',
+    });
+  });
+
+  it.each([
+    ['', "Missing required argument 'file'."],
+    [
+      'a.ts fast',
+      "Argument 'focus' must be one of security, speed, got 'fast'.",
+    ],
+    ['a.ts --depth deep', "Argument 'depth' must be a number, got 'deep'."],
+    [
+      'a.ts --strict=yes',
+      "Argument 'strict' must be true or false, got 'yes'.",
+    ],
+    ['a.ts --color red', "Unknown argument '--color'."],
+    ['a.ts --focus', "Argument '--focus' needs a value."],
+    ['a.ts speed 1 extra', 'Too many arguments: extra'],
+  ])('should reject %j', (input, message) => {
+    expect(() => parseArguments(input, declared)).toThrow(message);
+  });
+});
+
+describe('formatUsage', () => {
+  it('should describe required, optional and boolean arguments', () => {
+    expect(
+      formatUsage(
+        'review',
+        declare([
+          { name: 'file', type: 'file', required: true },
+          { name: 'focus', type: 'enum', values: ['security', 'speed'] },
+          { name: 'depth', type: 'number' },
+          { name: 'strict', type: 'boolean' },
+        ]),
+      ),
+    ).toBe(
+      '/review <file> [--focus security|speed] [--depth <depth>] [--strict]',
+    );
+  });
+});
+
+describe('completeArguments', () => {
+  let tmpDir: string;
+  const declared = declare([
+    { name: 'file', type: 'file', required: true },
+    { name: 'focus', type: 'enum', values: ['security', 'speed'] },
+    { name: 'strict', type: 'boolean' },
+  ]);
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'command-args-'));
+    await fs.mkdir(path.join(tmpDir, 'src'));
+    await fs.writeFile(path.join(tmpDir, 'src', 'app.ts'), '');
+    await fs.writeFile(path.join(tmpDir, 'src', 'api.ts'), '');
+    await fs.writeFile(path.join(tmpDir, '.env'), '');
+  });
+
+  afterAll(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should complete file paths for a file argument', async () => {
+    expect(await completeArguments(declared, '', true, tmpDir)).toEqual([
+      'src/',
+    ]);
+    expect(await completeArguments(declared, 'src/a', false, tmpDir)).toEqual([
+      'src/api.ts',
+      'src/app.ts',
+    ]);
+  });
+
+  it('should complete enum values after the file', async () => {
+    expect(
+      await completeArguments(declared, 'src/app.ts s', false, tmpDir),
+    ).toEqual(['src/app.ts security', 'src/app.ts speed']);
+    expect(
+      await completeArguments(declared, 'src/app.ts --focus', true, tmpDir),
+    ).toEqual(['security', 'speed']);
+    expect(
+      await completeArguments(declared, '--focus=sp', false, tmpDir),
+    ).toEqual(['--focus=speed']);
+  });
+
+  it('should complete the names of arguments not given yet', async () => {
+    expect(
+      await completeArguments(declared, '--focus speed --', false, tmpDir),
+    ).toEqual(['--focus speed --file', '--focus speed --strict']);
+  });
+});
@@ -0,0 +1,358 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { promises as fs, type Dirent } from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+
+const MAX_FILE_SUGGESTIONS = 50;
+
+/**
+ * Defines the Zod schema for an argument declared by a custom command in an
+ * `[[arguments]]` table.
+ */
+export const CommandArgumentSchema = z
+  .object({
+    name: z
+      .string()
+      .regex(
+        /^[A-Za-z_][\w-]*$/,
+        'Argument names must start with a letter or underscore and contain only letters, digits, underscores and hyphens.',
+      )
+      .refine((name) => name !== 'args', {
+        message: "'args' is reserved for the raw arguments string.",
+      }),
+    description: z.string().optional(),
+    type: z
+      .enum(['string', 'number', 'boolean', 'file', 'enum'])
+      .default('string'),
+    required: z.boolean().default(false),
+    default: z.union([z.string(), z.number(), z.boolean()]).optional(),
+    values: z.array(z.string()).optional(),
+  })
+  .refine((arg) => arg.type !== 'enum' || (arg.values?.length ?? 0) > 0, {
+    message: "Arguments of type 'enum' must list their 'values'.",
+  });
+
+export type CommandArgument = z.infer<typeof CommandArgumentSchema>;
+
+export type ArgumentValue = string | number | boolean;
+
+/**
+ * Thrown when an invocation's arguments do not match the declared arguments.
+ */
+export class ArgumentParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArgumentParseError';
+  }
+}
+
+/**
+ * Splits an arguments string on whitespace, keeping single- or double-quoted
+ * text together and removing the quotes.
+ */
+export function tokenizeArguments(input: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let inToken = false;
+  let quote: string | null = null;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quote) {
+      if (char === '\\' && input[i + 1] === quote) {
+        current += quote;
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inToken = true;
+    } else if (/\s/.test(char)) {
+      if (inToken) {
+        tokens.push(current);
+        current = '';
+        inToken = false;
+      }
+    } else {
+      current += char;
+      inToken = true;
+    }
+  }
+  if (quote) {
+    throw new ArgumentParseError(`Unterminated ${quote} quote in arguments.`);
+  }
+  if (inToken) {
+    tokens.push(current);
+  }
+  return tokens;
+}
+
+function convertValue(arg: CommandArgument, raw: string): ArgumentValue {
+  switch (arg.type) {
+    case 'number': {
+      const value = Number(raw);
+      if (raw.trim() === '' || Number.isNaN(value)) {
+        throw new ArgumentParseError(
+          `Argument '${arg.name}' must be a number, got '${raw}'.`,
+        );
+      }
+      return value;
+    }
+    case 'boolean':
+      if (raw !== 'true' && raw !== 'false') {
+        throw new ArgumentParseError(
+          `Argument '${arg.name}' must be true or false, got '${raw}'.`,
+        );
+      }
+      return raw === 'true';
+    case 'enum':
+      if (!arg.values?.includes(raw)) {
+        throw new ArgumentParseError(
+          `Argument '${arg.name}' must be one of ${arg.values?.join(', ')}, got '${raw}'.`,
+        );
+      }
+      return raw;
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Parses an invocation's arguments string against the declared arguments.
+ *
+ * Arguments may be passed by name (`--name value` or `--name=value`, and
+ * `--name` alone for booleans) or by position, in declaration order, with
+ * words after `--` always positional. Extra
+ * positional words are appended to the last positional `string` argument.
+ * Optional arguments without a value or default are empty strings.
+ *
+ * @throws {ArgumentParseError} if the arguments are invalid.
+ */
+export function parseArguments(
+  input: string,
+  declared: CommandArgument[],
+): Record<string, ArgumentValue> {
+  const byName = new Map(declared.map((arg) => [arg.name, arg]));
+  const raw = new Map<string, string>();
+  const positional: string[] = [];
+  const tokens = tokenizeArguments(input);
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token === '--') {
+      // Everything after `--` is positional.
+      positional.push(...tokens.slice(i + 1));
+      break;
+    }
+    if (!token.startsWith('--')) {
+      positional.push(token);
+      continue;
+    }
+    const separator = token.indexOf('=');
+    const name = token.slice(2, separator === -1 ? undefined : separator);
+    const arg = byName.get(name);
+    if (!arg) {
+      throw new ArgumentParseError(`Unknown argument '--${name}'.`);
+    }
+    if (separator !== -1) {
+      raw.set(name, token.slice(separator + 1));
+    } else if (arg.type === 'boolean') {
+      raw.set(name, 'true');
+    } else if (i + 1 < tokens.length) {
+      raw.set(name, tokens[++i]);
+    } else {
+      throw new ArgumentParseError(`Argument '--${name}' needs a value.`);
+    }
+  }
+
+  const unfilled = declared.filter(
+    (arg) => arg.type !== 'boolean' && !raw.has(arg.name),
+  );
+  unfilled.forEach((arg, index) => {
+    if (index >= positional.length) {
+      return;
+    }
+    const isLast = index === unfilled.length - 1;
+    raw.set(
+      arg.name,
+      isLast && arg.type === 'string'
+        ? positional.slice(index).join(' ')
+        : positional[index],
+    );
+  });
+  const absorbsRest = unfilled.at(-1)?.type === 'string';
+  if (positional.length > unfilled.length && !absorbsRest) {
+    throw new ArgumentParseError(
+      `Too many arguments: ${positional.slice(unfilled.length).join(' ')}`,
+    );
+  }
+
+  const values: Record<string, ArgumentValue> = {};
+  for (const arg of declared) {
+    const value = raw.get(arg.name);
+    if (value !== undefined) {
+      values[arg.name] = convertValue(arg, value);
+    } else if (arg.required) {
+      throw new ArgumentParseError(`Missing required argument '${arg.name}'.`);
+    } else {
+      values[arg.name] = arg.default ?? (arg.type === 'boolean' ? false : '');
+    }
+  }
+  return values;
+}
+
+/**
+ * Describes how to invoke a command with the given arguments, for example
+ * `/review <file> [--depth <depth>] [--focus security|speed]`.
+ */
+export function formatUsage(
+  commandName: string,
+  declared: CommandArgument[],
+): string {
+  const parts = declared.map((arg) => {
+    if (arg.type === 'boolean') {
+      return `[--${arg.name}]`;
+    }
+    const value = arg.type === 'enum' ? arg.values!.join('|') : `<${arg.name}>`;
+    if (arg.required) {
+      return arg.type === 'enum' ? `<${value}>` : value;
+    }
+    return `[--${arg.name} ${value}]`;
+  });
+  return [`/${commandName}`, ...parts].join(' ');
+}
+
+async function completeFilePath(
+  partial: string,
+  targetDir: string,
+): Promise<string[]> {
+  const slash = partial.lastIndexOf('/');
+  const dirPart = slash === -1 ? '' : partial.slice(0, slash + 1);
+  const namePart = partial.slice(slash + 1);
+  let entries: Dirent[];
+  try {
+    entries = await fs.readdir(path.resolve(targetDir, dirPart || '.'), {
+      withFileTypes: true,
+    });
+  } catch {
+    return [];
+  }
+  return entries
+    .filter(
+      (entry) =>
+        entry.name.startsWith(namePart) &&
+        (namePart.startsWith('.') || !entry.name.startsWith('.')),
+    )
+    .map((entry) => `${dirPart}${entry.name}${entry.isDirectory() ? '/' : ''}`)
+    .sort()
+    .slice(0, MAX_FILE_SUGGESTIONS);
+}
+
+async function completeValue(
+  arg: CommandArgument,
+  partial: string,
+  targetDir: string,
+): Promise<string[]> {
+  switch (arg.type) {
+    case 'enum':
+      return arg.values!.filter((value) => value.startsWith(partial));
+    case 'boolean':
+      return ['true', 'false'].filter((value) => value.startsWith(partial));
+    case 'file':
+      return completeFilePath(partial, targetDir);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Suggests completions for the word being typed in an arguments string: the
+ * names of named arguments, enum values and file paths.
+ *
+ * @param argString The arguments typed so far.
+ * @param startsNewWord Whether the cursor is after whitespace, so a new word
+ *   is being started. Suggestions are then just that word; otherwise they
+ *   replace the whole arguments string.
+ * @param targetDir The directory file paths are relative to.
+ */
+export async function completeArguments(
+  declared: CommandArgument[],
+  argString: string,
+  startsNewWord: boolean,
+  targetDir: string,
+): Promise<string[]> {
+  let tokens: string[];
+  try {
+    tokens = tokenizeArguments(argString);
+  } catch {
+    return [];
+  }
+  const partial = startsNewWord ? '' : (tokens.pop() ?? '');
+  const withPrefix = (suggestions: string[]) =>
+    startsNewWord
+      ? suggestions
+      : suggestions.map((suggestion) => [...tokens, suggestion].join(' '));
+
+  const byName = new Map(declared.map((arg) => [arg.name, arg]));
+  const previous = tokens.at(-1);
+  const previousArg = previous?.startsWith('--')
+    ? byName.get(previous.slice(2))
+    : undefined;
+
+  // The value of `--name value`.
+  if (previousArg && previousArg.type !== 'boolean') {
+    return withPrefix(await completeValue(previousArg, partial, targetDir));
+  }
+
+  // The value of `--name=value`.
+  const inlineMatch = /^--([^=]+)=(.*)$/.exec(partial);
+  if (inlineMatch) {
+    const arg = byName.get(inlineMatch[1]);
+    if (!arg) {
+      return [];
+    }
+    const values = await completeValue(arg, inlineMatch[2], targetDir);
+    return withPrefix(values.map((value) => `--${arg.name}=${value}`));
+  }
+
+  // The name of an argument not given yet.
+  const given = new Set(
+    tokens
+      .filter((token) => token.startsWith('--'))
+      .map((token) => token.slice(2).split('=')[0]),
+  );
+  const names = declared
+    .filter((arg) => !given.has(arg.name))
+    .map((arg) => `--${arg.name}`)
+    .filter((name) => name.startsWith(partial));
+  if (partial.startsWith('-')) {
+    return withPrefix(names);
+  }
+
+  // The next positional argument.
+  let positionalCount = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.startsWith('--')) {
+      const arg = byName.get(token.slice(2));
+      if (arg && arg.type !== 'boolean' && !token.includes('=')) {
+        i++;
+      }
+    } else {
+      positionalCount++;
+    }
+  }
+  const next = declared.filter(
+    (arg) => arg.type !== 'boolean' && !given.has(arg.name),
+  )[positionalCount];
+  const values = next ? await completeValue(next, partial, targetDir) : [];
+  return withPrefix(values.length > 0 || partial ? values : names);
+}
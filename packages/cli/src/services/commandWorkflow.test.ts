@@ -0,0 +1,303 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, vi, type Mock } from 'vitest';
+import type { Config } from '@google/gemini-cli-core';
+import { getShellConfiguration, PolicyDecision } from '@google/gemini-cli-core';
+import { quote } from 'shell-quote';
+import { runWorkflow, WorkflowStepSchema } from './commandWorkflow.js';
+import {
+  ConfirmationRequiredError,
+  ShellProcessor,
+} from './prompt-processors/shellProcessor.js';
+import { createMockCommandContext } from '../test-utils/mockCommandContext.js';
+import type { CommandContext } from '../ui/commands/types.js';
+
+const mockShellExecute = vi.hoisted(() => vi.fn());
+
+vi.mock('@google/gemini-cli-core', async (importOriginal) => {
+  const original = await importOriginal<object>();
+  return {
+    ...original,
+    ShellExecutionService: {
+      execute: mockShellExecute,
+    },
+  };
+});
+
+function shellResult(output: string, exitCode = 0) {
+  return {
+    result: Promise.resolve({
+      output,
+      exitCode,
+      error: null,
+      aborted: false,
+      signal: null,
+    }),
+  };
+}
+
+describe('WorkflowStepSchema', () => {
+  it.each([
+    [{}, "Each step needs exactly one of 'prompt', 'shell' or 'tool'."],
+    [
+      { prompt: 'a', shell: 'b' },
+      "Each step needs exactly one of 'prompt', 'shell' or 'tool'.",
+    ],
+    [{ shell: 'ls', args: {} }, "Only 'tool' steps take 'args'."],
+    [
+      { prompt: 'a', stop_if: 'failure' },
+      "'prompt' steps cannot have stop conditions.",
+    ],
+    [
+      { shell: 'ls', stop_if_output: '(' },
+      "'stop_if_output' must be a regular expression.",
+    ],
+  ])('should reject %j', (step, message) => {
+    const result = WorkflowStepSchema.safeParse(step);
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toBe(message);
+  });
+});
+
+describe('runWorkflow', () => {
+  let context: CommandContext;
+  let mockPolicyCheck: Mock;
+  let mockReadFile: Mock;
+
+  const steps = (defs: unknown[]) =>
+    defs.map((def) => WorkflowStepSchema.parse(def));
+  const getProcessors = () => [new ShellProcessor('check')];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPolicyCheck = vi
+      .fn()
+      .mockResolvedValue({ decision: PolicyDecision.ALLOW });
+    mockReadFile = vi.fn().mockResolvedValue({
+      llmContent: 'file contents',
+      returnDisplay: '',
+    });
+    const mockConfig = {
+      getTargetDir: vi.fn().mockReturnValue('/test/dir'),
+      getEnableInteractiveShell: vi.fn().mockReturnValue(false),
+      getShellExecutionConfig: vi.fn().mockReturnValue({}),
+      getPolicyEngine: vi.fn().mockReturnValue({ check: mockPolicyCheck }),
+      getToolRegistry: vi.fn().mockReturnValue({
+        getTool: (name: string) =>
+          name === 'read_file'
+            ? { validateBuildAndExecute: mockReadFile }
+            : undefined,
+      }),
+    };
+    context = createMockCommandContext({
+      invocation: {
+        raw: '/check src/a.ts',
+        name: 'check',
+        args: 'src/a.ts',
+        namedArgs: { file: 'src/a.ts', limit: 5 },
+      },
+      services: { config: mockConfig as unknown as Config },
+      session: { sessionShellAllowlist: new Set() },
+    });
+  });
+
+  it('should run the steps in order and build the prompt', async () => {
+    mockShellExecute.mockReturnValue(shellResult('1 failing test', 1));
+
+    const result = await runWorkflow(
+      'check',
+      steps([
+        { shell: 'npm test -- {{file}}' },
+        {
+          tool: 'read_file',
+          args: { file_path: '{{file}}', limit: '{{limit}}' },
+        },
+        { prompt: 'Fix the failing tests in {{file}}.' },
+      ]),
+      context,
+      getProcessors,
+    );
+
+    const { shell } = getShellConfiguration();
+    const expectedCommand =
+      shell === 'bash' ? `npm test -- ${quote(['src/a.ts'])}` : undefined;
+    if (expectedCommand) {
+      expect(mockShellExecute.mock.calls[0][0]).toBe(expectedCommand);
+    }
+    expect(mockReadFile).toHaveBeenCalledWith(
+      { file_path: 'src/a.ts', limit: 5 },
+      expect.any(AbortSignal),
+    );
+    expect(result).toEqual({
+      type: 'submit_prompt',
+      content: [
+        {
+          text: `1 failing test\n[Shell command '${mockShellExecute.mock.calls[0][0]}' exited with code 1]`,
+        },
+        { text: '\n\n' },
+        { text: 'file contents' },
+        { text: '\n\n' },
+        { text: 'Fix the failing tests in src/a.ts.' },
+      ],
+    });
+  });
+
+  it('should stop with a message when a stop condition is met', async () => {
+    mockShellExecute.mockReturnValue(shellResult('all passed'));
+
+    const result = await runWorkflow(
+      'check',
+      steps([
+        {
+          shell: 'npm test',
+          stop_if: 'success',
+          stop_message: 'Tests pass for {{file}}.',
+        },
+        { prompt: 'Fix the tests.' },
+      ]),
+      context,
+      getProcessors,
+    );
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: 'Tests pass for src/a.ts.',
+    });
+  });
+
+  it('should stop when the output matches', async () => {
+    mockShellExecute.mockReturnValue(shellResult('Nothing to commit'));
+
+    const result = await runWorkflow(
+      'check',
+      steps([
+        {
+          shell: 'git status',
+          stop_if_output: '^nothing to commit',
+          include_output: false,
+        },
+        { prompt: 'Write a commit message.' },
+      ]),
+      context,
+      getProcessors,
+    );
+    expect(result).toMatchObject({ type: 'submit_prompt' });
+
+    mockShellExecute.mockReturnValue(shellResult('nothing to commit'));
+    const stopped = await runWorkflow(
+      'check',
+      steps([{ shell: 'git status', stop_if_output: '^nothing to commit' }]),
+      context,
+      getProcessors,
+    );
+    expect(stopped).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: '/check stopped after step 1.',
+    });
+  });
+
+  it('should ask to confirm every shell step before running any', async () => {
+    mockPolicyCheck.mockImplementation(async ({ name }) => ({
+      decision:
+        name === 'run_shell_command'
+          ? PolicyDecision.ASK_USER
+          : PolicyDecision.ALLOW,
+    }));
+
+    const promise = runWorkflow(
+      'check',
+      steps([{ shell: 'npm run lint' }, { shell: 'npm test' }]),
+      context,
+      getProcessors,
+    );
+
+    await expect(promise).rejects.toBeInstanceOf(ConfirmationRequiredError);
+    await expect(promise).rejects.toMatchObject({
+      commandsToConfirm: ['npm run lint', 'npm test'],
+    });
+    expect(mockShellExecute).not.toHaveBeenCalled();
+  });
+
+  it('should ask to confirm the shell injections of prompt steps up front', async () => {
+    mockPolicyCheck.mockImplementation(async ({ name, args }) => ({
+      decision:
+        name === 'run_shell_command' && args.command.startsWith('git')
+          ? PolicyDecision.ASK_USER
+          : PolicyDecision.ALLOW,
+    }));
+
+    const promise = runWorkflow(
+      'check',
+      steps([
+        { shell: 'npm test' },
+        { prompt: 'Review this diff:\n!{git diff {{file}}}' },
+      ]),
+      context,
+      getProcessors,
+    );
+
+    await expect(promise).rejects.toBeInstanceOf(ConfirmationRequiredError);
+    await expect(promise).rejects.toMatchObject({
+      commandsToConfirm: [expect.stringMatching(/^git diff .*src\/a\.ts/)],
+    });
+    expect(mockShellExecute).not.toHaveBeenCalled();
+  });
+
+  it("should run tool steps with the command's abort signal", async () => {
+    const controller = new AbortController();
+    context.abortSignal = controller.signal;
+
+    await runWorkflow(
+      'check',
+      steps([{ tool: 'read_file', args: { file_path: '{{file}}' } }]),
+      context,
+      getProcessors,
+    );
+    expect(mockReadFile).toHaveBeenCalledWith(
+      { file_path: 'src/a.ts' },
+      controller.signal,
+    );
+
+    controller.abort();
+    const result = await runWorkflow(
+      'check',
+      steps([{ shell: 'npm test' }]),
+      context,
+      getProcessors,
+    );
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: '/check was cancelled before step 1.',
+    });
+    expect(mockShellExecute).not.toHaveBeenCalled();
+  });
+
+  it('should refuse tool steps that policy does not allow', async () => {
+    mockPolicyCheck.mockResolvedValue({ decision: PolicyDecision.ASK_USER });
+
+    await expect(
+      runWorkflow(
+        'check',
+        steps([{ tool: 'read_file', args: { file_path: 'a' } }]),
+        context,
+        getProcessors,
+      ),
+    ).rejects.toThrow("Step 1 calls 'read_file', which needs confirmation.");
+    await expect(
+      runWorkflow(
+        'check',
+        steps([{ tool: 'unknown_tool' }]),
+        context,
+        getProcessors,
+      ),
+    ).rejects.toThrow("Step 1 calls unknown tool 'unknown_tool'.");
+    expect(mockReadFile).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { z } from 'zod';
+import { PolicyDecision, partToString } from '@google/gemini-cli-core';
+import type {
+  CommandContext,
+  SlashCommandActionReturn,
+} from '../ui/commands/types.js';
+import {
+  SHELL_INJECTION_TRIGGER,
+  type IPromptProcessor,
+  type PromptPipelineContent,
+} from './prompt-processors/types.js';
+import {
+  checkShellCommands,
+  resolveShellInjections,
+  runShellCommand,
+  substituteArguments,
+} from './prompt-processors/shellProcessor.js';
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Defines the Zod schema for one `[[steps]]` entry of a workflow command.
+ */
+export const WorkflowStepSchema = z
+  .object({
+    prompt: z.string().optional(),
+    shell: z.string().optional(),
+    tool: z.string().optional(),
+    args: z.record(z.unknown()).optional(),
+    include_output: z.boolean().default(true),
+    stop_if: z.enum(['success', 'failure']).optional(),
+    stop_if_output: z
+      .string()
+      .refine(isValidRegex, "'stop_if_output' must be a regular expression.")
+      .optional(),
+    stop_message: z.string().optional(),
+  })
+  .refine(
+    (step) =>
+      [step.prompt, step.shell, step.tool].filter((v) => v !== undefined)
+        .length === 1,
+    { message: "Each step needs exactly one of 'prompt', 'shell' or 'tool'." },
+  )
+  .refine((step) => step.args === undefined || step.tool !== undefined, {
+    message: "Only 'tool' steps take 'args'.",
+  })
+  .refine(
+    (step) =>
+      step.prompt === undefined ||
+      (step.stop_if === undefined && step.stop_if_output === undefined),
+    { message: "'prompt' steps cannot have stop conditions." },
+  );
+
+export type WorkflowStep = z.infer<typeof WorkflowStepSchema>;
+
+interface StepResult {
+  content: PromptPipelineContent;
+  succeeded: boolean;
+}
+
+/**
+ * Substitutes arguments into the string values of a tool step's `args`. A
+ * value that is a single placeholder, such as `"{{limit}}"`, takes the
+ * argument's typed value.
+ */
+function substituteToolArgs(value: unknown, context: CommandContext): unknown {
+  if (typeof value === 'string') {
+    const match = /^\{\{([A-Za-z_][\w-]*)\}\}$/.exec(value);
+    const namedArgs = context.invocation?.namedArgs ?? {};
+    if (match && Object.hasOwn(namedArgs, match[1])) {
+      return namedArgs[match[1]];
+    }
+    return substituteArguments(value, context);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => substituteToolArgs(item, context));
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        substituteToolArgs(item, context),
+      ]),
+    );
+  }
+  return value;
+}
+
+function shouldStop(step: WorkflowStep, result: StepResult): boolean {
+  if (step.stop_if === 'success' && result.succeeded) {
+    return true;
+  }
+  if (step.stop_if === 'failure' && !result.succeeded) {
+    return true;
+  }
+  return (
+    step.stop_if_output !== undefined &&
+    new RegExp(step.stop_if_output, 'm').test(partToString(result.content))
+  );
+}
+
+/**
+ * Runs the steps of a workflow command in order and returns the prompt they
+ * build up, or a message if a step's stop condition is met.
+ *
+ * Every shell command and tool call, including the `!{...}` injections of
+ * `prompt` steps, is checked against the policy engine before the first step
+ * runs. Shell commands that need approval are confirmed together through
+ * `ConfirmationRequiredError`; tool steps may only call tools that policy
+ * allows without confirmation.
+ *
+ * @param getProcessors Returns the prompt-processor pipeline for the text
+ *   of a `prompt` step.
+ */
+export async function runWorkflow(
+  commandName: string,
+  steps: WorkflowStep[],
+  context: CommandContext,
+  getProcessors: (prompt: string) => IPromptProcessor[],
+): Promise<SlashCommandActionReturn> {
+  const config = context.services.config;
+  if (!config) {
+    throw new Error(
+      `Security configuration not loaded. Cannot verify the steps of '${commandName}'. Aborting.`,
+    );
+  }
+
+  const shellCommands = new Map<WorkflowStep, string>();
+  const commandsToCheck: string[] = [];
+  const toolArgs = new Map<WorkflowStep, Record<string, unknown>>();
+  for (const [index, step] of steps.entries()) {
+    if (step.prompt?.includes(SHELL_INJECTION_TRIGGER)) {
+      for (const { resolvedCommand } of resolveShellInjections(
+        step.prompt,
+        context,
+        commandName,
+      )) {
+        if (resolvedCommand) {
+          commandsToCheck.push(resolvedCommand);
+        }
+      }
+    } else if (step.shell !== undefined) {
+      const command = substituteArguments(step.shell.trim(), context, true);
+      shellCommands.set(step, command);
+      commandsToCheck.push(command);
+    } else if (step.tool !== undefined) {
+      if (!config.getToolRegistry().getTool(step.tool)) {
+        throw new Error(
+          `${commandName} cannot be run. Step ${index + 1} calls unknown tool '${step.tool}'.`,
+        );
+      }
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+      const args = substituteToolArgs(step.args ?? {}, context) as Record<
+        string,
+        unknown
+      >;
+      const { decision } = await config
+        .getPolicyEngine()
+        .check({ name: step.tool, args }, undefined);
+      if (decision !== PolicyDecision.ALLOW) {
+        throw new Error(
+          decision === PolicyDecision.DENY
+            ? `${commandName} cannot be run. Step ${index + 1} calls '${step.tool}', which is blocked by policy.`
+            : `${commandName} cannot be run. Step ${index + 1} calls '${step.tool}', which needs confirmation. Add a policy rule that allows it to use it in a workflow.`,
+        );
+      }
+      toolArgs.set(step, args);
+    }
+  }
+  await checkShellCommands(commandsToCheck, context, commandName);
+
+  const signal = context.abortSignal ?? new AbortController().signal;
+  const content: PromptPipelineContent = [];
+  for (const [index, step] of steps.entries()) {
+    if (signal.aborted) {
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: `/${commandName} was cancelled before step ${index + 1}.`,
+      };
+    }
+    let result: StepResult;
+    if (step.prompt !== undefined) {
+      let processed: PromptPipelineContent = [{ text: step.prompt }];
+      for (const processor of getProcessors(step.prompt)) {
+        processed = await processor.process(processed, context);
+      }
+      result = { content: processed, succeeded: true };
+    } else if (step.shell !== undefined) {
+      const { output, succeeded, status } = await runShellCommand(
+        shellCommands.get(step)!,
+        config,
+        commandName,
+        signal,
+      );
+      result = {
+        content: [{ text: status ? `${output}\n${status}` : output }],
+        succeeded,
+      };
+    } else {
+      const toolResult = await config
+        .getToolRegistry()
+        .getTool(step.tool!)!
+        .validateBuildAndExecute(toolArgs.get(step)!, signal);
+      result = {
+        content: [{ text: partToString(toolResult.llmContent) }],
+        succeeded: !toolResult.error,
+      };
+    }
+
+    if (step.include_output) {
+      if (content.length > 0) {
+        content.push({ text: '\n\n' });
+      }
+      content.push(...result.content);
+    }
+
+    if (shouldStop(step, result)) {
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: step.stop_message
+          ? substituteArguments(step.stop_message, context)
+          : `/${commandName} stopped after step ${index + 1}.`,
+      };
+    }
+  }
+
+  if (content.length === 0) {
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: `/${commandName} completed.`,
+    };
+  }
+  return { type: 'submit_prompt', content };
+}
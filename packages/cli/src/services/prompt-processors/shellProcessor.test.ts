@@ -690,6 +690,31 @@ describe('ShellProcessor', () => {
         `Blocked command: "${expectedResolvedCommand}". Reason: Blocked by policy.`,
       );
     });
+
+    it('should replace named arguments raw outside and escaped inside !{} blocks', async () => {
+      context.invocation!.namedArgs = { file: 'my file.ts', depth: 3 };
+      const processor = new ShellProcessor('test-command');
+      const prompt: PromptPipelineContent = createPromptPipelineContent(
+        'Review {{file}} to depth {{depth}} ({{other}}): !{cat {{file}}}',
+      );
+      mockShellExecute.mockReturnValue({
+        result: Promise.resolve({ ...SUCCESS_RESULT, output: 'contents' }),
+      });
+
+      const result = await processor.process(prompt, context);
+
+      expect(mockShellExecute).toHaveBeenCalledWith(
+        `cat ${getExpectedEscapedArgForPlatform('my file.ts')}`,
+        expect.any(String),
+        expect.any(Function),
+        expect.any(Object),
+        false,
+        expect.any(Object),
+      );
+      expect(result).toEqual([
+        { text: 'Review my file.ts to depth 3 ({{other}}): contents' },
+      ]);
+    });
   });
   describe('Real-World Escaping Scenarios', () => {
     it('should correctly handle multiline arguments', async () => {
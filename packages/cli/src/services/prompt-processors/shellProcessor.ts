@@ -5,6 +5,7 @@
  */
 
 import {
+  type Config,
   escapeShellArg,
   getShellConfiguration,
   ShellExecutionService,
@@ -15,6 +16,7 @@ import {
 import type { CommandContext } from '../../ui/commands/types.js';
 import type { IPromptProcessor, PromptPipelineContent } from './types.js';
 import {
+  ARGUMENT_PLACEHOLDER_PATTERN,
   SHELL_INJECTION_TRIGGER,
   SHORTHAND_ARGS_PLACEHOLDER,
 } from './types.js';
@@ -31,22 +33,188 @@ export class ConfirmationRequiredError extends Error {
   }
 }
 
+/**
+ * The result of a shell command run on behalf of a custom command.
+ */
+export interface ShellCommandResult {
+  /** The combined output of the command. */
+  output: string;
+  /** Whether the command exited with code 0. */
+  succeeded: boolean;
+  /** A note for the model when the command did not succeed. */
+  status?: string;
+}
+
+/**
+ * Replaces `{{args}}` with the raw arguments string and `{{<name>}}` with the
+ * value of each named argument. Values are shell-escaped when `escape` is
+ * true. Unknown placeholders are left untouched.
+ */
+export function substituteArguments(
+  text: string,
+  context: CommandContext,
+  escape = false,
+): string {
+  const userArgsRaw = context.invocation?.args || '';
+  const namedArgs = context.invocation?.namedArgs ?? {};
+  const { shell } = getShellConfiguration();
+  return text.replace(ARGUMENT_PLACEHOLDER_PATTERN, (placeholder, name) => {
+    let value: string;
+    if (placeholder === SHORTHAND_ARGS_PLACEHOLDER) {
+      value = userArgsRaw;
+    } else if (Object.hasOwn(namedArgs, name)) {
+      value = String(namedArgs[name]);
+    } else {
+      return placeholder;
+    }
+    return escape ? escapeShellArg(value, shell) : value;
+  });
+}
+
+/**
+ * Checks resolved shell commands against the policy engine and the session
+ * allowlist.
+ *
+ * @throws {ConfirmationRequiredError} if any command needs the user's approval.
+ * @throws {Error} if any command is denied by policy.
+ */
+export async function checkShellCommands(
+  commands: string[],
+  context: CommandContext,
+  commandName: string,
+): Promise<void> {
+  const config = context.services.config;
+  if (!config) {
+    throw new Error(
+      `Security configuration not loaded. Cannot verify shell command permissions for '${commandName}'. Aborting.`,
+    );
+  }
+
+  const commandsToConfirm = new Set<string>();
+  for (const command of commands) {
+    if (context.session.sessionShellAllowlist?.has(command)) {
+      continue;
+    }
+
+    // Security check on the final, escaped command string.
+    const { decision } = await config.getPolicyEngine().check(
+      {
+        name: 'run_shell_command',
+        args: { command },
+      },
+      undefined,
+    );
+
+    if (decision === PolicyDecision.DENY) {
+      throw new Error(
+        `${commandName} cannot be run. Blocked command: "${command}". Reason: Blocked by policy.`,
+      );
+    } else if (decision === PolicyDecision.ASK_USER) {
+      commandsToConfirm.add(command);
+    }
+  }
+
+  // Handle confirmation requirements.
+  if (commandsToConfirm.size > 0) {
+    throw new ConfirmationRequiredError(
+      'Shell command confirmation required',
+      Array.from(commandsToConfirm),
+    );
+  }
+}
+
+/**
+ * Runs a shell command that has already passed `checkShellCommands`.
+ */
+export async function runShellCommand(
+  command: string,
+  config: Config,
+  commandName: string,
+  signal: AbortSignal = new AbortController().signal,
+): Promise<ShellCommandResult> {
+  const activeTheme = themeManager.getActiveTheme();
+  const shellExecutionConfig = {
+    ...config.getShellExecutionConfig(),
+    defaultFg: activeTheme.colors.Foreground,
+    defaultBg: activeTheme.colors.Background,
+  };
+  const { result } = await ShellExecutionService.execute(
+    command,
+    config.getTargetDir(),
+    () => {},
+    signal,
+    config.getEnableInteractiveShell(),
+    shellExecutionConfig,
+  );
+
+  const executionResult = await result;
+
+  // Handle Spawn Errors
+  if (executionResult.error && !executionResult.aborted) {
+    throw new Error(
+      `Failed to start shell command in '${commandName}': ${executionResult.error.message}. Command: ${command}`,
+    );
+  }
+
+  // Describe the status if the command did not succeed.
+  let status: string | undefined;
+  if (executionResult.aborted) {
+    status = `[Shell command '${command}' aborted]`;
+  } else if (
+    executionResult.exitCode !== 0 &&
+    executionResult.exitCode !== null
+  ) {
+    status = `[Shell command '${command}' exited with code ${executionResult.exitCode}]`;
+  } else if (executionResult.signal !== null) {
+    status = `[Shell command '${command}' terminated by signal ${executionResult.signal}]`;
+  }
+  return {
+    output: executionResult.output,
+    succeeded: status === undefined,
+    status,
+  };
+}
+
 /**
  * Represents a single detected shell injection site in the prompt,
  * after resolution of arguments. Extends the base Injection interface.
  */
-interface ResolvedShellInjection extends Injection {
+export interface ResolvedShellInjection extends Injection {
   /** The command after {{args}} has been escaped and substituted. */
   resolvedCommand?: string;
 }
 
+/**
+ * Finds the `!{...}` injections in a prompt and substitutes shell-escaped
+ * arguments into their commands. Empty injections have no `resolvedCommand`.
+ */
+export function resolveShellInjections(
+  prompt: string,
+  context: CommandContext,
+  commandName: string,
+): ResolvedShellInjection[] {
+  return extractInjections(prompt, SHELL_INJECTION_TRIGGER, commandName).map(
+    (injection) => {
+      const command = injection.content;
+
+      if (command === '') {
+        return { ...injection, resolvedCommand: undefined };
+      }
+
+      const resolvedCommand = substituteArguments(command, context, true);
+      return { ...injection, resolvedCommand };
+    },
+  );
+}
+
 /**
  * Handles prompt interpolation, including shell command execution (`!{...}`)
- * and context-aware argument injection (`{{args}}`).
+ * and context-aware argument injection (`{{args}}` and named `{{<name>}}`
+ * arguments).
  *
  * This processor ensures that:
- * 1. `{{args}}` outside `!{...}` are replaced with raw input.
- * 2. `{{args}}` inside `!{...}` are replaced with shell-escaped input.
+ * 1. Arguments outside `!{...}` are replaced with raw input.
+ * 2. Arguments inside `!{...}` are replaced with shell-escaped input.
  * 3. Shell commands are executed securely after argument substitution.
  * 4. Parsing correctly handles nested braces.
  */
@@ -66,12 +234,8 @@ export class ShellProcessor implements IPromptProcessor {
     prompt: string,
     context: CommandContext,
   ): Promise<PromptPipelineContent> {
-    const userArgsRaw = context.invocation?.args || '';
-
     if (!prompt.includes(SHELL_INJECTION_TRIGGER)) {
-      return [
-        { text: prompt.replaceAll(SHORTHAND_ARGS_PLACEHOLDER, userArgsRaw) },
-      ];
+      return [{ text: substituteArguments(prompt, context) }];
     }
 
     const config = context.services.config;
@@ -81,136 +245,57 @@ export class ShellProcessor implements IPromptProcessor {
       );
     }
 
-    const injections = extractInjections(
+    const resolvedInjections = resolveShellInjections(
       prompt,
-      SHELL_INJECTION_TRIGGER,
+      context,
       this.commandName,
     );
 
     // If extractInjections found no closed blocks (and didn't throw), treat as raw.
-    if (injections.length === 0) {
-      return [
-        { text: prompt.replaceAll(SHORTHAND_ARGS_PLACEHOLDER, userArgsRaw) },
-      ];
+    if (resolvedInjections.length === 0) {
+      return [{ text: substituteArguments(prompt, context) }];
     }
 
-    const { shell } = getShellConfiguration();
-    const userArgsEscaped = escapeShellArg(userArgsRaw, shell);
-
-    const resolvedInjections: ResolvedShellInjection[] = injections.map(
-      (injection) => {
-        const command = injection.content;
-
-        if (command === '') {
-          return { ...injection, resolvedCommand: undefined };
-        }
-
-        const resolvedCommand = command.replaceAll(
-          SHORTHAND_ARGS_PLACEHOLDER,
-          userArgsEscaped,
-        );
-        return { ...injection, resolvedCommand };
-      },
+    await checkShellCommands(
+      resolvedInjections
+        .map((injection) => injection.resolvedCommand)
+        .filter((command): command is string => !!command),
+      context,
+      this.commandName,
     );
 
-    const commandsToConfirm = new Set<string>();
-    for (const injection of resolvedInjections) {
-      const command = injection.resolvedCommand;
-
-      if (!command) continue;
-
-      if (context.session.sessionShellAllowlist?.has(command)) {
-        continue;
-      }
-
-      // Security check on the final, escaped command string.
-      const { decision } = await config.getPolicyEngine().check(
-        {
-          name: 'run_shell_command',
-          args: { command },
-        },
-        undefined,
-      );
-
-      if (decision === PolicyDecision.DENY) {
-        throw new Error(
-          `${this.commandName} cannot be run. Blocked command: "${command}". Reason: Blocked by policy.`,
-        );
-      } else if (decision === PolicyDecision.ASK_USER) {
-        commandsToConfirm.add(command);
-      }
-    }
-
-    // Handle confirmation requirements.
-    if (commandsToConfirm.size > 0) {
-      throw new ConfirmationRequiredError(
-        'Shell command confirmation required',
-        Array.from(commandsToConfirm),
-      );
-    }
-
     let processedPrompt = '';
     let lastIndex = 0;
 
     for (const injection of resolvedInjections) {
-      // Append the text segment BEFORE the injection, substituting {{args}} with RAW input.
+      // Append the text segment BEFORE the injection, substituting arguments with RAW input.
       const segment = prompt.substring(lastIndex, injection.startIndex);
-      processedPrompt += segment.replaceAll(
-        SHORTHAND_ARGS_PLACEHOLDER,
-        userArgsRaw,
-      );
+      processedPrompt += substituteArguments(segment, context);
 
       // Execute the resolved command (which already has ESCAPED input).
       if (injection.resolvedCommand) {
-        const activeTheme = themeManager.getActiveTheme();
-        const shellExecutionConfig = {
-          ...config.getShellExecutionConfig(),
-          defaultFg: activeTheme.colors.Foreground,
-          defaultBg: activeTheme.colors.Background,
-        };
-        const { result } = await ShellExecutionService.execute(
+        const { output, status } = await runShellCommand(
           injection.resolvedCommand,
-          config.getTargetDir(),
-          () => {},
-          new AbortController().signal,
-          config.getEnableInteractiveShell(),
-          shellExecutionConfig,
+          config,
+          this.commandName,
+          context.abortSignal,
         );
 
-        const executionResult = await result;
-
-        // Handle Spawn Errors
-        if (executionResult.error && !executionResult.aborted) {
-          throw new Error(
-            `Failed to start shell command in '${this.commandName}': ${executionResult.error.message}. Command: ${injection.resolvedCommand}`,
-          );
-        }
-
         // Append the output, making stderr explicit for the model.
-        processedPrompt += executionResult.output;
+        processedPrompt += output;
 
         // Append a status message if the command did not succeed.
-        if (executionResult.aborted) {
-          processedPrompt += `\n[Shell command '${injection.resolvedCommand}' aborted]`;
-        } else if (
-          executionResult.exitCode !== 0 &&
-          executionResult.exitCode !== null
-        ) {
-          processedPrompt += `\n[Shell command '${injection.resolvedCommand}' exited with code ${executionResult.exitCode}]`;
-        } else if (executionResult.signal !== null) {
-          processedPrompt += `\n[Shell command '${injection.resolvedCommand}' terminated by signal ${executionResult.signal}]`;
+        if (status) {
+          processedPrompt += `\n${status}`;
         }
       }
 
       lastIndex = injection.endIndex;
     }
 
-    // Append the remaining text AFTER the last injection, substituting {{args}} with RAW input.
+    // Append the remaining text AFTER the last injection, substituting arguments with RAW input.
     const finalSegment = prompt.substring(lastIndex);
-    processedPrompt += finalSegment.replaceAll(
-      SHORTHAND_ARGS_PLACEHOLDER,
-      userArgsRaw,
-    );
+    processedPrompt += substituteArguments(finalSegment, context);
 
     return [{ text: processedPrompt }];
   }
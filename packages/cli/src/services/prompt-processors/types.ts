@@ -43,6 +43,11 @@ export interface IPromptProcessor {
  */
 export const SHORTHAND_ARGS_PLACEHOLDER = '{{args}}';
 
+/**
+ * Matches `{{args}}` and the `{{<name>}}` placeholders of named arguments.
+ */
+export const ARGUMENT_PLACEHOLDER_PATTERN = /\{\{([A-Za-z_][\w-]*)\}\}/g;
+
 /**
  * The trigger string for shell command injection in custom commands.
  */
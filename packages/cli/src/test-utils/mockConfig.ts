@@ -148,6 +148,10 @@ export const createMockConfig = (overrides: Partial<Config> = {}): Config =>
     getEmbeddingModel: vi.fn().mockReturnValue('embedding-model'),
     getQuotaErrorOccurred: vi.fn().mockReturnValue(false),
     getMaxSessionTurns: vi.fn().mockReturnValue(100),
+    getBudgetService: vi.fn().mockReturnValue({
+      getWarnings: vi.fn().mockReturnValue([]),
+      getExceededLimit: vi.fn().mockReturnValue(undefined),
+    }),
     getExcludeTools: vi.fn().mockReturnValue(new Set()),
     getAllowedMcpServers: vi.fn().mockReturnValue([]),
     getBlockedMcpServers: vi.fn().mockReturnValue([]),
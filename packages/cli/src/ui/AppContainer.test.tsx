@@ -17,7 +17,7 @@ import {
 import { render } from '../test-utils/render.js';
 import { waitFor } from '../test-utils/async.js';
 import { cleanup } from 'ink-testing-library';
-import { act, useContext, type ReactElement } from 'react';
+import { act, useContext, type ContextType, type ReactElement } from 'react';
 import { AppContainer } from './AppContainer.js';
 import { SettingsContext } from './contexts/SettingsContext.js';
 import { type TrackedToolCall } from './hooks/useReactToolScheduler.js';
@@ -29,6 +29,9 @@ import {
   type ResumedSessionData,
   AuthType,
   type AgentDefinition,
+  MessageBusType,
+  QuestionType,
+  type AskUserResponse,
 } from '@google/gemini-cli-core';
 
 // Mock coreEvents
@@ -88,6 +91,7 @@ import { type LoadedSettings, mergeSettings } from '../config/settings.js';
 import type { InitializationResult } from '../core/initializer.js';
 import { useQuotaAndFallback } from './hooks/useQuotaAndFallback.js';
 import { UIStateContext, type UIState } from './contexts/UIStateContext.js';
+import { AskUserActionsContext } from './contexts/AskUserActionsContext.js';
 import {
   UIActionsContext,
   type UIActions,
@@ -107,9 +111,11 @@ vi.mock('ink', async (importOriginal) => {
 // so we can assert against them in our tests.
 let capturedUIState: UIState;
 let capturedUIActions: UIActions;
+let capturedAskUserActions: ContextType<typeof AskUserActionsContext>;
 function TestContextConsumer() {
   capturedUIState = useContext(UIStateContext)!;
   capturedUIActions = useContext(UIActionsContext)!;
+  capturedAskUserActions = useContext(AskUserActionsContext);
   return null;
 }
 
@@ -2551,6 +2557,53 @@ describe('AppContainer State Management', () => {
       unmount!();
     });
 
+    it('shows questions published on the message bus and publishes the answers', async () => {
+      let unmount: () => void;
+      await act(async () => {
+        const result = renderAppContainer();
+        unmount = result.unmount;
+      });
+      await waitFor(() => expect(capturedUIState).toBeTruthy());
+
+      const messageBus = mockConfig.getMessageBus();
+      const responses: AskUserResponse[] = [];
+      messageBus.subscribe<AskUserResponse>(
+        MessageBusType.ASK_USER_RESPONSE,
+        (response) => responses.push(response),
+      );
+      const questions = [
+        { question: 'Proceed?', header: 'Confirm', type: QuestionType.YESNO },
+      ];
+
+      await act(async () => {
+        await messageBus.publish({
+          type: MessageBusType.ASK_USER_REQUEST,
+          questions,
+          correlationId: 'request-1',
+        });
+      });
+
+      expect(capturedAskUserActions?.request).toEqual({
+        questions,
+        correlationId: 'request-1',
+      });
+      expect(capturedUIState.dialogsVisible).toBe(true);
+
+      await act(async () => {
+        await capturedAskUserActions?.submit({ '0': 'Yes' });
+      });
+
+      expect(responses).toEqual([
+        {
+          type: MessageBusType.ASK_USER_RESPONSE,
+          correlationId: 'request-1',
+          answers: { '0': 'Yes' },
+        },
+      ]);
+      expect(capturedAskUserActions?.request).toBeNull();
+      unmount!();
+    });
+
     it('unsubscribes from ConsentRequest on unmount', async () => {
       let unmount: () => void;
       await act(async () => {
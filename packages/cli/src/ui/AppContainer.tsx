@@ -34,6 +34,10 @@ import {
 import { checkPermissions } from './hooks/atCommandProcessor.js';
 import { MessageType, StreamingState } from './types.js';
 import { ToolActionsProvider } from './contexts/ToolActionsContext.js';
+import {
+  AskUserActionsProvider,
+  type AskUserState,
+} from './contexts/AskUserActionsContext.js';
 import {
   type EditorType,
   type Config,
@@ -71,6 +75,8 @@ import {
   type ConsentRequestPayload,
   type AgentsDiscoveredPayload,
   ChangeAuthRequestedError,
+  MessageBusType,
+  type AskUserRequest,
 } from '@google/gemini-cli-core';
 import { validateAuthMethod } from '../config/auth.js';
 import process from 'node:process';
@@ -886,6 +892,61 @@ Logging in with Google... Restarting Gemini CLI to continue.
     };
   }, []);
 
+  // Questions published on the message bus outside of a tool call, such as
+  // MCP elicitation forms, are queued and answered one at a time.
+  const [askUserRequests, setAskUserRequests] = useState<AskUserState[]>([]);
+
+  useEffect(() => {
+    const messageBus = config.getMessageBus();
+    const handleAskUserRequest = (request: AskUserRequest) => {
+      setAskUserRequests((requests) => [
+        ...requests,
+        { questions: request.questions, correlationId: request.correlationId },
+      ]);
+    };
+
+    messageBus.subscribe<AskUserRequest>(
+      MessageBusType.ASK_USER_REQUEST,
+      handleAskUserRequest,
+    );
+    return () => {
+      messageBus.unsubscribe<AskUserRequest>(
+        MessageBusType.ASK_USER_REQUEST,
+        handleAskUserRequest,
+      );
+    };
+  }, [config]);
+
+  const askUserRequest = askUserRequests[0] ?? null;
+
+  const handleAskUserSubmit = useCallback(
+    async (answers: { [questionIndex: string]: string }) => {
+      if (!askUserRequest) {
+        return;
+      }
+      setAskUserRequests((requests) => requests.slice(1));
+      await config.getMessageBus().publish({
+        type: MessageBusType.ASK_USER_RESPONSE,
+        correlationId: askUserRequest.correlationId,
+        answers,
+      });
+    },
+    [askUserRequest, config],
+  );
+
+  const handleAskUserCancel = useCallback(() => {
+    if (!askUserRequest) {
+      return;
+    }
+    setAskUserRequests((requests) => requests.slice(1));
+    void config.getMessageBus().publish({
+      type: MessageBusType.ASK_USER_RESPONSE,
+      correlationId: askUserRequest.correlationId,
+      answers: {},
+      cancelled: true,
+    });
+  }, [askUserRequest, config]);
+
   const performMemoryRefresh = useCallback(async () => {
     historyManager.addItem(
       {
@@ -1769,6 +1830,7 @@ Logging in with Google... Restarting Gemini CLI to continue.
     adminSettingsChanged ||
     !!commandConfirmationRequest ||
     !!authConsentRequest ||
+    !!askUserRequest ||
     !!permissionConfirmationRequest ||
     !!customDialog ||
     confirmUpdateExtensionRequests.length > 0 ||
@@ -2222,9 +2284,15 @@ Logging in with Google... Restarting Gemini CLI to continue.
             }}
           >
             <ToolActionsProvider config={config} toolCalls={allToolCalls}>
-              <ShellFocusContext.Provider value={isFocused}>
-                <App />
-              </ShellFocusContext.Provider>
+              <AskUserActionsProvider
+                request={askUserRequest}
+                onSubmit={handleAskUserSubmit}
+                onCancel={handleAskUserCancel}
+              >
+                <ShellFocusContext.Provider value={isFocused}>
+                  <App />
+                </ShellFocusContext.Provider>
+              </AskUserActionsProvider>
             </ToolActionsProvider>
           </AppContext.Provider>
         </ConfigContext.Provider>
@@ -76,6 +76,11 @@ export function AuthDialog({
       value: AuthType.USE_VERTEX_AI,
       key: AuthType.USE_VERTEX_AI,
     },
+    {
+      label: 'OpenAI-compatible API',
+      value: AuthType.USE_OPENAI_COMPATIBLE,
+      key: AuthType.USE_OPENAI_COMPATIBLE,
+    },
   ];
 
   if (settings.merged.security.auth.enforcedType) {
@@ -133,6 +133,22 @@ describe('aboutCommand', () => {
     );
   });
 
+  it('should show bubblewrap profile when applicable', async () => {
+    process.env['SANDBOX'] = 'bwrap';
+    process.env['BWRAP_PROFILE'] = 'permissive-closed';
+    if (!aboutCommand.action) {
+      throw new Error('The about command must have an action.');
+    }
+
+    await aboutCommand.action(mockContext, '');
+
+    expect(mockContext.ui.addItem).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sandboxEnv: 'bwrap (permissive-closed)',
+      }),
+    );
+  });
+
   it('should not show ide client when it is not detected', async () => {
     vi.mocked(IdeClient.getInstance).mockResolvedValue({
       getDetectedIdeDisplayName: vi.fn().mockReturnValue(undefined),
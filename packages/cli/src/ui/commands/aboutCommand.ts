@@ -23,7 +23,12 @@ export const aboutCommand: SlashCommand = {
   action: async (context) => {
     const osVersion = process.platform;
     let sandboxEnv = 'no sandbox';
-    if (process.env['SANDBOX'] && process.env['SANDBOX'] !== 'sandbox-exec') {
+    if (process.env['SANDBOX'] === 'bwrap') {
+      sandboxEnv = `bwrap (${process.env['BWRAP_PROFILE'] || 'unknown'})`;
+    } else if (
+      process.env['SANDBOX'] &&
+      process.env['SANDBOX'] !== 'sandbox-exec'
+    ) {
       sandboxEnv = process.env['SANDBOX'];
     } else if (process.env['SANDBOX'] === 'sandbox-exec') {
       sandboxEnv = `sandbox-exec (${
@@ -36,7 +36,12 @@ export const bugCommand: SlashCommand = {
 
     const osVersion = `${process.platform} ${process.version}`;
     let sandboxEnv = 'no sandbox';
-    if (process.env['SANDBOX'] && process.env['SANDBOX'] !== 'sandbox-exec') {
+    if (process.env['SANDBOX'] === 'bwrap') {
+      sandboxEnv = `bwrap (${process.env['BWRAP_PROFILE'] || 'unknown'})`;
+    } else if (
+      process.env['SANDBOX'] &&
+      process.env['SANDBOX'] !== 'sandbox-exec'
+    ) {
       sandboxEnv = process.env['SANDBOX'].replace(/^gemini-(?:code-)?/, '');
     } else if (process.env['SANDBOX'] === 'sandbox-exec') {
       sandboxEnv = `sandbox-exec (${
@@ -0,0 +1,167 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { ReactElement } from 'react';
+import { checkpointsCommand } from './checkpointsCommand.js';
+import type { CommandContext, OpenCustomDialogActionReturn } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+import type {
+  CheckpointToolCall,
+  Config,
+  GitService,
+  PartialRestoreRequest,
+} from '@google/gemini-cli-core';
+
+vi.mock('../components/CheckpointBrowser.js', () => ({
+  CheckpointBrowser: () => null,
+}));
+
+interface CheckpointBrowserProps {
+  toolCallsByCommit: Map<string, CheckpointToolCall[]>;
+  onExit: () => void;
+  onRestore: (request: PartialRestoreRequest) => Promise<void>;
+}
+
+describe('checkpointsCommand', () => {
+  let mockContext: CommandContext;
+  let mockConfig: Config;
+  let mockGitService: GitService;
+  let testRootDir: string;
+  let checkpointsDir: string;
+
+  beforeEach(async () => {
+    testRootDir = await fs.mkdtemp(
+      path.join(os.tmpdir(), 'checkpoints-command-test-'),
+    );
+    checkpointsDir = path.join(testRootDir, 'checkpoints');
+    await fs.mkdir(checkpointsDir, { recursive: true });
+
+    mockGitService = {
+      listSnapshots: vi.fn().mockResolvedValue([
+        {
+          commitHash: 'abc1234',
+          timestamp: new Date(0),
+          message: 'Snapshot for replace',
+        },
+      ]),
+      restoreFileFromSnapshot: vi.fn().mockResolvedValue(undefined),
+    } as unknown as GitService;
+
+    mockConfig = {
+      getCheckpointingEnabled: vi.fn().mockReturnValue(true),
+      storage: {
+        getProjectTempCheckpointsDir: vi.fn().mockReturnValue(checkpointsDir),
+      },
+    } as unknown as Config;
+
+    mockContext = createMockCommandContext({
+      services: {
+        config: mockConfig,
+        git: mockGitService,
+      },
+      ui: {
+        removeComponent: vi.fn(),
+      },
+    });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(testRootDir, { recursive: true, force: true });
+  });
+
+  const openBrowser = async () => {
+    const result = (await checkpointsCommand(mockConfig)?.action?.(
+      mockContext,
+      '',
+    )) as OpenCustomDialogActionReturn;
+    expect(result.type).toBe('custom_dialog');
+    return (result.component as ReactElement<CheckpointBrowserProps>).props;
+  };
+
+  it('should return null if checkpointing is not enabled', () => {
+    vi.mocked(mockConfig.getCheckpointingEnabled).mockReturnValue(false);
+
+    expect(checkpointsCommand(mockConfig)).toBeNull();
+  });
+
+  it('should report an error if the git service is unavailable', async () => {
+    mockContext = createMockCommandContext({
+      services: { config: mockConfig, git: undefined },
+    });
+
+    const result = await checkpointsCommand(mockConfig)?.action?.(
+      mockContext,
+      '',
+    );
+
+    expect(result).toEqual(
+      expect.objectContaining({ type: 'message', messageType: 'error' }),
+    );
+  });
+
+  it('should report when there are no checkpoints', async () => {
+    vi.mocked(mockGitService.listSnapshots).mockResolvedValue([]);
+
+    const result = await checkpointsCommand(mockConfig)?.action?.(
+      mockContext,
+      '',
+    );
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: 'No checkpoints found.',
+    });
+  });
+
+  it('should pass the tool calls recorded in checkpoint files to the browser', async () => {
+    await fs.writeFile(
+      path.join(checkpointsDir, 'cp-replace.json'),
+      JSON.stringify({
+        toolCall: { name: 'replace', args: { file_path: 'a.ts' } },
+        commitHash: 'abc1234',
+      }),
+    );
+
+    const props = await openBrowser();
+
+    expect(props.toolCallsByCommit.get('abc1234')).toEqual([
+      {
+        checkpoint: 'cp-replace',
+        toolName: 'replace',
+        args: { file_path: 'a.ts' },
+      },
+    ]);
+  });
+
+  it('should restore through the core restore plumbing and report the result', async () => {
+    const props = await openBrowser();
+
+    await props.onRestore({ commitHash: 'abc1234', filePath: 'a.ts' });
+
+    expect(mockGitService.restoreFileFromSnapshot).toHaveBeenCalledWith(
+      'abc1234',
+      'a.ts',
+    );
+    expect(mockContext.ui.addItem).toHaveBeenCalledWith(
+      { type: 'info', text: 'Restored a.ts from checkpoint abc1234.' },
+      expect.any(Number),
+    );
+  });
+
+  it('should remove the dialog on exit', async () => {
+    const props = await openBrowser();
+
+    props.onExit();
+
+    expect(mockContext.ui.removeComponent).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs/promises';
+import path from 'node:path';
+import {
+  type Config,
+  getCheckpointToolCallsByCommit,
+  getErrorMessage,
+  performPartialRestore,
+} from '@google/gemini-cli-core';
+import {
+  type CommandContext,
+  type SlashCommand,
+  type SlashCommandActionReturn,
+  CommandKind,
+} from './types.js';
+import { CheckpointBrowser } from '../components/CheckpointBrowser.js';
+
+async function readCheckpointFiles(
+  checkpointDir: string,
+): Promise<Map<string, string>> {
+  const checkpointFiles = new Map<string, string>();
+  let files: string[];
+  try {
+    files = await fs.readdir(checkpointDir);
+  } catch (_err) {
+    return checkpointFiles;
+  }
+  for (const file of files.filter((file) => file.endsWith('.json'))) {
+    try {
+      checkpointFiles.set(
+        file,
+        await fs.readFile(path.join(checkpointDir, file), 'utf-8'),
+      );
+    } catch (_err) {
+      // Ignore checkpoints that were removed while listing them.
+    }
+  }
+  return checkpointFiles;
+}
+
+async function checkpointsAction(
+  context: CommandContext,
+): Promise<void | SlashCommandActionReturn> {
+  const { config, git: gitService } = context.services;
+  if (!config || !gitService) {
+    return {
+      type: 'message',
+      messageType: 'error',
+      content:
+        'Git service is not available, cannot browse checkpoints. Please ensure you are in a git repository.',
+    };
+  }
+
+  let snapshots;
+  try {
+    snapshots = await gitService.listSnapshots();
+  } catch (error) {
+    return {
+      type: 'message',
+      messageType: 'error',
+      content: `Could not list checkpoints: ${getErrorMessage(error)}`,
+    };
+  }
+  if (snapshots.length === 0) {
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: 'No checkpoints found.',
+    };
+  }
+
+  const toolCallsByCommit = getCheckpointToolCallsByCommit(
+    await readCheckpointFiles(config.storage.getProjectTempCheckpointsDir()),
+  );
+
+  return {
+    type: 'custom_dialog',
+    component: (
+      <CheckpointBrowser
+        gitService={gitService}
+        snapshots={snapshots}
+        toolCallsByCommit={toolCallsByCommit}
+        onExit={() => context.ui.removeComponent()}
+        onRestore={async (request) => {
+          for await (const action of performPartialRestore(
+            request,
+            gitService,
+          )) {
+            if (action.type === 'message') {
+              context.ui.addItem(
+                { type: action.messageType, text: action.content },
+                Date.now(),
+              );
+            }
+          }
+        }}
+      />
+    ),
+  };
+}
+
+export const checkpointsCommand = (
+  config: Config | null,
+): SlashCommand | null => {
+  if (!config?.getCheckpointingEnabled()) {
+    return null;
+  }
+
+  return {
+    name: 'checkpoints',
+    description:
+      'Browse checkpoints, preview their changes and restore individual files or hunks',
+    kind: CommandKind.BUILT_IN,
+    autoExecute: true,
+    action: checkpointsAction,
+  };
+};
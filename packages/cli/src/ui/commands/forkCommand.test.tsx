@@ -0,0 +1,234 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { forkCommand } from './forkCommand.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+import { RewindOutcome } from '../components/RewindConfirmation.js';
+import {
+  type OpenCustomDialogActionReturn,
+  type CommandContext,
+} from './types.js';
+import type { ReactElement } from 'react';
+import { coreEvents } from '@google/gemini-cli-core';
+
+const mockForkSession = vi.fn();
+const mockRecordCheckpoint = vi.fn();
+const mockGetConversation = vi.fn();
+const mockResumeChat = vi.fn();
+const mockSetSessionId = vi.fn();
+const mockRemoveComponent = vi.fn();
+const mockLoadHistory = vi.fn();
+const mockRefreshContext = vi.fn();
+const mockRevertFileChanges = vi.fn();
+const mockCreateFileSnapshot = vi.fn();
+const mockGetCheckpointingEnabled = vi.fn();
+
+vi.mock('@google/gemini-cli-core', async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import('@google/gemini-cli-core')>();
+  return {
+    ...actual,
+    coreEvents: {
+      ...actual.coreEvents,
+      emitFeedback: vi.fn(),
+    },
+  };
+});
+
+vi.mock('../components/RewindViewer.js', () => ({
+  CURRENT_POSITION_ID: 'current-position',
+  RewindViewer: () => null,
+}));
+
+vi.mock('../hooks/useSessionBrowser.js', () => ({
+  convertSessionToHistoryFormats: vi.fn().mockReturnValue({
+    uiHistory: [{ type: 'user', text: 'old user' }],
+    clientHistory: [{ role: 'user', parts: [{ text: 'old user' }] }],
+  }),
+}));
+
+vi.mock('../utils/rewindFileOps.js', () => ({
+  revertFileChanges: (...args: unknown[]) => mockRevertFileChanges(...args),
+}));
+
+interface RewindViewerProps {
+  mode: string;
+  onRewind: (
+    messageId: string,
+    newText: string,
+    outcome: RewindOutcome,
+  ) => Promise<void>;
+  onExit: () => void;
+}
+
+describe('forkCommand', () => {
+  let mockContext: CommandContext;
+  const conversation = {
+    messages: [{ id: 'msg-1', type: 'user', content: 'hello' }],
+    sessionId: 'parent-session-id',
+  };
+  const fork = {
+    conversation: {
+      sessionId: 'fork-session-id',
+      messages: [],
+    },
+    filePath: '/chats/session-fork.json',
+  };
+
+  const getOnRewind = async () => {
+    const result = (await forkCommand.action!(
+      mockContext,
+      '',
+    )) as OpenCustomDialogActionReturn;
+    const component = result.component as ReactElement<RewindViewerProps>;
+    expect(component.props.mode).toBe('fork');
+    return component.props.onRewind;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetConversation.mockReturnValue(conversation);
+    mockForkSession.mockReturnValue(fork);
+    mockGetCheckpointingEnabled.mockReturnValue(false);
+    mockCreateFileSnapshot
+      .mockResolvedValueOnce('parent-hash')
+      .mockResolvedValueOnce('fork-hash');
+
+    mockContext = createMockCommandContext({
+      services: {
+        config: {
+          getGeminiClient: () => ({
+            getChatRecordingService: () => ({
+              getConversation: mockGetConversation,
+              forkSession: mockForkSession,
+              recordCheckpoint: mockRecordCheckpoint,
+            }),
+            resumeChat: mockResumeChat,
+          }),
+          setSessionId: mockSetSessionId,
+          getCheckpointingEnabled: mockGetCheckpointingEnabled,
+          getContextManager: () => ({ refresh: mockRefreshContext }),
+        },
+        git: { createFileSnapshot: mockCreateFileSnapshot },
+      },
+      ui: {
+        removeComponent: mockRemoveComponent,
+        loadHistory: mockLoadHistory,
+      },
+    }) as unknown as CommandContext;
+  });
+
+  it('should fork before the selected message and continue in the fork', async () => {
+    const onRewind = await getOnRewind();
+
+    await onRewind('msg-1', 'hello', RewindOutcome.RewindOnly);
+
+    expect(mockForkSession).toHaveBeenCalledWith({
+      messageId: 'msg-1',
+      checkpointCommitHash: undefined,
+    });
+    expect(mockSetSessionId).toHaveBeenCalledWith('fork-session-id');
+    expect(mockResumeChat).toHaveBeenCalledWith(
+      [{ role: 'user', parts: [{ text: 'old user' }] }],
+      fork,
+    );
+    expect(mockRefreshContext).toHaveBeenCalled();
+    expect(mockRemoveComponent).toHaveBeenCalled();
+    expect(mockLoadHistory).toHaveBeenCalledWith(
+      [{ type: 'user', text: 'old user', id: 1 }],
+      'hello',
+    );
+    expect(mockRevertFileChanges).not.toHaveBeenCalled();
+    expect(mockCreateFileSnapshot).not.toHaveBeenCalled();
+    expect(coreEvents.emitFeedback).toHaveBeenCalledWith(
+      'info',
+      'Forked session parent-s. Use /resume to return to it.',
+    );
+  });
+
+  it('should keep the whole conversation when forking from the current position', async () => {
+    const onRewind = await getOnRewind();
+
+    await onRewind('current-position', '', RewindOutcome.RewindOnly);
+
+    expect(mockForkSession).toHaveBeenCalledWith({
+      messageId: undefined,
+      checkpointCommitHash: undefined,
+    });
+  });
+
+  it('should checkpoint both sessions and revert code changes', async () => {
+    mockGetCheckpointingEnabled.mockReturnValue(true);
+    const onRewind = await getOnRewind();
+
+    await onRewind('msg-1', 'hello', RewindOutcome.RewindAndRevert);
+
+    expect(mockCreateFileSnapshot).toHaveBeenNthCalledWith(
+      1,
+      'Session parent-s before forking',
+    );
+    expect(mockRecordCheckpoint).toHaveBeenCalledWith('parent-hash');
+    expect(mockRevertFileChanges).toHaveBeenCalledWith(conversation, 'msg-1');
+    expect(mockCreateFileSnapshot).toHaveBeenNthCalledWith(
+      2,
+      'Fork of session parent-s',
+    );
+    expect(mockForkSession).toHaveBeenCalledWith({
+      messageId: 'msg-1',
+      checkpointCommitHash: 'fork-hash',
+    });
+  });
+
+  it('should share the checkpoint when no code changes are reverted', async () => {
+    mockGetCheckpointingEnabled.mockReturnValue(true);
+    const onRewind = await getOnRewind();
+
+    await onRewind('msg-1', 'hello', RewindOutcome.RewindOnly);
+
+    expect(mockCreateFileSnapshot).toHaveBeenCalledTimes(1);
+    expect(mockForkSession).toHaveBeenCalledWith({
+      messageId: 'msg-1',
+      checkpointCommitHash: 'parent-hash',
+    });
+  });
+
+  it('should do nothing on Cancel', async () => {
+    const onRewind = await getOnRewind();
+
+    await onRewind('msg-1', 'hello', RewindOutcome.Cancel);
+
+    expect(mockRemoveComponent).toHaveBeenCalled();
+    expect(mockForkSession).not.toHaveBeenCalled();
+  });
+
+  it('should report errors while forking', async () => {
+    mockForkSession.mockImplementation(() => {
+      throw new Error('Disk error');
+    });
+    const onRewind = await getOnRewind();
+
+    await onRewind('msg-1', 'hello', RewindOutcome.RewindOnly);
+
+    expect(mockRemoveComponent).toHaveBeenCalled();
+    expect(mockSetSessionId).not.toHaveBeenCalled();
+    expect(coreEvents.emitFeedback).toHaveBeenCalledWith('error', 'Disk error');
+  });
+
+  it('should return info if there are no user messages', () => {
+    mockGetConversation.mockReturnValue({
+      messages: [{ id: 'msg-1', type: 'info', content: 'System' }],
+    });
+
+    const result = forkCommand.action!(mockContext, '');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: 'Nothing to fork.',
+    });
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  CommandKind,
+  type CommandContext,
+  type SlashCommand,
+} from './types.js';
+import {
+  CURRENT_POSITION_ID,
+  RewindViewer,
+} from '../components/RewindViewer.js';
+import { type HistoryItem } from '../types.js';
+import { convertSessionToHistoryFormats } from '../hooks/useSessionBrowser.js';
+import { revertFileChanges } from '../utils/rewindFileOps.js';
+import { RewindOutcome } from '../components/RewindConfirmation.js';
+import type { Content } from '@google/genai';
+import {
+  coreEvents,
+  debugLogger,
+  getErrorMessage,
+  type ChatRecordingService,
+  type ConversationRecord,
+  type GeminiClient,
+} from '@google/gemini-cli-core';
+
+/**
+ * Takes a checkpoint of the workspace's files, if checkpointing is enabled.
+ *
+ * @returns The checkpoint's commit hash, or undefined if none was taken.
+ */
+async function takeCheckpoint(
+  context: CommandContext,
+  message: string,
+): Promise<string | undefined> {
+  const { config, git } = context.services;
+  if (!config?.getCheckpointingEnabled() || !git) {
+    return undefined;
+  }
+  try {
+    return await git.createFileSnapshot(message);
+  } catch (error) {
+    debugLogger.warn(`Failed to create checkpoint: ${getErrorMessage(error)}`);
+    return undefined;
+  }
+}
+
+/**
+ * Forks the conversation into a new session and continues in it. The current
+ * session is checkpointed and left untouched, so it can be resumed later.
+ *
+ * @param context The command context.
+ * @param client Gemini client
+ * @param recordingService The chat recording service.
+ * @param conversation The conversation being forked.
+ * @param messageId The ID of the message to branch before, or undefined to
+ *   keep the whole conversation.
+ * @param newText The new text for the input field after forking.
+ * @param revert Whether to revert the code changes made after the message.
+ */
+async function forkConversation(
+  context: CommandContext,
+  client: GeminiClient,
+  recordingService: ChatRecordingService,
+  conversation: ConversationRecord,
+  messageId: string | undefined,
+  newText: string,
+  revert: boolean,
+) {
+  try {
+    const parentSessionId = conversation.sessionId;
+    const parentCheckpoint = await takeCheckpoint(
+      context,
+      `Session ${parentSessionId.slice(0, 8)} before forking`,
+    );
+    if (parentCheckpoint) {
+      recordingService.recordCheckpoint(parentCheckpoint);
+    }
+
+    let forkCheckpoint = parentCheckpoint;
+    if (revert && messageId) {
+      await revertFileChanges(conversation, messageId);
+      forkCheckpoint = await takeCheckpoint(
+        context,
+        `Fork of session ${parentSessionId.slice(0, 8)}`,
+      );
+    }
+
+    const fork = recordingService.forkSession({
+      messageId,
+      checkpointCommitHash: forkCheckpoint,
+    });
+    if (!fork) {
+      const errorMsg = 'Could not fetch conversation file';
+      debugLogger.error(errorMsg);
+      context.ui.removeComponent();
+      coreEvents.emitFeedback('error', errorMsg);
+      return;
+    }
+
+    // Continue recording in the fork.
+    context.services.config?.setSessionId(fork.conversation.sessionId);
+    const { uiHistory, clientHistory } = convertSessionToHistoryFormats(
+      fork.conversation.messages,
+    );
+    await client.resumeChat(clientHistory as Content[], fork);
+    await context.services.config?.getContextManager()?.refresh();
+
+    const historyWithIds = uiHistory.map(
+      (item, idx) =>
+        ({
+          ...item,
+          id: 1 + idx,
+        }) as HistoryItem,
+    );
+
+    context.ui.removeComponent();
+    context.ui.loadHistory(historyWithIds, newText);
+    coreEvents.emitFeedback(
+      'info',
+      `Forked session ${parentSessionId.slice(0, 8)}. Use /resume to return to it.`,
+    );
+  } catch (error) {
+    context.ui.removeComponent();
+    coreEvents.emitFeedback(
+      'error',
+      error instanceof Error ? error.message : 'Unknown error during fork',
+    );
+  }
+}
+
+export const forkCommand: SlashCommand = {
+  name: 'fork',
+  description:
+    'Branch the conversation into a new session from a specific message',
+  kind: CommandKind.BUILT_IN,
+  action: (context) => {
+    const config = context.services.config;
+    if (!config)
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Config not found',
+      };
+
+    const client = config.getGeminiClient();
+    if (!client)
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Client not initialized',
+      };
+
+    const recordingService = client.getChatRecordingService();
+    if (!recordingService)
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Recording service unavailable',
+      };
+
+    const conversation = recordingService.getConversation();
+    if (
+      !conversation ||
+      !conversation.messages.some((msg) => msg.type === 'user')
+    ) {
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: 'Nothing to fork.',
+      };
+    }
+
+    return {
+      type: 'custom_dialog',
+      component: (
+        <RewindViewer
+          mode="fork"
+          conversation={conversation}
+          onExit={() => {
+            context.ui.removeComponent();
+          }}
+          onRewind={async (messageId, newText, outcome) => {
+            if (outcome === RewindOutcome.Cancel) {
+              context.ui.removeComponent();
+              return;
+            }
+            await forkConversation(
+              context,
+              client,
+              recordingService,
+              conversation,
+              messageId === CURRENT_POSITION_ID ? undefined : messageId,
+              newText,
+              outcome === RewindOutcome.RewindAndRevert,
+            );
+          }}
+        />
+      ),
+    };
+  },
+};
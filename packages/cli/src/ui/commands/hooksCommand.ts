@@ -11,7 +11,10 @@ import type {
   HookRegistryEntry,
   MessageActionReturn,
 } from '@google/gemini-cli-core';
-import { getErrorMessage } from '@google/gemini-cli-core';
+import {
+  getErrorMessage,
+  getHookDisplayName as getHookConfigDisplayName,
+} from '@google/gemini-cli-core';
 import { SettingScope, isLoadableSettingScope } from '../../config/settings.js';
 import { enableHook, disableHook } from '../../utils/hookSettings.js';
 import { renderHookActionFeedback } from '../../utils/hookUtils.js';
@@ -194,7 +197,7 @@ function completeDisabledHookNames(
  * Get a display name for a hook
  */
 function getHookDisplayName(hook: HookRegistryEntry): string {
-  return hook.config.name || hook.config.command || 'unknown-hook';
+  return getHookConfigDisplayName(hook.config) || 'unknown-hook';
 }
 
 /**
@@ -9,7 +9,11 @@ import { policiesCommand } from './policiesCommand.js';
 import { CommandKind } from './types.js';
 import { MessageType } from '../types.js';
 import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
-import { type Config, PolicyDecision } from '@google/gemini-cli-core';
+import {
+  type Config,
+  ApprovalMode,
+  PolicyDecision,
+} from '@google/gemini-cli-core';
 
 describe('policiesCommand', () => {
   let mockContext: ReturnType<typeof createMockCommandContext>;
@@ -22,8 +26,9 @@ describe('policiesCommand', () => {
     expect(policiesCommand.name).toBe('policies');
     expect(policiesCommand.description).toBe('Manage policies');
     expect(policiesCommand.kind).toBe(CommandKind.BUILT_IN);
-    expect(policiesCommand.subCommands).toHaveLength(1);
+    expect(policiesCommand.subCommands).toHaveLength(2);
     expect(policiesCommand.subCommands![0].name).toBe('list');
+    expect(policiesCommand.subCommands![1].name).toBe('explain');
   });
 
   describe('list subcommand', () => {
@@ -80,6 +85,7 @@ describe('policiesCommand', () => {
       ];
       const mockPolicyEngine = {
         getRules: vi.fn().mockReturnValue(mockRules),
+        getRecentDecisions: vi.fn().mockReturnValue([]),
       };
       mockContext.services.config = {
         getPolicyEngine: vi.fn().mockReturnValue(mockPolicyEngine),
@@ -113,6 +119,223 @@ describe('policiesCommand', () => {
         '**ALLOW** all tools (args match: `safe`) [Source: test.toml]',
       );
       expect(content).toContain('**ASK_USER** all tools');
+      expect(content).toContain('_No tool calls checked yet._');
+    });
+
+    it('should show structured matchers and the rules behind recent decisions', async () => {
+      const pathRule = {
+        decision: PolicyDecision.ALLOW,
+        toolName: 'write_file',
+        pathGlobs: ['src/**', 'docs/*.md'],
+        source: 'User: paths.toml',
+      };
+      const commandRule = {
+        decision: PolicyDecision.DENY,
+        toolName: 'run_shell_command',
+        commandMatcher: {
+          program: ['git'],
+          subcommand: ['push'],
+          flags: ['-f'],
+        },
+      };
+      const mockPolicyEngine = {
+        getRules: vi.fn().mockReturnValue([commandRule, pathRule]),
+        getRecentDecisions: vi.fn().mockReturnValue([
+          {
+            toolCall: { name: 'write_file', args: { file_path: 'src/a.ts' } },
+            decision: PolicyDecision.ALLOW,
+            rule: pathRule,
+            timestamp: new Date(),
+          },
+          {
+            toolCall: {
+              name: 'run_shell_command',
+              args: { command: 'git push -f' },
+            },
+            decision: PolicyDecision.DENY,
+            rule: commandRule,
+            timestamp: new Date(),
+          },
+          {
+            toolCall: { name: 'web_fetch', args: {} },
+            decision: PolicyDecision.ASK_USER,
+            timestamp: new Date(),
+          },
+        ]),
+      };
+      mockContext.services.config = {
+        getPolicyEngine: vi.fn().mockReturnValue(mockPolicyEngine),
+      } as unknown as Config;
+
+      const listCommand = policiesCommand.subCommands![0];
+      await listCommand.action!(mockContext, '');
+
+      const call = vi.mocked(mockContext.ui.addItem).mock.calls[0];
+      const content = (call[0] as { text: string }).text;
+
+      expect(content).toContain(
+        '**DENY** tool: `run_shell_command` (command: program: git, subcommand: push, flags: -f)',
+      );
+      expect(content).toContain(
+        '**ALLOW** tool: `write_file` (paths: `src/**`, `docs/*.md`) [Source: User: paths.toml]',
+      );
+      expect(content).toContain('### Recent Decisions (most recent first)');
+      expect(content).toContain(
+        '1. **ASK_USER** `web_fetch` - decided by default decision',
+      );
+      expect(content).toContain(
+        '2. **DENY** `run_shell_command` (`git push -f`) - decided by tool: `run_shell_command` (command: program: git, subcommand: push, flags: -f)',
+      );
+      expect(content).toContain(
+        '3. **ALLOW** `write_file` - decided by tool: `write_file` (paths: `src/**`, `docs/*.md`) [Source: User: paths.toml]',
+      );
+    });
+  });
+
+  describe('explain subcommand', () => {
+    const explainCommand = policiesCommand.subCommands![1];
+
+    it('should show usage when no tool is given', async () => {
+      mockContext.services.config = {
+        getPolicyEngine: vi.fn(),
+      } as unknown as Config;
+
+      await explainCommand.action!(mockContext, '  ');
+
+      expect(mockContext.ui.addItem).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: MessageType.ERROR,
+          text: 'Usage: /policies explain <tool> [json-args]',
+        }),
+        expect.any(Number),
+      );
+    });
+
+    it('should reject arguments that are not a JSON object', async () => {
+      mockContext.services.config = {
+        getPolicyEngine: vi.fn(),
+      } as unknown as Config;
+
+      await explainCommand.action!(mockContext, 'read_file [1]');
+
+      expect(mockContext.ui.addItem).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: MessageType.ERROR,
+          text: 'Invalid tool arguments: Arguments must be a JSON object.',
+        }),
+        expect.any(Number),
+      );
+    });
+
+    it('should show the decision and every matching rule', async () => {
+      const denyRule = {
+        decision: PolicyDecision.DENY,
+        toolName: 'run_shell_command',
+        argsPattern: /rm/,
+        priority: 3.1,
+        source: 'Admin: team.toml',
+      };
+      const allowRule = {
+        decision: PolicyDecision.ALLOW,
+        toolName: 'run_shell_command',
+        priority: 2.1,
+      };
+      const explain = vi.fn().mockResolvedValue({
+        approvalMode: ApprovalMode.DEFAULT,
+        matchingRules: [denyRule, allowRule],
+        matchingCheckers: [
+          { checker: { type: 'in-process', name: 'allowed-path' } },
+        ],
+        matchingHookCheckers: [
+          {
+            eventName: 'BeforeTool',
+            checker: { type: 'in-process', name: 'secrets' },
+          },
+        ],
+        decision: PolicyDecision.DENY,
+        rule: denyRule,
+      });
+      mockContext.services.config = {
+        getPolicyEngine: vi.fn().mockReturnValue({ explain }),
+      } as unknown as Config;
+
+      await explainCommand.action!(
+        mockContext,
+        'run_shell_command {"command": "rm -rf build"}',
+      );
+
+      expect(explain).toHaveBeenCalledWith(
+        { name: 'run_shell_command', args: { command: 'rm -rf build' } },
+        undefined,
+      );
+      const call = vi.mocked(mockContext.ui.addItem).mock.calls[0];
+      const content = (call[0] as { text: string }).text;
+      expect(content).toContain(
+        'Decided by **DENY** tool: `run_shell_command` (args match: `rm`) [Priority: 3.1] [Source: Admin: team.toml] [Tier: admin]',
+      );
+      expect(content).toContain(
+        '1. **DENY** tool: `run_shell_command` (args match: `rm`) [Priority: 3.1] [Source: Admin: team.toml] [Tier: admin] **(decides)**',
+      );
+      expect(content).toContain(
+        '2. **ALLOW** tool: `run_shell_command` [Priority: 2.1] [Tier: user]',
+      );
+      expect(content).toContain('1. `allowed-path` (in-process)');
+      expect(content).toContain('### Hook Checkers');
+      expect(content).toContain(
+        '1. `secrets` (in-process) for BeforeTool hooks',
+      );
+    });
+
+    it('should show why a safety checker denied the call', async () => {
+      const explain = vi.fn().mockResolvedValue({
+        approvalMode: ApprovalMode.DEFAULT,
+        matchingRules: [],
+        matchingCheckers: [
+          { checker: { type: 'in-process', name: 'protected-files' } },
+        ],
+        matchingHookCheckers: [],
+        decision: PolicyDecision.DENY,
+        reason: '".env" in argument "file_path" is a protected file.',
+      });
+      mockContext.services.config = {
+        getPolicyEngine: vi.fn().mockReturnValue({ explain }),
+      } as unknown as Config;
+
+      await explainCommand.action!(
+        mockContext,
+        'write_file {"file_path": ".env"}',
+      );
+
+      const call = vi.mocked(mockContext.ui.addItem).mock.calls[0];
+      const content = (call[0] as { text: string }).text;
+      expect(content).toContain(
+        'Reason: ".env" in argument "file_path" is a protected file.',
+      );
+    });
+
+    it('should report the default decision when no rule matches', async () => {
+      const explain = vi.fn().mockResolvedValue({
+        approvalMode: ApprovalMode.DEFAULT,
+        matchingRules: [],
+        matchingCheckers: [],
+        matchingHookCheckers: [],
+        decision: PolicyDecision.ASK_USER,
+      });
+      mockContext.services.config = {
+        getPolicyEngine: vi.fn().mockReturnValue({ explain }),
+      } as unknown as Config;
+
+      await explainCommand.action!(mockContext, 'web_fetch');
+
+      expect(explain).toHaveBeenCalledWith(
+        { name: 'web_fetch', args: {} },
+        undefined,
+      );
+      const call = vi.mocked(mockContext.ui.addItem).mock.calls[0];
+      const content = (call[0] as { text: string }).text;
+      expect(content).toContain('**ASK_USER** (default decision)');
+      expect(content).toContain('_No matching rules._');
+      expect(content).not.toContain('### Safety Checkers');
     });
   });
 });
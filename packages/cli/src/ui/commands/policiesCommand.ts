@@ -4,7 +4,13 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { ApprovalMode, type PolicyRule } from '@google/gemini-cli-core';
+import {
+  ApprovalMode,
+  getPolicyTierName,
+  type PolicyDecisionRecord,
+  type PolicyRule,
+  type ShellCommandMatcher,
+} from '@google/gemini-cli-core';
 import { CommandKind, type SlashCommand } from './types.js';
 import { MessageType } from '../types.js';
 
@@ -33,18 +39,56 @@ const categorizeRulesByMode = (
   return result;
 };
 
-const formatRule = (rule: PolicyRule, i: number) =>
-  `${i + 1}. **${rule.decision.toUpperCase()}** ${rule.toolName ? `tool: \`${rule.toolName}\`` : 'all tools'}` +
+const formatCommandMatcher = (matcher: ShellCommandMatcher) =>
+  [
+    matcher.program && `program: ${matcher.program.join('|')}`,
+    matcher.subcommand && `subcommand: ${matcher.subcommand.join('|')}`,
+    matcher.flags && `flags: ${matcher.flags.join(' ')}`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+const formatConditions = (rule: PolicyRule) =>
   (rule.argsPattern ? ` (args match: \`${rule.argsPattern.source}\`)` : '') +
+  (rule.pathGlobs ? ` (paths: \`${rule.pathGlobs.join('`, `')}\`)` : '') +
+  (rule.commandMatcher
+    ? ` (command: ${formatCommandMatcher(rule.commandMatcher)})`
+    : '') +
+  (rule.shellExecution ? ` (runs in: ${rule.shellExecution})` : '');
+
+const describeRule = (rule: PolicyRule) =>
+  `**${rule.decision.toUpperCase()}** ${rule.toolName ? `tool: \`${rule.toolName}\`` : 'all tools'}` +
+  formatConditions(rule) +
   (rule.priority !== undefined ? ` [Priority: ${rule.priority}]` : '') +
   (rule.source ? ` [Source: ${rule.source}]` : '');
 
+const formatRule = (rule: PolicyRule, i: number) =>
+  `${i + 1}. ${describeRule(rule)}`;
+
 const formatSection = (title: string, rules: PolicyRule[]) =>
   `### ${title}\n${rules.length ? rules.map(formatRule).join('\n') : '_No policies._'}\n\n`;
 
+const formatDecision = (record: PolicyDecisionRecord, i: number) => {
+  const command = record.toolCall.args?.['command'];
+  const call =
+    `\`${record.toolCall.name}\`` +
+    (typeof command === 'string' ? ` (\`${command}\`)` : '');
+  const rule = record.rule;
+  const decidedBy = rule
+    ? `${rule.toolName ? `tool: \`${rule.toolName}\`` : 'all tools'}` +
+      formatConditions(rule) +
+      (rule.source ? ` [Source: ${rule.source}]` : '')
+    : 'default decision';
+  return `${i + 1}. **${record.decision.toUpperCase()}** ${call} - decided by ${decidedBy}`;
+};
+
+const formatRecentDecisions = (records: readonly PolicyDecisionRecord[]) =>
+  `### Recent Decisions (most recent first)\n${records.length ? [...records].reverse().map(formatDecision).join('\n') : '_No tool calls checked yet._'}\n\n`;
+
 const listPoliciesCommand: SlashCommand = {
   name: 'list',
-  description: 'List all active policies grouped by mode',
+  description:
+    'List all active policies grouped by mode and the rules behind recent decisions',
   kind: CommandKind.BUILT_IN,
   autoExecute: true,
   action: async (context) => {
@@ -93,6 +137,116 @@ const listPoliciesCommand: SlashCommand = {
       'Yolo Mode Policies (combined with normal mode policies)',
       uniqueYolo,
     );
+    content += formatRecentDecisions(policyEngine.getRecentDecisions());
+
+    context.ui.addItem(
+      {
+        type: MessageType.INFO,
+        text: content,
+      },
+      Date.now(),
+    );
+  },
+};
+
+const describeRuleWithTier = (rule: PolicyRule) => {
+  const tier = getPolicyTierName(rule.priority);
+  return describeRule(rule) + (tier ? ` [Tier: ${tier}]` : '');
+};
+
+const explainPoliciesCommand: SlashCommand = {
+  name: 'explain',
+  description:
+    'Explain how policies decide a tool call. Usage: /policies explain <tool> [json-args]',
+  kind: CommandKind.BUILT_IN,
+  autoExecute: false,
+  action: async (context, args) => {
+    const { config } = context.services;
+    if (!config) {
+      context.ui.addItem(
+        {
+          type: MessageType.ERROR,
+          text: 'Error: Config not available.',
+        },
+        Date.now(),
+      );
+      return;
+    }
+
+    const [toolName, ...rest] = args.trim().split(/\s+/);
+    if (!toolName) {
+      context.ui.addItem(
+        {
+          type: MessageType.ERROR,
+          text: 'Usage: /policies explain <tool> [json-args]',
+        },
+        Date.now(),
+      );
+      return;
+    }
+
+    let toolArgs: Record<string, unknown> = {};
+    const rawArgs = args.trim().slice(toolName.length).trim();
+    if (rest.length > 0) {
+      try {
+        const parsed: unknown = JSON.parse(rawArgs);
+        if (
+          typeof parsed !== 'object' ||
+          parsed === null ||
+          Array.isArray(parsed)
+        ) {
+          throw new Error('Arguments must be a JSON object.');
+        }
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+        toolArgs = parsed as Record<string, unknown>;
+      } catch (e) {
+        context.ui.addItem(
+          {
+            type: MessageType.ERROR,
+            text: `Invalid tool arguments: ${e instanceof Error ? e.message : String(e)}`,
+          },
+          Date.now(),
+        );
+        return;
+      }
+    }
+
+    const explanation = await config
+      .getPolicyEngine()
+      .explain({ name: toolName, args: toolArgs }, undefined);
+
+    let content = `**Policy Explanation** for \`${toolName}\` \`${JSON.stringify(toolArgs)}\` in ${explanation.approvalMode} mode\n\n`;
+    content += `### Decision\n${
+      explanation.rule
+        ? `Decided by ${describeRuleWithTier(explanation.rule)}`
+        : `**${explanation.decision.toUpperCase()}** (default decision)`
+    }${explanation.reason ? `\n\nReason: ${explanation.reason}` : ''}\n\n`;
+    content += `### Matching Rules (highest priority first)\n${
+      explanation.matchingRules.length
+        ? explanation.matchingRules
+            .map(
+              (rule, i) =>
+                `${i + 1}. ${describeRuleWithTier(rule)}` +
+                (rule === explanation.rule ? ' **(decides)**' : ''),
+            )
+            .join('\n')
+        : '_No matching rules._'
+    }\n\n`;
+    if (explanation.matchingCheckers.length) {
+      content += `### Safety Checkers\n${explanation.matchingCheckers
+        .map(
+          ({ checker }, i) => `${i + 1}. \`${checker.name}\` (${checker.type})`,
+        )
+        .join('\n')}\n\n`;
+    }
+    if (explanation.matchingHookCheckers.length) {
+      content += `### Hook Checkers\n${explanation.matchingHookCheckers
+        .map(
+          ({ eventName, checker }, i) =>
+            `${i + 1}. \`${checker.name}\` (${checker.type}) for ${eventName ?? 'all'} hooks`,
+        )
+        .join('\n')}\n\n`;
+    }
 
     context.ui.addItem(
       {
@@ -109,5 +263,5 @@ export const policiesCommand: SlashCommand = {
   description: 'Manage policies',
   kind: CommandKind.BUILT_IN,
   autoExecute: false,
-  subCommands: [listPoliciesCommand],
+  subCommands: [listPoliciesCommand, explainPoliciesCommand],
 };
@@ -52,4 +52,40 @@ describe('quitCommand', () => {
       ],
     });
   });
+
+  it('mentions a worktree that is left in place', () => {
+    const mockContext = createMockCommandContext({
+      services: {
+        config: {
+          getWorktreeService: () => ({
+            isActive: () => true,
+            session: {
+              name: 'fix-login',
+              worktreePath: '/repo/.gemini/worktrees/fix-login',
+            },
+          }),
+        },
+      },
+      session: {
+        stats: {
+          sessionStartTime: new Date('2025-01-01T00:00:00Z'),
+        },
+      },
+    });
+
+    if (!quitCommand.action) throw new Error('Action is not defined');
+    const result = quitCommand.action(mockContext, 'quit');
+
+    expect(result).toMatchObject({
+      type: 'quit',
+      messages: [
+        { type: 'user' },
+        {
+          type: 'info',
+          text: expect.stringContaining("Run 'gemini --worktree fix-login'"),
+        },
+        { type: 'quit' },
+      ],
+    });
+  });
 });
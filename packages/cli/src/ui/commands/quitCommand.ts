@@ -6,6 +6,7 @@
 
 import { formatDuration } from '../utils/formatters.js';
 import { CommandKind, type SlashCommand } from './types.js';
+import { MessageType, type HistoryItem } from '../types.js';
 
 export const quitCommand: SlashCommand = {
   name: 'quit',
@@ -17,6 +18,16 @@ export const quitCommand: SlashCommand = {
     const now = Date.now();
     const { sessionStartTime } = context.session.stats;
     const wallDuration = now - sessionStartTime.getTime();
+    const worktree = context.services.config?.getWorktreeService();
+    const worktreeNotice: HistoryItem[] = worktree?.isActive()
+      ? [
+          {
+            type: MessageType.INFO,
+            text: `The worktree ${worktree.session.worktreePath} was left in place. Run 'gemini --worktree ${worktree.session.name}' to continue working in it, or /worktree there to merge, discard or keep its changes.`,
+            id: now - 1,
+          },
+        ]
+      : [];
 
     return {
       type: 'quit',
@@ -24,8 +35,9 @@ export const quitCommand: SlashCommand = {
         {
           type: 'user',
           text: `/quit`, // Keep it consistent, even if /exit was used
-          id: now - 1,
+          id: now - 2,
         },
+        ...worktreeNotice,
         {
           type: 'quit',
           duration: formatDuration(wallDuration),
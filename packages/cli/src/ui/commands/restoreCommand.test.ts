@@ -22,6 +22,7 @@ describe('restoreCommand', () => {
   let mockConfig: Config;
   let mockGitService: GitService;
   let mockSetHistory: ReturnType<typeof vi.fn>;
+  let mockGetConversation: ReturnType<typeof vi.fn>;
   let testRootDir: string;
   let geminiTempDir: string;
   let checkpointsDir: string;
@@ -37,6 +38,7 @@ describe('restoreCommand', () => {
     await fs.mkdir(checkpointsDir, { recursive: true });
 
     mockSetHistory = vi.fn().mockResolvedValue(undefined);
+    mockGetConversation = vi.fn().mockReturnValue(null);
     mockGitService = {
       restoreProjectFromSnapshot: vi.fn().mockResolvedValue(undefined),
     } as unknown as GitService;
@@ -49,6 +51,9 @@ describe('restoreCommand', () => {
       },
       getGeminiClient: vi.fn().mockReturnValue({
         setHistory: mockSetHistory,
+        getChatRecordingService: () => ({
+          getConversation: mockGetConversation,
+        }),
       }),
     } as unknown as Config;
 
@@ -208,6 +213,31 @@ describe('restoreCommand', () => {
       expect(mockSetHistory).not.toHaveBeenCalled();
       expect(mockGitService.restoreProjectFromSnapshot).not.toHaveBeenCalled();
     });
+
+    it("should restore the current session's checkpoint", async () => {
+      mockGetConversation.mockReturnValue({ checkpointCommitHash: 'fork123' });
+      const command = restoreCommand(mockConfig);
+
+      expect(await command?.action?.(mockContext, 'session')).toEqual({
+        type: 'message',
+        messageType: 'info',
+        content: 'Restored project files to the checkpoint of this session.',
+      });
+      expect(mockGitService.restoreProjectFromSnapshot).toHaveBeenCalledWith(
+        'fork123',
+      );
+    });
+
+    it('should inform when the current session has no checkpoint', async () => {
+      const command = restoreCommand(mockConfig);
+
+      expect(await command?.action?.(mockContext, 'session')).toEqual({
+        type: 'message',
+        messageType: 'info',
+        content: 'This session has no checkpoint of your project files.',
+      });
+      expect(mockGitService.restoreProjectFromSnapshot).not.toHaveBeenCalled();
+    });
   });
 
   it('should return an error for a checkpoint file missing the toolCall property', async () => {
@@ -255,5 +285,16 @@ describe('restoreCommand', () => {
         'test2',
       ]);
     });
+
+    it('should suggest the session checkpoint when there is one', async () => {
+      await fs.writeFile(path.join(checkpointsDir, 'test1.json'), '{}');
+      mockGetConversation.mockReturnValue({ checkpointCommitHash: 'fork123' });
+      const command = restoreCommand(mockConfig);
+
+      expect(await command?.completion?.(mockContext, '')).toEqual([
+        'session',
+        'test1',
+      ]);
+    });
   });
 });
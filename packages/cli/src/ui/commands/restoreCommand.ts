@@ -10,6 +10,7 @@ import { z } from 'zod';
 import {
   type Config,
   formatCheckpointDisplayList,
+  getErrorMessage,
   getToolCallDataSchema,
   getTruncatedCheckpointNames,
   performRestore,
@@ -32,6 +33,57 @@ const HistoryItemSchema = z
 
 const ToolCallDataSchema = getToolCallDataSchema(HistoryItemSchema);
 
+/**
+ * The `/restore` argument that restores the checkpoint recorded in the
+ * current session, rather than a tool call.
+ */
+export const SESSION_CHECKPOINT_ARG = 'session';
+
+function getSessionCheckpoint(config: Config | null): string | undefined {
+  return config?.getGeminiClient()?.getChatRecordingService()?.getConversation()
+    ?.checkpointCommitHash;
+}
+
+async function restoreSessionCheckpoint(
+  context: CommandContext,
+): Promise<SlashCommandActionReturn> {
+  const { config, git: gitService } = context.services;
+  const commitHash = getSessionCheckpoint(config);
+  if (!commitHash) {
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: 'This session has no checkpoint of your project files.',
+    };
+  }
+  if (!gitService) {
+    return {
+      type: 'message',
+      messageType: 'error',
+      content:
+        'Git service is not available, cannot restore checkpoint. Please ensure you are in a git repository.',
+    };
+  }
+
+  try {
+    await gitService.restoreProjectFromSnapshot(commitHash);
+  } catch (error) {
+    if (getErrorMessage(error).includes('unable to read tree')) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `The commit hash '${commitHash}' associated with this session could not be found in your Git repository. This checkpoint cannot be restored.`,
+      };
+    }
+    throw error;
+  }
+  return {
+    type: 'message',
+    messageType: 'info',
+    content: 'Restored project files to the checkpoint of this session.',
+  };
+}
+
 async function restoreAction(
   context: CommandContext,
   args: string,
@@ -40,6 +92,10 @@ async function restoreAction(
   const { config, git: gitService } = services;
   const { addItem, loadHistory } = ui;
 
+  if (args === SESSION_CHECKPOINT_ARG) {
+    return restoreSessionCheckpoint(context);
+  }
+
   const checkpointDir = config?.storage.getProjectTempCheckpointsDir();
 
   if (!checkpointDir) {
@@ -148,7 +204,10 @@ async function completion(
   try {
     const files = await fs.readdir(checkpointDir);
     const jsonFiles = files.filter((file) => file.endsWith('.json'));
-    return getTruncatedCheckpointNames(jsonFiles);
+    const names = getTruncatedCheckpointNames(jsonFiles);
+    return getSessionCheckpoint(config)
+      ? [SESSION_CHECKPOINT_ARG, ...names]
+      : names;
   } catch (_err) {
     return [];
   }
@@ -162,7 +221,7 @@ export const restoreCommand = (config: Config | null): SlashCommand | null => {
   return {
     name: 'restore',
     description:
-      'Restore a tool call. This will reset the conversation and file history to the state it was in when the tool call was suggested',
+      "Restore a tool call, or this session's checkpoint with 'session'. Restoring a tool call resets the conversation and file history to the state it was in when the tool call was suggested",
     kind: CommandKind.BUILT_IN,
     autoExecute: true,
     action: restoreAction,
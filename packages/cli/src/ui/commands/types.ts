@@ -35,6 +35,11 @@ export interface CommandContext {
     name: string;
     /** The arguments string that follows the command name. */
     args: string;
+    /**
+     * The values of the named arguments declared by a custom command, after
+     * validation and defaults.
+     */
+    namedArgs?: Record<string, string | number | boolean>;
   };
   // Core services and configuration
   services: {
@@ -101,6 +106,8 @@ export interface CommandContext {
   };
   // Flag to indicate if an overwrite has been confirmed
   overwriteConfirmed?: boolean;
+  // Aborted when the user cancels the command
+  abortSignal?: AbortSignal;
 }
 
 /** The return type for a command action that results in the app quitting. */
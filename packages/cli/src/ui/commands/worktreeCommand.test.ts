@@ -0,0 +1,141 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { WorktreeService } from '@google/gemini-cli-core';
+import { worktreeCommand } from './worktreeCommand.js';
+import type { CommandContext, SlashCommand } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+
+function getSubCommand(name: string): SlashCommand {
+  const subCommand = worktreeCommand.subCommands?.find(
+    (cmd) => cmd.name === name,
+  );
+  if (!subCommand) throw new Error(`Missing subcommand ${name}`);
+  return subCommand;
+}
+
+describe('worktreeCommand', () => {
+  let worktree: {
+    session: Partial<WorktreeService['session']>;
+    isActive: ReturnType<typeof vi.fn>;
+    getSummary: ReturnType<typeof vi.fn>;
+    merge: ReturnType<typeof vi.fn>;
+    discard: ReturnType<typeof vi.fn>;
+    keepBranch: ReturnType<typeof vi.fn>;
+  };
+  let context: CommandContext;
+
+  beforeEach(() => {
+    worktree = {
+      session: {
+        name: 'fix-login',
+        worktreePath: '/repo/.gemini/worktrees/fix-login',
+        branch: 'gemini/worktree-fix-login',
+        baseBranch: 'main',
+      },
+      isActive: vi.fn().mockReturnValue(true),
+      getSummary: vi.fn().mockResolvedValue({
+        changedFiles: ['src/login.ts'],
+        diffStat: ' src/login.ts | 2 +-\n 1 file changed',
+      }),
+      merge: vi.fn().mockResolvedValue(undefined),
+      discard: vi.fn().mockResolvedValue(undefined),
+      keepBranch: vi.fn().mockResolvedValue(undefined),
+    };
+    context = createMockCommandContext({
+      services: {
+        config: { getWorktreeService: () => worktree },
+      },
+      session: {
+        stats: { sessionStartTime: new Date() },
+      },
+    });
+  });
+
+  it('should show the summary and the available choices', async () => {
+    const result = await worktreeCommand.action!(context, '');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: expect.stringContaining(' src/login.ts | 2 +-'),
+    });
+    expect(result).toHaveProperty(
+      'content',
+      expect.stringContaining('/worktree merge'),
+    );
+  });
+
+  it('should report a worktree that no longer exists', async () => {
+    worktree.isActive.mockReturnValue(false);
+
+    const result = await getSubCommand('merge').action!(context, '');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content:
+        'The worktree at /repo/.gemini/worktrees/fix-login no longer exists.',
+    });
+    expect(worktree.merge).not.toHaveBeenCalled();
+  });
+
+  it('should merge and quit', async () => {
+    const result = await getSubCommand('merge').action!(context, '');
+
+    expect(worktree.merge).toHaveBeenCalled();
+    expect(result).toMatchObject({
+      type: 'quit',
+      messages: [
+        {
+          type: 'info',
+          text: "Merged 'gemini/worktree-fix-login' into 'main' and removed the worktree.",
+        },
+        { type: 'quit' },
+      ],
+    });
+  });
+
+  it('should keep the session going when finishing fails before removal', async () => {
+    worktree.keepBranch.mockRejectedValue(new Error('commit failed'));
+
+    const result = await getSubCommand('keep').action!(context, '');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: 'commit failed',
+    });
+  });
+
+  it('should quit with the error when the merge fails after removal', async () => {
+    worktree.merge.mockImplementation(async () => {
+      worktree.isActive.mockReturnValue(false);
+      throw new Error('merge conflict');
+    });
+
+    const result = await getSubCommand('merge').action!(context, '');
+
+    expect(result).toMatchObject({
+      type: 'quit',
+      messages: [{ type: 'error', text: 'merge conflict' }, { type: 'quit' }],
+    });
+  });
+
+  it('should ask for confirmation before discarding', async () => {
+    const discard = getSubCommand('discard');
+
+    const result = await discard.action!(context, '');
+    expect(result).toMatchObject({ type: 'confirm_action' });
+    expect(worktree.discard).not.toHaveBeenCalled();
+
+    context.overwriteConfirmed = true;
+    const confirmed = await discard.action!(context, '');
+    expect(worktree.discard).toHaveBeenCalled();
+    expect(confirmed).toMatchObject({ type: 'quit' });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Text } from 'ink';
+import { getErrorMessage, type WorktreeService } from '@google/gemini-cli-core';
+import {
+  type CommandContext,
+  type SlashCommand,
+  type SlashCommandActionReturn,
+  CommandKind,
+} from './types.js';
+import { MessageType } from '../types.js';
+import { formatDuration } from '../utils/formatters.js';
+import { theme } from '../semantic-colors.js';
+
+type WorktreeAction = (
+  context: CommandContext,
+  worktree: WorktreeService,
+) => Promise<SlashCommandActionReturn>;
+
+/**
+ * Wraps a worktree action so that it only runs while the session's worktree
+ * still exists.
+ */
+function withActiveWorktree(action: WorktreeAction): SlashCommand['action'] {
+  return async (context) => {
+    const worktree = context.services.config?.getWorktreeService();
+    if (!worktree) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'This session is not running in a worktree.',
+      };
+    }
+    if (!worktree.isActive()) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `The worktree at ${worktree.session.worktreePath} no longer exists.`,
+      };
+    }
+    return action(context, worktree);
+  };
+}
+
+/**
+ * Ends the session once its worktree is gone, since the working directory no
+ * longer exists.
+ */
+function quitWith(
+  context: CommandContext,
+  messageType: MessageType.INFO | MessageType.ERROR,
+  text: string,
+): SlashCommandActionReturn {
+  const now = Date.now();
+  const { sessionStartTime } = context.session.stats;
+  return {
+    type: 'quit',
+    messages: [
+      { type: messageType, text, id: now - 1 },
+      {
+        type: 'quit',
+        duration: formatDuration(now - sessionStartTime.getTime()),
+        id: now,
+      },
+    ],
+  };
+}
+
+/**
+ * Runs an action that removes the worktree. If it fails before the worktree
+ * was removed the session continues, otherwise it ends with the error.
+ */
+async function finish(
+  context: CommandContext,
+  worktree: WorktreeService,
+  action: () => Promise<void>,
+  successMessage: string,
+): Promise<SlashCommandActionReturn> {
+  try {
+    await action();
+  } catch (error) {
+    if (worktree.isActive()) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: getErrorMessage(error),
+      };
+    }
+    return quitWith(context, MessageType.ERROR, getErrorMessage(error));
+  }
+  return quitWith(context, MessageType.INFO, successMessage);
+}
+
+const summaryAction: WorktreeAction = async (_context, worktree) => {
+  const { name, branch, baseBranch } = worktree.session;
+  const summary = await worktree.getSummary();
+  const changes = summary.changedFiles.length
+    ? summary.diffStat
+    : 'No changes yet.';
+  return {
+    type: 'message',
+    messageType: 'info',
+    content: [
+      `Worktree session '${name}' on branch '${branch}', started from '${baseBranch}':`,
+      changes,
+      '',
+      'Finish the session with:',
+      `  /worktree merge    merge the changes into '${baseBranch}' and remove the worktree`,
+      `  /worktree discard  remove the worktree and its branch`,
+      `  /worktree keep     commit the changes to '${branch}' and remove the worktree`,
+    ].join('\n'),
+  };
+};
+
+const mergeAction: WorktreeAction = async (context, worktree) => {
+  const { branch, baseBranch } = worktree.session;
+  return finish(
+    context,
+    worktree,
+    () => worktree.merge(),
+    `Merged '${branch}' into '${baseBranch}' and removed the worktree.`,
+  );
+};
+
+const discardAction: WorktreeAction = async (context, worktree) => {
+  const { worktreePath, branch } = worktree.session;
+  if (!context.overwriteConfirmed) {
+    return {
+      type: 'confirm_action',
+      prompt: React.createElement(
+        Text,
+        null,
+        'This deletes ',
+        React.createElement(Text, { color: theme.text.accent }, worktreePath),
+        ' and the branch ',
+        React.createElement(Text, { color: theme.text.accent }, branch),
+        ', including all uncommitted changes. Do you want to continue?',
+      ),
+      originalInvocation: {
+        raw: context.invocation?.raw || '/worktree discard',
+      },
+    };
+  }
+  return finish(
+    context,
+    worktree,
+    () => worktree.discard(),
+    `Discarded the worktree and the branch '${branch}'.`,
+  );
+};
+
+const keepAction: WorktreeAction = async (context, worktree) => {
+  const { branch } = worktree.session;
+  return finish(
+    context,
+    worktree,
+    () => worktree.keepBranch(),
+    `Removed the worktree. The changes are kept on the branch '${branch}'; merge them with 'git merge ${branch}'.`,
+  );
+};
+
+export const worktreeCommand: SlashCommand = {
+  name: 'worktree',
+  description:
+    'Show the changes made in this worktree session and merge, discard or keep them',
+  kind: CommandKind.BUILT_IN,
+  autoExecute: true,
+  action: withActiveWorktree(summaryAction),
+  subCommands: [
+    {
+      name: 'merge',
+      description:
+        'Merge the worktree branch into the original branch and end the session',
+      kind: CommandKind.BUILT_IN,
+      autoExecute: true,
+      action: withActiveWorktree(mergeAction),
+    },
+    {
+      name: 'discard',
+      description: 'Delete the worktree and its branch and end the session',
+      kind: CommandKind.BUILT_IN,
+      autoExecute: true,
+      action: withActiveWorktree(discardAction),
+    },
+    {
+      name: 'keep',
+      description:
+        'Commit the changes to the worktree branch, remove the worktree and end the session',
+      kind: CommandKind.BUILT_IN,
+      autoExecute: true,
+      action: withActiveWorktree(keepAction),
+    },
+  ],
+};
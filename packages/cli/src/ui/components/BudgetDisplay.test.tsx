@@ -0,0 +1,39 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { render } from '../../test-utils/render.js';
+import { describe, it, expect } from 'vitest';
+import { BudgetDisplay } from './BudgetDisplay.js';
+
+describe('BudgetDisplay', () => {
+  it('should not render without a status', () => {
+    const { lastFrame } = render(<BudgetDisplay status={undefined} />);
+    expect(lastFrame()).toBe('');
+  });
+
+  it('should render the used percentage of a limit', () => {
+    const { lastFrame } = render(
+      <BudgetDisplay
+        status={{ scope: 'daily', metric: 'costUsd', used: 8.5, limit: 10 }}
+      />,
+    );
+    expect(lastFrame()).toBe('daily cost budget 85%');
+  });
+
+  it('should render when a limit is reached', () => {
+    const { lastFrame } = render(
+      <BudgetDisplay
+        status={{
+          scope: 'session',
+          metric: 'outputTokens',
+          used: 1200,
+          limit: 1000,
+        }}
+      />,
+    );
+    expect(lastFrame()).toBe('session output budget reached');
+  });
+});
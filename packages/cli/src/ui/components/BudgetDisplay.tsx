@@ -0,0 +1,39 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type React from 'react';
+import { Text } from 'ink';
+import type { BudgetMetric, BudgetStatus } from '@google/gemini-cli-core';
+import { theme } from '../semantic-colors.js';
+
+const METRIC_LABELS: Record<BudgetMetric, string> = {
+  inputTokens: 'input',
+  outputTokens: 'output',
+  cachedTokens: 'cached',
+  costUsd: 'cost',
+};
+
+interface BudgetDisplayProps {
+  status: BudgetStatus | undefined;
+}
+
+export const BudgetDisplay: React.FC<BudgetDisplayProps> = ({ status }) => {
+  if (!status || status.limit <= 0) {
+    return null;
+  }
+
+  const label = `${status.scope} ${METRIC_LABELS[status.metric]} budget`;
+  if (status.used >= status.limit) {
+    return <Text color={theme.status.error}>{label} reached</Text>;
+  }
+
+  const percentage = (status.used / status.limit) * 100;
+  return (
+    <Text color={theme.status.warning}>
+      {label} {percentage.toFixed(0)}%
+    </Text>
+  );
+};
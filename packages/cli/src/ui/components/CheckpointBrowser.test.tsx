@@ -0,0 +1,206 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act } from 'react';
+import { renderWithProviders } from '../../test-utils/render.js';
+import { waitFor } from '../../test-utils/async.js';
+import { CheckpointBrowser, describeToolCall } from './CheckpointBrowser.js';
+import type { GitService, SnapshotInfo } from '@google/gemini-cli-core';
+
+vi.mock('../utils/formatters.js', async (importOriginal) => {
+  const original =
+    await importOriginal<typeof import('../utils/formatters.js')>();
+  return {
+    ...original,
+    formatTimeAgo: () => 'some time ago',
+  };
+});
+
+const FILE_DIFF = [
+  'diff --git a/src/a.ts b/src/a.ts',
+  '--- a/src/a.ts',
+  '+++ b/src/a.ts',
+  '@@ -1 +1 @@',
+  '-const a = 1;',
+  '+const a = 2;',
+  '@@ -10 +10 @@',
+  '-const b = 1;',
+  '+const b = 2;',
+  '',
+].join('\n');
+
+describe('CheckpointBrowser', () => {
+  const snapshots: SnapshotInfo[] = [
+    {
+      commitHash: '1111111aaaa',
+      timestamp: new Date(0),
+      message: 'Snapshot for replace',
+    },
+    {
+      commitHash: '2222222bbbb',
+      timestamp: new Date(0),
+      message: 'Snapshot for write_file',
+    },
+  ];
+  const toolCallsByCommit = new Map([
+    [
+      '1111111aaaa',
+      [
+        {
+          checkpoint: 'cp-replace',
+          toolName: 'replace',
+          args: { file_path: 'src/a.ts' },
+        },
+      ],
+    ],
+  ]);
+  let gitService: GitService;
+  let onExit: () => void;
+  let onRestore: () => Promise<void>;
+
+  beforeEach(() => {
+    gitService = {
+      getSnapshotChanges: vi.fn().mockResolvedValue([
+        { filePath: 'src/a.ts', status: 'modified' },
+        { filePath: 'src/new.ts', status: 'added' },
+      ]),
+      getSnapshotFileDiff: vi.fn().mockResolvedValue(FILE_DIFF),
+    } as unknown as GitService;
+    onExit = vi.fn();
+    onRestore = vi.fn().mockResolvedValue(undefined);
+  });
+
+  const renderBrowser = () =>
+    renderWithProviders(
+      <CheckpointBrowser
+        gitService={gitService}
+        snapshots={snapshots}
+        toolCallsByCommit={toolCallsByCommit}
+        onExit={onExit}
+        onRestore={onRestore}
+      />,
+    );
+
+  // Restoring reloads the changed files, so wait for that before finishing.
+  const waitForReload = () =>
+    waitFor(() =>
+      expect(gitService.getSnapshotChanges).toHaveBeenCalledTimes(2),
+    );
+
+  it('lists snapshots with the tool call that triggered them', () => {
+    const { lastFrame } = renderBrowser();
+
+    expect(lastFrame()).toContain('replace src/a.ts');
+    expect(lastFrame()).toContain('1111111 · some time ago');
+    expect(lastFrame()).toContain('Snapshot for write_file');
+  });
+
+  it('shows the changed files of the selected snapshot', async () => {
+    const { lastFrame, stdin } = renderBrowser();
+
+    act(() => {
+      stdin.write('\r');
+    });
+
+    await waitFor(() => expect(lastFrame()).toContain('A src/new.ts'));
+    expect(lastFrame()).toContain('M src/a.ts');
+    expect(gitService.getSnapshotChanges).toHaveBeenCalledWith('1111111aaaa');
+  });
+
+  it('restores a whole file from the file list', async () => {
+    const { lastFrame, stdin } = renderBrowser();
+    act(() => {
+      stdin.write('\r');
+    });
+    await waitFor(() => expect(lastFrame()).toContain('M src/a.ts'));
+
+    await act(async () => {
+      stdin.write('f');
+    });
+
+    await waitFor(() =>
+      expect(onRestore).toHaveBeenCalledWith({
+        commitHash: '1111111aaaa',
+        filePath: 'src/a.ts',
+      }),
+    );
+    await waitForReload();
+  });
+
+  it('restores the selected hunks of a file', async () => {
+    const { lastFrame, stdin } = renderBrowser();
+    act(() => {
+      stdin.write('\r');
+    });
+    await waitFor(() => expect(lastFrame()).toContain('M src/a.ts'));
+    act(() => {
+      stdin.write('\r');
+    });
+    await waitFor(() => expect(lastFrame()).toContain('[ ] @@ -10 +10 @@'));
+    expect(lastFrame()).toContain('const a = 2;');
+
+    act(() => {
+      stdin.write('\x1b[B');
+    });
+    await waitFor(() => expect(lastFrame()).toContain('const b = 2;'));
+    act(() => {
+      stdin.write(' ');
+    });
+    await waitFor(() => expect(lastFrame()).toContain('[x] @@ -10 +10 @@'));
+    await act(async () => {
+      stdin.write('r');
+    });
+
+    await waitFor(() =>
+      expect(onRestore).toHaveBeenCalledWith({
+        commitHash: '1111111aaaa',
+        filePath: 'src/a.ts',
+        hunkIndices: [1],
+      }),
+    );
+    await waitForReload();
+    expect(lastFrame()).toContain('M src/a.ts');
+  });
+
+  it('goes back one level on Escape and exits from the snapshot list', async () => {
+    const { lastFrame, stdin } = renderBrowser();
+    act(() => {
+      stdin.write('\r');
+    });
+    await waitFor(() => expect(lastFrame()).toContain('M src/a.ts'));
+
+    act(() => {
+      stdin.write('\x1b');
+    });
+    await waitFor(() => expect(lastFrame()).toContain('> Checkpoints'));
+    expect(onExit).not.toHaveBeenCalled();
+
+    act(() => {
+      stdin.write('\x1b');
+    });
+    await waitFor(() => expect(onExit).toHaveBeenCalled());
+  });
+
+  describe('describeToolCall', () => {
+    it('includes the file path when the tool call has one', () => {
+      expect(
+        describeToolCall({
+          checkpoint: 'cp',
+          toolName: 'write_file',
+          args: { file_path: 'a.txt' },
+        }),
+      ).toBe('write_file a.txt');
+      expect(
+        describeToolCall({
+          checkpoint: 'cp',
+          toolName: 'apply_patch',
+          args: {},
+        }),
+      ).toBe('apply_patch');
+    });
+  });
+});
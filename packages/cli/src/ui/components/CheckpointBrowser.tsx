@@ -0,0 +1,369 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type React from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Box, Text } from 'ink';
+import {
+  getErrorMessage,
+  parseUnifiedDiff,
+  type CheckpointToolCall,
+  type GitService,
+  type PartialRestoreRequest,
+  type PatchHunk,
+  type SnapshotFileChange,
+  type SnapshotInfo,
+} from '@google/gemini-cli-core';
+import { useUIState } from '../contexts/UIStateContext.js';
+import { BaseSelectionList } from './shared/BaseSelectionList.js';
+import { DiffRenderer } from './messages/DiffRenderer.js';
+import { theme } from '../semantic-colors.js';
+import { useKeypress } from '../hooks/useKeypress.js';
+import { keyMatchers, Command } from '../keyMatchers.js';
+import { formatTimeAgo } from '../utils/formatters.js';
+
+interface CheckpointBrowserProps {
+  gitService: GitService;
+  snapshots: SnapshotInfo[];
+  toolCallsByCommit: Map<string, CheckpointToolCall[]>;
+  onExit: () => void;
+  onRestore: (request: PartialRestoreRequest) => Promise<void>;
+}
+
+interface FileDiffState {
+  change: SnapshotFileChange;
+  diff: string;
+  hunks: PatchHunk[];
+}
+
+const STATUS_LABELS: Record<SnapshotFileChange['status'], string> = {
+  added: 'A',
+  deleted: 'D',
+  modified: 'M',
+};
+
+export const describeToolCall = (toolCall: CheckpointToolCall): string => {
+  const args = toolCall.args;
+  const filePath =
+    args && typeof args === 'object' && 'file_path' in args
+      ? args.file_path
+      : undefined;
+  return typeof filePath === 'string'
+    ? `${toolCall.toolName} ${filePath}`
+    : toolCall.toolName;
+};
+
+/** Rebuilds a single-hunk diff so one hunk can be previewed on its own. */
+const getHunkDiff = (filePath: string, hunk: PatchHunk): string =>
+  [`--- a/${filePath}`, `+++ b/${filePath}`, hunk.header, ...hunk.lines].join(
+    '\n',
+  );
+
+export const CheckpointBrowser: React.FC<CheckpointBrowserProps> = ({
+  gitService,
+  snapshots,
+  toolCallsByCommit,
+  onExit,
+  onRestore,
+}) => {
+  const { terminalWidth, terminalHeight } = useUIState();
+  const [selectedSnapshot, setSelectedSnapshot] = useState<SnapshotInfo | null>(
+    null,
+  );
+  const [changes, setChanges] = useState<SnapshotFileChange[] | null>(null);
+  const [highlightedChange, setHighlightedChange] =
+    useState<SnapshotFileChange | null>(null);
+  const [fileDiff, setFileDiff] = useState<FileDiffState | null>(null);
+  const [highlightedHunk, setHighlightedHunk] = useState(0);
+  const [selectedHunks, setSelectedHunks] = useState<Set<number>>(new Set());
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadChanges = useCallback(
+    async (snapshot: SnapshotInfo) => {
+      setIsBusy(true);
+      try {
+        const snapshotChanges = await gitService.getSnapshotChanges(
+          snapshot.commitHash,
+        );
+        setChanges(snapshotChanges);
+        setHighlightedChange(snapshotChanges[0] ?? null);
+        setError(null);
+      } catch (e) {
+        setChanges([]);
+        setError(`Could not compare checkpoint: ${getErrorMessage(e)}`);
+      } finally {
+        setIsBusy(false);
+      }
+    },
+    [gitService],
+  );
+
+  useEffect(() => {
+    if (selectedSnapshot) {
+      void loadChanges(selectedSnapshot);
+    }
+  }, [selectedSnapshot, loadChanges]);
+
+  const openFile = async (change: SnapshotFileChange) => {
+    if (!selectedSnapshot) {
+      return;
+    }
+    setIsBusy(true);
+    try {
+      const diff = await gitService.getSnapshotFileDiff(
+        selectedSnapshot.commitHash,
+        change.filePath,
+      );
+      setFileDiff({
+        change,
+        diff,
+        hunks: parseUnifiedDiff(diff).at(0)?.hunks ?? [],
+      });
+      setHighlightedHunk(0);
+      setSelectedHunks(new Set());
+      setError(null);
+    } catch (e) {
+      setError(`Could not load diff: ${getErrorMessage(e)}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const restore = async (request: PartialRestoreRequest) => {
+    if (!selectedSnapshot) {
+      return;
+    }
+    setIsBusy(true);
+    try {
+      await onRestore(request);
+    } finally {
+      setIsBusy(false);
+    }
+    setFileDiff(null);
+    await loadChanges(selectedSnapshot);
+  };
+
+  useKeypress(
+    (key) => {
+      if (isBusy) {
+        return false;
+      }
+      if (keyMatchers[Command.ESCAPE](key)) {
+        if (fileDiff) {
+          setFileDiff(null);
+        } else if (selectedSnapshot) {
+          setSelectedSnapshot(null);
+          setChanges(null);
+          setError(null);
+        } else {
+          onExit();
+        }
+        return true;
+      }
+      if (!selectedSnapshot) {
+        return false;
+      }
+
+      const commitHash = selectedSnapshot.commitHash;
+      if (fileDiff) {
+        if (key.name === 'space' && fileDiff.hunks.length > 0) {
+          setSelectedHunks((previous) => {
+            const next = new Set(previous);
+            if (!next.delete(highlightedHunk)) {
+              next.add(highlightedHunk);
+            }
+            return next;
+          });
+          return true;
+        }
+        if (key.sequence === 'r' && selectedHunks.size > 0) {
+          void restore({
+            commitHash,
+            filePath: fileDiff.change.filePath,
+            hunkIndices: [...selectedHunks],
+          });
+          return true;
+        }
+        if (key.sequence === 'f') {
+          void restore({ commitHash, filePath: fileDiff.change.filePath });
+          return true;
+        }
+        return false;
+      }
+
+      if (key.sequence === 'f' && highlightedChange) {
+        void restore({ commitHash, filePath: highlightedChange.filePath });
+        return true;
+      }
+      return false;
+    },
+    { isActive: true },
+  );
+
+  const snapshotItems = useMemo(
+    () =>
+      snapshots.map((snapshot, index) => ({
+        key: snapshot.commitHash,
+        value: snapshot,
+        index,
+      })),
+    [snapshots],
+  );
+
+  // Border, padding, title and footer.
+  const listHeight = Math.max(3, terminalHeight - 10);
+
+  const renderFrame = (
+    title: string,
+    footer: string,
+    content: React.ReactNode,
+  ) => (
+    <Box
+      borderStyle="round"
+      borderColor={theme.border.default}
+      flexDirection="column"
+      width={terminalWidth}
+      paddingX={1}
+      paddingY={1}
+    >
+      <Box marginBottom={1}>
+        <Text bold>
+          {'> '}
+          {title}
+        </Text>
+      </Box>
+      {error && (
+        <Box marginBottom={1}>
+          <Text color={theme.status.error}>{error}</Text>
+        </Box>
+      )}
+      <Box flexDirection="column" flexGrow={1}>
+        {isBusy ? <Text color={theme.text.secondary}>Loading...</Text> : null}
+        {content}
+      </Box>
+      <Box marginTop={1}>
+        <Text color={theme.text.secondary}>{footer}</Text>
+      </Box>
+    </Box>
+  );
+
+  if (selectedSnapshot && fileDiff) {
+    const { change, hunks, diff } = fileDiff;
+    const hunkItems = hunks.map((hunk, index) => ({
+      key: `${index}`,
+      value: index,
+      index,
+    }));
+    const previewHunk = hunks.at(highlightedHunk);
+    return renderFrame(
+      `${change.filePath} (checkpoint → working tree)`,
+      hunks.length > 0
+        ? '(Space to select a hunk, r to restore selected hunks, f to restore the whole file, Esc to go back)'
+        : '(f to restore the whole file, Esc to go back)',
+      <Box flexDirection="column">
+        {hunks.length === 0 ? (
+          <Text color={theme.text.secondary}>
+            {diff.trim() ? 'No textual changes to show.' : 'No changes.'}
+          </Text>
+        ) : (
+          <BaseSelectionList
+            items={hunkItems}
+            isFocused={!isBusy}
+            showNumbers={false}
+            wrapAround={false}
+            maxItemsToShow={Math.min(5, hunkItems.length)}
+            onSelect={(index: number) => setHighlightedHunk(index)}
+            onHighlight={(index: number) => setHighlightedHunk(index)}
+            renderItem={(item, { titleColor }) => (
+              <Text color={titleColor}>
+                {selectedHunks.has(item.value) ? '[x] ' : '[ ] '}
+                {hunks[item.value].header}
+              </Text>
+            )}
+          />
+        )}
+        {previewHunk && (
+          <Box marginTop={1}>
+            <DiffRenderer
+              diffContent={getHunkDiff(change.filePath, previewHunk)}
+              filename={change.filePath}
+              terminalWidth={terminalWidth - 4}
+              availableTerminalHeight={Math.max(3, listHeight - 7)}
+            />
+          </Box>
+        )}
+      </Box>,
+    );
+  }
+
+  if (selectedSnapshot) {
+    const toolCalls = toolCallsByCommit.get(selectedSnapshot.commitHash);
+    const changeItems = (changes ?? []).map((change, index) => ({
+      key: change.filePath,
+      value: change,
+      index,
+    }));
+    return renderFrame(
+      `Checkpoint ${selectedSnapshot.commitHash.slice(0, 7)}${
+        toolCalls ? ` before ${toolCalls.map(describeToolCall).join(', ')}` : ''
+      }`,
+      '(Use Enter to view the diff, f to restore the file, Esc to go back)',
+      changes && changeItems.length === 0 && !isBusy ? (
+        <Text color={theme.text.secondary}>
+          The working tree matches this checkpoint.
+        </Text>
+      ) : (
+        <BaseSelectionList
+          items={changeItems}
+          isFocused={!isBusy}
+          showNumbers={false}
+          wrapAround={false}
+          maxItemsToShow={listHeight}
+          onSelect={(change: SnapshotFileChange) => void openFile(change)}
+          onHighlight={(change: SnapshotFileChange) =>
+            setHighlightedChange(change)
+          }
+          renderItem={(item, { titleColor }) => (
+            <Text color={titleColor}>
+              {STATUS_LABELS[item.value.status]} {item.value.filePath}
+            </Text>
+          )}
+        />
+      ),
+    );
+  }
+
+  return renderFrame(
+    'Checkpoints',
+    '(Use Enter to select a checkpoint, Esc to close)',
+    <BaseSelectionList
+      items={snapshotItems}
+      isFocused={true}
+      showNumbers={false}
+      wrapAround={false}
+      maxItemsToShow={Math.max(1, Math.floor(listHeight / 2))}
+      onSelect={(snapshot: SnapshotInfo) => setSelectedSnapshot(snapshot)}
+      renderItem={(item, { titleColor }) => {
+        const snapshot = item.value;
+        const toolCalls = toolCallsByCommit.get(snapshot.commitHash);
+        return (
+          <Box flexDirection="column">
+            <Text color={titleColor}>
+              {toolCalls
+                ? toolCalls.map(describeToolCall).join(', ')
+                : snapshot.message}
+            </Text>
+            <Text color={theme.text.secondary}>
+              {snapshot.commitHash.slice(0, 7)} ·{' '}
+              {formatTimeAgo(snapshot.timestamp)}
+            </Text>
+          </Box>
+        );
+      }}
+    />,
+  );
+};
@@ -9,6 +9,7 @@ import { IdeIntegrationNudge } from '../IdeIntegrationNudge.js';
 import { LoopDetectionConfirmation } from './LoopDetectionConfirmation.js';
 import { FolderTrustDialog } from './FolderTrustDialog.js';
 import { ConsentPrompt } from './ConsentPrompt.js';
+import { AskUserDialog } from './AskUserDialog.js';
 import { ThemeDialog } from './ThemeDialog.js';
 import { SettingsDialog } from './SettingsDialog.js';
 import { AuthInProgress } from '../auth/AuthInProgress.js';
@@ -26,6 +27,7 @@ import { ModelDialog } from './ModelDialog.js';
 import { theme } from '../semantic-colors.js';
 import { useUIState } from '../contexts/UIStateContext.js';
 import { useUIActions } from '../contexts/UIActionsContext.js';
+import { useAskUserActions } from '../contexts/AskUserActionsContext.js';
 import { useConfig } from '../contexts/ConfigContext.js';
 import { useSettings } from '../contexts/SettingsContext.js';
 import process from 'node:process';
@@ -50,6 +52,7 @@ export const DialogManager = ({
 
   const uiState = useUIState();
   const uiActions = useUIActions();
+  const askUserActions = useAskUserActions();
   const {
     constrainHeight,
     terminalHeight,
@@ -158,6 +161,20 @@ export const DialogManager = ({
       />
     );
   }
+  if (askUserActions.request) {
+    return (
+      <AskUserDialog
+        key={askUserActions.request.correlationId}
+        questions={askUserActions.request.questions}
+        onSubmit={(answers) => void askUserActions.submit(answers)}
+        onCancel={askUserActions.cancel}
+        width={terminalWidth}
+        availableHeight={
+          constrainHeight ? terminalHeight - staticExtraHeight : undefined
+        }
+      />
+    );
+  }
   if (uiState.confirmUpdateExtensionRequests.length > 0) {
     const request = uiState.confirmUpdateExtensionRequests[0];
     return (
@@ -8,7 +8,11 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderWithProviders } from '../../test-utils/render.js';
 import { createMockSettings } from '../../test-utils/settings.js';
 import { Footer } from './Footer.js';
-import { tildeifyPath, ToolCallDecision } from '@google/gemini-cli-core';
+import {
+  makeFakeConfig,
+  tildeifyPath,
+  ToolCallDecision,
+} from '@google/gemini-cli-core';
 import type { SessionStatsState } from '../contexts/SessionContext.js';
 
 vi.mock('@google/gemini-cli-core', async (importOriginal) => {
@@ -194,6 +198,21 @@ describe('<Footer />', () => {
     expect(lastFrame()).toMatchSnapshot();
   });
 
+  it('displays a budget warning when a limit is nearly used', () => {
+    const config = makeFakeConfig();
+    vi.spyOn(config, 'getTargetDir').mockReturnValue(defaultProps.targetDir);
+    vi.spyOn(config.getBudgetService(), 'getWarnings').mockReturnValue([
+      { scope: 'session', metric: 'costUsd', used: 4, limit: 5 },
+    ]);
+
+    const { lastFrame } = renderWithProviders(<Footer />, {
+      width: 120,
+      config,
+      uiState: { sessionStats: mockSessionStats },
+    });
+    expect(lastFrame()).toContain('session cost budget 80%');
+  });
+
   it('displays the model name and abbreviated context percentage', () => {
     const { lastFrame } = renderWithProviders(<Footer />, {
       width: 99,
@@ -240,6 +259,17 @@ describe('<Footer />', () => {
       vi.unstubAllEnvs();
     });
 
+    it('should display bubblewrap info when SANDBOX is bwrap', () => {
+      vi.stubEnv('SANDBOX', 'bwrap');
+      vi.stubEnv('BWRAP_PROFILE', 'restrictive-closed');
+      const { lastFrame } = renderWithProviders(<Footer />, {
+        width: 120,
+        uiState: { isTrustedFolder: true, sessionStats: mockSessionStats },
+      });
+      expect(lastFrame()).toMatch(/bubblewrap.*\(restrictive-closed\)/s);
+      vi.unstubAllEnvs();
+    });
+
     it('should display "no sandbox" when SANDBOX is not set and folder is trusted', () => {
       // Clear any SANDBOX env var that might be set.
       vi.stubEnv('SANDBOX', '');
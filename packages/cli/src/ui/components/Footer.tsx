@@ -18,6 +18,7 @@ import { ThemedGradient } from './ThemedGradient.js';
 import { MemoryUsageDisplay } from './MemoryUsageDisplay.js';
 import { ContextUsageDisplay } from './ContextUsageDisplay.js';
 import { QuotaDisplay } from './QuotaDisplay.js';
+import { BudgetDisplay } from './BudgetDisplay.js';
 import { DebugProfiler } from './DebugProfiler.js';
 import { isDevelopment } from '../../utils/installationInfo.js';
 import { useUIState } from '../contexts/UIStateContext.js';
@@ -61,6 +62,10 @@ export const Footer: React.FC = () => {
     quotaStats: uiState.quota.stats,
   };
 
+  const budgetService = config.getBudgetService();
+  const budgetStatus =
+    budgetService.getExceededLimit() ?? budgetService.getWarnings()[0];
+
   const showMemoryUsage =
     config.getDebugMode() || settings.merged.ui.showMemoryUsage;
   const hideCWD = settings.merged.ui.footer.hideCWD;
@@ -122,6 +127,13 @@ export const Footer: React.FC = () => {
         >
           {isTrustedFolder === false ? (
             <Text color={theme.status.warning}>untrusted</Text>
+          ) : process.env['SANDBOX'] === 'bwrap' ? (
+            <Text color="green">
+              bubblewrap{' '}
+              <Text color={theme.text.secondary}>
+                ({process.env['BWRAP_PROFILE']})
+              </Text>
+            </Text>
           ) : process.env['SANDBOX'] &&
             process.env['SANDBOX'] !== 'sandbox-exec' ? (
             <Text color="green">
@@ -173,6 +185,12 @@ export const Footer: React.FC = () => {
                   />
                 </>
               )}
+              {budgetStatus && (
+                <>
+                  {' '}
+                  <BudgetDisplay status={budgetStatus} />
+                </>
+              )}
             </Text>
             {showMemoryUsage && <MemoryUsageDisplay />}
           </Box>
@@ -88,4 +88,27 @@ describe('RewindConfirmation', () => {
     expect(lastFrame()).toMatchSnapshot();
     expect(lastFrame()).not.toContain('Revert code changes');
   });
+
+  it('offers fork options in fork mode', () => {
+    const stats = {
+      addedLines: 10,
+      removedLines: 5,
+      fileCount: 1,
+      details: [{ fileName: 'test.ts', diff: '' }],
+    };
+    const { lastFrame } = renderWithProviders(
+      <RewindConfirmation
+        mode="fork"
+        stats={stats}
+        onConfirm={vi.fn()}
+        terminalWidth={80}
+      />,
+      { width: 80 },
+    );
+
+    expect(lastFrame()).toContain('Confirm Fork');
+    expect(lastFrame()).toContain('Fork conversation and revert code changes');
+    expect(lastFrame()).toContain('Forking does not affect files');
+    expect(lastFrame()).not.toContain('Rewind conversation');
+  });
 });
@@ -45,11 +45,31 @@ const REWIND_OPTIONS: Array<RadioSelectItem<RewindOutcome>> = [
   },
 ];
 
+const FORK_OPTIONS: Array<RadioSelectItem<RewindOutcome>> = [
+  {
+    label: 'Fork conversation and revert code changes',
+    value: RewindOutcome.RewindAndRevert,
+    key: 'Fork conversation and revert code changes',
+  },
+  {
+    label: 'Fork conversation',
+    value: RewindOutcome.RewindOnly,
+    key: 'Fork conversation',
+  },
+  {
+    label: 'Do nothing (esc)',
+    value: RewindOutcome.Cancel,
+    key: 'Do nothing (esc)',
+  },
+];
+
 interface RewindConfirmationProps {
   stats: FileChangeStats | null;
   onConfirm: (outcome: RewindOutcome) => void;
   terminalWidth: number;
   timestamp?: string;
+  /** Whether the selected message is being rewound to or forked from. */
+  mode?: 'rewind' | 'fork';
 }
 
 export const RewindConfirmation: React.FC<RewindConfirmationProps> = ({
@@ -57,6 +77,7 @@ export const RewindConfirmation: React.FC<RewindConfirmationProps> = ({
   onConfirm,
   terminalWidth,
   timestamp,
+  mode = 'rewind',
 }) => {
   useKeypress(
     (key) => {
@@ -74,15 +95,16 @@ export const RewindConfirmation: React.FC<RewindConfirmationProps> = ({
   };
 
   const options = useMemo(() => {
+    const allOptions = mode === 'fork' ? FORK_OPTIONS : REWIND_OPTIONS;
     if (stats) {
-      return REWIND_OPTIONS;
+      return allOptions;
     }
-    return REWIND_OPTIONS.filter(
+    return allOptions.filter(
       (option) =>
         option.value !== RewindOutcome.RewindAndRevert &&
         option.value !== RewindOutcome.RevertOnly,
     );
-  }, [stats]);
+  }, [stats, mode]);
 
   return (
     <Box
@@ -93,7 +115,7 @@ export const RewindConfirmation: React.FC<RewindConfirmationProps> = ({
       width={terminalWidth}
     >
       <Box marginBottom={1}>
-        <Text bold>Confirm Rewind</Text>
+        <Text bold>{mode === 'fork' ? 'Confirm Fork' : 'Confirm Rewind'}</Text>
       </Box>
 
       {stats && (
@@ -125,8 +147,8 @@ export const RewindConfirmation: React.FC<RewindConfirmationProps> = ({
           </Box>
           <Box marginTop={1}>
             <Text color={theme.status.warning}>
-              ℹ Rewinding does not affect files edited manually or by the shell
-              tool.
+              ℹ {mode === 'fork' ? 'Forking' : 'Rewinding'} does not affect
+              files edited manually or by the shell tool.
             </Text>
           </Box>
         </Box>
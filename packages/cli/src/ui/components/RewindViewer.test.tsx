@@ -7,7 +7,8 @@
 import { describe, it, expect, vi, afterEach } from 'vitest';
 import { act } from 'react';
 import { renderWithProviders } from '../../test-utils/render.js';
-import { RewindViewer } from './RewindViewer.js';
+import { CURRENT_POSITION_ID, RewindViewer } from './RewindViewer.js';
+import { RewindOutcome } from './RewindConfirmation.js';
 import { waitFor } from '../../test-utils/async.js';
 import type {
   ConversationRecord,
@@ -249,6 +250,62 @@ describe('RewindViewer', () => {
     });
   });
 
+  describe('Fork mode', () => {
+    it('forks from the current position with the whole conversation', async () => {
+      const conversation = createConversation([
+        { type: 'user', content: 'Original Prompt', id: '1', timestamp: '1' },
+      ]);
+      const onRewind = vi.fn();
+      const { lastFrame, stdin } = renderWithProviders(
+        <RewindViewer
+          mode="fork"
+          conversation={conversation}
+          onExit={vi.fn()}
+          onRewind={onRewind}
+        />,
+      );
+
+      expect(lastFrame()).toContain('> Fork');
+      expect(lastFrame()).toContain('Fork from current position');
+
+      act(() => {
+        stdin.write('\r');
+      });
+
+      await waitFor(() => {
+        expect(onRewind).toHaveBeenCalledWith(
+          CURRENT_POSITION_ID,
+          '',
+          RewindOutcome.RewindOnly,
+        );
+      });
+    });
+
+    it('asks to confirm the fork for an earlier message', async () => {
+      const conversation = createConversation([
+        { type: 'user', content: 'Original Prompt', id: '1', timestamp: '1' },
+      ]);
+      const { lastFrame, stdin } = renderWithProviders(
+        <RewindViewer
+          mode="fork"
+          conversation={conversation}
+          onExit={vi.fn()}
+          onRewind={vi.fn()}
+        />,
+      );
+
+      act(() => {
+        stdin.write('\x1b[A');
+        stdin.write('\r');
+      });
+
+      await waitFor(() => {
+        expect(lastFrame()).toContain('Confirm Fork');
+      });
+      expect(lastFrame()).toContain('Fork conversation');
+    });
+  });
+
   describe('Content Filtering', () => {
     it.each([
       {
@@ -23,6 +23,12 @@ import { keyMatchers, Command } from '../keyMatchers.js';
 import { CliSpinner } from './CliSpinner.js';
 import { ExpandableText } from './shared/ExpandableText.js';
 
+/**
+ * The ID `onRewind` receives when the current position is selected in fork
+ * mode.
+ */
+export const CURRENT_POSITION_ID = 'current-position';
+
 interface RewindViewerProps {
   conversation: ConversationRecord;
   onExit: () => void;
@@ -31,6 +37,11 @@ interface RewindViewerProps {
     newText: string,
     outcome: RewindOutcome,
   ) => Promise<void>;
+  /**
+   * Whether to rewind to the selected message or fork from it. In fork mode
+   * the current position can be selected too.
+   */
+  mode?: 'rewind' | 'fork';
 }
 
 const MAX_LINES_PER_BOX = 2;
@@ -47,6 +58,7 @@ export const RewindViewer: React.FC<RewindViewerProps> = ({
   conversation,
   onExit,
   onRewind,
+  mode = 'rewind',
 }) => {
   const [isRewinding, setIsRewinding] = useState(false);
   const { terminalWidth, terminalHeight } = useUIState();
@@ -81,17 +93,20 @@ export const RewindViewer: React.FC<RewindViewerProps> = ({
     return [
       ...interactionItems,
       {
-        key: 'current-position',
+        key: CURRENT_POSITION_ID,
         value: {
-          id: 'current-position',
+          id: CURRENT_POSITION_ID,
           type: 'user',
-          content: 'Stay at current position',
+          content:
+            mode === 'fork'
+              ? 'Fork from current position'
+              : 'Stay at current position',
           timestamp: new Date().toISOString(),
         } as MessageRecord,
         index: interactionItems.length,
       },
     ];
-  }, [interactions]);
+  }, [interactions, mode]);
 
   useKeypress(
     (key) => {
@@ -103,7 +118,7 @@ export const RewindViewer: React.FC<RewindViewerProps> = ({
         if (keyMatchers[Command.EXPAND_SUGGESTION](key)) {
           if (
             highlightedMessageId &&
-            highlightedMessageId !== 'current-position'
+            highlightedMessageId !== CURRENT_POSITION_ID
           ) {
             setExpandedMessageId(highlightedMessageId);
             return true;
@@ -144,12 +159,12 @@ export const RewindViewer: React.FC<RewindViewerProps> = ({
           <Box>
             <CliSpinner />
           </Box>
-          <Text>Rewinding...</Text>
+          <Text>{mode === 'fork' ? 'Forking...' : 'Rewinding...'}</Text>
         </Box>
       );
     }
 
-    if (selectedMessageId === 'current-position') {
+    if (selectedMessageId === CURRENT_POSITION_ID) {
       onExit();
       return null;
     }
@@ -162,6 +177,7 @@ export const RewindViewer: React.FC<RewindViewerProps> = ({
         stats={confirmationStats}
         terminalWidth={terminalWidth}
         timestamp={selectedMessage?.timestamp}
+        mode={mode}
         onConfirm={async (outcome) => {
           if (outcome === RewindOutcome.Cancel) {
             clearSelection();
@@ -190,7 +206,10 @@ export const RewindViewer: React.FC<RewindViewerProps> = ({
       paddingY={1}
     >
       <Box marginBottom={1}>
-        <Text bold>{'> '}Rewind</Text>
+        <Text bold>
+          {'> '}
+          {mode === 'fork' ? 'Fork' : 'Rewind'}
+        </Text>
       </Box>
 
       <Box flexDirection="column" flexGrow={1}>
@@ -203,8 +222,16 @@ export const RewindViewer: React.FC<RewindViewerProps> = ({
           onSelect={(item: MessageRecord) => {
             const userPrompt = item;
             if (userPrompt && userPrompt.id) {
-              if (userPrompt.id === 'current-position') {
-                onExit();
+              if (userPrompt.id === CURRENT_POSITION_ID) {
+                if (mode === 'fork') {
+                  void onRewind(
+                    CURRENT_POSITION_ID,
+                    '',
+                    RewindOutcome.RewindOnly,
+                  );
+                } else {
+                  onExit();
+                }
               } else {
                 selectMessage(userPrompt.id);
               }
@@ -221,7 +248,7 @@ export const RewindViewer: React.FC<RewindViewerProps> = ({
           renderItem={(itemWrapper, { isSelected }) => {
             const userPrompt = itemWrapper.value;
 
-            if (userPrompt.id === 'current-position') {
+            if (userPrompt.id === CURRENT_POSITION_ID) {
               return (
                 <Box flexDirection="column" marginBottom={1}>
                   <Text
@@ -234,7 +261,9 @@ export const RewindViewer: React.FC<RewindViewerProps> = ({
                     )}
                   </Text>
                   <Text color={theme.text.secondary}>
-                    Cancel rewind and stay here
+                    {mode === 'fork'
+                      ? 'Branch with the whole conversation'
+                      : 'Cancel rewind and stay here'}
                   </Text>
                 </Box>
               );
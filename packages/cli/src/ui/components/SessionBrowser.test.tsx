@@ -9,7 +9,7 @@ import { act } from 'react';
 import { render } from '../../test-utils/render.js';
 import { waitFor } from '../../test-utils/async.js';
 import type { Config } from '@google/gemini-cli-core';
-import { SessionBrowser } from './SessionBrowser.js';
+import { arrangeSessionTree, SessionBrowser } from './SessionBrowser.js';
 import type { SessionBrowserProps } from './SessionBrowser.js';
 import type { SessionInfo } from '../../utils/sessionUtils.js';
 
@@ -136,6 +136,37 @@ const createSession = (overrides: Partial<SessionInfo>): SessionInfo => ({
   ...overrides,
 });
 
+describe('arrangeSessionTree', () => {
+  const session = (id: string, parentSessionId?: string) =>
+    ({ id, parentSessionId }) as SessionInfo;
+
+  it('lists forks after their parent, keeping the sort order', () => {
+    const arranged = arrangeSessionTree([
+      session('a'),
+      session('a-fork-1', 'a'),
+      session('b'),
+      session('a-fork-1-fork', 'a-fork-1'),
+      session('a-fork-2', 'a'),
+      session('orphan', 'deleted'),
+    ]);
+
+    expect(arranged.map((s) => [s.id, s.forkDepth ?? 0])).toEqual([
+      ['a', 0],
+      ['a-fork-1', 1],
+      ['a-fork-1-fork', 2],
+      ['a-fork-2', 1],
+      ['b', 0],
+      ['orphan', 0],
+    ]);
+  });
+
+  it('keeps sessions whose parents form a cycle', () => {
+    const arranged = arrangeSessionTree([session('a', 'b'), session('b', 'a')]);
+
+    expect(arranged.map((s) => s.id)).toEqual(['a', 'b']);
+  });
+});
+
 describe('SessionBrowser component', () => {
   beforeEach(() => {
     vi.useFakeTimers();
@@ -323,6 +354,44 @@ describe('SessionBrowser component', () => {
     expect(resumedSession).toEqual(session2);
   });
 
+  it('shows forks indented under the session they were forked from', () => {
+    const parent = createSession({
+      id: 'parent',
+      file: 'parent',
+      displayName: 'Parent session',
+      lastUpdated: '2025-01-01T12:00:00Z',
+    });
+    const other = createSession({
+      id: 'other',
+      file: 'other',
+      displayName: 'Other session',
+      lastUpdated: '2025-01-02T12:00:00Z',
+    });
+    const fork = createSession({
+      id: 'fork',
+      file: 'fork',
+      displayName: 'Forked session',
+      lastUpdated: '2025-01-03T12:00:00Z',
+      parentSessionId: 'parent',
+    });
+
+    const { lastFrame } = render(
+      <TestSessionBrowser
+        config={createMockConfig()}
+        onResumeSession={vi.fn()}
+        onDeleteSession={vi.fn()}
+        onExit={vi.fn()}
+        testSessions={[parent, other, fork]}
+      />,
+    );
+
+    const lines = lastFrame()!.split('\n');
+    const row = (name: string) => lines.findIndex((l) => l.includes(name));
+    expect(row('Other session')).toBeLessThan(row('Parent session'));
+    expect(row('Forked session')).toBe(row('Parent session') + 1);
+    expect(lines[row('Forked session')]).toContain('└ Forked session');
+  });
+
   it('does not allow resuming or deleting the current session', () => {
     const currentSession = createSession({
       id: 'current',
@@ -179,6 +179,47 @@ const sortSessions = (
   return reverse ? sorted.reverse() : sorted;
 };
 
+/**
+ * Arranges sessions as a tree by listing each fork right after the session it
+ * was forked from. Forks keep their order among siblings, and sessions whose
+ * parent is not in the list stay at the top level.
+ * @param sessions - Array of sorted sessions
+ * @returns New array of sessions, with the fork depth set on forks
+ */
+export const arrangeSessionTree = (sessions: SessionInfo[]): SessionInfo[] => {
+  const ids = new Set(sessions.map((session) => session.id));
+  const forksByParent = new Map<string, SessionInfo[]>();
+  const roots: SessionInfo[] = [];
+  for (const session of sessions) {
+    const parentId = session.parentSessionId;
+    if (parentId && parentId !== session.id && ids.has(parentId)) {
+      forksByParent.set(parentId, [
+        ...(forksByParent.get(parentId) ?? []),
+        session,
+      ]);
+    } else {
+      roots.push(session);
+    }
+  }
+
+  const arranged: SessionInfo[] = [];
+  const visited = new Set<string>();
+  const visit = (session: SessionInfo, forkDepth: number) => {
+    if (visited.has(session.id)) {
+      return;
+    }
+    visited.add(session.id);
+    arranged.push(forkDepth > 0 ? { ...session, forkDepth } : session);
+    for (const fork of forksByParent.get(session.id) ?? []) {
+      visit(fork, forkDepth + 1);
+    }
+  };
+  roots.forEach((session) => visit(session, 0));
+  // Sessions in a parent cycle have no root; list them at the top level.
+  sessions.forEach((session) => visit(session, 0));
+  return arranged;
+};
+
 /**
  * Finds all text matches for a search query within conversation messages.
  * Creates TextMatch objects with context (10 chars before/after) and role information.
@@ -463,11 +504,18 @@ const SessionItem = ({
     }
   }
 
+  // Forks are indented under the session they were forked from.
+  const forkDepth = session.forkDepth ?? 0;
+  const treePrefix = forkDepth > 0 ? `${'  '.repeat(forkDepth - 1)}└ ` : '';
+
   // Reserve a few characters for metadata like " (current)" so the name doesn't wrap awkwardly.
   const reservedForMeta = additionalInfo ? additionalInfo.length + 1 : 0;
   const availableMessageWidth = Math.max(
     20,
-    terminalWidth - FIXED_SESSION_COLUMNS_WIDTH - reservedForMeta,
+    terminalWidth -
+      FIXED_SESSION_COLUMNS_WIDTH -
+      reservedForMeta -
+      treePrefix.length,
   );
 
   const truncatedMessage =
@@ -516,6 +564,9 @@ const SessionItem = ({
       </Text>
       <Box flexGrow={1}>
         <Text color={textColor(Colors.Comment)} dimColor={isDisabled}>
+          {treePrefix && (
+            <Text color={textColor(Colors.Gray)}>{treePrefix}</Text>
+          )}
           {truncatedMessage}
           {additionalInfo && (
             <Text color={textColor(Colors.Gray)} dimColor bold={false}>
@@ -586,7 +637,7 @@ export const useSessionBrowserState = (
 
   const filteredAndSortedSessions = useMemo(() => {
     const filtered = filterSessions(sessions, searchQuery);
-    return sortSessions(filtered, sortOrder, sortReverse);
+    return arrangeSessionTree(sortSessions(filtered, sortOrder, sortReverse));
   }, [sessions, searchQuery, sortOrder, sortReverse]);
 
   // Reset full content flag when search is cleared
@@ -301,6 +301,41 @@ index 123..789 100644
         );
       });
 
+      it('should render each file of a multi-file diff under its own header', async () => {
+        const multiFileDiff = `Index: src/a.ts
+===================================================================
+--- src/a.ts\tCurrent
++++ src/a.ts\tProposed
+@@ -1,1 +1,1 @@
+-const a = 1;
++const a = 2;
+Index: src/b.py
+===================================================================
+--- src/b.py\tCurrent
++++ src/b.py\tProposed
+@@ -0,0 +1,1 @@
++print("created")
+`;
+        const { lastFrame } = renderWithProviders(
+          <OverflowProvider>
+            <DiffRenderer
+              diffContent={multiFileDiff}
+              filename="2 files"
+              terminalWidth={80}
+            />
+          </OverflowProvider>,
+          { useAlternateBuffer },
+        );
+        await waitFor(() => expect(lastFrame()).toContain('created'));
+        const output = lastFrame();
+        expect(output).toContain('src/a.ts');
+        expect(output).toContain('src/b.py');
+        expect(output).not.toContain('--- src/b.py');
+        expect(output).not.toContain('++ src/b.py');
+        expect(mockColorizeCode).not.toHaveBeenCalled();
+        expect(output).toMatchSnapshot();
+      });
+
       it('should correctly render a diff with a SVN diff format', async () => {
         const newFileDiff = `
 
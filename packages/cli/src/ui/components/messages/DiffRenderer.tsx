@@ -15,7 +15,7 @@ import type { Theme } from '../../themes/theme.js';
 import { useSettings } from '../../contexts/SettingsContext.js';
 
 interface DiffLine {
-  type: 'add' | 'del' | 'context' | 'hunk' | 'other';
+  type: 'add' | 'del' | 'context' | 'hunk' | 'file' | 'other';
   oldLine?: number;
   newLine?: number;
   content: string;
@@ -28,8 +28,20 @@ function parseDiffWithLineNumbers(diffContent: string): DiffLine[] {
   let currentNewLine = 0;
   let inHunk = false;
   const hunkHeaderRegex = /^@@ -(\d+),?\d* \+(\d+),?\d* @@/;
+  const gitHeaderRegex = /^diff --git a\/.+ b\/(.+)$/;
 
   for (const line of lines) {
+    // A new file section ends the current hunk, so its `---`/`+++` headers
+    // are not mistaken for removed and added lines.
+    const gitHeaderMatch = line.match(gitHeaderRegex);
+    if (gitHeaderMatch || line.startsWith('Index: ')) {
+      inHunk = false;
+      result.push({
+        type: 'file',
+        content: gitHeaderMatch ? gitHeaderMatch[1] : line.slice(7).trim(),
+      });
+      continue;
+    }
     const hunkMatch = line.match(hunkHeaderRegex);
     if (hunkMatch) {
       currentOldLine = parseInt(hunkMatch[1], 10);
@@ -78,9 +90,19 @@ function parseDiffWithLineNumbers(diffContent: string): DiffLine[] {
       result.push({ type: 'other', content: line });
     }
   }
-  return result;
+
+  // File headers are only shown when the diff spans several files.
+  const fileCount = result.filter((line) => line.type === 'file').length;
+  return fileCount > 1 ? result : result.filter((line) => line.type !== 'file');
 }
 
+const getLanguageFromFilename = (
+  filename: string | undefined,
+): string | null => {
+  const fileExtension = filename?.split('.').pop() || null;
+  return fileExtension ? getLanguageFromExtension(fileExtension) : null;
+};
+
 interface DiffRendererProps {
   diffContent: string;
   filename?: string;
@@ -113,6 +135,7 @@ export const DiffRenderer: React.FC<DiffRendererProps> = ({
 
   const isNewFile = useMemo(() => {
     if (parsedLines.length === 0) return false;
+    if (parsedLines.some((line) => line.type === 'file')) return false;
     return parsedLines.every(
       (line) =>
         line.type === 'add' ||
@@ -158,10 +181,7 @@ export const DiffRenderer: React.FC<DiffRendererProps> = ({
         .map((line) => line.content)
         .join('\n');
       // Attempt to infer language from filename, default to plain text if no filename
-      const fileExtension = filename?.split('.').pop() || null;
-      const language = fileExtension
-        ? getLanguageFromExtension(fileExtension)
-        : null;
+      const language = getLanguageFromFilename(filename);
       return colorizeCode({
         code: addedContent,
         language,
@@ -213,7 +233,7 @@ const renderDiffContent = (
     (l) => l.type !== 'hunk' && l.type !== 'other',
   );
 
-  if (displayableLines.length === 0) {
+  if (displayableLines.every((l) => l.type === 'file')) {
     return (
       <Box
         borderStyle="round"
@@ -232,16 +252,13 @@ const renderDiffContent = (
   );
   const gutterWidth = Math.max(1, maxLineNumber.toString().length);
 
-  const fileExtension = filename?.split('.').pop() || null;
-  const language = fileExtension
-    ? getLanguageFromExtension(fileExtension)
-    : null;
+  let language = getLanguageFromFilename(filename);
 
   // Calculate the minimum indentation across all displayable lines
   let baseIndentation = Infinity; // Start high to find the minimum
   for (const line of displayableLines) {
     // Only consider lines with actual content for indentation calculation
-    if (line.content.trim() === '') continue;
+    if (line.type === 'file' || line.content.trim() === '') continue;
 
     const firstCharIndex = line.content.search(/\S/); // Find index of first non-whitespace char
     const currentIndent = firstCharIndex === -1 ? 0 : firstCharIndex; // Indent is 0 if no non-whitespace found
@@ -261,6 +278,20 @@ const renderDiffContent = (
 
   const content = displayableLines.reduce<React.ReactNode[]>(
     (acc, line, index) => {
+      if (line.type === 'file') {
+        // Each file restarts line numbering and may use a different language.
+        language = getLanguageFromFilename(line.content);
+        lastLineNumber = null;
+        acc.push(
+          <Box key={`file-${index}`} marginTop={index === 0 ? 0 : 1}>
+            <Text bold color={semanticTheme.text.accent}>
+              {line.content}
+            </Text>
+          </Box>,
+        );
+        return acc;
+      }
+
       // Determine the relevant line number for gap calculation based on type
       let relevantLineNumberForGapCalc: number | null = null;
       if (line.type === 'add' || line.type === 'context') {
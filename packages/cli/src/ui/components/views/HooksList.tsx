@@ -12,6 +12,8 @@ interface HooksListProps {
   hooks: ReadonlyArray<{
     config: {
       command?: string;
+      url?: string;
+      module?: string;
       type: string;
       name?: string;
       description?: string;
@@ -76,8 +78,15 @@ export const HooksList: React.FC<HooksListProps> = ({ hooks }) => {
             </Text>
             <Box flexDirection="column" paddingLeft={2}>
               {eventHooks.map((hook, index) => {
-                const hookName =
-                  hook.config.name || hook.config.command || 'unknown';
+                const target =
+                  hook.config.command ?? hook.config.url ?? hook.config.module;
+                const targetLabel =
+                  hook.config.type === 'http'
+                    ? 'URL'
+                    : hook.config.type === 'module'
+                      ? 'Module'
+                      : 'Command';
+                const hookName = hook.config.name || target || 'unknown';
                 const statusColor = hook.enabled
                   ? theme.status.success
                   : theme.text.secondary;
@@ -98,8 +107,8 @@ export const HooksList: React.FC<HooksListProps> = ({ hooks }) => {
                       <Text dimColor>
                         Source: {hook.source}
                         {hook.config.name &&
-                          hook.config.command &&
-                          ` | Command: ${hook.config.command}`}
+                          target &&
+                          ` | ${targetLabel}: ${target}`}
                         {hook.matcher && ` | Matcher: ${hook.matcher}`}
                         {hook.sequential && ` | Sequential`}
                         {hook.config.timeout &&
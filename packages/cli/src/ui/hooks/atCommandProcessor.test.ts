@@ -1303,6 +1303,50 @@ describe('handleAtCommand', () => {
       );
     });
 
+    it('uses cached contents for subscribed resources without re-reading', async () => {
+      const serverName = 'server-1';
+      const resourceUri = 'resource://server-1/logs';
+      const prefixedUri = `${serverName}:${resourceUri}`;
+      const resource = {
+        serverName,
+        uri: resourceUri,
+        name: 'logs',
+        discoveredAt: Date.now(),
+        contents: { contents: [{ uri: resourceUri, text: 'pushed body' }] },
+        updatedAt: Date.now(),
+      } as DiscoveredMCPResource;
+
+      vi.spyOn(mockConfig, 'getResourceRegistry').mockReturnValue({
+        findResourceByUri: (identifier: string) =>
+          identifier === prefixedUri ? resource : undefined,
+        getAllResources: () => [],
+      } as never);
+
+      const readResource = vi.fn();
+      vi.spyOn(mockConfig, 'getMcpClientManager').mockReturnValue({
+        getClient: () => ({ readResource }),
+      } as never);
+
+      const result = await handleAtCommand({
+        query: `@${prefixedUri}`,
+        config: mockConfig,
+        addItem: mockAddItem,
+        onDebugMessage: mockOnDebugMessage,
+        messageId: 43,
+        signal: abortController.signal,
+      });
+
+      expect(readResource).not.toHaveBeenCalled();
+      const processedParts = Array.isArray(result.processedQuery)
+        ? result.processedQuery
+        : [];
+      const containsResourceText = processedParts.some((part) => {
+        const text = typeof part === 'string' ? part : part?.text;
+        return typeof text === 'string' && text.includes('pushed body');
+      });
+      expect(containsResourceText).toBe(true);
+    });
+
     it('returns an error if MCP client is unavailable', async () => {
       const serverName = 'server-1';
       const resourceUri = 'resource://server-1/logs';
@@ -398,7 +398,11 @@ async function readMcpResources(
           `MCP client for server '${resource.serverName}' is not available or not connected.`,
         );
       }
-      const response = await client.readResource(resource.uri, { signal });
+      // Subscribed resources carry the contents from the server's latest
+      // update notification, so there is no need to read them again.
+      const response =
+        resource.contents ??
+        (await client.readResource(resource.uri, { signal }));
       const resourceParts = convertResourceContentsToParts(response);
       return {
         success: true,
@@ -343,6 +343,7 @@ export const useSlashCommandProcessor = (
       oneTimeShellAllowlist?: Set<string>,
       overwriteConfirmed?: boolean,
       addToHistory: boolean = true,
+      abortSignal?: AbortSignal,
     ): Promise<SlashCommandProcessorResult | false> => {
       if (!commands) {
         return false;
@@ -389,6 +390,7 @@ export const useSlashCommandProcessor = (
                 args,
               },
               overwriteConfirmed,
+              abortSignal,
             };
 
             // If a one-time list is provided for a "Proceed" action, temporarily
@@ -589,6 +591,7 @@ export const useSlashCommandProcessor = (
                     new Set(approvedCommands),
                     undefined,
                     false, // Do not add to history again
+                    abortSignal,
                   );
                 }
                 case 'confirm_action': {
@@ -619,6 +622,8 @@ export const useSlashCommandProcessor = (
                     result.originalInvocation.raw,
                     undefined,
                     true,
+                    true,
+                    abortSignal,
                   );
                 }
                 case 'custom_dialog': {
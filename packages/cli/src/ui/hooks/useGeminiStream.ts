@@ -32,8 +32,10 @@ import {
   ValidationRequiredError,
   coreEvents,
   CoreEvent,
+  formatBudgetStatus,
 } from '@google/gemini-cli-core';
 import type {
+  BudgetStatus,
   Config,
   EditorType,
   GeminiClient,
@@ -173,6 +175,10 @@ export const useGeminiStream = (
   onDebugMessage: (message: string) => void,
   handleSlashCommand: (
     cmd: PartListUnion,
+    oneTimeShellAllowlist?: Set<string>,
+    overwriteConfirmed?: boolean,
+    addToHistory?: boolean,
+    abortSignal?: AbortSignal,
   ) => Promise<SlashCommandProcessorResult | false>,
   shellModeActive: boolean,
   getPreferredEditor: () => EditorType | undefined,
@@ -642,7 +648,13 @@ export const useGeminiStream = (
         if (!shellModeActive) {
           // Handle UI-only commands first
           const slashCommandResult = isSlashCommand(trimmedQuery)
-            ? await handleSlashCommand(trimmedQuery)
+            ? await handleSlashCommand(
+                trimmedQuery,
+                undefined,
+                undefined,
+                true,
+                abortSignal,
+              )
             : false;
 
           if (slashCommandResult) {
@@ -973,6 +985,17 @@ export const useGeminiStream = (
     [addItem, config],
   );
 
+  const handleBudgetExceededEvent = useCallback(
+    (status: BudgetStatus) =>
+      addItem({
+        type: 'error',
+        text:
+          `Budget limit reached. ${formatBudgetStatus(status)}. ` +
+          `Increase the limit in the budget settings in settings.json to continue.`,
+      }),
+    [addItem],
+  );
+
   const handleContextWindowWillOverflowEvent = useCallback(
     (estimatedRequestTokenCount: number, remainingTokenCount: number) => {
       onCancelSubmit(true);
@@ -1144,6 +1167,9 @@ export const useGeminiStream = (
           case ServerGeminiEventType.MaxSessionTurns:
             handleMaxSessionTurnsEvent();
             break;
+          case ServerGeminiEventType.BudgetExceeded:
+            handleBudgetExceededEvent(event.value);
+            break;
           case ServerGeminiEventType.ContextWindowWillOverflow:
             handleContextWindowWillOverflowEvent(
               event.value.estimatedRequestTokenCount,
@@ -1194,6 +1220,7 @@ export const useGeminiStream = (
       handleChatCompressionEvent,
       handleFinishedEvent,
       handleMaxSessionTurnsEvent,
+      handleBudgetExceededEvent,
       handleContextWindowWillOverflowEvent,
       handleCitationEvent,
       handleChatModelEvent,
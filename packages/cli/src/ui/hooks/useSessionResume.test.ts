@@ -220,6 +220,44 @@ describe('useSessionResume', () => {
       ]);
     });
 
+    it('should offer to restore the checkpoint of the resumed session', async () => {
+      const configWithCheckpointing = {
+        ...mockConfig,
+        getCheckpointingEnabled: vi.fn().mockReturnValue(true),
+      };
+
+      const { result } = renderHook(() =>
+        useSessionResume({
+          ...getDefaultProps(),
+          config: configWithCheckpointing as unknown as Config,
+        }),
+      );
+
+      const resumedData: ResumedSessionData = {
+        conversation: {
+          sessionId: 'test-123',
+          projectHash: 'project-123',
+          startTime: '2025-01-01T00:00:00Z',
+          lastUpdated: '2025-01-01T01:00:00Z',
+          messages: [] as MessageRecord[],
+          checkpointCommitHash: 'abc123',
+        },
+        filePath: '/path/to/session.json',
+      };
+
+      await act(async () => {
+        await result.current.loadHistoryForResume([], [], resumedData);
+      });
+
+      expect(mockHistoryManager.addItem).toHaveBeenCalledWith(
+        {
+          type: 'info',
+          text: 'This session has a checkpoint of your project files. Use /restore session to restore them.',
+        },
+        expect.any(Number),
+      );
+    });
+
     it('should not call addDirectories when no directories in resumed session', async () => {
       const mockAddDirectories = vi.fn();
       const mockWorkspaceContext = {
@@ -14,6 +14,7 @@ import type { Part } from '@google/genai';
 import type { HistoryItemWithoutId } from '../types.js';
 import type { UseHistoryManagerReturn } from './useHistoryManager.js';
 import { convertSessionToHistoryFormats } from './useSessionBrowser.js';
+import { SESSION_CHECKPOINT_ARG } from '../commands/restoreCommand.js';
 
 interface UseSessionResumeParams {
   config: Config;
@@ -84,6 +85,21 @@ export function useSessionResume({
 
         // Give the history to the Gemini client.
         await config.getGeminiClient()?.resumeChat(clientHistory, resumedData);
+
+        // Offer to bring the files back to this session's checkpoint, which
+        // is recorded when the session is forked.
+        if (
+          resumedData.conversation.checkpointCommitHash &&
+          config.getCheckpointingEnabled()
+        ) {
+          historyManagerRef.current.addItem(
+            {
+              type: 'info',
+              text: `This session has a checkpoint of your project files. Use /restore ${SESSION_CHECKPOINT_ARG} to restore them.`,
+            },
+            Date.now(),
+          );
+        }
       } catch (error) {
         coreEvents.emitFeedback(
           'error',
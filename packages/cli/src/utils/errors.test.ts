@@ -19,6 +19,7 @@ import {
   FatalInputError,
   debugLogger,
   coreEvents,
+  RunReport,
 } from '@google/gemini-cli-core';
 import {
   getErrorMessage,
@@ -26,6 +27,7 @@ import {
   handleToolError,
   handleCancellationError,
   handleMaxTurnsExceededError,
+  handleBudgetExceededError,
 } from './errors.js';
 import { runSyncCleanup } from './cleanup.js';
 
@@ -142,6 +144,8 @@ describe('errors', () => {
       getOutputFormat: vi.fn().mockReturnValue(OutputFormat.TEXT),
       getContentGeneratorConfig: vi.fn().mockReturnValue({ authType: 'test' }),
       getSessionId: vi.fn().mockReturnValue(TEST_SESSION_ID),
+      getRunReport: vi.fn().mockReturnValue(new RunReport()),
+      getTargetDir: vi.fn().mockReturnValue('/test/project'),
     } as unknown as Config;
   });
 
@@ -347,6 +351,51 @@ describe('errors', () => {
         }).toThrow('process.exit called with code: 42');
       });
     });
+    describe('in SARIF mode', () => {
+      let processStdoutWriteSpy: MockInstance;
+
+      beforeEach(() => {
+        (
+          mockConfig.getOutputFormat as ReturnType<typeof vi.fn>
+        ).mockReturnValue(OutputFormat.SARIF);
+        processStdoutWriteSpy = vi
+          .spyOn(process.stdout, 'write')
+          .mockImplementation(() => true);
+      });
+
+      afterEach(() => {
+        processStdoutWriteSpy.mockRestore();
+      });
+
+      it('should write a failed SARIF run, emit feedback, and exit', () => {
+        const fatalError = new FatalInputError('Fatal error');
+
+        expect(() => {
+          handleError(fatalError, mockConfig);
+        }).toThrow('process.exit called with code: 42');
+
+        const [run] = JSON.parse(
+          processStdoutWriteSpy.mock.calls[0][0] as string,
+        ).runs;
+        expect(run.invocations).toEqual([
+          {
+            executionSuccessful: false,
+            toolExecutionNotifications: [
+              {
+                level: 'error',
+                message: { text: 'API Error: Fatal error' },
+                descriptor: { id: 'FatalInputError' },
+              },
+            ],
+          },
+        ]);
+        expect(coreEventsEmitFeedbackSpy).toHaveBeenCalledWith(
+          'error',
+          'API Error: Fatal error',
+        );
+        expect(runSyncCleanupSpy).toHaveBeenCalled();
+      });
+    });
   });
 
   describe('handleToolError', () => {
@@ -666,5 +715,73 @@ describe('errors', () => {
         expect(coreEventsEmitFeedbackSpy).not.toHaveBeenCalled();
       });
     });
+
+    describe('in JUNIT mode', () => {
+      it('should write a failing JUnit report before exiting with 53', () => {
+        (
+          mockConfig.getOutputFormat as ReturnType<typeof vi.fn>
+        ).mockReturnValue(OutputFormat.JUNIT);
+        const processStdoutWriteSpy = vi
+          .spyOn(process.stdout, 'write')
+          .mockImplementation(() => true);
+
+        expect(() => {
+          handleMaxTurnsExceededError(mockConfig);
+        }).toThrow('process.exit called with code: 53');
+
+        expect(processStdoutWriteSpy).toHaveBeenCalledWith(
+          expect.stringContaining('<failure type="FatalTurnLimitedError"'),
+        );
+        expect(coreEventsEmitFeedbackSpy).toHaveBeenCalledTimes(1);
+        processStdoutWriteSpy.mockRestore();
+      });
+    });
+  });
+
+  describe('handleBudgetExceededError', () => {
+    const status = {
+      scope: 'session' as const,
+      metric: 'outputTokens' as const,
+      used: 1200,
+      limit: 1000,
+    };
+    const message =
+      'Budget limit reached. Session output token budget: 1,200 of 1,000 tokens used. Increase the limit in the budget settings in settings.json.';
+
+    it('should emit feedback once, run cleanup, and exit with 55 in text mode', () => {
+      expect(() => {
+        handleBudgetExceededError(mockConfig, status);
+      }).toThrow('process.exit called with code: 55');
+
+      expect(coreEventsEmitFeedbackSpy).toHaveBeenCalledTimes(1);
+      expect(coreEventsEmitFeedbackSpy).toHaveBeenCalledWith('error', message);
+      expect(runSyncCleanupSpy).toHaveBeenCalled();
+    });
+
+    it('should format the error as JSON in JSON mode', () => {
+      (mockConfig.getOutputFormat as ReturnType<typeof vi.fn>).mockReturnValue(
+        OutputFormat.JSON,
+      );
+
+      expect(() => {
+        handleBudgetExceededError(mockConfig, status);
+      }).toThrow('process.exit called with code: 55');
+
+      expect(coreEventsEmitFeedbackSpy).toHaveBeenCalledWith(
+        'error',
+        JSON.stringify(
+          {
+            session_id: TEST_SESSION_ID,
+            error: {
+              type: 'FatalBudgetExceededError',
+              message,
+              code: 55,
+            },
+          },
+          null,
+          2,
+        ),
+      );
+    });
   });
 });
@@ -4,7 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import type { Config } from '@google/gemini-cli-core';
+import type { BudgetStatus, Config } from '@google/gemini-cli-core';
 import {
   OutputFormat,
   JsonFormatter,
@@ -13,13 +13,16 @@ import {
   uiTelemetryService,
   parseAndFormatApiError,
   FatalTurnLimitedError,
+  FatalBudgetExceededError,
   FatalCancellationError,
   FatalToolExecutionError,
   isFatalToolError,
   debugLogger,
   coreEvents,
+  formatBudgetStatus,
 } from '@google/gemini-cli-core';
 import { runSyncCleanup } from './cleanup.js';
+import { formatRunReport, isRunReportFormat } from './runReport.js';
 
 export function getErrorMessage(error: unknown): string {
   if (error instanceof Error) {
@@ -109,6 +112,20 @@ export function handleError(
     coreEvents.emitFeedback('error', formattedError);
     runSyncCleanup();
     process.exit(getNumericExitCode(errorCode));
+  } else if (isRunReportFormat(config.getOutputFormat())) {
+    const errorCode = customErrorCode ?? extractErrorCode(error);
+    process.stdout.write(
+      formatRunReport(config, {
+        status: 'error',
+        error: {
+          type: error instanceof Error ? error.constructor.name : 'Error',
+          message: errorMessage,
+        },
+      }),
+    );
+    coreEvents.emitFeedback('error', errorMessage);
+    runSyncCleanup();
+    process.exit(getNumericExitCode(errorCode));
   } else {
     throw error;
   }
@@ -159,6 +176,17 @@ export function handleToolError(
       );
       coreEvents.emitFeedback('error', formattedError);
     } else {
+      if (isRunReportFormat(config.getOutputFormat())) {
+        process.stdout.write(
+          formatRunReport(config, {
+            status: 'error',
+            error: {
+              type: errorType ?? 'FatalToolExecutionError',
+              message: toolExecutionError.message,
+            },
+          }),
+        );
+      }
       coreEvents.emitFeedback('error', errorMessage);
     }
     runSyncCleanup();
@@ -202,6 +230,17 @@ export function handleCancellationError(config: Config): never {
     runSyncCleanup();
     process.exit(cancellationError.exitCode);
   } else {
+    if (isRunReportFormat(config.getOutputFormat())) {
+      process.stdout.write(
+        formatRunReport(config, {
+          status: 'error',
+          error: {
+            type: 'FatalCancellationError',
+            message: cancellationError.message,
+          },
+        }),
+      );
+    }
     coreEvents.emitFeedback('error', cancellationError.message);
     runSyncCleanup();
     process.exit(cancellationError.exitCode);
@@ -243,8 +282,74 @@ export function handleMaxTurnsExceededError(config: Config): never {
     runSyncCleanup();
     process.exit(maxTurnsError.exitCode);
   } else {
+    if (isRunReportFormat(config.getOutputFormat())) {
+      process.stdout.write(
+        formatRunReport(config, {
+          status: 'error',
+          error: {
+            type: 'FatalTurnLimitedError',
+            message: maxTurnsError.message,
+          },
+        }),
+      );
+    }
     coreEvents.emitFeedback('error', maxTurnsError.message);
     runSyncCleanup();
     process.exit(maxTurnsError.exitCode);
   }
 }
+
+/**
+ * Handles a session or daily budget limit being reached consistently.
+ */
+export function handleBudgetExceededError(
+  config: Config,
+  status: BudgetStatus,
+): never {
+  const budgetError = new FatalBudgetExceededError(
+    `Budget limit reached. ${formatBudgetStatus(status)}. Increase the limit in the budget settings in settings.json.`,
+  );
+
+  if (config.getOutputFormat() === OutputFormat.STREAM_JSON) {
+    const streamFormatter = new StreamJsonFormatter();
+    const metrics = uiTelemetryService.getMetrics();
+    streamFormatter.emitEvent({
+      type: JsonStreamEventType.RESULT,
+      timestamp: new Date().toISOString(),
+      status: 'error',
+      error: {
+        type: 'FatalBudgetExceededError',
+        message: budgetError.message,
+      },
+      stats: streamFormatter.convertToStreamStats(metrics, 0),
+    });
+    runSyncCleanup();
+    process.exit(budgetError.exitCode);
+  } else if (config.getOutputFormat() === OutputFormat.JSON) {
+    const formatter = new JsonFormatter();
+    const formattedError = formatter.formatError(
+      budgetError,
+      budgetError.exitCode,
+      config.getSessionId(),
+    );
+
+    coreEvents.emitFeedback('error', formattedError);
+    runSyncCleanup();
+    process.exit(budgetError.exitCode);
+  } else {
+    if (isRunReportFormat(config.getOutputFormat())) {
+      process.stdout.write(
+        formatRunReport(config, {
+          status: 'error',
+          error: {
+            type: 'FatalBudgetExceededError',
+            message: budgetError.message,
+          },
+        }),
+      );
+    }
+    coreEvents.emitFeedback('error', budgetError.message);
+    runSyncCleanup();
+    process.exit(budgetError.exitCode);
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Config, RunOutcome } from '@google/gemini-cli-core';
+import {
+  JUnitFormatter,
+  OutputFormat,
+  SarifFormatter,
+} from '@google/gemini-cli-core';
+
+/**
+ * Whether the output format is a report that is written once, at the end of
+ * the run, instead of streaming the model's response.
+ */
+export function isRunReportFormat(format: OutputFormat): boolean {
+  return format === OutputFormat.SARIF || format === OutputFormat.JUNIT;
+}
+
+/**
+ * Formats the run report for the configured SARIF or JUnit output format.
+ */
+export function formatRunReport(config: Config, outcome: RunOutcome): string {
+  const report = config.getRunReport();
+  if (config.getOutputFormat() === OutputFormat.SARIF) {
+    return (
+      new SarifFormatter().format(report.getFindings(), outcome, {
+        srcRoot: config.getTargetDir(),
+      }) + '\n'
+    );
+  }
+  return new JUnitFormatter().format(
+    report.getToolCalls(),
+    outcome,
+    report.getDurationMs(),
+    config.getSessionId(),
+  );
+}
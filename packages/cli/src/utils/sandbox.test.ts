@@ -161,6 +161,61 @@ describe('sandbox', () => {
       await expect(start_sandbox(config)).rejects.toThrow(FatalSandboxError);
     });
 
+    it('should handle bubblewrap (bwrap)', async () => {
+      vi.mocked(fs.existsSync).mockImplementation(
+        (p) => p !== '/home/user/.npm',
+      );
+      const config: SandboxConfig = {
+        command: 'bwrap',
+        image: 'some-image',
+      };
+
+      const mockSpawnProcess = new EventEmitter();
+      vi.mocked(spawn).mockReturnValue(
+        mockSpawnProcess as unknown as ReturnType<typeof spawn>,
+      );
+
+      const promise = start_sandbox(config, [], undefined, ['arg1']);
+
+      setTimeout(() => {
+        mockSpawnProcess.emit('close', 0);
+      }, 10);
+
+      await expect(promise).resolves.toBe(0);
+      expect(process.env['BWRAP_PROFILE']).toBe('permissive-open');
+      const [command, args] = vi.mocked(spawn).mock.calls[0];
+      expect(command).toBe('bwrap');
+      expect(args).toEqual(
+        expect.arrayContaining([
+          '--ro-bind',
+          '/',
+          '/',
+          '--bind',
+          '/tmp',
+          '/tmp',
+        ]),
+      );
+      expect(args).toContain('/home/user/.gemini');
+      expect(args).not.toContain('/home/user/.npm');
+      expect(args?.slice(-3)).toEqual([
+        'sh',
+        '-c',
+        'SANDBOX=bwrap NODE_OPTIONS="" arg1',
+      ]);
+    });
+
+    it('should throw FatalSandboxError for an unknown bubblewrap profile', async () => {
+      process.env['BWRAP_PROFILE'] = 'unknown';
+      const config: SandboxConfig = {
+        command: 'bwrap',
+        image: 'some-image',
+      };
+
+      await expect(start_sandbox(config)).rejects.toThrow(
+        "Invalid bubblewrap profile 'unknown'",
+      );
+    });
+
     it('should handle Docker execution', async () => {
       const config: SandboxConfig = {
         command: 'docker',
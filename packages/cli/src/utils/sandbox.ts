@@ -20,6 +20,7 @@ import {
   homedir,
 } from '@google/gemini-cli-core';
 import { ConsolePatcher } from '../ui/utils/ConsolePatcher.js';
+import { WORKTREE_SESSION_ENV_VAR } from './worktree.js';
 import { randomBytes } from 'node:crypto';
 import {
   getContainerPath,
@@ -31,6 +32,8 @@ import {
   SANDBOX_NETWORK_NAME,
   SANDBOX_PROXY_NAME,
   BUILTIN_SEATBELT_PROFILES,
+  BUILTIN_BWRAP_PROFILES,
+  getBwrapArgs,
 } from './sandboxUtils.js';
 
 const execAsync = promisify(exec);
@@ -91,20 +94,7 @@ export async function start_sandbox(
       // Always add 5 INCLUDE_DIR parameters to ensure .sb files can reference them
       const MAX_INCLUDE_DIRS = 5;
       const targetDir = fs.realpathSync(cliConfig?.getTargetDir() || '');
-      const includedDirs: string[] = [];
-
-      if (cliConfig) {
-        const workspaceContext = cliConfig.getWorkspaceContext();
-        const directories = workspaceContext.getDirectories();
-
-        // Filter out TARGET_DIR
-        for (const dir of directories) {
-          const realDir = fs.realpathSync(dir);
-          if (realDir !== targetDir) {
-            includedDirs.push(realDir);
-          }
-        }
-      }
+      const includedDirs = getIncludedDirectories(cliConfig, targetDir);
 
       for (let i = 0; i < MAX_INCLUDE_DIRS; i++) {
         let dirPath = '/dev/null'; // Default to a safe path that won't cause issues
@@ -129,75 +119,54 @@ export async function start_sandbox(
           ...finalArgv.map((arg) => quote([arg])),
         ].join(' '),
       );
-      // start and set up proxy if GEMINI_SANDBOX_PROXY_COMMAND is set
-      const proxyCommand = process.env['GEMINI_SANDBOX_PROXY_COMMAND'];
-      let proxyProcess: ChildProcess | undefined = undefined;
-      let sandboxProcess: ChildProcess | undefined = undefined;
-      const sandboxEnv = { ...process.env };
-      if (proxyCommand) {
-        const proxy =
-          process.env['HTTPS_PROXY'] ||
-          process.env['https_proxy'] ||
-          process.env['HTTP_PROXY'] ||
-          process.env['http_proxy'] ||
-          'http://localhost:8877';
-        sandboxEnv['HTTPS_PROXY'] = proxy;
-        sandboxEnv['https_proxy'] = proxy; // lower-case can be required, e.g. for curl
-        sandboxEnv['HTTP_PROXY'] = proxy;
-        sandboxEnv['http_proxy'] = proxy;
-        const noProxy = process.env['NO_PROXY'] || process.env['no_proxy'];
-        if (noProxy) {
-          sandboxEnv['NO_PROXY'] = noProxy;
-          sandboxEnv['no_proxy'] = noProxy;
-        }
-        proxyProcess = spawn(proxyCommand, {
-          stdio: ['ignore', 'pipe', 'pipe'],
-          shell: true,
-          detached: true,
-        });
-        // install handlers to stop proxy on exit/signal
-        const stopProxy = () => {
-          debugLogger.log('stopping proxy ...');
-          if (proxyProcess?.pid) {
-            process.kill(-proxyProcess.pid, 'SIGTERM');
-          }
-        };
-        process.on('exit', stopProxy);
-        process.on('SIGINT', stopProxy);
-        process.on('SIGTERM', stopProxy);
-
-        // commented out as it disrupts ink rendering
-        // proxyProcess.stdout?.on('data', (data) => {
-        //   console.info(data.toString());
-        // });
-        proxyProcess.stderr?.on('data', (data) => {
-          debugLogger.debug(`[PROXY STDERR]: ${data.toString().trim()}`);
-        });
-        proxyProcess.on('close', (code, signal) => {
-          if (sandboxProcess?.pid) {
-            process.kill(-sandboxProcess.pid, 'SIGTERM');
-          }
-          throw new FatalSandboxError(
-            `Proxy command '${proxyCommand}' exited with code ${code}, signal ${signal}`,
-          );
-        });
-        debugLogger.log('waiting for proxy to start ...');
-        await execAsync(
-          `until timeout 0.25 curl -s http://localhost:8877; do sleep 0.25; done`,
+      return await runHostSandbox(config.command, args);
+    }
+
+    if (config.command === 'bwrap') {
+      // disallow BUILD_SANDBOX
+      if (process.env['BUILD_SANDBOX']) {
+        throw new FatalSandboxError(
+          'Cannot BUILD_SANDBOX when using bubblewrap',
         );
       }
-      // spawn child and let it inherit stdio
-      process.stdin.pause();
-      sandboxProcess = spawn(config.command, args, {
-        stdio: 'inherit',
-      });
-      return await new Promise((resolve, reject) => {
-        sandboxProcess?.on('error', reject);
-        sandboxProcess?.on('close', (code) => {
-          process.stdin.resume();
-          resolve(code ?? 1);
-        });
-      });
+
+      const profile = (process.env['BWRAP_PROFILE'] ??= 'permissive-open');
+      if (!BUILTIN_BWRAP_PROFILES.includes(profile)) {
+        throw new FatalSandboxError(
+          `Invalid bubblewrap profile '${profile}'. Must be one of ${BUILTIN_BWRAP_PROFILES.join(', ')}`,
+        );
+      }
+      debugLogger.log(`using bubblewrap (profile: ${profile}) ...`);
+      // if DEBUG is set, convert to --inspect-brk in NODE_OPTIONS
+      const nodeOptions = [
+        ...(process.env['DEBUG'] ? ['--inspect-brk'] : []),
+        ...nodeArgs,
+      ].join(' ');
+
+      const targetDir = fs.realpathSync(
+        cliConfig?.getTargetDir() || process.cwd(),
+      );
+      const home = fs.realpathSync(homedir());
+      const writablePaths = [
+        fs.realpathSync(os.tmpdir()),
+        path.join(home, GEMINI_DIR),
+        path.join(home, '.npm'),
+        path.join(home, '.cache'),
+        path.join(home, '.gitconfig'),
+        ...getIncludedDirectories(cliConfig, targetDir),
+      ].filter((writablePath) => fs.existsSync(writablePath));
+
+      const args = [
+        ...getBwrapArgs(profile, targetDir, writablePaths),
+        'sh',
+        '-c',
+        [
+          `SANDBOX=bwrap`,
+          `NODE_OPTIONS="${nodeOptions}"`,
+          ...cliArgs.map((arg) => quote([arg])),
+        ].join(' '),
+      ];
+      return await runHostSandbox(config.command, args);
     }
 
     debugLogger.log(`hopping into sandbox (command: ${config.command}) ...`);
@@ -286,6 +255,17 @@ export async function start_sandbox(
     // mount current directory as working directory in sandbox (set via --workdir)
     args.push('--volume', `${workdir}:${containerWorkdir}`);
 
+    // mount the main repository's git directory for a worktree session, since
+    // the worktree's index and refs live there
+    const worktree = cliConfig?.getWorktreeService();
+    if (worktree) {
+      const { gitCommonDir } = worktree.session;
+      args.push(
+        '--volume',
+        `${gitCommonDir}:${getContainerPath(gitCommonDir)}`,
+      );
+    }
+
     // mount user settings directory inside container, after creating if missing
     // note user/home changes inside sandbox and we mount at BOTH paths for consistency
     const userHomeDirOnHost = homedir();
@@ -519,11 +499,12 @@ export async function start_sandbox(
       args.push('--env', `COLORTERM=${process.env['COLORTERM']}`);
     }
 
-    // Pass through IDE mode environment variables
+    // Pass through IDE mode and worktree session environment variables
     for (const envVar of [
       'GEMINI_CLI_IDE_SERVER_PORT',
       'GEMINI_CLI_IDE_WORKSPACE_PATH',
       'TERM_PROGRAM',
+      WORKTREE_SESSION_ENV_VAR,
     ]) {
       if (process.env[envVar]) {
         args.push('--env', `${envVar}=${process.env[envVar]}`);
@@ -717,6 +698,117 @@ export async function start_sandbox(
 }
 
 // Helper functions to ensure sandbox image is present
+/**
+ * Returns the real paths of the workspace directories other than the target
+ * directory, and of any other directories the session needs to write to.
+ */
+function getIncludedDirectories(
+  cliConfig: Config | undefined,
+  targetDir: string,
+): string[] {
+  const includedDirs: string[] = [];
+  if (cliConfig) {
+    const workspaceContext = cliConfig.getWorkspaceContext();
+    const directories = workspaceContext.getDirectories();
+
+    // Filter out TARGET_DIR
+    for (const dir of directories) {
+      const realDir = fs.realpathSync(dir);
+      if (realDir !== targetDir) {
+        includedDirs.push(realDir);
+      }
+    }
+
+    // A worktree keeps its index and refs in the main repository's git
+    // directory, which git commands in the worktree need to write to.
+    const worktree = cliConfig.getWorktreeService();
+    if (worktree) {
+      includedDirs.push(worktree.session.gitCommonDir);
+    }
+  }
+  return includedDirs;
+}
+
+/**
+ * Runs a sandbox command on the host with the given arguments, starting the
+ * proxy first if GEMINI_SANDBOX_PROXY_COMMAND is set.
+ */
+async function runHostSandbox(
+  command: string,
+  args: string[],
+): Promise<number> {
+  // start and set up proxy if GEMINI_SANDBOX_PROXY_COMMAND is set
+  const proxyCommand = process.env['GEMINI_SANDBOX_PROXY_COMMAND'];
+  let proxyProcess: ChildProcess | undefined = undefined;
+  let sandboxProcess: ChildProcess | undefined = undefined;
+  const sandboxEnv = { ...process.env };
+  if (proxyCommand) {
+    const proxy =
+      process.env['HTTPS_PROXY'] ||
+      process.env['https_proxy'] ||
+      process.env['HTTP_PROXY'] ||
+      process.env['http_proxy'] ||
+      'http://localhost:8877';
+    sandboxEnv['HTTPS_PROXY'] = proxy;
+    sandboxEnv['https_proxy'] = proxy; // lower-case can be required, e.g. for curl
+    sandboxEnv['HTTP_PROXY'] = proxy;
+    sandboxEnv['http_proxy'] = proxy;
+    const noProxy = process.env['NO_PROXY'] || process.env['no_proxy'];
+    if (noProxy) {
+      sandboxEnv['NO_PROXY'] = noProxy;
+      sandboxEnv['no_proxy'] = noProxy;
+    }
+    proxyProcess = spawn(proxyCommand, {
+      stdio: ['ignore', 'pipe', 'pipe'],
+      shell: true,
+      detached: true,
+    });
+    // install handlers to stop proxy on exit/signal
+    const stopProxy = () => {
+      debugLogger.log('stopping proxy ...');
+      if (proxyProcess?.pid) {
+        process.kill(-proxyProcess.pid, 'SIGTERM');
+      }
+    };
+    process.on('exit', stopProxy);
+    process.on('SIGINT', stopProxy);
+    process.on('SIGTERM', stopProxy);
+
+    // commented out as it disrupts ink rendering
+    // proxyProcess.stdout?.on('data', (data) => {
+    //   console.info(data.toString());
+    // });
+    proxyProcess.stderr?.on('data', (data) => {
+      debugLogger.debug(`[PROXY STDERR]: ${data.toString().trim()}`);
+    });
+    proxyProcess.on('close', (code, signal) => {
+      if (sandboxProcess?.pid) {
+        process.kill(-sandboxProcess.pid, 'SIGTERM');
+      }
+      throw new FatalSandboxError(
+        `Proxy command '${proxyCommand}' exited with code ${code}, signal ${signal}`,
+      );
+    });
+    debugLogger.log('waiting for proxy to start ...');
+    await execAsync(
+      `until timeout 0.25 curl -s http://localhost:8877; do sleep 0.25; done`,
+    );
+  }
+  // spawn child and let it inherit stdio
+  process.stdin.pause();
+  sandboxProcess = spawn(command, args, {
+    stdio: 'inherit',
+    env: sandboxEnv,
+  });
+  return new Promise((resolve, reject) => {
+    sandboxProcess?.on('error', reject);
+    sandboxProcess?.on('close', (code) => {
+      process.stdin.resume();
+      resolve(code ?? 1);
+    });
+  });
+}
+
 async function imageExists(sandbox: string, image: string): Promise<boolean> {
   return new Promise((resolve) => {
     const args = ['images', '-q', image];
@@ -821,7 +913,7 @@ async function pullImage(
   });
 }
 
-async function ensureSandboxImageIsPresent(
+export async function ensureSandboxImageIsPresent(
   sandbox: string,
   image: string,
   cliConfig?: Config,
@@ -13,6 +13,7 @@ import {
   parseImageName,
   ports,
   entrypoint,
+  getBwrapArgs,
   shouldUseCurrentUserInSandbox,
 } from './sandboxUtils.js';
 
@@ -42,6 +43,57 @@ describe('sandboxUtils', () => {
     process.env = originalEnv;
   });
 
+  describe('getBwrapArgs', () => {
+    it('should mount the filesystem read-only and the writable paths read-write', () => {
+      expect(
+        getBwrapArgs('permissive-open', '/work/project', [
+          '/tmp',
+          '/work/project',
+        ]),
+      ).toEqual([
+        '--die-with-parent',
+        '--ro-bind',
+        '/',
+        '/',
+        '--dev-bind',
+        '/dev',
+        '/dev',
+        '--bind',
+        '/work/project',
+        '/work/project',
+        '--bind',
+        '/tmp',
+        '/tmp',
+        '--chdir',
+        '/work/project',
+      ]);
+    });
+
+    it('should isolate processes and /dev in restrictive profiles', () => {
+      const args = getBwrapArgs('restrictive-open', '/work/project', []);
+      expect(args).toEqual(
+        expect.arrayContaining([
+          '--unshare-pid',
+          '--unshare-ipc',
+          '--unshare-uts',
+          '--dev',
+          '--proc',
+        ]),
+      );
+      expect(args).not.toContain('--dev-bind');
+      expect(args).not.toContain('--unshare-net');
+    });
+
+    it('should only unshare the network in closed profiles', () => {
+      expect(getBwrapArgs('permissive-closed', '/work/project', [])).toContain(
+        '--unshare-net',
+      );
+      expect(
+        getBwrapArgs('restrictive-proxied', '/work/project', []),
+      ).not.toContain('--unshare-net');
+    });
+  });
+
   describe('getContainerPath', () => {
     it('should return same path on non-Windows', () => {
       vi.mocked(os.platform).mockReturnValue('linux');
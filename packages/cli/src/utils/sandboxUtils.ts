@@ -22,6 +22,53 @@ export const BUILTIN_SEATBELT_PROFILES = [
   'restrictive-proxied',
 ];
 
+export const BUILTIN_BWRAP_PROFILES = [
+  'permissive-open',
+  'permissive-closed',
+  'permissive-proxied',
+  'restrictive-open',
+  'restrictive-closed',
+  'restrictive-proxied',
+];
+
+/**
+ * Builds the bubblewrap arguments for a built-in profile. The host filesystem
+ * is mounted read-only, with the target directory and `writablePaths` mounted
+ * read-write on top of it. Restrictive profiles also isolate processes, IPC
+ * and the hostname and only expose a minimal /dev. Closed profiles get their
+ * own network namespace with only a loopback interface.
+ */
+export function getBwrapArgs(
+  profile: string,
+  targetDir: string,
+  writablePaths: string[],
+): string[] {
+  const [mode, network] = profile.split('-');
+  const args = ['--die-with-parent', '--ro-bind', '/', '/'];
+  if (mode === 'restrictive') {
+    args.push(
+      '--unshare-pid',
+      '--unshare-ipc',
+      '--unshare-uts',
+      '--unshare-cgroup-try',
+      '--dev',
+      '/dev',
+      '--proc',
+      '/proc',
+    );
+  } else {
+    args.push('--dev-bind', '/dev', '/dev');
+  }
+  if (network === 'closed') {
+    args.push('--unshare-net');
+  }
+  for (const writablePath of new Set([targetDir, ...writablePaths])) {
+    args.push('--bind', writablePath, writablePath);
+  }
+  args.push('--chdir', targetDir);
+  return args;
+}
+
 export function getContainerPath(hostPath: string): string {
   if (os.platform() !== 'win32') {
     return hostPath;
@@ -341,6 +341,68 @@ describe('SessionSelector', () => {
     );
   });
 
+  it('should resolve a message to fork at with session@message', async () => {
+    const sessionId1 = randomUUID();
+
+    const chatsDir = path.join(tmpDir, 'chats');
+    await fs.mkdir(chatsDir, { recursive: true });
+
+    const session1 = {
+      sessionId: sessionId1,
+      projectHash: 'test-hash',
+      startTime: '2024-01-01T10:00:00.000Z',
+      lastUpdated: '2024-01-01T10:30:00.000Z',
+      messages: [
+        {
+          type: 'user',
+          content: 'First prompt',
+          id: 'msg1',
+          timestamp: '2024-01-01T10:00:00.000Z',
+        },
+        {
+          type: 'gemini',
+          content: 'First response',
+          id: 'msg2',
+          timestamp: '2024-01-01T10:01:00.000Z',
+        },
+        {
+          type: 'user',
+          content: 'Second prompt',
+          id: 'msg3',
+          timestamp: '2024-01-01T10:02:00.000Z',
+        },
+      ],
+    };
+
+    await fs.writeFile(
+      path.join(
+        chatsDir,
+        `${SESSION_FILE_PREFIX}2024-01-01T10-00-${sessionId1.slice(0, 8)}.json`,
+      ),
+      JSON.stringify(session1, null, 2),
+    );
+
+    const sessionSelector = new SessionSelector(config);
+
+    // Prompt numbers count only user messages
+    const byNumber = await sessionSelector.resolveSession('1@2');
+    expect(byNumber.sessionData.sessionId).toBe(sessionId1);
+    expect(byNumber.forkAtMessageId).toBe('msg3');
+
+    const byId = await sessionSelector.resolveSession(`${sessionId1}@msg2`);
+    expect(byId.forkAtMessageId).toBe('msg2');
+
+    const plain = await sessionSelector.resolveSession('1');
+    expect(plain.forkAtMessageId).toBeUndefined();
+
+    await expect(sessionSelector.resolveSession('1@3')).rejects.toMatchObject({
+      code: 'INVALID_MESSAGE_IDENTIFIER',
+    });
+    await expect(sessionSelector.resolveSession('2@1')).rejects.toThrow(
+      SessionError,
+    );
+  });
+
   it('should not list sessions with only system messages', async () => {
     const sessionIdWithUser = randomUUID();
     const sessionIdSystemOnly = randomUUID();
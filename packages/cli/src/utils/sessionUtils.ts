@@ -33,7 +33,8 @@ export const RESUME_LATEST = 'latest';
  */
 export type SessionErrorCode =
   | 'NO_SESSIONS_FOUND'
-  | 'INVALID_SESSION_IDENTIFIER';
+  | 'INVALID_SESSION_IDENTIFIER'
+  | 'INVALID_MESSAGE_IDENTIFIER';
 
 /**
  * Error thrown for session-related failures.
@@ -67,6 +68,20 @@ export class SessionError extends Error {
       `Invalid session identifier "${identifier}".\n  Use --list-sessions to see available sessions, then use --resume {number}, --resume {uuid}, or --resume latest.`,
     );
   }
+
+  /**
+   * Creates an error for when a message reference does not match a message
+   * in the session.
+   */
+  static invalidMessageIdentifier(
+    identifier: string,
+    sessionId: string,
+  ): SessionError {
+    return new SessionError(
+      'INVALID_MESSAGE_IDENTIFIER',
+      `Invalid message "${identifier}" for session ${sessionId}.\n  Use --resume {session}@{prompt number} to fork a session before one of its prompts, counting from 1.`,
+    );
+  }
 }
 
 /**
@@ -117,6 +132,10 @@ export interface SessionInfo {
   matchSnippets?: TextMatch[];
   /** Total number of matches found in this session */
   matchCount?: number;
+  /** ID of the session this session was forked from */
+  parentSessionId?: string;
+  /** Depth of the session in the tree of forks (0 for sessions that are not forks) */
+  forkDepth?: number;
 }
 
 /**
@@ -136,6 +155,11 @@ export interface SessionSelectionResult {
   sessionPath: string;
   sessionData: ConversationRecord;
   displayInfo: string;
+  /**
+   * ID of the message to fork the session before, when the resume argument
+   * names one with `<session>@<message>`.
+   */
+  forkAtMessageId?: string;
 }
 
 /**
@@ -317,6 +341,7 @@ export const getAllSessionFiles = async (
             summary: content.summary,
             fullContent,
             messages,
+            parentSessionId: content.parentSessionId,
           };
 
           return { fileName: file, sessionInfo };
@@ -388,6 +413,38 @@ export const getSessionFiles = async (
   return uniqueSessions;
 };
 
+/**
+ * Finds the message a message reference points to: a prompt number (1-based,
+ * counting only the user's prompts) or a message ID.
+ *
+ * @throws {SessionError} if the reference does not match a message.
+ */
+const findMessageId = (
+  conversation: ConversationRecord,
+  identifier: string,
+): string => {
+  const byId = conversation.messages.find((msg) => msg.id === identifier);
+  if (byId) {
+    return byId.id;
+  }
+
+  const prompts = conversation.messages.filter((msg) => msg.type === 'user');
+  const index = parseInt(identifier, 10);
+  if (
+    !isNaN(index) &&
+    index.toString() === identifier &&
+    index > 0 &&
+    index <= prompts.length
+  ) {
+    return prompts[index - 1].id;
+  }
+
+  throw SessionError.invalidMessageIdentifier(
+    identifier,
+    conversation.sessionId,
+  );
+};
+
 /**
  * Utility class for session discovery and selection.
  */
@@ -450,10 +507,24 @@ export class SessionSelector {
   /**
    * Resolves a resume argument to a specific session.
    *
-   * @param resumeArg - Can be "latest", a full UUID, or an index number (1-based)
+   * @param resumeArg - Can be "latest", a full UUID, or an index number (1-based),
+   *   optionally followed by `@` and a message to fork the session before: a
+   *   prompt number (1-based) or a message ID
    * @returns Promise resolving to session selection result
    */
   async resolveSession(resumeArg: string): Promise<SessionSelectionResult> {
+    const separator = resumeArg.indexOf('@');
+    if (separator !== -1) {
+      const result = await this.resolveSession(resumeArg.slice(0, separator));
+      return {
+        ...result,
+        forkAtMessageId: findMessageId(
+          result.sessionData,
+          resumeArg.slice(separator + 1),
+        ),
+      };
+    }
+
     let selectedSession: SessionInfo;
 
     if (resumeArg === RESUME_LATEST) {
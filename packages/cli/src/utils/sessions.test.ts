@@ -329,6 +329,50 @@ describe('listSessions', () => {
       expect.stringContaining('How do I add dark mode to my React application'),
     );
   });
+
+  it('should show which session a fork was forked from', async () => {
+    // Arrange
+    const mockSessions: SessionInfo[] = [
+      {
+        id: 'fork-session',
+        file: 'session-fork',
+        fileName: 'session-fork.json',
+        startTime: '2025-01-20T11:00:00.000Z',
+        lastUpdated: '2025-01-20T11:30:00.000Z',
+        messageCount: 2,
+        displayName: 'Fork',
+        firstUserMessage: 'Fork',
+        isCurrentSession: false,
+        index: 1,
+        parentSessionId: 'parent-session',
+      },
+      {
+        id: 'parent-session',
+        file: 'session-parent',
+        fileName: 'session-parent.json',
+        startTime: '2025-01-20T10:00:00.000Z',
+        lastUpdated: '2025-01-20T10:30:00.000Z',
+        messageCount: 4,
+        displayName: 'Parent',
+        firstUserMessage: 'Parent',
+        isCurrentSession: false,
+        index: 2,
+      },
+    ];
+
+    mockListSessions.mockResolvedValue(mockSessions);
+
+    // Act
+    await listSessions(mockConfig);
+
+    // Assert: The parent is listed first, so the fork refers to it as 1
+    expect(mocks.writeToStdout).toHaveBeenCalledWith(
+      expect.stringMatching(/^ {2}2\. Fork \(.*, fork of 1\) \[fork-session\]/),
+    );
+    expect(mocks.writeToStdout).toHaveBeenCalledWith(
+      expect.stringMatching(/^ {2}1\. Parent \([^,]*\) \[parent-session\]/),
+    );
+  });
 });
 
 describe('deleteSession', () => {
@@ -33,22 +33,27 @@ export async function listSessions(config: Config): Promise<void> {
     `\nAvailable sessions for this project (${sessions.length}):\n`,
   );
 
-  sessions
-    .sort(
-      (a, b) =>
-        new Date(a.startTime).getTime() - new Date(b.startTime).getTime(),
-    )
-    .forEach((session, index) => {
-      const current = session.isCurrentSession ? ', current' : '';
-      const time = formatRelativeTime(session.lastUpdated);
-      const title =
-        session.displayName.length > 100
-          ? session.displayName.slice(0, 97) + '...'
-          : session.displayName;
-      writeToStdout(
-        `  ${index + 1}. ${title} (${time}${current}) [${session.id}]\n`,
-      );
-    });
+  sessions.sort(
+    (a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime(),
+  );
+  const indexById = new Map(
+    sessions.map((session, index) => [session.id, index + 1]),
+  );
+  sessions.forEach((session, index) => {
+    const current = session.isCurrentSession ? ', current' : '';
+    const parentIndex = session.parentSessionId
+      ? indexById.get(session.parentSessionId)
+      : undefined;
+    const fork = parentIndex ? `, fork of ${parentIndex}` : '';
+    const time = formatRelativeTime(session.lastUpdated);
+    const title =
+      session.displayName.length > 100
+        ? session.displayName.slice(0, 97) + '...'
+        : session.displayName;
+    writeToStdout(
+      `  ${index + 1}. ${title} (${time}${current}${fork}) [${session.id}]\n`,
+    );
+  });
 }
 
 export async function deleteSession(
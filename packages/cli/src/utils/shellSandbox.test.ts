@@ -0,0 +1,182 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFile } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createShellSandbox } from './shellSandbox.js';
+import { ensureSandboxImageIsPresent } from './sandbox.js';
+
+vi.mock('node:child_process', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:child_process')>();
+  return {
+    ...actual,
+    execFile: vi.fn(
+      (
+        _file: string,
+        _args: string[],
+        callback: (error: Error | null, result: { stdout: string }) => void,
+      ) => callback(null, { stdout: '' }),
+    ),
+  };
+});
+
+vi.mock('./sandbox.js', () => ({
+  ensureSandboxImageIsPresent: vi.fn().mockResolvedValue(true),
+}));
+
+vi.mock('./sandboxUtils.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./sandboxUtils.js')>();
+  return {
+    ...actual,
+    shouldUseCurrentUserInSandbox: vi.fn().mockResolvedValue(false),
+  };
+});
+
+describe('createShellSandbox', () => {
+  let workspace: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    workspace = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'shell-sandbox-test-')),
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+    vi.unstubAllEnvs();
+  });
+
+  describe('docker', () => {
+    const config = { command: 'docker' as const, image: 'sandbox-image' };
+
+    it('should start one container and run every command in it', async () => {
+      const sandbox = createShellSandbox(config, workspace, []);
+
+      const first = await sandbox.wrap('bash', ['-c', 'ls'], workspace, true);
+      await sandbox.wrap('bash', ['-c', 'pwd'], workspace, false);
+
+      expect(ensureSandboxImageIsPresent).toHaveBeenCalledWith(
+        'docker',
+        'sandbox-image',
+      );
+      const runCalls = vi
+        .mocked(execFile)
+        .mock.calls.filter(([, args]) => args?.[0] === 'run');
+      expect(runCalls).toHaveLength(1);
+      const runArgs = runCalls[0][1] as string[];
+      const containerName = runArgs[runArgs.indexOf('--name') + 1];
+      expect(containerName).toMatch(/^gemini-shell-/);
+      expect(runArgs).toContain(`${workspace}:${workspace}`);
+      expect(runArgs.slice(-4)).toEqual([
+        '--entrypoint',
+        'sleep',
+        'sandbox-image',
+        'infinity',
+      ]);
+
+      expect(first.executable).toBe('docker');
+      expect(first.args.slice(0, 5)).toEqual([
+        'exec',
+        '-i',
+        '-t',
+        '--workdir',
+        workspace,
+      ]);
+      const commandArgs = first.args.slice(first.args.indexOf(containerName));
+      expect(commandArgs).toEqual([
+        containerName,
+        'sh',
+        '-c',
+        'echo $$ > "$0" && exec "$@"',
+        expect.stringMatching(/^\/tmp\/gemini-shell-\w+\.pid$/),
+        'bash',
+        '-c',
+        'ls',
+      ]);
+    });
+
+    it('should stop the process group of a command inside the container', async () => {
+      const sandbox = createShellSandbox(config, workspace, []);
+      const { args, kill } = await sandbox.wrap(
+        'bash',
+        ['-c', 'npm run dev'],
+        workspace,
+        false,
+      );
+      const pidFile = args[args.indexOf('bash') - 1];
+
+      await kill!();
+
+      const [file, killArgs] = vi.mocked(execFile).mock.lastCall!;
+      expect(file).toBe('docker');
+      expect(killArgs).toEqual([
+        'exec',
+        expect.stringMatching(/^gemini-shell-/),
+        'sh',
+        '-c',
+        expect.stringContaining('kill -TERM -- -$pid'),
+        pidFile,
+      ]);
+    });
+
+    it('should remove the container on dispose only if it was started', async () => {
+      const sandbox = createShellSandbox(config, workspace, []);
+      await sandbox.dispose();
+      expect(execFile).not.toHaveBeenCalled();
+
+      await sandbox.wrap('bash', ['-c', 'ls'], workspace, false);
+      await sandbox.dispose();
+      expect(execFile).toHaveBeenLastCalledWith(
+        'docker',
+        ['rm', '-f', expect.stringMatching(/^gemini-shell-/)],
+        expect.any(Function),
+      );
+    });
+
+    it('should fail the command if the image is missing', async () => {
+      vi.mocked(ensureSandboxImageIsPresent).mockResolvedValueOnce(false);
+      const sandbox = createShellSandbox(config, workspace, []);
+
+      await expect(
+        sandbox.wrap('bash', ['-c', 'ls'], workspace, false),
+      ).rejects.toThrow("Sandbox image 'sandbox-image' is missing");
+    });
+  });
+
+  describe('bwrap', () => {
+    const config = { command: 'bwrap' as const, image: '' };
+
+    it('should wrap each command in bubblewrap with the workspace writable', async () => {
+      vi.stubEnv('BWRAP_PROFILE', 'restrictive-closed');
+      const sandbox = createShellSandbox(config, workspace, []);
+      const cwd = path.join(workspace, 'src');
+      fs.mkdirSync(cwd);
+
+      const { executable, args } = await sandbox.wrap(
+        'bash',
+        ['-c', 'ls'],
+        cwd,
+        false,
+      );
+
+      expect(executable).toBe('bwrap');
+      expect(args).toContain('--unshare-net');
+      expect(args.join(' ')).toContain(`--bind ${workspace} ${workspace}`);
+      expect(args.join(' ')).toContain(`--chdir ${cwd} bash -c ls`);
+    });
+
+    it('should reject an unknown profile', () => {
+      vi.stubEnv('BWRAP_PROFILE', 'unknown');
+      expect(() => createShellSandbox(config, workspace, [])).toThrow(
+        "Invalid bubblewrap profile 'unknown'",
+      );
+    });
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { execFile } from 'node:child_process';
+import path from 'node:path';
+import fs from 'node:fs';
+import os from 'node:os';
+import { fileURLToPath } from 'node:url';
+import { promisify } from 'node:util';
+import { randomBytes } from 'node:crypto';
+import type {
+  SandboxConfig,
+  SandboxedCommand,
+  ShellSandbox,
+} from '@google/gemini-cli-core';
+import {
+  debugLogger,
+  FatalSandboxError,
+  GEMINI_DIR,
+  homedir,
+} from '@google/gemini-cli-core';
+import {
+  BUILTIN_BWRAP_PROFILES,
+  BUILTIN_SEATBELT_PROFILES,
+  getBwrapArgs,
+  getContainerPath,
+  shouldUseCurrentUserInSandbox,
+} from './sandboxUtils.js';
+import { ensureSandboxImageIsPresent } from './sandbox.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Runs shell commands in a long-lived container that has the workspace
+ * directories mounted at the same paths. The container is started on the
+ * first command and reused until the session ends.
+ */
+class ContainerShellSandbox implements ShellSandbox {
+  readonly name: string;
+  private readonly containerName = `gemini-shell-${randomBytes(4).toString('hex')}`;
+  private starting: Promise<void> | undefined;
+
+  constructor(
+    private readonly command: 'docker' | 'podman',
+    private readonly image: string,
+    private readonly directories: string[],
+  ) {
+    this.name = command;
+  }
+
+  private async start(): Promise<void> {
+    if (!(await ensureSandboxImageIsPresent(this.command, this.image))) {
+      throw new FatalSandboxError(
+        `Sandbox image '${this.image}' is missing or could not be pulled.`,
+      );
+    }
+
+    // run init binary inside container to forward signals & reap zombies
+    const args = ['run', '-d', '--rm', '--init', '--name', this.containerName];
+    // the shell tool writes background process ids to a file in the temp dir
+    for (const dir of new Set([...this.directories, os.tmpdir()])) {
+      args.push('--volume', `${dir}:${getContainerPath(dir)}`);
+    }
+    if (await shouldUseCurrentUserInSandbox()) {
+      const uid = (await execFileAsync('id', ['-u'])).stdout.trim();
+      const gid = (await execFileAsync('id', ['-g'])).stdout.trim();
+      args.push('--user', `${uid}:${gid}`, '--env', `HOME=${homedir()}`);
+    }
+    args.push('--entrypoint', 'sleep', this.image, 'infinity');
+
+    debugLogger.log(
+      `starting shell sandbox container ${this.containerName} ...`,
+    );
+    await execFileAsync(this.command, args);
+  }
+
+  async wrap(
+    executable: string,
+    args: string[],
+    cwd: string,
+    tty: boolean,
+  ): Promise<SandboxedCommand> {
+    this.starting ??= this.start();
+    try {
+      await this.starting;
+    } catch (error) {
+      // Try again on the next command.
+      this.starting = undefined;
+      throw error;
+    }
+    const pidFile = `/tmp/gemini-shell-${randomBytes(4).toString('hex')}.pid`;
+
+    return {
+      executable: this.command,
+      args: [
+        'exec',
+        '-i',
+        ...(tty ? ['-t'] : []),
+        '--workdir',
+        getContainerPath(cwd),
+        '--env',
+        'GEMINI_CLI=1',
+        '--env',
+        'TERM=xterm-256color',
+        '--env',
+        'PAGER=cat',
+        '--env',
+        'GIT_PAGER=cat',
+        this.containerName,
+        // The exec'd process leads its own process group. Record its id so
+        // that kill() can stop the group, which outlives the local exec
+        // client when that is killed.
+        'sh',
+        '-c',
+        'echo $$ > "$0" && exec "$@"',
+        pidFile,
+        executable,
+        ...args,
+      ],
+      kill: () => this.kill(pidFile),
+    };
+  }
+
+  private async kill(pidFile: string): Promise<void> {
+    const script = [
+      'pid=$(cat "$0" 2>/dev/null) || exit 0',
+      'kill -TERM -- -$pid 2>/dev/null || kill -TERM $pid 2>/dev/null',
+      'sleep 0.2',
+      'kill -KILL -- -$pid 2>/dev/null',
+      'rm -f "$0"',
+    ].join('; ');
+    try {
+      await execFileAsync(this.command, [
+        'exec',
+        this.containerName,
+        'sh',
+        '-c',
+        script,
+        pidFile,
+      ]);
+    } catch (error) {
+      debugLogger.warn(
+        `Failed to stop command in shell sandbox container ${this.containerName}: ${error}`,
+      );
+    }
+  }
+
+  async dispose(): Promise<void> {
+    if (!this.starting) {
+      return;
+    }
+    this.starting = undefined;
+    try {
+      await execFileAsync(this.command, ['rm', '-f', this.containerName]);
+    } catch (error) {
+      debugLogger.warn(
+        `Failed to remove shell sandbox container ${this.containerName}: ${error}`,
+      );
+    }
+  }
+}
+
+/**
+ * Runs each shell command in its own bubblewrap sandbox.
+ */
+class BwrapShellSandbox implements ShellSandbox {
+  readonly name = 'bwrap';
+
+  constructor(
+    private readonly profile: string,
+    private readonly writablePaths: string[],
+  ) {}
+
+  async wrap(
+    executable: string,
+    args: string[],
+    cwd: string,
+  ): Promise<SandboxedCommand> {
+    return {
+      executable: 'bwrap',
+      args: [
+        ...getBwrapArgs(this.profile, cwd, this.writablePaths),
+        executable,
+        ...args,
+      ],
+    };
+  }
+
+  async dispose(): Promise<void> {}
+}
+
+/**
+ * Runs each shell command under a macOS Seatbelt profile.
+ */
+class SeatbeltShellSandbox implements ShellSandbox {
+  readonly name = 'sandbox-exec';
+  private profileArgs: Promise<string[]> | undefined;
+
+  constructor(
+    private readonly profileFile: string,
+    private readonly targetDir: string,
+    private readonly includedDirs: string[],
+  ) {}
+
+  private async getProfileArgs(): Promise<string[]> {
+    const cacheDir = (
+      await execFileAsync('getconf', ['DARWIN_USER_CACHE_DIR'])
+    ).stdout.trim();
+    const args = [
+      '-D',
+      `TARGET_DIR=${this.targetDir}`,
+      '-D',
+      `TMP_DIR=${fs.realpathSync(os.tmpdir())}`,
+      '-D',
+      `HOME_DIR=${fs.realpathSync(homedir())}`,
+      '-D',
+      `CACHE_DIR=${fs.realpathSync(cacheDir)}`,
+    ];
+    // The profiles always reference 5 INCLUDE_DIR parameters.
+    for (let i = 0; i < 5; i++) {
+      args.push(
+        '-D',
+        `INCLUDE_DIR_${i}=${this.includedDirs[i] ?? '/dev/null'}`,
+      );
+    }
+    return [...args, '-f', this.profileFile];
+  }
+
+  async wrap(executable: string, args: string[]): Promise<SandboxedCommand> {
+    this.profileArgs ??= this.getProfileArgs();
+    return {
+      executable: 'sandbox-exec',
+      args: [...(await this.profileArgs), executable, ...args],
+    };
+  }
+
+  async dispose(): Promise<void> {}
+}
+
+/**
+ * Creates the sandbox that shell commands run in when only shell commands
+ * are sandboxed and the CLI itself runs on the host. `directories` are the
+ * workspace directories, which commands can write to.
+ */
+export function createShellSandbox(
+  config: SandboxConfig,
+  targetDir: string,
+  directories: string[],
+): ShellSandbox {
+  const realTargetDir = fs.realpathSync(targetDir);
+  const realDirectories = [
+    ...new Set(
+      [realTargetDir, ...directories]
+        .filter((dir) => fs.existsSync(dir))
+        .map((dir) => fs.realpathSync(dir)),
+    ),
+  ];
+
+  switch (config.command) {
+    case 'docker':
+    case 'podman':
+      return new ContainerShellSandbox(
+        config.command,
+        config.image,
+        realDirectories,
+      );
+    case 'bwrap': {
+      const profile = process.env['BWRAP_PROFILE'] ?? 'permissive-open';
+      if (!BUILTIN_BWRAP_PROFILES.includes(profile)) {
+        throw new FatalSandboxError(
+          `Invalid bubblewrap profile '${profile}'. Must be one of ${BUILTIN_BWRAP_PROFILES.join(', ')}`,
+        );
+      }
+      const home = fs.realpathSync(homedir());
+      const writablePaths = [
+        fs.realpathSync(os.tmpdir()),
+        path.join(home, '.npm'),
+        path.join(home, '.cache'),
+        ...realDirectories,
+      ].filter((writablePath) => fs.existsSync(writablePath));
+      return new BwrapShellSandbox(profile, writablePaths);
+    }
+    case 'sandbox-exec': {
+      const profile = process.env['SEATBELT_PROFILE'] ?? 'permissive-open';
+      const profileFile = BUILTIN_SEATBELT_PROFILES.includes(profile)
+        ? fileURLToPath(new URL(`sandbox-macos-${profile}.sb`, import.meta.url))
+        : path.join(GEMINI_DIR, `sandbox-macos-${profile}.sb`);
+      if (!fs.existsSync(profileFile)) {
+        throw new FatalSandboxError(
+          `Missing macos seatbelt profile file '${profileFile}'`,
+        );
+      }
+      return new SeatbeltShellSandbox(
+        profileFile,
+        realTargetDir,
+        realDirectories.filter((dir) => dir !== realTargetDir),
+      );
+    }
+    default:
+      throw new FatalSandboxError(
+        `Unsupported sandbox command: ${config.command}`,
+      );
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { WorktreeService, type WorktreeSession } from '@google/gemini-cli-core';
+import type { CliArgs } from '../config/config.js';
+
+/**
+ * Carries the worktree session from the process that created it to the
+ * relaunched or sandboxed process that runs the app, so that the worktree is
+ * created only once.
+ */
+export const WORKTREE_SESSION_ENV_VAR = 'GEMINI_CLI_WORKTREE_SESSION';
+
+/**
+ * Sets up the worktree session requested with `--worktree` and changes into
+ * it, so that the workspace, file tools and shell commands all operate on the
+ * worktree. Returns undefined when the session does not use a worktree.
+ */
+export async function setupWorktreeSession(
+  argv: CliArgs,
+  sessionId: string,
+): Promise<WorktreeService | undefined> {
+  const inherited = process.env[WORKTREE_SESSION_ENV_VAR];
+  if (inherited) {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+    return new WorktreeService(JSON.parse(inherited) as WorktreeSession);
+  }
+  if (argv.worktree === undefined) {
+    return undefined;
+  }
+
+  const worktree = await WorktreeService.create(
+    process.cwd(),
+    argv.worktree || `session-${sessionId.slice(0, 8)}`,
+  );
+  process.env[WORKTREE_SESSION_ENV_VAR] = JSON.stringify(worktree.session);
+  process.chdir(worktree.session.workingDir);
+  return worktree;
+}
@@ -59,6 +59,7 @@ import { getVersion } from '../utils/version.js';
 import { getToolCallContext } from '../utils/toolCallContext.js';
 import { scheduleAgentTools } from './agent-scheduler.js';
 import { DeadlineTimer } from '../utils/deadlineTimer.js';
+import { RUN_AGENTS_IN_PARALLEL_TOOL_NAME } from '../tools/tool-names.js';
 
 /** A callback function to report on agent activity. */
 export type ActivityCallback = (activity: SubagentActivityEvent) => void;
@@ -128,7 +129,10 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
     const registerToolByName = (toolName: string) => {
       // Check if the tool is a subagent to prevent recursion.
       // We do not allow agents to call other agents.
-      if (allAgentNames.has(toolName)) {
+      if (
+        allAgentNames.has(toolName) ||
+        toolName === RUN_AGENTS_IN_PARALLEL_TOOL_NAME
+      ) {
         debugLogger.warn(
           `[LocalAgentExecutor] Skipping subagent tool '${toolName}' for agent '${definition.name}' to prevent recursion.`,
         );
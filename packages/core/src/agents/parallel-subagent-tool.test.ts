@@ -0,0 +1,229 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { type z } from 'zod';
+import { ParallelSubagentTool } from './parallel-subagent-tool.js';
+import { LocalAgentExecutor } from './local-executor.js';
+import {
+  AgentTerminateMode,
+  type AgentDefinition,
+  type LocalAgentDefinition,
+} from './types.js';
+import type { AgentRegistry } from './registry.js';
+import type { Config } from '../config/config.js';
+import type { PolicyEngine } from '../policy/policy-engine.js';
+import { PolicyDecision } from '../policy/types.js';
+import { ToolErrorType } from '../tools/tool-error.js';
+import { makeFakeConfig } from '../test-utils/config.js';
+import { createMockMessageBus } from '../test-utils/mock-message-bus.js';
+
+vi.mock('./local-executor.js');
+
+const MockLocalAgentExecutor = vi.mocked(LocalAgentExecutor);
+
+const localAgent: LocalAgentDefinition = {
+  kind: 'local',
+  name: 'investigator',
+  description: 'Investigates a package.',
+  inputConfig: {
+    inputSchema: {
+      type: 'object',
+      properties: { objective: { type: 'string' } },
+      required: ['objective'],
+    },
+  },
+  modelConfig: { model: 'test' },
+  runConfig: { maxTurns: 10, maxTimeMinutes: 5 },
+  promptConfig: { systemPrompt: 'test' },
+};
+
+const remoteAgent: AgentDefinition = {
+  kind: 'remote',
+  name: 'remote',
+  description: 'A remote agent.',
+  agentCardUrl: 'https://example.com/card',
+  inputConfig: { inputSchema: { type: 'object' } },
+};
+
+describe('ParallelSubagentTool', () => {
+  const signal = new AbortController().signal;
+  let config: Config;
+  let policyCheck: ReturnType<typeof vi.fn>;
+  let tool: ParallelSubagentTool;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    config = makeFakeConfig();
+    const definitions: Record<string, AgentDefinition> = {
+      investigator: localAgent,
+      remote: remoteAgent,
+    };
+    vi.spyOn(config, 'getAgentRegistry').mockReturnValue({
+      getDefinition: (name: string) => definitions[name],
+    } as unknown as AgentRegistry);
+    vi.spyOn(config, 'getAgentsSettings').mockReturnValue({
+      parallel: { maxConcurrency: 2, maxTasks: 3 },
+    });
+    policyCheck = vi.fn().mockResolvedValue({
+      decision: PolicyDecision.ALLOW,
+    });
+    vi.spyOn(config, 'getPolicyEngine').mockReturnValue({
+      check: policyCheck,
+    } as unknown as PolicyEngine);
+
+    MockLocalAgentExecutor.create.mockImplementation(
+      async (definition, _config, onActivity) =>
+        ({
+          run: vi.fn(async (inputs: Record<string, unknown>) => {
+            onActivity?.({
+              isSubagentActivityEvent: true,
+              agentName: definition.name,
+              type: 'TOOL_CALL_START',
+              data: { name: 'grep_search' },
+            });
+            return {
+              result: `Report for ${String(inputs['objective'])}`,
+              terminate_reason: AgentTerminateMode.GOAL,
+            };
+          }),
+        }) as unknown as LocalAgentExecutor<z.ZodTypeAny>,
+    );
+
+    tool = new ParallelSubagentTool(config, createMockMessageBus());
+  });
+
+  it('should reject unknown, remote and over-limit tasks', () => {
+    expect(() =>
+      tool.build({ tasks: [{ agent_name: 'missing', inputs: {} }] }),
+    ).toThrow("'missing' is not an available local subagent.");
+    expect(() =>
+      tool.build({ tasks: [{ agent_name: 'remote', inputs: {} }] }),
+    ).toThrow("'remote' is not an available local subagent.");
+    expect(() =>
+      tool.build({ tasks: [{ agent_name: 'investigator', inputs: {} }] }),
+    ).toThrow(/Invalid inputs for agent 'investigator'/);
+
+    const task = { agent_name: 'investigator', inputs: { objective: 'x' } };
+    expect(() => tool.build({ tasks: [task, task, task, task] })).toThrow(
+      'At most 3 tasks can run in a single parallel call, got 4.',
+    );
+  });
+
+  it('should run every task and merge the results', async () => {
+    const updateOutput = vi.fn();
+
+    const result = await tool
+      .build({
+        tasks: [
+          { agent_name: 'investigator', inputs: { objective: 'core' } },
+          { agent_name: 'investigator', inputs: { objective: 'cli' } },
+          { agent_name: 'investigator', inputs: { objective: 'a2a' } },
+        ],
+      })
+      .execute(signal, updateOutput);
+
+    expect(MockLocalAgentExecutor.create).toHaveBeenCalledTimes(3);
+    expect(result.error).toBeUndefined();
+    expect(result.returnDisplay).toContain(
+      'Ran 3 subagents in parallel: 3 succeeded, 0 failed, 0 skipped.',
+    );
+    expect(result.returnDisplay).toContain('Report for core');
+    expect(result.returnDisplay).toContain('Report for a2a');
+    expect(updateOutput).toHaveBeenCalledWith(
+      expect.stringContaining(
+        '◐ 1. investigator (running) — Calling grep_search',
+      ),
+    );
+    expect(updateOutput).toHaveBeenLastCalledWith(
+      expect.stringContaining('✓ 3. investigator (done)'),
+    );
+  });
+
+  it('should not exceed the configured concurrency', async () => {
+    let running = 0;
+    let peak = 0;
+    MockLocalAgentExecutor.create.mockImplementation(
+      async () =>
+        ({
+          run: vi.fn(async () => {
+            running++;
+            peak = Math.max(peak, running);
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            running--;
+            return { result: 'ok', terminate_reason: AgentTerminateMode.GOAL };
+          }),
+        }) as unknown as LocalAgentExecutor<z.ZodTypeAny>,
+    );
+    const task = { agent_name: 'investigator', inputs: { objective: 'x' } };
+
+    await tool.build({ tasks: [task, task, task] }).execute(signal);
+
+    expect(peak).toBe(2);
+  });
+
+  it('should apply per-task budgets without exceeding the agent limits', async () => {
+    await tool
+      .build({
+        tasks: [
+          {
+            agent_name: 'investigator',
+            inputs: { objective: 'x' },
+            max_turns: 3,
+            max_time_minutes: 60,
+          },
+        ],
+      })
+      .execute(signal);
+
+    expect(MockLocalAgentExecutor.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        runConfig: { maxTurns: 3, maxTimeMinutes: 5 },
+      }),
+      config,
+      expect.any(Function),
+    );
+  });
+
+  it('should skip tasks that policy does not allow', async () => {
+    policyCheck.mockImplementation(async ({ args }) => ({
+      decision:
+        args.objective === 'secret'
+          ? PolicyDecision.DENY
+          : PolicyDecision.ALLOW,
+    }));
+
+    const result = await tool
+      .build({
+        tasks: [
+          { agent_name: 'investigator', inputs: { objective: 'secret' } },
+          { agent_name: 'investigator', inputs: { objective: 'public' } },
+        ],
+      })
+      .execute(signal);
+
+    expect(policyCheck).toHaveBeenCalledWith(
+      { name: 'investigator', args: { objective: 'secret' } },
+      undefined,
+    );
+    expect(MockLocalAgentExecutor.create).toHaveBeenCalledTimes(1);
+    expect(result.returnDisplay).toContain('1 succeeded, 0 failed, 1 skipped.');
+    expect(result.returnDisplay).toContain('Error: Denied by policy.');
+  });
+
+  it('should report an error when no task succeeds', async () => {
+    MockLocalAgentExecutor.create.mockRejectedValue(new Error('boom'));
+
+    const result = await tool
+      .build({
+        tasks: [{ agent_name: 'investigator', inputs: { objective: 'x' } }],
+      })
+      .execute(signal);
+
+    expect(result.error?.type).toBe(ToolErrorType.EXECUTION_FAILED);
+    expect(result.returnDisplay).toContain('Error: boom');
+  });
+});
@@ -0,0 +1,396 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Config } from '../config/config.js';
+import type { MessageBus } from '../confirmation-bus/message-bus.js';
+import { PolicyDecision } from '../policy/types.js';
+import { ToolErrorType } from '../tools/tool-error.js';
+import { RUN_AGENTS_IN_PARALLEL_TOOL_NAME } from '../tools/tool-names.js';
+import {
+  BaseDeclarativeTool,
+  BaseToolInvocation,
+  Kind,
+  type ToolInvocation,
+  type ToolResult,
+} from '../tools/tools.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import type { AnsiOutput } from '../utils/terminalSerializer.js';
+import { LocalAgentExecutor } from './local-executor.js';
+import {
+  AgentTerminateMode,
+  DEFAULT_MAX_TIME_MINUTES,
+  DEFAULT_MAX_TURNS,
+  DEFAULT_PARALLEL_AGENTS_MAX_CONCURRENCY,
+  DEFAULT_PARALLEL_AGENTS_MAX_TASKS,
+  type AgentInputs,
+  type LocalAgentDefinition,
+  type OutputObject,
+  type SubagentActivityEvent,
+} from './types.js';
+
+const ACTIVITY_MAX_LENGTH = 80;
+
+/**
+ * A single subagent run requested through the parallel fan-out tool.
+ */
+export interface ParallelAgentTask {
+  agent_name: string;
+  inputs?: AgentInputs;
+  max_turns?: number;
+  max_time_minutes?: number;
+}
+
+export interface ParallelSubagentParams {
+  tasks: ParallelAgentTask[];
+}
+
+type TaskStatus = 'queued' | 'running' | 'done' | 'failed' | 'skipped';
+
+interface TaskState {
+  label: string;
+  task: ParallelAgentTask;
+  status: TaskStatus;
+  activity?: string;
+  output?: OutputObject;
+  error?: string;
+}
+
+const STATUS_ICONS: Record<TaskStatus, string> = {
+  queued: '○',
+  running: '◐',
+  done: '✓',
+  failed: '✗',
+  skipped: '-',
+};
+
+function getParallelLimits(config: Config): {
+  maxConcurrency: number;
+  maxTasks: number;
+} {
+  const settings = config.getAgentsSettings().parallel ?? {};
+  return {
+    maxConcurrency: Math.max(
+      1,
+      settings.maxConcurrency ?? DEFAULT_PARALLEL_AGENTS_MAX_CONCURRENCY,
+    ),
+    maxTasks: Math.max(
+      1,
+      settings.maxTasks ?? DEFAULT_PARALLEL_AGENTS_MAX_TASKS,
+    ),
+  };
+}
+
+function getLocalDefinition(
+  config: Config,
+  name: string,
+): LocalAgentDefinition | undefined {
+  const definition = config.getAgentRegistry().getDefinition(name);
+  return definition?.kind === 'local' ? definition : undefined;
+}
+
+/**
+ * Applies the per-task budget to an agent definition. A task may tighten the
+ * agent's configured limits but never extend them.
+ */
+function applyTaskBudget(
+  definition: LocalAgentDefinition,
+  task: ParallelAgentTask,
+): LocalAgentDefinition {
+  const maxTurns = definition.runConfig.maxTurns ?? DEFAULT_MAX_TURNS;
+  const maxTimeMinutes =
+    definition.runConfig.maxTimeMinutes ?? DEFAULT_MAX_TIME_MINUTES;
+  return {
+    ...definition,
+    runConfig: {
+      ...definition.runConfig,
+      maxTurns: Math.min(task.max_turns ?? maxTurns, maxTurns),
+      maxTimeMinutes: Math.min(
+        task.max_time_minutes ?? maxTimeMinutes,
+        maxTimeMinutes,
+      ),
+    },
+  };
+}
+
+function truncate(text: string): string {
+  const firstLine = text.trim().split('\n')[0] ?? '';
+  return firstLine.length > ACTIVITY_MAX_LENGTH
+    ? `${firstLine.slice(0, ACTIVITY_MAX_LENGTH - 3)}...`
+    : firstLine;
+}
+
+function describeActivity(activity: SubagentActivityEvent): string | undefined {
+  const { data } = activity;
+  switch (activity.type) {
+    case 'THOUGHT_CHUNK':
+      return typeof data['text'] === 'string'
+        ? truncate(data['text'])
+        : undefined;
+    case 'TOOL_CALL_START':
+      return `Calling ${String(data['name'])}`;
+    case 'TOOL_CALL_END':
+      return `Finished ${String(data['name'])}`;
+    case 'ERROR':
+      return `Error: ${truncate(String(data['error']))}`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Renders the combined activity panel: one line per task with its status and
+ * latest activity.
+ */
+function renderParallelActivity(
+  states: ReadonlyArray<{
+    label: string;
+    status: TaskStatus;
+    activity?: string;
+  }>,
+  maxConcurrency: number,
+): string {
+  const lines = states.map((state) => {
+    const detail = state.activity ? ` — ${state.activity}` : '';
+    return `${STATUS_ICONS[state.status]} ${state.label} (${state.status})${detail}`;
+  });
+  return `Running ${states.length} subagents (up to ${maxConcurrency} at a time)\n${lines.join('\n')}\n`;
+}
+
+function formatTaskResult(state: TaskState): string {
+  const header = `## ${state.label}\nStatus: ${state.status}`;
+  if (state.output) {
+    return `${header}\nTermination Reason: ${state.output.terminate_reason}\nResult:\n${state.output.result}`;
+  }
+  return `${header}\nError: ${state.error ?? 'Unknown error'}`;
+}
+
+class ParallelSubagentInvocation extends BaseToolInvocation<
+  ParallelSubagentParams,
+  ToolResult
+> {
+  constructor(
+    params: ParallelSubagentParams,
+    private readonly config: Config,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ) {
+    super(params, messageBus, _toolName, _toolDisplayName);
+  }
+
+  getDescription(): string {
+    const names = this.params.tasks.map((task) => task.agent_name);
+    return `Running ${names.length} subagents in parallel: ${names.join(', ')}`;
+  }
+
+  async execute(
+    signal: AbortSignal,
+    updateOutput?: (output: string | AnsiOutput) => void,
+  ): Promise<ToolResult> {
+    const { maxConcurrency } = getParallelLimits(this.config);
+    const states: TaskState[] = this.params.tasks.map((task, index) => ({
+      label: `${index + 1}. ${task.agent_name}`,
+      task,
+      status: 'queued',
+    }));
+    const render = () =>
+      updateOutput?.(renderParallelActivity(states, maxConcurrency));
+
+    // Every task is checked against the policy engine under the agent's own
+    // tool name. Subagents run unattended here, so anything short of ALLOW is
+    // skipped rather than prompting in the middle of the fan-out.
+    const policyEngine = this.config.getPolicyEngine();
+    for (const state of states) {
+      const { decision } = await policyEngine.check(
+        { name: state.task.agent_name, args: state.task.inputs ?? {} },
+        undefined,
+      );
+      if (decision === PolicyDecision.DENY) {
+        state.status = 'skipped';
+        state.error = 'Denied by policy.';
+      } else if (decision === PolicyDecision.ASK_USER) {
+        state.status = 'skipped';
+        state.error = `Requires user confirmation, which is not available in a parallel run. Call '${state.task.agent_name}' directly instead.`;
+      }
+    }
+    render();
+
+    const runTask = async (state: TaskState): Promise<void> => {
+      const definition = getLocalDefinition(this.config, state.task.agent_name);
+      if (!definition) {
+        state.status = 'failed';
+        state.error = `Agent '${state.task.agent_name}' is no longer available.`;
+        return;
+      }
+
+      state.status = 'running';
+      render();
+      try {
+        const executor = await LocalAgentExecutor.create(
+          applyTaskBudget(definition, state.task),
+          this.config,
+          (activity) => {
+            const description = describeActivity(activity);
+            if (description) {
+              state.activity = description;
+              render();
+            }
+          },
+        );
+        state.output = await executor.run(state.task.inputs ?? {}, signal);
+        state.status =
+          state.output.terminate_reason === AgentTerminateMode.GOAL
+            ? 'done'
+            : 'failed';
+      } catch (error) {
+        state.status = 'failed';
+        state.error = getErrorMessage(error);
+      }
+      state.activity = undefined;
+      render();
+    };
+
+    const pending = states.filter((state) => state.status === 'queued');
+    let next = 0;
+    const worker = async () => {
+      while (next < pending.length) {
+        await runTask(pending[next++]);
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(maxConcurrency, pending.length) }, worker),
+    );
+
+    const count = (status: TaskStatus) =>
+      states.filter((state) => state.status === status).length;
+    const summary = `Ran ${states.length} subagents in parallel: ${count('done')} succeeded, ${count('failed')} failed, ${count('skipped')} skipped.`;
+    const content = [summary, ...states.map(formatTaskResult)].join('\n\n');
+
+    if (count('done') === 0) {
+      return {
+        llmContent: content,
+        returnDisplay: content,
+        error: {
+          message: summary,
+          type: ToolErrorType.EXECUTION_FAILED,
+        },
+      };
+    }
+
+    return {
+      llmContent: [{ text: content }],
+      returnDisplay: content,
+    };
+  }
+}
+
+/**
+ * Fans a batch of tasks out to local subagents, runs them concurrently and
+ * merges their results into a single tool response.
+ *
+ * Each task gets its own {@link LocalAgentExecutor}, and with it an isolated
+ * tool registry and turn/time budget. Concurrency and batch size are bounded
+ * by the `agents.parallel` settings.
+ */
+export class ParallelSubagentTool extends BaseDeclarativeTool<
+  ParallelSubagentParams,
+  ToolResult
+> {
+  static readonly Name = RUN_AGENTS_IN_PARALLEL_TOOL_NAME;
+
+  constructor(
+    private readonly config: Config,
+    messageBus: MessageBus,
+  ) {
+    super(
+      ParallelSubagentTool.Name,
+      'RunAgentsInParallel',
+      `Runs several local subagents at the same time and returns all of their results in one response. Use this instead of calling subagents one after another when the tasks are independent, e.g. investigating several packages or answering unrelated questions. Each task names an agent, the inputs that agent expects, and optionally a tighter turn or time budget.`,
+      Kind.Think,
+      {
+        type: 'object',
+        properties: {
+          tasks: {
+            type: 'array',
+            description: 'The subagent runs to start concurrently.',
+            minItems: 1,
+            items: {
+              type: 'object',
+              properties: {
+                agent_name: {
+                  type: 'string',
+                  description: 'Name of the local subagent to run.',
+                },
+                inputs: {
+                  type: 'object',
+                  description:
+                    "Inputs for the subagent, matching that agent's own parameter schema.",
+                },
+                max_turns: {
+                  type: 'integer',
+                  minimum: 1,
+                  description:
+                    "Optional turn limit for this run. Cannot exceed the agent's configured limit.",
+                },
+                max_time_minutes: {
+                  type: 'number',
+                  exclusiveMinimum: 0,
+                  description:
+                    "Optional time limit in minutes for this run. Cannot exceed the agent's configured limit.",
+                },
+              },
+              required: ['agent_name'],
+            },
+          },
+        },
+        required: ['tasks'],
+      },
+      messageBus,
+      /* isOutputMarkdown */ true,
+      /* canUpdateOutput */ true,
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: ParallelSubagentParams,
+  ): string | null {
+    const { maxTasks } = getParallelLimits(this.config);
+    if (params.tasks.length > maxTasks) {
+      return `At most ${maxTasks} tasks can run in a single parallel call, got ${params.tasks.length}.`;
+    }
+
+    for (const task of params.tasks) {
+      const definition = getLocalDefinition(this.config, task.agent_name);
+      if (!definition) {
+        return `'${task.agent_name}' is not an available local subagent.`;
+      }
+      const inputError = SchemaValidator.validate(
+        definition.inputConfig.inputSchema,
+        task.inputs ?? {},
+      );
+      if (inputError) {
+        return `Invalid inputs for agent '${task.agent_name}': ${inputError}`;
+      }
+    }
+    return null;
+  }
+
+  protected createInvocation(
+    params: ParallelSubagentParams,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ): ToolInvocation<ParallelSubagentParams, ToolResult> {
+    return new ParallelSubagentInvocation(
+      params,
+      this.config,
+      messageBus,
+      _toolName,
+      _toolDisplayName,
+    );
+  }
+}
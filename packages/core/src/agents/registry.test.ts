@@ -678,6 +678,21 @@ describe('AgentRegistry', () => {
       );
     });
 
+    it('should register an ALLOW policy for the parallel fan-out tool on initialize', async () => {
+      const policyEngine = mockConfig.getPolicyEngine();
+      const addRuleSpy = vi.spyOn(policyEngine, 'addRule');
+
+      await registry.initialize();
+
+      expect(addRuleSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          toolName: 'run_agents_in_parallel',
+          decision: PolicyDecision.ALLOW,
+          priority: 1.05,
+        }),
+      );
+    });
+
     it('should dynamically register an ASK_USER policy for remote agents', async () => {
       const remoteAgent: AgentDefinition = {
         kind: 'remote',
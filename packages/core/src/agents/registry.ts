@@ -22,6 +22,7 @@ import {
   ModelConfigService,
 } from '../services/modelConfigService.js';
 import { PolicyDecision, PRIORITY_SUBAGENT_TOOL } from '../policy/types.js';
+import { RUN_AGENTS_IN_PARALLEL_TOOL_NAME } from '../tools/tool-names.js';
 
 /**
  * Returns the model config alias for a given agent definition.
@@ -51,6 +52,13 @@ export class AgentRegistry {
     coreEvents.on(CoreEvent.ModelChanged, this.onModelChanged);
 
     await this.loadAgents();
+
+    // The fan-out tool only runs local agents and checks each task against
+    // that agent's own policy, so the tool itself needs no confirmation.
+    this.addDynamicToolPolicy(
+      RUN_AGENTS_IN_PARALLEL_TOOL_NAME,
+      PolicyDecision.ALLOW,
+    );
   }
 
   private onModelChanged = () => {
@@ -271,6 +279,18 @@ export class AgentRegistry {
   }
 
   private addAgentPolicy(definition: AgentDefinition<z.ZodTypeAny>): void {
+    this.addDynamicToolPolicy(
+      definition.name,
+      definition.kind === 'local'
+        ? PolicyDecision.ALLOW
+        : PolicyDecision.ASK_USER,
+    );
+  }
+
+  private addDynamicToolPolicy(
+    toolName: string,
+    decision: PolicyDecision,
+  ): void {
     const policyEngine = this.config.getPolicyEngine();
     if (!policyEngine) {
       return;
@@ -278,25 +298,22 @@ export class AgentRegistry {
 
     // If the user has explicitly defined a policy for this tool, respect it.
     // ignoreDynamic=true means we only check for rules NOT added by this registry.
-    if (policyEngine.hasRuleForTool(definition.name, true)) {
+    if (policyEngine.hasRuleForTool(toolName, true)) {
       if (this.config.getDebugMode()) {
         debugLogger.log(
-          `[AgentRegistry] User policy exists for '${definition.name}', skipping dynamic registration.`,
+          `[AgentRegistry] User policy exists for '${toolName}', skipping dynamic registration.`,
         );
       }
       return;
     }
 
     // Clean up any old dynamic policy for this tool (e.g. if we are overwriting an agent)
-    policyEngine.removeRulesForTool(definition.name, 'AgentRegistry (Dynamic)');
+    policyEngine.removeRulesForTool(toolName, 'AgentRegistry (Dynamic)');
 
     // Add the new dynamic policy
     policyEngine.addRule({
-      toolName: definition.name,
-      decision:
-        definition.kind === 'local'
-          ? PolicyDecision.ALLOW
-          : PolicyDecision.ASK_USER,
+      toolName,
+      decision,
       priority: PRIORITY_SUBAGENT_TOOL,
       source: 'AgentRegistry (Dynamic)',
     });
@@ -50,6 +50,16 @@ export const DEFAULT_MAX_TURNS = 15;
  */
 export const DEFAULT_MAX_TIME_MINUTES = 5;
 
+/**
+ * The default number of subagents a parallel fan-out runs at the same time.
+ */
+export const DEFAULT_PARALLEL_AGENTS_MAX_CONCURRENCY = 3;
+
+/**
+ * The default maximum number of tasks in a single parallel fan-out.
+ */
+export const DEFAULT_PARALLEL_AGENTS_MAX_TASKS = 10;
+
 /**
  * Represents the validated input parameters passed to an agent upon invocation.
  * Used primarily for templating the system prompt. (Replaces ContextState)
@@ -5,7 +5,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { performRestore } from './restore.js';
+import { performPartialRestore, performRestore } from './restore.js';
 import { type ToolCallData } from '../utils/checkpointUtils.js';
 import type { GitService } from '../services/gitService.js';
 
@@ -167,3 +167,84 @@ describe('performRestore', () => {
     expect(nextResult.done).toBe(true);
   });
 });
+
+describe('performPartialRestore', () => {
+  let mockGitService: GitService;
+
+  beforeEach(() => {
+    mockGitService = {
+      restoreFileFromSnapshot: vi.fn(),
+      restoreHunksFromSnapshot: vi.fn(),
+    } as unknown as GitService;
+  });
+
+  it('should restore a whole file when no hunks are given', async () => {
+    const results = [];
+    for await (const result of performPartialRestore(
+      { commitHash: '1234567890', filePath: 'src/a.ts' },
+      mockGitService,
+    )) {
+      results.push(result);
+    }
+
+    expect(mockGitService.restoreFileFromSnapshot).toHaveBeenCalledWith(
+      '1234567890',
+      'src/a.ts',
+    );
+    expect(results).toEqual([
+      {
+        type: 'message',
+        messageType: 'info',
+        content: 'Restored src/a.ts from checkpoint 1234567.',
+      },
+    ]);
+  });
+
+  it('should restore only the selected hunks', async () => {
+    const generator = performPartialRestore(
+      { commitHash: '1234567890', filePath: 'src/a.ts', hunkIndices: [0, 2] },
+      mockGitService,
+    );
+    const result = await generator.next();
+
+    expect(mockGitService.restoreHunksFromSnapshot).toHaveBeenCalledWith(
+      '1234567890',
+      'src/a.ts',
+      [0, 2],
+    );
+    expect(result.value).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: 'Restored 2 hunk(s) of src/a.ts from checkpoint 1234567.',
+    });
+  });
+
+  it('should yield an error message if the restore fails', async () => {
+    vi.mocked(mockGitService.restoreFileFromSnapshot).mockRejectedValue(
+      new Error('boom'),
+    );
+
+    const generator = performPartialRestore(
+      { commitHash: 'abc', filePath: 'src/a.ts' },
+      mockGitService,
+    );
+    const result = await generator.next();
+
+    expect(result.value).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: 'Failed to restore src/a.ts: boom',
+    });
+    expect((await generator.next()).done).toBe(true);
+  });
+
+  it('should yield an error message if gitService is undefined', async () => {
+    const generator = performPartialRestore(
+      { commitHash: 'abc', filePath: 'src/a.ts' },
+      undefined,
+    );
+    const result = await generator.next();
+
+    expect(result.value).toMatchObject({ messageType: 'error' });
+  });
+});
@@ -7,6 +7,7 @@
 import type { GitService } from '../services/gitService.js';
 import type { CommandActionReturn } from './types.js';
 import { type ToolCallData } from '../utils/checkpointUtils.js';
+import { getErrorMessage } from '../utils/errors.js';
 
 export async function* performRestore<
   HistoryType = unknown,
@@ -56,3 +57,57 @@ export async function* performRestore<
     }
   }
 }
+
+export interface PartialRestoreRequest {
+  commitHash: string;
+  filePath: string;
+  /**
+   * Hunks of the snapshot-to-working-tree diff to revert. The whole file is
+   * restored when omitted.
+   */
+  hunkIndices?: number[];
+}
+
+export async function* performPartialRestore(
+  request: PartialRestoreRequest,
+  gitService: GitService | undefined,
+): AsyncGenerator<CommandActionReturn> {
+  if (!gitService) {
+    yield {
+      type: 'message',
+      messageType: 'error',
+      content:
+        'Git service is not available, cannot restore checkpoint. Please ensure you are in a git repository.',
+    };
+    return;
+  }
+
+  const { commitHash, filePath, hunkIndices } = request;
+  try {
+    if (hunkIndices) {
+      await gitService.restoreHunksFromSnapshot(
+        commitHash,
+        filePath,
+        hunkIndices,
+      );
+      yield {
+        type: 'message',
+        messageType: 'info',
+        content: `Restored ${hunkIndices.length} hunk(s) of ${filePath} from checkpoint ${commitHash.slice(0, 7)}.`,
+      };
+    } else {
+      await gitService.restoreFileFromSnapshot(commitHash, filePath);
+      yield {
+        type: 'message',
+        messageType: 'info',
+        content: `Restored ${filePath} from checkpoint ${commitHash.slice(0, 7)}.`,
+      };
+    }
+  } catch (e) {
+    yield {
+      type: 'message',
+      messageType: 'error',
+      content: `Failed to restore ${filePath}: ${getErrorMessage(e)}`,
+    };
+  }
+}
@@ -210,6 +210,13 @@ import type { ModelConfigService } from '../services/modelConfigService.js';
 import type { ModelConfigServiceConfig } from '../services/modelConfigService.js';
 import { ExitPlanModeTool } from '../tools/exit-plan-mode.js';
 import { EnterPlanModeTool } from '../tools/enter-plan-mode.js';
+import { IdeClient } from '../ide/ide-client.js';
+import { CoreEvent } from '../utils/events.js';
+import {
+  IdeDiagnosticsTool,
+  IdeFindDefinitionTool,
+  IdeWorkspaceSymbolsTool,
+} from '../tools/ide-tools.js';
 
 vi.mock('../core/baseLlmClient.js');
 vi.mock('../core/tokenLimits.js', () => ({
@@ -979,6 +986,41 @@ describe('Server Config (config.ts)', () => {
       expect(wasReadFileToolRegistered).toBe(false);
     });
 
+    it('should register the IDE tools the connected IDE provides and refresh them when they change', async () => {
+      const availableIdeTools = new Set(['getDiagnostics']);
+      vi.mocked(IdeClient.getInstance).mockResolvedValue({
+        getConnectionStatus: vi.fn(),
+        hasTool: (name: string) => availableIdeTools.has(name),
+      } as unknown as IdeClient);
+      const config = new Config({ ...baseParams, ideMode: true });
+      await config.initialize();
+
+      const { registerTool, unregisterTool } = (
+        (await vi.importMock('../tools/tool-registry')) as {
+          ToolRegistry: {
+            prototype: { registerTool: Mock; unregisterTool: Mock };
+          };
+        }
+      ).ToolRegistry.prototype;
+      const registeredNames = () =>
+        registerTool.mock.calls.map((call) => call[0].name);
+      expect(registeredNames()).toContain(IdeDiagnosticsTool.Name);
+      expect(registeredNames()).not.toContain(IdeWorkspaceSymbolsTool.Name);
+
+      registerTool.mockClear();
+      availableIdeTools.add('findSymbols');
+      const onIdeToolsChanged = mockCoreEvents.on.mock.calls.find(
+        ([event]) => event === CoreEvent.IdeToolsChanged,
+      )?.[1] as () => Promise<void>;
+      await onIdeToolsChanged();
+
+      expect(unregisterTool).toHaveBeenCalledWith(IdeFindDefinitionTool.Name);
+      expect(registeredNames()).toEqual([
+        IdeDiagnosticsTool.Name,
+        IdeWorkspaceSymbolsTool.Name,
+      ]);
+    });
+
     it('should register subagents as tools when agents.overrides.codebase_investigator.enabled is true', async () => {
       const params: ConfigParameters = {
         ...baseParams,
@@ -1647,7 +1689,7 @@ describe('Config getHooks', () => {
   });
 
   it('should return the hooks configuration when provided', () => {
-    const mockHooks = {
+    const mockHooks: { [K in HookEventName]?: HookDefinition[] } = {
       BeforeTool: [
         {
           hooks: [{ type: HookType.Command, command: 'echo 1' }],
@@ -1954,7 +1996,7 @@ describe('Hooks configuration', () => {
   });
 
   it('updateDisabledHooks should only update disabled list and not definitions', () => {
-    const initialHooks = {
+    const initialHooks: { [K in HookEventName]?: HookDefinition[] } = {
       BeforeAgent: [
         {
           hooks: [{ type: HookType.Command, command: 'initial' }],
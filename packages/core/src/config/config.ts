@@ -30,9 +30,11 @@ import { ActivateSkillTool } from '../tools/activate-skill.js';
 import { EditTool } from '../tools/edit.js';
 import { ShellTool } from '../tools/shell.js';
 import { WriteFileTool } from '../tools/write-file.js';
-import { WebFetchTool } from '../tools/web-fetch.js';
+import { ApplyPatchTool } from '../tools/apply-patch.js';
+import { WebFetchTool, type WebFetchSettings } from '../tools/web-fetch.js';
 import { MemoryTool, setGeminiMdFilename } from '../tools/memoryTool.js';
 import { WebSearchTool } from '../tools/web-search.js';
+import type { WebSearchSettings } from '../tools/web-search-providers.js';
 import { AskUserTool } from '../tools/ask-user.js';
 import { ExitPlanModeTool } from '../tools/exit-plan-mode.js';
 import { EnterPlanModeTool } from '../tools/enter-plan-mode.js';
@@ -41,6 +43,7 @@ import { BaseLlmClient } from '../core/baseLlmClient.js';
 import type { HookDefinition, HookEventName } from '../hooks/types.js';
 import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
 import { GitService } from '../services/gitService.js';
+import type { WorktreeService } from '../services/worktreeService.js';
 import type { TelemetryTarget } from '../telemetry/index.js';
 import {
   initializeTelemetry,
@@ -66,6 +69,7 @@ import { shouldAttemptBrowserLaunch } from '../utils/browser.js';
 import type { MCPOAuthConfig } from '../mcp/oauth-provider.js';
 import { ideContextStore } from '../ide/ideContext.js';
 import { WriteTodosTool } from '../tools/write-todos.js';
+import { ReportFindingTool } from '../tools/report-finding.js';
 import type { FileSystemService } from '../services/fileSystemService.js';
 import { StandardFileSystemService } from '../services/fileSystemService.js';
 import { logRipgrepFallback, logFlashFallback } from '../telemetry/loggers.js';
@@ -82,6 +86,30 @@ import type {
 import { ModelAvailabilityService } from '../availability/modelAvailabilityService.js';
 import { ModelRouterService } from '../routing/modelRouterService.js';
 import { OutputFormat } from '../output/types.js';
+import { RunReport } from '../output/run-report.js';
+import {
+  BudgetService,
+  type BudgetSettings,
+} from '../services/budgetService.js';
+import {
+  GeminiEmbedder,
+  LocalEmbedder,
+  SemanticIndexService,
+  type Embedder,
+  type SemanticSearchSettings,
+} from '../services/semanticIndexService.js';
+import { SemanticSearchTool } from '../tools/semantic-search.js';
+import { LspManager } from '../lsp/lsp-manager.js';
+import type { LspSettings } from '../lsp/types.js';
+import { FindDefinitionTool } from '../tools/find-definition.js';
+import { FindReferencesTool } from '../tools/find-references.js';
+import { DocumentSymbolsTool } from '../tools/document-symbols.js';
+import { RenameSymbolTool } from '../tools/rename-symbol.js';
+import { IDE_TOOL_CLASSES } from '../tools/ide-tools.js';
+import { IdeClient } from '../ide/ide-client.js';
+import { ReadShellOutputTool } from '../tools/read-shell-output.js';
+import { WriteShellInputTool } from '../tools/write-shell-input.js';
+import { KillShellTool } from '../tools/kill-shell.js';
 import type {
   ModelConfig,
   ModelConfigServiceConfig,
@@ -96,11 +124,15 @@ export type { MCPOAuthConfig, AnyToolInvocation, AnyDeclarativeTool };
 import type { AnyToolInvocation, AnyDeclarativeTool } from '../tools/tools.js';
 import { WorkspaceContext } from '../utils/workspaceContext.js';
 import { Storage } from './storage.js';
-import type { ShellExecutionConfig } from '../services/shellExecutionService.js';
+import type {
+  ShellExecutionConfig,
+  ShellSandbox,
+} from '../services/shellExecutionService.js';
 import { FileExclusions } from '../utils/ignorePatterns.js';
 import { MessageBus } from '../confirmation-bus/message-bus.js';
 import type { EventEmitter } from 'node:events';
 import { PolicyEngine } from '../policy/policy-engine.js';
+import { createCheckerRunner } from '../safety/checker-runner.js';
 import { ApprovalMode, type PolicyEngineConfig } from '../policy/types.js';
 import { HookSystem } from '../hooks/index.js';
 import type { UserTierId } from '../code_assist/types.js';
@@ -113,6 +145,7 @@ import { AgentRegistry } from '../agents/registry.js';
 import { AcknowledgedAgentsService } from '../agents/acknowledgedAgents.js';
 import { setGlobalProxy } from '../utils/fetch.js';
 import { SubagentTool } from '../agents/subagent-tool.js';
+import { ParallelSubagentTool } from '../agents/parallel-subagent-tool.js';
 import { getExperiments } from '../code_assist/experiments/experiments.js';
 import { ExperimentFlags } from '../code_assist/experiments/flagNames.js';
 import { debugLogger } from '../utils/debugLogger.js';
@@ -135,6 +168,11 @@ export interface BugCommandSettings {
   urlTemplate: string;
 }
 
+export interface OpenAICompatibleSettings {
+  baseUrl?: string;
+  model?: string;
+}
+
 export interface SummarizeToolOutputSettings {
   tokenBudget?: number;
 }
@@ -188,8 +226,16 @@ export interface AgentOverride {
   enabled?: boolean;
 }
 
+export interface ParallelAgentsSettings {
+  /** Maximum number of subagents that run at the same time. */
+  maxConcurrency?: number;
+  /** Maximum number of tasks accepted in a single fan-out call. */
+  maxTasks?: number;
+}
+
 export interface AgentSettings {
   overrides?: Record<string, AgentOverride>;
+  parallel?: ParallelAgentsSettings;
 }
 
 export interface CustomTheme {
@@ -347,6 +393,8 @@ export class MCPServerConfig {
     readonly targetAudience?: string,
     /* targetServiceAccount format: <service-account-name>@<project-num>.iam.gserviceaccount.com */
     readonly targetServiceAccount?: string,
+    // Lets the server request model completions through MCP sampling
+    readonly allowSampling?: boolean,
   ) {}
 }
 
@@ -357,7 +405,7 @@ export enum AuthProviderType {
 }
 
 export interface SandboxConfig {
-  command: 'docker' | 'podman' | 'sandbox-exec';
+  command: 'docker' | 'podman' | 'sandbox-exec' | 'bwrap';
   image: string;
 }
 
@@ -410,6 +458,7 @@ export interface ConfigParameters {
   };
   checkpointing?: boolean;
   proxy?: string;
+  openaiCompatible?: OpenAICompatibleSettings;
   cwd: string;
   fileDiscoveryService?: FileDiscoveryService;
   includeDirectories?: string[];
@@ -417,6 +466,7 @@ export interface ConfigParameters {
   model: string;
   disableLoopDetection?: boolean;
   maxSessionTurns?: number;
+  budget?: BudgetSettings;
   experimentalZedIntegration?: boolean;
   listSessions?: boolean;
   deleteSession?: string;
@@ -441,9 +491,14 @@ export interface ConfigParameters {
   trustedFolder?: boolean;
   useBackgroundColor?: boolean;
   useRipgrep?: boolean;
+  semanticSearch?: SemanticSearchSettings;
+  lsp?: LspSettings;
+  webSearch?: WebSearchSettings;
+  webFetch?: WebFetchSettings;
   enableInteractiveShell?: boolean;
   skipNextSpeakerCheck?: boolean;
   shellExecutionConfig?: ShellExecutionConfig;
+  shellSandbox?: ShellSandbox;
   extensionManagement?: boolean;
   enablePromptCompletion?: boolean;
   truncateToolOutputThreshold?: number;
@@ -482,6 +537,8 @@ export interface ConfigParameters {
   mcpEnabled?: boolean;
   extensionsEnabled?: boolean;
   agents?: AgentSettings;
+  /** Set when the session runs in its own git worktree (`--worktree`). */
+  worktree?: WorktreeService;
   onReload?: () => Promise<{
     disabledSkills?: string[];
     adminSkillsEnabled?: boolean;
@@ -549,6 +606,7 @@ export class Config {
   private gitService: GitService | undefined = undefined;
   private readonly checkpointing: boolean;
   private readonly proxy: string | undefined;
+  private readonly openaiCompatible: OpenAICompatibleSettings | undefined;
   private readonly cwd: string;
   private readonly bugCommand: BugCommandSettings | undefined;
   private model: string;
@@ -560,6 +618,7 @@ export class Config {
 
   private _activeModel: string;
   private readonly maxSessionTurns: number;
+  private readonly budgetService: BudgetService;
   private readonly listSessions: boolean;
   private readonly deleteSession: string | undefined;
   private readonly listExtensions: boolean;
@@ -607,10 +666,17 @@ export class Config {
   private readonly ptyInfo: string;
   private readonly trustedFolder: boolean | undefined;
   private readonly useRipgrep: boolean;
+  private readonly semanticSearch: SemanticSearchSettings;
+  private semanticSearchEmbedder: Embedder | undefined;
+  private semanticIndexService: SemanticIndexService | undefined;
+  private readonly lspManager: LspManager;
+  private readonly webSearch: WebSearchSettings;
+  private readonly webFetch: WebFetchSettings;
   private readonly enableInteractiveShell: boolean;
   private readonly skipNextSpeakerCheck: boolean;
   private readonly useBackgroundColor: boolean;
   private shellExecutionConfig: ShellExecutionConfig;
+  private readonly shellSandbox: ShellSandbox | undefined;
   private readonly extensionManagement: boolean = true;
   private readonly enablePromptCompletion: boolean = false;
   private readonly truncateToolOutputThreshold: number;
@@ -623,6 +689,7 @@ export class Config {
   private readonly messageBus: MessageBus;
   private readonly policyEngine: PolicyEngine;
   private readonly outputSettings: OutputSettings;
+  private readonly runReport = new RunReport();
   private readonly continueOnFailedApiCall: boolean;
   private readonly retryFetchErrors: boolean;
   private readonly enableShellOutputEfficiency: boolean;
@@ -655,6 +722,7 @@ export class Config {
 
   private readonly enableAgents: boolean;
   private agents: AgentSettings;
+  private readonly worktree: WorktreeService | undefined;
   private readonly enableEventDrivenScheduler: boolean;
   private readonly skillsSupport: boolean;
   private disabledSkills: string[];
@@ -741,6 +809,7 @@ export class Config {
     };
     this.checkpointing = params.checkpointing ?? false;
     this.proxy = params.proxy;
+    this.openaiCompatible = params.openaiCompatible;
     this.cwd = params.cwd ?? process.cwd();
     this.fileDiscoveryService = params.fileDiscoveryService ?? null;
     this.bugCommand = params.bugCommand;
@@ -749,6 +818,7 @@ export class Config {
     this._activeModel = params.model;
     this.enableAgents = params.enableAgents ?? false;
     this.agents = params.agents ?? {};
+    this.worktree = params.worktree;
     this.disableLLMCorrection = params.disableLLMCorrection ?? true;
     this.planEnabled = params.plan ?? false;
     this.enableEventDrivenScheduler = params.enableEventDrivenScheduler ?? true;
@@ -770,6 +840,7 @@ export class Config {
         DEFAULT_PROTECT_LATEST_TURN,
     };
     this.maxSessionTurns = params.maxSessionTurns ?? -1;
+    this.budgetService = new BudgetService(this, params.budget);
     this.experimentalZedIntegration =
       params.experimentalZedIntegration ?? false;
     this.listSessions = params.listSessions ?? false;
@@ -791,9 +862,14 @@ export class Config {
     this.ptyInfo = params.ptyInfo ?? 'child_process';
     this.trustedFolder = params.trustedFolder;
     this.useRipgrep = params.useRipgrep ?? true;
+    this.semanticSearch = params.semanticSearch ?? {};
+    this.lspManager = new LspManager(this.targetDir, params.lsp);
+    this.webSearch = params.webSearch ?? {};
+    this.webFetch = params.webFetch ?? {};
     this.useBackgroundColor = params.useBackgroundColor ?? true;
     this.enableInteractiveShell = params.enableInteractiveShell ?? false;
     this.skipNextSpeakerCheck = params.skipNextSpeakerCheck ?? true;
+    this.shellSandbox = params.shellSandbox;
     this.shellExecutionConfig = {
       terminalWidth: params.shellExecutionConfig?.terminalWidth ?? 80,
       terminalHeight: params.shellExecutionConfig?.terminalHeight ?? 24,
@@ -826,11 +902,15 @@ export class Config {
     this.enablePromptCompletion = params.enablePromptCompletion ?? false;
     this.fileExclusions = new FileExclusions(this);
     this.eventEmitter = params.eventEmitter;
-    this.policyEngine = new PolicyEngine({
-      ...params.policyEngineConfig,
-      approvalMode:
-        params.approvalMode ?? params.policyEngineConfig?.approvalMode,
-    });
+    this.policyEngine = new PolicyEngine(
+      {
+        ...params.policyEngineConfig,
+        approvalMode:
+          params.approvalMode ?? params.policyEngineConfig?.approvalMode,
+        getWorkspaceDirectories: () => this.workspaceContext.getDirectories(),
+      },
+      createCheckerRunner(this),
+    );
     this.messageBus = new MessageBus(this.policyEngine, this.debugMode);
     this.acknowledgedAgentsService = new AcknowledgedAgentsService();
     this.skillManager = new SkillManager();
@@ -941,6 +1021,7 @@ export class Config {
     await this.agentRegistry.initialize();
 
     coreEvents.on(CoreEvent.AgentsRefreshed, this.onAgentsRefreshed);
+    coreEvents.on(CoreEvent.IdeToolsChanged, this.onIdeToolsChanged);
 
     this.toolRegistry = await this.createToolRegistry();
     discoverToolsHandle?.end();
@@ -1228,6 +1309,51 @@ export class Config {
     return this.maxSessionTurns;
   }
 
+  getBudgetService(): BudgetService {
+    return this.budgetService;
+  }
+
+  isSemanticSearchEnabled(): boolean {
+    return this.semanticSearch.enabled ?? false;
+  }
+
+  /**
+   * Replaces the embedder used by the semantic_search tool, e.g. with a local
+   * model. Must be called before the first search.
+   */
+  setSemanticSearchEmbedder(embedder: Embedder): void {
+    this.semanticSearchEmbedder = embedder;
+    this.semanticIndexService = undefined;
+  }
+
+  getSemanticIndexService(): SemanticIndexService {
+    if (!this.semanticIndexService) {
+      const embedder =
+        this.semanticSearchEmbedder ??
+        (this.semanticSearch.embedder === 'local'
+          ? new LocalEmbedder()
+          : new GeminiEmbedder(this));
+      this.semanticIndexService = new SemanticIndexService(
+        this,
+        embedder,
+        this.storage.getSemanticIndexPath(),
+      );
+    }
+    return this.semanticIndexService;
+  }
+
+  getLspManager(): LspManager {
+    return this.lspManager;
+  }
+
+  getWebSearchSettings(): WebSearchSettings {
+    return this.webSearch;
+  }
+
+  getWebFetchSettings(): WebFetchSettings {
+    return this.webFetch;
+  }
+
   setQuotaErrorOccurred(value: boolean): void {
     this.quotaErrorOccurred = value;
   }
@@ -1330,13 +1456,13 @@ export class Config {
 
   isRestrictiveSandbox(): boolean {
     const sandboxConfig = this.getSandbox();
-    const seatbeltProfile = process.env['SEATBELT_PROFILE'];
-    return (
-      !!sandboxConfig &&
-      sandboxConfig.command === 'sandbox-exec' &&
-      !!seatbeltProfile &&
-      seatbeltProfile.startsWith('restrictive-')
-    );
+    const profile =
+      sandboxConfig?.command === 'sandbox-exec'
+        ? process.env['SEATBELT_PROFILE']
+        : sandboxConfig?.command === 'bwrap'
+          ? process.env['BWRAP_PROFILE']
+          : undefined;
+    return !!profile && profile.startsWith('restrictive-');
   }
 
   getTargetDir(): string {
@@ -1884,6 +2010,10 @@ export class Config {
     return this.proxy;
   }
 
+  getOpenAICompatibleSettings(): OpenAICompatibleSettings | undefined {
+    return this.openaiCompatible;
+  }
+
   getWorkingDir(): string {
     return this.cwd;
   }
@@ -1977,6 +2107,10 @@ export class Config {
     return this.agents;
   }
 
+  getWorktreeService(): WorktreeService | undefined {
+    return this.worktree;
+  }
+
   isBrowserLaunchSuppressed(): boolean {
     return this.getNoBrowser() || !shouldAttemptBrowserLaunch();
   }
@@ -2262,6 +2396,14 @@ export class Config {
     return this.shellExecutionConfig;
   }
 
+  /**
+   * The sandbox shell commands run in when only shell commands are
+   * sandboxed, rather than the whole CLI.
+   */
+  getShellSandbox(): ShellSandbox | undefined {
+    return this.shellSandbox;
+  }
+
   setShellExecutionConfig(config: ShellExecutionConfig): void {
     this.shellExecutionConfig = {
       terminalWidth:
@@ -2306,6 +2448,14 @@ export class Config {
       : OutputFormat.TEXT;
   }
 
+  /**
+   * Get the findings and tool call outcomes collected for the SARIF and
+   * JUnit output formats.
+   */
+  getRunReport(): RunReport {
+    return this.runReport;
+  }
+
   async getGitService(): Promise<GitService> {
     if (!this.gitService) {
       this.gitService = new GitService(this.targetDir, this.storage);
@@ -2342,24 +2492,7 @@ export class Config {
       toolClass: { name: string; Name?: string },
       registerFn: () => void,
     ) => {
-      const className = toolClass.name;
-      const toolName = toolClass.Name || className;
-      const coreTools = this.getCoreTools();
-      // On some platforms, the className can be minified to _ClassName.
-      const normalizedClassName = className.replace(/^_+/, '');
-
-      let isEnabled = true; // Enabled by default if coreTools is not set.
-      if (coreTools) {
-        isEnabled = coreTools.some(
-          (tool) =>
-            tool === toolName ||
-            tool === normalizedClassName ||
-            tool.startsWith(`${toolName}(`) ||
-            tool.startsWith(`${normalizedClassName}(`),
-        );
-      }
-
-      if (isEnabled) {
+      if (this.isCoreToolEnabled(toolClass)) {
         registerFn();
       }
     };
@@ -2407,12 +2540,19 @@ export class Config {
     maybeRegister(WriteFileTool, () =>
       registry.registerTool(new WriteFileTool(this, this.messageBus)),
     );
+    maybeRegister(ApplyPatchTool, () =>
+      registry.registerTool(new ApplyPatchTool(this, this.messageBus)),
+    );
     maybeRegister(WebFetchTool, () =>
       registry.registerTool(new WebFetchTool(this, this.messageBus)),
     );
-    maybeRegister(ShellTool, () =>
-      registry.registerTool(new ShellTool(this, this.messageBus)),
-    );
+    maybeRegister(ShellTool, () => {
+      registry.registerTool(new ShellTool(this, this.messageBus));
+      // Companion tools for commands the shell tool moves to the background.
+      registry.registerTool(new ReadShellOutputTool(this.messageBus));
+      registry.registerTool(new WriteShellInputTool(this.messageBus));
+      registry.registerTool(new KillShellTool(this.messageBus));
+    });
     maybeRegister(MemoryTool, () =>
       registry.registerTool(new MemoryTool(this.messageBus)),
     );
@@ -2427,6 +2567,30 @@ export class Config {
         registry.registerTool(new WriteTodosTool(this.messageBus)),
       );
     }
+    if (this.isSemanticSearchEnabled()) {
+      maybeRegister(SemanticSearchTool, () =>
+        registry.registerTool(new SemanticSearchTool(this, this.messageBus)),
+      );
+    }
+    if (this.lspManager.isEnabled()) {
+      maybeRegister(FindDefinitionTool, () =>
+        registry.registerTool(new FindDefinitionTool(this, this.messageBus)),
+      );
+      maybeRegister(FindReferencesTool, () =>
+        registry.registerTool(new FindReferencesTool(this, this.messageBus)),
+      );
+      maybeRegister(DocumentSymbolsTool, () =>
+        registry.registerTool(new DocumentSymbolsTool(this, this.messageBus)),
+      );
+      maybeRegister(RenameSymbolTool, () =>
+        registry.registerTool(new RenameSymbolTool(this, this.messageBus)),
+      );
+    }
+    if (this.getOutputFormat() === OutputFormat.SARIF) {
+      maybeRegister(ReportFindingTool, () =>
+        registry.registerTool(new ReportFindingTool(this, this.messageBus)),
+      );
+    }
     if (this.isPlanEnabled()) {
       maybeRegister(ExitPlanModeTool, () =>
         registry.registerTool(new ExitPlanModeTool(this, this.messageBus)),
@@ -2438,12 +2602,57 @@ export class Config {
 
     // Register Subagents as Tools
     this.registerSubAgentTools(registry);
+    await this.registerIdeTools(registry);
 
     await registry.discoverAllTools();
     registry.sortTools();
     return registry;
   }
 
+  /**
+   * Checks whether a core tool is allowed by the `coreTools` setting.
+   */
+  private isCoreToolEnabled(toolClass: {
+    name: string;
+    Name?: string;
+  }): boolean {
+    const coreTools = this.getCoreTools();
+    if (!coreTools) {
+      return true; // Enabled by default if coreTools is not set.
+    }
+    const className = toolClass.name;
+    const toolName = toolClass.Name || className;
+    // On some platforms, the className can be minified to _ClassName.
+    const normalizedClassName = className.replace(/^_+/, '');
+    return coreTools.some(
+      (tool) =>
+        tool === toolName ||
+        tool === normalizedClassName ||
+        tool.startsWith(`${toolName}(`) ||
+        tool.startsWith(`${normalizedClassName}(`),
+    );
+  }
+
+  /**
+   * Registers the tools backed by the connected IDE companion, and removes
+   * the ones it no longer provides.
+   */
+  private async registerIdeTools(registry: ToolRegistry): Promise<void> {
+    if (!this.getIdeMode()) {
+      return;
+    }
+    const ideClient = await IdeClient.getInstance();
+    for (const toolClass of IDE_TOOL_CLASSES) {
+      registry.unregisterTool(toolClass.Name);
+      if (
+        ideClient.hasTool(toolClass.IdeToolName) &&
+        this.isCoreToolEnabled(toolClass)
+      ) {
+        registry.registerTool(new toolClass(this, this.messageBus));
+      }
+    }
+  }
+
   /**
    * Registers SubAgentTools for all available agents.
    */
@@ -2476,6 +2685,18 @@ export class Config {
           }
         }
       }
+
+      const hasLocalAgents = definitions.some(
+        (definition) => definition.kind === 'local',
+      );
+      if (
+        hasLocalAgents &&
+        (!allowedTools || allowedTools.includes(ParallelSubagentTool.Name))
+      ) {
+        registry.registerTool(
+          new ParallelSubagentTool(this, this.getMessageBus()),
+        );
+      }
     }
   }
 
@@ -2584,17 +2805,32 @@ export class Config {
     }
   };
 
+  private onIdeToolsChanged = async () => {
+    if (!this.toolRegistry) {
+      return;
+    }
+    await this.registerIdeTools(this.toolRegistry);
+    this.toolRegistry.sortTools();
+    const client = this.getGeminiClient();
+    if (client?.isInitialized()) {
+      await client.setTools();
+    }
+  };
+
   /**
    * Disposes of resources and removes event listeners.
    */
   async dispose(): Promise<void> {
     this.logCurrentModeDuration(this.getApprovalMode());
     coreEvents.off(CoreEvent.AgentsRefreshed, this.onAgentsRefreshed);
+    coreEvents.off(CoreEvent.IdeToolsChanged, this.onIdeToolsChanged);
     this.agentRegistry?.dispose();
     this.geminiClient?.dispose();
     if (this.mcpClientManager) {
       await this.mcpClientManager.stop();
     }
+    await this.lspManager.stop();
+    await this.shellSandbox?.dispose();
   }
 }
 // Export model constants for use in CLI
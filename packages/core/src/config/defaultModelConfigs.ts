@@ -6,6 +6,7 @@
 
 import { ThinkingLevel } from '@google/genai';
 import type { ModelConfigServiceConfig } from '../services/modelConfigService.js';
+import type { ModelPricing } from '../services/budgetService.js';
 import { DEFAULT_THINKING_MODE } from './models.js';
 
 // The default model configs. We use `base` as the parent for all of our model
@@ -189,6 +190,10 @@ export const DEFAULT_MODEL_CONFIGS: ModelConfigServiceConfig = {
       extends: 'gemini-2.5-flash-base',
       modelConfig: {},
     },
+    'mcp-sampling': {
+      extends: 'gemini-2.5-flash-base',
+      modelConfig: {},
+    },
     'chat-compression-3-pro': {
       modelConfig: {
         model: 'gemini-3-pro-preview',
@@ -231,3 +236,14 @@ export const DEFAULT_MODEL_CONFIGS: ModelConfigServiceConfig = {
     },
   ],
 };
+
+// Estimated list prices, in US dollars per million tokens, used to enforce
+// cost budgets. Prices for prompts above 200k tokens are not modelled, and
+// `budget.pricing` in settings can override or extend this table.
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-3-pro-preview': { input: 2, output: 12, cached: 0.2 },
+  'gemini-3-flash-preview': { input: 0.5, output: 3, cached: 0.05 },
+  'gemini-2.5-pro': { input: 1.25, output: 10, cached: 0.125 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, cached: 0.03 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4, cached: 0.01 },
+};
@@ -154,6 +154,11 @@ describe('Storage – additional helpers', () => {
     expect(Storage.getGlobalBinDir()).toBe(expected);
   });
 
+  it('getWebCacheDir returns ~/.gemini/tmp/web-cache', () => {
+    const expected = path.join(os.homedir(), GEMINI_DIR, 'tmp', 'web-cache');
+    expect(Storage.getWebCacheDir()).toBe(expected);
+  });
+
   it('getProjectTempPlansDir returns ~/.gemini/tmp/<identifier>/plans', async () => {
     await storage.initialize();
     const tempDir = storage.getProjectTempDir();
@@ -16,6 +16,7 @@ export const GOOGLE_ACCOUNTS_FILENAME = 'google_accounts.json';
 export const OAUTH_FILE = 'oauth_creds.json';
 const TMP_DIR_NAME = 'tmp';
 const BIN_DIR_NAME = 'bin';
+const WEB_CACHE_DIR_NAME = 'web-cache';
 const AGENTS_DIR_NAME = '.agents';
 
 export class Storage {
@@ -55,6 +56,10 @@ export class Storage {
     return path.join(Storage.getGlobalGeminiDir(), 'installation_id');
   }
 
+  static getBudgetUsagePath(): string {
+    return path.join(Storage.getGlobalGeminiDir(), 'budget_usage.json');
+  }
+
   static getGoogleAccountsPath(): string {
     return path.join(Storage.getGlobalGeminiDir(), GOOGLE_ACCOUNTS_FILENAME);
   }
@@ -120,6 +125,10 @@ export class Storage {
     return path.join(Storage.getGlobalTempDir(), BIN_DIR_NAME);
   }
 
+  static getWebCacheDir(): string {
+    return path.join(Storage.getGlobalTempDir(), WEB_CACHE_DIR_NAME);
+  }
+
   getGeminiDir(): string {
     return path.join(this.targetDir, GEMINI_DIR);
   }
@@ -241,6 +250,10 @@ export class Storage {
     return path.join(this.getProjectTempDir(), 'logs');
   }
 
+  getSemanticIndexPath(): string {
+    return path.join(this.getProjectTempDir(), 'semantic_index.json');
+  }
+
   getProjectTempPlansDir(): string {
     return path.join(this.getProjectTempDir(), 'plans');
   }
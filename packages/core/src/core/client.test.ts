@@ -39,6 +39,7 @@ import type { ModelRouterService } from '../routing/modelRouterService.js';
 import { uiTelemetryService } from '../telemetry/uiTelemetry.js';
 import { ChatCompressionService } from '../services/chatCompressionService.js';
 import type { ChatRecordingService } from '../services/chatRecordingService.js';
+import type { BudgetService } from '../services/budgetService.js';
 import { createAvailabilityServiceMock } from '../availability/testUtils.js';
 import type { ModelAvailabilityService } from '../availability/modelAvailabilityService.js';
 import type {
@@ -221,6 +222,9 @@ describe('Gemini Client (client.ts)', () => {
       getWorkingDir: vi.fn().mockReturnValue('/test/dir'),
       getFileService: vi.fn().mockReturnValue(fileService),
       getMaxSessionTurns: vi.fn().mockReturnValue(0),
+      getBudgetService: vi.fn().mockReturnValue({
+        getExceededLimit: vi.fn().mockReturnValue(undefined),
+      }),
       getQuotaErrorOccurred: vi.fn().mockReturnValue(false),
       setQuotaErrorOccurred: vi.fn(),
       getNoBrowser: vi.fn().mockReturnValue(false),
@@ -1276,6 +1280,33 @@ ${JSON.stringify(
       expect(mockTurnRunFn).toHaveBeenCalledTimes(MAX_SESSION_TURNS);
     });
 
+    it('should yield BudgetExceeded and stop when a budget limit is reached', async () => {
+      const exceeded = {
+        scope: 'session',
+        metric: 'costUsd',
+        used: 5.5,
+        limit: 5,
+      };
+      vi.spyOn(client['config'], 'getBudgetService').mockReturnValue({
+        getExceededLimit: vi.fn().mockReturnValue(exceeded),
+      } as unknown as BudgetService);
+
+      const stream = client.sendMessageStream(
+        [{ text: 'Hi' }],
+        new AbortController().signal,
+        'prompt-id-budget',
+      );
+      const events = [];
+      for await (const event of stream) {
+        events.push(event);
+      }
+
+      expect(events).toEqual([
+        { type: GeminiEventType.BudgetExceeded, value: exceeded },
+      ]);
+      expect(mockTurnRunFn).not.toHaveBeenCalled();
+    });
+
     it('should respect MAX_TURNS limit even when turns parameter is set to a large value', async () => {
       // This test verifies that the infinite loop protection works even when
       // someone tries to bypass it by calling with a very large turns value
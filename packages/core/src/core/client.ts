@@ -564,6 +564,12 @@ export class GeminiClient {
       return turn;
     }
 
+    const exceededBudget = this.config.getBudgetService().getExceededLimit();
+    if (exceededBudget) {
+      yield { type: GeminiEventType.BudgetExceeded, value: exceededBudget };
+      return turn;
+    }
+
     if (!boundedTurns) {
       return turn;
     }
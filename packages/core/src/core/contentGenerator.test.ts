@@ -18,6 +18,7 @@ import { LoggingContentGenerator } from './loggingContentGenerator.js';
 import { loadApiKey } from './apiKeyCredentialStorage.js';
 import { FakeContentGenerator } from './fakeContentGenerator.js';
 import { RecordingContentGenerator } from './recordingContentGenerator.js';
+import { OpenAICompatibleContentGenerator } from '../openai/openaiContentGenerator.js';
 
 vi.mock('../code_assist/codeAssist.js');
 vi.mock('@google/genai');
@@ -473,6 +474,30 @@ describe('createContentGenerator', () => {
       apiVersion: 'v1alpha',
     });
   });
+
+  it('should create an OpenAICompatibleContentGenerator when AuthType is USE_OPENAI_COMPATIBLE', async () => {
+    const generator = await createContentGenerator(
+      {
+        authType: AuthType.USE_OPENAI_COMPATIBLE,
+        baseUrl: 'http://localhost:8000/v1',
+        apiKey: 'test-openai-key',
+      },
+      mockConfig,
+    );
+    expect(generator).toBeInstanceOf(LoggingContentGenerator);
+    expect((generator as LoggingContentGenerator).getWrapped()).toBeInstanceOf(
+      OpenAICompatibleContentGenerator,
+    );
+  });
+
+  it('should throw when AuthType is USE_OPENAI_COMPATIBLE without a base URL', async () => {
+    await expect(
+      createContentGenerator(
+        { authType: AuthType.USE_OPENAI_COMPATIBLE },
+        mockConfig,
+      ),
+    ).rejects.toThrow('OPENAI_BASE_URL');
+  });
 });
 
 describe('createContentGeneratorConfig', () => {
@@ -481,6 +506,10 @@ describe('createContentGeneratorConfig', () => {
     setModel: vi.fn(),
     flashFallbackHandler: vi.fn(),
     getProxy: vi.fn(),
+    getOpenAICompatibleSettings: vi.fn().mockReturnValue({
+      baseUrl: 'http://settings-host/v1',
+      model: 'settings-model',
+    }),
   } as unknown as Config;
 
   beforeEach(() => {
@@ -557,4 +586,28 @@ describe('createContentGeneratorConfig', () => {
     expect(config.apiKey).toBeUndefined();
     expect(config.vertexai).toBeUndefined();
   });
+
+  it('should configure for an OpenAI-compatible API from settings', async () => {
+    vi.stubEnv('OPENAI_BASE_URL', '');
+    vi.stubEnv('OPENAI_MODEL', '');
+    vi.stubEnv('OPENAI_API_KEY', 'env-openai-key');
+    const config = await createContentGeneratorConfig(
+      mockConfig,
+      AuthType.USE_OPENAI_COMPATIBLE,
+    );
+    expect(config.baseUrl).toBe('http://settings-host/v1');
+    expect(config.model).toBe('settings-model');
+    expect(config.apiKey).toBe('env-openai-key');
+  });
+
+  it('should prefer OpenAI environment variables over settings', async () => {
+    vi.stubEnv('OPENAI_BASE_URL', 'http://env-host/v1');
+    vi.stubEnv('OPENAI_MODEL', 'env-model');
+    const config = await createContentGeneratorConfig(
+      mockConfig,
+      AuthType.USE_OPENAI_COMPATIBLE,
+    );
+    expect(config.baseUrl).toBe('http://env-host/v1');
+    expect(config.model).toBe('env-model');
+  });
 });
@@ -23,6 +23,7 @@ import { InstallationManager } from '../utils/installationManager.js';
 import { FakeContentGenerator } from './fakeContentGenerator.js';
 import { parseCustomHeaders } from '../utils/customHeaderUtils.js';
 import { RecordingContentGenerator } from './recordingContentGenerator.js';
+import { OpenAICompatibleContentGenerator } from '../openai/openaiContentGenerator.js';
 import { getVersion, resolveModel } from '../../index.js';
 
 /**
@@ -54,6 +55,7 @@ export enum AuthType {
   USE_VERTEX_AI = 'vertex-ai',
   LEGACY_CLOUD_SHELL = 'cloud-shell',
   COMPUTE_ADC = 'compute-default-credentials',
+  USE_OPENAI_COMPATIBLE = 'openai-compatible',
 }
 
 export type ContentGeneratorConfig = {
@@ -61,6 +63,8 @@ export type ContentGeneratorConfig = {
   vertexai?: boolean;
   authType?: AuthType;
   proxy?: string;
+  baseUrl?: string;
+  model?: string;
 };
 
 export async function createContentGeneratorConfig(
@@ -106,6 +110,17 @@ export async function createContentGeneratorConfig(
     return contentGeneratorConfig;
   }
 
+  if (authType === AuthType.USE_OPENAI_COMPATIBLE) {
+    const openaiSettings = config?.getOpenAICompatibleSettings();
+    contentGeneratorConfig.baseUrl =
+      process.env['OPENAI_BASE_URL'] || openaiSettings?.baseUrl;
+    contentGeneratorConfig.apiKey = process.env['OPENAI_API_KEY'] || undefined;
+    contentGeneratorConfig.model =
+      process.env['OPENAI_MODEL'] || openaiSettings?.model;
+
+    return contentGeneratorConfig;
+  }
+
   return contentGeneratorConfig;
 }
 
@@ -183,6 +198,23 @@ export async function createContentGenerator(
       });
       return new LoggingContentGenerator(googleGenAI.models, gcConfig);
     }
+
+    if (config.authType === AuthType.USE_OPENAI_COMPATIBLE) {
+      if (!config.baseUrl) {
+        throw new Error(
+          'Error creating contentGenerator: OPENAI_BASE_URL or security.auth.openaiCompatible.baseUrl must be set',
+        );
+      }
+      return new LoggingContentGenerator(
+        new OpenAICompatibleContentGenerator({
+          baseUrl: config.baseUrl,
+          apiKey: config.apiKey,
+          model: config.model,
+          headers: baseHeaders,
+        }),
+        gcConfig,
+      );
+    }
     throw new Error(
       `Error creating contentGenerator: Unsupported authType: ${config.authType}`,
     );
@@ -603,7 +603,7 @@ export class CoreToolScheduler {
             ? toolCall.tool.serverName
             : undefined;
 
-        const { decision, rule } = await this.config
+        const { decision, rule, reason } = await this.config
           .getPolicyEngine()
           .check(toolCallForPolicy, serverName);
 
@@ -611,6 +611,7 @@ export class CoreToolScheduler {
           const { errorMessage, errorType } = getPolicyDenialError(
             this.config,
             rule,
+            reason,
           );
           this.setStatusInternal(
             reqInfo.callId,
@@ -28,6 +28,7 @@ import { InvalidStreamError } from './geminiChat.js';
 import { parseThought, type ThoughtSummary } from '../utils/thoughtUtils.js';
 import { createUserContent } from '@google/genai';
 import type { ModelConfigKey } from '../services/modelConfigService.js';
+import type { BudgetStatus } from '../services/budgetService.js';
 import { getCitations } from '../utils/generateContentResponseUtilities.js';
 
 import {
@@ -68,6 +69,7 @@ export enum GeminiEventType {
   ModelInfo = 'model_info',
   AgentExecutionStopped = 'agent_execution_stopped',
   AgentExecutionBlocked = 'agent_execution_blocked',
+  BudgetExceeded = 'budget_exceeded',
 }
 
 export type ServerGeminiRetryEvent = {
@@ -196,6 +198,11 @@ export type ServerGeminiMaxSessionTurnsEvent = {
   type: GeminiEventType.MaxSessionTurns;
 };
 
+export type ServerGeminiBudgetExceededEvent = {
+  type: GeminiEventType.BudgetExceeded;
+  value: BudgetStatus;
+};
+
 export type ServerGeminiFinishedEvent = {
   type: GeminiEventType.Finished;
   value: GeminiFinishedEventValue;
@@ -229,7 +236,8 @@ export type ServerGeminiStreamEvent =
   | ServerGeminiInvalidStreamEvent
   | ServerGeminiModelInfoEvent
   | ServerGeminiAgentExecutionStoppedEvent
-  | ServerGeminiAgentExecutionBlockedEvent;
+  | ServerGeminiAgentExecutionBlockedEvent
+  | ServerGeminiBudgetExceededEvent;
 
 // A turn manages the agentic loop turn within the server context.
 export class Turn {
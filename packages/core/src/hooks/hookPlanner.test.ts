@@ -69,8 +69,8 @@ describe('HookPlanner', () => {
 
       expect(plan).not.toBeNull();
       expect(plan!.hookConfigs).toHaveLength(2);
-      expect(plan!.hookConfigs[0].command).toBe('./hook1.sh');
-      expect(plan!.hookConfigs[1].command).toBe('./test-hook.sh');
+      expect(plan!.hookConfigs[0]).toMatchObject({ command: './hook1.sh' });
+      expect(plan!.hookConfigs[1]).toMatchObject({ command: './test-hook.sh' });
     });
 
     it('should filter hooks by tool name matcher', () => {
@@ -128,7 +128,9 @@ describe('HookPlanner', () => {
       );
       expect(editPlan).not.toBeNull();
       expect(editPlan!.hookConfigs).toHaveLength(1);
-      expect(editPlan!.hookConfigs[0].command).toBe('./edit_hook.sh');
+      expect(editPlan!.hookConfigs[0]).toMatchObject({
+        command: './edit_hook.sh',
+      });
 
       // Test with WriteTool - should match first hook
       const writePlan = hookPlanner.createExecutionPlan(
@@ -137,7 +139,9 @@ describe('HookPlanner', () => {
       );
       expect(writePlan).not.toBeNull();
       expect(writePlan!.hookConfigs).toHaveLength(1);
-      expect(writePlan!.hookConfigs[0].command).toBe('./edit_hook.sh');
+      expect(writePlan!.hookConfigs[0]).toMatchObject({
+        command: './edit_hook.sh',
+      });
 
       // Test with ReadTool - should match second hook
       const readPlan = hookPlanner.createExecutionPlan(
@@ -146,7 +150,9 @@ describe('HookPlanner', () => {
       );
       expect(readPlan).not.toBeNull();
       expect(readPlan!.hookConfigs).toHaveLength(1);
-      expect(readPlan!.hookConfigs[0].command).toBe('./read_hook.sh');
+      expect(readPlan!.hookConfigs[0]).toMatchObject({
+        command: './read_hook.sh',
+      });
 
       // Test with unmatched tool - should match no hooks
       const otherPlan = hookPlanner.createExecutionPlan(
@@ -373,7 +379,9 @@ describe('HookPlanner', () => {
       );
       expect(startupPlan).not.toBeNull();
       expect(startupPlan!.hookConfigs).toHaveLength(1);
-      expect(startupPlan!.hookConfigs[0].command).toBe('./startup_hook.sh');
+      expect(startupPlan!.hookConfigs[0]).toMatchObject({
+        command: './startup_hook.sh',
+      });
 
       // Test resume trigger
       const resumePlan = hookPlanner.createExecutionPlan(
@@ -382,7 +390,9 @@ describe('HookPlanner', () => {
       );
       expect(resumePlan).not.toBeNull();
       expect(resumePlan!.hookConfigs).toHaveLength(1);
-      expect(resumePlan!.hookConfigs[0].command).toBe('./resume_hook.sh');
+      expect(resumePlan!.hookConfigs[0]).toMatchObject({
+        command: './resume_hook.sh',
+      });
     });
   });
 });
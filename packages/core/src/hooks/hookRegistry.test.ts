@@ -153,7 +153,9 @@ describe('HookRegistry', () => {
       expect(hooks).toHaveLength(1);
       expect(hooks[0].eventName).toBe(HookEventName.BeforeTool);
       expect(hooks[0].config.type).toBe(HookType.Command);
-      expect(hooks[0].config.command).toBe('./hooks/check_style.sh');
+      expect(hooks[0].config).toMatchObject({
+        command: './hooks/check_style.sh',
+      });
       expect(hooks[0].matcher).toBe('EditTool');
       expect(hooks[0].source).toBe(ConfigSource.Project);
     });
@@ -186,7 +188,9 @@ describe('HookRegistry', () => {
       expect(hooks).toHaveLength(1);
       expect(hooks[0].eventName).toBe(HookEventName.AfterTool);
       expect(hooks[0].config.type).toBe(HookType.Command);
-      expect(hooks[0].config.command).toBe('./hooks/after-tool.sh');
+      expect(hooks[0].config).toMatchObject({
+        command: './hooks/after-tool.sh',
+      });
     });
 
     it('should handle invalid configuration gracefully', async () => {
@@ -632,7 +636,7 @@ describe('HookRegistry', () => {
       // Should only load the valid hook
       const hooks = hookRegistry.getAllHooks();
       expect(hooks).toHaveLength(1);
-      expect(hooks[0].config.command).toBe('./valid-hook.sh');
+      expect(hooks[0].config).toMatchObject({ command: './valid-hook.sh' });
 
       // Verify the warnings for invalid configurations
       // 1st warning: non-object hookConfig ('invalid-string')
@@ -6,7 +6,12 @@
 
 import type { Config } from '../config/config.js';
 import type { HookDefinition, HookConfig } from './types.js';
-import { HookEventName, ConfigSource, HOOKS_CONFIG_FIELDS } from './types.js';
+import {
+  HookEventName,
+  ConfigSource,
+  HOOKS_CONFIG_FIELDS,
+  getHookDisplayName,
+} from './types.js';
 import { debugLogger } from '../utils/debugLogger.js';
 import { TrustedHooksManager } from './trustedHooks.js';
 import { coreEvents } from '../utils/events.js';
@@ -93,7 +98,7 @@ export class HookRegistry {
   private getHookName(
     entry: HookRegistryEntry | { config: HookConfig },
   ): string {
-    return entry.config.name || entry.config.command || 'unknown-command';
+    return getHookDisplayName(entry.config) || 'unknown-command';
   }
 
   /**
@@ -261,7 +266,10 @@ please review the project settings (.gemini/settings.json) and remove them.`;
     eventName: HookEventName,
     source: ConfigSource,
   ): boolean {
-    if (!config.type || !['command', 'plugin'].includes(config.type)) {
+    if (
+      !config.type ||
+      !['command', 'http', 'module', 'plugin'].includes(config.type)
+    ) {
       debugLogger.warn(
         `Invalid hook ${eventName} from ${source} type: ${config.type}`,
       );
@@ -275,6 +283,20 @@ please review the project settings (.gemini/settings.json) and remove them.`;
       return false;
     }
 
+    if (config.type === 'http' && !config.url) {
+      debugLogger.warn(
+        `HTTP hook ${eventName} from ${source} missing url field`,
+      );
+      return false;
+    }
+
+    if (config.type === 'module' && !config.module) {
+      debugLogger.warn(
+        `Module hook ${eventName} from ${source} missing module field`,
+      );
+      return false;
+    }
+
     return true;
   }
 
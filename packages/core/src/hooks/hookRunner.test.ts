@@ -10,6 +10,9 @@ import { HookRunner } from './hookRunner.js';
 import { HookEventName, HookType, ConfigSource } from './types.js';
 import type { HookConfig } from './types.js';
 import type { HookInput } from './types.js';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
 import type { Readable, Writable } from 'node:stream';
 import type { Config } from '../config/config.js';
 
@@ -405,6 +408,212 @@ describe('HookRunner', () => {
         );
       });
     });
+
+    describe('http hooks', () => {
+      let fetchMock: ReturnType<typeof vi.fn>;
+
+      beforeEach(() => {
+        fetchMock = vi.fn();
+        vi.stubGlobal('fetch', fetchMock);
+        vi.stubEnv('HOOK_TOKEN', 'secret');
+      });
+
+      afterEach(() => {
+        vi.unstubAllEnvs();
+        vi.stubGlobal('console', mockConsole);
+      });
+
+      it('should POST the input and parse a JSON response', async () => {
+        fetchMock.mockResolvedValue(
+          new Response(JSON.stringify({ decision: 'allow', reason: 'ok' })),
+        );
+
+        const result = await hookRunner.executeHook(
+          {
+            type: HookType.Http,
+            url: 'https://hooks.example.com/$HOOK_TOKEN',
+            headers: { Authorization: 'Bearer ${HOOK_TOKEN}' },
+          },
+          HookEventName.BeforeTool,
+          mockInput,
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.output).toEqual({ decision: 'allow', reason: 'ok' });
+        expect(fetchMock).toHaveBeenCalledWith(
+          'https://hooks.example.com/secret',
+          expect.objectContaining({
+            method: 'POST',
+            body: JSON.stringify(mockInput),
+            headers: {
+              'Content-Type': 'application/json',
+              Authorization: 'Bearer secret',
+            },
+          }),
+        );
+      });
+
+      it('should treat a 403 response as a blocking error', async () => {
+        fetchMock.mockResolvedValue(
+          new Response('Not allowed', { status: 403 }),
+        );
+
+        const result = await hookRunner.executeHook(
+          { type: HookType.Http, url: 'https://hooks.example.com' },
+          HookEventName.BeforeTool,
+          mockInput,
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.exitCode).toBe(2);
+        expect(result.output).toEqual({
+          decision: 'deny',
+          reason: 'Not allowed',
+        });
+      });
+
+      it('should treat other error statuses as non-blocking', async () => {
+        fetchMock.mockResolvedValue(new Response('Down', { status: 503 }));
+
+        const result = await hookRunner.executeHook(
+          { type: HookType.Http, url: 'https://hooks.example.com' },
+          HookEventName.BeforeTool,
+          mockInput,
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.exitCode).toBe(1);
+        expect(result.output).toEqual({
+          decision: 'allow',
+          systemMessage: 'Warning: Down',
+        });
+      });
+
+      it('should report a timeout', async () => {
+        fetchMock.mockRejectedValue(
+          new DOMException('The operation timed out.', 'TimeoutError'),
+        );
+
+        const result = await hookRunner.executeHook(
+          {
+            type: HookType.Http,
+            url: 'https://hooks.example.com',
+            timeout: 50,
+          },
+          HookEventName.BeforeTool,
+          mockInput,
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.error?.message).toBe('Hook timed out after 50ms');
+      });
+    });
+
+    describe('module hooks', () => {
+      let moduleDir: string;
+
+      beforeEach(() => {
+        moduleDir = fs.mkdtempSync(path.join(os.tmpdir(), 'module-hook-'));
+        fs.writeFileSync(
+          path.join(moduleDir, 'hook.mjs'),
+          [
+            'export default (input) => ({ decision: "allow", reason: input.hook_event_name });',
+            'export const block = async () => { throw new Error("blocked"); };',
+            'export const text = () => "checked";',
+            'export const slow = () => new Promise(() => {});',
+          ].join('\n'),
+        );
+      });
+
+      afterEach(() => {
+        fs.rmSync(moduleDir, { recursive: true, force: true });
+      });
+
+      it('should call the default export relative to the project', async () => {
+        const result = await hookRunner.executeHook(
+          { type: HookType.Module, module: './hook.mjs' },
+          HookEventName.BeforeTool,
+          { ...mockInput, cwd: moduleDir },
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.output).toEqual({
+          decision: 'allow',
+          reason: 'BeforeTool',
+        });
+      });
+
+      it('should convert plain text results', async () => {
+        const result = await hookRunner.executeHook(
+          { type: HookType.Module, module: './hook.mjs', export: 'text' },
+          HookEventName.BeforeTool,
+          { ...mockInput, cwd: moduleDir },
+        );
+
+        expect(result.output).toEqual({
+          decision: 'allow',
+          systemMessage: 'checked',
+        });
+      });
+
+      it('should treat thrown errors as non-blocking', async () => {
+        const result = await hookRunner.executeHook(
+          { type: HookType.Module, module: './hook.mjs', export: 'block' },
+          HookEventName.BeforeTool,
+          { ...mockInput, cwd: moduleDir },
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.error?.message).toBe('blocked');
+        expect(result.exitCode).toBe(1);
+      });
+
+      it('should time out slow handlers', async () => {
+        const result = await hookRunner.executeHook(
+          {
+            type: HookType.Module,
+            module: './hook.mjs',
+            export: 'slow',
+            timeout: 20,
+          },
+          HookEventName.BeforeTool,
+          { ...mockInput, cwd: moduleDir },
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.error?.message).toBe('Hook timed out after 20ms');
+      });
+
+      it('should fail when the export is not a function', async () => {
+        const result = await hookRunner.executeHook(
+          { type: HookType.Module, module: './hook.mjs', export: 'missing' },
+          HookEventName.BeforeTool,
+          { ...mockInput, cwd: moduleDir },
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.error?.message).toContain(
+          "does not export a function named 'missing'",
+        );
+      });
+
+      it('should not load project modules in untrusted folders', async () => {
+        vi.mocked(mockConfig.isTrustedFolder).mockReturnValue(false);
+
+        const result = await hookRunner.executeHook(
+          {
+            type: HookType.Module,
+            module: './hook.mjs',
+            source: ConfigSource.Project,
+          },
+          HookEventName.BeforeTool,
+          { ...mockInput, cwd: moduleDir },
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.error?.message).toContain('untrusted folder');
+      });
+    });
   });
 
   describe('executeHooksParallel', () => {
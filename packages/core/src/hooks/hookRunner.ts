@@ -5,8 +5,21 @@
  */
 
 import { spawn } from 'node:child_process';
-import type { HookConfig } from './types.js';
-import { HookEventName, ConfigSource } from './types.js';
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type {
+  CommandHookConfig,
+  HookConfig,
+  HttpHookConfig,
+  ModuleHookConfig,
+  ModuleHookHandler,
+} from './types.js';
+import {
+  HookEventName,
+  ConfigSource,
+  HookType,
+  getHookDisplayName,
+} from './types.js';
 import type { Config } from '../config/config.js';
 import type {
   HookInput,
@@ -39,7 +52,7 @@ const EXIT_CODE_BLOCKING_ERROR = 2;
 const EXIT_CODE_NON_BLOCKING_ERROR = 1;
 
 /**
- * Hook runner that executes command hooks
+ * Hook runner that executes command, HTTP and module hooks
  */
 export class HookRunner {
   private readonly config: Config;
@@ -76,15 +89,32 @@ export class HookRunner {
     }
 
     try {
-      return await this.executeCommandHook(
-        hookConfig,
-        eventName,
-        input,
-        startTime,
-      );
+      switch (hookConfig.type) {
+        case HookType.Http:
+          return await this.executeHttpHook(
+            hookConfig,
+            eventName,
+            input,
+            startTime,
+          );
+        case HookType.Module:
+          return await this.executeModuleHook(
+            hookConfig,
+            eventName,
+            input,
+            startTime,
+          );
+        default:
+          return await this.executeCommandHook(
+            hookConfig,
+            eventName,
+            input,
+            startTime,
+          );
+      }
     } catch (error) {
       const duration = Date.now() - startTime;
-      const hookId = hookConfig.name || hookConfig.command || 'unknown';
+      const hookId = getHookDisplayName(hookConfig) || 'unknown';
       const errorMessage = `Hook execution failed for event '${eventName}' (hook: ${hookId}): ${error}`;
       debugLogger.warn(`Hook execution error (non-fatal): ${errorMessage}`);
 
@@ -235,7 +265,7 @@ export class HookRunner {
    * Execute a command hook
    */
   private async executeCommandHook(
-    hookConfig: HookConfig,
+    hookConfig: CommandHookConfig,
     eventName: HookEventName,
     input: HookInput,
     startTime: number,
@@ -407,6 +437,184 @@ export class HookRunner {
     });
   }
 
+  /**
+   * Execute an HTTP hook by POSTing the input as JSON. A 2xx response
+   * succeeds, a 403 response blocks, and any other status is a non-blocking
+   * error, mirroring the exit codes of command hooks.
+   */
+  private async executeHttpHook(
+    hookConfig: HttpHookConfig,
+    eventName: HookEventName,
+    input: HookInput,
+    startTime: number,
+  ): Promise<HookExecutionResult> {
+    const timeout = hookConfig.timeout ?? DEFAULT_HOOK_TIMEOUT;
+    const env = {
+      ...process.env,
+      GEMINI_PROJECT_DIR: input.cwd,
+      ...hookConfig.env,
+    };
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    for (const [key, value] of Object.entries(hookConfig.headers ?? {})) {
+      headers[key] = this.expandEnvironmentVariables(value, env);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(
+        this.expandEnvironmentVariables(hookConfig.url, env),
+        {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(input),
+          signal: AbortSignal.timeout(timeout),
+        },
+      );
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === 'TimeoutError';
+      return {
+        hookConfig,
+        eventName,
+        success: false,
+        error: timedOut
+          ? new Error(`Hook timed out after ${timeout}ms`)
+          : error instanceof Error
+            ? error
+            : new Error(String(error)),
+        duration: Date.now() - startTime,
+      };
+    }
+
+    const body = (await response.text()).trim();
+    const exitCode = response.ok
+      ? EXIT_CODE_SUCCESS
+      : response.status === 403
+        ? EXIT_CODE_BLOCKING_ERROR
+        : EXIT_CODE_NON_BLOCKING_ERROR;
+
+    return {
+      hookConfig,
+      eventName,
+      success: response.ok,
+      output: body ? this.parseHookOutput(body, exitCode) : undefined,
+      stdout: response.ok ? body : undefined,
+      stderr: response.ok ? undefined : body || response.statusText,
+      exitCode,
+      duration: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Execute a module hook by calling the handler exported by a local ES
+   * module. Thrown errors are treated as non-blocking errors.
+   */
+  private async executeModuleHook(
+    hookConfig: ModuleHookConfig,
+    eventName: HookEventName,
+    input: HookInput,
+    startTime: number,
+  ): Promise<HookExecutionResult> {
+    const timeout = hookConfig.timeout ?? DEFAULT_HOOK_TIMEOUT;
+    const modulePath = path.resolve(
+      input.cwd,
+      hookConfig.module
+        .replace(/\$GEMINI_PROJECT_DIR/g, () => input.cwd)
+        .replace(/\$CLAUDE_PROJECT_DIR/g, () => input.cwd),
+    );
+    const exportName = hookConfig.export ?? 'default';
+
+    const loaded: Record<string, unknown> = await import(
+      pathToFileURL(modulePath).href
+    );
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+    const handler = loaded[exportName] as ModuleHookHandler | undefined;
+    if (typeof handler !== 'function') {
+      throw new Error(
+        `Module ${modulePath} does not export a function named '${exportName}'`,
+      );
+    }
+
+    let timeoutHandle: NodeJS.Timeout | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timeoutHandle = setTimeout(
+        () => reject(new Error(`Hook timed out after ${timeout}ms`)),
+        timeout,
+      );
+    });
+
+    try {
+      const result = await Promise.race([
+        handler(structuredClone(input)),
+        timeoutPromise,
+      ]);
+      return {
+        hookConfig,
+        eventName,
+        success: true,
+        output:
+          typeof result === 'string'
+            ? result.trim()
+              ? this.convertPlainTextToHookOutput(
+                  result.trim(),
+                  EXIT_CODE_SUCCESS,
+                )
+              : undefined
+            : (result ?? undefined),
+        exitCode: EXIT_CODE_SUCCESS,
+        duration: Date.now() - startTime,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        hookConfig,
+        eventName,
+        success: false,
+        error: error instanceof Error ? error : new Error(message),
+        output: this.convertPlainTextToHookOutput(
+          message,
+          EXIT_CODE_NON_BLOCKING_ERROR,
+        ),
+        exitCode: EXIT_CODE_NON_BLOCKING_ERROR,
+        duration: Date.now() - startTime,
+      };
+    } finally {
+      clearTimeout(timeoutHandle);
+    }
+  }
+
+  /**
+   * Parse a JSON hook response, falling back to plain text
+   */
+  private parseHookOutput(text: string, exitCode: number): HookOutput {
+    if (exitCode === EXIT_CODE_SUCCESS) {
+      try {
+        const parsed: unknown = JSON.parse(text);
+        if (parsed && typeof parsed === 'object') {
+          return parsed as HookOutput;
+        }
+      } catch {
+        // Not JSON, handled as plain text below
+      }
+    }
+    return this.convertPlainTextToHookOutput(text, exitCode);
+  }
+
+  /**
+   * Expand $VAR and ${VAR} references, leaving unknown variables empty
+   */
+  private expandEnvironmentVariables(
+    value: string,
+    env: Record<string, string | undefined>,
+  ): string {
+    return value.replace(
+      /\$\{([A-Za-z_][A-Za-z0-9_]*)\}|\$([A-Za-z_][A-Za-z0-9_]*)/g,
+      (_, braced: string | undefined, bare: string | undefined) =>
+        env[braced ?? bare ?? ''] ?? '',
+    );
+  }
+
   /**
    * Expand command with environment variables and input context
    */
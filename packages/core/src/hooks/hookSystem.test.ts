@@ -162,7 +162,7 @@ describe('HookSystem Integration', () => {
             {
               hooks: [
                 {
-                  type: 'invalid-type' as HookType, // Invalid hook type for testing
+                  type: 'invalid-type' as HookType.Command, // Invalid hook type for testing
                   command: './test.sh',
                 },
               ],
@@ -8,7 +8,9 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import * as fs from 'node:fs';
 import { TrustedHooksManager } from './trustedHooks.js';
 import { Storage } from '../config/storage.js';
-import { HookEventName, HookType } from './types.js';
+import { HookEventName, HookType, type HookDefinition } from './types.js';
+
+type HooksConfig = { [K in HookEventName]?: HookDefinition[] };
 
 vi.mock('node:fs');
 vi.mock('../config/storage.js');
@@ -68,7 +70,7 @@ describe('TrustedHooksManager', () => {
       vi.mocked(fs.existsSync).mockReturnValue(false);
       const manager = new TrustedHooksManager();
 
-      const projectHooks = {
+      const projectHooks: HooksConfig = {
         [HookEventName.BeforeTool]: [
           {
             hooks: [
@@ -106,7 +108,7 @@ describe('TrustedHooksManager', () => {
       vi.mocked(fs.existsSync).mockReturnValue(false);
       const manager = new TrustedHooksManager();
 
-      const projectHooks = {
+      const projectHooks: HooksConfig = {
         [HookEventName.BeforeTool]: [
           {
             hooks: [{ type: HookType.Command, command: './script.sh' }],
@@ -123,7 +125,7 @@ describe('TrustedHooksManager', () => {
       vi.mocked(fs.existsSync).mockReturnValue(false);
       const manager = new TrustedHooksManager();
 
-      const originalHook = {
+      const originalHook: HooksConfig = {
         [HookEventName.BeforeTool]: [
           {
             hooks: [
@@ -132,7 +134,7 @@ describe('TrustedHooksManager', () => {
           },
         ],
       };
-      const updatedHook = {
+      const updatedHook: HooksConfig = {
         [HookEventName.BeforeTool]: [
           {
             hooks: [
@@ -179,5 +181,35 @@ describe('TrustedHooksManager', () => {
         recursive: true,
       });
     });
+
+    it('should detect a change in the url or module as untrusted', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(false);
+      const manager = new TrustedHooksManager();
+
+      manager.trustHooks('/project', {
+        [HookEventName.BeforeTool]: [
+          {
+            hooks: [
+              { name: 'notify', type: HookType.Http, url: 'https://a.dev' },
+              { name: 'audit', type: HookType.Module, module: './audit.mjs' },
+            ],
+          },
+        ],
+      });
+
+      expect(
+        manager.getUntrustedHooks('/project', {
+          [HookEventName.BeforeTool]: [
+            {
+              hooks: [
+                { name: 'notify', type: HookType.Http, url: 'https://b.dev' },
+                { name: 'audit', type: HookType.Module, module: './audit.mjs' },
+                { type: HookType.Module, module: './other.mjs' },
+              ],
+            },
+          ],
+        }),
+      ).toEqual(['notify', './other.mjs']);
+    });
   });
 });
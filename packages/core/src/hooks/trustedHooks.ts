@@ -8,6 +8,7 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { Storage } from '../config/storage.js';
 import {
+  getHookDisplayName,
   getHookKey,
   type HookDefinition,
   type HookEventName,
@@ -15,7 +16,7 @@ import {
 import { debugLogger } from '../utils/debugLogger.js';
 
 interface TrustedHooksConfig {
-  [projectPath: string]: string[]; // Array of trusted hook keys (name:command)
+  [projectPath: string]: string[]; // Array of trusted hook keys (see getHookKey)
 }
 
 export class TrustedHooksManager {
@@ -80,8 +81,8 @@ export class TrustedHooksManager {
         for (const hook of def.hooks) {
           const key = getHookKey(hook);
           if (!trustedKeys.has(key)) {
-            // Return friendly name or command
-            untrusted.push(hook.name || hook.command || 'unknown-hook');
+            // Return friendly name or what the hook runs
+            untrusted.push(getHookDisplayName(hook) || 'unknown-hook');
           }
         }
       }
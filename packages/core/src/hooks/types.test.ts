@@ -7,6 +7,8 @@
 import { describe, it, expect, vi } from 'vitest';
 import {
   createHookOutput,
+  getHookDisplayName,
+  getHookKey,
   DefaultHookOutput,
   BeforeModelHookOutput,
   BeforeToolSelectionHookOutput,
@@ -67,6 +69,43 @@ describe('Hook Types', () => {
       expect(HookType.Command).toBe('command');
     });
   });
+
+  describe('getHookKey', () => {
+    it('should keep the name:command format for command hooks', () => {
+      expect(
+        getHookKey({ type: HookType.Command, name: 'lint', command: './l.sh' }),
+      ).toBe('lint:./l.sh');
+    });
+
+    it('should include the type and target for http and module hooks', () => {
+      expect(
+        getHookKey({ type: HookType.Http, url: 'https://example.com/hook' }),
+      ).toBe(':http:https://example.com/hook');
+      expect(
+        getHookKey({
+          type: HookType.Module,
+          name: 'audit',
+          module: './hooks/audit.mjs',
+          export: 'beforeTool',
+        }),
+      ).toBe('audit:module:./hooks/audit.mjs#beforeTool');
+    });
+  });
+
+  describe('getHookDisplayName', () => {
+    it('should fall back to what the hook runs', () => {
+      expect(
+        getHookDisplayName({ type: HookType.Http, url: 'https://a.dev/h' }),
+      ).toBe('https://a.dev/h');
+      expect(
+        getHookDisplayName({
+          type: HookType.Module,
+          name: 'audit',
+          module: './audit.mjs',
+        }),
+      ).toBe('audit');
+    });
+  });
 });
 
 describe('Hook Output Classes', () => {
@@ -50,11 +50,9 @@ export enum HookEventName {
 export const HOOKS_CONFIG_FIELDS = ['enabled', 'disabled', 'notifications'];
 
 /**
- * Hook configuration entry
+ * Fields shared by all hook configuration entries
  */
-export interface CommandHookConfig {
-  type: HookType.Command;
-  command: string;
+interface BaseHookConfig {
   name?: string;
   description?: string;
   timeout?: number;
@@ -62,7 +60,44 @@ export interface CommandHookConfig {
   env?: Record<string, string>;
 }
 
-export type HookConfig = CommandHookConfig;
+/**
+ * Hook that runs a shell command with the hook input on stdin
+ */
+export interface CommandHookConfig extends BaseHookConfig {
+  type: HookType.Command;
+  command: string;
+}
+
+/**
+ * Hook that POSTs the hook input as JSON to a URL. Environment variables
+ * in the URL and header values are expanded.
+ */
+export interface HttpHookConfig extends BaseHookConfig {
+  type: HookType.Http;
+  url: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Hook that calls a handler exported by a local ES module. Relative paths
+ * are resolved against the project directory.
+ */
+export interface ModuleHookConfig extends BaseHookConfig {
+  type: HookType.Module;
+  module: string;
+  /** Name of the exported handler, defaults to the default export. */
+  export?: string;
+}
+
+export type HookConfig = CommandHookConfig | HttpHookConfig | ModuleHookConfig;
+
+/**
+ * Handler exported by a module hook. It receives the hook input and returns
+ * the hook output, a plain text message, or nothing.
+ */
+export type ModuleHookHandler = (
+  input: HookInput,
+) => HookOutput | string | void | Promise<HookOutput | string | void>;
 
 /**
  * Hook definition with matcher
@@ -78,6 +113,29 @@ export interface HookDefinition {
  */
 export enum HookType {
   Command = 'command',
+  Http = 'http',
+  Module = 'module',
+}
+
+/**
+ * Get what a hook runs: its command, URL or module path
+ */
+export function getHookTarget(hook: HookConfig): string | undefined {
+  switch (hook.type) {
+    case HookType.Http:
+      return hook.url;
+    case HookType.Module:
+      return hook.export ? `${hook.module}#${hook.export}` : hook.module;
+    default:
+      return hook.command;
+  }
+}
+
+/**
+ * Get a hook's name for display, falling back to what it runs
+ */
+export function getHookDisplayName(hook: HookConfig): string | undefined {
+  return hook.name || getHookTarget(hook);
 }
 
 /**
@@ -85,8 +143,12 @@ export enum HookType {
  */
 export function getHookKey(hook: HookConfig): string {
   const name = hook.name || '';
-  const command = hook.command || '';
-  return `${name}:${command}`;
+  const target = getHookTarget(hook) || '';
+  // Command hooks keep the original name:command format so that hooks
+  // trusted before other types existed stay trusted.
+  return hook.type === HookType.Http || hook.type === HookType.Module
+    ? `${name}:${hook.type}:${target}`
+    : `${name}:${target}`;
 }
 
 /**
@@ -21,6 +21,7 @@ import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
 import { detectIde, IDE_DEFINITIONS } from './detect-ide.js';
 import * as os from 'node:os';
+import { coreEvents, CoreEvent } from '../utils/events.js';
 
 import {
   getConnectionConfigFromFile,
@@ -309,6 +310,78 @@ describe('IdeClient', () => {
     });
   });
 
+  describe('hasTool', () => {
+    it('should return false if not connected', async () => {
+      const ideClient = await IdeClient.getInstance();
+      expect(ideClient.hasTool('getDiagnostics')).toBe(false);
+    });
+
+    it('should return true only for tools the IDE provides', async () => {
+      vi.mocked(getConnectionConfigFromFile).mockResolvedValue({
+        port: '8080',
+      });
+      vi.mocked(validateWorkspacePath).mockReturnValue({ isValid: true });
+      mockClient.request.mockResolvedValue({
+        tools: [{ name: 'getDiagnostics' }],
+      });
+      const onToolsChanged = vi.fn();
+      coreEvents.on(CoreEvent.IdeToolsChanged, onToolsChanged);
+
+      const ideClient = await IdeClient.getInstance();
+      await ideClient.connect();
+      coreEvents.off(CoreEvent.IdeToolsChanged, onToolsChanged);
+
+      expect(ideClient.hasTool('getDiagnostics')).toBe(true);
+      expect(ideClient.hasTool('findSymbols')).toBe(false);
+      expect(onToolsChanged).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('callTool', () => {
+    it('should throw if the client is not connected', async () => {
+      const ideClient = await IdeClient.getInstance();
+      (ideClient as unknown as { client: Client | undefined }).client =
+        undefined;
+
+      await expect(ideClient.callTool('findSymbols', {})).rejects.toThrow(
+        'IDE client is not connected.',
+      );
+    });
+
+    it('should return the text of the response', async () => {
+      const ideClient = await IdeClient.getInstance();
+      (ideClient as unknown as { client: Client }).client = mockClient;
+      mockClient.request.mockResolvedValue({
+        content: [{ type: 'text', text: '{"symbols":[]}' }],
+      });
+
+      await expect(
+        ideClient.callTool('findSymbols', { query: 'main' }),
+      ).resolves.toBe('{"symbols":[]}');
+      expect(mockClient.request).toHaveBeenCalledWith(
+        {
+          method: 'tools/call',
+          params: { name: 'findSymbols', arguments: { query: 'main' } },
+        },
+        expect.any(Object), // Schema
+        expect.any(Object), // Options
+      );
+    });
+
+    it('should throw the error text if the tool fails', async () => {
+      const ideClient = await IdeClient.getInstance();
+      (ideClient as unknown as { client: Client }).client = mockClient;
+      mockClient.request.mockResolvedValue({
+        isError: true,
+        content: [{ type: 'text', text: 'Symbol not found' }],
+      });
+
+      await expect(
+        ideClient.callTool('getDefinition', { symbol: 'main' }),
+      ).rejects.toThrow('Symbol not found');
+    });
+  });
+
   describe('resolveDiffFromCli', () => {
     beforeEach(async () => {
       // Ensure client is "connected" for these tests
@@ -20,6 +20,7 @@ import { CallToolResultSchema } from '@modelcontextprotocol/sdk/types.js';
 import { ListToolsResultSchema } from '@modelcontextprotocol/sdk/types.js';
 import { IDE_REQUEST_TIMEOUT_MS } from './constants.js';
 import { debugLogger } from '../utils/debugLogger.js';
+import { coreEvents } from '../utils/events.js';
 import {
   getConnectionConfigFromFile,
   getIdeServerHost,
@@ -420,6 +421,42 @@ export class IdeClient {
     );
   }
 
+  /**
+   * Returns true if the IDE is connected and provides the named tool.
+   */
+  hasTool(name: string): boolean {
+    return (
+      !!this.client &&
+      this.state.status === IDEConnectionStatus.Connected &&
+      this.availableTools.includes(name)
+    );
+  }
+
+  /**
+   * Calls a tool provided by the IDE and returns the text it responded with.
+   * Throws if the IDE is not connected or the tool reports an error.
+   */
+  async callTool(name: string, args: Record<string, unknown>): Promise<string> {
+    if (!this.client) {
+      throw new Error('IDE client is not connected.');
+    }
+    const result = await this.client.request(
+      {
+        method: 'tools/call',
+        params: { name, arguments: args },
+      },
+      CallToolResultSchema,
+      { timeout: IDE_REQUEST_TIMEOUT_MS },
+    );
+    const text = result.content
+      .map((part) => (part.type === 'text' ? part.text : ''))
+      .join('');
+    if (result.isError) {
+      throw new Error(text || `Tool '${name}' reported an error.`);
+    }
+    return text;
+  }
+
   private async discoverTools(): Promise<void> {
     if (!this.client) {
       return;
@@ -488,6 +525,11 @@ export class IdeClient {
     if (status === IDEConnectionStatus.Disconnected) {
       ideContextStore.clear();
     }
+    if (!isAlreadyDisconnected && status !== IDEConnectionStatus.Connecting) {
+      // The IDE's tools become usable once connected and unusable once
+      // disconnected.
+      coreEvents.emitIdeToolsChanged();
+    }
   }
 
   private registerClientHandlers() {
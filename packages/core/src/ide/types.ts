@@ -146,3 +146,84 @@ export const CloseDiffRequestSchema = z.object({
    */
   suppressNotification: z.boolean().optional(),
 });
+
+/**
+ * The request for the diagnostics the IDE shows in its problems panel.
+ */
+export const GetDiagnosticsRequestSchema = z.object({
+  /**
+   * The absolute path to a file. If omitted, diagnostics for all files are
+   * returned.
+   */
+  filePath: z.string().optional(),
+});
+
+/**
+ * The request to find the definitions or references of a symbol.
+ */
+export const SymbolPositionRequestSchema = z.object({
+  /**
+   * The absolute path to the file containing the symbol.
+   */
+  filePath: z.string(),
+  /**
+   * The 1-based line the symbol appears on.
+   */
+  line: z.number().int().min(1),
+  /**
+   * The symbol as written on that line.
+   */
+  symbol: z.string(),
+});
+
+/**
+ * The request to search the symbols of the workspace.
+ */
+export const FindSymbolsRequestSchema = z.object({
+  /**
+   * The text to search symbol names for.
+   */
+  query: z.string(),
+});
+
+/**
+ * A 1-based position in a file.
+ */
+export const IdeLocationSchema = z.object({
+  filePath: z.string(),
+  line: z.number(),
+  character: z.number(),
+});
+
+/**
+ * The diagnostics returned for a GetDiagnosticsRequest.
+ */
+export const GetDiagnosticsResponseSchema = z.object({
+  diagnostics: z.array(
+    IdeLocationSchema.extend({
+      severity: z.enum(['error', 'warning', 'info', 'hint']),
+      message: z.string(),
+      source: z.string().optional(),
+    }),
+  ),
+});
+
+/**
+ * The definitions or references returned for a SymbolPositionRequest.
+ */
+export const LocationsResponseSchema = z.object({
+  locations: z.array(IdeLocationSchema),
+});
+
+/**
+ * The symbols returned for a FindSymbolsRequest.
+ */
+export const FindSymbolsResponseSchema = z.object({
+  symbols: z.array(
+    IdeLocationSchema.extend({
+      name: z.string(),
+      kind: z.string(),
+      containerName: z.string().optional(),
+    }),
+  ),
+});
@@ -13,10 +13,15 @@ export * from './config/constants.js';
 export * from './output/types.js';
 export * from './output/json-formatter.js';
 export * from './output/stream-json-formatter.js';
+export * from './output/sarif-formatter.js';
+export * from './output/junit-formatter.js';
+export * from './output/run-report.js';
 export * from './policy/types.js';
 export * from './policy/policy-engine.js';
 export * from './policy/toml-loader.js';
 export * from './policy/config.js';
+export * from './policy/matchers.js';
+export { createCheckerRunner } from './safety/checker-runner.js';
 export * from './confirmation-bus/types.js';
 export * from './confirmation-bus/message-bus.js';
 
@@ -53,6 +58,7 @@ export * from './code_assist/types.js';
 export * from './code_assist/telemetry.js';
 export * from './code_assist/admin/admin_controls.js';
 export * from './code_assist/admin/mcpUtils.js';
+export * from './openai/openaiContentGenerator.js';
 export * from './core/apiKeyCredentialStorage.js';
 
 // Export utilities
@@ -100,6 +106,7 @@ export * from './utils/extensionLoader.js';
 export * from './utils/package.js';
 export * from './utils/version.js';
 export * from './utils/checkpointUtils.js';
+export * from './utils/patchUtils.js';
 export * from './utils/secure-browser-launcher.js';
 export * from './utils/apiConversionUtils.js';
 export * from './utils/channel.js';
@@ -108,7 +115,10 @@ export * from './utils/constants.js';
 // Export services
 export * from './services/fileDiscoveryService.js';
 export * from './services/gitService.js';
+export * from './services/worktreeService.js';
 export * from './services/chatRecordingService.js';
+export * from './services/budgetService.js';
+export * from './services/semanticIndexService.js';
 export * from './services/fileSystemService.js';
 export * from './services/sessionSummaryUtils.js';
 export * from './services/contextManager.js';
@@ -140,6 +150,7 @@ export * from './prompts/mcp-prompts.js';
 export * from './agents/types.js';
 export * from './agents/agentLoader.js';
 export * from './agents/local-executor.js';
+export * from './agents/parallel-subagent-tool.js';
 
 // Export specific tool logic
 export * from './tools/read-file.js';
@@ -149,14 +160,30 @@ export * from './tools/ripGrep.js';
 export * from './tools/glob.js';
 export * from './tools/edit.js';
 export * from './tools/write-file.js';
+export * from './tools/apply-patch.js';
 export * from './tools/web-fetch.js';
 export * from './tools/memoryTool.js';
 export * from './tools/shell.js';
 export * from './tools/web-search.js';
+export type {
+  WebSearchProviderName,
+  WebSearchSettings,
+} from './tools/web-search-providers.js';
 export * from './tools/read-many-files.js';
 export * from './tools/mcp-client.js';
 export * from './tools/mcp-tool.js';
 export * from './tools/write-todos.js';
+export * from './tools/report-finding.js';
+export * from './tools/semantic-search.js';
+export * from './lsp/lsp-manager.js';
+export type { LspServerConfig, LspSettings } from './lsp/types.js';
+export * from './tools/find-definition.js';
+export * from './tools/find-references.js';
+export * from './tools/document-symbols.js';
+export * from './tools/rename-symbol.js';
+export * from './tools/read-shell-output.js';
+export * from './tools/write-shell-input.js';
+export * from './tools/kill-shell.js';
 
 // MCP OAuth
 export { MCPOAuthProvider } from './mcp/oauth-provider.js';
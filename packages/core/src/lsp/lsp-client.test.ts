@@ -0,0 +1,258 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { PassThrough } from 'node:stream';
+import { LspClient, LspRequestError } from './lsp-client.js';
+import { pathToUri } from './lsp-utils.js';
+import type { JsonRpcMessage } from './types.js';
+
+/**
+ * An in-memory language server that records the messages it receives and
+ * answers requests with the registered handlers.
+ */
+class FakeServer {
+  readonly toClient = new PassThrough();
+  readonly fromClient = new PassThrough();
+  readonly received: JsonRpcMessage[] = [];
+  handlers: Record<string, (params: unknown) => unknown> = {};
+  /** Requests the server never answers. */
+  readonly unanswered = new Set<string>();
+  private buffer = '';
+
+  constructor() {
+    this.fromClient.on('data', (chunk: Buffer) => {
+      this.buffer += chunk.toString('utf-8');
+      let match;
+      while ((match = /^Content-Length: (\d+)\r\n\r\n/.exec(this.buffer))) {
+        const start = match[0].length;
+        const end = start + parseInt(match[1], 10);
+        if (this.buffer.length < end) {
+          return;
+        }
+        const message = JSON.parse(this.buffer.slice(start, end));
+        this.buffer = this.buffer.slice(end);
+        this.handle(message);
+      }
+    });
+  }
+
+  send(message: object): void {
+    const body = JSON.stringify({ jsonrpc: '2.0', ...message });
+    this.toClient.write(
+      `Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`,
+    );
+  }
+
+  private handle(message: JsonRpcMessage): void {
+    this.received.push(message);
+    if (
+      message.id === undefined ||
+      !message.method ||
+      this.unanswered.has(message.method)
+    ) {
+      return;
+    }
+    const handler = this.handlers[message.method];
+    if (handler) {
+      this.send({ id: message.id, result: handler(message.params) });
+    } else {
+      this.send({
+        id: message.id,
+        error: { code: -32601, message: 'not implemented' },
+      });
+    }
+  }
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('LspClient', () => {
+  let server: FakeServer;
+  let client: LspClient;
+  let testDir: string;
+
+  beforeEach(() => {
+    server = new FakeServer();
+    client = new LspClient(server.toClient, server.fromClient);
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lsp-client-test-'));
+  });
+
+  afterEach(() => {
+    client.dispose();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should initialize the server', async () => {
+    server.handlers['initialize'] = () => ({ capabilities: {} });
+
+    await client.initialize(testDir);
+    await flush();
+
+    expect(server.received.map((m) => m.method)).toEqual([
+      'initialize',
+      'initialized',
+    ]);
+    expect(server.received[0].params).toMatchObject({
+      rootUri: pathToUri(testDir),
+    });
+  });
+
+  it('should handle responses split across chunks', async () => {
+    server.unanswered.add('custom/echo');
+    const result = client.request('custom/echo', {});
+    await flush();
+    const body = JSON.stringify({ jsonrpc: '2.0', id: 1, result: 'héllo' });
+    const message = `Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`;
+    server.toClient.write(message.slice(0, 10));
+    server.toClient.write(message.slice(10));
+
+    await expect(result).resolves.toBe('héllo');
+  });
+
+  it('should reject with the server error', async () => {
+    await expect(client.request('textDocument/rename', {})).rejects.toThrow(
+      LspRequestError,
+    );
+  });
+
+  it('should reject pending requests when the server exits', async () => {
+    server.unanswered.add('textDocument/definition');
+    const result = client.request('textDocument/definition', {});
+    await flush();
+    server.toClient.destroy();
+
+    await expect(result).rejects.toThrow(
+      'Language server exited before textDocument/definition',
+    );
+  });
+
+  it('should answer configuration requests from the server', async () => {
+    server.send({
+      id: 7,
+      method: 'workspace/configuration',
+      params: { items: [{ section: 'a' }, { section: 'b' }] },
+    });
+    await flush();
+    await flush();
+
+    expect(server.received).toContainEqual({
+      jsonrpc: '2.0',
+      id: 7,
+      result: [null, null],
+    });
+  });
+
+  it('should open a document once and send changes afterwards', async () => {
+    const filePath = path.join(testDir, 'main.ts');
+    fs.writeFileSync(filePath, 'let a = 1;');
+
+    await client.syncDocument(filePath);
+    fs.writeFileSync(filePath, 'let a = 2;');
+    await client.syncDocument(filePath);
+    await flush();
+
+    expect(server.received[0]).toMatchObject({
+      method: 'textDocument/didOpen',
+      params: {
+        textDocument: { languageId: 'typescript', version: 1 },
+      },
+    });
+    expect(server.received[1]).toMatchObject({
+      method: 'textDocument/didChange',
+      params: {
+        textDocument: { version: 2 },
+        contentChanges: [{ text: 'let a = 2;' }],
+      },
+    });
+  });
+
+  it('should resync other open documents that changed before a rename', async () => {
+    const mainPath = path.join(testDir, 'main.ts');
+    const otherPath = path.join(testDir, 'other.ts');
+    fs.writeFileSync(mainPath, 'export const count = 1;');
+    fs.writeFileSync(otherPath, 'import { count } from "./main";');
+    await client.syncDocument(mainPath);
+    await client.syncDocument(otherPath);
+
+    fs.writeFileSync(otherPath, '\nimport { count } from "./main";');
+    await client.syncOpenDocuments();
+    server.handlers['textDocument/rename'] = () => ({ changes: {} });
+    await client.request('textDocument/rename', { newName: 'total' });
+
+    expect(server.received.slice(2).map((m) => m.method)).toEqual([
+      'textDocument/didChange',
+      'textDocument/rename',
+    ]);
+    expect(server.received[2].params).toMatchObject({
+      textDocument: { uri: pathToUri(otherPath), version: 2 },
+      contentChanges: [{ text: '\nimport { count } from "./main";' }],
+    });
+  });
+
+  it('should close open documents whose files were deleted', async () => {
+    const filePath = path.join(testDir, 'main.ts');
+    fs.writeFileSync(filePath, 'let a = 1;');
+    await client.syncDocument(filePath);
+
+    fs.rmSync(filePath);
+    await client.syncOpenDocuments();
+    await client.syncOpenDocuments();
+    await flush();
+
+    expect(server.received.map((m) => m.method)).toEqual([
+      'textDocument/didOpen',
+      'textDocument/didClose',
+    ]);
+  });
+
+  it('should notify listeners when the server exits', async () => {
+    const onClose = vi.fn();
+    client.onClose(onClose);
+
+    server.toClient.destroy();
+    await flush();
+
+    expect(onClose).toHaveBeenCalledTimes(1);
+    const lateListener = vi.fn();
+    client.onClose(lateListener);
+    expect(lateListener).toHaveBeenCalled();
+  });
+
+  it('should wait for diagnostics published after a change', async () => {
+    const filePath = path.join(testDir, 'main.ts');
+    fs.writeFileSync(filePath, 'let a: string = 1;');
+    const diagnostic = {
+      range: {
+        start: { line: 0, character: 4 },
+        end: { line: 0, character: 5 },
+      },
+      severity: 1,
+      message: "Type 'number' is not assignable to type 'string'.",
+    };
+    server.fromClient.on('data', () => {
+      server.send({
+        method: 'textDocument/publishDiagnostics',
+        params: { uri: pathToUri(filePath), diagnostics: [diagnostic] },
+      });
+    });
+
+    const diagnostics = await client.refreshDiagnostics(filePath, 5000);
+
+    expect(diagnostics).toEqual([diagnostic]);
+    expect(client.getDiagnostics(filePath)).toEqual([diagnostic]);
+  });
+
+  it('should stop waiting for diagnostics after the timeout', async () => {
+    const filePath = path.join(testDir, 'main.ts');
+    fs.writeFileSync(filePath, 'let a = 1;');
+
+    await expect(client.refreshDiagnostics(filePath, 10)).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,397 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { spawn } from 'node:child_process';
+import { EventEmitter } from 'node:events';
+import fs from 'node:fs/promises';
+import type { Readable, Writable } from 'node:stream';
+import { debugLogger } from '../utils/debugLogger.js';
+import { getLspLanguageId, pathToUri } from './lsp-utils.js';
+import type {
+  Diagnostic,
+  JsonRpcMessage,
+  LspServerConfig,
+  PublishDiagnosticsParams,
+} from './types.js';
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+const HEADER_DELIMITER = '\r\n\r\n';
+
+interface OpenDocument {
+  filePath: string;
+  version: number;
+  text: string;
+}
+
+interface PendingRequest {
+  method: string;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Error returned by the language server for a request.
+ */
+export class LspRequestError extends Error {
+  constructor(
+    readonly method: string,
+    readonly code: number,
+    message: string,
+  ) {
+    super(`${method} failed: ${message}`);
+    this.name = 'LspRequestError';
+  }
+}
+
+/**
+ * A minimal Language Server Protocol client speaking JSON-RPC over a pair of
+ * streams, usually the stdio of a spawned language server.
+ */
+export class LspClient {
+  private buffer = Buffer.alloc(0);
+  private nextId = 1;
+  private readonly pending = new Map<number, PendingRequest>();
+  private readonly documents = new Map<string, OpenDocument>();
+  private readonly diagnostics = new Map<string, Diagnostic[]>();
+  private readonly events = new EventEmitter();
+  private closed = false;
+
+  constructor(
+    input: Readable,
+    private readonly output: Writable,
+    private readonly onDispose: () => void = () => {},
+  ) {
+    input.on('data', (chunk: Buffer) => this.handleData(chunk));
+    input.on('close', () => this.handleClose());
+    output.on('error', (error) => {
+      debugLogger.debug('Language server stream error:', error);
+    });
+  }
+
+  /**
+   * Spawns a language server and performs the initialize handshake.
+   */
+  static async start(
+    serverConfig: LspServerConfig,
+    rootDir: string,
+  ): Promise<LspClient> {
+    const child = spawn(serverConfig.command, serverConfig.args ?? [], {
+      cwd: rootDir,
+      env: { ...process.env, ...serverConfig.env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    child.stderr.on('data', (data: Buffer) => {
+      debugLogger.debug(`[${serverConfig.command}] ${data.toString()}`);
+    });
+    const spawned = new Promise<void>((resolve, reject) => {
+      child.once('spawn', resolve);
+      child.once('error', reject);
+    });
+    await spawned;
+
+    const client = new LspClient(child.stdout, child.stdin, () => child.kill());
+    try {
+      await client.initialize(rootDir, serverConfig.initializationOptions);
+    } catch (error) {
+      client.dispose();
+      throw error;
+    }
+    return client;
+  }
+
+  async initialize(
+    rootDir: string,
+    initializationOptions?: unknown,
+  ): Promise<void> {
+    const rootUri = pathToUri(rootDir);
+    await this.request('initialize', {
+      processId: process.pid,
+      rootUri,
+      workspaceFolders: [{ uri: rootUri, name: 'workspace' }],
+      initializationOptions,
+      capabilities: {
+        textDocument: {
+          synchronization: { didSave: false },
+          definition: { linkSupport: true },
+          references: {},
+          documentSymbol: { hierarchicalDocumentSymbolSupport: true },
+          rename: { prepareSupport: false },
+          publishDiagnostics: { versionSupport: true },
+        },
+        workspace: {
+          workspaceEdit: { documentChanges: true },
+          workspaceFolders: true,
+          configuration: true,
+        },
+      },
+    });
+    this.notify('initialized', {});
+  }
+
+  request<T>(
+    method: string,
+    params: unknown,
+    timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS,
+  ): Promise<T> {
+    if (this.closed) {
+      return Promise.reject(
+        new Error(`Language server exited before ${method}`),
+      );
+    }
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`${method} timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+      this.pending.set(id, {
+        method,
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+        resolve: (result) => resolve(result as T),
+        reject,
+        timer,
+      });
+      this.send({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  notify(method: string, params: unknown): void {
+    this.send({ jsonrpc: '2.0', method, params });
+  }
+
+  /**
+   * Sends the current content of a file to the server, opening the document
+   * on first use. Returns the new document version.
+   */
+  async syncDocument(filePath: string): Promise<number> {
+    const uri = pathToUri(filePath);
+    const text = await fs.readFile(filePath, 'utf-8');
+    return this.sendDocument(uri, filePath, text);
+  }
+
+  /**
+   * Sends the content of every open document that changed on disk since it
+   * was last synced, and closes the documents whose files no longer exist, so
+   * the server does not answer from stale text.
+   */
+  async syncOpenDocuments(): Promise<void> {
+    for (const [uri, document] of [...this.documents]) {
+      let text: string;
+      try {
+        text = await fs.readFile(document.filePath, 'utf-8');
+      } catch {
+        this.notify('textDocument/didClose', { textDocument: { uri } });
+        this.documents.delete(uri);
+        continue;
+      }
+      if (text !== document.text) {
+        this.sendDocument(uri, document.filePath, text);
+      }
+    }
+  }
+
+  private sendDocument(uri: string, filePath: string, text: string): number {
+    const version = (this.documents.get(uri)?.version ?? 0) + 1;
+    if (version === 1) {
+      this.notify('textDocument/didOpen', {
+        textDocument: {
+          uri,
+          languageId: getLspLanguageId(filePath),
+          version,
+          text,
+        },
+      });
+    } else {
+      this.notify('textDocument/didChange', {
+        textDocument: { uri, version },
+        contentChanges: [{ text }],
+      });
+    }
+    this.documents.set(uri, { filePath, version, text });
+    return version;
+  }
+
+  getDiagnostics(filePath: string): Diagnostic[] {
+    return this.diagnostics.get(pathToUri(filePath)) ?? [];
+  }
+
+  /**
+   * Syncs a file and waits for the server to publish diagnostics for it.
+   * Resolves with the last known diagnostics if none arrive in time.
+   */
+  async refreshDiagnostics(
+    filePath: string,
+    timeoutMs: number,
+  ): Promise<Diagnostic[]> {
+    const uri = pathToUri(filePath);
+    let onPublish: ((params: PublishDiagnosticsParams) => void) | undefined;
+    let timer: NodeJS.Timeout | undefined;
+    const published = new Promise<void>((resolve) => {
+      onPublish = (params) => {
+        if (params.uri === uri) {
+          resolve();
+        }
+      };
+      this.events.on('diagnostics', onPublish);
+      timer = setTimeout(resolve, timeoutMs);
+    });
+    try {
+      await this.syncDocument(filePath);
+      await published;
+    } finally {
+      clearTimeout(timer);
+      this.events.off('diagnostics', onPublish!);
+    }
+    return this.getDiagnostics(filePath);
+  }
+
+  async shutdown(): Promise<void> {
+    if (!this.closed) {
+      try {
+        await this.request('shutdown', null, 5000);
+        this.notify('exit', null);
+      } catch (error) {
+        debugLogger.debug('Language server did not shut down cleanly:', error);
+      }
+    }
+    this.dispose();
+  }
+
+  /**
+   * Calls `listener` once the connection to the server closes, immediately
+   * if it already has.
+   */
+  onClose(listener: () => void): void {
+    if (this.closed) {
+      listener();
+    } else {
+      this.events.once('close', listener);
+    }
+  }
+
+  dispose(): void {
+    this.handleClose();
+    this.onDispose();
+  }
+
+  private send(message: JsonRpcMessage): void {
+    const body = JSON.stringify(message);
+    this.output.write(
+      `Content-Length: ${Buffer.byteLength(body, 'utf-8')}${HEADER_DELIMITER}${body}`,
+    );
+  }
+
+  private handleData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    while (true) {
+      const headerEnd = this.buffer.indexOf(HEADER_DELIMITER);
+      if (headerEnd === -1) {
+        return;
+      }
+      const header = this.buffer.subarray(0, headerEnd).toString('ascii');
+      const match = /Content-Length: *(\d+)/i.exec(header);
+      if (!match) {
+        debugLogger.warn(`Invalid language server message header: ${header}`);
+        this.buffer = this.buffer.subarray(headerEnd + HEADER_DELIMITER.length);
+        continue;
+      }
+      const bodyStart = headerEnd + HEADER_DELIMITER.length;
+      const bodyEnd = bodyStart + parseInt(match[1], 10);
+      if (this.buffer.length < bodyEnd) {
+        return;
+      }
+      const body = this.buffer.subarray(bodyStart, bodyEnd).toString('utf-8');
+      this.buffer = this.buffer.subarray(bodyEnd);
+      try {
+        this.handleMessage(JSON.parse(body));
+      } catch (error) {
+        debugLogger.warn('Failed to handle language server message:', error);
+      }
+    }
+  }
+
+  private handleMessage(message: JsonRpcMessage): void {
+    if (message.method && message.id !== undefined && message.id !== null) {
+      this.handleServerRequest(message.id, message.method, message.params);
+      return;
+    }
+    if (message.method) {
+      if (message.method === 'textDocument/publishDiagnostics') {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+        const params = message.params as PublishDiagnosticsParams;
+        this.diagnostics.set(params.uri, params.diagnostics);
+        this.events.emit('diagnostics', params);
+      }
+      return;
+    }
+    if (typeof message.id !== 'number') {
+      return;
+    }
+    const pending = this.pending.get(message.id);
+    if (!pending) {
+      return;
+    }
+    this.pending.delete(message.id);
+    clearTimeout(pending.timer);
+    if (message.error) {
+      pending.reject(
+        new LspRequestError(
+          pending.method,
+          message.error.code,
+          message.error.message,
+        ),
+      );
+    } else {
+      pending.resolve(message.result ?? null);
+    }
+  }
+
+  /**
+   * Answers the requests servers commonly send to clients. Anything else is
+   * rejected as unsupported.
+   */
+  private handleServerRequest(
+    id: number | string,
+    method: string,
+    params: unknown,
+  ): void {
+    switch (method) {
+      case 'workspace/configuration': {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+        const items = (params as { items?: unknown[] })?.items ?? [];
+        this.send({ jsonrpc: '2.0', id, result: items.map(() => null) });
+        return;
+      }
+      case 'client/registerCapability':
+      case 'client/unregisterCapability':
+      case 'window/workDoneProgress/create':
+        this.send({ jsonrpc: '2.0', id, result: null });
+        return;
+      default:
+        this.send({
+          jsonrpc: '2.0',
+          id,
+          error: { code: -32601, message: `Unsupported method: ${method}` },
+        });
+    }
+  }
+
+  private handleClose(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(
+        new Error(`Language server exited before ${pending.method}`),
+      );
+    }
+    this.pending.clear();
+    this.events.emit('close');
+  }
+}
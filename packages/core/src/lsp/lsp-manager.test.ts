@@ -0,0 +1,175 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { LspManager } from './lsp-manager.js';
+import type { LspClient } from './lsp-client.js';
+import type { Diagnostic, LspSettings } from './types.js';
+
+describe('LspManager', () => {
+  let testDir: string;
+  let client: {
+    syncDocument: ReturnType<typeof vi.fn>;
+    syncOpenDocuments: ReturnType<typeof vi.fn>;
+    onClose: ReturnType<typeof vi.fn>;
+    refreshDiagnostics: ReturnType<typeof vi.fn>;
+    shutdown: ReturnType<typeof vi.fn>;
+  };
+  let startClient: ReturnType<typeof vi.fn>;
+
+  const settings: LspSettings = {
+    servers: {
+      tsserver: {
+        command: 'typescript-language-server',
+        args: ['--stdio'],
+        languages: ['TypeScript', 'JavaScript'],
+      },
+    },
+    diagnosticsOnEdit: true,
+  };
+
+  const createManager = (overrides: LspSettings = {}) =>
+    new LspManager(
+      testDir,
+      { ...settings, ...overrides },
+      startClient as unknown as typeof LspClient.start,
+    );
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lsp-manager-test-'));
+    fs.writeFileSync(path.join(testDir, 'main.ts'), 'const total = count;\n');
+    client = {
+      syncDocument: vi.fn().mockResolvedValue(1),
+      syncOpenDocuments: vi.fn().mockResolvedValue(undefined),
+      onClose: vi.fn(),
+      refreshDiagnostics: vi.fn().mockResolvedValue([]),
+      shutdown: vi.fn().mockResolvedValue(undefined),
+    };
+    startClient = vi.fn().mockResolvedValue(client);
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should route files to servers by language', () => {
+    const manager = createManager();
+
+    expect(manager.isEnabled()).toBe(true);
+    expect(manager.getServerName('src/app.js')).toBe('tsserver');
+    expect(manager.getServerName('main.py')).toBeUndefined();
+    expect(new LspManager(testDir).isEnabled()).toBe(false);
+  });
+
+  it('should start each server once and sync the requested file', async () => {
+    const manager = createManager();
+    const filePath = path.join(testDir, 'main.ts');
+
+    await manager.getClient(filePath);
+    await manager.getClient(filePath);
+
+    expect(startClient).toHaveBeenCalledTimes(1);
+    expect(startClient).toHaveBeenCalledWith(
+      settings.servers!['tsserver'],
+      testDir,
+    );
+    expect(client.syncDocument).toHaveBeenCalledTimes(2);
+    expect(client.syncOpenDocuments).toHaveBeenCalledTimes(2);
+  });
+
+  it('should start a new server after the previous one exits', async () => {
+    const manager = createManager();
+    const filePath = path.join(testDir, 'main.ts');
+
+    await manager.getClient(filePath);
+    const [onExit] = client.onClose.mock.calls[0];
+    onExit();
+    await manager.getClient(filePath);
+
+    expect(startClient).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry starting a server that failed to start', async () => {
+    startClient.mockRejectedValueOnce(new Error('ENOENT'));
+    const manager = createManager();
+    const filePath = path.join(testDir, 'main.ts');
+
+    await expect(manager.getClient(filePath)).rejects.toThrow('ENOENT');
+    await expect(manager.getClient(filePath)).resolves.toBe(client);
+  });
+
+  it('should reject files without a configured server', async () => {
+    await expect(createManager().getClient('main.py')).rejects.toThrow(
+      'No language server is configured for Python files.',
+    );
+  });
+
+  it('should locate a symbol on a line', async () => {
+    const filePath = path.join(testDir, 'main.ts');
+
+    const located = await createManager().locateSymbol(filePath, 1, 'count');
+
+    expect(located?.position.position).toEqual({ line: 0, character: 14 });
+    expect(
+      await createManager().locateSymbol(filePath, 1, 'missing'),
+    ).toBeUndefined();
+  });
+
+  describe('getDiagnosticsAfterEdit', () => {
+    const filePath = () => path.join(testDir, 'main.ts');
+    const diagnostic = (severity: number, message: string): Diagnostic => ({
+      range: {
+        start: { line: 0, character: 14 },
+        end: { line: 0, character: 19 },
+      },
+      severity,
+      message,
+    });
+
+    it('should format errors and warnings but skip hints', async () => {
+      client.refreshDiagnostics.mockResolvedValue([
+        diagnostic(4, 'hint'),
+        diagnostic(1, "Cannot find name 'count'."),
+      ]);
+
+      expect(await createManager().getDiagnosticsAfterEdit(filePath())).toBe(
+        "Diagnostics for main.ts:\n1:15 error: Cannot find name 'count'.",
+      );
+    });
+
+    it('should return undefined when disabled or clean', async () => {
+      expect(
+        await createManager({
+          diagnosticsOnEdit: false,
+        }).getDiagnosticsAfterEdit(filePath()),
+      ).toBeUndefined();
+      expect(
+        await createManager().getDiagnosticsAfterEdit(filePath()),
+      ).toBeUndefined();
+      expect(startClient).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return undefined when the server fails', async () => {
+      startClient.mockRejectedValue(new Error('crashed'));
+
+      expect(
+        await createManager().getDiagnosticsAfterEdit(filePath()),
+      ).toBeUndefined();
+    });
+  });
+
+  it('should shut down started servers', async () => {
+    const manager = createManager();
+    await manager.getClient(path.join(testDir, 'main.ts'));
+
+    await manager.stop();
+
+    expect(client.shutdown).toHaveBeenCalled();
+  });
+});
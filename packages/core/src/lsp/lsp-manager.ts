@@ -0,0 +1,160 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'node:fs/promises';
+import { getLanguageFromFilePath } from '../utils/language-detection.js';
+import { debugLogger } from '../utils/debugLogger.js';
+import { LspClient } from './lsp-client.js';
+import { formatDiagnostics, pathToUri, resolvePosition } from './lsp-utils.js';
+import {
+  DiagnosticSeverity,
+  type LspSettings,
+  type TextDocumentPositionParams,
+} from './types.js';
+
+const DIAGNOSTICS_TIMEOUT_MS = 3000;
+const MAX_REPORTED_DIAGNOSTICS = 20;
+
+/**
+ * Starts the configured language servers on demand, one per server entry, and
+ * routes files to them by language.
+ */
+export class LspManager {
+  private readonly clients = new Map<string, Promise<LspClient>>();
+
+  constructor(
+    private readonly rootDir: string,
+    private readonly settings: LspSettings = {},
+    private readonly startClient: typeof LspClient.start = LspClient.start,
+  ) {}
+
+  isEnabled(): boolean {
+    return Object.keys(this.settings.servers ?? {}).length > 0;
+  }
+
+  /**
+   * Returns the name of the server handling a file, if any.
+   */
+  getServerName(filePath: string): string | undefined {
+    const language = getLanguageFromFilePath(filePath);
+    if (!language) {
+      return undefined;
+    }
+    return Object.entries(this.settings.servers ?? {}).find(([, server]) =>
+      server.languages.some(
+        (candidate) => candidate.toLowerCase() === language.toLowerCase(),
+      ),
+    )?.[0];
+  }
+
+  /**
+   * Returns a client for the server handling a file, starting it if needed,
+   * with the file's current content and any changes to the other open
+   * documents synced to the server. A server that exits is started again on
+   * the next call.
+   *
+   * @throws if no server is configured for the file's language or the server
+   * fails to start.
+   */
+  async getClient(filePath: string): Promise<LspClient> {
+    const serverName = this.getServerName(filePath);
+    if (!serverName) {
+      const language = getLanguageFromFilePath(filePath) ?? 'unknown';
+      throw new Error(
+        `No language server is configured for ${language} files.`,
+      );
+    }
+    let client = this.clients.get(serverName);
+    if (!client) {
+      client = this.startClient(
+        this.settings.servers![serverName],
+        this.rootDir,
+      );
+      const starting = client;
+      const forget = () => {
+        if (this.clients.get(serverName) === starting) {
+          this.clients.delete(serverName);
+        }
+      };
+      this.clients.set(serverName, starting);
+      starting.then((started) => started.onClose(forget), forget);
+    }
+    const started = await client;
+    await started.syncDocument(filePath);
+    await started.syncOpenDocuments();
+    return started;
+  }
+
+  /**
+   * Finds `symbol` on a 1-based line of a file and returns the client for the
+   * file along with the request parameters for that position. Returns
+   * undefined when the line does not contain the symbol.
+   */
+  async locateSymbol(
+    filePath: string,
+    line: number,
+    symbol: string,
+  ): Promise<
+    { client: LspClient; position: TextDocumentPositionParams } | undefined
+  > {
+    const content = await fs.readFile(filePath, 'utf-8');
+    const position = resolvePosition(content, line, symbol);
+    if (!position) {
+      return undefined;
+    }
+    const client = await this.getClient(filePath);
+    return {
+      client,
+      position: { textDocument: { uri: pathToUri(filePath) }, position },
+    };
+  }
+
+  /**
+   * Returns the errors and warnings reported for a file after it was edited,
+   * formatted for the model. Returns undefined when diagnostics on edit are
+   * disabled, no server handles the file, or nothing was reported.
+   */
+  async getDiagnosticsAfterEdit(filePath: string): Promise<string | undefined> {
+    if (!this.settings.diagnosticsOnEdit || !this.getServerName(filePath)) {
+      return undefined;
+    }
+    try {
+      const client = await this.getClient(filePath);
+      const diagnostics = (
+        await client.refreshDiagnostics(filePath, DIAGNOSTICS_TIMEOUT_MS)
+      ).filter(
+        (diagnostic) =>
+          (diagnostic.severity ?? DiagnosticSeverity.Error) <=
+          DiagnosticSeverity.Warning,
+      );
+      if (diagnostics.length === 0) {
+        return undefined;
+      }
+      return formatDiagnostics(
+        filePath,
+        diagnostics.slice(0, MAX_REPORTED_DIAGNOSTICS),
+        this.rootDir,
+      );
+    } catch (error) {
+      debugLogger.debug(`Failed to get diagnostics for ${filePath}:`, error);
+      return undefined;
+    }
+  }
+
+  async stop(): Promise<void> {
+    const clients = [...this.clients.values()];
+    this.clients.clear();
+    await Promise.all(
+      clients.map(async (client) => {
+        try {
+          await (await client).shutdown();
+        } catch {
+          // The server never started.
+        }
+      }),
+    );
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as path from 'node:path';
+import {
+  applyTextEdits,
+  formatDiagnostics,
+  formatLocation,
+  getLspLanguageId,
+  getWorkspaceEditsByFile,
+  normalizeLocations,
+  pathToUri,
+  resolvePosition,
+  uriToPath,
+} from './lsp-utils.js';
+import { DiagnosticSeverity, type Range } from './types.js';
+
+const range = (line: number, start: number, end = start): Range => ({
+  start: { line, character: start },
+  end: { line, character: end },
+});
+
+describe('lsp-utils', () => {
+  const rootDir = path.resolve('/workspace');
+
+  it('should round-trip paths through file URIs', () => {
+    const filePath = path.join(rootDir, 'src', 'my file.ts');
+    expect(uriToPath(pathToUri(filePath))).toBe(filePath);
+  });
+
+  it.each([
+    ['main.ts', 'typescript'],
+    ['App.tsx', 'typescriptreact'],
+    ['main.go', 'go'],
+    ['lib.cpp', 'cpp'],
+    ['README', 'plaintext'],
+  ])('should map %s to language id %s', (fileName, languageId) => {
+    expect(getLspLanguageId(fileName)).toBe(languageId);
+  });
+
+  describe('resolvePosition', () => {
+    const content = 'const value = 1;\nconst total = value + valueOf(value);\n';
+
+    it('should find the first whole-word occurrence on the line', () => {
+      expect(resolvePosition(content, 2, 'value')).toEqual({
+        line: 1,
+        character: 14,
+      });
+    });
+
+    it('should return undefined when the symbol is not on the line', () => {
+      expect(resolvePosition(content, 1, 'total')).toBeUndefined();
+      expect(resolvePosition(content, 10, 'value')).toBeUndefined();
+    });
+  });
+
+  it('should apply edits from the end of the document', () => {
+    const content = 'foo(foo);\nreturn foo;\n';
+
+    expect(
+      applyTextEdits(content, [
+        { range: range(0, 0, 3), newText: 'bar' },
+        { range: range(0, 4, 7), newText: 'bar' },
+        { range: range(1, 7, 10), newText: 'bar' },
+      ]),
+    ).toBe('bar(bar);\nreturn bar;\n');
+  });
+
+  it('should group workspace edits by file', () => {
+    const uri = pathToUri(path.join(rootDir, 'a.ts'));
+    const edit = { range: range(0, 0, 1), newText: 'x' };
+
+    expect(
+      getWorkspaceEditsByFile({
+        documentChanges: [
+          { textDocument: { uri, version: 1 }, edits: [edit] },
+          { textDocument: { uri, version: 1 }, edits: [edit] },
+        ],
+      }),
+    ).toEqual(new Map([[path.join(rootDir, 'a.ts'), [edit, edit]]]));
+    expect(() =>
+      getWorkspaceEditsByFile({ documentChanges: [{ kind: 'rename' }] }),
+    ).toThrow('Unsupported workspace edit operation: rename');
+  });
+
+  it('should normalize location links and format locations', () => {
+    const locations = normalizeLocations([
+      {
+        targetUri: pathToUri(path.join(rootDir, 'src', 'a.ts')),
+        targetRange: range(0, 0, 20),
+        targetSelectionRange: range(4, 9, 14),
+      },
+    ]);
+
+    expect(locations.map((l) => formatLocation(l, rootDir))).toEqual([
+      `${path.join('src', 'a.ts')}:5:10`,
+    ]);
+    expect(normalizeLocations(null)).toEqual([]);
+  });
+
+  it('should format diagnostics with errors first', () => {
+    const formatted = formatDiagnostics(
+      path.join(rootDir, 'a.ts'),
+      [
+        {
+          range: range(0, 0),
+          severity: DiagnosticSeverity.Warning,
+          message: 'unused',
+        },
+        { range: range(2, 4), message: 'type mismatch', source: 'ts' },
+      ],
+      rootDir,
+    );
+
+    expect(formatted).toBe(
+      'Diagnostics for a.ts:\n3:5 error: type mismatch [ts]\n1:1 warning: unused',
+    );
+  });
+});
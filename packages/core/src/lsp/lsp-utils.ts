@@ -0,0 +1,242 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { getLanguageFromFilePath } from '../utils/language-detection.js';
+import { makeRelative } from '../utils/paths.js';
+import {
+  DiagnosticSeverity,
+  type Diagnostic,
+  type Location,
+  type LocationLink,
+  type Position,
+  type TextEdit,
+  type WorkspaceEdit,
+} from './types.js';
+
+const LANGUAGE_IDS: Record<string, string> = {
+  '.tsx': 'typescriptreact',
+  '.jsx': 'javascriptreact',
+  '.h': 'c',
+};
+
+const LANGUAGE_NAME_IDS: Record<string, string> = {
+  'C#': 'csharp',
+  'C++': 'cpp',
+  'Objective-C': 'objective-c',
+  Shell: 'shellscript',
+};
+
+// Indexed by the LSP `SymbolKind` value.
+const SYMBOL_KIND_NAMES = [
+  'unknown',
+  'file',
+  'module',
+  'namespace',
+  'package',
+  'class',
+  'method',
+  'property',
+  'field',
+  'constructor',
+  'enum',
+  'interface',
+  'function',
+  'variable',
+  'constant',
+  'string',
+  'number',
+  'boolean',
+  'array',
+  'object',
+  'key',
+  'null',
+  'enum member',
+  'struct',
+  'event',
+  'operator',
+  'type parameter',
+];
+
+export function getSymbolKindName(kind: number): string {
+  return SYMBOL_KIND_NAMES[kind] ?? SYMBOL_KIND_NAMES[0];
+}
+
+export function pathToUri(filePath: string): string {
+  return pathToFileURL(path.resolve(filePath)).toString();
+}
+
+export function uriToPath(uri: string): string {
+  return uri.startsWith('file:') ? fileURLToPath(uri) : uri;
+}
+
+/**
+ * Returns the LSP language identifier for a file, e.g. `typescriptreact` for
+ * `.tsx` files.
+ */
+export function getLspLanguageId(filePath: string): string {
+  const extension = path.extname(filePath).toLowerCase();
+  if (LANGUAGE_IDS[extension]) {
+    return LANGUAGE_IDS[extension];
+  }
+  const language = getLanguageFromFilePath(filePath);
+  if (!language) {
+    return 'plaintext';
+  }
+  return LANGUAGE_NAME_IDS[language] ?? language.toLowerCase();
+}
+
+/**
+ * Finds the position of `symbol` on a 1-based line. Returns undefined when
+ * the line does not exist or does not contain the symbol as a whole word.
+ */
+export function resolvePosition(
+  content: string,
+  line: number,
+  symbol: string,
+): Position | undefined {
+  const lines = content.split(/\r?\n/);
+  const text = lines[line - 1];
+  if (text === undefined || !symbol) {
+    return undefined;
+  }
+  const isWordChar = (char: string | undefined) =>
+    char !== undefined && /[\w$]/.test(char);
+  let index = text.indexOf(symbol);
+  while (index !== -1) {
+    if (
+      !isWordChar(text[index - 1]) &&
+      !isWordChar(text[index + symbol.length])
+    ) {
+      return { line: line - 1, character: index };
+    }
+    index = text.indexOf(symbol, index + 1);
+  }
+  return undefined;
+}
+
+function toOffset(lineOffsets: number[], content: string, position: Position) {
+  const lineStart = lineOffsets[position.line] ?? content.length;
+  return Math.min(lineStart + position.character, content.length);
+}
+
+/**
+ * Applies LSP text edits to content. Edits must not overlap; they are applied
+ * from the end of the document so earlier offsets stay valid.
+ */
+export function applyTextEdits(content: string, edits: TextEdit[]): string {
+  const lineOffsets = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') {
+      lineOffsets.push(i + 1);
+    }
+  }
+  const resolved = edits
+    .map((edit) => ({
+      start: toOffset(lineOffsets, content, edit.range.start),
+      end: toOffset(lineOffsets, content, edit.range.end),
+      newText: edit.newText,
+    }))
+    .sort((a, b) => b.start - a.start);
+  let result = content;
+  for (const edit of resolved) {
+    result =
+      result.slice(0, edit.start) + edit.newText + result.slice(edit.end);
+  }
+  return result;
+}
+
+/**
+ * Groups the text edits of a workspace edit by absolute file path. Resource
+ * operations (create, rename and delete) are not supported and cause an error.
+ */
+export function getWorkspaceEditsByFile(
+  edit: WorkspaceEdit,
+): Map<string, TextEdit[]> {
+  const editsByFile = new Map<string, TextEdit[]>();
+  const add = (uri: string, edits: TextEdit[]) => {
+    const filePath = uriToPath(uri);
+    editsByFile.set(filePath, [...(editsByFile.get(filePath) ?? []), ...edits]);
+  };
+  if (edit.documentChanges) {
+    for (const change of edit.documentChanges) {
+      if ('kind' in change) {
+        throw new Error(`Unsupported workspace edit operation: ${change.kind}`);
+      }
+      add(change.textDocument.uri, change.edits);
+    }
+  } else {
+    for (const [uri, edits] of Object.entries(edit.changes ?? {})) {
+      add(uri, edits);
+    }
+  }
+  return editsByFile;
+}
+
+/**
+ * Normalizes the result of `textDocument/definition`, which may be a single
+ * location, a list of locations or a list of location links.
+ */
+export function normalizeLocations(
+  result: Location | Location[] | LocationLink[] | null,
+): Location[] {
+  if (!result) {
+    return [];
+  }
+  const items = Array.isArray(result) ? result : [result];
+  return items.map((item) =>
+    'targetUri' in item
+      ? { uri: item.targetUri, range: item.targetSelectionRange }
+      : item,
+  );
+}
+
+/**
+ * Formats a location as `path:line:column` relative to the target directory,
+ * with 1-based line and column.
+ */
+export function formatLocation(location: Location, targetDir: string): string {
+  const filePath = uriToPath(location.uri);
+  const { line, character } = location.range.start;
+  return `${makeRelative(filePath, targetDir)}:${line + 1}:${character + 1}`;
+}
+
+function severityLabel(severity: DiagnosticSeverity | undefined): string {
+  switch (severity) {
+    case DiagnosticSeverity.Warning:
+      return 'warning';
+    case DiagnosticSeverity.Information:
+      return 'info';
+    case DiagnosticSeverity.Hint:
+      return 'hint';
+    default:
+      return 'error';
+  }
+}
+
+/**
+ * Formats diagnostics as one `line:column severity: message` entry per line,
+ * errors first.
+ */
+export function formatDiagnostics(
+  filePath: string,
+  diagnostics: Diagnostic[],
+  targetDir: string,
+): string {
+  const sorted = [...diagnostics].sort(
+    (a, b) =>
+      (a.severity ?? DiagnosticSeverity.Error) -
+        (b.severity ?? DiagnosticSeverity.Error) ||
+      a.range.start.line - b.range.start.line,
+  );
+  const lines = sorted.map((diagnostic) => {
+    const { line, character } = diagnostic.range.start;
+    const source = diagnostic.source ? ` [${diagnostic.source}]` : '';
+    return `${line + 1}:${character + 1} ${severityLabel(diagnostic.severity)}: ${diagnostic.message}${source}`;
+  });
+  return `Diagnostics for ${makeRelative(filePath, targetDir)}:\n${lines.join('\n')}`;
+}
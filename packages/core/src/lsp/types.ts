@@ -0,0 +1,120 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Configuration for a language server started over stdio.
+ */
+export interface LspServerConfig {
+  command: string;
+  args?: string[];
+  /**
+   * Languages handled by the server, as named by `getLanguageFromFilePath`
+   * (e.g. "TypeScript", "Go").
+   */
+  languages: string[];
+  env?: Record<string, string>;
+  initializationOptions?: unknown;
+}
+
+export interface LspSettings {
+  /** Language servers keyed by a name of the user's choosing. */
+  servers?: Record<string, LspServerConfig>;
+  /**
+   * Append the diagnostics reported by the language server after an edit to
+   * the result of the edit tools.
+   */
+  diagnosticsOnEdit?: boolean;
+}
+
+// The subset of the Language Server Protocol types used by the client.
+// Lines and characters are 0-based; characters count UTF-16 code units.
+
+export interface Position {
+  line: number;
+  character: number;
+}
+
+export interface Range {
+  start: Position;
+  end: Position;
+}
+
+export interface Location {
+  uri: string;
+  range: Range;
+}
+
+export interface TextDocumentPositionParams {
+  textDocument: { uri: string };
+  position: Position;
+}
+
+export interface LocationLink {
+  targetUri: string;
+  targetRange: Range;
+  targetSelectionRange: Range;
+}
+
+export enum DiagnosticSeverity {
+  Error = 1,
+  Warning = 2,
+  Information = 3,
+  Hint = 4,
+}
+
+export interface Diagnostic {
+  range: Range;
+  severity?: DiagnosticSeverity;
+  code?: number | string;
+  source?: string;
+  message: string;
+}
+
+export interface PublishDiagnosticsParams {
+  uri: string;
+  version?: number;
+  diagnostics: Diagnostic[];
+}
+
+export interface DocumentSymbol {
+  name: string;
+  detail?: string;
+  kind: number;
+  range: Range;
+  selectionRange: Range;
+  children?: DocumentSymbol[];
+}
+
+export interface SymbolInformation {
+  name: string;
+  kind: number;
+  location: Location;
+  containerName?: string;
+}
+
+export interface TextEdit {
+  range: Range;
+  newText: string;
+}
+
+export interface TextDocumentEdit {
+  textDocument: { uri: string; version?: number | null };
+  edits: TextEdit[];
+}
+
+export interface WorkspaceEdit {
+  changes?: Record<string, TextEdit[]>;
+  documentChanges?: Array<TextDocumentEdit | { kind: string }>;
+}
+
+export interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
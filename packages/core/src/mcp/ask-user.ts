@@ -0,0 +1,41 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { MessageBus } from '../confirmation-bus/message-bus.js';
+import {
+  MessageBusType,
+  type AskUserRequest,
+  type AskUserResponse,
+  type Question,
+} from '../confirmation-bus/types.js';
+import { debugLogger } from '../utils/debugLogger.js';
+import { getErrorMessage } from '../utils/errors.js';
+
+/** How long an MCP server request waits for the user to answer. */
+export const MCP_ASK_USER_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Shows questions in the ask_user dialog on behalf of an MCP server and waits
+ * for the answers. Resolves to undefined if nobody answers in time.
+ */
+export async function askUserForMcpServer(
+  messageBus: MessageBus,
+  questions: Question[],
+  timeoutMs: number = MCP_ASK_USER_TIMEOUT_MS,
+): Promise<AskUserResponse | undefined> {
+  try {
+    return await messageBus.request<AskUserRequest, AskUserResponse>(
+      { type: MessageBusType.ASK_USER_REQUEST, questions },
+      MessageBusType.ASK_USER_RESPONSE,
+      timeoutMs,
+    );
+  } catch (error) {
+    debugLogger.warn(
+      `No answer to MCP server questions: ${getErrorMessage(error)}`,
+    );
+    return undefined;
+  }
+}
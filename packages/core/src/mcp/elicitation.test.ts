@@ -0,0 +1,254 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { ElicitRequestFormParams } from '@modelcontextprotocol/sdk/types.js';
+import type { Config } from '../config/config.js';
+import {
+  MessageBusType,
+  QuestionType,
+  type AskUserResponse,
+} from '../confirmation-bus/types.js';
+import {
+  buildElicitationQuestions,
+  getElicitationFields,
+  handleElicitationRequest,
+  parseElicitationAnswers,
+} from './elicitation.js';
+import { askUserForMcpServer } from './ask-user.js';
+
+vi.mock('./ask-user.js', () => ({
+  askUserForMcpServer: vi.fn(),
+}));
+
+const answered = (answers: Record<string, string>): AskUserResponse => ({
+  type: MessageBusType.ASK_USER_RESPONSE,
+  correlationId: 'id',
+  answers,
+});
+
+describe('elicitation', () => {
+  const params: ElicitRequestFormParams = {
+    message: 'Where should the report go?',
+    requestedSchema: {
+      type: 'object',
+      properties: {
+        email: { type: 'string', format: 'email', description: 'Recipient' },
+        copies: { type: 'integer', minimum: 1, maximum: 5 },
+        urgent: { type: 'boolean', title: 'Urgent' },
+        format: {
+          type: 'string',
+          oneOf: [
+            { const: 'pdf', title: 'PDF' },
+            { const: 'html', title: 'Web page' },
+          ],
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string', enum: ['ops', 'eng', 'sales'] },
+        },
+      },
+      required: ['email', 'copies'],
+    },
+  };
+  const fields = getElicitationFields(params.requestedSchema);
+
+  describe('buildElicitationQuestions', () => {
+    it('should render each field as an ask_user question', () => {
+      const questions = buildElicitationQuestions(
+        'reports',
+        params.message,
+        fields,
+      );
+
+      expect(questions).toEqual([
+        {
+          question:
+            "MCP server 'reports' asks: Where should the report go?\n\nRecipient",
+          header: 'email',
+          type: QuestionType.TEXT,
+          placeholder: 'name@example.com',
+        },
+        {
+          question: 'copies',
+          header: 'copies',
+          type: QuestionType.TEXT,
+          placeholder: 'A whole number',
+        },
+        {
+          question: 'Urgent (optional)',
+          header: 'Urgent',
+          type: QuestionType.YESNO,
+        },
+        {
+          question: 'format (optional)',
+          header: 'format',
+          type: QuestionType.CHOICE,
+          options: [
+            { label: 'PDF', description: '' },
+            { label: 'Web page', description: '' },
+          ],
+          multiSelect: false,
+        },
+        {
+          question: 'tags (optional)',
+          header: 'tags',
+          type: QuestionType.CHOICE,
+          options: [
+            { label: 'ops', description: '' },
+            { label: 'eng', description: '' },
+            { label: 'sales', description: '' },
+          ],
+          multiSelect: true,
+        },
+      ]);
+    });
+
+    it('should ask for confirmation when the form has no fields', () => {
+      const questions = buildElicitationQuestions('reports', 'Proceed?', []);
+
+      expect(questions).toEqual([
+        {
+          question: "MCP server 'reports' asks: Proceed?\n\nContinue?",
+          header: 'Confirm',
+          type: QuestionType.YESNO,
+        },
+      ]);
+    });
+  });
+
+  describe('parseElicitationAnswers', () => {
+    it('should convert answers to the requested types', () => {
+      const result = parseElicitationAnswers(fields, {
+        '0': 'ops@example.com',
+        '1': '2',
+        '2': 'Yes',
+        '3': 'Web page',
+        '4': 'ops, sales',
+      });
+
+      expect(result).toEqual({
+        content: {
+          email: 'ops@example.com',
+          copies: 2,
+          urgent: true,
+          format: 'html',
+          tags: ['ops', 'sales'],
+        },
+      });
+    });
+
+    it('should omit optional fields that were left blank', () => {
+      const result = parseElicitationAnswers(fields, {
+        '0': 'ops@example.com',
+        '1': '1',
+      });
+
+      expect(result).toEqual({
+        content: { email: 'ops@example.com', copies: 1 },
+      });
+    });
+
+    it.each([
+      [{ '1': '1' }, '"email" is required.'],
+      [{ '0': 'a@b.c', '1': '1.5' }, '"copies" must be a whole number.'],
+      [{ '0': 'a@b.c', '1': '9' }, '"copies" must be at most 5.'],
+      [
+        { '0': 'a@b.c', '1': '1', '3': 'Word' },
+        '"Word" is not a valid choice for "format".',
+      ],
+    ])('should reject invalid answers %j', (answers, error) => {
+      expect(parseElicitationAnswers(fields, answers)).toEqual({ error });
+    });
+  });
+
+  describe('handleElicitationRequest', () => {
+    let interactive: boolean;
+    let config: Config;
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      interactive = true;
+      config = {
+        isInteractive: () => interactive,
+        getMessageBus: () => ({}),
+      } as unknown as Config;
+    });
+
+    it('should accept the answers the user submitted', async () => {
+      vi.mocked(askUserForMcpServer).mockResolvedValue(
+        answered({ '0': 'ops@example.com', '1': '3' }),
+      );
+
+      const result = await handleElicitationRequest('reports', params, config);
+
+      expect(result).toEqual({
+        action: 'accept',
+        content: { email: 'ops@example.com', copies: 3 },
+      });
+    });
+
+    it('should ask again until the answers are valid', async () => {
+      vi.mocked(askUserForMcpServer)
+        .mockResolvedValueOnce(answered({ '0': 'ops@example.com', '1': 'x' }))
+        .mockResolvedValueOnce(answered({ '0': 'ops@example.com', '1': '1' }));
+
+      const result = await handleElicitationRequest('reports', params, config);
+
+      expect(result.action).toBe('accept');
+      const [, questions] = vi.mocked(askUserForMcpServer).mock.calls[1];
+      expect(questions[0].question).toMatch(
+        /^"copies" must be a whole number\.\n\nMCP server 'reports' asks:/,
+      );
+    });
+
+    it('should cancel when the user dismisses the dialog', async () => {
+      vi.mocked(askUserForMcpServer).mockResolvedValue({
+        ...answered({}),
+        cancelled: true,
+      });
+
+      const result = await handleElicitationRequest('reports', params, config);
+
+      expect(result).toEqual({ action: 'cancel' });
+    });
+
+    it('should accept the defaults in non-interactive sessions', async () => {
+      interactive = false;
+
+      const result = await handleElicitationRequest(
+        'reports',
+        {
+          message: 'Pick a region',
+          requestedSchema: {
+            type: 'object',
+            properties: {
+              region: { type: 'string', default: 'us-east1' },
+              dryRun: { type: 'boolean' },
+            },
+            required: ['region'],
+          },
+        },
+        config,
+      );
+
+      expect(askUserForMcpServer).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        action: 'accept',
+        content: { region: 'us-east1' },
+      });
+    });
+
+    it('should decline in non-interactive sessions when a required field has no default', async () => {
+      interactive = false;
+
+      const result = await handleElicitationRequest('reports', params, config);
+
+      expect(askUserForMcpServer).not.toHaveBeenCalled();
+      expect(result).toEqual({ action: 'decline' });
+    });
+  });
+});
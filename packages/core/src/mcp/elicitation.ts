@@ -0,0 +1,343 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  ElicitRequestFormParams,
+  ElicitResult,
+  PrimitiveSchemaDefinition,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Config } from '../config/config.js';
+import { QuestionType, type Question } from '../confirmation-bus/types.js';
+import { coreEvents } from '../utils/events.js';
+import { askUserForMcpServer } from './ask-user.js';
+
+type ElicitationContent = NonNullable<ElicitResult['content']>;
+type ElicitationValue = ElicitationContent[string];
+
+// Matches the header limit of the ask_user dialog.
+const MAX_HEADER_LENGTH = 16;
+// The ask_user dialog joins multi-select answers with this separator.
+const MULTI_SELECT_SEPARATOR = ', ';
+
+interface ElicitationOption {
+  label: string;
+  value: string;
+}
+
+/** A single property of the form requested by an MCP server. */
+export interface ElicitationField {
+  name: string;
+  schema: PrimitiveSchemaDefinition;
+  required: boolean;
+  /** The allowed values of enum fields, with the labels shown to the user. */
+  options?: ElicitationOption[];
+}
+
+function getOptions(
+  schema: PrimitiveSchemaDefinition,
+): ElicitationOption[] | undefined {
+  if (schema.type === 'array') {
+    const { items } = schema;
+    return 'anyOf' in items
+      ? items.anyOf.map(({ const: value, title }) => ({ label: title, value }))
+      : items.enum.map((value) => ({ label: value, value }));
+  }
+  if ('oneOf' in schema) {
+    return schema.oneOf.map(({ const: value, title }) => ({
+      label: title,
+      value,
+    }));
+  }
+  if ('enum' in schema) {
+    const names = 'enumNames' in schema ? schema.enumNames : undefined;
+    return schema.enum.map((value, index) => ({
+      label: names?.[index] ?? value,
+      value,
+    }));
+  }
+  return undefined;
+}
+
+/**
+ * Lists the fields of an elicitation form in the order the server declared
+ * them.
+ */
+export function getElicitationFields(
+  requestedSchema: ElicitRequestFormParams['requestedSchema'],
+): ElicitationField[] {
+  const required = new Set(requestedSchema.required ?? []);
+  return Object.entries(requestedSchema.properties).map(([name, schema]) => ({
+    name,
+    schema,
+    required: required.has(name),
+    options: getOptions(schema),
+  }));
+}
+
+function getTitle(field: ElicitationField): string {
+  return field.schema.title ?? field.name;
+}
+
+function getPlaceholder(schema: PrimitiveSchemaDefinition): string | undefined {
+  if (schema.default !== undefined) {
+    return `Default: ${String(schema.default)}`;
+  }
+  if (schema.type === 'integer') {
+    return 'A whole number';
+  }
+  if (schema.type === 'number') {
+    return 'A number';
+  }
+  if ('format' in schema) {
+    switch (schema.format) {
+      case 'email':
+        return 'name@example.com';
+      case 'uri':
+        return 'https://…';
+      case 'date':
+        return 'YYYY-MM-DD';
+      case 'date-time':
+        return 'YYYY-MM-DDTHH:MM:SSZ';
+      default:
+        return undefined;
+    }
+  }
+  return undefined;
+}
+
+function toQuestion(field: ElicitationField): Question {
+  const { schema, options } = field;
+  const title = getTitle(field);
+  const question = `${schema.description ?? title}${field.required ? '' : ' (optional)'}`;
+  const header =
+    title.length > MAX_HEADER_LENGTH
+      ? `${title.slice(0, MAX_HEADER_LENGTH - 1)}…`
+      : title;
+
+  if (schema.type === 'boolean') {
+    return { question, header, type: QuestionType.YESNO };
+  }
+  if (options) {
+    return {
+      question,
+      header,
+      type: QuestionType.CHOICE,
+      options: options.map(({ label }) => ({ label, description: '' })),
+      multiSelect: schema.type === 'array',
+    };
+  }
+  return {
+    question,
+    header,
+    type: QuestionType.TEXT,
+    placeholder: getPlaceholder(schema),
+  };
+}
+
+/**
+ * Renders an elicitation form as ask_user questions, one per field. The
+ * server's message, and the problem with the previous answers if there was
+ * one, are shown above the first question.
+ */
+export function buildElicitationQuestions(
+  serverName: string,
+  message: string,
+  fields: ElicitationField[],
+  error?: string,
+): Question[] {
+  const intro = `MCP server '${serverName}' asks: ${message}`;
+  const preamble = error ? `${error}\n\n${intro}` : intro;
+  if (fields.length === 0) {
+    return [
+      {
+        question: `${preamble}\n\nContinue?`,
+        header: 'Confirm',
+        type: QuestionType.YESNO,
+      },
+    ];
+  }
+
+  const questions = fields.map(toQuestion);
+  questions[0] = {
+    ...questions[0],
+    question: `${preamble}\n\n${questions[0].question}`,
+  };
+  return questions;
+}
+
+function parseAnswer(
+  field: ElicitationField,
+  answer: string | undefined,
+): { value?: ElicitationValue; error?: string } {
+  const { schema, options } = field;
+  const title = getTitle(field);
+  const text = answer?.trim() ?? '';
+
+  if (!text) {
+    if (schema.default !== undefined) {
+      return { value: schema.default };
+    }
+    return field.required ? { error: `"${title}" is required.` } : {};
+  }
+
+  if (schema.type === 'boolean') {
+    if (text === 'Yes' || text === 'No') {
+      return { value: text === 'Yes' };
+    }
+    return { error: `"${title}" must be Yes or No.` };
+  }
+
+  if (options) {
+    const labels =
+      schema.type === 'array' ? text.split(MULTI_SELECT_SEPARATOR) : [text];
+    const values: string[] = [];
+    for (const label of labels) {
+      const option = options.find(
+        (candidate) => candidate.label === label || candidate.value === label,
+      );
+      if (!option) {
+        return { error: `"${label}" is not a valid choice for "${title}".` };
+      }
+      values.push(option.value);
+    }
+    if (schema.type !== 'array') {
+      return { value: values[0] };
+    }
+    if (schema.minItems !== undefined && values.length < schema.minItems) {
+      return {
+        error: `Choose at least ${schema.minItems} option(s) for "${title}".`,
+      };
+    }
+    if (schema.maxItems !== undefined && values.length > schema.maxItems) {
+      return {
+        error: `Choose at most ${schema.maxItems} option(s) for "${title}".`,
+      };
+    }
+    return { value: values };
+  }
+
+  if (schema.type === 'number' || schema.type === 'integer') {
+    const value = Number(text);
+    if (
+      !Number.isFinite(value) ||
+      (schema.type === 'integer' && !Number.isInteger(value))
+    ) {
+      const kind = schema.type === 'integer' ? 'a whole number' : 'a number';
+      return { error: `"${title}" must be ${kind}.` };
+    }
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      return { error: `"${title}" must be at least ${schema.minimum}.` };
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      return { error: `"${title}" must be at most ${schema.maximum}.` };
+    }
+    return { value };
+  }
+
+  if ('minLength' in schema) {
+    if (schema.minLength !== undefined && text.length < schema.minLength) {
+      return {
+        error: `"${title}" must be at least ${schema.minLength} characters long.`,
+      };
+    }
+    if (schema.maxLength !== undefined && text.length > schema.maxLength) {
+      return {
+        error: `"${title}" must be at most ${schema.maxLength} characters long.`,
+      };
+    }
+  }
+  return { value: text };
+}
+
+/**
+ * Converts ask_user answers back into the content of an elicitation result.
+ * Optional fields left blank are omitted. Returns an error describing the
+ * first answer that does not satisfy the requested schema.
+ */
+export function parseElicitationAnswers(
+  fields: ElicitationField[],
+  answers: { [questionIndex: string]: string },
+): { content: ElicitationContent } | { error: string } {
+  const content: ElicitationContent = {};
+  for (const [index, field] of fields.entries()) {
+    const { value, error } = parseAnswer(field, answers[String(index)]);
+    if (error) {
+      return { error };
+    }
+    if (value !== undefined) {
+      content[field.name] = value;
+    }
+  }
+  return { content };
+}
+
+/**
+ * Builds the content used when nobody can fill in the form. Returns undefined
+ * if a required field has no default value.
+ */
+export function getDefaultElicitationContent(
+  fields: ElicitationField[],
+): ElicitationContent | undefined {
+  const content: ElicitationContent = {};
+  for (const field of fields) {
+    if (field.schema.default !== undefined) {
+      content[field.name] = field.schema.default;
+    } else if (field.required) {
+      return undefined;
+    }
+  }
+  return content;
+}
+
+/**
+ * Answers an `elicitation/create` request from an MCP server.
+ *
+ * In interactive sessions the requested form is shown in the ask_user dialog,
+ * and asked again until the answers are valid. Otherwise the request is
+ * accepted with the schema defaults, or declined when a required field has no
+ * default.
+ */
+export async function handleElicitationRequest(
+  serverName: string,
+  params: ElicitRequestFormParams,
+  config: Config,
+): Promise<ElicitResult> {
+  const fields = getElicitationFields(params.requestedSchema);
+
+  if (!config.isInteractive()) {
+    const content = getDefaultElicitationContent(fields);
+    if (content) {
+      return { action: 'accept', content };
+    }
+    coreEvents.emitFeedback(
+      'warning',
+      `Declined a request for input from MCP server '${serverName}' because the session is not interactive: ${params.message}`,
+    );
+    return { action: 'decline' };
+  }
+
+  let error: string | undefined;
+  while (true) {
+    const response = await askUserForMcpServer(
+      config.getMessageBus(),
+      buildElicitationQuestions(serverName, params.message, fields, error),
+    );
+    if (!response || response.cancelled) {
+      return { action: 'cancel' };
+    }
+    if (fields.length === 0) {
+      return response.answers['0'] === 'Yes'
+        ? { action: 'accept', content: {} }
+        : { action: 'decline' };
+    }
+
+    const result = parseElicitationAnswers(fields, response.answers);
+    if ('content' in result) {
+      return { action: 'accept', content: result.content };
+    }
+    error = result.error;
+  }
+}
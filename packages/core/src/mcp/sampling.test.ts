@@ -0,0 +1,170 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { CreateMessageRequestParams } from '@modelcontextprotocol/sdk/types.js';
+import { FinishReason, type GenerateContentResponse } from '@google/genai';
+import type { Config } from '../config/config.js';
+import { MessageBusType } from '../confirmation-bus/types.js';
+import { PolicyDecision } from '../policy/types.js';
+import { handleSamplingRequest } from './sampling.js';
+import { askUserForMcpServer } from './ask-user.js';
+
+vi.mock('./ask-user.js', () => ({
+  askUserForMcpServer: vi.fn(),
+}));
+
+describe('handleSamplingRequest', () => {
+  const signal = new AbortController().signal;
+  const params: CreateMessageRequestParams = {
+    systemPrompt: 'You summarize tickets.',
+    maxTokens: 100,
+    messages: [
+      { role: 'user', content: { type: 'text', text: 'Ticket 1: disk full' } },
+      { role: 'assistant', content: { type: 'text', text: 'Which host?' } },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'This one' },
+          { type: 'image', mimeType: 'image/png', data: 'aGVsbG8=' },
+        ],
+      },
+    ],
+  };
+
+  let decision: PolicyDecision;
+  let interactive: boolean;
+  let check: ReturnType<typeof vi.fn>;
+  let generateContent: ReturnType<typeof vi.fn>;
+  let config: Config;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    decision = PolicyDecision.ALLOW;
+    interactive = true;
+    check = vi.fn(async () => ({ decision }));
+    generateContent = vi.fn(
+      async (): Promise<GenerateContentResponse> =>
+        ({
+          modelVersion: 'gemini-2.5-flash',
+          candidates: [
+            {
+              content: { role: 'model', parts: [{ text: 'Host db-1.' }] },
+              finishReason: FinishReason.STOP,
+            },
+          ],
+        }) as GenerateContentResponse,
+    );
+    config = {
+      isInteractive: () => interactive,
+      getMessageBus: () => ({}),
+      getPolicyEngine: () => ({ check }),
+      getBaseLlmClient: () => ({ generateContent }),
+    } as unknown as Config;
+  });
+
+  it('should send the messages to the model when policy allows it', async () => {
+    const result = await handleSamplingRequest(
+      'tickets',
+      params,
+      config,
+      signal,
+    );
+
+    expect(check).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'sampling' }),
+      'tickets',
+    );
+    expect(generateContent).toHaveBeenCalledWith({
+      modelConfigKey: { model: 'mcp-sampling' },
+      contents: [
+        { role: 'user', parts: [{ text: 'Ticket 1: disk full' }] },
+        { role: 'model', parts: [{ text: 'Which host?' }] },
+        {
+          role: 'user',
+          parts: [
+            { text: 'This one' },
+            { inlineData: { mimeType: 'image/png', data: 'aGVsbG8=' } },
+          ],
+        },
+      ],
+      systemInstruction: 'You summarize tickets.',
+      abortSignal: signal,
+      promptId: 'mcp-sampling-tickets',
+    });
+    expect(result).toEqual({
+      model: 'gemini-2.5-flash',
+      stopReason: 'endTurn',
+      role: 'assistant',
+      content: { type: 'text', text: 'Host db-1.' },
+    });
+  });
+
+  it('should reject the request when policy denies it', async () => {
+    decision = PolicyDecision.DENY;
+
+    await expect(
+      handleSamplingRequest('tickets', params, config, signal),
+    ).rejects.toThrow('User rejected sampling request');
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+
+  it('should ask the user when policy requires confirmation', async () => {
+    decision = PolicyDecision.ASK_USER;
+    vi.mocked(askUserForMcpServer).mockResolvedValue({
+      type: MessageBusType.ASK_USER_RESPONSE,
+      correlationId: 'id',
+      answers: { '0': 'Yes' },
+    });
+
+    await handleSamplingRequest('tickets', params, config, signal);
+
+    const [, questions] = vi.mocked(askUserForMcpServer).mock.calls[0];
+    expect(questions[0].question).toContain(
+      "MCP server 'tickets' wants to send this prompt to the model:\n\nSystem prompt: You summarize tickets.\n\nThis one\n<image>",
+    );
+    expect(generateContent).toHaveBeenCalled();
+  });
+
+  it('should reject the request when the user says no', async () => {
+    decision = PolicyDecision.ASK_USER;
+    vi.mocked(askUserForMcpServer).mockResolvedValue({
+      type: MessageBusType.ASK_USER_RESPONSE,
+      correlationId: 'id',
+      answers: { '0': 'No' },
+    });
+
+    await expect(
+      handleSamplingRequest('tickets', params, config, signal),
+    ).rejects.toThrow('User rejected sampling request');
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+
+  it('should reject requests that need confirmation in non-interactive sessions', async () => {
+    decision = PolicyDecision.ASK_USER;
+    interactive = false;
+
+    await expect(
+      handleSamplingRequest('tickets', params, config, signal),
+    ).rejects.toThrow('User rejected sampling request');
+    expect(askUserForMcpServer).not.toHaveBeenCalled();
+  });
+
+  it('should reject requests that use tools', async () => {
+    await expect(
+      handleSamplingRequest(
+        'tickets',
+        {
+          ...params,
+          tools: [{ name: 'lookup', inputSchema: { type: 'object' } }],
+        },
+        config,
+        signal,
+      ),
+    ).rejects.toThrow('Tool use in sampling requests is not supported.');
+    expect(check).not.toHaveBeenCalled();
+  });
+});
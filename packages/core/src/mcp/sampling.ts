@@ -0,0 +1,183 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  ErrorCode,
+  McpError,
+  type CreateMessageRequestParams,
+  type CreateMessageResult,
+  type SamplingMessage,
+  type SamplingMessageContentBlock,
+} from '@modelcontextprotocol/sdk/types.js';
+import { FinishReason, type Content, type Part } from '@google/genai';
+import type { Config } from '../config/config.js';
+import { QuestionType } from '../confirmation-bus/types.js';
+import { PolicyDecision } from '../policy/types.js';
+import { debugLogger } from '../utils/debugLogger.js';
+import { getResponseText } from '../utils/partUtils.js';
+import { askUserForMcpServer } from './ask-user.js';
+
+/**
+ * The tool name that policy rules use to match sampling requests, e.g.
+ * `toolName = "my-server__sampling"`.
+ */
+export const SAMPLING_POLICY_TOOL_NAME = 'sampling';
+
+/** The model config alias used to answer sampling requests. */
+export const MCP_SAMPLING_MODEL_CONFIG = 'mcp-sampling';
+
+// The error code the MCP specification suggests for rejected sampling requests.
+const SAMPLING_REJECTED_ERROR_CODE = -1;
+
+const MAX_PREVIEW_LENGTH = 500;
+
+function toPart(block: SamplingMessageContentBlock): Part {
+  switch (block.type) {
+    case 'text':
+      return { text: block.text };
+    case 'image':
+    case 'audio':
+      return { inlineData: { mimeType: block.mimeType, data: block.data } };
+    default:
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Sampling messages with '${block.type}' content are not supported.`,
+      );
+  }
+}
+
+function toContent(message: SamplingMessage): Content {
+  const blocks = Array.isArray(message.content)
+    ? message.content
+    : [message.content];
+  return {
+    role: message.role === 'assistant' ? 'model' : 'user',
+    parts: blocks.map(toPart),
+  };
+}
+
+function getPreview(params: CreateMessageRequestParams): string {
+  const lastMessage = params.messages.at(-1);
+  const blocks = lastMessage
+    ? Array.isArray(lastMessage.content)
+      ? lastMessage.content
+      : [lastMessage.content]
+    : [];
+  const text = blocks
+    .map((block) => (block.type === 'text' ? block.text : `<${block.type}>`))
+    .join('\n');
+  const preview =
+    text.length > MAX_PREVIEW_LENGTH
+      ? `${text.slice(0, MAX_PREVIEW_LENGTH)}…`
+      : text;
+  return params.systemPrompt
+    ? `System prompt: ${params.systemPrompt.slice(0, MAX_PREVIEW_LENGTH)}\n\n${preview}`
+    : preview;
+}
+
+async function isSamplingApproved(
+  serverName: string,
+  params: CreateMessageRequestParams,
+  config: Config,
+): Promise<boolean> {
+  const { decision } = await config.getPolicyEngine().check(
+    {
+      name: SAMPLING_POLICY_TOOL_NAME,
+      args: { systemPrompt: params.systemPrompt, messages: params.messages },
+    },
+    serverName,
+  );
+
+  switch (decision) {
+    case PolicyDecision.ALLOW:
+      return true;
+    case PolicyDecision.DENY:
+      return false;
+    case PolicyDecision.ASK_USER: {
+      if (!config.isInteractive()) {
+        return false;
+      }
+      const response = await askUserForMcpServer(config.getMessageBus(), [
+        {
+          question: `MCP server '${serverName}' wants to send this prompt to the model:\n\n${getPreview(params)}\n\nAllow it?`,
+          header: 'Sampling',
+          type: QuestionType.YESNO,
+        },
+      ]);
+      return !response?.cancelled && response?.answers['0'] === 'Yes';
+    }
+    default:
+      throw new Error(`Unknown policy decision: ${decision}`);
+  }
+}
+
+function toStopReason(
+  finishReason: FinishReason | undefined,
+): CreateMessageResult['stopReason'] {
+  switch (finishReason) {
+    case undefined:
+      return undefined;
+    case FinishReason.STOP:
+      return 'endTurn';
+    case FinishReason.MAX_TOKENS:
+      return 'maxTokens';
+    default:
+      return finishReason;
+  }
+}
+
+/**
+ * Answers a `sampling/createMessage` request from an MCP server that has opted
+ * in with `allowSampling`.
+ *
+ * The request must be allowed by the policy engine first, which asks the user
+ * by default. The messages are then sent to the model configured for the
+ * `mcp-sampling` alias. The server's model preferences, `maxTokens`,
+ * `temperature` and stop sequences are advisory and not applied.
+ */
+export async function handleSamplingRequest(
+  serverName: string,
+  params: CreateMessageRequestParams,
+  config: Config,
+  signal: AbortSignal,
+): Promise<CreateMessageResult> {
+  if (params.tools?.length || params.toolChoice) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'Tool use in sampling requests is not supported.',
+    );
+  }
+  const contents = params.messages.map(toContent);
+
+  if (!(await isSamplingApproved(serverName, params, config))) {
+    debugLogger.warn(
+      `Rejected a sampling request from MCP server '${serverName}'.`,
+    );
+    throw new McpError(
+      SAMPLING_REJECTED_ERROR_CODE,
+      'User rejected sampling request',
+    );
+  }
+
+  const response = await config.getBaseLlmClient().generateContent({
+    modelConfigKey: { model: MCP_SAMPLING_MODEL_CONFIG },
+    contents,
+    systemInstruction: params.systemPrompt,
+    abortSignal: signal,
+    promptId: `mcp-sampling-${serverName}`,
+  });
+
+  return {
+    model:
+      response.modelVersion ??
+      config.modelConfigService.getResolvedConfig({
+        model: MCP_SAMPLING_MODEL_CONFIG,
+      }).model,
+    stopReason: toStopReason(response.candidates?.[0]?.finishReason),
+    role: 'assistant',
+    content: { type: 'text', text: getResponseText(response) ?? '' },
+  };
+}
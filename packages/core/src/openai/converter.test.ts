@@ -0,0 +1,422 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  FinishReason,
+  FunctionCallingConfigMode,
+  GenerateContentResponse,
+  Type,
+} from '@google/genai';
+import {
+  ChatCompletionStreamConverter,
+  fromChatCompletionResponse,
+  fromEmbeddingsResponse,
+  toChatCompletionRequest,
+  toChatMessages,
+  toChatTools,
+} from './converter.js';
+
+describe('toChatCompletionRequest', () => {
+  it('should convert system instruction, contents and sampling params', () => {
+    const request = toChatCompletionRequest(
+      {
+        model: 'gemini-pro',
+        contents: [{ role: 'user', parts: [{ text: 'Hello' }] }],
+        config: {
+          systemInstruction: 'You are helpful.',
+          temperature: 0.2,
+          topP: 0.9,
+          maxOutputTokens: 100,
+          stopSequences: ['END'],
+        },
+      },
+      'llama3',
+    );
+    expect(request).toEqual({
+      model: 'llama3',
+      messages: [
+        { role: 'system', content: 'You are helpful.' },
+        { role: 'user', content: 'Hello' },
+      ],
+      temperature: 0.2,
+      top_p: 0.9,
+      max_tokens: 100,
+      stop: ['END'],
+    });
+  });
+
+  it('should request a JSON schema response format', () => {
+    const schema = { type: 'object', properties: { a: { type: 'string' } } };
+    const request = toChatCompletionRequest(
+      {
+        model: 'm',
+        contents: 'hi',
+        config: {
+          responseMimeType: 'application/json',
+          responseJsonSchema: schema,
+        },
+      },
+      'm',
+    );
+    expect(request.response_format).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'response', schema },
+    });
+  });
+
+  it('should convert function declarations and tool config', () => {
+    const request = toChatCompletionRequest(
+      {
+        model: 'm',
+        contents: 'hi',
+        config: {
+          tools: [
+            {
+              functionDeclarations: [
+                {
+                  name: 'read_file',
+                  description: 'Reads a file',
+                  parametersJsonSchema: {
+                    type: 'object',
+                    properties: { path: { type: 'string' } },
+                  },
+                },
+              ],
+            },
+          ],
+          toolConfig: {
+            functionCallingConfig: {
+              mode: FunctionCallingConfigMode.ANY,
+              allowedFunctionNames: ['read_file'],
+            },
+          },
+        },
+      },
+      'm',
+    );
+    expect(request.tools).toEqual([
+      {
+        type: 'function',
+        function: {
+          name: 'read_file',
+          description: 'Reads a file',
+          parameters: {
+            type: 'object',
+            properties: { path: { type: 'string' } },
+          },
+        },
+      },
+    ]);
+    expect(request.tool_choice).toEqual({
+      type: 'function',
+      function: { name: 'read_file' },
+    });
+  });
+});
+
+describe('toChatTools', () => {
+  it('should lower-case Gemini schema types', () => {
+    const tools = toChatTools([
+      {
+        functionDeclarations: [
+          {
+            name: 'ls',
+            parameters: {
+              type: Type.OBJECT,
+              properties: {
+                dirs: { type: Type.ARRAY, items: { type: Type.STRING } },
+              },
+            },
+          },
+        ],
+      },
+    ]);
+    expect(tools[0].function.parameters).toEqual({
+      type: 'object',
+      properties: { dirs: { type: 'array', items: { type: 'string' } } },
+    });
+  });
+});
+
+describe('toChatMessages', () => {
+  it('should pair function calls and responses by id', () => {
+    const messages = toChatMessages([
+      { role: 'user', parts: [{ text: 'List files' }] },
+      {
+        role: 'model',
+        parts: [
+          { text: 'Sure.' },
+          { functionCall: { id: 'abc', name: 'ls', args: { path: '.' } } },
+        ],
+      },
+      {
+        role: 'user',
+        parts: [
+          {
+            functionResponse: {
+              id: 'abc',
+              name: 'ls',
+              response: { output: 'a.txt' },
+            },
+          },
+        ],
+      },
+    ]);
+    expect(messages).toEqual([
+      { role: 'user', content: 'List files' },
+      {
+        role: 'assistant',
+        content: 'Sure.',
+        tool_calls: [
+          {
+            id: 'abc',
+            type: 'function',
+            function: { name: 'ls', arguments: '{"path":"."}' },
+          },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'abc', content: 'a.txt' },
+    ]);
+  });
+
+  it('should synthesize ids for function calls without one', () => {
+    const messages = toChatMessages([
+      {
+        role: 'model',
+        parts: [
+          { functionCall: { name: 'ls', args: {} } },
+          { functionCall: { name: 'ls', args: { path: 'src' } } },
+        ],
+      },
+      {
+        role: 'user',
+        parts: [
+          { functionResponse: { name: 'ls', response: { error: 'boom' } } },
+          { functionResponse: { name: 'ls', response: { output: 'ok' } } },
+        ],
+      },
+    ]);
+    expect(messages[0].tool_calls?.map((call) => call.id)).toEqual([
+      'call_0',
+      'call_1',
+    ]);
+    expect(messages.slice(1)).toEqual([
+      { role: 'tool', tool_call_id: 'call_0', content: '{"error":"boom"}' },
+      { role: 'tool', tool_call_id: 'call_1', content: 'ok' },
+    ]);
+  });
+
+  it('should drop thoughts and convert inline images', () => {
+    const messages = toChatMessages([
+      {
+        role: 'user',
+        parts: [
+          { text: 'What is this?' },
+          { inlineData: { mimeType: 'image/png', data: 'AAAA' } },
+        ],
+      },
+      {
+        role: 'model',
+        parts: [{ text: 'thinking', thought: true }, { text: 'A cat.' }],
+      },
+    ]);
+    expect(messages).toEqual([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'What is this?' },
+          {
+            type: 'image_url',
+            image_url: { url: 'data:image/png;base64,AAAA' },
+          },
+        ],
+      },
+      { role: 'assistant', content: 'A cat.' },
+    ]);
+  });
+});
+
+describe('fromChatCompletionResponse', () => {
+  it('should convert text, reasoning, tool calls and usage', () => {
+    const response = fromChatCompletionResponse({
+      id: 'resp-1',
+      model: 'llama3',
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: 'Reading it now.',
+            reasoning_content: 'Need to read the file.',
+            tool_calls: [
+              {
+                id: 'call-1',
+                type: 'function',
+                function: { name: 'read_file', arguments: '{"path":"a"}' },
+              },
+            ],
+          },
+          finish_reason: 'tool_calls',
+        },
+      ],
+      usage: {
+        prompt_tokens: 10,
+        completion_tokens: 5,
+        total_tokens: 15,
+        prompt_tokens_details: { cached_tokens: 4 },
+      },
+    });
+    expect(response).toBeInstanceOf(GenerateContentResponse);
+    expect(response.responseId).toBe('resp-1');
+    expect(response.candidates?.[0].content?.parts).toEqual([
+      { text: 'Need to read the file.', thought: true },
+      { text: 'Reading it now.' },
+      {
+        functionCall: { id: 'call-1', name: 'read_file', args: { path: 'a' } },
+      },
+    ]);
+    expect(response.candidates?.[0].finishReason).toBe(FinishReason.STOP);
+    expect(response.functionCalls).toHaveLength(1);
+    expect(response.usageMetadata).toEqual({
+      promptTokenCount: 10,
+      candidatesTokenCount: 5,
+      totalTokenCount: 15,
+      cachedContentTokenCount: 4,
+      thoughtsTokenCount: undefined,
+    });
+  });
+
+  it('should report malformed tool call arguments', () => {
+    const response = fromChatCompletionResponse({
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: null,
+            tool_calls: [
+              {
+                id: 'call-1',
+                type: 'function',
+                function: { name: 'read_file', arguments: '{"path":' },
+              },
+            ],
+          },
+          finish_reason: 'tool_calls',
+        },
+      ],
+    });
+    expect(response.candidates?.[0].finishReason).toBe(
+      FinishReason.MALFORMED_FUNCTION_CALL,
+    );
+    expect(response.candidates?.[0].content?.parts).toEqual([]);
+  });
+
+  it('should map length to MAX_TOKENS', () => {
+    const response = fromChatCompletionResponse({
+      choices: [
+        {
+          index: 0,
+          message: { role: 'assistant', content: 'truncated' },
+          finish_reason: 'length',
+        },
+      ],
+    });
+    expect(response.candidates?.[0].finishReason).toBe(FinishReason.MAX_TOKENS);
+  });
+});
+
+describe('ChatCompletionStreamConverter', () => {
+  it('should forward text deltas and buffer tool call fragments', () => {
+    const converter = new ChatCompletionStreamConverter();
+    const first = converter.convert({
+      choices: [{ index: 0, delta: { content: 'Hel' }, finish_reason: null }],
+    });
+    expect(first?.text).toBe('Hel');
+
+    const fragment = converter.convert({
+      choices: [
+        {
+          index: 0,
+          delta: {
+            tool_calls: [
+              {
+                index: 0,
+                id: 'call-1',
+                function: { name: 'ls', arguments: '{"pa' },
+              },
+            ],
+          },
+          finish_reason: null,
+        },
+      ],
+    });
+    expect(fragment).toBeUndefined();
+
+    const last = converter.convert({
+      choices: [
+        {
+          index: 0,
+          delta: {
+            tool_calls: [{ index: 0, function: { arguments: 'th":"."}' } }],
+          },
+          finish_reason: 'tool_calls',
+        },
+      ],
+    });
+    expect(last?.functionCalls).toEqual([
+      { id: 'call-1', name: 'ls', args: { path: '.' } },
+    ]);
+    expect(last?.candidates?.[0].finishReason).toBe(FinishReason.STOP);
+    expect(converter.finish()).toBeUndefined();
+  });
+
+  it('should emit usage-only chunks without candidates', () => {
+    const converter = new ChatCompletionStreamConverter();
+    const response = converter.convert({
+      choices: [],
+      usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 },
+    });
+    expect(response?.candidates).toEqual([]);
+    expect(response?.usageMetadata?.totalTokenCount).toBe(5);
+  });
+
+  it('should flush pending tool calls when the stream ends early', () => {
+    const converter = new ChatCompletionStreamConverter();
+    converter.convert({
+      choices: [
+        {
+          index: 0,
+          delta: {
+            tool_calls: [
+              { index: 0, id: 'c', function: { name: 'ls', arguments: '{}' } },
+            ],
+          },
+          finish_reason: null,
+        },
+      ],
+    });
+    expect(converter.finish()?.functionCalls).toEqual([
+      { id: 'c', name: 'ls', args: {} },
+    ]);
+  });
+});
+
+describe('fromEmbeddingsResponse', () => {
+  it('should order embeddings by index', () => {
+    const response = fromEmbeddingsResponse({
+      data: [
+        { index: 1, embedding: [0.3] },
+        { index: 0, embedding: [0.1, 0.2] },
+      ],
+    });
+    expect(response.embeddings).toEqual([
+      { values: [0.1, 0.2] },
+      { values: [0.3] },
+    ]);
+  });
+});
@@ -0,0 +1,561 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  Content,
+  ContentListUnion,
+  ContentUnion,
+  EmbedContentParameters,
+  FunctionCall,
+  GenerateContentConfig,
+  GenerateContentParameters,
+  GenerateContentResponseUsageMetadata,
+  Part,
+  PartUnion,
+  ToolListUnion,
+} from '@google/genai';
+import {
+  EmbedContentResponse,
+  FinishReason,
+  FunctionCallingConfigMode,
+  GenerateContentResponse,
+} from '@google/genai';
+import type {
+  ChatCompletionChunk,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatContentPart,
+  ChatFinishReason,
+  ChatMessage,
+  ChatTool,
+  ChatToolCall,
+  ChatToolChoice,
+  ChatUsage,
+  EmbeddingsRequest,
+  EmbeddingsResponse,
+} from './types.js';
+
+export function toChatCompletionRequest(
+  req: GenerateContentParameters,
+  model: string,
+): ChatCompletionRequest {
+  const messages: ChatMessage[] = [];
+  const systemInstruction = req.config?.systemInstruction;
+  if (systemInstruction) {
+    const text = contentText(toContent(systemInstruction));
+    if (text) {
+      messages.push({ role: 'system', content: text });
+    }
+  }
+  messages.push(...toChatMessages(toContents(req.contents)));
+
+  const request: ChatCompletionRequest = {
+    model,
+    messages,
+    ...toSamplingParams(req.config),
+  };
+
+  const tools = toChatTools(req.config?.tools);
+  if (tools.length > 0) {
+    request.tools = tools;
+    const toolChoice = toChatToolChoice(req.config);
+    if (toolChoice) {
+      request.tool_choice = toolChoice;
+    }
+  }
+
+  return request;
+}
+
+export function toChatMessages(contents: Content[]): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  // Gemini history does not always carry function call ids, whereas the
+  // chat-completions format requires every tool message to reference the id
+  // of the call it answers. Synthesize ids in order and pair responses with
+  // the oldest pending call of the same name.
+  const pendingCallIds = new Map<string, string[]>();
+  let syntheticId = 0;
+
+  for (const content of contents) {
+    const parts = (content.parts ?? []).filter((part) => !part.thought);
+    if (content.role === 'model') {
+      const text = parts
+        .map((part) => part.text ?? '')
+        .join('')
+        .trim();
+      const toolCalls: ChatToolCall[] = [];
+      for (const part of parts) {
+        if (!part.functionCall) {
+          continue;
+        }
+        const name = part.functionCall.name ?? '';
+        const id = part.functionCall.id ?? `call_${syntheticId++}`;
+        const queue = pendingCallIds.get(name) ?? [];
+        queue.push(id);
+        pendingCallIds.set(name, queue);
+        toolCalls.push({
+          id,
+          type: 'function',
+          function: {
+            name,
+            arguments: JSON.stringify(part.functionCall.args ?? {}),
+          },
+        });
+      }
+      if (!text && toolCalls.length === 0) {
+        continue;
+      }
+      messages.push({
+        role: 'assistant',
+        content: text || null,
+        ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+      });
+      continue;
+    }
+
+    const userParts: ChatContentPart[] = [];
+    for (const part of parts) {
+      if (part.functionResponse) {
+        const name = part.functionResponse.name ?? '';
+        const queue = pendingCallIds.get(name);
+        let id = part.functionResponse.id;
+        if (id && queue?.includes(id)) {
+          queue.splice(queue.indexOf(id), 1);
+        } else {
+          id = queue?.shift() ?? id ?? `call_${syntheticId++}`;
+        }
+        messages.push({
+          role: 'tool',
+          tool_call_id: id,
+          content: functionResponseText(part.functionResponse.response),
+        });
+      } else if (part.text !== undefined) {
+        userParts.push({ type: 'text', text: part.text });
+      } else if (part.inlineData?.mimeType?.startsWith('image/')) {
+        userParts.push({
+          type: 'image_url',
+          image_url: {
+            url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`,
+          },
+        });
+      } else if (part.fileData?.fileUri) {
+        userParts.push({
+          type: 'text',
+          text: `[File: ${part.fileData.fileUri}]`,
+        });
+      }
+    }
+    if (userParts.length === 0) {
+      continue;
+    }
+    messages.push({
+      role: 'user',
+      content: userParts.every((part) => part.type === 'text')
+        ? userParts.map((part) => part.text).join('\n')
+        : userParts,
+    });
+  }
+
+  return messages;
+}
+
+function functionResponseText(response: unknown): string {
+  if (
+    response &&
+    typeof response === 'object' &&
+    'output' in response &&
+    typeof response.output === 'string' &&
+    Object.keys(response).length === 1
+  ) {
+    return response.output;
+  }
+  return JSON.stringify(response ?? {});
+}
+
+function toSamplingParams(
+  config: GenerateContentConfig | undefined,
+): Partial<ChatCompletionRequest> {
+  if (!config) {
+    return {};
+  }
+  const params: Partial<ChatCompletionRequest> = {
+    temperature: config.temperature,
+    top_p: config.topP,
+    max_tokens: config.maxOutputTokens,
+    stop: config.stopSequences,
+    presence_penalty: config.presencePenalty,
+    frequency_penalty: config.frequencyPenalty,
+    seed: config.seed,
+    n: config.candidateCount,
+  };
+  const schema = config.responseJsonSchema ?? config.responseSchema;
+  if (schema) {
+    params.response_format = {
+      type: 'json_schema',
+      json_schema: { name: 'response', schema: toJsonSchema(schema) },
+    };
+  } else if (config.responseMimeType === 'application/json') {
+    params.response_format = { type: 'json_object' };
+  }
+  return Object.fromEntries(
+    Object.entries(params).filter(([, value]) => value !== undefined),
+  );
+}
+
+export function toChatTools(tools: ToolListUnion | undefined): ChatTool[] {
+  const chatTools: ChatTool[] = [];
+  for (const tool of tools ?? []) {
+    if (!('functionDeclarations' in tool)) {
+      continue;
+    }
+    for (const declaration of tool.functionDeclarations ?? []) {
+      if (!declaration.name) {
+        continue;
+      }
+      const parameters =
+        declaration.parametersJsonSchema ??
+        (declaration.parameters
+          ? toJsonSchema(declaration.parameters)
+          : undefined);
+      chatTools.push({
+        type: 'function',
+        function: {
+          name: declaration.name,
+          description: declaration.description,
+          parameters: parameters ?? { type: 'object', properties: {} },
+        },
+      });
+    }
+  }
+  return chatTools;
+}
+
+function toChatToolChoice(
+  config: GenerateContentConfig | undefined,
+): ChatToolChoice | undefined {
+  const callingConfig = config?.toolConfig?.functionCallingConfig;
+  switch (callingConfig?.mode) {
+    case FunctionCallingConfigMode.NONE:
+      return 'none';
+    case FunctionCallingConfigMode.ANY: {
+      const allowed = callingConfig.allowedFunctionNames ?? [];
+      if (allowed.length === 1) {
+        return { type: 'function', function: { name: allowed[0] } };
+      }
+      return 'required';
+    }
+    case FunctionCallingConfigMode.AUTO:
+      return 'auto';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Converts a Gemini `Schema` (which uses upper-case OpenAPI type names) into
+ * a plain JSON schema. JSON schemas pass through unchanged.
+ */
+function toJsonSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) {
+    return schema.map(toJsonSchema);
+  }
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'type' && typeof value === 'string') {
+      result[key] = value.toLowerCase();
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      result[key] = Object.fromEntries(
+        Object.entries(value).map(([name, prop]) => [name, toJsonSchema(prop)]),
+      );
+    } else if (key === 'items' || key === 'anyOf') {
+      result[key] = toJsonSchema(value);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+export function fromChatCompletionResponse(
+  res: ChatCompletionResponse,
+): GenerateContentResponse {
+  const out = new GenerateContentResponse();
+  out.responseId = res.id;
+  out.modelVersion = res.model;
+  out.candidates = res.choices.map((choice) => {
+    const parts: Part[] = [];
+    if (choice.message.reasoning_content) {
+      parts.push({ text: choice.message.reasoning_content, thought: true });
+    }
+    if (choice.message.content) {
+      parts.push({ text: choice.message.content });
+    }
+    let malformed = false;
+    for (const toolCall of choice.message.tool_calls ?? []) {
+      const functionCall = toFunctionCall(
+        toolCall.id,
+        toolCall.function.name,
+        toolCall.function.arguments,
+      );
+      if (functionCall) {
+        parts.push({ functionCall });
+      } else {
+        malformed = true;
+      }
+    }
+    return {
+      index: choice.index,
+      content: { role: 'model', parts },
+      finishReason: malformed
+        ? FinishReason.MALFORMED_FUNCTION_CALL
+        : toFinishReason(choice.finish_reason),
+    };
+  });
+  if (res.usage) {
+    out.usageMetadata = toUsageMetadata(res.usage);
+  }
+  return out;
+}
+
+function toFunctionCall(
+  id: string | undefined,
+  name: string | undefined,
+  rawArgs: string | undefined,
+): FunctionCall | undefined {
+  if (!name) {
+    return undefined;
+  }
+  let args: Record<string, unknown> = {};
+  if (rawArgs && rawArgs.trim() !== '') {
+    try {
+      const parsed: unknown = JSON.parse(rawArgs);
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        return undefined;
+      }
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+      args = parsed as Record<string, unknown>;
+    } catch {
+      return undefined;
+    }
+  }
+  return { ...(id && { id }), name, args };
+}
+
+function toFinishReason(
+  reason: ChatFinishReason | undefined,
+): FinishReason | undefined {
+  switch (reason) {
+    case 'stop':
+    case 'tool_calls':
+    case 'function_call':
+      return FinishReason.STOP;
+    case 'length':
+      return FinishReason.MAX_TOKENS;
+    case 'content_filter':
+      return FinishReason.SAFETY;
+    case null:
+    case undefined:
+      return undefined;
+    default:
+      return FinishReason.OTHER;
+  }
+}
+
+function toUsageMetadata(
+  usage: ChatUsage,
+): GenerateContentResponseUsageMetadata {
+  return {
+    promptTokenCount: usage.prompt_tokens,
+    candidatesTokenCount: usage.completion_tokens,
+    totalTokenCount: usage.total_tokens,
+    cachedContentTokenCount: usage.prompt_tokens_details?.cached_tokens,
+    thoughtsTokenCount: usage.completion_tokens_details?.reasoning_tokens,
+  };
+}
+
+interface PendingToolCall {
+  id?: string;
+  name?: string;
+  arguments: string;
+}
+
+/**
+ * Translates a stream of chat-completion chunks into Gemini streaming
+ * responses. Text and reasoning deltas are forwarded as they arrive, while
+ * tool call fragments are buffered until the choice finishes, because their
+ * arguments are only valid JSON once complete.
+ */
+export class ChatCompletionStreamConverter {
+  private readonly toolCalls = new Map<number, PendingToolCall>();
+
+  convert(chunk: ChatCompletionChunk): GenerateContentResponse | undefined {
+    const choice = chunk.choices?.[0];
+    const parts: Part[] = [];
+    let finishReason: FinishReason | undefined;
+
+    if (choice) {
+      const delta = choice.delta ?? {};
+      if (delta.reasoning_content) {
+        parts.push({ text: delta.reasoning_content, thought: true });
+      }
+      if (delta.content) {
+        parts.push({ text: delta.content });
+      }
+      for (const fragment of delta.tool_calls ?? []) {
+        const pending = this.toolCalls.get(fragment.index) ?? {
+          arguments: '',
+        };
+        pending.id = fragment.id ?? pending.id;
+        pending.name = fragment.function?.name ?? pending.name;
+        pending.arguments += fragment.function?.arguments ?? '';
+        this.toolCalls.set(fragment.index, pending);
+      }
+      if (choice.finish_reason) {
+        finishReason = toFinishReason(choice.finish_reason);
+        const flushed = this.flushToolCalls();
+        parts.push(...flushed.parts);
+        if (flushed.malformed) {
+          finishReason = FinishReason.MALFORMED_FUNCTION_CALL;
+        }
+      }
+    }
+
+    if (parts.length === 0 && !finishReason && !chunk.usage) {
+      return undefined;
+    }
+
+    const out = new GenerateContentResponse();
+    out.responseId = chunk.id;
+    out.modelVersion = chunk.model;
+    out.candidates =
+      parts.length > 0 || finishReason
+        ? [
+            {
+              index: 0,
+              content: { role: 'model', parts },
+              ...(finishReason && { finishReason }),
+            },
+          ]
+        : [];
+    if (chunk.usage) {
+      out.usageMetadata = toUsageMetadata(chunk.usage);
+    }
+    return out;
+  }
+
+  /**
+   * Emits any tool calls still buffered when the stream ends without a
+   * finish reason (some servers omit it).
+   */
+  finish(): GenerateContentResponse | undefined {
+    if (this.toolCalls.size === 0) {
+      return undefined;
+    }
+    const flushed = this.flushToolCalls();
+    const out = new GenerateContentResponse();
+    out.candidates = [
+      {
+        index: 0,
+        content: { role: 'model', parts: flushed.parts },
+        finishReason: flushed.malformed
+          ? FinishReason.MALFORMED_FUNCTION_CALL
+          : FinishReason.STOP,
+      },
+    ];
+    return out;
+  }
+
+  private flushToolCalls(): { parts: Part[]; malformed: boolean } {
+    const parts: Part[] = [];
+    let malformed = false;
+    const indexes = [...this.toolCalls.keys()].sort((a, b) => a - b);
+    for (const index of indexes) {
+      const pending = this.toolCalls.get(index)!;
+      const functionCall = toFunctionCall(
+        pending.id,
+        pending.name,
+        pending.arguments,
+      );
+      if (functionCall) {
+        parts.push({ functionCall });
+      } else {
+        malformed = true;
+      }
+    }
+    this.toolCalls.clear();
+    return { parts, malformed };
+  }
+}
+
+export function toEmbeddingsRequest(
+  req: EmbedContentParameters,
+  model: string,
+): EmbeddingsRequest {
+  return {
+    model,
+    // Each entry of a list is embedded separately.
+    input: (Array.isArray(req.contents) ? req.contents : [req.contents]).map(
+      (content) => contentText(toContent(content)),
+    ),
+  };
+}
+
+export function fromEmbeddingsResponse(
+  res: EmbeddingsResponse,
+): EmbedContentResponse {
+  const out = new EmbedContentResponse();
+  out.embeddings = [...res.data]
+    .sort((a, b) => a.index - b.index)
+    .map((item) => ({ values: item.embedding }));
+  return out;
+}
+
+function contentText(content: Content): string {
+  return (content.parts ?? [])
+    .filter((part) => !part.thought && part.text)
+    .map((part) => part.text)
+    .join('\n');
+}
+
+export function toContents(contents: ContentListUnion): Content[] {
+  if (Array.isArray(contents)) {
+    if (contents.every(isContent)) {
+      return contents.map(toContent);
+    }
+    // A list of parts makes up a single user turn.
+    return [
+      {
+        role: 'user',
+        parts: (contents as PartUnion[]).map(toPart),
+      },
+    ];
+  }
+  return [toContent(contents)];
+}
+
+function isContent(value: unknown): value is Content {
+  return !!value && typeof value === 'object' && 'parts' in value;
+}
+
+function toContent(content: ContentUnion): Content {
+  if (Array.isArray(content)) {
+    return { role: 'user', parts: content.map(toPart) };
+  }
+  if (typeof content === 'string') {
+    return { role: 'user', parts: [{ text: content }] };
+  }
+  if (isContent(content)) {
+    return { role: content.role ?? 'user', parts: content.parts ?? [] };
+  }
+  return { role: 'user', parts: [toPart(content)] };
+}
+
+function toPart(part: PartUnion): Part {
+  return typeof part === 'string' ? { text: part } : part;
+}
@@ -0,0 +1,239 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  OpenAICompatibleApiError,
+  OpenAICompatibleContentGenerator,
+} from './openaiContentGenerator.js';
+
+interface RecordedRequest {
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+type Handler = (req: RecordedRequest, res: http.ServerResponse) => void;
+
+describe('OpenAICompatibleContentGenerator', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let handler: Handler;
+  let requests: RecordedRequest[];
+
+  beforeEach(async () => {
+    requests = [];
+    server = http.createServer((req, res) => {
+      let data = '';
+      req.on('data', (chunk) => (data += chunk));
+      req.on('end', () => {
+        const recorded = {
+          url: req.url,
+          headers: req.headers,
+          body: JSON.parse(data || '{}'),
+        };
+        requests.push(recorded);
+        handler(recorded, res);
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}/v1/`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  function sendJson(res: http.ServerResponse, status: number, body: object) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  it('should send chat completion requests and convert the response', async () => {
+    handler = (_req, res) =>
+      sendJson(res, 200, {
+        id: 'resp-1',
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: 'Hi there' },
+            finish_reason: 'stop',
+          },
+        ],
+        usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 },
+      });
+    const generator = new OpenAICompatibleContentGenerator({
+      baseUrl,
+      apiKey: 'secret',
+      headers: { 'X-Custom': 'yes' },
+    });
+
+    const response = await generator.generateContent(
+      { model: 'qwen2.5-coder', contents: 'Hello' },
+      'prompt-id',
+    );
+
+    expect(response.text).toBe('Hi there');
+    expect(response.usageMetadata?.totalTokenCount).toBe(5);
+    expect(requests[0].url).toBe('/v1/chat/completions');
+    expect(requests[0].headers['authorization']).toBe('Bearer secret');
+    expect(requests[0].headers['x-custom']).toBe('yes');
+    expect(requests[0].body).toEqual({
+      model: 'qwen2.5-coder',
+      messages: [{ role: 'user', content: 'Hello' }],
+    });
+  });
+
+  it('should override the requested model when one is configured', async () => {
+    handler = (_req, res) =>
+      sendJson(res, 200, {
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: 'ok' },
+            finish_reason: 'stop',
+          },
+        ],
+      });
+    const generator = new OpenAICompatibleContentGenerator({
+      baseUrl,
+      model: 'llama3',
+    });
+
+    await generator.generateContent(
+      { model: 'gemini-2.5-pro', contents: 'Hello' },
+      'prompt-id',
+    );
+
+    expect(requests[0].body['model']).toBe('llama3');
+    expect(requests[0].headers['authorization']).toBeUndefined();
+  });
+
+  it('should stream text and tool calls', async () => {
+    handler = (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      const events = [
+        { choices: [{ index: 0, delta: { content: 'Let me ' } }] },
+        { choices: [{ index: 0, delta: { content: 'check.' } }] },
+        {
+          choices: [
+            {
+              index: 0,
+              delta: {
+                tool_calls: [
+                  {
+                    index: 0,
+                    id: 'call-1',
+                    function: { name: 'ls', arguments: '{"path":' },
+                  },
+                ],
+              },
+            },
+          ],
+        },
+        {
+          choices: [
+            {
+              index: 0,
+              delta: {
+                tool_calls: [{ index: 0, function: { arguments: '"."}' } }],
+              },
+              finish_reason: 'tool_calls',
+            },
+          ],
+        },
+        {
+          choices: [],
+          usage: { prompt_tokens: 7, completion_tokens: 4, total_tokens: 11 },
+        },
+      ];
+      for (const event of events) {
+        res.write(`data: ${JSON.stringify(event)}\n\n`);
+      }
+      res.end('data: [DONE]\n\n');
+    };
+    const generator = new OpenAICompatibleContentGenerator({ baseUrl });
+
+    const stream = await generator.generateContentStream(
+      { model: 'm', contents: 'List files' },
+      'prompt-id',
+    );
+    const responses = [];
+    for await (const response of stream) {
+      responses.push(response);
+    }
+
+    expect(requests[0].body['stream']).toBe(true);
+    expect(requests[0].body['stream_options']).toEqual({
+      include_usage: true,
+    });
+    expect(responses.map((r) => r.text ?? '').join('')).toBe('Let me check.');
+    expect(responses.flatMap((r) => r.functionCalls ?? [])).toEqual([
+      { id: 'call-1', name: 'ls', args: { path: '.' } },
+    ]);
+    expect(responses.at(-1)?.usageMetadata?.totalTokenCount).toBe(11);
+  });
+
+  it('should surface HTTP errors with their status', async () => {
+    handler = (_req, res) =>
+      sendJson(res, 429, { error: { message: 'Rate limit exceeded' } });
+    const generator = new OpenAICompatibleContentGenerator({ baseUrl });
+
+    const promise = generator.generateContent(
+      { model: 'm', contents: 'Hello' },
+      'prompt-id',
+    );
+
+    await expect(promise).rejects.toBeInstanceOf(OpenAICompatibleApiError);
+    await expect(promise).rejects.toMatchObject({
+      status: 429,
+      message: 'Rate limit exceeded',
+    });
+  });
+
+  it('should request embeddings', async () => {
+    handler = (_req, res) =>
+      sendJson(res, 200, {
+        data: [
+          { index: 0, embedding: [0.1, 0.2] },
+          { index: 1, embedding: [0.3, 0.4] },
+        ],
+      });
+    const generator = new OpenAICompatibleContentGenerator({ baseUrl });
+
+    const response = await generator.embedContent({
+      model: 'nomic-embed-text',
+      contents: ['first', 'second'],
+    });
+
+    expect(requests[0].url).toBe('/v1/embeddings');
+    expect(requests[0].body).toEqual({
+      model: 'nomic-embed-text',
+      input: ['first', 'second'],
+    });
+    expect(response.embeddings).toEqual([
+      { values: [0.1, 0.2] },
+      { values: [0.3, 0.4] },
+    ]);
+  });
+
+  it('should estimate token counts locally', async () => {
+    const generator = new OpenAICompatibleContentGenerator({ baseUrl });
+
+    const response = await generator.countTokens({
+      model: 'm',
+      contents: [{ role: 'user', parts: [{ text: 'a'.repeat(40) }] }],
+    });
+
+    expect(response.totalTokens).toBeGreaterThan(0);
+    expect(requests).toHaveLength(0);
+  });
+});
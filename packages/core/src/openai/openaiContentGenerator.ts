@@ -0,0 +1,227 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  CountTokensParameters,
+  CountTokensResponse,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  GenerateContentParameters,
+  GenerateContentResponse,
+} from '@google/genai';
+import * as readline from 'node:readline';
+import { Readable } from 'node:stream';
+import type { ReadableStream as WebReadableStream } from 'node:stream/web';
+import type { ContentGenerator } from '../core/contentGenerator.js';
+import { estimateTokenCountSync } from '../utils/tokenCalculation.js';
+import {
+  ChatCompletionStreamConverter,
+  fromChatCompletionResponse,
+  fromEmbeddingsResponse,
+  toChatCompletionRequest,
+  toContents,
+  toEmbeddingsRequest,
+} from './converter.js';
+import type {
+  ChatCompletionChunk,
+  ChatCompletionResponse,
+  EmbeddingsResponse,
+} from './types.js';
+
+export interface OpenAICompatibleOptions {
+  /** Base URL of the API, e.g. `http://localhost:8000/v1`. */
+  baseUrl: string;
+  apiKey?: string;
+  /**
+   * Model name sent to the server for every request. When unset, the model
+   * chosen by the CLI is passed through unchanged.
+   */
+  model?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Error raised for non-2xx responses. Carries the HTTP status so that the
+ * retry and error formatting logic treat it like a Gemini API error.
+ */
+export class OpenAICompatibleApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = 'OpenAICompatibleApiError';
+  }
+}
+
+/**
+ * A ContentGenerator that talks to any server implementing the OpenAI
+ * chat-completions wire format (vLLM, Ollama, LiteLLM and similar gateways).
+ */
+export class OpenAICompatibleContentGenerator implements ContentGenerator {
+  private readonly baseUrl: string;
+
+  constructor(private readonly options: OpenAICompatibleOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+  }
+
+  async generateContent(
+    req: GenerateContentParameters,
+    _userPromptId: string,
+  ): Promise<GenerateContentResponse> {
+    const res = await this.post(
+      'chat/completions',
+      toChatCompletionRequest(req, this.resolveModel(req.model)),
+      req.config?.abortSignal,
+    );
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+    const body = (await res.json()) as ChatCompletionResponse;
+    return fromChatCompletionResponse(body);
+  }
+
+  async generateContentStream(
+    req: GenerateContentParameters,
+    _userPromptId: string,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const res = await this.post(
+      'chat/completions',
+      {
+        ...toChatCompletionRequest(req, this.resolveModel(req.model)),
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      req.config?.abortSignal,
+    );
+    const chunks = readServerSentEvents<ChatCompletionChunk>(res);
+
+    return (async function* (): AsyncGenerator<GenerateContentResponse> {
+      const converter = new ChatCompletionStreamConverter();
+      for await (const chunk of chunks) {
+        const response = converter.convert(chunk);
+        if (response) {
+          yield response;
+        }
+      }
+      const trailing = converter.finish();
+      if (trailing) {
+        yield trailing;
+      }
+    })();
+  }
+
+  async countTokens(req: CountTokensParameters): Promise<CountTokensResponse> {
+    // The chat-completions API has no token counting endpoint, so fall back
+    // to the same local heuristic used elsewhere for text-only requests.
+    const parts = toContents(req.contents).flatMap(
+      (content) => content.parts ?? [],
+    );
+    return { totalTokens: estimateTokenCountSync(parts) };
+  }
+
+  async embedContent(
+    req: EmbedContentParameters,
+  ): Promise<EmbedContentResponse> {
+    const res = await this.post(
+      'embeddings',
+      toEmbeddingsRequest(req, this.resolveModel(req.model)),
+      req.config?.abortSignal,
+    );
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+    const body = (await res.json()) as EmbeddingsResponse;
+    return fromEmbeddingsResponse(body);
+  }
+
+  private resolveModel(requestedModel: string): string {
+    return this.options.model || requestedModel;
+  }
+
+  private async post(
+    path: string,
+    body: object,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...this.options.headers,
+    };
+    if (this.options.apiKey) {
+      headers['Authorization'] = `Bearer ${this.options.apiKey}`;
+    }
+    const res = await fetch(`${this.baseUrl}/${path}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!res.ok) {
+      throw new OpenAICompatibleApiError(
+        await readErrorMessage(res),
+        res.status,
+      );
+    }
+    return res;
+  }
+}
+
+async function readErrorMessage(res: Response): Promise<string> {
+  const text = await res.text().catch(() => '');
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (parsed && typeof parsed === 'object' && 'error' in parsed) {
+      const error = parsed.error;
+      if (typeof error === 'string') {
+        return error;
+      }
+      if (
+        error &&
+        typeof error === 'object' &&
+        'message' in error &&
+        typeof error.message === 'string'
+      ) {
+        return error.message;
+      }
+    }
+  } catch {
+    // Not JSON, fall through to the raw body.
+  }
+  return text || `Request failed with status ${res.status}`;
+}
+
+async function* readServerSentEvents<T>(res: Response): AsyncGenerator<T> {
+  if (!res.body) {
+    return;
+  }
+  const rl = readline.createInterface({
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+    input: Readable.fromWeb(res.body as WebReadableStream<Uint8Array>),
+    crlfDelay: Infinity, // Recognizes '\r\n' and '\n' as line breaks
+  });
+
+  let bufferedLines: string[] = [];
+  for await (const line of rl) {
+    if (line.startsWith('data:')) {
+      bufferedLines.push(line.slice(5).trim());
+      continue;
+    }
+    if (line !== '' || bufferedLines.length === 0) {
+      // Ignore comments, event names and id fields.
+      continue;
+    }
+    const data = bufferedLines.join('\n');
+    bufferedLines = [];
+    if (data === '[DONE]') {
+      return;
+    }
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+    yield JSON.parse(data) as T;
+  }
+  // Some servers close the stream without a trailing blank line.
+  const data = bufferedLines.join('\n');
+  if (data && data !== '[DONE]') {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+    yield JSON.parse(data) as T;
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Wire types for the subset of the OpenAI chat-completions and embeddings APIs
+// that OpenAI-compatible servers (vLLM, Ollama, LiteLLM, ...) implement.
+
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface ChatTextContentPart {
+  type: 'text';
+  text: string;
+}
+
+export interface ChatImageContentPart {
+  type: 'image_url';
+  image_url: { url: string };
+}
+
+export type ChatContentPart = ChatTextContentPart | ChatImageContentPart;
+
+export interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string | ChatContentPart[] | null;
+  tool_calls?: ChatToolCall[];
+  tool_call_id?: string;
+  name?: string;
+}
+
+export interface ChatTool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters?: unknown;
+  };
+}
+
+export type ChatToolChoice =
+  | 'auto'
+  | 'none'
+  | 'required'
+  | { type: 'function'; function: { name: string } };
+
+export interface ChatResponseFormat {
+  type: 'json_object' | 'json_schema';
+  json_schema?: {
+    name: string;
+    schema: unknown;
+  };
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  stream?: boolean;
+  stream_options?: { include_usage: boolean };
+  tools?: ChatTool[];
+  tool_choice?: ChatToolChoice;
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  stop?: string[];
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  seed?: number;
+  n?: number;
+  response_format?: ChatResponseFormat;
+}
+
+export interface ChatUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+  completion_tokens_details?: { reasoning_tokens?: number };
+}
+
+export type ChatFinishReason =
+  | 'stop'
+  | 'length'
+  | 'tool_calls'
+  | 'function_call'
+  | 'content_filter'
+  | null;
+
+export interface ChatCompletionResponse {
+  id?: string;
+  model?: string;
+  choices: Array<{
+    index: number;
+    message: {
+      role: 'assistant';
+      content: string | null;
+      reasoning_content?: string | null;
+      tool_calls?: ChatToolCall[];
+    };
+    finish_reason: ChatFinishReason;
+  }>;
+  usage?: ChatUsage;
+}
+
+export interface ChatToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
+export interface ChatCompletionChunk {
+  id?: string;
+  model?: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: 'assistant';
+      content?: string | null;
+      reasoning_content?: string | null;
+      tool_calls?: ChatToolCallDelta[];
+    };
+    finish_reason: ChatFinishReason;
+  }>;
+  usage?: ChatUsage | null;
+}
+
+export interface EmbeddingsRequest {
+  model: string;
+  input: string[];
+}
+
+export interface EmbeddingsResponse {
+  data: Array<{ index: number; embedding: number[] }>;
+  model?: string;
+  usage?: { prompt_tokens?: number; total_tokens?: number };
+}
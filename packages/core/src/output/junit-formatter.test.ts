@@ -0,0 +1,94 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { expect, describe, it } from 'vitest';
+import { JUnitFormatter } from './junit-formatter.js';
+import type { ToolCallOutcome } from './types.js';
+
+describe('JUnitFormatter', () => {
+  const toolCalls: ToolCallOutcome[] = [
+    { callId: 'call-1', name: 'read_file', status: 'success', durationMs: 12 },
+    {
+      callId: 'call-2',
+      name: 'run_shell_command',
+      status: 'error',
+      durationMs: 1500,
+      error: { type: 'shell_execute_error', message: 'Exit code <1>' },
+    },
+    { callId: 'call-3', name: 'write_file', status: 'cancelled' },
+  ];
+
+  it('should report each tool call and the session as test cases', () => {
+    const formatter = new JUnitFormatter();
+    const formatted = formatter.format(
+      toolCalls,
+      { status: 'success' },
+      2500,
+      'test-session-id',
+    );
+
+    expect(formatted).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n/);
+    expect(formatted).toContain(
+      '<testsuites name="gemini-cli" tests="4" failures="1" errors="0" skipped="1" time="2.500">',
+    );
+    expect(formatted).toContain(
+      '<property name="session_id" value="test-session-id"/>',
+    );
+    expect(formatted).toContain(
+      '<testcase classname="gemini-cli.tools" name="read_file (call-1)" time="0.012"/>',
+    );
+    expect(formatted).toContain(
+      '<failure type="shell_execute_error" message="Exit code &lt;1&gt;">Exit code &lt;1&gt;</failure>',
+    );
+    expect(formatted).toContain(
+      '<skipped message="Tool call was cancelled."/>',
+    );
+    expect(formatted).toContain(
+      '<testcase classname="gemini-cli" name="session" time="2.500"/>',
+    );
+  });
+
+  it('should fail the session test case when the run fails', () => {
+    const formatter = new JUnitFormatter();
+    const formatted = formatter.format(
+      [],
+      {
+        status: 'error',
+        error: { type: 'FatalTurnLimitedError', message: 'Too many turns' },
+      },
+      1000,
+    );
+
+    expect(formatted).toContain('tests="1" failures="1"');
+    expect(formatted).not.toContain('<properties>');
+    expect(formatted).toContain(
+      '<failure type="FatalTurnLimitedError" message="Too many turns">Too many turns</failure>',
+    );
+  });
+
+  it('should strip ANSI escapes and invalid XML characters', () => {
+    const formatter = new JUnitFormatter();
+    const formatted = formatter.format(
+      [
+        {
+          callId: 'call-1',
+          name: 'run_shell_command',
+          status: 'error',
+          error: {
+            type: 'shell_execute_error',
+            message: '\x1B[31mfailed\x1B[0m\x07 & "quoted"',
+          },
+        },
+      ],
+      { status: 'success' },
+      0,
+    );
+
+    expect(formatted).toContain('message="failed &amp; &quot;quoted&quot;"');
+    expect(formatted).not.toContain('\x1B');
+    expect(formatted).not.toContain('\x07');
+  });
+});
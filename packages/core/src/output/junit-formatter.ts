@@ -0,0 +1,117 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import stripAnsi from 'strip-ansi';
+import type { RunOutcome, ToolCallOutcome } from './types.js';
+
+const SUITE_NAME = 'gemini-cli';
+
+function escapeXml(value: string): string {
+  return (
+    stripAnsi(value)
+      // Characters that are not allowed anywhere in an XML 1.0 document.
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;')
+  );
+}
+
+function formatSeconds(durationMs = 0): string {
+  return (durationMs / 1000).toFixed(3);
+}
+
+function formatTestCase(attributes: string, body?: string): string {
+  return body
+    ? `    <testcase ${attributes}>\n      ${body}\n    </testcase>`
+    : `    <testcase ${attributes}/>`;
+}
+
+function formatFailure(type: string, message: string): string {
+  return `<failure type="${escapeXml(type)}" message="${escapeXml(message)}">${escapeXml(message)}</failure>`;
+}
+
+/**
+ * Formatter for JUnit XML output. Each tool call becomes a test case, and a
+ * final `session` test case carries the overall status of the run.
+ */
+export class JUnitFormatter {
+  format(
+    toolCalls: readonly ToolCallOutcome[],
+    outcome: RunOutcome,
+    durationMs: number,
+    sessionId?: string,
+  ): string {
+    const testCases = toolCalls.map((toolCall) =>
+      this.formatToolCall(toolCall),
+    );
+    testCases.push(this.formatSession(outcome, durationMs));
+
+    const tests = toolCalls.length + 1;
+    const failures =
+      toolCalls.filter((toolCall) => toolCall.status === 'error').length +
+      (outcome.status === 'error' ? 1 : 0);
+    const skipped = toolCalls.filter(
+      (toolCall) => toolCall.status === 'cancelled',
+    ).length;
+    const counts = `tests="${tests}" failures="${failures}" errors="0" skipped="${skipped}" time="${formatSeconds(durationMs)}"`;
+
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="${SUITE_NAME}" ${counts}>`,
+      `  <testsuite name="${SUITE_NAME}" ${counts} timestamp="${new Date().toISOString()}">`,
+    ];
+    if (sessionId) {
+      lines.push(
+        '    <properties>',
+        `      <property name="session_id" value="${escapeXml(sessionId)}"/>`,
+        '    </properties>',
+      );
+    }
+    lines.push(...testCases, '  </testsuite>', '</testsuites>', '');
+    return lines.join('\n');
+  }
+
+  private formatToolCall(toolCall: ToolCallOutcome): string {
+    const attributes = `classname="${SUITE_NAME}.tools" name="${escapeXml(
+      `${toolCall.name} (${toolCall.callId})`,
+    )}" time="${formatSeconds(toolCall.durationMs)}"`;
+
+    if (toolCall.status === 'cancelled') {
+      return formatTestCase(
+        attributes,
+        '<skipped message="Tool call was cancelled."/>',
+      );
+    }
+    if (toolCall.status === 'error') {
+      return formatTestCase(
+        attributes,
+        formatFailure(
+          toolCall.error?.type ?? 'TOOL_EXECUTION_ERROR',
+          toolCall.error?.message ?? 'Tool call failed.',
+        ),
+      );
+    }
+    return formatTestCase(attributes);
+  }
+
+  private formatSession(outcome: RunOutcome, durationMs: number): string {
+    const attributes = `classname="${SUITE_NAME}" name="session" time="${formatSeconds(durationMs)}"`;
+    if (outcome.status === 'success') {
+      return formatTestCase(attributes);
+    }
+    return formatTestCase(
+      attributes,
+      formatFailure(
+        outcome.error?.type ?? 'Error',
+        outcome.error?.message ?? 'The session failed.',
+      ),
+    );
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Finding, ToolCallOutcome } from './types.js';
+
+/**
+ * Collects what the SARIF and JUnit output formats report on: the findings
+ * the model records and the outcome of every tool call in the run.
+ */
+export class RunReport {
+  private readonly startTime = Date.now();
+  private readonly findings: Finding[] = [];
+  private readonly toolCalls: ToolCallOutcome[] = [];
+
+  addFinding(finding: Finding): void {
+    this.findings.push(finding);
+  }
+
+  getFindings(): readonly Finding[] {
+    return this.findings;
+  }
+
+  recordToolCall(outcome: ToolCallOutcome): void {
+    this.toolCalls.push(outcome);
+  }
+
+  getToolCalls(): readonly ToolCallOutcome[] {
+    return this.toolCalls;
+  }
+
+  getDurationMs(): number {
+    return Date.now() - this.startTime;
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { expect, describe, it } from 'vitest';
+import { SarifFormatter } from './sarif-formatter.js';
+import type { Finding } from './types.js';
+
+describe('SarifFormatter', () => {
+  const finding: Finding = {
+    filePath: 'src/db.ts',
+    startLine: 10,
+    endLine: 12,
+    severity: 'error',
+    message: 'Query is built from user input.',
+    ruleId: 'sql-injection',
+  };
+
+  it('should format findings as a SARIF 2.1.0 log', () => {
+    const formatter = new SarifFormatter();
+    const formatted = formatter.format(
+      [finding],
+      { status: 'success' },
+      { srcRoot: '/workspace' },
+    );
+
+    expect(JSON.parse(formatted)).toEqual({
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: 'gemini-cli',
+              informationUri: 'https://github.com/google-gemini/gemini-cli',
+              rules: [{ id: 'sql-injection' }],
+            },
+          },
+          originalUriBaseIds: {
+            '%SRCROOT%': { uri: 'file:///workspace/' },
+          },
+          invocations: [{ executionSuccessful: true }],
+          results: [
+            {
+              ruleId: 'sql-injection',
+              level: 'error',
+              message: { text: 'Query is built from user input.' },
+              locations: [
+                {
+                  physicalLocation: {
+                    artifactLocation: {
+                      uri: 'src/db.ts',
+                      uriBaseId: '%SRCROOT%',
+                    },
+                    region: { startLine: 10, endLine: 12 },
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('should list each rule once and default the rule id', () => {
+    const formatter = new SarifFormatter();
+    const formatted = formatter.format(
+      [
+        finding,
+        { ...finding, startLine: 20, endLine: undefined },
+        { ...finding, ruleId: undefined, severity: 'note' },
+      ],
+      { status: 'success' },
+    );
+    const [run] = JSON.parse(formatted).runs;
+
+    expect(run.tool.driver.rules).toEqual([
+      { id: 'sql-injection' },
+      { id: 'finding' },
+    ]);
+    expect(run.results[1].locations[0].physicalLocation.region).toEqual({
+      startLine: 20,
+    });
+    expect(run.results[2].ruleId).toBe('finding');
+    expect(run.results[2].level).toBe('note');
+    expect(run.originalUriBaseIds).toBeUndefined();
+  });
+
+  it('should encode Windows separators and spaces in file URIs', () => {
+    const formatter = new SarifFormatter();
+    const formatted = formatter.format(
+      [{ ...finding, filePath: 'src\\my file.ts' }],
+      { status: 'success' },
+    );
+    const [run] = JSON.parse(formatted).runs;
+
+    expect(
+      run.results[0].locations[0].physicalLocation.artifactLocation.uri,
+    ).toBe('src/my%20file.ts');
+  });
+
+  it('should report a failed run as an unsuccessful invocation', () => {
+    const formatter = new SarifFormatter();
+    const formatted = formatter.format([finding], {
+      status: 'error',
+      error: {
+        type: 'FatalTurnLimitedError',
+        message: '\x1B[31mToo many turns\x1B[0m',
+      },
+    });
+    const [run] = JSON.parse(formatted).runs;
+
+    expect(run.invocations).toEqual([
+      {
+        executionSuccessful: false,
+        toolExecutionNotifications: [
+          {
+            level: 'error',
+            message: { text: 'Too many turns' },
+            descriptor: { id: 'FatalTurnLimitedError' },
+          },
+        ],
+      },
+    ]);
+    expect(run.results).toHaveLength(1);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { pathToFileURL } from 'node:url';
+import stripAnsi from 'strip-ansi';
+import type { Finding, RunOutcome } from './types.js';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const SRCROOT = '%SRCROOT%';
+const DEFAULT_RULE_ID = 'finding';
+
+export interface SarifOptions {
+  /** The workspace root that finding paths are relative to. */
+  srcRoot?: string;
+}
+
+/**
+ * Formatter for SARIF 2.1.0 output. Emits a single run containing the
+ * findings reported during the session.
+ */
+export class SarifFormatter {
+  format(
+    findings: readonly Finding[],
+    outcome: RunOutcome,
+    options: SarifOptions = {},
+  ): string {
+    const ruleIds = [
+      ...new Set(findings.map((finding) => finding.ruleId ?? DEFAULT_RULE_ID)),
+    ];
+
+    const run = {
+      tool: {
+        driver: {
+          name: 'gemini-cli',
+          informationUri: 'https://github.com/google-gemini/gemini-cli',
+          rules: ruleIds.map((id) => ({ id })),
+        },
+      },
+      ...(options.srcRoot && {
+        originalUriBaseIds: {
+          [SRCROOT]: { uri: `${pathToFileURL(options.srcRoot).href}/` },
+        },
+      }),
+      invocations: [
+        {
+          executionSuccessful: outcome.status === 'success',
+          ...(outcome.error && {
+            toolExecutionNotifications: [
+              {
+                level: 'error',
+                message: { text: stripAnsi(outcome.error.message) },
+                descriptor: { id: outcome.error.type },
+              },
+            ],
+          }),
+        },
+      ],
+      results: findings.map((finding) => this.toResult(finding)),
+    };
+
+    return JSON.stringify(
+      { $schema: SARIF_SCHEMA, version: '2.1.0', runs: [run] },
+      null,
+      2,
+    );
+  }
+
+  private toResult(finding: Finding) {
+    return {
+      ruleId: finding.ruleId ?? DEFAULT_RULE_ID,
+      level: finding.severity,
+      message: { text: stripAnsi(finding.message) },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: {
+              uri: encodeURI(finding.filePath.split('\\').join('/')),
+              uriBaseId: SRCROOT,
+            },
+            region: {
+              startLine: finding.startLine,
+              ...(finding.endLine && { endLine: finding.endLine }),
+            },
+          },
+        },
+      ],
+    };
+  }
+}
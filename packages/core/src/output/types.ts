@@ -10,6 +10,8 @@ export enum OutputFormat {
   TEXT = 'text',
   JSON = 'json',
   STREAM_JSON = 'stream-json',
+  SARIF = 'sarif',
+  JUNIT = 'junit',
 }
 
 export interface JsonError {
@@ -25,6 +27,35 @@ export interface JsonOutput {
   error?: JsonError;
 }
 
+// Report types for the SARIF and JUnit output formats
+export type FindingSeverity = 'error' | 'warning' | 'note';
+
+export interface Finding {
+  /** Path of the file, relative to the workspace root. */
+  filePath: string;
+  startLine: number;
+  endLine?: number;
+  severity: FindingSeverity;
+  message: string;
+  ruleId?: string;
+}
+
+export interface ToolCallOutcome {
+  callId: string;
+  name: string;
+  status: 'success' | 'error' | 'cancelled';
+  durationMs?: number;
+  error?: {
+    type: string;
+    message: string;
+  };
+}
+
+export interface RunOutcome {
+  status: 'success' | 'error';
+  error?: JsonError;
+}
+
 // Streaming JSON event types
 export enum JsonStreamEventType {
   INIT = 'init',
@@ -952,3 +952,14 @@ name = "invalid-name"
     vi.doUnmock('node:fs/promises');
   });
 });
+
+describe('getPolicyTierName', () => {
+  it('should name the tier of a priority band', async () => {
+    const { getPolicyTierName } = await import('./config.js');
+    expect(getPolicyTierName(1.05)).toBe('default');
+    expect(getPolicyTierName(2.3)).toBe('user');
+    expect(getPolicyTierName(3.999)).toBe('admin');
+    expect(getPolicyTierName(undefined)).toBeUndefined();
+    expect(getPolicyTierName(100)).toBeUndefined();
+  });
+});
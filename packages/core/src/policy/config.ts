@@ -98,6 +98,25 @@ export function getPolicyTier(
   return DEFAULT_POLICY_TIER;
 }
 
+/**
+ * Determines the tier name of a rule from its priority band. Returns
+ * undefined for priorities outside the tiers, e.g. rules added in code.
+ */
+export function getPolicyTierName(
+  priority: number | undefined,
+): 'default' | 'user' | 'admin' | undefined {
+  switch (Math.floor(priority ?? 0)) {
+    case DEFAULT_POLICY_TIER:
+      return 'default';
+    case USER_POLICY_TIER:
+      return 'user';
+    case ADMIN_POLICY_TIER:
+      return 'admin';
+    default:
+      return undefined;
+  }
+}
+
 /**
  * Formats a policy file error for console logging.
  */
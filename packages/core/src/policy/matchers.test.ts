@@ -0,0 +1,201 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  collectPathArguments,
+  matchesPathGlobs,
+  matchesShellCommand,
+} from './matchers.js';
+import { initializeShellParsers } from '../utils/shell-utils.js';
+
+describe('collectPathArguments', () => {
+  it('should collect path-like arguments, including nested ones', () => {
+    expect(
+      collectPathArguments({
+        file_path: 'a.ts',
+        content: 'ignored',
+        options: { dir_path: 'src' },
+        source: 'b.ts',
+      }),
+    ).toEqual(['a.ts', 'src', 'b.ts']);
+  });
+
+  it('should return no paths for missing args', () => {
+    expect(collectPathArguments(undefined)).toEqual([]);
+  });
+});
+
+describe('matchesPathGlobs', () => {
+  const workspace = ['/work/app', '/work/lib'];
+
+  it('should match relative globs against each workspace directory', () => {
+    expect(
+      matchesPathGlobs({ file_path: 'src/a.ts' }, ['src/**'], workspace),
+    ).toBe(true);
+    expect(
+      matchesPathGlobs(
+        { file_path: '/work/lib/src/b.ts' },
+        ['src/**'],
+        workspace,
+      ),
+    ).toBe(true);
+    expect(
+      matchesPathGlobs({ file_path: 'test/a.ts' }, ['src/**'], workspace),
+    ).toBe(false);
+  });
+
+  it('should match absolute globs against the absolute path', () => {
+    expect(
+      matchesPathGlobs(
+        { file_path: '/tmp/out.log' },
+        ['/tmp/*.log'],
+        workspace,
+      ),
+    ).toBe(true);
+  });
+
+  it('should match dotfiles', () => {
+    expect(
+      matchesPathGlobs({ file_path: '.env' }, ['**/.env'], workspace),
+    ).toBe(true);
+  });
+
+  it('should require every path argument to match', () => {
+    expect(
+      matchesPathGlobs(
+        { source: 'src/a.ts', destination: '../outside.ts' },
+        ['src/**', '*.ts'],
+        workspace,
+      ),
+    ).toBe(false);
+  });
+
+  it('should not match calls without path arguments', () => {
+    expect(matchesPathGlobs({ pattern: 'TODO' }, ['**'], workspace)).toBe(
+      false,
+    );
+  });
+});
+
+describe('matchesShellCommand', () => {
+  beforeAll(async () => {
+    await initializeShellParsers();
+  });
+
+  it('should match the program by its basename', () => {
+    expect(matchesShellCommand('/usr/bin/npm test', { program: ['npm'] })).toBe(
+      true,
+    );
+    expect(matchesShellCommand('npx test', { program: ['npm'] })).toBe(false);
+  });
+
+  it('should match the first non-flag argument as the subcommand', () => {
+    expect(
+      matchesShellCommand('git log -n 3', {
+        program: ['git'],
+        subcommand: ['log', 'show'],
+      }),
+    ).toBe(true);
+    expect(
+      matchesShellCommand('git status', {
+        program: ['git'],
+        subcommand: ['log'],
+      }),
+    ).toBe(false);
+  });
+
+  it('should not mistake the value of an option for the subcommand', () => {
+    const npmTest = { program: ['npm'], subcommand: ['test'] };
+    expect(matchesShellCommand('npm --prefix test publish', npmTest)).toBe(
+      false,
+    );
+    expect(matchesShellCommand('npm --prefix=app test', npmTest)).toBe(true);
+    expect(
+      matchesShellCommand('git -C test push', {
+        program: ['git'],
+        subcommand: ['test'],
+      }),
+    ).toBe(false);
+    expect(
+      matchesShellCommand('git --no-pager log', {
+        program: ['git'],
+        subcommand: ['log'],
+      }),
+    ).toBe(false);
+  });
+
+  it('should skip declared options that take a value', () => {
+    const gitPush = {
+      program: ['git'],
+      subcommand: ['push'],
+      valueOptions: ['-C', '-c'],
+    };
+    expect(matchesShellCommand('git -C dir push', gitPush)).toBe(true);
+    expect(matchesShellCommand('git -c x=y -C push status', gitPush)).toBe(
+      false,
+    );
+    expect(matchesShellCommand('git --no-pager push', gitPush)).toBe(false);
+  });
+
+  it('should match any non-flag argument when failing closed', () => {
+    const gitPush = {
+      program: ['git'],
+      subcommand: ['push'],
+      flags: ['--force'],
+      valueOptions: ['-C', '-c'],
+    };
+    for (const command of [
+      'git --no-pager push --force',
+      'git -p push --force',
+    ]) {
+      expect(matchesShellCommand(command, gitPush)).toBe(false);
+      expect(matchesShellCommand(command, gitPush, true)).toBe(true);
+    }
+    expect(
+      matchesShellCommand('git --no-pager log --force', gitPush, true),
+    ).toBe(false);
+
+    const npmPublish = { program: ['npm'], subcommand: ['publish'] };
+    expect(matchesShellCommand('npm --silent publish', npmPublish, true)).toBe(
+      true,
+    );
+    expect(matchesShellCommand('npm -d publish', npmPublish, true)).toBe(true);
+    // A certain subcommand is never second-guessed.
+    expect(matchesShellCommand('npm test publish', npmPublish, true)).toBe(
+      false,
+    );
+  });
+
+  it('should match flags in long, valued and combined short forms', () => {
+    expect(matchesShellCommand('rm -rf build', { flags: ['-r', '-f'] })).toBe(
+      true,
+    );
+    expect(
+      matchesShellCommand('git push --force-with-lease', {
+        flags: ['--force'],
+      }),
+    ).toBe(false);
+    expect(
+      matchesShellCommand('git push --force=true', { flags: ['--force'] }),
+    ).toBe(true);
+  });
+
+  it('should ignore leading environment assignments and quoting', () => {
+    expect(
+      matchesShellCommand('CI=1 "git" commit -m "a message"', {
+        program: ['git'],
+        subcommand: ['commit'],
+      }),
+    ).toBe(true);
+  });
+
+  it('should not match compound commands as a whole', () => {
+    expect(
+      matchesShellCommand('git status && rm -rf /', { program: ['git'] }),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as path from 'node:path';
+import picomatch from 'picomatch';
+import { parse } from 'shell-quote';
+import { splitCommands } from '../utils/shell-utils.js';
+
+/**
+ * Matches a shell command by its structure rather than its text. Every field
+ * that is set must match.
+ */
+export interface ShellCommandMatcher {
+  /** Names of the executable, compared without their directory. */
+  program?: string[];
+  /**
+   * Accepted values of the subcommand, the first argument that is not a flag.
+   * Only options in `--name=value` form or listed in `valueOptions` may come
+   * before it, since the value of any other option could be mistaken for it.
+   * After any other option the subcommand is uncertain; see
+   * {@link matchesShellCommand}.
+   */
+  subcommand?: string[];
+  /** Options that take a value and may come before the subcommand. */
+  valueOptions?: string[];
+  /** Flags that must all be present, e.g. `--force` or `-f`. */
+  flags?: string[];
+}
+
+const ENV_ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/;
+const COMBINED_SHORT_FLAGS = /^-[A-Za-z]{2,}$/;
+
+function isPathArgument(key: string): boolean {
+  return (
+    key.includes('path') ||
+    key.includes('directory') ||
+    key.includes('file') ||
+    key === 'source' ||
+    key === 'destination'
+  );
+}
+
+/**
+ * Collects the values of arguments that hold file paths, using the same
+ * naming conventions as the built-in allowed-path checker.
+ */
+export function collectPathArguments(args: unknown): string[] {
+  if (typeof args !== 'object' || args === null) {
+    return [];
+  }
+  const paths: string[] = [];
+  for (const [key, value] of Object.entries(args)) {
+    if (typeof value === 'string') {
+      if (isPathArgument(key)) {
+        paths.push(value);
+      }
+    } else if (typeof value === 'object') {
+      paths.push(...collectPathArguments(value));
+    }
+  }
+  return paths;
+}
+
+/**
+ * Returns true if an absolute path matches a glob. Relative globs are
+ * matched against the path relative to each workspace directory.
+ */
+export function matchesGlob(
+  absolutePath: string,
+  glob: string,
+  workspaceDirectories: readonly string[],
+): boolean {
+  const options = { dot: true, windows: false };
+  if (path.isAbsolute(glob)) {
+    return picomatch.isMatch(
+      absolutePath.split(path.sep).join('/'),
+      glob.split(path.sep).join('/'),
+      options,
+    );
+  }
+  return workspaceDirectories.some((dir) => {
+    const relative = path.relative(dir, absolutePath);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      return false;
+    }
+    return picomatch.isMatch(
+      relative === '' ? '.' : relative.split(path.sep).join('/'),
+      glob,
+      options,
+    );
+  });
+}
+
+/**
+ * Returns true if the call has at least one file path argument and every one
+ * of them matches one of the globs. Relative paths are resolved against the
+ * first workspace directory, and relative globs are matched against the path
+ * relative to each workspace directory.
+ */
+export function matchesPathGlobs(
+  args: unknown,
+  globs: readonly string[],
+  workspaceDirectories: readonly string[],
+): boolean {
+  const paths = collectPathArguments(args);
+  if (paths.length === 0) {
+    return false;
+  }
+  const baseDir = workspaceDirectories[0] ?? process.cwd();
+  return paths.every((p) => {
+    const absolutePath = path.resolve(baseDir, p);
+    return globs.some((glob) =>
+      matchesGlob(absolutePath, glob, workspaceDirectories),
+    );
+  });
+}
+
+/**
+ * Splits a simple command into its words, dropping leading environment
+ * assignments and everything from the first operator (e.g. a redirection)
+ * on.
+ */
+function tokenize(command: string): string[] {
+  const words: string[] = [];
+  // Keep variable references as written instead of expanding them.
+  for (const entry of parse(command, (name) => `$${name}`)) {
+    if (typeof entry === 'string') {
+      words.push(entry);
+    } else if ('op' in entry && entry.op === 'glob') {
+      words.push(entry.pattern);
+    } else {
+      break;
+    }
+  }
+  while (words.length > 0 && ENV_ASSIGNMENT.test(words[0])) {
+    words.shift();
+  }
+  return words;
+}
+
+/**
+ * Returns the subcommand, skipping the options before it. Returns undefined
+ * if there is none, or null if an option before it may take a value that
+ * could be mistaken for it (e.g. `npm --prefix test publish`).
+ */
+function findSubcommand(
+  args: string[],
+  valueOptions: string[] = [],
+): string | null | undefined {
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('-')) {
+      return arg;
+    }
+    if (valueOptions.includes(arg)) {
+      i++;
+    } else if (!/^--[^=]+=/.test(arg)) {
+      return null;
+    }
+  }
+  return undefined;
+}
+
+function hasFlag(args: string[], flag: string): boolean {
+  return args.some((arg) => {
+    if (arg === flag || arg.startsWith(`${flag}=`)) {
+      return true;
+    }
+    // `-rf` contains both `-r` and `-f`.
+    return (
+      /^-[A-Za-z]$/.test(flag) &&
+      COMBINED_SHORT_FLAGS.test(arg) &&
+      arg.includes(flag[1])
+    );
+  });
+}
+
+/**
+ * Returns true if `command` is a single simple command matching `matcher`.
+ * Compound commands never match as a whole; the policy engine checks each of
+ * their parts separately. Requires the shell parsers to be initialized.
+ *
+ * @param failClosed When the subcommand is uncertain, match if any argument
+ *   that is not a flag is an accepted subcommand instead of not matching.
+ *   Used for rules that restrict commands, so that a flag placed before the
+ *   subcommand (e.g. `git --no-pager push`) cannot get around them.
+ */
+export function matchesShellCommand(
+  command: string,
+  matcher: ShellCommandMatcher,
+  failClosed = false,
+): boolean {
+  if (splitCommands(command).length !== 1) {
+    return false;
+  }
+  const [program, ...args] = tokenize(command);
+  if (!program) {
+    return false;
+  }
+
+  if (
+    matcher.program &&
+    !matcher.program.includes(path.posix.basename(program.replace(/\\/g, '/')))
+  ) {
+    return false;
+  }
+  if (matcher.subcommand) {
+    const subcommand = findSubcommand(args, matcher.valueOptions);
+    let candidates: string[] = [];
+    if (subcommand === null) {
+      candidates = failClosed ? args.filter((arg) => !arg.startsWith('-')) : [];
+    } else if (subcommand !== undefined) {
+      candidates = [subcommand];
+    }
+    if (!candidates.some((arg) => matcher.subcommand!.includes(arg))) {
+      return false;
+    }
+  }
+  if (matcher.flags && !matcher.flags.every((flag) => hasFlag(args, flag))) {
+    return false;
+  }
+  return true;
+}
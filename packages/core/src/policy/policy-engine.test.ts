@@ -348,6 +348,356 @@ describe('PolicyEngine', () => {
     });
   });
 
+  describe('structured matchers', () => {
+    it('should match file path arguments against path globs', async () => {
+      engine = new PolicyEngine({
+        rules: [
+          {
+            toolName: 'write_file',
+            pathGlobs: ['src/**'],
+            decision: PolicyDecision.ALLOW,
+          },
+        ],
+        getWorkspaceDirectories: () => ['/workspace'],
+      });
+
+      expect(
+        (
+          await engine.check(
+            { name: 'write_file', args: { file_path: 'src/a/b.ts' } },
+            undefined,
+          )
+        ).decision,
+      ).toBe(PolicyDecision.ALLOW);
+      expect(
+        (
+          await engine.check(
+            { name: 'write_file', args: { file_path: '/workspace/src/c.ts' } },
+            undefined,
+          )
+        ).decision,
+      ).toBe(PolicyDecision.ALLOW);
+      expect(
+        (
+          await engine.check(
+            { name: 'write_file', args: { file_path: 'README.md' } },
+            undefined,
+          )
+        ).decision,
+      ).toBe(PolicyDecision.ASK_USER);
+      expect(
+        (
+          await engine.check(
+            { name: 'write_file', args: { file_path: '../src/evil.ts' } },
+            undefined,
+          )
+        ).decision,
+      ).toBe(PolicyDecision.ASK_USER);
+    });
+
+    it('should match shell commands by program, subcommand and flags', async () => {
+      engine = new PolicyEngine({
+        rules: [
+          {
+            toolName: 'run_shell_command',
+            commandMatcher: {
+              program: ['git'],
+              subcommand: ['push'],
+              flags: ['--force'],
+            },
+            decision: PolicyDecision.DENY,
+            priority: 2,
+          },
+          {
+            toolName: 'run_shell_command',
+            commandMatcher: { program: ['git'] },
+            decision: PolicyDecision.ALLOW,
+            priority: 1,
+          },
+        ],
+      });
+
+      const check = async (command: string) =>
+        (
+          await engine.check(
+            { name: 'run_shell_command', args: { command } },
+            undefined,
+          )
+        ).decision;
+
+      expect(await check('git push origin main')).toBe(PolicyDecision.ALLOW);
+      expect(await check('git push --force origin main')).toBe(
+        PolicyDecision.DENY,
+      );
+      expect(await check('/usr/bin/git push --force=true')).toBe(
+        PolicyDecision.DENY,
+      );
+      expect(await check('GIT_TRACE=1 git status')).toBe(PolicyDecision.ALLOW);
+      expect(await check('gitk')).toBe(PolicyDecision.ASK_USER);
+      expect(await check('git status && git push --force')).toBe(
+        PolicyDecision.DENY,
+      );
+    });
+
+    it('should not let boolean flags before the subcommand bypass a rule', async () => {
+      engine = new PolicyEngine({
+        rules: [
+          {
+            toolName: 'run_shell_command',
+            commandMatcher: {
+              program: ['git'],
+              subcommand: ['push'],
+              flags: ['--force'],
+              valueOptions: ['-C', '-c'],
+            },
+            decision: PolicyDecision.DENY,
+            priority: 2,
+          },
+          {
+            toolName: 'run_shell_command',
+            commandMatcher: { program: ['npm'], subcommand: ['publish'] },
+            decision: PolicyDecision.ASK_USER,
+            priority: 2,
+          },
+          {
+            toolName: 'run_shell_command',
+            commandMatcher: { program: ['npm'], subcommand: ['test'] },
+            decision: PolicyDecision.ALLOW,
+            priority: 1,
+          },
+          {
+            toolName: 'run_shell_command',
+            commandMatcher: { program: ['git', 'npm'] },
+            decision: PolicyDecision.ALLOW,
+            priority: 0,
+          },
+        ],
+      });
+
+      const check = async (command: string) =>
+        (
+          await engine.check(
+            { name: 'run_shell_command', args: { command } },
+            undefined,
+          )
+        ).decision;
+
+      expect(await check('git --no-pager push --force')).toBe(
+        PolicyDecision.DENY,
+      );
+      expect(await check('git -p push --force')).toBe(PolicyDecision.DENY);
+      expect(await check('git --no-pager log')).toBe(PolicyDecision.ALLOW);
+      expect(await check('npm --silent publish')).toBe(PolicyDecision.ASK_USER);
+      expect(await check('npm -d publish')).toBe(PolicyDecision.ASK_USER);
+    });
+  });
+
+  describe('getRecentDecisions', () => {
+    it('should record each decision with the rule that made it', async () => {
+      const rule = {
+        toolName: 'read_file',
+        decision: PolicyDecision.ALLOW,
+        source: 'Default: read-only.toml',
+      };
+      engine = new PolicyEngine({ rules: [rule] });
+
+      await engine.check({ name: 'read_file' }, undefined);
+      await engine.check({ name: 'write_file' }, undefined);
+
+      const decisions = engine.getRecentDecisions();
+      expect(decisions).toHaveLength(2);
+      expect(decisions[0]).toMatchObject({
+        toolCall: { name: 'read_file' },
+        decision: PolicyDecision.ALLOW,
+        rule,
+      });
+      expect(decisions[1].toolCall.name).toBe('write_file');
+      expect(decisions[1].decision).toBe(PolicyDecision.ASK_USER);
+      expect(decisions[1].rule).toBeUndefined();
+    });
+
+    it('should record only top-level calls and keep the latest ones', async () => {
+      engine = new PolicyEngine({
+        rules: [
+          { toolName: 'run_shell_command', decision: PolicyDecision.ALLOW },
+        ],
+      });
+
+      await engine.check(
+        { name: 'run_shell_command', args: { command: 'ls && pwd' } },
+        undefined,
+      );
+      expect(engine.getRecentDecisions()).toHaveLength(1);
+
+      for (let i = 0; i < 25; i++) {
+        await engine.check({ name: `tool_${i}` }, undefined);
+      }
+      const decisions = engine.getRecentDecisions();
+      expect(decisions).toHaveLength(20);
+      expect(decisions[0].toolCall.name).toBe('tool_5');
+      expect(decisions[19].toolCall.name).toBe('tool_24');
+    });
+  });
+
+  describe('explain', () => {
+    it('should list every matching rule and checker with the winning decision', async () => {
+      const denyRm = {
+        toolName: 'run_shell_command',
+        argsPattern: /"command":"rm/,
+        decision: PolicyDecision.DENY,
+        priority: 3.1,
+      };
+      const allowShell = {
+        toolName: 'run_shell_command',
+        decision: PolicyDecision.ALLOW,
+        priority: 2.1,
+      };
+      const askAll = { decision: PolicyDecision.ASK_USER, priority: 1.01 };
+      const yoloOnly = {
+        decision: PolicyDecision.ALLOW,
+        priority: 1.999,
+        modes: [ApprovalMode.YOLO],
+      };
+      const checker = {
+        toolName: 'run_shell_command',
+        checker: {
+          type: 'in-process' as const,
+          name: InProcessCheckerType.ALLOWED_PATH,
+        },
+      };
+      engine = new PolicyEngine({
+        rules: [askAll, allowShell, denyRm, yoloOnly],
+        checkers: [checker],
+      });
+
+      const explanation = await engine.explain(
+        { name: 'run_shell_command', args: { command: 'rm -rf build' } },
+        undefined,
+      );
+
+      expect(explanation.approvalMode).toBe(ApprovalMode.DEFAULT);
+      expect(explanation.matchingRules).toEqual([denyRm, allowShell, askAll]);
+      expect(explanation.matchingCheckers).toEqual([checker]);
+      expect(explanation.decision).toBe(PolicyDecision.DENY);
+      expect(explanation.rule).toBe(denyRm);
+      expect(engine.getRecentDecisions()).toHaveLength(0);
+    });
+
+    it('should list the hook checkers of the tool hook events', async () => {
+      const hookChecker = (eventName?: string) => ({
+        eventName,
+        checker: {
+          type: 'in-process' as const,
+          name: InProcessCheckerType.SECRETS,
+        },
+      });
+      const allHooks = hookChecker();
+      const beforeTool = hookChecker('BeforeTool');
+      const beforeModel = hookChecker('BeforeModel');
+      engine = new PolicyEngine({
+        hookCheckers: [allHooks, beforeTool, beforeModel],
+      });
+
+      const explanation = await engine.explain(
+        { name: 'write_file', args: {} },
+        undefined,
+      );
+
+      expect(explanation.matchingHookCheckers).toEqual([allHooks, beforeTool]);
+    });
+
+    it('should evaluate in the given approval mode', async () => {
+      const yoloOnly = {
+        decision: PolicyDecision.ALLOW,
+        priority: 1.999,
+        modes: [ApprovalMode.YOLO],
+      };
+      engine = new PolicyEngine({ rules: [yoloOnly] });
+
+      const yolo = await engine.explain(
+        { name: 'write_file', args: {} },
+        undefined,
+        ApprovalMode.YOLO,
+      );
+      expect(yolo.matchingRules).toEqual([yoloOnly]);
+      expect(yolo.decision).toBe(PolicyDecision.ALLOW);
+
+      const normal = await engine.explain(
+        { name: 'write_file', args: {} },
+        undefined,
+      );
+      expect(normal.matchingRules).toEqual([]);
+      expect(normal.decision).toBe(PolicyDecision.ASK_USER);
+      expect(engine.getApprovalMode()).toBe(ApprovalMode.DEFAULT);
+    });
+  });
+
+  describe('getShellExecution', () => {
+    const shellCall = (command: string) => ({
+      name: 'run_shell_command',
+      args: { command },
+    });
+
+    beforeEach(() => {
+      engine = new PolicyEngine({
+        rules: [
+          {
+            toolName: 'run_shell_command',
+            commandMatcher: { program: ['docker'] },
+            decision: PolicyDecision.ASK_USER,
+            priority: 2,
+            shellExecution: 'host',
+          },
+          {
+            toolName: 'run_shell_command',
+            argsPattern: /"command":"curl/,
+            decision: PolicyDecision.ASK_USER,
+            priority: 2,
+            shellExecution: 'sandbox',
+          },
+          {
+            toolName: 'run_shell_command',
+            decision: PolicyDecision.ALLOW,
+            priority: 1,
+          },
+        ],
+      });
+    });
+
+    it('should return the execution of the matching rule', async () => {
+      expect(await engine.getShellExecution(shellCall('docker ps'))).toBe(
+        'host',
+      );
+      expect(
+        await engine.getShellExecution(shellCall('curl example.com')),
+      ).toBe('sandbox');
+      expect(await engine.getShellExecution(shellCall('ls'))).toBeUndefined();
+    });
+
+    it('should run on the host only if every part of the command does', async () => {
+      expect(
+        await engine.getShellExecution(shellCall('docker ps && docker images')),
+      ).toBe('host');
+      expect(
+        await engine.getShellExecution(shellCall('docker ps && ls')),
+      ).toBeUndefined();
+      expect(
+        await engine.getShellExecution(
+          shellCall('docker ps && curl example.com'),
+        ),
+      ).toBe('sandbox');
+    });
+
+    it('should ignore other tools', async () => {
+      expect(
+        await engine.getShellExecution({
+          name: 'read_file',
+          args: { command: 'docker ps' },
+        }),
+      ).toBeUndefined();
+    });
+  });
+
   describe('addRule', () => {
     it('should add a new rule and maintain priority order', () => {
       engine.addRule({
@@ -1702,6 +2052,7 @@ describe('PolicyEngine', () => {
       );
 
       expect(result.decision).toBe(PolicyDecision.DENY);
+      expect(result.reason).toBe('test reason');
       expect(mockCheckerRunner.runChecker).toHaveBeenCalled();
     });
 
@@ -13,7 +13,11 @@ import {
   type HookCheckerRule,
   ApprovalMode,
   type CheckResult,
+  type PolicyDecisionRecord,
+  type PolicyExplanation,
+  type ShellExecution,
 } from './types.js';
+import { matchesPathGlobs, matchesShellCommand } from './matchers.js';
 import { stableStringify } from './stable-stringify.js';
 import { debugLogger } from '../utils/debugLogger.js';
 import type { CheckerRunner } from '../safety/checker-runner.js';
@@ -25,6 +29,13 @@ import {
   hasRedirection,
 } from '../utils/shell-utils.js';
 import { getToolAliases } from '../tools/tool-names.js';
+import { HookEventName } from '../hooks/types.js';
+
+/** The hook events fired around every tool call. */
+const TOOL_HOOK_EVENTS: readonly string[] = [
+  HookEventName.BeforeTool,
+  HookEventName.AfterTool,
+];
 
 function ruleMatches(
   rule: PolicyRule | SafetyCheckerRule,
@@ -79,6 +90,39 @@ function ruleMatches(
   return true;
 }
 
+/**
+ * Checks the structured matchers of a rule whose tool name and args pattern
+ * already matched. Shell parsers must be initialized for command matchers.
+ */
+function structuredMatchersMatch(
+  rule: PolicyRule,
+  toolCall: FunctionCall,
+  command: string | undefined,
+  workspaceDirectories: readonly string[],
+): boolean {
+  if (
+    rule.pathGlobs &&
+    !matchesPathGlobs(toolCall.args, rule.pathGlobs, workspaceDirectories)
+  ) {
+    return false;
+  }
+  if (
+    rule.commandMatcher &&
+    (command === undefined ||
+      !matchesShellCommand(
+        command,
+        rule.commandMatcher,
+        rule.decision !== PolicyDecision.ALLOW,
+      ))
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/** Number of decisions kept for {@link PolicyEngine.getRecentDecisions}. */
+const MAX_RECENT_DECISIONS = 20;
+
 export class PolicyEngine {
   private rules: PolicyRule[];
   private checkers: SafetyCheckerRule[];
@@ -87,6 +131,8 @@ export class PolicyEngine {
   private readonly nonInteractive: boolean;
   private readonly checkerRunner?: CheckerRunner;
   private approvalMode: ApprovalMode;
+  private readonly getWorkspaceDirectories: () => readonly string[];
+  private recentDecisions: PolicyDecisionRecord[] = [];
 
   constructor(config: PolicyEngineConfig = {}, checkerRunner?: CheckerRunner) {
     this.rules = (config.rules ?? []).sort(
@@ -102,6 +148,8 @@ export class PolicyEngine {
     this.nonInteractive = config.nonInteractive ?? false;
     this.checkerRunner = checkerRunner;
     this.approvalMode = config.approvalMode ?? ApprovalMode.DEFAULT;
+    this.getWorkspaceDirectories =
+      config.getWorkspaceDirectories ?? (() => [process.cwd()]);
   }
 
   /**
@@ -120,13 +168,14 @@ export class PolicyEngine {
 
   private shouldDowngradeForRedirection(
     command: string,
+    approvalMode: ApprovalMode,
     allowRedirection?: boolean,
   ): boolean {
     return (
       !allowRedirection &&
       hasRedirection(command) &&
-      this.approvalMode !== ApprovalMode.AUTO_EDIT &&
-      this.approvalMode !== ApprovalMode.YOLO
+      approvalMode !== ApprovalMode.AUTO_EDIT &&
+      approvalMode !== ApprovalMode.YOLO
     );
   }
 
@@ -139,6 +188,7 @@ export class PolicyEngine {
     ruleDecision: PolicyDecision,
     serverName: string | undefined,
     dir_path: string | undefined,
+    approvalMode: ApprovalMode,
     allowRedirection?: boolean,
     rule?: PolicyRule,
   ): Promise<CheckResult> {
@@ -159,7 +209,7 @@ export class PolicyEngine {
       }
 
       // In YOLO mode, we should proceed anyway even if we can't parse the command.
-      if (this.approvalMode === ApprovalMode.YOLO) {
+      if (approvalMode === ApprovalMode.YOLO) {
         return {
           decision: PolicyDecision.ALLOW,
           rule,
@@ -194,7 +244,13 @@ export class PolicyEngine {
       let responsibleRule: PolicyRule | undefined;
 
       // Check for redirection on the full command string
-      if (this.shouldDowngradeForRedirection(command, allowRedirection)) {
+      if (
+        this.shouldDowngradeForRedirection(
+          command,
+          approvalMode,
+          allowRedirection,
+        )
+      ) {
         debugLogger.debug(
           `[PolicyEngine.check] Downgrading ALLOW to ASK_USER for redirected command: ${command}`,
         );
@@ -206,7 +262,13 @@ export class PolicyEngine {
         const subCmd = rawSubCmd.trim();
         // Prevent infinite recursion for the root command
         if (subCmd === command) {
-          if (this.shouldDowngradeForRedirection(subCmd, allowRedirection)) {
+          if (
+            this.shouldDowngradeForRedirection(
+              subCmd,
+              approvalMode,
+              allowRedirection,
+            )
+          ) {
             debugLogger.debug(
               `[PolicyEngine.check] Downgrading ALLOW to ASK_USER for redirected command: ${subCmd}`,
             );
@@ -228,12 +290,13 @@ export class PolicyEngine {
           continue;
         }
 
-        const subResult = await this.check(
+        const subResult = await this.evaluate(
           { name: toolName, args: { command: subCmd, dir_path } },
           serverName,
+          approvalMode,
         );
 
-        // subResult.decision is already filtered through applyNonInteractiveMode by this.check()
+        // subResult.decision is already filtered through applyNonInteractiveMode by this.evaluate()
         const subDecision = subResult.decision;
 
         // If any part is DENIED, the whole command is DENY
@@ -241,6 +304,7 @@ export class PolicyEngine {
           return {
             decision: PolicyDecision.DENY,
             rule: subResult.rule,
+            reason: subResult.reason,
           };
         }
 
@@ -255,7 +319,11 @@ export class PolicyEngine {
         // Check for redirection in allowed sub-commands
         if (
           subDecision === PolicyDecision.ALLOW &&
-          this.shouldDowngradeForRedirection(subCmd, allowRedirection)
+          this.shouldDowngradeForRedirection(
+            subCmd,
+            approvalMode,
+            allowRedirection,
+          )
         ) {
           debugLogger.debug(
             `[PolicyEngine.check] Downgrading ALLOW to ASK_USER for redirected command: ${subCmd}`,
@@ -288,6 +356,179 @@ export class PolicyEngine {
   async check(
     toolCall: FunctionCall,
     serverName: string | undefined,
+  ): Promise<CheckResult> {
+    const result = await this.evaluate(toolCall, serverName, this.approvalMode);
+    this.recentDecisions.push({
+      toolCall,
+      decision: result.decision,
+      rule: result.rule,
+      timestamp: new Date(),
+    });
+    if (this.recentDecisions.length > MAX_RECENT_DECISIONS) {
+      this.recentDecisions.shift();
+    }
+    return result;
+  }
+
+  /**
+   * Get the most recent decisions, oldest first, with the rule that made
+   * each of them.
+   */
+  getRecentDecisions(): readonly PolicyDecisionRecord[] {
+    return this.recentDecisions;
+  }
+
+  /**
+   * Explains how a tool call would be decided, listing every matching rule
+   * and safety checker. The call is not recorded as a recent decision.
+   * Evaluates in the current approval mode unless another one is given.
+   */
+  async explain(
+    toolCall: FunctionCall,
+    serverName: string | undefined,
+    approvalMode: ApprovalMode = this.approvalMode,
+  ): Promise<PolicyExplanation> {
+    const stringifiedArgs = toolCall.args
+      ? stableStringify(toolCall.args)
+      : undefined;
+    const command =
+      toolCall.name && SHELL_TOOL_NAMES.includes(toolCall.name)
+        ? (toolCall.args as { command?: string } | undefined)?.command
+        : undefined;
+    const matches = await this.createRuleMatcher(
+      toolCall,
+      serverName,
+      approvalMode,
+      stringifiedArgs,
+      command,
+    );
+    const result = await this.evaluate(toolCall, serverName, approvalMode);
+
+    return {
+      approvalMode,
+      matchingRules: this.rules.filter(matches),
+      matchingCheckers: this.checkers.filter((checker) =>
+        ruleMatches(
+          checker,
+          toolCall,
+          stringifiedArgs,
+          serverName,
+          approvalMode,
+        ),
+      ),
+      matchingHookCheckers: this.hookCheckers.filter(
+        (checker) =>
+          !checker.eventName || TOOL_HOOK_EVENTS.includes(checker.eventName),
+      ),
+      decision: result.decision,
+      rule: result.rule,
+      reason: result.reason,
+    };
+  }
+
+  /**
+   * Resolves where a shell command runs when shell-only sandboxing is
+   * enabled. Each part of a compound command takes the `shellExecution` of
+   * the highest priority matching rule that sets one. The command runs in the
+   * sandbox if any part asks for it and on the host only if every part does.
+   * Returns undefined when no rule decides.
+   */
+  async getShellExecution(
+    toolCall: FunctionCall,
+    serverName?: string,
+  ): Promise<ShellExecution | undefined> {
+    const command = (toolCall.args as { command?: string } | undefined)
+      ?.command;
+    if (
+      !command ||
+      !this.rules.some((rule) => rule.shellExecution) ||
+      !toolCall.name ||
+      !SHELL_TOOL_NAMES.includes(toolCall.name)
+    ) {
+      return undefined;
+    }
+
+    await initializeShellParsers();
+    const subCommands = splitCommands(command);
+    if (subCommands.length === 0) {
+      // A command that cannot be parsed never runs on the host by policy.
+      return undefined;
+    }
+    const executions: Array<ShellExecution | undefined> = [];
+    for (const subCommand of subCommands) {
+      const subCall = {
+        ...toolCall,
+        args: { ...toolCall.args, command: subCommand },
+      };
+      const matches = await this.createRuleMatcher(
+        subCall,
+        serverName,
+        this.approvalMode,
+        stableStringify(subCall.args),
+        subCommand,
+      );
+      executions.push(
+        this.rules.find((rule) => rule.shellExecution && matches(rule))
+          ?.shellExecution,
+      );
+    }
+
+    if (executions.includes('sandbox')) {
+      return 'sandbox';
+    }
+    return executions.every((execution) => execution === 'host')
+      ? 'host'
+      : undefined;
+  }
+
+  /**
+   * Creates a predicate that tells whether a rule applies to the tool call,
+   * trying the tool's aliases and its fully qualified MCP name.
+   */
+  private async createRuleMatcher(
+    toolCall: FunctionCall,
+    serverName: string | undefined,
+    approvalMode: ApprovalMode,
+    stringifiedArgs: string | undefined,
+    command: string | undefined,
+  ): Promise<(rule: PolicyRule) => boolean> {
+    // For tools with a server name, we want to try matching both the
+    // original name and the fully qualified name (server__tool).
+    // We also want to check legacy aliases for the tool name.
+    const toolNamesToTry = toolCall.name ? getToolAliases(toolCall.name) : [];
+
+    const toolCallsToTry: FunctionCall[] = [];
+    for (const name of toolNamesToTry) {
+      toolCallsToTry.push({ ...toolCall, name });
+      if (serverName && !name.includes('__')) {
+        toolCallsToTry.push({
+          ...toolCall,
+          name: `${serverName}__${name}`,
+        });
+      }
+    }
+
+    if (
+      command !== undefined &&
+      this.rules.some((rule) => rule.commandMatcher)
+    ) {
+      await initializeShellParsers();
+    }
+    const workspaceDirectories = this.rules.some((rule) => rule.pathGlobs)
+      ? this.getWorkspaceDirectories()
+      : [];
+
+    return (rule) =>
+      toolCallsToTry.some((tc) =>
+        ruleMatches(rule, tc, stringifiedArgs, serverName, approvalMode),
+      ) &&
+      structuredMatchersMatch(rule, toolCall, command, workspaceDirectories);
+  }
+
+  private async evaluate(
+    toolCall: FunctionCall,
+    serverName: string | undefined,
+    approvalMode: ApprovalMode,
   ): Promise<CheckResult> {
     let stringifiedArgs: string | undefined;
     // Compute stringified args once before the loop
@@ -321,29 +562,18 @@ export class PolicyEngine {
     // Find the first matching rule (already sorted by priority)
     let matchedRule: PolicyRule | undefined;
     let decision: PolicyDecision | undefined;
-
-    // For tools with a server name, we want to try matching both the
-    // original name and the fully qualified name (server__tool).
-    // We also want to check legacy aliases for the tool name.
-    const toolNamesToTry = toolCall.name ? getToolAliases(toolCall.name) : [];
-
-    const toolCallsToTry: FunctionCall[] = [];
-    for (const name of toolNamesToTry) {
-      toolCallsToTry.push({ ...toolCall, name });
-      if (serverName && !name.includes('__')) {
-        toolCallsToTry.push({
-          ...toolCall,
-          name: `${serverName}__${name}`,
-        });
-      }
-    }
+    let reason: string | undefined;
+
+    const matches = await this.createRuleMatcher(
+      toolCall,
+      serverName,
+      approvalMode,
+      stringifiedArgs,
+      command,
+    );
 
     for (const rule of this.rules) {
-      const match = toolCallsToTry.some((tc) =>
-        ruleMatches(rule, tc, stringifiedArgs, serverName, this.approvalMode),
-      );
-
-      if (match) {
+      if (matches(rule)) {
         debugLogger.debug(
           `[PolicyEngine.check] MATCHED rule: toolName=${rule.toolName}, decision=${rule.decision}, priority=${rule.priority}, argsPattern=${rule.argsPattern?.source || 'none'}`,
         );
@@ -355,10 +585,12 @@ export class PolicyEngine {
             rule.decision,
             serverName,
             shellDirPath,
+            approvalMode,
             rule.allowRedirection,
             rule,
           );
           decision = shellResult.decision;
+          reason = shellResult.reason;
           if (shellResult.rule) {
             matchedRule = shellResult.rule;
             break;
@@ -383,9 +615,11 @@ export class PolicyEngine {
           this.defaultDecision,
           serverName,
           shellDirPath,
+          approvalMode,
         );
         decision = shellResult.decision;
         matchedRule = shellResult.rule;
+        reason = shellResult.reason;
       } else {
         decision = this.applyNonInteractiveMode(this.defaultDecision);
       }
@@ -400,7 +634,7 @@ export class PolicyEngine {
             toolCall,
             stringifiedArgs,
             serverName,
-            this.approvalMode,
+            approvalMode,
           )
         ) {
           debugLogger.debug(
@@ -418,12 +652,14 @@ export class PolicyEngine {
               return {
                 decision: PolicyDecision.DENY,
                 rule: matchedRule,
+                reason: result.reason,
               };
             } else if (result.decision === SafetyCheckDecision.ASK_USER) {
               debugLogger.debug(
                 `[PolicyEngine.check] Safety checker requested ASK_USER: ${result.reason}`,
               );
               decision = PolicyDecision.ASK_USER;
+              reason ??= result.reason;
             }
           } catch (error) {
             debugLogger.debug(
@@ -442,6 +678,7 @@ export class PolicyEngine {
     return {
       decision: this.applyNonInteractiveMode(decision),
       rule: matchedRule,
+      reason,
     };
   }
 
@@ -8,6 +8,7 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import {
   PolicyDecision,
   ApprovalMode,
+  InProcessCheckerType,
   PRIORITY_SUBAGENT_TOOL,
 } from './types.js';
 import * as fs from 'node:fs/promises';
@@ -341,9 +342,123 @@ priority = -1
       expect(result.errors[0].fileName).toBe('invalid.toml');
       expect(result.errors[0].errorType).toBe('schema_validation');
     });
+
+    it('should transform paths and command into structured matchers', async () => {
+      const result = await runLoadPoliciesFromToml(`
+[[rule]]
+toolName = "write_file"
+paths = ["src/**", "docs/*.md"]
+decision = "allow"
+priority = 100
+
+[[rule]]
+toolName = "run_shell_command"
+command = { program = "git", subcommand = ["push"], flags = ["--force"], valueOptions = ["-C"] }
+decision = "deny"
+priority = 200
+`);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.rules).toHaveLength(2);
+      expect(result.rules[0]).toEqual({
+        toolName: 'write_file',
+        pathGlobs: ['src/**', 'docs/*.md'],
+        decision: PolicyDecision.ALLOW,
+        priority: 1.1,
+        source: 'Default: test.toml',
+      });
+      expect(result.rules[1].commandMatcher).toEqual({
+        program: ['git'],
+        subcommand: ['push'],
+        flags: ['--force'],
+        valueOptions: ['-C'],
+      });
+    });
+
+    it('should transform shell_execution into shellExecution', async () => {
+      const result = await runLoadPoliciesFromToml(`
+[[rule]]
+toolName = "run_shell_command"
+commandPrefix = "docker"
+decision = "ask_user"
+priority = 100
+shell_execution = "host"
+`);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.rules).toHaveLength(1);
+      expect(result.rules[0].shellExecution).toBe('host');
+    });
+
+    it('should parse built-in safety checkers with their config', async () => {
+      const result = await runLoadPoliciesFromToml(`
+[[safety_checker]]
+toolName = ["web_fetch", "run_shell_command"]
+priority = 100
+[safety_checker.checker]
+type = "in-process"
+name = "network-egress"
+config = { allowed_domains = ["github.com"], decision = "ask_user" }
+`);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.checkers).toHaveLength(2);
+      expect(result.checkers[1]).toEqual({
+        toolName: 'run_shell_command',
+        priority: 100,
+        checker: {
+          type: 'in-process',
+          name: InProcessCheckerType.NETWORK_EGRESS,
+          config: { allowed_domains: ['github.com'], decision: 'ask_user' },
+        },
+      });
+    });
   });
 
   describe('Negative Tests', () => {
+    it('should return a rule_validation error if command is used with another tool', async () => {
+      const result = await runLoadPoliciesFromToml(`
+[[rule]]
+toolName = "write_file"
+command = { program = "git" }
+decision = "allow"
+priority = 100
+`);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].errorType).toBe('rule_validation');
+      expect(result.errors[0].details).toContain(
+        'command can only be used with toolName = "run_shell_command"',
+      );
+    });
+
+    it('should return a rule_validation error if shell_execution is used with another tool', async () => {
+      const result = await runLoadPoliciesFromToml(`
+[[rule]]
+toolName = "write_file"
+decision = "allow"
+priority = 100
+shell_execution = "sandbox"
+`);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].errorType).toBe('rule_validation');
+      expect(result.errors[0].details).toContain(
+        'shell_execution can only be used with toolName = "run_shell_command"',
+      );
+    });
+
+    it('should return a schema_validation error for an empty or unknown command matcher', async () => {
+      const result = await runLoadPoliciesFromToml(`
+[[rule]]
+toolName = "run_shell_command"
+command = { args = ["x"] }
+decision = "allow"
+priority = 100
+`);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].errorType).toBe('schema_validation');
+      expect(result.errors[0].details).toContain('command');
+    });
+
     it('should return a schema_validation error if priority is missing', async () => {
       const result = await runLoadPoliciesFromToml(`
 [[rule]]
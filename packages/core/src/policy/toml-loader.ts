@@ -13,11 +13,33 @@ import {
   InProcessCheckerType,
 } from './types.js';
 import { buildArgsPatterns } from './utils.js';
+import type { ShellCommandMatcher } from './matchers.js';
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import toml from '@iarna/toml';
 import { z, type ZodError } from 'zod';
 
+/**
+ * Schema for the structured shell command matcher of a policy rule.
+ */
+const CommandMatcherSchema = z
+  .object({
+    program: z.union([z.string(), z.array(z.string())]).optional(),
+    subcommand: z.union([z.string(), z.array(z.string())]).optional(),
+    flags: z.array(z.string()).optional(),
+    valueOptions: z.array(z.string()).optional(),
+  })
+  .strict()
+  .refine(
+    (command) =>
+      command.program !== undefined ||
+      command.subcommand !== undefined ||
+      command.flags !== undefined,
+    {
+      message: 'command must set at least one of program, subcommand or flags',
+    },
+  );
+
 /**
  * Schema for a single policy rule in the TOML file (before transformation).
  */
@@ -27,6 +49,8 @@ const PolicyRuleSchema = z.object({
   argsPattern: z.string().optional(),
   commandPrefix: z.union([z.string(), z.array(z.string())]).optional(),
   commandRegex: z.string().optional(),
+  paths: z.array(z.string()).optional(),
+  command: CommandMatcherSchema.optional(),
   decision: z.nativeEnum(PolicyDecision),
   // Priority must be in range [0, 999] to prevent tier overflow.
   // With tier transformation (tier + priority/1000), this ensures:
@@ -47,6 +71,7 @@ const PolicyRuleSchema = z.object({
   modes: z.array(z.nativeEnum(ApprovalMode)).optional(),
   allow_redirection: z.boolean().optional(),
   deny_message: z.string().optional(),
+  shell_execution: z.enum(['sandbox', 'host']).optional(),
 });
 
 /**
@@ -157,6 +182,28 @@ function validateShellCommandSyntax(
   const hasCommandRegex = rule.commandRegex !== undefined;
   const hasArgsPattern = rule.argsPattern !== undefined;
 
+  if (
+    rule.command !== undefined &&
+    (rule.toolName !== 'run_shell_command' || Array.isArray(rule.toolName))
+  ) {
+    return (
+      `Rule #${ruleIndex + 1}: command can only be used with toolName = "run_shell_command"\n` +
+      `  Found: toolName = ${JSON.stringify(rule.toolName)}\n` +
+      `  Fix: Set toolName = "run_shell_command" (not an array)`
+    );
+  }
+
+  if (
+    rule.shell_execution !== undefined &&
+    (rule.toolName !== 'run_shell_command' || Array.isArray(rule.toolName))
+  ) {
+    return (
+      `Rule #${ruleIndex + 1}: shell_execution can only be used with toolName = "run_shell_command"\n` +
+      `  Found: toolName = ${JSON.stringify(rule.toolName)}\n` +
+      `  Fix: Set toolName = "run_shell_command" (not an array)`
+    );
+  }
+
   if (hasCommandPrefix || hasCommandRegex) {
     // Must have exactly toolName = "run_shell_command"
     if (rule.toolName !== 'run_shell_command' || Array.isArray(rule.toolName)) {
@@ -189,6 +236,22 @@ function validateShellCommandSyntax(
   return null;
 }
 
+/**
+ * Normalizes a TOML command matcher so that every field is a list.
+ */
+function toCommandMatcher(
+  command: z.infer<typeof CommandMatcherSchema>,
+): ShellCommandMatcher {
+  const toList = (value: string | string[] | undefined) =>
+    value === undefined ? undefined : Array.isArray(value) ? value : [value];
+  return {
+    program: toList(command.program),
+    subcommand: toList(command.subcommand),
+    flags: command.flags,
+    valueOptions: command.valueOptions,
+  };
+}
+
 /**
  * Transforms a priority number based on the policy tier.
  * Formula: tier + priority/1000
@@ -207,7 +270,7 @@ function transformPriority(priority: number, tier: number): number {
  * This function:
  * 1. Scans directories for .toml files
  * 2. Parses and validates each file
- * 3. Transforms rules (commandPrefix, arrays, mcpName, priorities)
+ * 3. Transforms rules (commandPrefix, command, arrays, mcpName, priorities)
  * 4. Collects detailed error information for any failures
  *
  * @param policyDirs Array of directory paths to scan for policy files
@@ -353,6 +416,16 @@ export async function loadPoliciesFromToml(
                   denyMessage: rule.deny_message,
                 };
 
+                if (rule.paths) {
+                  policyRule.pathGlobs = rule.paths;
+                }
+                if (rule.command) {
+                  policyRule.commandMatcher = toCommandMatcher(rule.command);
+                }
+                if (rule.shell_execution) {
+                  policyRule.shellExecution = rule.shell_execution;
+                }
+
                 // Compile regex pattern
                 if (argsPattern) {
                   try {
@@ -4,7 +4,9 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import type { FunctionCall } from '@google/genai';
 import type { SafetyCheckInput } from '../safety/protocol.js';
+import type { ShellCommandMatcher } from './matchers.js';
 
 export enum PolicyDecision {
   ALLOW = 'allow',
@@ -44,6 +46,11 @@ export function getHookSource(input: Record<string, unknown>): HookSource {
   return 'project';
 }
 
+/**
+ * Where a shell command runs when shell-only sandboxing is enabled.
+ */
+export type ShellExecution = 'sandbox' | 'host';
+
 export enum ApprovalMode {
   DEFAULT = 'default',
   AUTO_EDIT = 'autoEdit',
@@ -66,6 +73,91 @@ export interface AllowedPathConfig {
   excluded_args?: string[];
 }
 
+/**
+ * Configuration for the built-in secrets checker.
+ */
+export interface SecretsConfig {
+  /**
+   * Argument keys to scan in addition to `content`, `new_string` and
+   * `command`.
+   */
+  included_args?: string[];
+
+  /**
+   * Argument keys that are never scanned.
+   */
+  excluded_args?: string[];
+
+  /**
+   * Additional regular expressions that detect secrets.
+   */
+  additional_patterns?: string[];
+
+  /**
+   * Regular expressions for values that look like secrets but are allowed,
+   * such as documented example keys.
+   */
+  allowed_patterns?: string[];
+
+  /**
+   * The decision when a secret is found. Defaults to "deny".
+   */
+  decision?: 'deny' | 'ask_user';
+}
+
+/**
+ * Configuration for the built-in network-egress checker.
+ */
+export interface NetworkEgressConfig {
+  /**
+   * Domains that may be accessed, including their subdomains.
+   */
+  allowed_domains?: string[];
+
+  /**
+   * Whether localhost and loopback addresses may be accessed. Defaults to
+   * true.
+   */
+  allow_localhost?: boolean;
+
+  /**
+   * The decision when a destination is not allowed. Defaults to "deny".
+   */
+  decision?: 'deny' | 'ask_user';
+}
+
+/**
+ * Configuration for the built-in protected-files checker.
+ */
+export interface ProtectedFilesConfig {
+  /**
+   * Globs of protected files. Relative globs are matched against the
+   * workspace directories. Replaces the default lockfile, CI config and
+   * `.env` globs.
+   */
+  patterns?: string[];
+
+  /**
+   * Globs protected in addition to the default or configured patterns.
+   */
+  additional_patterns?: string[];
+
+  /**
+   * Explicitly include argument keys to be checked as paths.
+   */
+  included_args?: string[];
+
+  /**
+   * Explicitly exclude argument keys from being checked as paths.
+   */
+  excluded_args?: string[];
+
+  /**
+   * The decision when a protected file is accessed. Defaults to "deny".
+   */
+  decision?: 'deny' | 'ask_user';
+}
+
 /**
  * Base interface for external checkers.
  */
@@ -78,6 +170,9 @@ export interface ExternalCheckerConfig {
 
 export enum InProcessCheckerType {
   ALLOWED_PATH = 'allowed-path',
+  SECRETS = 'secrets',
+  NETWORK_EGRESS = 'network-egress',
+  PROTECTED_FILES = 'protected-files',
 }
 
 /**
@@ -86,7 +181,11 @@ export enum InProcessCheckerType {
 export interface InProcessCheckerConfig {
   type: 'in-process';
   name: InProcessCheckerType;
-  config?: AllowedPathConfig;
+  config?:
+    | AllowedPathConfig
+    | SecretsConfig
+    | NetworkEgressConfig
+    | ProtectedFilesConfig;
   required_context?: Array<keyof SafetyCheckInput['context']>;
 }
 
@@ -115,6 +214,19 @@ export interface PolicyRule {
    */
   argsPattern?: RegExp;
 
+  /**
+   * Globs that every file path argument of the call must match. Relative
+   * globs are matched against paths relative to the workspace directories.
+   * Calls without file path arguments never match.
+   */
+  pathGlobs?: string[];
+
+  /**
+   * Structured matcher for shell commands, matched against the parsed
+   * command instead of its text.
+   */
+  commandMatcher?: ShellCommandMatcher;
+
   /**
    * The decision to make when this rule matches.
    */
@@ -150,6 +262,12 @@ export interface PolicyRule {
    * This message will be returned to the model/user.
    */
   denyMessage?: string;
+
+  /**
+   * Where matching shell commands run when shell-only sandboxing is enabled.
+   * Only applies to shell tools.
+   */
+  shellExecution?: ShellExecution;
 }
 
 export interface SafetyCheckerRule {
@@ -260,6 +378,12 @@ export interface PolicyEngineConfig {
    * Used to filter rules that have specific 'modes' defined.
    */
   approvalMode?: ApprovalMode;
+
+  /**
+   * Returns the workspace directories that relative path globs are matched
+   * against. Defaults to the current working directory.
+   */
+  getWorkspaceDirectories?: () => readonly string[];
 }
 
 export interface PolicySettings {
@@ -277,6 +401,42 @@ export interface PolicySettings {
 export interface CheckResult {
   decision: PolicyDecision;
   rule?: PolicyRule;
+  /**
+   * Why a safety checker denied the call or asked the user to confirm it.
+   */
+  reason?: string;
+}
+
+/**
+ * A decision the policy engine made for a tool call, and the rule that made
+ * it. Without a rule, the default decision applied.
+ */
+export interface PolicyDecisionRecord {
+  toolCall: FunctionCall;
+  decision: PolicyDecision;
+  rule?: PolicyRule;
+  timestamp: Date;
+}
+
+/**
+ * Explanation of how the policy engine decides a tool call, without
+ * executing or recording it.
+ */
+export interface PolicyExplanation {
+  /** The approval mode the call was evaluated in. */
+  approvalMode: ApprovalMode;
+  /** Every rule that matches the call, highest priority first. */
+  matchingRules: PolicyRule[];
+  /** The safety checkers that apply to the call, in the order they run. */
+  matchingCheckers: SafetyCheckerRule[];
+  /** The hook checkers that apply to the hooks the call fires. */
+  matchingHookCheckers: HookCheckerRule[];
+  /** The final decision, after shell command splitting and safety checks. */
+  decision: PolicyDecision;
+  /** The rule that made the final decision. Without one, the default applied. */
+  rule?: PolicyRule;
+  /** Why a safety checker denied the call or asked the user to confirm it. */
+  reason?: string;
 }
 
 /**
@@ -73,4 +73,19 @@ describe('ResourceRegistry', () => {
       registry.getAllResources().filter((res) => res.serverName === 'a'),
     ).toHaveLength(0);
   });
+
+  it('caches contents pushed for a registered resource', () => {
+    registry.setResourcesForServer('a', [createResource()]);
+    const contents = {
+      contents: [{ uri: 'file:///tmp/foo.txt', text: 'fresh' }],
+    };
+
+    registry.setResourceContents('a', 'file:///tmp/foo.txt', contents);
+    registry.setResourceContents('a', 'file:///tmp/missing.txt', contents);
+
+    const resource = registry.findResourceByUri('a:file:///tmp/foo.txt');
+    expect(resource?.contents).toEqual(contents);
+    expect(resource?.updatedAt).toBeTypeOf('number');
+    expect(registry.getAllResources()).toHaveLength(1);
+  });
 });
@@ -4,7 +4,10 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import type { Resource } from '@modelcontextprotocol/sdk/types.js';
+import type {
+  ReadResourceResult,
+  Resource,
+} from '@modelcontextprotocol/sdk/types.js';
 
 const resourceKey = (serverName: string, uri: string): string =>
   `${serverName}::${uri}`;
@@ -12,6 +15,12 @@ const resourceKey = (serverName: string, uri: string): string =>
 export interface MCPResource extends Resource {
   serverName: string;
   discoveredAt: number;
+  /**
+   * Latest contents pushed for a subscribed resource. Only set once the
+   * server has reported an update via `notifications/resources/updated`.
+   */
+  contents?: ReadResourceResult;
+  updatedAt?: number;
 }
 export type DiscoveredMCPResource = MCPResource;
 
@@ -40,6 +49,23 @@ export class ResourceRegistry {
     }
   }
 
+  /**
+   * Cache fresh contents for a resource after the server reported an update.
+   * Ignored if the resource is no longer registered.
+   */
+  setResourceContents(
+    serverName: string,
+    uri: string,
+    contents: ReadResourceResult,
+  ): void {
+    const resource = this.resources.get(resourceKey(serverName, uri));
+    if (!resource) {
+      return;
+    }
+    resource.contents = contents;
+    resource.updatedAt = Date.now();
+  }
+
   getAllResources(): MCPResource[] {
     return Array.from(this.resources.values());
   }
@@ -8,7 +8,19 @@ import * as path from 'node:path';
 import * as fs from 'node:fs';
 import type { SafetyCheckInput, SafetyCheckResult } from './protocol.js';
 import { SafetyCheckDecision } from './protocol.js';
-import type { AllowedPathConfig } from '../policy/types.js';
+import { parse } from 'shell-quote';
+import type {
+  AllowedPathConfig,
+  NetworkEgressConfig,
+  ProtectedFilesConfig,
+  SecretsConfig,
+} from '../policy/types.js';
+import { matchesGlob } from '../policy/matchers.js';
+import {
+  SHELL_TOOL_NAMES,
+  initializeShellParsers,
+  splitCommands,
+} from '../utils/shell-utils.js';
 
 /**
  * Interface for all in-process safety checkers.
@@ -153,3 +165,333 @@ export class AllowedPathChecker implements InProcessChecker {
     return paths;
   }
 }
+
+type CheckerDecision = 'deny' | 'ask_user';
+
+function blocked(
+  decision: CheckerDecision | undefined,
+  reason: string,
+): SafetyCheckResult {
+  return decision === 'ask_user'
+    ? { decision: SafetyCheckDecision.ASK_USER, reason }
+    : { decision: SafetyCheckDecision.DENY, reason };
+}
+
+/**
+ * Collects the string arguments of a call with their dotted argument names.
+ */
+function collectStringArgs(
+  args: unknown,
+  prefix = '',
+): Array<{ value: string; argName: string }> {
+  if (typeof args !== 'object' || args === null) {
+    return [];
+  }
+  const values: Array<{ value: string; argName: string }> = [];
+  for (const [key, value] of Object.entries(args)) {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    if (typeof value === 'string') {
+      values.push({ value, argName: fullKey });
+    } else if (typeof value === 'object') {
+      values.push(...collectStringArgs(value, fullKey));
+    }
+  }
+  return values;
+}
+
+const SECRET_PATTERNS: Array<{ name: string; pattern: RegExp }> = [
+  {
+    name: 'private key',
+    pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/,
+  },
+  { name: 'AWS access key ID', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { name: 'GitHub token', pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/ },
+  {
+    name: 'GitHub fine-grained token',
+    pattern: /\bgithub_pat_[A-Za-z0-9_]{40,}\b/,
+  },
+  { name: 'GitLab token', pattern: /\bglpat-[A-Za-z0-9_-]{20,}\b/ },
+  { name: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/ },
+  { name: 'Slack token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/ },
+  {
+    name: 'Stripe secret key',
+    pattern: /\b[rs]k_live_[0-9a-zA-Z]{24,}\b/,
+  },
+  {
+    name: 'OpenAI or Anthropic API key',
+    pattern: /\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{32,}/,
+  },
+  {
+    name: 'JSON Web Token',
+    pattern:
+      /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/,
+  },
+  {
+    name: 'hard-coded credential',
+    pattern:
+      /\b(?:api[_-]?key|secret|token|passw(?:or)?d)\b["']?\s*[:=]\s*["'][^"'\s$]{16,}["']/i,
+  },
+];
+
+const DEFAULT_SECRET_ARGS = ['content', 'new_string', 'command'];
+
+function maskSecret(secret: string): string {
+  return secret.length <= 8
+    ? '*'.repeat(secret.length)
+    : `${secret.slice(0, 4)}...${secret.slice(-4)}`;
+}
+
+/**
+ * An in-process checker that detects secrets, such as API keys, tokens and
+ * private keys, in file content and shell commands.
+ */
+export class SecretsChecker implements InProcessChecker {
+  async check(input: SafetyCheckInput): Promise<SafetyCheckResult> {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+    const config = input.config as SecretsConfig | undefined;
+    const scannedArgs = [
+      ...DEFAULT_SECRET_ARGS,
+      ...(config?.included_args ?? []),
+    ];
+    const excludedArgs = config?.excluded_args ?? [];
+    const patterns = [
+      ...SECRET_PATTERNS,
+      ...(config?.additional_patterns ?? []).map((pattern) => ({
+        name: 'secret',
+        pattern: new RegExp(pattern),
+      })),
+    ];
+    const allowedPatterns = (config?.allowed_patterns ?? []).map(
+      (pattern) => new RegExp(pattern),
+    );
+
+    for (const { value, argName } of collectStringArgs(input.toolCall.args)) {
+      const key = argName.split('.').pop() ?? argName;
+      if (
+        excludedArgs.includes(argName) ||
+        !(scannedArgs.includes(argName) || scannedArgs.includes(key))
+      ) {
+        continue;
+      }
+      for (const { name, pattern } of patterns) {
+        const global = new RegExp(pattern.source, `${pattern.flags}g`);
+        for (const [secret] of value.matchAll(global)) {
+          if (allowedPatterns.some((allowed) => allowed.test(secret))) {
+            continue;
+          }
+          return blocked(
+            config?.decision,
+            `Argument "${argName}" contains what looks like a ${name} (${maskSecret(secret)}). ` +
+              'Do not write secrets into files or commands. Reference them through an environment variable or a secret manager instead, or use a placeholder value.',
+          );
+        }
+      }
+    }
+
+    return { decision: SafetyCheckDecision.ALLOW };
+  }
+}
+
+const URL_PATTERN =
+  /\b(?:https?|ftp|ftps|sftp|ssh|git|wss?|rsync|s3):\/\/[^\s"'`<>()]+/gi;
+const SCP_PATTERN = /^(?:[\w.-]+@)?([\w-]+(?:\.[\w-]+)+):/;
+const NETWORK_PROGRAMS = new Set([
+  'curl',
+  'wget',
+  'http',
+  'https',
+  'ssh',
+  'scp',
+  'sftp',
+  'rsync',
+  'ftp',
+  'nc',
+  'ncat',
+  'netcat',
+  'telnet',
+  'socat',
+]);
+const LOCALHOST_NAMES = new Set(['localhost', '127.0.0.1', '::1', '[::1]']);
+
+function getHost(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.toLowerCase() || undefined;
+  } catch (_error) {
+    return undefined;
+  }
+}
+
+/**
+ * An in-process checker that restricts the destinations of `web_fetch` and
+ * shell commands to an allowlist of domains.
+ */
+export class NetworkEgressChecker implements InProcessChecker {
+  async check(input: SafetyCheckInput): Promise<SafetyCheckResult> {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+    const config = input.config as NetworkEgressConfig | undefined;
+    const allowedDomains = (config?.allowed_domains ?? []).map((domain) =>
+      domain.toLowerCase().replace(/^\*\./, ''),
+    );
+    const allowLocalhost = config?.allow_localhost ?? true;
+    const isAllowed = (host: string) =>
+      (allowLocalhost && LOCALHOST_NAMES.has(host)) ||
+      allowedDomains.some(
+        (domain) => host === domain || host.endsWith(`.${domain}`),
+      );
+    const allowList = allowedDomains.length
+      ? `Allowed domains: ${allowedDomains.join(', ')}.`
+      : 'No domains are allowed.';
+
+    const hosts = new Set<string>();
+    for (const { value } of collectStringArgs(input.toolCall.args)) {
+      for (const [url] of value.matchAll(URL_PATTERN)) {
+        const host = getHost(url);
+        if (host) {
+          hosts.add(host);
+        }
+      }
+    }
+
+    const command = input.toolCall.args?.['command'];
+    if (
+      typeof command === 'string' &&
+      SHELL_TOOL_NAMES.includes(input.toolCall.name ?? '')
+    ) {
+      await initializeShellParsers();
+      for (const subCommand of splitCommands(command)) {
+        const words = parse(subCommand, (name) => `$${name}`).filter(
+          (word): word is string => typeof word === 'string',
+        );
+        const program = path.posix.basename(words[0] ?? '');
+        let foundHost = false;
+        for (const word of words.slice(1)) {
+          const url = word.match(URL_PATTERN)?.[0];
+          const host = url ? getHost(url) : word.match(SCP_PATTERN)?.[1];
+          if (host) {
+            hosts.add(host.toLowerCase());
+            foundHost = true;
+          }
+        }
+        if (NETWORK_PROGRAMS.has(program) && !foundHost) {
+          const hostArg = words
+            .slice(1)
+            .find(
+              (word) =>
+                !word.startsWith('-') &&
+                /^[\w.-]+@?[\w.-]*\.[a-z]{2,}$/i.test(word),
+            );
+          const host = hostArg?.split('@').pop()?.toLowerCase();
+          if (host) {
+            hosts.add(host);
+          } else {
+            return {
+              decision: SafetyCheckDecision.ASK_USER,
+              reason: `Cannot determine the destination of the network command "${subCommand}". ${allowList} Use an explicit URL or host so the destination can be checked.`,
+            };
+          }
+        }
+      }
+    }
+
+    for (const host of hosts) {
+      if (!isAllowed(host)) {
+        return blocked(
+          config?.decision,
+          `Network access to "${host}" is not allowed. ${allowList} ` +
+            `Use an allowed domain instead, or ask the user to add "${host}" to the allowed_domains of the network-egress safety checker.`,
+        );
+      }
+    }
+
+    return { decision: SafetyCheckDecision.ALLOW };
+  }
+}
+
+export const DEFAULT_PROTECTED_FILE_PATTERNS = [
+  // Lockfiles
+  '**/package-lock.json',
+  '**/npm-shrinkwrap.json',
+  '**/yarn.lock',
+  '**/pnpm-lock.yaml',
+  '**/bun.lockb',
+  '**/Cargo.lock',
+  '**/Gemfile.lock',
+  '**/poetry.lock',
+  '**/Pipfile.lock',
+  '**/uv.lock',
+  '**/composer.lock',
+  '**/go.sum',
+  // CI configs
+  '.github/workflows/**',
+  '.gitlab-ci.yml',
+  '.circleci/**',
+  '.buildkite/**',
+  'azure-pipelines.yml',
+  'Jenkinsfile',
+  // Environment files
+  '**/.env',
+  '**/.env.*',
+];
+
+/**
+ * An in-process checker that protects files such as lockfiles, CI configs
+ * and `.env` files from file tools and shell commands.
+ */
+export class ProtectedFilesChecker implements InProcessChecker {
+  async check(input: SafetyCheckInput): Promise<SafetyCheckResult> {
+    const { toolCall, context } = input;
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+    const config = input.config as ProtectedFilesConfig | undefined;
+    const patterns = [
+      ...(config?.patterns ?? DEFAULT_PROTECTED_FILE_PATTERNS),
+      ...(config?.additional_patterns ?? []),
+    ];
+    const includedArgs = config?.included_args ?? [];
+    const excludedArgs = config?.excluded_args ?? [];
+    const cwd = context.environment.cwd;
+    const workspaces = [cwd, ...context.environment.workspaces];
+
+    const candidates: Array<{ path: string; argName: string }> = [];
+    for (const { value, argName } of collectStringArgs(toolCall.args)) {
+      const key = argName.split('.').pop() ?? argName;
+      if (excludedArgs.includes(argName)) {
+        continue;
+      }
+      if (
+        includedArgs.includes(argName) ||
+        key.includes('path') ||
+        key.includes('directory') ||
+        key.includes('file') ||
+        key === 'source' ||
+        key === 'destination'
+      ) {
+        candidates.push({ path: value, argName });
+      } else if (
+        key === 'command' &&
+        SHELL_TOOL_NAMES.includes(toolCall.name ?? '')
+      ) {
+        for (const word of parse(value, (name) => `$${name}`)) {
+          if (typeof word === 'string' && word && !word.startsWith('-')) {
+            candidates.push({ path: word, argName });
+          }
+        }
+      }
+    }
+
+    for (const { path: p, argName } of candidates) {
+      const absolutePath = path.resolve(cwd, p);
+      const pattern = patterns.find((glob) =>
+        matchesGlob(absolutePath, glob, workspaces),
+      );
+      if (pattern) {
+        return blocked(
+          config?.decision,
+          `"${p}" in argument "${argName}" is a protected file (matches "${pattern}"). ` +
+            'Do not read or modify it directly. Use the project tooling that manages it, such as the package manager, or ask the user to make this change.',
+        );
+      }
+    }
+
+    return { decision: SafetyCheckDecision.ALLOW };
+  }
+}
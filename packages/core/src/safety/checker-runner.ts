@@ -13,8 +13,9 @@ import type {
 } from '../policy/types.js';
 import type { SafetyCheckInput, SafetyCheckResult } from './protocol.js';
 import { SafetyCheckDecision } from './protocol.js';
-import type { CheckerRegistry } from './registry.js';
-import type { ContextBuilder } from './context-builder.js';
+import { CheckerRegistry, DEFAULT_CHECKERS_DIR } from './registry.js';
+import { ContextBuilder } from './context-builder.js';
+import type { Config } from '../config/config.js';
 import { z } from 'zod';
 
 const SafetyCheckResultSchema: z.ZodType<SafetyCheckResult> =
@@ -303,3 +304,17 @@ export class CheckerRunner {
     });
   }
 }
+
+/**
+ * Creates a runner for the built-in and bundled safety checkers, which
+ * receive the workspace directories of `config` as context.
+ */
+export function createCheckerRunner(
+  config: Pick<Config, 'getWorkspaceContext'>,
+): CheckerRunner {
+  return new CheckerRunner(
+    new ContextBuilder(config),
+    new CheckerRegistry(DEFAULT_CHECKERS_DIR),
+    { checkersPath: DEFAULT_CHECKERS_DIR },
+  );
+}
@@ -12,7 +12,7 @@ import type { Config } from '../config/config.js';
  */
 export class ContextBuilder {
   constructor(
-    private readonly config: Config,
+    private readonly config: Pick<Config, 'getWorkspaceContext'>,
     private readonly conversationHistory: ConversationTurn[] = [],
   ) {}
 
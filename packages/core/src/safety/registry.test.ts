@@ -7,7 +7,12 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { CheckerRegistry } from './registry.js';
 import { InProcessCheckerType } from '../policy/types.js';
-import { AllowedPathChecker } from './built-in.js';
+import {
+  AllowedPathChecker,
+  NetworkEgressChecker,
+  ProtectedFilesChecker,
+  SecretsChecker,
+} from './built-in.js';
 
 describe('CheckerRegistry', () => {
   let registry: CheckerRegistry;
@@ -22,6 +27,15 @@ describe('CheckerRegistry', () => {
       InProcessCheckerType.ALLOWED_PATH,
     );
     expect(checker).toBeInstanceOf(AllowedPathChecker);
+    expect(
+      registry.resolveInProcess(InProcessCheckerType.SECRETS),
+    ).toBeInstanceOf(SecretsChecker);
+    expect(
+      registry.resolveInProcess(InProcessCheckerType.NETWORK_EGRESS),
+    ).toBeInstanceOf(NetworkEgressChecker);
+    expect(
+      registry.resolveInProcess(InProcessCheckerType.PROTECTED_FILES),
+    ).toBeInstanceOf(ProtectedFilesChecker);
   });
 
   it('should throw for unknown in-process checkers', () => {
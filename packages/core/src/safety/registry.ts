@@ -6,9 +6,20 @@
 
 import * as path from 'node:path';
 import * as fs from 'node:fs';
-import { type InProcessChecker, AllowedPathChecker } from './built-in.js';
+import { fileURLToPath } from 'node:url';
+import {
+  type InProcessChecker,
+  AllowedPathChecker,
+  NetworkEgressChecker,
+  ProtectedFilesChecker,
+  SecretsChecker,
+} from './built-in.js';
 import { InProcessCheckerType } from '../policy/types.js';
 
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+export const DEFAULT_CHECKERS_DIR = path.join(__dirname, 'checkers');
+
 /**
  * Registry for managing safety checker resolution.
  */
@@ -20,7 +31,12 @@ export class CheckerRegistry {
   private static readonly BUILT_IN_IN_PROCESS_CHECKERS = new Map<
     string,
     InProcessChecker
-  >([[InProcessCheckerType.ALLOWED_PATH, new AllowedPathChecker()]]);
+  >([
+    [InProcessCheckerType.ALLOWED_PATH, new AllowedPathChecker()],
+    [InProcessCheckerType.SECRETS, new SecretsChecker()],
+    [InProcessCheckerType.NETWORK_EGRESS, new NetworkEgressChecker()],
+    [InProcessCheckerType.PROTECTED_FILES, new ProtectedFilesChecker()],
+  ]);
 
   // Regex to validate checker names (alphanumeric and hyphens only)
   private static readonly VALID_NAME_PATTERN = /^[a-z0-9-]+$/;
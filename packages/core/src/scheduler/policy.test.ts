@@ -467,6 +467,22 @@ describe('policy.ts', () => {
       expect(errorMessage).toBe('Tool execution denied by policy. Custom Deny');
       expect(errorType).toBe(ToolErrorType.POLICY_VIOLATION);
     });
+
+    it('should include the safety checker reason if provided', () => {
+      const mockConfig = {
+        getApprovalMode: vi.fn().mockReturnValue(ApprovalMode.DEFAULT),
+      } as unknown as Config;
+
+      const { errorMessage } = getPolicyDenialError(
+        mockConfig,
+        undefined,
+        'Network access to "example.com" is not allowed.',
+      );
+
+      expect(errorMessage).toBe(
+        'Tool execution denied by policy. Network access to "example.com" is not allowed.',
+      );
+    });
   });
 });
 
@@ -32,10 +32,12 @@ import type { ValidatingToolCall } from './types.js';
 export function getPolicyDenialError(
   config: Config,
   rule?: PolicyRule,
+  reason?: string,
 ): { errorMessage: string; errorType: ToolErrorType } {
   const denyMessage = rule?.denyMessage ? ` ${rule.denyMessage}` : '';
+  const checkerReason = reason ? ` ${reason}` : '';
   return {
-    errorMessage: `Tool execution denied by policy.${denyMessage}`,
+    errorMessage: `Tool execution denied by policy.${denyMessage}${checkerReason}`,
     errorType: ToolErrorType.POLICY_VIOLATION,
   };
 }
@@ -77,7 +79,7 @@ export async function checkPolicy(
     }
   }
 
-  return { decision, rule: result.rule };
+  return { decision, rule: result.rule, reason: result.reason };
 }
 
 /**
@@ -407,12 +407,13 @@ export class Scheduler {
     const callId = toolCall.request.callId;
 
     // Policy & Security
-    const { decision, rule } = await checkPolicy(toolCall, this.config);
+    const { decision, rule, reason } = await checkPolicy(toolCall, this.config);
 
     if (decision === PolicyDecision.DENY) {
       const { errorMessage, errorType } = getPolicyDenialError(
         this.config,
         rule,
+        reason,
       );
 
       this.state.updateStatus(
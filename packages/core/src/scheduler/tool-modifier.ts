@@ -91,13 +91,15 @@ export class ToolModificationHandler {
       toolCall.request.args,
     );
 
-    const updatedDiff = Diff.createPatch(
-      modifyContext.getFilePath(toolCall.request.args),
-      currentContent,
-      payload.newContent,
-      'Current',
-      'Proposed',
-    );
+    const updatedDiff =
+      (await modifyContext.getUpdatedDiff?.(updatedParams)) ??
+      Diff.createPatch(
+        modifyContext.getFilePath(toolCall.request.args),
+        currentContent,
+        payload.newContent,
+        'Current',
+        'Proposed',
+      );
 
     return {
       updatedParams,
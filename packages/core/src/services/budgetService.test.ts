@@ -0,0 +1,228 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  BudgetService,
+  computeBudgetUsage,
+  formatBudgetStatus,
+  getModelPricing,
+} from './budgetService.js';
+import type { Config } from '../config/config.js';
+import { Storage } from '../config/storage.js';
+import type { SessionMetrics } from '../telemetry/uiTelemetry.js';
+import { uiTelemetryService } from '../telemetry/uiTelemetry.js';
+
+function createMetrics(
+  models: Record<
+    string,
+    { input: number; cached?: number; candidates: number; thoughts?: number }
+  >,
+): SessionMetrics {
+  return {
+    models: Object.fromEntries(
+      Object.entries(models).map(([model, tokens]) => [
+        model,
+        {
+          api: { totalRequests: 1, totalErrors: 0, totalLatencyMs: 100 },
+          tokens: {
+            input: tokens.input,
+            prompt: tokens.input + (tokens.cached ?? 0),
+            candidates: tokens.candidates,
+            total: 0,
+            cached: tokens.cached ?? 0,
+            thoughts: tokens.thoughts ?? 0,
+            tool: 0,
+          },
+        },
+      ]),
+    ),
+  } as unknown as SessionMetrics;
+}
+
+describe('BudgetService', () => {
+  let testDir: string;
+  let usagePath: string;
+  let sessionId: string;
+  const config = {
+    getSessionId: () => sessionId,
+  } as unknown as Config;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'budget-service-test-'));
+    usagePath = path.join(testDir, 'budget_usage.json');
+    sessionId = 'session-1';
+    vi.spyOn(Storage, 'getBudgetUsagePath').mockReturnValue(usagePath);
+    vi.spyOn(uiTelemetryService, 'on').mockReturnValue(uiTelemetryService);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('computeBudgetUsage', () => {
+    it('should sum tokens across models and estimate the cost', () => {
+      const usage = computeBudgetUsage(
+        createMetrics({
+          'model-a': {
+            input: 1_000_000,
+            cached: 1_000_000,
+            candidates: 500_000,
+            thoughts: 500_000,
+          },
+          'model-b': { input: 1_000_000, candidates: 0 },
+        }),
+        {
+          'model-a': { input: 1, output: 4, cached: 0.5 },
+          'model-b': { input: 2, output: 8 },
+        },
+      );
+
+      expect(usage).toEqual({
+        inputTokens: 2_000_000,
+        outputTokens: 1_000_000,
+        cachedTokens: 1_000_000,
+        costUsd: 1 + 4 + 0.5 + 2,
+      });
+    });
+
+    it('should not charge for models without a price', () => {
+      const usage = computeBudgetUsage(
+        createMetrics({ unknown: { input: 1000, candidates: 1000 } }),
+        {},
+      );
+
+      expect(usage.costUsd).toBe(0);
+      expect(usage.inputTokens).toBe(1000);
+    });
+  });
+
+  describe('getModelPricing', () => {
+    it('should fall back to the longest matching prefix', () => {
+      const pricing = {
+        'gemini-2.5-flash': { input: 1, output: 1 },
+        'gemini-2.5-flash-lite': { input: 2, output: 2 },
+      };
+
+      expect(getModelPricing('gemini-2.5-flash-lite-preview', pricing)).toBe(
+        pricing['gemini-2.5-flash-lite'],
+      );
+      expect(getModelPricing('gemini-2.0-flash', pricing)).toBeUndefined();
+    });
+  });
+
+  it('should be disabled and not subscribe without limits', () => {
+    const service = new BudgetService(config, { warningThreshold: 0.5 });
+
+    expect(service.isEnabled()).toBe(false);
+    expect(uiTelemetryService.on).not.toHaveBeenCalled();
+    expect(service.getExceededLimit()).toBeUndefined();
+  });
+
+  it('should update its usage from telemetry when enabled', () => {
+    const service = new BudgetService(config, {
+      session: { outputTokens: 100 },
+    });
+    const listener = vi.mocked(uiTelemetryService.on).mock.calls[0][1];
+
+    listener({
+      metrics: createMetrics({ 'model-a': { input: 10, candidates: 120 } }),
+      lastPromptTokenCount: 0,
+    });
+
+    expect(service.getSessionUsage().outputTokens).toBe(120);
+  });
+
+  it('should report exceeded limits and warnings past the threshold', () => {
+    const service = new BudgetService(config, {
+      session: { inputTokens: 1000, outputTokens: 100, costUsd: 10 },
+      warningThreshold: 0.5,
+      pricing: { 'model-a': { input: 1000, output: 0 } },
+    });
+
+    service.update(
+      createMetrics({ 'model-a': { input: 900, candidates: 60 } }),
+    );
+
+    expect(service.getExceededLimit()).toBeUndefined();
+    expect(service.getWarnings()).toEqual([
+      { scope: 'session', metric: 'inputTokens', used: 900, limit: 1000 },
+      { scope: 'session', metric: 'outputTokens', used: 60, limit: 100 },
+    ]);
+
+    service.update(
+      createMetrics({ 'model-a': { input: 10_000, candidates: 60 } }),
+    );
+
+    expect(service.getExceededLimit()).toEqual({
+      scope: 'session',
+      metric: 'inputTokens',
+      used: 10_000,
+      limit: 1000,
+    });
+  });
+
+  it('should share daily usage between sessions', () => {
+    const first = new BudgetService(config, { daily: { outputTokens: 100 } });
+    first.update(createMetrics({ 'model-a': { input: 0, candidates: 70 } }));
+
+    sessionId = 'session-2';
+    const second = new BudgetService(config, { daily: { outputTokens: 100 } });
+    expect(second.getDailyUsage().outputTokens).toBe(70);
+
+    second.update(createMetrics({ 'model-a': { input: 0, candidates: 40 } }));
+
+    expect(second.getExceededLimit()).toEqual({
+      scope: 'daily',
+      metric: 'outputTokens',
+      used: 110,
+      limit: 100,
+    });
+    expect(
+      Object.keys(JSON.parse(fs.readFileSync(usagePath, 'utf-8')).sessions),
+    ).toEqual(['session-1', 'session-2']);
+  });
+
+  it('should start a new day with only the usage since midnight', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2026, 0, 1, 23, 0));
+    const service = new BudgetService(config, { daily: { outputTokens: 100 } });
+    service.update(createMetrics({ 'model-a': { input: 0, candidates: 90 } }));
+
+    vi.setSystemTime(new Date(2026, 0, 2, 1, 0));
+    expect(service.getExceededLimit()).toBeUndefined();
+    service.update(createMetrics({ 'model-a': { input: 0, candidates: 120 } }));
+
+    expect(service.getDailyUsage().outputTokens).toBe(30);
+    expect(JSON.parse(fs.readFileSync(usagePath, 'utf-8')).date).toBe(
+      '2026-01-02',
+    );
+  });
+
+  it('should format statuses for display', () => {
+    expect(
+      formatBudgetStatus({
+        scope: 'session',
+        metric: 'costUsd',
+        used: 4.1,
+        limit: 5,
+      }),
+    ).toBe('Session cost budget: $4.10 of $5.00 used');
+    expect(
+      formatBudgetStatus({
+        scope: 'daily',
+        metric: 'outputTokens',
+        used: 1_200_000,
+        limit: 1_000_000,
+      }),
+    ).toBe('Daily output token budget: 1,200,000 of 1,000,000 tokens used');
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { Config } from '../config/config.js';
+import { DEFAULT_MODEL_PRICING } from '../config/defaultModelConfigs.js';
+import { Storage } from '../config/storage.js';
+import type { SessionMetrics } from '../telemetry/uiTelemetry.js';
+import { uiTelemetryService } from '../telemetry/uiTelemetry.js';
+import { debugLogger } from '../utils/debugLogger.js';
+import { isNodeError } from '../utils/errors.js';
+
+export const DEFAULT_BUDGET_WARNING_THRESHOLD = 0.8;
+
+/** Prices in US dollars per million tokens. */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /** Defaults to the input price. */
+  cached?: number;
+}
+
+/** Limits for a single budget scope. Unset limits are not enforced. */
+export interface BudgetLimits {
+  /** Prompt tokens that were not served from the cache. */
+  inputTokens?: number;
+  /** Response and thinking tokens. */
+  outputTokens?: number;
+  cachedTokens?: number;
+  /** Estimated cost in US dollars. */
+  costUsd?: number;
+}
+
+export interface BudgetSettings {
+  session?: BudgetLimits;
+  /** Limits shared by all sessions on the same local calendar day. */
+  daily?: BudgetLimits;
+  /** The fraction of a limit at which a warning is shown. */
+  warningThreshold?: number;
+  /** Per-model prices that override or extend the built-in table. */
+  pricing?: Record<string, ModelPricing>;
+}
+
+export type BudgetScope = 'session' | 'daily';
+export type BudgetMetric = keyof BudgetLimits;
+export type BudgetUsage = Required<BudgetLimits>;
+
+export interface BudgetStatus {
+  scope: BudgetScope;
+  metric: BudgetMetric;
+  used: number;
+  limit: number;
+}
+
+interface DailyUsageFile {
+  date: string;
+  sessions: Record<string, BudgetUsage>;
+}
+
+const BUDGET_METRICS: readonly BudgetMetric[] = [
+  'inputTokens',
+  'outputTokens',
+  'cachedTokens',
+  'costUsd',
+];
+
+const METRIC_LABELS: Record<BudgetMetric, string> = {
+  inputTokens: 'input token',
+  outputTokens: 'output token',
+  cachedTokens: 'cached token',
+  costUsd: 'cost',
+};
+
+const createEmptyUsage = (): BudgetUsage => ({
+  inputTokens: 0,
+  outputTokens: 0,
+  cachedTokens: 0,
+  costUsd: 0,
+});
+
+function addUsage(a: BudgetUsage, b: BudgetUsage): BudgetUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cachedTokens: a.cachedTokens + b.cachedTokens,
+    costUsd: a.costUsd + b.costUsd,
+  };
+}
+
+function subtractUsage(a: BudgetUsage, b: BudgetUsage): BudgetUsage {
+  return {
+    inputTokens: a.inputTokens - b.inputTokens,
+    outputTokens: a.outputTokens - b.outputTokens,
+    cachedTokens: a.cachedTokens - b.cachedTokens,
+    costUsd: a.costUsd - b.costUsd,
+  };
+}
+
+function getLocalDate(now = new Date()): string {
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+function hasLimits(limits: BudgetLimits | undefined): boolean {
+  return BUDGET_METRICS.some((metric) => limits?.[metric] !== undefined);
+}
+
+/**
+ * Looks up the price of a model, falling back to the longest table entry
+ * that prefixes the model name (e.g. for dated preview releases).
+ */
+export function getModelPricing(
+  model: string,
+  pricing: Record<string, ModelPricing>,
+): ModelPricing | undefined {
+  if (pricing[model]) {
+    return pricing[model];
+  }
+  const prefix = Object.keys(pricing)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? pricing[prefix] : undefined;
+}
+
+/**
+ * Sums the token usage recorded for each model and estimates its cost.
+ * Models without a price count towards the token limits only.
+ */
+export function computeBudgetUsage(
+  metrics: SessionMetrics,
+  pricing: Record<string, ModelPricing>,
+): BudgetUsage {
+  const usage = createEmptyUsage();
+  for (const [model, { tokens }] of Object.entries(metrics.models)) {
+    const outputTokens = tokens.candidates + tokens.thoughts;
+    usage.inputTokens += tokens.input;
+    usage.outputTokens += outputTokens;
+    usage.cachedTokens += tokens.cached;
+
+    const price = getModelPricing(model, pricing);
+    if (price) {
+      usage.costUsd +=
+        (tokens.input * price.input +
+          outputTokens * price.output +
+          tokens.cached * (price.cached ?? price.input)) /
+        1_000_000;
+    }
+  }
+  return usage;
+}
+
+function formatAmount(metric: BudgetMetric, value: number): string {
+  return metric === 'costUsd'
+    ? `$${value.toFixed(2)}`
+    : Math.round(value).toLocaleString('en-US');
+}
+
+/**
+ * Describes how much of a limit has been used, e.g.
+ * "Session cost budget: $4.10 of $5.00 used".
+ */
+export function formatBudgetStatus(status: BudgetStatus): string {
+  const scope = status.scope === 'session' ? 'Session' : 'Daily';
+  const unit = status.metric === 'costUsd' ? '' : ' tokens';
+  return `${scope} ${METRIC_LABELS[status.metric]} budget: ${formatAmount(
+    status.metric,
+    status.used,
+  )} of ${formatAmount(status.metric, status.limit)}${unit} used`;
+}
+
+/**
+ * Tracks token usage and estimated cost against the configured session and
+ * daily budgets. Usage is derived from the UI telemetry metrics; daily usage
+ * is shared between sessions through a file in the global Gemini directory.
+ */
+export class BudgetService {
+  private readonly pricing: Record<string, ModelPricing>;
+  private sessionUsage = createEmptyUsage();
+  private dailyUsage = createEmptyUsage();
+  // The session's usage when the current day started, so that a session
+  // running past midnight only counts its new usage towards the new day.
+  private dayStartUsage = createEmptyUsage();
+  private date = getLocalDate();
+
+  constructor(
+    private readonly config: Config,
+    private readonly settings: BudgetSettings = {},
+  ) {
+    this.pricing = { ...DEFAULT_MODEL_PRICING, ...settings.pricing };
+    if (hasLimits(settings.daily)) {
+      this.dailyUsage = this.sumDailyUsage(this.readDailyUsage());
+    }
+    if (this.isEnabled()) {
+      uiTelemetryService.on('update', ({ metrics }) => this.update(metrics));
+    }
+  }
+
+  isEnabled(): boolean {
+    return hasLimits(this.settings.session) || hasLimits(this.settings.daily);
+  }
+
+  getSessionUsage(): BudgetUsage {
+    return this.sessionUsage;
+  }
+
+  getDailyUsage(): BudgetUsage {
+    return this.dailyUsage;
+  }
+
+  /**
+   * Recomputes usage from the latest session metrics and, when daily limits
+   * are configured, records this session's share of today's usage.
+   */
+  update(metrics: SessionMetrics): void {
+    this.rollOverDay();
+    this.sessionUsage = computeBudgetUsage(metrics, this.pricing);
+
+    if (!hasLimits(this.settings.daily)) {
+      return;
+    }
+    const daily = this.readDailyUsage();
+    daily.sessions[this.config.getSessionId()] = subtractUsage(
+      this.sessionUsage,
+      this.dayStartUsage,
+    );
+    this.writeDailyUsage(daily);
+    this.dailyUsage = this.sumDailyUsage(daily);
+  }
+
+  /** Returns the usage of every configured limit. */
+  getStatuses(): BudgetStatus[] {
+    this.rollOverDay();
+    const statuses: BudgetStatus[] = [];
+    const scopes: Array<[BudgetScope, BudgetLimits | undefined, BudgetUsage]> =
+      [
+        ['session', this.settings.session, this.sessionUsage],
+        ['daily', this.settings.daily, this.dailyUsage],
+      ];
+    for (const [scope, limits, usage] of scopes) {
+      for (const metric of BUDGET_METRICS) {
+        const limit = limits?.[metric];
+        if (limit !== undefined) {
+          statuses.push({ scope, metric, used: usage[metric], limit });
+        }
+      }
+    }
+    return statuses;
+  }
+
+  /** Returns the first limit that has been reached, if any. */
+  getExceededLimit(): BudgetStatus | undefined {
+    return this.getStatuses().find((status) => status.used >= status.limit);
+  }
+
+  /**
+   * Returns the limits past the warning threshold that have not been
+   * reached yet, most used first.
+   */
+  getWarnings(): BudgetStatus[] {
+    const threshold =
+      this.settings.warningThreshold ?? DEFAULT_BUDGET_WARNING_THRESHOLD;
+    return this.getStatuses()
+      .filter(
+        (status) =>
+          status.used < status.limit && status.used >= status.limit * threshold,
+      )
+      .sort((a, b) => b.used / b.limit - a.used / a.limit);
+  }
+
+  private rollOverDay(): void {
+    const today = getLocalDate();
+    if (today === this.date) {
+      return;
+    }
+    this.date = today;
+    this.dayStartUsage = this.sessionUsage;
+    if (hasLimits(this.settings.daily)) {
+      this.dailyUsage = this.sumDailyUsage(this.readDailyUsage());
+    }
+  }
+
+  private sumDailyUsage(daily: DailyUsageFile): BudgetUsage {
+    return Object.values(daily.sessions).reduce(addUsage, createEmptyUsage());
+  }
+
+  private readDailyUsage(): DailyUsageFile {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+      const daily = JSON.parse(
+        fs.readFileSync(Storage.getBudgetUsagePath(), 'utf-8'),
+      ) as DailyUsageFile;
+      if (daily.date === this.date && daily.sessions) {
+        return daily;
+      }
+    } catch (error) {
+      if (!isNodeError(error) || error.code !== 'ENOENT') {
+        debugLogger.warn('Failed to read the daily budget usage:', error);
+      }
+    }
+    return { date: this.date, sessions: {} };
+  }
+
+  private writeDailyUsage(daily: DailyUsageFile): void {
+    const usagePath = Storage.getBudgetUsagePath();
+    try {
+      fs.mkdirSync(path.dirname(usagePath), { recursive: true });
+      fs.writeFileSync(usagePath, JSON.stringify(daily, null, 2));
+    } catch (error) {
+      debugLogger.warn('Failed to record the daily budget usage:', error);
+    }
+  }
+}
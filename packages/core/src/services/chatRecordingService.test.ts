@@ -415,6 +415,103 @@ describe('ChatRecordingService', () => {
     });
   });
 
+  describe('forkSession', () => {
+    it('should write a new session that branches before a message', () => {
+      chatRecordingService.initialize();
+      chatRecordingService.recordMessage({
+        type: 'user',
+        content: 'msg1',
+        model: 'm',
+      });
+      chatRecordingService.recordMessage({
+        type: 'gemini',
+        content: 'msg2',
+        model: 'm',
+      });
+      chatRecordingService.recordMessage({
+        type: 'user',
+        content: 'msg3',
+        model: 'm',
+      });
+      chatRecordingService.recordDirectories(['/extra/dir']);
+      const sessionFile = chatRecordingService.getConversationFilePath()!;
+      const original = JSON.parse(
+        fs.readFileSync(sessionFile, 'utf8'),
+      ) as ConversationRecord;
+
+      const fork = chatRecordingService.forkSession({
+        messageId: original.messages[2].id,
+        checkpointCommitHash: 'abc123',
+      });
+
+      expect(fork).not.toBeNull();
+      expect(fork!.filePath).not.toBe(sessionFile);
+      expect(path.dirname(fork!.filePath)).toBe(path.dirname(sessionFile));
+      const written = JSON.parse(
+        fs.readFileSync(fork!.filePath, 'utf8'),
+      ) as ConversationRecord;
+      expect(written).toEqual(fork!.conversation);
+      expect(written.sessionId).not.toBe('test-session-id');
+      expect(written.messages.map((m) => m.content)).toEqual(['msg1', 'msg2']);
+      expect(written).toMatchObject({
+        parentSessionId: 'test-session-id',
+        forkedAtMessageId: original.messages[2].id,
+        checkpointCommitHash: 'abc123',
+        directories: ['/extra/dir'],
+      });
+
+      // The original session is left untouched.
+      expect(
+        (JSON.parse(fs.readFileSync(sessionFile, 'utf8')) as ConversationRecord)
+          .messages,
+      ).toHaveLength(3);
+    });
+
+    it('should keep the whole conversation if no message ID is given', () => {
+      chatRecordingService.initialize();
+      chatRecordingService.recordMessage({
+        type: 'user',
+        content: 'msg1',
+        model: 'm',
+      });
+
+      const fork = chatRecordingService.forkSession();
+
+      expect(fork!.conversation.messages).toHaveLength(1);
+      expect(fork!.conversation.forkedAtMessageId).toBeUndefined();
+    });
+
+    it('should throw if the message ID is not found', () => {
+      chatRecordingService.initialize();
+      chatRecordingService.recordMessage({
+        type: 'user',
+        content: 'msg1',
+        model: 'm',
+      });
+
+      expect(() =>
+        chatRecordingService.forkSession({ messageId: 'non-existent' }),
+      ).toThrow('Message non-existent not found in session test-session-id.');
+    });
+  });
+
+  describe('recordCheckpoint', () => {
+    it('should save the checkpoint to the conversation', () => {
+      chatRecordingService.initialize();
+      chatRecordingService.recordMessage({
+        type: 'user',
+        content: 'msg1',
+        model: 'm',
+      });
+
+      chatRecordingService.recordCheckpoint('abc123');
+
+      expect(chatRecordingService.getConversation()?.checkpointCommitHash).toBe(
+        'abc123',
+      );
+    });
+  });
+
   describe('ENOSPC (disk full) graceful degradation - issue #16266', () => {
     it('should disable recording and not throw when ENOSPC occurs during initialize', () => {
       const enospcError = new Error('ENOSPC: no space left on device');
@@ -102,6 +102,12 @@ export interface ConversationRecord {
   summary?: string;
   /** Workspace directories added during the session via /dir add */
   directories?: string[];
+  /** ID of the session this session was forked from */
+  parentSessionId?: string;
+  /** ID of the parent session's message that this session branches before */
+  forkedAtMessageId?: string;
+  /** Checkpoint (shadow git commit) of the workspace's files for this session */
+  checkpointCommitHash?: string;
 }
 
 /**
@@ -112,6 +118,70 @@ export interface ResumedSessionData {
   filePath: string;
 }
 
+/**
+ * Options for forking a conversation.
+ */
+export interface ForkConversationOptions {
+  /**
+   * ID of the message to branch before. The fork keeps the messages before
+   * it. If omitted, the fork keeps the whole conversation.
+   */
+  messageId?: string;
+  /** Checkpoint of the workspace's files at the point of the fork. */
+  checkpointCommitHash?: string;
+}
+
+function getSessionFilePath(chatsDir: string, sessionId: string): string {
+  const timestamp = new Date().toISOString().slice(0, 16).replace(/:/g, '-');
+  return path.join(
+    chatsDir,
+    `${SESSION_FILE_PREFIX}${timestamp}-${sessionId.slice(0, 8)}.json`,
+  );
+}
+
+/**
+ * Writes a new session file that branches from a conversation, leaving the
+ * original session untouched.
+ *
+ * @returns The new session, ready to be resumed.
+ * @throws {Error} if the conversation has no message with the given ID.
+ */
+export function forkConversation(
+  conversation: ConversationRecord,
+  chatsDir: string,
+  options: ForkConversationOptions = {},
+): ResumedSessionData {
+  let messages = conversation.messages;
+  if (options.messageId !== undefined) {
+    const messageIndex = messages.findIndex((m) => m.id === options.messageId);
+    if (messageIndex === -1) {
+      throw new Error(
+        `Message ${options.messageId} not found in session ${conversation.sessionId}.`,
+      );
+    }
+    messages = messages.slice(0, messageIndex);
+  }
+
+  const sessionId = randomUUID();
+  const now = new Date().toISOString();
+  const fork: ConversationRecord = {
+    sessionId,
+    projectHash: conversation.projectHash,
+    startTime: now,
+    lastUpdated: now,
+    messages: structuredClone(messages),
+    directories: conversation.directories,
+    parentSessionId: conversation.sessionId,
+    forkedAtMessageId: options.messageId,
+    checkpointCommitHash: options.checkpointCommitHash,
+  };
+
+  fs.mkdirSync(chatsDir, { recursive: true });
+  const filePath = getSessionFilePath(chatsDir, sessionId);
+  fs.writeFileSync(filePath, JSON.stringify(fork, null, 2));
+  return { conversation: fork, filePath };
+}
+
 /**
  * Service for automatically recording chat conversations to disk.
  *
@@ -163,16 +233,7 @@ export class ChatRecordingService {
           'chats',
         );
         fs.mkdirSync(chatsDir, { recursive: true });
-
-        const timestamp = new Date()
-          .toISOString()
-          .slice(0, 16)
-          .replace(/:/g, '-');
-        const filename = `${SESSION_FILE_PREFIX}${timestamp}-${this.sessionId.slice(
-          0,
-          8,
-        )}.json`;
-        this.conversationFile = path.join(chatsDir, filename);
+        this.conversationFile = getSessionFilePath(chatsDir, this.sessionId);
 
         this.writeConversation({
           sessionId: this.sessionId,
@@ -519,6 +580,23 @@ export class ChatRecordingService {
     }
   }
 
+  /**
+   * Records the checkpoint of the workspace's files for the current session.
+   * Called when the session is forked, so its files can be restored later.
+   */
+  recordCheckpoint(commitHash: string): void {
+    if (!this.conversationFile) return;
+
+    try {
+      this.updateConversation((conversation) => {
+        conversation.checkpointCommitHash = commitHash;
+      });
+    } catch (error) {
+      debugLogger.error('Error saving checkpoint to chat history.', error);
+      // Don't throw - we want graceful degradation
+    }
+  }
+
   /**
    * Gets the current conversation data (for summary generation).
    */
@@ -600,6 +678,24 @@ export class ChatRecordingService {
     return conversation;
   }
 
+  /**
+   * Forks the current conversation into a new session file, branching before
+   * the specified message ID. The current session is left untouched; resume
+   * the returned session to continue in the fork.
+   */
+  forkSession(
+    options: ForkConversationOptions = {},
+  ): ResumedSessionData | null {
+    if (!this.conversationFile) {
+      return null;
+    }
+    return forkConversation(
+      this.readConversation(),
+      path.dirname(this.conversationFile),
+      options,
+    );
+  }
+
   /**
    * Updates the conversation history based on the provided API Content array.
    * This is used to persist changes made to the history (like masking) back to disk.
@@ -335,4 +335,126 @@ describe('GitService', () => {
       expect(commitHash).toBe('current-head-hash');
     });
   });
+
+  describe('listSnapshots', () => {
+    it('should parse the log and drop the initial commit', async () => {
+      hoistedMockRaw.mockResolvedValue(
+        'bbb\t1767225600\tSnapshot for replace\naaa\t1767222000\tInitial commit\n',
+      );
+      const service = new GitService(projectRoot, storage);
+
+      const snapshots = await service.listSnapshots();
+
+      expect(hoistedMockRaw).toHaveBeenCalledWith([
+        'log',
+        '--format=%H%x09%ct%x09%s',
+      ]);
+      expect(snapshots).toEqual([
+        {
+          commitHash: 'bbb',
+          timestamp: new Date(1767225600 * 1000),
+          message: 'Snapshot for replace',
+        },
+      ]);
+    });
+  });
+
+  describe('getSnapshotChanges', () => {
+    it('should stage the working tree and parse the changed files', async () => {
+      hoistedMockRaw.mockResolvedValue(
+        'M\0src/a.ts\0A\0new file.ts\0D\0gone.ts\0',
+      );
+      const service = new GitService(projectRoot, storage);
+
+      const changes = await service.getSnapshotChanges('abc');
+
+      expect(hoistedMockAdd).toHaveBeenCalledWith('.');
+      expect(hoistedMockRaw).toHaveBeenCalledWith([
+        'diff',
+        '--cached',
+        '--name-status',
+        '--no-renames',
+        '-z',
+        'abc',
+      ]);
+      expect(changes).toEqual([
+        { filePath: 'src/a.ts', status: 'modified' },
+        { filePath: 'new file.ts', status: 'added' },
+        { filePath: 'gone.ts', status: 'deleted' },
+      ]);
+    });
+  });
+
+  describe('restoreFileFromSnapshot', () => {
+    it('should restore a file that exists in the snapshot', async () => {
+      const service = new GitService(projectRoot, storage);
+
+      await service.restoreFileFromSnapshot('abc', 'src/a.ts');
+
+      expect(hoistedMockRaw).toHaveBeenCalledWith([
+        'cat-file',
+        '-e',
+        'abc:src/a.ts',
+      ]);
+      expect(hoistedMockRaw).toHaveBeenCalledWith([
+        'restore',
+        '--source',
+        'abc',
+        '--',
+        'src/a.ts',
+      ]);
+    });
+
+    it('should delete a file that did not exist in the snapshot', async () => {
+      const filePath = path.join(projectRoot, 'new.ts');
+      await fs.writeFile(filePath, 'created later');
+      hoistedMockRaw.mockRejectedValue(new Error('Not a valid object name'));
+      const service = new GitService(projectRoot, storage);
+
+      await service.restoreFileFromSnapshot('abc', 'new.ts');
+
+      await expect(fs.access(filePath)).rejects.toThrow();
+    });
+  });
+
+  describe('restoreHunksFromSnapshot', () => {
+    const diff = [
+      'diff --git a/a.txt b/a.txt',
+      '--- a/a.txt',
+      '+++ b/a.txt',
+      '@@ -1,2 +1,2 @@',
+      '-one',
+      '+ONE',
+      ' two',
+      '@@ -9,2 +9,2 @@',
+      ' nine',
+      '-ten',
+      '+TEN',
+      '',
+    ].join('\n');
+    const current = 'ONE\ntwo\n3\n4\n5\n6\n7\n8\nnine\nTEN\n';
+
+    it('should revert only the selected hunks', async () => {
+      const filePath = path.join(projectRoot, 'a.txt');
+      await fs.writeFile(filePath, current);
+      hoistedMockRaw.mockResolvedValue(diff);
+      const service = new GitService(projectRoot, storage);
+
+      await service.restoreHunksFromSnapshot('abc', 'a.txt', [1]);
+
+      expect(await fs.readFile(filePath, 'utf-8')).toBe(
+        'ONE\ntwo\n3\n4\n5\n6\n7\n8\nnine\nten\n',
+      );
+    });
+
+    it('should reject hunk indices that are not in the diff', async () => {
+      await fs.writeFile(path.join(projectRoot, 'a.txt'), current);
+      hoistedMockRaw.mockResolvedValue(diff);
+      const service = new GitService(projectRoot, storage);
+
+      await expect(
+        service.restoreHunksFromSnapshot('abc', 'a.txt', [2]),
+      ).rejects.toThrow('Hunk selection is out of date for a.txt.');
+    });
+  });
 });
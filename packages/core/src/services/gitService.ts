@@ -12,6 +12,37 @@ import type { SimpleGit } from 'simple-git';
 import { simpleGit, CheckRepoActions } from 'simple-git';
 import type { Storage } from '../config/storage.js';
 import { debugLogger } from '../utils/debugLogger.js';
+import {
+  applyHunks,
+  parseUnifiedDiff,
+  reverseHunk,
+} from '../utils/patchUtils.js';
+
+/** A commit in the shadow repository, i.e. one checkpoint snapshot. */
+export interface SnapshotInfo {
+  commitHash: string;
+  timestamp: Date;
+  message: string;
+}
+
+export type SnapshotFileStatus = 'added' | 'deleted' | 'modified';
+
+/**
+ * A file that differs between a snapshot and the working tree. `added` and
+ * `deleted` are relative to the snapshot, so an `added` file did not exist
+ * when the snapshot was taken.
+ */
+export interface SnapshotFileChange {
+  filePath: string;
+  status: SnapshotFileStatus;
+}
+
+const SNAPSHOT_STATUS_CODES: Record<string, SnapshotFileStatus> = {
+  A: 'added',
+  D: 'deleted',
+  M: 'modified',
+  T: 'modified',
+};
 
 export class GitService {
   private projectRoot: string;
@@ -155,4 +186,153 @@ export class GitService {
     // Removes any untracked files that were introduced post snapshot.
     await repo.clean('f', ['-d']);
   }
+
+  /**
+   * Lists the snapshots in the shadow repository, newest first. The empty
+   * commit created when the repository is initialized is not included.
+   */
+  async listSnapshots(): Promise<SnapshotInfo[]> {
+    const output = await this.shadowGitRepository.raw([
+      'log',
+      '--format=%H%x09%ct%x09%s',
+    ]);
+    const snapshots: SnapshotInfo[] = [];
+    for (const line of output.split('\n')) {
+      const [commitHash, seconds, ...rest] = line.split('\t');
+      if (!commitHash || !seconds) {
+        continue;
+      }
+      snapshots.push({
+        commitHash,
+        timestamp: new Date(parseInt(seconds, 10) * 1000),
+        message: rest.join('\t'),
+      });
+    }
+    // The root commit is the empty 'Initial commit'.
+    return snapshots.slice(0, -1);
+  }
+
+  /**
+   * Lists the files whose working tree content differs from a snapshot.
+   */
+  async getSnapshotChanges(commitHash: string): Promise<SnapshotFileChange[]> {
+    const repo = this.shadowGitRepository;
+    // Stage the working tree so untracked files are part of the comparison.
+    await repo.add('.');
+    const output = await repo.raw([
+      'diff',
+      '--cached',
+      '--name-status',
+      '--no-renames',
+      '-z',
+      commitHash,
+    ]);
+    const fields = output.split('\0');
+    const changes: SnapshotFileChange[] = [];
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+      changes.push({
+        filePath: fields[i + 1],
+        status: SNAPSHOT_STATUS_CODES[fields[i]] ?? 'modified',
+      });
+    }
+    return changes;
+  }
+
+  /**
+   * Returns a unified diff from the snapshot's version of a file to its
+   * current working tree version.
+   */
+  async getSnapshotFileDiff(
+    commitHash: string,
+    filePath: string,
+  ): Promise<string> {
+    const repo = this.shadowGitRepository;
+    await repo.add('.');
+    return repo.raw([
+      'diff',
+      '--cached',
+      '--no-renames',
+      commitHash,
+      '--',
+      filePath,
+    ]);
+  }
+
+  /**
+   * Restores a single file to its content in a snapshot. A file that did not
+   * exist when the snapshot was taken is removed.
+   */
+  async restoreFileFromSnapshot(
+    commitHash: string,
+    filePath: string,
+  ): Promise<void> {
+    const repo = this.shadowGitRepository;
+    if (await this.snapshotContainsFile(commitHash, filePath)) {
+      await repo.raw(['restore', '--source', commitHash, '--', filePath]);
+    } else {
+      await fs.rm(path.join(this.projectRoot, filePath), { force: true });
+    }
+  }
+
+  /**
+   * Reverts selected hunks of the diff between a snapshot and the working
+   * tree, leaving the rest of the file untouched.
+   *
+   * @param hunkIndices Indices into the hunks of `getSnapshotFileDiff`.
+   */
+  async restoreHunksFromSnapshot(
+    commitHash: string,
+    filePath: string,
+    hunkIndices: number[],
+  ): Promise<void> {
+    const diff = await this.getSnapshotFileDiff(commitHash, filePath);
+    const [filePatch] = parseUnifiedDiff(diff);
+    const hunks = filePatch?.hunks ?? [];
+    const selected = [...new Set(hunkIndices)].sort((a, b) => a - b);
+    if (selected.some((index) => index < 0 || index >= hunks.length)) {
+      throw new Error(
+        `Hunk selection is out of date for ${filePath}. Reload the diff and try again.`,
+      );
+    }
+
+    const absolutePath = path.join(this.projectRoot, filePath);
+    let content = '';
+    try {
+      content = await fs.readFile(absolutePath, 'utf-8');
+    } catch (error) {
+      if (!isNodeError(error) || error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    const restored = applyHunks(
+      content,
+      selected.map((index) => reverseHunk(hunks[index])),
+    );
+    if (
+      restored === '' &&
+      selected.length === hunks.length &&
+      !(await this.snapshotContainsFile(commitHash, filePath))
+    ) {
+      await fs.rm(absolutePath, { force: true });
+      return;
+    }
+    await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+    await fs.writeFile(absolutePath, restored);
+  }
+
+  private async snapshotContainsFile(
+    commitHash: string,
+    filePath: string,
+  ): Promise<boolean> {
+    try {
+      await this.shadowGitRepository.raw([
+        'cat-file',
+        '-e',
+        `${commitHash}:${filePath}`,
+      ]);
+      return true;
+    } catch (_error) {
+      return false;
+    }
+  }
 }
@@ -0,0 +1,175 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  LocalEmbedder,
+  SemanticIndexService,
+  chunkFile,
+  cosineSimilarity,
+  tokenize,
+} from './semanticIndexService.js';
+import type { Config } from '../config/config.js';
+import { FileDiscoveryService } from './fileDiscoveryService.js';
+
+describe('SemanticIndexService', () => {
+  let testDir: string;
+  let indexPath: string;
+  let config: Config;
+  let embedder: LocalEmbedder;
+
+  const writeFile = (relativePath: string, content: string) => {
+    const filePath = path.join(testDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  beforeEach(() => {
+    testDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'semantic-index-test-')),
+    );
+    indexPath = path.join(testDir, '.index', 'semantic_index.json');
+    fs.mkdirSync(path.join(testDir, '.git'));
+    writeFile('.gitignore', 'ignored/\n.index/\n');
+    writeFile(
+      'src/retry.ts',
+      'export function retryWithBackoff(request) {\n  // retry failed request with exponential backoff\n}\n',
+    );
+    writeFile(
+      'src/settings.ts',
+      'export function parseUserSettings(json) {\n  // parse the user settings file\n}\n',
+    );
+    writeFile('ignored/retry.ts', 'retry with backoff\n');
+
+    const fileService = new FileDiscoveryService(testDir);
+    config = {
+      getTargetDir: () => testDir,
+      getFileService: () => fileService,
+      getWorkspaceContext: () => ({ getDirectories: () => [testDir] }),
+    } as unknown as Config;
+    embedder = new LocalEmbedder();
+    vi.spyOn(embedder, 'embed');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should rank related chunks first and skip ignored files', async () => {
+    const service = new SemanticIndexService(config, embedder, indexPath);
+
+    const results = await service.search('retry backoff', { maxResults: 5 });
+
+    const filePaths = results.map((r) => path.relative(testDir, r.filePath));
+    expect(filePaths[0]).toBe(path.join('src', 'retry.ts'));
+    expect(filePaths).toHaveLength(3);
+    expect(filePaths).not.toContain(path.join('ignored', 'retry.ts'));
+    expect(results[0]).toMatchObject({ startLine: 1, endLine: 4 });
+    expect(results[0].content).toContain('retryWithBackoff');
+  });
+
+  it('should only re-embed files that changed', async () => {
+    const service = new SemanticIndexService(config, embedder, indexPath);
+    expect(await service.refresh()).toEqual({
+      indexedFiles: 3,
+      updatedFiles: 3,
+      removedFiles: 0,
+    });
+
+    writeFile('src/settings.ts', 'export const settings = {};\n');
+    fs.rmSync(path.join(testDir, 'src', 'retry.ts'));
+    vi.mocked(embedder.embed).mockClear();
+
+    expect(await service.refresh()).toEqual({
+      indexedFiles: 2,
+      updatedFiles: 1,
+      removedFiles: 1,
+    });
+    expect(embedder.embed).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reuse the index saved on disk', async () => {
+    await new SemanticIndexService(config, embedder, indexPath).refresh();
+    vi.mocked(embedder.embed).mockClear();
+
+    const stats = await new SemanticIndexService(
+      config,
+      embedder,
+      indexPath,
+    ).refresh();
+
+    expect(stats.updatedFiles).toBe(0);
+    expect(embedder.embed).not.toHaveBeenCalled();
+  });
+
+  it('should rebuild the index for a different embedder', async () => {
+    await new SemanticIndexService(config, embedder, indexPath).refresh();
+    const other = {
+      id: 'other',
+      embed: vi.fn(async (texts: string[]) => texts.map(() => [1, 0])),
+    };
+
+    const stats = await new SemanticIndexService(
+      config,
+      other,
+      indexPath,
+    ).refresh();
+
+    expect(stats.updatedFiles).toBe(3);
+  });
+
+  it('should restrict results to a directory', async () => {
+    const service = new SemanticIndexService(config, embedder, indexPath);
+
+    const results = await service.search('settings', {
+      maxResults: 5,
+      directory: path.join(testDir, 'src'),
+    });
+
+    expect(results).toHaveLength(2);
+    expect(path.basename(results[0].filePath)).toBe('settings.ts');
+  });
+});
+
+describe('chunkFile', () => {
+  it('should split content into line ranges and skip blank chunks', () => {
+    const lines = Array.from({ length: 100 }, (_, i) =>
+      i >= 40 && i < 80 ? '' : `line ${i + 1}`,
+    );
+
+    const chunks = chunkFile(lines.join('\n'));
+
+    expect(chunks.map((c) => [c.startLine, c.endLine])).toEqual([
+      [1, 40],
+      [81, 100],
+    ]);
+    expect(chunks[1].content.split('\n')[0]).toBe('line 81');
+  });
+});
+
+describe('tokenize', () => {
+  it('should split identifiers into words', () => {
+    expect(tokenize('parseHTTPRequest MAX_RETRY_COUNT x')).toEqual([
+      'parse',
+      'http',
+      'request',
+      'max',
+      'retry',
+      'count',
+    ]);
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('should handle zero vectors', () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBe(1);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+  });
+});
@@ -0,0 +1,432 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { Config } from '../config/config.js';
+import { crawl } from '../utils/filesearch/crawler.js';
+import { loadIgnoreRules } from '../utils/filesearch/ignore.js';
+import { detectFileType } from '../utils/fileUtils.js';
+import { debugLogger } from '../utils/debugLogger.js';
+import { isNodeError } from '../utils/errors.js';
+
+const INDEX_VERSION = 1;
+const CHUNK_LINES = 40;
+const MAX_CHUNK_CHARS = 4000;
+const MAX_FILE_SIZE_BYTES = 256 * 1024;
+const MAX_INDEXED_FILES = 20000;
+const EMBEDDING_BATCH_SIZE = 100;
+const LOCAL_EMBEDDING_DIMENSIONS = 512;
+
+export interface SemanticSearchSettings {
+  enabled?: boolean;
+  /**
+   * 'gemini' embeds with the configured embedding model, 'local' uses an
+   * offline hashing embedder.
+   */
+  embedder?: 'gemini' | 'local';
+}
+
+/**
+ * Turns text into vectors. Implementations must return one vector per input
+ * text, and vectors from the same embedder must be comparable by cosine
+ * similarity.
+ */
+export interface Embedder {
+  /**
+   * Identifies the embedding space. An index built by an embedder with a
+   * different id is discarded and rebuilt.
+   */
+  readonly id: string;
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+/**
+ * Embeds text with the configured embedding model through the
+ * `BaseLlmClient`.
+ */
+export class GeminiEmbedder implements Embedder {
+  constructor(private readonly config: Config) {}
+
+  get id(): string {
+    return `gemini:${this.config.getEmbeddingModel()}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return this.config.getBaseLlmClient().generateEmbedding(texts);
+  }
+}
+
+/**
+ * Splits identifiers such as `parseHttpRequest` or `MAX_RETRY_COUNT` into
+ * lowercase words.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1);
+}
+
+/**
+ * An offline embedder that hashes words and word pairs into a fixed number of
+ * dimensions. It only captures shared vocabulary, but needs no network access
+ * or model download.
+ */
+export class LocalEmbedder implements Embedder {
+  readonly id = `local:hash-${LOCAL_EMBEDDING_DIMENSIONS}`;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(LOCAL_EMBEDDING_DIMENSIONS).fill(0);
+    const tokens = tokenize(text);
+    const features = [
+      ...tokens,
+      ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`),
+    ];
+    for (const feature of features) {
+      const hash = crypto.createHash('md5').update(feature).digest();
+      const index = hash.readUInt32LE(0) % LOCAL_EMBEDDING_DIMENSIONS;
+      vector[index] += hash[4] & 1 ? 1 : -1;
+    }
+    return vector;
+  }
+}
+
+export interface CodeChunk {
+  startLine: number;
+  endLine: number;
+  content: string;
+}
+
+/**
+ * Splits a file into chunks of whole lines, skipping chunks that contain
+ * only whitespace. Line numbers are 1-based.
+ */
+export function chunkFile(content: string): CodeChunk[] {
+  const lines = content.split(/\r?\n/);
+  const chunks: CodeChunk[] = [];
+  for (let start = 0; start < lines.length; start += CHUNK_LINES) {
+    const chunkLines = lines.slice(start, start + CHUNK_LINES);
+    const chunkContent = chunkLines.join('\n');
+    if (chunkContent.trim() === '') {
+      continue;
+    }
+    chunks.push({
+      startLine: start + 1,
+      endLine: start + chunkLines.length,
+      content: chunkContent,
+    });
+  }
+  return chunks;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+interface IndexedChunk {
+  startLine: number;
+  endLine: number;
+  vector: number[];
+}
+
+interface IndexedFile {
+  mtimeMs: number;
+  size: number;
+  chunks: IndexedChunk[];
+}
+
+interface SemanticIndexFile {
+  version: number;
+  embedderId: string;
+  /** Indexed files keyed by absolute path. */
+  files: Record<string, IndexedFile>;
+}
+
+export interface SemanticSearchResult {
+  filePath: string;
+  startLine: number;
+  endLine: number;
+  score: number;
+  content: string;
+}
+
+export interface SemanticSearchOptions {
+  maxResults: number;
+  /** Only return results from files inside this directory. */
+  directory?: string;
+  signal?: AbortSignal;
+}
+
+export interface IndexRefreshStats {
+  indexedFiles: number;
+  updatedFiles: number;
+  removedFiles: number;
+}
+
+/**
+ * Maintains an on-disk index of embedded code chunks for the workspace.
+ * Refreshes are incremental: only files whose modification time or size
+ * changed since the last refresh are re-embedded.
+ */
+export class SemanticIndexService {
+  private index: SemanticIndexFile | undefined;
+  private refreshPromise: Promise<IndexRefreshStats> | undefined;
+
+  constructor(
+    private readonly config: Config,
+    private readonly embedder: Embedder,
+    private readonly indexPath: string,
+  ) {}
+
+  /**
+   * Brings the index up to date with the workspace. Concurrent callers share
+   * the same refresh.
+   */
+  refresh(signal?: AbortSignal): Promise<IndexRefreshStats> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.doRefresh(signal).finally(() => {
+        this.refreshPromise = undefined;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  async search(
+    query: string,
+    options: SemanticSearchOptions,
+  ): Promise<SemanticSearchResult[]> {
+    await this.refresh(options.signal);
+    const index = await this.loadIndex();
+    const [queryVector] = await this.embedder.embed([query], options.signal);
+
+    const directory = options.directory
+      ? path.resolve(options.directory) + path.sep
+      : undefined;
+    const scored: Array<Omit<SemanticSearchResult, 'content'>> = [];
+    for (const [filePath, file] of Object.entries(index.files)) {
+      if (directory && !filePath.startsWith(directory)) {
+        continue;
+      }
+      for (const chunk of file.chunks) {
+        scored.push({
+          filePath,
+          startLine: chunk.startLine,
+          endLine: chunk.endLine,
+          score: cosineSimilarity(queryVector, chunk.vector),
+        });
+      }
+    }
+    scored.sort((a, b) => b.score - a.score);
+
+    const results: SemanticSearchResult[] = [];
+    for (const result of scored.slice(0, options.maxResults)) {
+      const content = await this.readLines(
+        result.filePath,
+        result.startLine,
+        result.endLine,
+      );
+      if (content !== undefined) {
+        results.push({ ...result, content });
+      }
+    }
+    return results;
+  }
+
+  private async doRefresh(signal?: AbortSignal): Promise<IndexRefreshStats> {
+    const index = await this.loadIndex();
+    const filePaths = await this.listFiles();
+    const seen = new Set<string>();
+    let updatedFiles = 0;
+
+    for (const filePath of filePaths) {
+      signal?.throwIfAborted();
+      seen.add(filePath);
+      let stats;
+      try {
+        stats = await fs.stat(filePath);
+      } catch {
+        continue;
+      }
+      const existing = index.files[filePath];
+      if (
+        existing &&
+        existing.mtimeMs === stats.mtimeMs &&
+        existing.size === stats.size
+      ) {
+        continue;
+      }
+      if (
+        stats.size > MAX_FILE_SIZE_BYTES ||
+        (await detectFileType(filePath)) !== 'text'
+      ) {
+        delete index.files[filePath];
+        continue;
+      }
+
+      const content = await fs.readFile(filePath, 'utf-8');
+      const chunks = chunkFile(content);
+      const relativePath = path.relative(this.config.getTargetDir(), filePath);
+      const vectors = await this.embedBatched(
+        chunks.map((chunk) =>
+          `File: ${relativePath}\n${chunk.content}`.slice(0, MAX_CHUNK_CHARS),
+        ),
+        signal,
+      );
+      index.files[filePath] = {
+        mtimeMs: stats.mtimeMs,
+        size: stats.size,
+        chunks: chunks.map((chunk, i) => ({
+          startLine: chunk.startLine,
+          endLine: chunk.endLine,
+          vector: vectors[i],
+        })),
+      };
+      updatedFiles++;
+    }
+
+    let removedFiles = 0;
+    for (const filePath of Object.keys(index.files)) {
+      if (!seen.has(filePath)) {
+        delete index.files[filePath];
+        removedFiles++;
+      }
+    }
+
+    if (updatedFiles > 0 || removedFiles > 0) {
+      await this.saveIndex(index);
+    }
+    return {
+      indexedFiles: Object.keys(index.files).length,
+      updatedFiles,
+      removedFiles,
+    };
+  }
+
+  private async embedBatched(
+    texts: string[],
+    signal?: AbortSignal,
+  ): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      signal?.throwIfAborted();
+      vectors.push(
+        ...(await this.embedder.embed(
+          texts.slice(i, i + EMBEDDING_BATCH_SIZE),
+          signal,
+        )),
+      );
+    }
+    return vectors;
+  }
+
+  /**
+   * Lists the files of every workspace directory, respecting the ignore
+   * rules of the `FileDiscoveryService`.
+   */
+  private async listFiles(): Promise<string[]> {
+    const fileService = this.config.getFileService();
+    const ignore = loadIgnoreRules(fileService);
+    const filePaths: string[] = [];
+    for (const directory of this.config
+      .getWorkspaceContext()
+      .getDirectories()) {
+      const entries = await crawl({
+        crawlDirectory: directory,
+        cwd: directory,
+        ignore,
+        cache: false,
+        cacheTtl: 0,
+        maxFiles: MAX_INDEXED_FILES - filePaths.length,
+      });
+      const files = fileService.filterFiles(
+        entries.filter((entry) => entry !== '.' && !entry.endsWith('/')),
+      );
+      const fileFilter = ignore.getFileFilter();
+      for (const file of files) {
+        if (!fileFilter(file)) {
+          filePaths.push(path.resolve(directory, file));
+        }
+      }
+      if (filePaths.length >= MAX_INDEXED_FILES) {
+        debugLogger.warn(
+          `Semantic index is limited to ${MAX_INDEXED_FILES} files.`,
+        );
+        break;
+      }
+    }
+    return filePaths;
+  }
+
+  private async readLines(
+    filePath: string,
+    startLine: number,
+    endLine: number,
+  ): Promise<string | undefined> {
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      return content
+        .split(/\r?\n/)
+        .slice(startLine - 1, endLine)
+        .join('\n');
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async loadIndex(): Promise<SemanticIndexFile> {
+    if (this.index) {
+      return this.index;
+    }
+    const empty: SemanticIndexFile = {
+      version: INDEX_VERSION,
+      embedderId: this.embedder.id,
+      files: {},
+    };
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+      const stored = JSON.parse(
+        await fs.readFile(this.indexPath, 'utf-8'),
+      ) as SemanticIndexFile;
+      this.index =
+        stored.version === INDEX_VERSION &&
+        stored.embedderId === this.embedder.id &&
+        stored.files
+          ? stored
+          : empty;
+    } catch (error) {
+      if (!isNodeError(error) || error.code !== 'ENOENT') {
+        debugLogger.warn('Failed to read the semantic index:', error);
+      }
+      this.index = empty;
+    }
+    return this.index;
+  }
+
+  private async saveIndex(index: SemanticIndexFile): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(this.indexPath), { recursive: true });
+      await fs.writeFile(this.indexPath, JSON.stringify(index));
+    } catch (error) {
+      debugLogger.warn('Failed to save the semantic index:', error);
+    }
+  }
+}
@@ -12,6 +12,7 @@ import {
   beforeEach,
   afterEach,
   type Mock,
+  type MockInstance,
 } from 'vitest';
 import EventEmitter from 'node:events';
 import type { Readable } from 'node:stream';
@@ -432,13 +433,21 @@ describe('ShellExecutionService', () => {
   });
 
   describe('pty interaction', () => {
+    let activePtysGetSpy: MockInstance;
+
     beforeEach(() => {
-      vi.spyOn(ShellExecutionService['activePtys'], 'get').mockReturnValue({
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        ptyProcess: mockPtyProcess as any,
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        headlessTerminal: mockHeadlessTerminal as any,
-      });
+      activePtysGetSpy = vi
+        .spyOn(ShellExecutionService['activePtys'], 'get')
+        .mockReturnValue({
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          ptyProcess: mockPtyProcess as any,
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          headlessTerminal: mockHeadlessTerminal as any,
+        });
+    });
+
+    afterEach(() => {
+      activePtysGetSpy.mockRestore();
     });
 
     it('should write to the pty and trigger a render', async () => {
@@ -753,6 +762,61 @@ describe('ShellExecutionService', () => {
     });
   });
 
+  describe('Sandbox', () => {
+    it('should spawn the command wrapped by the sandbox', async () => {
+      const sandbox = {
+        name: 'test',
+        wrap: vi.fn().mockResolvedValue({
+          executable: 'docker',
+          args: ['exec', 'box', 'bash', '-c', 'ls'],
+        }),
+        dispose: vi.fn(),
+      };
+      await simulateExecution(
+        'ls',
+        (pty) => pty.onExit.mock.calls[0][0]({ exitCode: 0, signal: null }),
+        { ...shellExecutionConfig, sandbox },
+      );
+
+      expect(sandbox.wrap).toHaveBeenCalledWith(
+        'bash',
+        ['-c', 'shopt -u promptvars nullglob extglob nocaseglob dotglob; ls'],
+        '/test/dir',
+        true,
+      );
+      expect(mockPtySpawn).toHaveBeenCalledWith(
+        'docker',
+        ['exec', 'box', 'bash', '-c', 'ls'],
+        expect.objectContaining({ cwd: '/test/dir' }),
+      );
+    });
+
+    it('should stop the command inside the sandbox on abort', async () => {
+      const kill = vi.fn().mockResolvedValue(undefined);
+      const sandbox = {
+        name: 'test',
+        wrap: vi.fn().mockResolvedValue({
+          executable: 'docker',
+          args: ['exec', 'box', 'bash', '-c', 'sleep 10'],
+          kill,
+        }),
+        dispose: vi.fn(),
+      };
+      const { result } = await simulateExecution(
+        'sleep 10',
+        async (pty, abortController) => {
+          abortController.abort();
+          await vi.waitFor(() => expect(kill).toHaveBeenCalled());
+          pty.onExit.mock.calls[0][0]({ exitCode: 1, signal: null });
+        },
+        { ...shellExecutionConfig, sandbox },
+      );
+
+      expect(result.aborted).toBe(true);
+      expect(kill).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('AnsiOutput rendering', () => {
     it('should call onOutputEvent with AnsiOutput when showColor is true', async () => {
       const coloredShellExecutionConfig = {
@@ -1276,6 +1340,103 @@ describe('ShellExecutionService child_process fallback', () => {
       );
     });
   });
+
+  describe('Sandbox', () => {
+    it('should spawn the command wrapped by the sandbox without a tty', async () => {
+      const sandbox = {
+        name: 'test',
+        wrap: vi.fn().mockResolvedValue({
+          executable: 'docker',
+          args: ['exec', 'box', 'bash', '-c', 'ls'],
+        }),
+        dispose: vi.fn(),
+      };
+      const handle = await ShellExecutionService.execute(
+        'ls',
+        '/test/dir',
+        onOutputEventMock,
+        new AbortController().signal,
+        false,
+        { ...shellExecutionConfig, sandbox },
+      );
+      mockChildProcess.emit('exit', 0, null);
+      mockChildProcess.emit('close', 0, null);
+      await handle.result;
+
+      expect(sandbox.wrap).toHaveBeenCalledWith(
+        'bash',
+        ['-c', 'shopt -u promptvars nullglob extglob nocaseglob dotglob; ls'],
+        '/test/dir',
+        false,
+      );
+      expect(mockCpSpawn).toHaveBeenCalledWith(
+        'docker',
+        ['exec', 'box', 'bash', '-c', 'ls'],
+        expect.objectContaining({ cwd: '/test/dir' }),
+      );
+    });
+
+    it('should stop the command inside the sandbox when killed', async () => {
+      const kill = vi.fn().mockResolvedValue(undefined);
+      const sandbox = {
+        name: 'test',
+        wrap: vi.fn().mockResolvedValue({
+          executable: 'docker',
+          args: ['exec', 'box', 'bash', '-c', 'npm run dev'],
+          kill,
+        }),
+        dispose: vi.fn(),
+      };
+      const handle = await ShellExecutionService.execute(
+        'npm run dev',
+        '/test/dir',
+        onOutputEventMock,
+        new AbortController().signal,
+        false,
+        { ...shellExecutionConfig, sandbox },
+      );
+
+      ShellExecutionService.kill(handle.pid!);
+
+      expect(kill).toHaveBeenCalledTimes(1);
+      mockChildProcess.emit('exit', null, 'SIGTERM');
+      mockChildProcess.emit('close', null, 'SIGTERM');
+    });
+  });
+
+  describe('Background Output', () => {
+    it('should only expose the output of backgrounded processes', async () => {
+      const { result } = await simulateExecution('npm run dev', (cp) => {
+        cp.stdout?.emit('data', Buffer.from('starting\n'));
+        expect(
+          ShellExecutionService.getBackgroundOutput(12345),
+        ).toBeUndefined();
+        ShellExecutionService.background(12345);
+      });
+      expect(result.backgrounded).toBe(true);
+
+      mockChildProcess.stdout?.emit(
+        'data',
+        Buffer.from('\u001b[32mlistening\u001b[0m on 3000\n'),
+      );
+      expect(ShellExecutionService.getBackgroundOutput(12345)).toEqual({
+        output: 'starting\nlistening on 3000\n',
+        acceptsInput: false,
+        exited: false,
+        exitCode: null,
+        signal: null,
+      });
+
+      mockChildProcess.emit('exit', null, 'SIGTERM');
+      expect(ShellExecutionService.getBackgroundOutput(12345)).toEqual({
+        output: 'starting\nlistening on 3000\n',
+        acceptsInput: false,
+        exited: true,
+        exitCode: null,
+        signal: 15,
+      });
+    });
+  });
 });
 
 describe('ShellExecutionService execution method selection', () => {
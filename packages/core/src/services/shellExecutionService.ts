@@ -83,6 +83,43 @@ export interface ShellExecutionHandle {
   result: Promise<ShellExecutionResult>;
 }
 
+/**
+ * A shell invocation prepared to run in a sandbox.
+ */
+export interface SandboxedCommand {
+  executable: string;
+  args: string[];
+  /**
+   * Stops the invocation inside the sandbox, for sandboxes where killing the
+   * local process does not stop it (e.g. `docker exec`).
+   */
+  kill?: () => Promise<void>;
+}
+
+/**
+ * Runs shell invocations in an isolated sandbox instead of directly on the
+ * host. A sandbox may be reused across invocations.
+ */
+export interface ShellSandbox {
+  /** The kind of sandbox, e.g. `docker` or `bwrap`. */
+  readonly name: string;
+
+  /**
+   * Returns the executable and arguments that run `executable` with `args` in
+   * `cwd` inside the sandbox. `tty` is true if the invocation runs in a
+   * pseudo-terminal.
+   */
+  wrap(
+    executable: string,
+    args: string[],
+    cwd: string,
+    tty: boolean,
+  ): Promise<SandboxedCommand>;
+
+  /** Stops the sandbox and releases its resources. */
+  dispose(): Promise<void>;
+}
+
 export interface ShellExecutionConfig {
   terminalWidth?: number;
   terminalHeight?: number;
@@ -95,6 +132,8 @@ export interface ShellExecutionConfig {
   disableDynamicLineTrimming?: boolean;
   scrollback?: number;
   maxSerializedLines?: number;
+  /** The sandbox to run the command in. Without one, it runs on the host. */
+  sandbox?: ShellSandbox;
 }
 
 /**
@@ -126,6 +165,26 @@ export type ShellOutputEvent =
       signal: number | null;
     };
 
+/**
+ * A plain-text snapshot of the output of a process that was moved to the
+ * background.
+ */
+export interface BackgroundProcessOutput {
+  /** The output so far, with ANSI escape codes removed. */
+  output: string;
+  /** Whether the process reads input written with `writeToPty`. */
+  acceptsInput: boolean;
+  /** Whether the process has exited. */
+  exited: boolean;
+  /** The exit code, once the process has exited normally. */
+  exitCode: number | null;
+  /** The signal that terminated the process, if any. */
+  signal: number | null;
+}
+
+/** The number of exited background processes whose output is kept. */
+const MAX_EXITED_BACKGROUND_OUTPUTS = 20;
+
 interface ActivePty {
   ptyProcess: IPty;
   headlessTerminal: pkg.Terminal;
@@ -199,6 +258,12 @@ export class ShellExecutionService {
     number,
     Set<(event: ShellOutputEvent) => void>
   >();
+  private static sandboxKillers = new Map<number, () => Promise<void>>();
+  private static backgroundPids = new Set<number>();
+  private static exitedBackgroundOutputs = new Map<
+    number,
+    BackgroundProcessOutput
+  >();
   /**
    * Executes a shell command using `node-pty`, capturing all output and lifecycle events.
    *
@@ -241,6 +306,7 @@ export class ShellExecutionService {
       onOutputEvent,
       abortSignal,
       shellExecutionConfig.sanitizationConfig,
+      shellExecutionConfig.sandbox,
     );
   }
 
@@ -281,18 +347,30 @@ export class ShellExecutionService {
     }
   }
 
-  private static childProcessFallback(
+  private static async childProcessFallback(
     commandToExecute: string,
     cwd: string,
     onOutputEvent: (event: ShellOutputEvent) => void,
     abortSignal: AbortSignal,
     sanitizationConfig: EnvironmentSanitizationConfig,
-  ): ShellExecutionHandle {
+    sandbox: ShellSandbox | undefined,
+  ): Promise<ShellExecutionHandle> {
     try {
       const isWindows = os.platform() === 'win32';
-      const { executable, argsPrefix, shell } = getShellConfiguration();
+      const {
+        executable: shellExecutable,
+        argsPrefix,
+        shell,
+      } = getShellConfiguration();
       const guardedCommand = ensurePromptvarsDisabled(commandToExecute, shell);
-      const spawnArgs = [...argsPrefix, guardedCommand];
+      const shellArgs = [...argsPrefix, guardedCommand];
+      const {
+        executable,
+        args: spawnArgs,
+        kill: killInSandbox,
+      }: SandboxedCommand = sandbox
+        ? await sandbox.wrap(shellExecutable, shellArgs, cwd, false)
+        : { executable: shellExecutable, args: shellArgs };
 
       const child = cpSpawn(executable, spawnArgs, {
         cwd,
@@ -320,6 +398,9 @@ export class ShellExecutionService {
           process: child,
           state,
         });
+        if (killInSandbox) {
+          this.sandboxKillers.set(child.pid, killInSandbox);
+        }
       }
 
       const result = new Promise<ShellExecutionResult>((resolve) => {
@@ -418,6 +499,13 @@ export class ShellExecutionService {
           const exitSignal = signal ? os.constants.signals[signal] : null;
 
           if (child.pid) {
+            ShellExecutionService.recordBackgroundExit(child.pid, {
+              output: stripAnsi(state.output),
+              acceptsInput: false,
+              exited: true,
+              exitCode,
+              signal: exitSignal,
+            });
             const event: ShellOutputEvent = {
               type: 'exit',
               exitCode,
@@ -427,6 +515,7 @@ export class ShellExecutionService {
             ShellExecutionService.emitEvent(child.pid, event);
 
             this.activeChildProcesses.delete(child.pid);
+            this.sandboxKillers.delete(child.pid);
             this.activeResolvers.delete(child.pid);
             this.activeListeners.delete(child.pid);
           }
@@ -452,11 +541,14 @@ export class ShellExecutionService {
 
         const abortHandler = async () => {
           if (child.pid && !exited) {
-            await killProcessGroup({
-              pid: child.pid,
-              escalate: true,
-              isExited: () => exited,
-            });
+            await Promise.all([
+              this.killInSandbox(child.pid),
+              killProcessGroup({
+                pid: child.pid,
+                escalate: true,
+                isExited: () => exited,
+              }),
+            ]);
           }
         };
 
@@ -553,9 +645,21 @@ export class ShellExecutionService {
       }
 
       const guardedCommand = ensurePromptvarsDisabled(commandToExecute, shell);
-      const args = [...argsPrefix, guardedCommand];
+      const shellArgs = [...argsPrefix, guardedCommand];
+      const {
+        executable: spawnExecutable,
+        args,
+        kill: killInSandbox,
+      }: SandboxedCommand = shellExecutionConfig.sandbox
+        ? await shellExecutionConfig.sandbox.wrap(
+            executable,
+            shellArgs,
+            cwd,
+            true,
+          )
+        : { executable, args: shellArgs };
 
-      const ptyProcess = ptyInfo.module.spawn(executable, args, {
+      const ptyProcess = ptyInfo.module.spawn(spawnExecutable, args, {
         cwd,
         name: 'xterm-256color',
         cols,
@@ -589,6 +693,9 @@ export class ShellExecutionService {
           headlessTerminal,
           maxSerializedLines: shellExecutionConfig.maxSerializedLines,
         });
+        if (killInSandbox) {
+          this.sandboxKillers.set(ptyProcess.pid, killInSandbox);
+        }
 
         let processingChain = Promise.resolve();
         let decoder: TextDecoder | null = null;
@@ -777,6 +884,7 @@ export class ShellExecutionService {
             exited = true;
             abortSignal.removeEventListener('abort', abortHandler);
             this.activePtys.delete(ptyProcess.pid);
+            this.sandboxKillers.delete(ptyProcess.pid);
             // Attempt to destroy the PTY to ensure FD is closed
             try {
               // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
@@ -799,6 +907,13 @@ export class ShellExecutionService {
 
               this.activePtys.delete(ptyProcess.pid);
               this.activeResolvers.delete(ptyProcess.pid);
+              this.recordBackgroundExit(ptyProcess.pid, {
+                output: getFullBufferText(headlessTerminal),
+                acceptsInput: false,
+                exited: true,
+                exitCode,
+                signal: signal ?? null,
+              });
 
               const event: ShellOutputEvent = {
                 type: 'exit',
@@ -848,12 +963,15 @@ export class ShellExecutionService {
 
         const abortHandler = async () => {
           if (ptyProcess.pid && !exited) {
-            await killProcessGroup({
-              pid: ptyProcess.pid,
-              escalate: true,
-              isExited: () => exited,
-              pty: ptyProcess,
-            });
+            await Promise.all([
+              this.killInSandbox(ptyProcess.pid),
+              killProcessGroup({
+                pid: ptyProcess.pid,
+                escalate: true,
+                isExited: () => exited,
+                pty: ptyProcess,
+              }),
+            ]);
           }
         };
 
@@ -976,6 +1094,16 @@ export class ShellExecutionService {
     }
   }
 
+  /**
+   * Stops what a sandbox runs for the process `pid`, if the sandbox needs to
+   * be told.
+   */
+  private static async killInSandbox(pid: number): Promise<void> {
+    const kill = this.sandboxKillers.get(pid);
+    this.sandboxKillers.delete(pid);
+    await kill?.();
+  }
+
   /**
    * Kills a process by its PID.
    *
@@ -984,6 +1112,7 @@ export class ShellExecutionService {
   static kill(pid: number): void {
     const activePty = this.activePtys.get(pid);
     const activeChild = this.activeChildProcesses.get(pid);
+    this.killInSandbox(pid).catch(() => {});
 
     if (activeChild) {
       killProcessGroup({ pid }).catch(() => {});
@@ -1042,6 +1171,58 @@ export class ShellExecutionService {
       }
 
       this.activeResolvers.delete(pid);
+      this.backgroundPids.add(pid);
+    }
+  }
+
+  /**
+   * Returns the plain-text output of a process that was moved to the
+   * background. The output of exited processes is kept for the most recent
+   * few processes.
+   *
+   * @param pid The process ID of the background process.
+   * @returns The output snapshot, or undefined if the process is unknown.
+   */
+  static getBackgroundOutput(pid: number): BackgroundProcessOutput | undefined {
+    if (!this.backgroundPids.has(pid)) {
+      return this.exitedBackgroundOutputs.get(pid);
+    }
+
+    const activePty = this.activePtys.get(pid);
+    if (activePty) {
+      return {
+        output: getFullBufferText(activePty.headlessTerminal),
+        acceptsInput: true,
+        exited: false,
+        exitCode: null,
+        signal: null,
+      };
+    }
+    const activeChild = this.activeChildProcesses.get(pid);
+    if (activeChild) {
+      return {
+        output: stripAnsi(activeChild.state.output),
+        // Child processes are spawned with stdin ignored.
+        acceptsInput: false,
+        exited: false,
+        exitCode: null,
+        signal: null,
+      };
+    }
+    return undefined;
+  }
+
+  private static recordBackgroundExit(
+    pid: number,
+    output: BackgroundProcessOutput,
+  ): void {
+    if (!this.backgroundPids.delete(pid)) {
+      return;
+    }
+    this.exitedBackgroundOutputs.set(pid, output);
+    if (this.exitedBackgroundOutputs.size > MAX_EXITED_BACKGROUND_OUTPUTS) {
+      const [oldestPid] = this.exitedBackgroundOutputs.keys();
+      this.exitedBackgroundOutputs.delete(oldestPid);
     }
   }
 
@@ -0,0 +1,160 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { simpleGit } from 'simple-git';
+import { WorktreeService } from './worktreeService.js';
+
+describe('WorktreeService', () => {
+  let repoRoot: string;
+
+  const git = (dir = repoRoot) => simpleGit(dir);
+
+  beforeEach(async () => {
+    repoRoot = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'worktree-service-test-')),
+    );
+    await git().init(false, { '--initial-branch': 'main' });
+    await git().addConfig('user.name', 'Test');
+    await git().addConfig('user.email', 'test@example.com');
+    await git().addConfig('commit.gpgsign', 'false');
+    fs.mkdirSync(path.join(repoRoot, 'src'));
+    fs.writeFileSync(path.join(repoRoot, 'src', 'index.ts'), 'one\n');
+    await git().add('.');
+    await git().commit('Initial commit');
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoRoot, { recursive: true, force: true });
+  });
+
+  it('should create a worktree on a new branch and keep the relative cwd', async () => {
+    const service = await WorktreeService.create(
+      path.join(repoRoot, 'src'),
+      'feature',
+    );
+
+    const { session } = service;
+    expect(session.repoRoot).toBe(repoRoot);
+    expect(session.worktreePath).toBe(
+      path.join(repoRoot, '.gemini', 'worktrees', 'feature'),
+    );
+    expect(session.workingDir).toBe(path.join(session.worktreePath, 'src'));
+    expect(session.branch).toBe('gemini/worktree-feature');
+    expect(session.baseBranch).toBe('main');
+    expect(session.gitCommonDir).toBe(path.join(repoRoot, '.git'));
+    expect(fs.existsSync(path.join(session.workingDir, 'index.ts'))).toBe(true);
+    expect(service.isActive()).toBe(true);
+
+    expect(
+      fs.readFileSync(path.join(repoRoot, '.git', 'info', 'exclude'), 'utf-8'),
+    ).toContain('/.gemini/worktrees/\n');
+    expect((await git().status()).isClean()).toBe(true);
+  });
+
+  it('should resume an existing worktree session with the same name', async () => {
+    const first = await WorktreeService.create(repoRoot, 'resume');
+    fs.writeFileSync(path.join(first.session.worktreePath, 'new.ts'), 'x\n');
+
+    const resumed = await WorktreeService.create(repoRoot, 'resume');
+
+    expect(resumed.session).toEqual(first.session);
+    expect((await resumed.getSummary()).changedFiles).toEqual(['new.ts']);
+  });
+
+  it('should reject invalid names and non-repositories', async () => {
+    await expect(WorktreeService.create(repoRoot, '../escape')).rejects.toThrow(
+      "Invalid worktree name '../escape'",
+    );
+
+    const plainDir = fs.mkdtempSync(path.join(os.tmpdir(), 'not-a-repo-'));
+    try {
+      await expect(WorktreeService.create(plainDir, 'x')).rejects.toThrow(
+        '--worktree can only be used inside a git repository.',
+      );
+    } finally {
+      fs.rmSync(plainDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should summarize modified and untracked files', async () => {
+    const service = await WorktreeService.create(repoRoot, 'summary');
+    const { worktreePath } = service.session;
+    fs.writeFileSync(path.join(worktreePath, 'src', 'index.ts'), 'two\n');
+    fs.writeFileSync(path.join(worktreePath, 'new.ts'), 'new\n');
+
+    const summary = await service.getSummary();
+
+    expect(summary.changedFiles).toEqual(['new.ts', 'src/index.ts']);
+    expect(summary.diffStat).toContain('2 files changed');
+  });
+
+  it('should merge the changes and remove the worktree and branch', async () => {
+    const service = await WorktreeService.create(repoRoot, 'merge');
+    fs.writeFileSync(
+      path.join(service.session.worktreePath, 'src', 'index.ts'),
+      'merged\n',
+    );
+
+    await service.merge();
+
+    expect(service.isActive()).toBe(false);
+    expect(
+      fs.readFileSync(path.join(repoRoot, 'src', 'index.ts'), 'utf-8'),
+    ).toBe('merged\n');
+    expect((await git().branchLocal()).all).toEqual(['main']);
+  });
+
+  it('should keep the branch when the merge fails', async () => {
+    const service = await WorktreeService.create(repoRoot, 'conflict');
+    fs.writeFileSync(
+      path.join(service.session.worktreePath, 'src', 'index.ts'),
+      'theirs\n',
+    );
+    fs.writeFileSync(path.join(repoRoot, 'src', 'index.ts'), 'ours\n');
+    await git().commit('Conflicting change', ['src/index.ts']);
+
+    await expect(service.merge()).rejects.toThrow(
+      'The changes were kept on that branch.',
+    );
+
+    expect(service.isActive()).toBe(false);
+    expect((await git().status()).isClean()).toBe(true);
+    expect((await git().branchLocal()).all).toContain(
+      'gemini/worktree-conflict',
+    );
+  });
+
+  it('should keep the branch with the pending changes committed', async () => {
+    const service = await WorktreeService.create(repoRoot, 'keep');
+    fs.writeFileSync(path.join(service.session.worktreePath, 'new.ts'), 'x\n');
+
+    await service.keepBranch();
+
+    expect(service.isActive()).toBe(false);
+    const files = await git().raw([
+      'show',
+      '--name-only',
+      '--format=',
+      'gemini/worktree-keep',
+    ]);
+    expect(files.trim()).toBe('new.ts');
+  });
+
+  it('should discard the worktree and its branch', async () => {
+    const service = await WorktreeService.create(repoRoot, 'discard');
+    fs.writeFileSync(path.join(service.session.worktreePath, 'new.ts'), 'x\n');
+
+    await service.discard();
+
+    expect(service.isActive()).toBe(false);
+    expect(fs.existsSync(path.join(repoRoot, 'new.ts'))).toBe(false);
+    expect((await git().branchLocal()).all).toEqual(['main']);
+  });
+});
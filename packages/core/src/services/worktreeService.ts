@@ -0,0 +1,262 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { SimpleGit } from 'simple-git';
+import { simpleGit } from 'simple-git';
+import { getErrorMessage } from '../utils/errors.js';
+import { GEMINI_DIR } from '../utils/paths.js';
+
+/** Directory, relative to the repository root, that holds session worktrees. */
+export const WORKTREES_DIR = path.join(GEMINI_DIR, 'worktrees');
+
+/** Prefix of the branches created for worktree sessions. */
+export const WORKTREE_BRANCH_PREFIX = 'gemini/worktree-';
+
+const WORKTREE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/**
+ * A session that runs in its own `git worktree` on a dedicated branch, so
+ * that several sessions can edit the same repository at the same time.
+ */
+export interface WorktreeSession {
+  name: string;
+  /** Root of the repository the worktree was created from. */
+  repoRoot: string;
+  /** Root of the worktree checkout. */
+  worktreePath: string;
+  /**
+   * Directory inside the worktree that corresponds to the directory the
+   * session was started from.
+   */
+  workingDir: string;
+  branch: string;
+  /** Branch checked out in `repoRoot` when the session started. */
+  baseBranch: string;
+  baseCommit: string;
+  /**
+   * The repository's shared git directory. The worktree's index and refs live
+   * there, so it has to stay writable, e.g. inside a sandbox.
+   */
+  gitCommonDir: string;
+}
+
+export interface WorktreeSummary {
+  /** Files that differ from the commit the worktree was created from. */
+  changedFiles: string[];
+  /** Output of `git diff --stat` against the base commit. */
+  diffStat: string;
+}
+
+/**
+ * Creates and finishes worktree sessions.
+ *
+ * Changes made in the worktree can be merged back into the branch the session
+ * started from, discarded, or kept on the session branch for later.
+ */
+export class WorktreeService {
+  constructor(readonly session: WorktreeSession) {}
+
+  /**
+   * Creates a worktree named `name` on a new branch from the current `HEAD`
+   * of the repository containing `cwd`. If a worktree session with that name
+   * already exists, it is resumed instead.
+   */
+  static async create(cwd: string, name: string): Promise<WorktreeService> {
+    if (!WORKTREE_NAME_PATTERN.test(name)) {
+      throw new Error(
+        `Invalid worktree name '${name}'. Use letters, digits, '.', '_' and '-' only.`,
+      );
+    }
+
+    const git = simpleGit(cwd);
+    if (!(await git.checkIsRepo())) {
+      throw new Error('--worktree can only be used inside a git repository.');
+    }
+
+    const repoRoot = fs.realpathSync(
+      (await git.revparse(['--show-toplevel'])).trim(),
+    );
+    const repo = simpleGit(repoRoot);
+    const gitCommonDir = path.resolve(
+      repoRoot,
+      (await repo.revparse(['--git-common-dir'])).trim(),
+    );
+    try {
+      await repo.revparse(['--verify', 'HEAD']);
+    } catch (error) {
+      throw new Error(
+        `Cannot create a worktree from a repository without commits: ${getErrorMessage(error)}`,
+      );
+    }
+    const baseBranch = (await repo.revparse(['--abbrev-ref', 'HEAD'])).trim();
+
+    const worktreePath = path.join(repoRoot, WORKTREES_DIR, name);
+    const branch = `${WORKTREE_BRANCH_PREFIX}${name}`;
+    if (fs.existsSync(worktreePath)) {
+      const worktrees = await repo.raw(['worktree', 'list', '--porcelain']);
+      const isSession = worktrees
+        .split('\n\n')
+        .some(
+          (entry) =>
+            entry.includes(`worktree ${worktreePath}\n`) &&
+            entry.includes(`branch refs/heads/${branch}`),
+        );
+      if (!isSession) {
+        throw new Error(
+          `${worktreePath} already exists but is not the worktree of branch '${branch}'.`,
+        );
+      }
+    } else {
+      excludeWorktreesDir(gitCommonDir);
+      await repo.raw(['worktree', 'add', '-b', branch, worktreePath, 'HEAD']);
+    }
+    // For a resumed session this is where the session branch forked off.
+    const baseCommit = (await repo.raw(['merge-base', 'HEAD', branch])).trim();
+
+    const relativeCwd = path.relative(repoRoot, fs.realpathSync(cwd));
+    const workingDir = path.join(worktreePath, relativeCwd);
+    if (!fs.existsSync(workingDir)) {
+      // The directory is untracked and therefore missing from the checkout.
+      fs.mkdirSync(workingDir, { recursive: true });
+    }
+
+    return new WorktreeService({
+      name,
+      repoRoot,
+      worktreePath,
+      workingDir,
+      branch,
+      baseBranch,
+      baseCommit,
+      gitCommonDir,
+    });
+  }
+
+  /** Whether the worktree still exists, i.e. the session was not finished. */
+  isActive(): boolean {
+    return fs.existsSync(this.session.worktreePath);
+  }
+
+  /** Summarizes committed and uncommitted changes made in the worktree. */
+  async getSummary(): Promise<WorktreeSummary> {
+    const git = this.worktreeGit;
+    // Mark untracked files as intended to be added so that they show up in
+    // the diff without staging their contents.
+    await git.raw(['add', '--all', '--intent-to-add']);
+    const { baseCommit } = this.session;
+    const [nameOnly, diffStat] = await Promise.all([
+      git.raw(['diff', '--name-only', baseCommit]),
+      git.raw(['diff', '--stat', baseCommit]),
+    ]);
+    return {
+      changedFiles: nameOnly.split('\n').filter(Boolean),
+      diffStat: diffStat.trimEnd(),
+    };
+  }
+
+  /**
+   * Commits pending changes, merges the session branch into the branch that
+   * was checked out when the session started and removes the worktree. If
+   * the merge fails, it is aborted and the session branch is kept.
+   */
+  async merge(): Promise<void> {
+    await this.commitPendingChanges();
+    await this.removeWorktree();
+
+    const { repoRoot, branch, baseBranch, baseCommit } = this.session;
+    const repo = simpleGit(repoRoot);
+    const currentBranch = (
+      await repo.revparse(['--abbrev-ref', 'HEAD'])
+    ).trim();
+    if (currentBranch !== baseBranch) {
+      throw new Error(
+        `${repoRoot} is no longer on '${baseBranch}'. The changes were kept on '${branch}'.`,
+      );
+    }
+    const ahead = Number(
+      (
+        await repo.raw(['rev-list', '--count', `${baseCommit}..${branch}`])
+      ).trim(),
+    );
+    if (ahead > 0) {
+      try {
+        await repo.merge(['--no-edit', branch]);
+      } catch (error) {
+        await repo.raw(['merge', '--abort']).catch(() => {});
+        throw new Error(
+          `Could not merge '${branch}': ${getErrorMessage(error)}. The changes were kept on that branch.`,
+        );
+      }
+    }
+    await repo.raw(['branch', '-D', branch]);
+  }
+
+  /** Removes the worktree and its branch, dropping every change. */
+  async discard(): Promise<void> {
+    await this.removeWorktree();
+    await simpleGit(this.session.repoRoot).raw([
+      'branch',
+      '-D',
+      this.session.branch,
+    ]);
+  }
+
+  /** Commits pending changes and removes the worktree but keeps its branch. */
+  async keepBranch(): Promise<void> {
+    await this.commitPendingChanges();
+    await this.removeWorktree();
+  }
+
+  private get worktreeGit(): SimpleGit {
+    return simpleGit(this.session.worktreePath);
+  }
+
+  private async commitPendingChanges(): Promise<void> {
+    const git = this.worktreeGit;
+    await git.add(['--all']);
+    const status = await git.status();
+    if (status.isClean()) {
+      return;
+    }
+    await git.commit(`Changes from worktree session '${this.session.name}'`, {
+      '--no-verify': null,
+    });
+  }
+
+  private async removeWorktree(): Promise<void> {
+    // Anything worth keeping has been committed at this point; --force also
+    // removes ignored files such as build output.
+    await simpleGit(this.session.repoRoot).raw([
+      'worktree',
+      'remove',
+      '--force',
+      this.session.worktreePath,
+    ]);
+  }
+}
+
+/**
+ * Adds the worktrees directory to the repository's local exclude file so that
+ * session checkouts never show up as untracked files in the main checkout.
+ */
+function excludeWorktreesDir(gitCommonDir: string): void {
+  const excludePath = path.join(gitCommonDir, 'info', 'exclude');
+  const pattern = `/${WORKTREES_DIR.split(path.sep).join('/')}/`;
+  let content = '';
+  try {
+    content = fs.readFileSync(excludePath, 'utf-8');
+  } catch {
+    // The file is created below.
+  }
+  if (content.split(/\r?\n/).includes(pattern)) {
+    return;
+  }
+  fs.mkdirSync(path.dirname(excludePath), { recursive: true });
+  const separator = content && !content.endsWith('\n') ? '\n' : '';
+  fs.appendFileSync(excludePath, `${separator}${pattern}\n`);
+}
@@ -0,0 +1,342 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { ApplyPatchTool, type ApplyPatchToolParams } from './apply-patch.js';
+import { ToolErrorType } from './tool-error.js';
+import {
+  ToolConfirmationOutcome,
+  type FileDiff,
+  type ToolEditConfirmationDetails,
+} from './tools.js';
+import type { Config } from '../config/config.js';
+import { ApprovalMode } from '../policy/types.js';
+import { StandardFileSystemService } from '../services/fileSystemService.js';
+import {
+  createMockMessageBus,
+  getMockMessageBusInstance,
+} from '../test-utils/mock-message-bus.js';
+
+vi.mock('../telemetry/loggers.js', () => ({
+  logFileOperation: vi.fn(),
+}));
+
+describe('ApplyPatchTool', () => {
+  let rootDir: string;
+  let fsService: StandardFileSystemService;
+  let mockConfig: Config;
+  let tool: ApplyPatchTool;
+
+  const readFile = (relativePath: string) =>
+    fs.readFileSync(path.join(rootDir, relativePath), 'utf8');
+  const writeFile = (relativePath: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(rootDir, relativePath)), {
+      recursive: true,
+    });
+    fs.writeFileSync(path.join(rootDir, relativePath), content);
+  };
+  const exists = (relativePath: string) =>
+    fs.existsSync(path.join(rootDir, relativePath));
+
+  const run = (params: ApplyPatchToolParams) =>
+    tool.build(params).execute(new AbortController().signal);
+
+  beforeEach(() => {
+    rootDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'apply-patch-test-')),
+    );
+    fsService = new StandardFileSystemService();
+    mockConfig = {
+      getTargetDir: () => rootDir,
+      getApprovalMode: vi.fn(() => ApprovalMode.DEFAULT),
+      setApprovalMode: vi.fn(),
+      getFileSystemService: () => fsService,
+      getDebugMode: () => false,
+      validatePathAccess: (absolutePath: string) =>
+        absolutePath.startsWith(rootDir + path.sep)
+          ? null
+          : `Path not in workspace: ${absolutePath}`,
+    } as unknown as Config;
+    const bus = createMockMessageBus();
+    getMockMessageBusInstance(bus).defaultToolDecision = 'ask_user';
+    tool = new ApplyPatchTool(mockConfig, bus);
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  describe('build', () => {
+    it('should reject an empty patch', () => {
+      expect(() => tool.build({ patch: '  ' })).toThrow(
+        "The 'patch' parameter must be non-empty.",
+      );
+    });
+
+    it('should reject a patch without file changes', () => {
+      expect(() => tool.build({ patch: 'just some text' })).toThrow(
+        'The patch does not contain any file changes.',
+      );
+    });
+
+    it('should reject paths outside the workspace', () => {
+      const patch = '--- /dev/null\n+++ ../outside.txt\n@@ -0,0 +1 @@\n+x\n';
+      expect(() => tool.build({ patch })).toThrow(/Path not in workspace/);
+    });
+  });
+
+  describe('execute', () => {
+    it('should modify, create, delete and rename files in one patch', async () => {
+      writeFile('src/a.ts', 'const a = 1;\nexport { a };\n');
+      writeFile('src/old.ts', 'gone\n');
+      writeFile('src/from.ts', 'moved\n');
+      const patch = [
+        '--- a/src/a.ts',
+        '+++ b/src/a.ts',
+        '@@ -1,2 +1,2 @@',
+        '-const a = 1;',
+        '+const a = 2;',
+        ' export { a };',
+        '--- /dev/null',
+        '+++ b/src/lib/new.ts',
+        '@@ -0,0 +1 @@',
+        '+export const created = true;',
+        '--- a/src/old.ts',
+        '+++ /dev/null',
+        '@@ -1 +0,0 @@',
+        '-gone',
+        'diff --git a/src/from.ts b/src/to.ts',
+        'rename from src/from.ts',
+        'rename to src/to.ts',
+      ].join('\n');
+
+      const result = await run({ patch });
+
+      expect(result.error).toBeUndefined();
+      expect(readFile('src/a.ts')).toBe('const a = 2;\nexport { a };\n');
+      expect(readFile('src/lib/new.ts')).toBe('export const created = true;\n');
+      expect(exists('src/old.ts')).toBe(false);
+      expect(exists('src/from.ts')).toBe(false);
+      expect(readFile('src/to.ts')).toBe('moved\n');
+      expect(result.llmContent).toBe(
+        'Successfully applied patch to 4 file(s): modified src/a.ts, created src/lib/new.ts, deleted src/old.ts, renamed src/from.ts → src/to.ts.',
+      );
+      const display = result.returnDisplay as FileDiff;
+      expect(display.fileName).toBe('4 files');
+      expect(display.fileDiff).toContain('Index: src/a.ts');
+      expect(display.fileDiff).toContain('Index: src/lib/new.ts');
+      expect(display.diffStat).toBeUndefined();
+    });
+
+    it('should not write anything if a later hunk does not apply', async () => {
+      writeFile('a.txt', 'one\n');
+      writeFile('b.txt', 'two\n');
+      const patch = [
+        '--- a/a.txt',
+        '+++ b/a.txt',
+        '@@ -1 +1 @@',
+        '-one',
+        '+ONE',
+        '--- a/b.txt',
+        '+++ b/b.txt',
+        '@@ -1 +1 @@',
+        '-three',
+        '+THREE',
+      ].join('\n');
+
+      const result = await run({ patch });
+
+      expect(result.error?.type).toBe(ToolErrorType.PATCH_APPLY_FAILURE);
+      expect(result.llmContent).toContain('Failed to apply patch to b.txt');
+      expect(readFile('a.txt')).toBe('one\n');
+      expect(readFile('b.txt')).toBe('two\n');
+    });
+
+    it('should fail when creating a file that already exists', async () => {
+      writeFile('a.txt', 'one\n');
+      const patch = '--- /dev/null\n+++ b/a.txt\n@@ -0,0 +1 @@\n+new\n';
+
+      const result = await run({ patch });
+
+      expect(result.error?.type).toBe(
+        ToolErrorType.ATTEMPT_TO_CREATE_EXISTING_FILE,
+      );
+      expect(readFile('a.txt')).toBe('one\n');
+    });
+
+    it('should fail when patching a missing file', async () => {
+      const patch =
+        '--- a/missing.txt\n+++ b/missing.txt\n@@ -1 +1 @@\n-a\n+b\n';
+
+      const result = await run({ patch });
+
+      expect(result.error?.type).toBe(ToolErrorType.FILE_NOT_FOUND);
+    });
+
+    it('should fail when a file is changed more than once', async () => {
+      writeFile('a.txt', 'one\ntwo\n');
+      const patch = [
+        '--- a/a.txt',
+        '+++ b/a.txt',
+        '@@ -1 +1 @@',
+        '-one',
+        '+ONE',
+        '--- a/a.txt',
+        '+++ b/a.txt',
+        '@@ -2 +2 @@',
+        '-two',
+        '+TWO',
+      ].join('\n');
+
+      const result = await run({ patch });
+
+      expect(result.error?.type).toBe(ToolErrorType.PATCH_PARSE_FAILURE);
+      expect(result.llmContent).toBe('The patch changes a.txt more than once.');
+    });
+
+    it('should roll back written files when a write fails', async () => {
+      writeFile('a.txt', 'one\n');
+      writeFile('b.txt', 'two\n');
+      const patch = [
+        '--- a/a.txt',
+        '+++ b/a.txt',
+        '@@ -1 +1 @@',
+        '-one',
+        '+ONE',
+        '--- /dev/null',
+        '+++ b/dir/c.txt',
+        '@@ -0,0 +1 @@',
+        '+three',
+        '--- a/b.txt',
+        '+++ b/b.txt',
+        '@@ -1 +1 @@',
+        '-two',
+        '+TWO',
+      ].join('\n');
+      const originalWrite = fsService.writeTextFile.bind(fsService);
+      vi.spyOn(fsService, 'writeTextFile').mockImplementation(
+        async (filePath, content) => {
+          if (filePath.endsWith('b.txt') && content === 'TWO\n') {
+            throw new Error('disk on fire');
+          }
+          return originalWrite(filePath, content);
+        },
+      );
+
+      const result = await run({ patch });
+
+      expect(result.error?.type).toBe(ToolErrorType.FILE_WRITE_FAILURE);
+      expect(result.llmContent).toBe(
+        'Error applying patch: disk on fire. All changes were rolled back.',
+      );
+      expect(readFile('a.txt')).toBe('one\n');
+      expect(readFile('b.txt')).toBe('two\n');
+      expect(exists('dir')).toBe(false);
+    });
+
+    it('should mention user modifications in the result', async () => {
+      writeFile('a.txt', 'one\n');
+      const patch = '--- a/a.txt\n+++ b/a.txt\n@@ -1 +1 @@\n-one\n+uno\n';
+
+      const result = await run({
+        patch,
+        modified_by_user: true,
+        ai_proposed_patch: 'original',
+      });
+
+      expect(result.llmContent).toContain(
+        `User modified the \`patch\` to be: ${patch}`,
+      );
+    });
+  });
+
+  describe('getConfirmationDetails', () => {
+    it('should show one combined diff for all files', async () => {
+      writeFile('a.txt', 'one\n');
+      const patch = [
+        '--- a/a.txt',
+        '+++ b/a.txt',
+        '@@ -1 +1 @@',
+        '-one',
+        '+ONE',
+        '--- /dev/null',
+        '+++ b/b.txt',
+        '@@ -0,0 +1 @@',
+        '+two',
+      ].join('\n');
+      const invocation = tool.build({ patch });
+
+      const details = (await invocation.shouldConfirmExecute(
+        new AbortController().signal,
+      )) as ToolEditConfirmationDetails;
+
+      expect(details.type).toBe('edit');
+      expect(details.title).toBe('Confirm Patch: 2 files');
+      expect(details.fileDiff).toContain('Index: a.txt');
+      expect(details.fileDiff).toContain('+ONE');
+      expect(details.fileDiff).toContain('Index: b.txt');
+      expect(details.newContent).toBe(patch);
+    });
+
+    it('should switch to auto-edit mode on ProceedAlways', async () => {
+      writeFile('a.txt', 'one\n');
+      const invocation = tool.build({
+        patch: '--- a/a.txt\n+++ b/a.txt\n@@ -1 +1 @@\n-one\n+ONE\n',
+      });
+
+      const details = (await invocation.shouldConfirmExecute(
+        new AbortController().signal,
+      )) as ToolEditConfirmationDetails;
+      await details.onConfirm(ToolConfirmationOutcome.ProceedAlways);
+
+      expect(mockConfig.setApprovalMode).toHaveBeenCalledWith(
+        ApprovalMode.AUTO_EDIT,
+      );
+    });
+
+    it('should skip confirmation in auto-edit mode', async () => {
+      vi.mocked(mockConfig.getApprovalMode).mockReturnValue(
+        ApprovalMode.AUTO_EDIT,
+      );
+      writeFile('a.txt', 'one\n');
+      const invocation = tool.build({
+        patch: '--- a/a.txt\n+++ b/a.txt\n@@ -1 +1 @@\n-one\n+ONE\n',
+      });
+
+      expect(
+        await invocation.shouldConfirmExecute(new AbortController().signal),
+      ).toBe(false);
+    });
+  });
+
+  describe('getModifyContext', () => {
+    it('should update the patch and diff the resulting file changes', async () => {
+      writeFile('a.txt', 'one\n');
+      const patch = '--- a/a.txt\n+++ b/a.txt\n@@ -1 +1 @@\n-one\n+ONE\n';
+      const modifyContext = tool.getModifyContext(new AbortController().signal);
+      const userPatch = patch.replace('+ONE', '+uno');
+
+      const updatedParams = modifyContext.createUpdatedParams(
+        await modifyContext.getCurrentContent({ patch }),
+        userPatch,
+        { patch },
+      );
+      const updatedDiff = await modifyContext.getUpdatedDiff?.(updatedParams);
+
+      expect(updatedParams).toEqual({
+        patch: userPatch,
+        ai_proposed_patch: patch,
+        modified_by_user: true,
+      });
+      expect(updatedDiff).toContain('Index: a.txt');
+      expect(updatedDiff).toContain('+uno');
+    });
+  });
+});
@@ -0,0 +1,624 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'node:fs';
+import fsPromises from 'node:fs/promises';
+import path from 'node:path';
+import * as Diff from 'diff';
+import { APPLY_PATCH_TOOL_NAME, READ_FILE_TOOL_NAME } from './tool-names.js';
+import type { Config } from '../config/config.js';
+import { ApprovalMode } from '../policy/types.js';
+import type {
+  FileDiff,
+  ToolCallConfirmationDetails,
+  ToolEditConfirmationDetails,
+  ToolInvocation,
+  ToolLocation,
+  ToolResult,
+} from './tools.js';
+import {
+  BaseDeclarativeTool,
+  BaseToolInvocation,
+  Kind,
+  ToolConfirmationOutcome,
+} from './tools.js';
+import { ToolErrorType } from './tool-error.js';
+import { makeRelative, shortenPath } from '../utils/paths.js';
+import { getErrorMessage, isNodeError } from '../utils/errors.js';
+import {
+  applyHunks,
+  parseUnifiedDiff,
+  PatchApplyError,
+  type FilePatch,
+} from '../utils/patchUtils.js';
+import { DEFAULT_DIFF_OPTIONS } from './diffOptions.js';
+import type {
+  ModifiableDeclarativeTool,
+  ModifyContext,
+} from './modifiable-tool.js';
+import { logFileOperation } from '../telemetry/loggers.js';
+import { FileOperationEvent } from '../telemetry/types.js';
+import { FileOperation } from '../telemetry/metrics.js';
+import { getSpecificMimeType } from '../utils/fileUtils.js';
+import { getLanguageFromFilePath } from '../utils/language-detection.js';
+import type { MessageBus } from '../confirmation-bus/message-bus.js';
+import { debugLogger } from '../utils/debugLogger.js';
+
+/**
+ * Parameters for the ApplyPatch tool
+ */
+export interface ApplyPatchToolParams {
+  /**
+   * The unified diff to apply
+   */
+  patch: string;
+
+  /**
+   * Whether the patch was modified by the user.
+   */
+  modified_by_user?: boolean;
+
+  /**
+   * Initially proposed patch.
+   */
+  ai_proposed_patch?: string;
+}
+
+/**
+ * The outcome of applying a patch to a single file in memory. A `null` path
+ * means the file does not exist before (`oldPath`) or after (`newPath`) the
+ * patch is applied.
+ */
+export interface PatchedFile {
+  oldPath: string | null;
+  newPath: string | null;
+  originalContent: string | null;
+  newContent: string | null;
+}
+
+interface PatchError {
+  display: string;
+  raw: string;
+  type: ToolErrorType;
+}
+
+type CalculatedPatch =
+  | { files: PatchedFile[]; error?: undefined }
+  | { files?: undefined; error: PatchError };
+
+function patchError(message: string, type: ToolErrorType): CalculatedPatch {
+  return { error: { display: message, raw: message, type } };
+}
+
+function resolvePatchPaths(
+  config: Config,
+  filePatch: FilePatch,
+): { oldPath: string | null; newPath: string | null } {
+  const targetDir = config.getTargetDir();
+  return {
+    oldPath:
+      filePatch.oldPath === null
+        ? null
+        : path.resolve(targetDir, filePatch.oldPath),
+    newPath:
+      filePatch.newPath === null
+        ? null
+        : path.resolve(targetDir, filePatch.newPath),
+  };
+}
+
+/**
+ * Parses `patch` and applies it to the current file contents in memory.
+ * Nothing is written to disk; any hunk that does not apply, or any file that
+ * is missing or unexpectedly present, fails the whole patch.
+ */
+export async function calculatePatch(
+  config: Config,
+  patch: string,
+): Promise<CalculatedPatch> {
+  let filePatches: FilePatch[];
+  try {
+    filePatches = parseUnifiedDiff(patch);
+  } catch (error) {
+    return patchError(
+      `Invalid patch: ${getErrorMessage(error)}`,
+      ToolErrorType.PATCH_PARSE_FAILURE,
+    );
+  }
+  if (filePatches.length === 0) {
+    return patchError(
+      'The patch does not contain any file changes.',
+      ToolErrorType.PATCH_PARSE_FAILURE,
+    );
+  }
+
+  const targetDir = config.getTargetDir();
+  const touchedPaths = new Set<string>();
+  const files: PatchedFile[] = [];
+
+  for (const filePatch of filePatches) {
+    const { oldPath, newPath } = resolvePatchPaths(config, filePatch);
+
+    for (const filePath of new Set([oldPath, newPath])) {
+      if (filePath === null) continue;
+      const validationError = config.validatePathAccess(filePath);
+      if (validationError) {
+        return patchError(validationError, ToolErrorType.PATH_NOT_IN_WORKSPACE);
+      }
+      if (touchedPaths.has(filePath)) {
+        return patchError(
+          `The patch changes ${makeRelative(filePath, targetDir)} more than once.`,
+          ToolErrorType.PATCH_PARSE_FAILURE,
+        );
+      }
+      touchedPaths.add(filePath);
+    }
+
+    let originalContent: string | null = null;
+    if (oldPath !== null) {
+      try {
+        originalContent = await config
+          .getFileSystemService()
+          .readTextFile(oldPath);
+      } catch (error) {
+        if (isNodeError(error) && error.code === 'ENOENT') {
+          return patchError(
+            `File not found: ${makeRelative(oldPath, targetDir)}`,
+            ToolErrorType.FILE_NOT_FOUND,
+          );
+        }
+        return patchError(
+          `Error reading ${makeRelative(oldPath, targetDir)}: ${getErrorMessage(error)}`,
+          ToolErrorType.READ_CONTENT_FAILURE,
+        );
+      }
+    }
+
+    if (newPath !== null && newPath !== oldPath && fs.existsSync(newPath)) {
+      return patchError(
+        `File already exists: ${makeRelative(newPath, targetDir)}`,
+        ToolErrorType.ATTEMPT_TO_CREATE_EXISTING_FILE,
+      );
+    }
+
+    let patchedContent: string;
+    try {
+      patchedContent = applyHunks(originalContent ?? '', filePatch.hunks);
+    } catch (error) {
+      if (!(error instanceof PatchApplyError)) throw error;
+      const relativePath = makeRelative((oldPath ?? newPath)!, targetDir);
+      return patchError(
+        `Failed to apply patch to ${relativePath}: ${error.message} Use the ${READ_FILE_TOOL_NAME} tool to check the current content.`,
+        ToolErrorType.PATCH_APPLY_FAILURE,
+      );
+    }
+
+    if (newPath === null && filePatch.hunks.length > 0 && patchedContent) {
+      return patchError(
+        `The patch deletes ${makeRelative(oldPath!, targetDir)} but does not remove all of its content.`,
+        ToolErrorType.PATCH_APPLY_FAILURE,
+      );
+    }
+
+    files.push({
+      oldPath,
+      newPath,
+      originalContent,
+      newContent: newPath === null ? null : patchedContent,
+    });
+  }
+
+  const hasChanges = files.some(
+    (file) =>
+      file.oldPath !== file.newPath || file.originalContent !== file.newContent,
+  );
+  if (!hasChanges) {
+    return patchError(
+      'The patch does not change any files.',
+      ToolErrorType.EDIT_NO_CHANGE,
+    );
+  }
+
+  return { files };
+}
+
+function getDisplayName(file: PatchedFile, targetDir: string): string {
+  const oldName = file.oldPath && makeRelative(file.oldPath, targetDir);
+  const newName = file.newPath && makeRelative(file.newPath, targetDir);
+  if (oldName && newName && oldName !== newName) {
+    return `${oldName} → ${newName}`;
+  }
+  return (newName ?? oldName)!;
+}
+
+/**
+ * Builds a single diff covering every file changed by the patch, one
+ * `Index:` section per file.
+ */
+export function createCombinedDiff(
+  files: PatchedFile[],
+  targetDir: string,
+  oldHeader: string,
+  newHeader: string,
+): string {
+  return files
+    .map((file) =>
+      Diff.createPatch(
+        getDisplayName(file, targetDir),
+        file.originalContent ?? '',
+        file.newContent ?? '',
+        oldHeader,
+        newHeader,
+        DEFAULT_DIFF_OPTIONS,
+      ),
+    )
+    .join('');
+}
+
+class ApplyPatchToolInvocation extends BaseToolInvocation<
+  ApplyPatchToolParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    params: ApplyPatchToolParams,
+    messageBus: MessageBus,
+    toolName?: string,
+    displayName?: string,
+  ) {
+    super(params, messageBus, toolName, displayName);
+  }
+
+  private getPatchPaths(): string[] {
+    try {
+      return parseUnifiedDiff(this.params.patch).map((filePatch) => {
+        const { oldPath, newPath } = resolvePatchPaths(this.config, filePatch);
+        return (newPath ?? oldPath)!;
+      });
+    } catch {
+      return [];
+    }
+  }
+
+  override toolLocations(): ToolLocation[] {
+    return this.getPatchPaths().map((filePath) => ({ path: filePath }));
+  }
+
+  override getDescription(): string {
+    const paths = this.getPatchPaths();
+    if (paths.length === 1) {
+      const relativePath = makeRelative(paths[0], this.config.getTargetDir());
+      return `Patching ${shortenPath(relativePath)}`;
+    }
+    return `Patching ${paths.length} files`;
+  }
+
+  protected override async getConfirmationDetails(
+    _abortSignal: AbortSignal,
+  ): Promise<ToolCallConfirmationDetails | false> {
+    if (this.config.getApprovalMode() === ApprovalMode.AUTO_EDIT) {
+      return false;
+    }
+
+    const result = await calculatePatch(this.config, this.params.patch);
+    if (result.error) {
+      debugLogger.log(`Error: ${result.error.display}`);
+      return false;
+    }
+
+    const { files } = result;
+    const targetDir = this.config.getTargetDir();
+    const fileName =
+      files.length === 1
+        ? getDisplayName(files[0], targetDir)
+        : `${files.length} files`;
+
+    // The editor flow operates on the patch text itself, so the original and
+    // new content here are the proposed and current versions of the patch.
+    const confirmationDetails: ToolEditConfirmationDetails = {
+      type: 'edit',
+      title: `Confirm Patch: ${shortenPath(fileName)}`,
+      fileName,
+      filePath: (files[0].newPath ?? files[0].oldPath)!,
+      fileDiff: createCombinedDiff(files, targetDir, 'Current', 'Proposed'),
+      originalContent: this.params.ai_proposed_patch ?? this.params.patch,
+      newContent: this.params.patch,
+      onConfirm: async (outcome: ToolConfirmationOutcome) => {
+        if (outcome === ToolConfirmationOutcome.ProceedAlways) {
+          // No need to publish a policy update as the default policy for
+          // AUTO_EDIT already reflects always approving apply-patch.
+          this.config.setApprovalMode(ApprovalMode.AUTO_EDIT);
+        } else {
+          await this.publishPolicyUpdate(outcome);
+        }
+      },
+    };
+    return confirmationDetails;
+  }
+
+  /**
+   * Restores every touched path to its state before the patch: original
+   * content is written back, files that did not exist are removed, and so
+   * are any directories created for new files.
+   */
+  private async rollback(
+    snapshots: Map<string, string | null>,
+    createdDirs: string[],
+  ): Promise<string[]> {
+    const failedPaths: string[] = [];
+    for (const [filePath, content] of snapshots) {
+      try {
+        if (content === null) {
+          await fsPromises.rm(filePath, { force: true });
+        } else {
+          await this.config
+            .getFileSystemService()
+            .writeTextFile(filePath, content);
+        }
+      } catch (error) {
+        debugLogger.error(`Failed to restore ${filePath}:`, error);
+        failedPaths.push(filePath);
+      }
+    }
+    for (const dir of createdDirs.reverse()) {
+      try {
+        await fsPromises.rm(dir, { recursive: true, force: true });
+      } catch (error) {
+        debugLogger.error(`Failed to remove directory ${dir}:`, error);
+      }
+    }
+    return failedPaths;
+  }
+
+  async execute(_abortSignal: AbortSignal): Promise<ToolResult> {
+    const { patch, modified_by_user } = this.params;
+    const result = await calculatePatch(this.config, patch);
+    if (result.error) {
+      return {
+        llmContent: result.error.raw,
+        returnDisplay: `Error: ${result.error.display}`,
+        error: {
+          message: result.error.raw,
+          type: result.error.type,
+        },
+      };
+    }
+
+    const { files } = result;
+    const targetDir = this.config.getTargetDir();
+
+    // Everything has been validated in memory, so from here on the only
+    // failures are I/O errors. Remember what each path looked like so the
+    // whole patch can be undone if one of the writes fails.
+    const snapshots = new Map<string, string | null>();
+    for (const file of files) {
+      if (file.oldPath !== null) {
+        snapshots.set(file.oldPath, file.originalContent);
+      }
+      if (file.newPath !== null && !snapshots.has(file.newPath)) {
+        snapshots.set(file.newPath, null);
+      }
+    }
+
+    const createdDirs: string[] = [];
+    try {
+      for (const file of files) {
+        if (file.newPath !== null && file.newContent !== null) {
+          const createdDir = await fsPromises.mkdir(
+            path.dirname(file.newPath),
+            { recursive: true },
+          );
+          if (createdDir) {
+            createdDirs.push(createdDir);
+          }
+          await this.config
+            .getFileSystemService()
+            .writeTextFile(file.newPath, file.newContent);
+        }
+        if (file.oldPath !== null && file.oldPath !== file.newPath) {
+          await fsPromises.unlink(file.oldPath);
+        }
+      }
+    } catch (error) {
+      const failedPaths = await this.rollback(snapshots, createdDirs);
+      let errorMsg = `Error applying patch: ${getErrorMessage(error)}.`;
+      errorMsg +=
+        failedPaths.length > 0
+          ? ` The following files could not be restored: ${failedPaths.join(', ')}`
+          : ' All changes were rolled back.';
+      if (this.config.getDebugMode() && error instanceof Error) {
+        debugLogger.error('Apply patch error stack:', error.stack);
+      }
+      return {
+        llmContent: errorMsg,
+        returnDisplay: errorMsg,
+        error: {
+          message: errorMsg,
+          type:
+            isNodeError(error) && error.code === 'ENOSPC'
+              ? ToolErrorType.NO_SPACE_LEFT
+              : ToolErrorType.FILE_WRITE_FAILURE,
+        },
+      };
+    }
+
+    const summary: string[] = [];
+    for (const file of files) {
+      const displayName = getDisplayName(file, targetDir);
+      if (file.oldPath === null) {
+        summary.push(`created ${displayName}`);
+      } else if (file.newPath === null) {
+        summary.push(`deleted ${displayName}`);
+      } else if (file.oldPath !== file.newPath) {
+        summary.push(`renamed ${displayName}`);
+      } else {
+        summary.push(`modified ${displayName}`);
+      }
+
+      if (file.newPath !== null && file.newContent !== null) {
+        logFileOperation(
+          this.config,
+          new FileOperationEvent(
+            APPLY_PATCH_TOOL_NAME,
+            file.oldPath === null ? FileOperation.CREATE : FileOperation.UPDATE,
+            file.newContent.split('\n').length,
+            getSpecificMimeType(file.newPath),
+            path.extname(file.newPath),
+            getLanguageFromFilePath(file.newPath),
+          ),
+        );
+      }
+    }
+
+    const llmSuccessMessageParts = [
+      `Successfully applied patch to ${files.length} file(s): ${summary.join(', ')}.`,
+    ];
+    if (modified_by_user) {
+      llmSuccessMessageParts.push(
+        `User modified the \`patch\` to be: ${patch}`,
+      );
+    }
+
+    // No diffStat here: rewind and turn statistics treat a diff with stats
+    // as a single-file change, which a multi-file patch is not.
+    const [firstFile] = files;
+    const displayResult: FileDiff = {
+      fileDiff: createCombinedDiff(files, targetDir, 'Original', 'Written'),
+      fileName:
+        files.length === 1
+          ? getDisplayName(firstFile, targetDir)
+          : `${files.length} files`,
+      filePath: (firstFile.newPath ?? firstFile.oldPath)!,
+      originalContent: firstFile.originalContent,
+      newContent: firstFile.newContent ?? '',
+      isNewFile: files.length === 1 && firstFile.oldPath === null,
+    };
+
+    return {
+      llmContent: llmSuccessMessageParts.join(' '),
+      returnDisplay: displayResult,
+    };
+  }
+}
+
+/**
+ * Implementation of the ApplyPatch tool logic
+ */
+export class ApplyPatchTool
+  extends BaseDeclarativeTool<ApplyPatchToolParams, ToolResult>
+  implements ModifiableDeclarativeTool<ApplyPatchToolParams>
+{
+  static readonly Name = APPLY_PATCH_TOOL_NAME;
+
+  constructor(
+    private readonly config: Config,
+    messageBus: MessageBus,
+  ) {
+    super(
+      ApplyPatchTool.Name,
+      'ApplyPatch',
+      `Applies a unified diff to one or more files in a single atomic operation. Every hunk is checked against the current file contents before anything is written; if any hunk does not apply, no file is changed. Prefer this tool over repeated edits when a change spans several files. Always use the ${READ_FILE_TOOL_NAME} tool to examine the current content of a file before patching it.
+
+      The user has the ability to modify the \`patch\`. If modified, this will be stated in the response.
+
+      The patch uses the standard unified diff format, as produced by \`diff -u\` or \`git diff\`:
+      1. Each file starts with \`--- <old path>\` and \`+++ <new path>\` lines. Paths are relative to the project root; \`a/\` and \`b/\` prefixes are allowed.
+      2. Use \`/dev/null\` as the old path to create a file and as the new path to delete one. To rename a file, use different old and new paths.
+      3. Each hunk starts with \`@@ -<old start>,<old count> +<new start>,<new count> @@\`, followed by lines prefixed with a space (context), \`-\` (removed) or \`+\` (added).
+      4. Include at least 3 lines of unchanged context around every change, matching whitespace and indentation exactly. Line numbers may be approximate; the context determines where a hunk applies.`,
+      Kind.Edit,
+      {
+        properties: {
+          patch: {
+            description:
+              'The unified diff to apply. May contain changes to multiple files, including file creation, deletion and renames.',
+            type: 'string',
+          },
+        },
+        required: ['patch'],
+        type: 'object',
+      },
+      messageBus,
+      true, // isOutputMarkdown
+      false, // canUpdateOutput
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: ApplyPatchToolParams,
+  ): string | null {
+    if (!params.patch || params.patch.trim() === '') {
+      return "The 'patch' parameter must be non-empty.";
+    }
+
+    let filePatches: FilePatch[];
+    try {
+      filePatches = parseUnifiedDiff(params.patch);
+    } catch (error) {
+      return `Invalid patch: ${getErrorMessage(error)}`;
+    }
+    if (filePatches.length === 0) {
+      return 'The patch does not contain any file changes.';
+    }
+
+    for (const filePatch of filePatches) {
+      const { oldPath, newPath } = resolvePatchPaths(this.config, filePatch);
+      for (const filePath of [oldPath, newPath]) {
+        if (filePath === null) continue;
+        const validationError = this.config.validatePathAccess(filePath);
+        if (validationError) {
+          return validationError;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  protected createInvocation(
+    params: ApplyPatchToolParams,
+    messageBus: MessageBus,
+  ): ToolInvocation<ApplyPatchToolParams, ToolResult> {
+    return new ApplyPatchToolInvocation(
+      this.config,
+      params,
+      messageBus ?? this.messageBus,
+      this.name,
+      this.displayName,
+    );
+  }
+
+  getModifyContext(_: AbortSignal): ModifyContext<ApplyPatchToolParams> {
+    return {
+      getFilePath: () => 'changes.patch',
+      getCurrentContent: async (params: ApplyPatchToolParams) =>
+        params.ai_proposed_patch ?? params.patch,
+      getProposedContent: async (params: ApplyPatchToolParams) => params.patch,
+      createUpdatedParams: (
+        _oldContent: string,
+        modifiedProposedContent: string,
+        originalParams: ApplyPatchToolParams,
+      ): ApplyPatchToolParams => ({
+        ...originalParams,
+        ai_proposed_patch:
+          originalParams.ai_proposed_patch ?? originalParams.patch,
+        patch: modifiedProposedContent,
+        modified_by_user: true,
+      }),
+      getUpdatedDiff: async (params: ApplyPatchToolParams) => {
+        const result = await calculatePatch(this.config, params.patch);
+        return result.files
+          ? createCombinedDiff(
+              result.files,
+              this.config.getTargetDir(),
+              'Current',
+              'Proposed',
+            )
+          : undefined;
+      },
+    };
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { BackgroundProcessOutput } from '../services/shellExecutionService.js';
+import type { ToolResult } from './tools.js';
+import { ToolErrorType } from './tool-error.js';
+
+export interface BackgroundProcessParams {
+  /** The PID reported when the command was moved to the background. */
+  pid: number;
+}
+
+export const PID_SCHEMA_PROPERTY = {
+  type: 'integer',
+  minimum: 1,
+  description:
+    'The PID reported by run_shell_command when the command was moved to the background.',
+};
+
+/**
+ * Builds the error result returned when `pid` is not a background process
+ * started in this session.
+ */
+export function processNotFoundResult(pid: number): ToolResult {
+  const message = `No background process with PID ${pid} was found. Only commands started with run_shell_command and moved to the background can be used.`;
+  return {
+    llmContent: message,
+    returnDisplay: message,
+    error: { message, type: ToolErrorType.BACKGROUND_PROCESS_NOT_FOUND },
+  };
+}
+
+/**
+ * Describes whether a background process is still running or how it exited.
+ */
+export function describeProcessStatus(
+  snapshot: BackgroundProcessOutput,
+): string {
+  if (!snapshot.exited) {
+    return 'running';
+  }
+  if (snapshot.signal) {
+    return `terminated by signal ${snapshot.signal}`;
+  }
+  return `exited with code ${snapshot.exitCode ?? 'unknown'}`;
+}
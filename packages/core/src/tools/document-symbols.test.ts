@@ -0,0 +1,99 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import path from 'node:path';
+import { DocumentSymbolsTool } from './document-symbols.js';
+import type { Config } from '../config/config.js';
+import type { LspManager } from '../lsp/lsp-manager.js';
+import { pathToUri } from '../lsp/lsp-utils.js';
+import { ToolErrorType } from './tool-error.js';
+import { createMockMessageBus } from '../test-utils/mock-message-bus.js';
+
+describe('DocumentSymbolsTool', () => {
+  const rootDir = path.resolve('/workspace');
+  const abortSignal = new AbortController().signal;
+  let request: ReturnType<typeof vi.fn>;
+  let getClient: ReturnType<typeof vi.fn>;
+  let tool: DocumentSymbolsTool;
+
+  const range = (line: number) => ({
+    start: { line, character: 0 },
+    end: { line, character: 10 },
+  });
+
+  beforeEach(() => {
+    request = vi.fn().mockResolvedValue([]);
+    getClient = vi.fn().mockResolvedValue({ request });
+    const mockConfig = {
+      getTargetDir: () => rootDir,
+      getLspManager: () =>
+        ({
+          getClient,
+          getServerName: () => 'tsserver',
+        }) as unknown as LspManager,
+      validatePathAccess: () => null,
+    } as unknown as Config;
+    tool = new DocumentSymbolsTool(mockConfig, createMockMessageBus());
+  });
+
+  it('should outline hierarchical symbols', async () => {
+    request.mockResolvedValue([
+      {
+        name: 'Parser',
+        kind: 5,
+        range: range(0),
+        selectionRange: range(0),
+        children: [
+          { name: 'parse', kind: 6, range: range(3), selectionRange: range(3) },
+        ],
+      },
+    ]);
+
+    const result = await tool
+      .build({ file_path: 'src/parser.ts' })
+      .execute(abortSignal);
+
+    const filePath = path.join(rootDir, 'src', 'parser.ts');
+    expect(getClient).toHaveBeenCalledWith(filePath);
+    expect(request).toHaveBeenCalledWith('textDocument/documentSymbol', {
+      textDocument: { uri: pathToUri(filePath) },
+    });
+    expect(result.llmContent).toBe(
+      'Symbols in src/parser.ts:\nclass Parser (line 1)\n  method parse (line 4)',
+    );
+  });
+
+  it('should outline flat symbol information', async () => {
+    request.mockResolvedValue([
+      {
+        name: 'parse',
+        kind: 12,
+        containerName: 'parser',
+        location: { uri: pathToUri('/workspace/parser.ts'), range: range(7) },
+      },
+    ]);
+
+    const result = await tool
+      .build({ file_path: 'parser.ts' })
+      .execute(abortSignal);
+
+    expect(result.llmContent).toBe(
+      'Symbols in parser.ts:\nfunction parse in parser (line 8)',
+    );
+  });
+
+  it('should return an error when the server cannot start', async () => {
+    getClient.mockRejectedValue(new Error('spawn ENOENT'));
+
+    const result = await tool
+      .build({ file_path: 'parser.ts' })
+      .execute(abortSignal);
+
+    expect(result.error?.type).toBe(ToolErrorType.LSP_REQUEST_FAILED);
+    expect(result.llmContent).toBe('Error listing symbols: spawn ENOENT');
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'node:path';
+import type { MessageBus } from '../confirmation-bus/message-bus.js';
+import type { Config } from '../config/config.js';
+import { makeRelative, shortenPath } from '../utils/paths.js';
+import { getSymbolKindName, pathToUri } from '../lsp/lsp-utils.js';
+import type { DocumentSymbol, SymbolInformation } from '../lsp/types.js';
+import type { ToolInvocation, ToolLocation, ToolResult } from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+import { DOCUMENT_SYMBOLS_TOOL_NAME } from './tool-names.js';
+import {
+  lspRequestFailedResult,
+  validateLspFilePath,
+} from './lsp-tool-utils.js';
+
+export interface DocumentSymbolsToolParams {
+  /** The path of the file to outline. */
+  file_path: string;
+}
+
+function formatDocumentSymbols(symbols: DocumentSymbol[], depth = 0): string[] {
+  return symbols.flatMap((symbol) => [
+    `${'  '.repeat(depth)}${getSymbolKindName(symbol.kind)} ${symbol.name} (line ${symbol.selectionRange.start.line + 1})`,
+    ...formatDocumentSymbols(symbol.children ?? [], depth + 1),
+  ]);
+}
+
+/**
+ * Formats either flavor of `textDocument/documentSymbol` result as an
+ * indented outline.
+ */
+function formatSymbolOutline(
+  symbols: DocumentSymbol[] | SymbolInformation[],
+): string[] {
+  return symbols.flatMap((symbol: DocumentSymbol | SymbolInformation) => {
+    if ('location' in symbol) {
+      const container = symbol.containerName
+        ? ` in ${symbol.containerName}`
+        : '';
+      return [
+        `${getSymbolKindName(symbol.kind)} ${symbol.name}${container} (line ${symbol.location.range.start.line + 1})`,
+      ];
+    }
+    return formatDocumentSymbols([symbol]);
+  });
+}
+
+class DocumentSymbolsToolInvocation extends BaseToolInvocation<
+  DocumentSymbolsToolParams,
+  ToolResult
+> {
+  private readonly resolvedPath: string;
+
+  constructor(
+    private readonly config: Config,
+    params: DocumentSymbolsToolParams,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ) {
+    super(params, messageBus, _toolName, _toolDisplayName);
+    this.resolvedPath = path.resolve(
+      this.config.getTargetDir(),
+      this.params.file_path,
+    );
+  }
+
+  getDescription(): string {
+    return shortenPath(
+      makeRelative(this.resolvedPath, this.config.getTargetDir()),
+    );
+  }
+
+  override toolLocations(): ToolLocation[] {
+    return [{ path: this.resolvedPath }];
+  }
+
+  async execute(): Promise<ToolResult> {
+    try {
+      const client = await this.config
+        .getLspManager()
+        .getClient(this.resolvedPath);
+      const symbols =
+        (await client.request<DocumentSymbol[] | SymbolInformation[] | null>(
+          'textDocument/documentSymbol',
+          { textDocument: { uri: pathToUri(this.resolvedPath) } },
+        )) ?? [];
+      if (symbols.length === 0) {
+        return {
+          llmContent: `No symbols found in ${this.params.file_path}.`,
+          returnDisplay: 'No symbols found',
+        };
+      }
+      const outline = formatSymbolOutline(symbols);
+      return {
+        llmContent: `Symbols in ${this.params.file_path}:\n${outline.join('\n')}`,
+        returnDisplay: `Found ${outline.length} symbol(s)`,
+      };
+    } catch (error) {
+      return lspRequestFailedResult('listing symbols', error);
+    }
+  }
+}
+
+/**
+ * Outlines the classes, functions and other symbols declared in a file using
+ * the language server configured for the file's language.
+ */
+export class DocumentSymbolsTool extends BaseDeclarativeTool<
+  DocumentSymbolsToolParams,
+  ToolResult
+> {
+  static readonly Name = DOCUMENT_SYMBOLS_TOOL_NAME;
+
+  constructor(
+    private readonly config: Config,
+    messageBus: MessageBus,
+  ) {
+    super(
+      DocumentSymbolsTool.Name,
+      'DocumentSymbols',
+      'Lists the symbols (classes, functions, methods, variables, ...) declared in a file as an indented outline with their kinds and 1-based line numbers, using a language server. Useful for getting an overview of a large file before reading parts of it.',
+      Kind.Search,
+      {
+        type: 'object',
+        properties: {
+          file_path: {
+            type: 'string',
+            description: 'The path of the file to outline.',
+          },
+        },
+        required: ['file_path'],
+      },
+      messageBus,
+      false, // isOutputMarkdown
+      false, // canUpdateOutput
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: DocumentSymbolsToolParams,
+  ): string | null {
+    return validateLspFilePath(this.config, params.file_path);
+  }
+
+  protected createInvocation(
+    params: DocumentSymbolsToolParams,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ): ToolInvocation<DocumentSymbolsToolParams, ToolResult> {
+    return new DocumentSymbolsToolInvocation(
+      this.config,
+      params,
+      messageBus,
+      _toolName,
+      _toolDisplayName,
+    );
+  }
+}
@@ -63,6 +63,7 @@ import { type Config } from '../config/config.js';
 import { type Content, type Part, type SchemaUnion } from '@google/genai';
 import { createMockWorkspaceContext } from '../test-utils/mockWorkspaceContext.js';
 import { StandardFileSystemService } from '../services/fileSystemService.js';
+import { LspManager } from '../lsp/lsp-manager.js';
 import type { BaseLlmClient } from '../core/baseLlmClient.js';
 
 describe('EditTool', () => {
@@ -103,6 +104,7 @@ describe('EditTool', () => {
       setApprovalMode: vi.fn(),
       getWorkspaceContext: () => createMockWorkspaceContext(rootDir),
       getFileSystemService: () => fileSystemService,
+      getLspManager: () => new LspManager(rootDir),
       getIdeMode: () => false,
       getApiKey: () => 'test-api-key',
       getModel: () => 'test-model',
@@ -491,6 +493,28 @@ describe('EditTool', () => {
       expect(display.fileName).toBe(testFile);
     });
 
+    it('should append language server diagnostics after the edit', async () => {
+      fs.writeFileSync(filePath, 'This is some old text.', 'utf8');
+      const lspManager = mockConfig.getLspManager();
+      vi.spyOn(lspManager, 'getDiagnosticsAfterEdit').mockResolvedValue(
+        `Diagnostics for ${testFile}:\n1:1 error: Unexpected token`,
+      );
+      vi.spyOn(mockConfig, 'getLspManager').mockReturnValue(lspManager);
+
+      const invocation = tool.build({
+        file_path: filePath,
+        instruction: 'Replace old with new',
+        old_string: 'old',
+        new_string: 'new',
+      });
+      const result = await invocation.execute(new AbortController().signal);
+
+      expect(lspManager.getDiagnosticsAfterEdit).toHaveBeenCalledWith(filePath);
+      expect(result.llmContent).toContain(
+        `\n\nDiagnostics for ${testFile}:\n1:1 error: Unexpected token`,
+      );
+    });
+
     it('should return error if old_string is not found in file', async () => {
       fs.writeFileSync(filePath, 'Some content.', 'utf8');
 
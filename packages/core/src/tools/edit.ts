@@ -857,6 +857,12 @@ class EditToolInvocation
           `User modified the \`new_string\` content to be: ${this.params.new_string}.`,
         );
       }
+      const diagnostics = await this.config
+        .getLspManager()
+        .getDiagnosticsAfterEdit(resolvedPath);
+      if (diagnostics) {
+        llmSuccessMessageParts.push(`\n\n${diagnostics}`);
+      }
 
       return {
         llmContent: llmSuccessMessageParts.join(' '),
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import path from 'node:path';
+import { FindDefinitionTool } from './find-definition.js';
+import type { Config } from '../config/config.js';
+import type { LspManager } from '../lsp/lsp-manager.js';
+import { pathToUri } from '../lsp/lsp-utils.js';
+import { ToolErrorType } from './tool-error.js';
+import { createMockMessageBus } from '../test-utils/mock-message-bus.js';
+
+describe('FindDefinitionTool', () => {
+  const rootDir = path.resolve('/workspace');
+  const abortSignal = new AbortController().signal;
+  let request: ReturnType<typeof vi.fn>;
+  let locateSymbol: ReturnType<typeof vi.fn>;
+  let tool: FindDefinitionTool;
+
+  beforeEach(() => {
+    request = vi.fn().mockResolvedValue(null);
+    locateSymbol = vi.fn().mockResolvedValue({
+      client: { request },
+      position: {
+        textDocument: { uri: pathToUri(path.join(rootDir, 'src/main.ts')) },
+        position: { line: 2, character: 6 },
+      },
+    });
+    const mockConfig = {
+      getTargetDir: () => rootDir,
+      getLspManager: () =>
+        ({
+          locateSymbol,
+          getServerName: (filePath: string) =>
+            filePath.endsWith('.ts') ? 'tsserver' : undefined,
+        }) as unknown as LspManager,
+      validatePathAccess: (absolutePath: string) =>
+        absolutePath.startsWith(rootDir + path.sep)
+          ? null
+          : `Path not in workspace: ${absolutePath}`,
+    } as unknown as Config;
+    tool = new FindDefinitionTool(mockConfig, createMockMessageBus());
+  });
+
+  describe('build', () => {
+    it('should reject files without a language server', () => {
+      expect(() =>
+        tool.build({ file_path: 'main.py', line: 1, symbol: 'run' }),
+      ).toThrow('No language server is configured for main.py.');
+    });
+
+    it('should reject an empty symbol', () => {
+      expect(() =>
+        tool.build({ file_path: 'src/main.ts', line: 1, symbol: ' ' }),
+      ).toThrow("The 'symbol' parameter cannot be empty.");
+    });
+
+    it('should reject files outside the workspace', () => {
+      expect(() =>
+        tool.build({ file_path: '/etc/main.ts', line: 1, symbol: 'run' }),
+      ).toThrow('Path not in workspace');
+    });
+  });
+
+  it('should list the definitions', async () => {
+    request.mockResolvedValue([
+      {
+        uri: pathToUri(path.join(rootDir, 'src', 'config.ts')),
+        range: {
+          start: { line: 9, character: 16 },
+          end: { line: 9, character: 27 },
+        },
+      },
+    ]);
+
+    const result = await tool
+      .build({ file_path: 'src/main.ts', line: 3, symbol: 'parseConfig' })
+      .execute(abortSignal);
+
+    expect(locateSymbol).toHaveBeenCalledWith(
+      path.join(rootDir, 'src', 'main.ts'),
+      3,
+      'parseConfig',
+    );
+    expect(request).toHaveBeenCalledWith(
+      'textDocument/definition',
+      expect.objectContaining({ position: { line: 2, character: 6 } }),
+    );
+    expect(result.llmContent).toBe(
+      `Definition(s) of "parseConfig":\n${path.join('src', 'config.ts')}:10:17`,
+    );
+  });
+
+  it('should report a symbol missing from the line', async () => {
+    locateSymbol.mockResolvedValue(undefined);
+
+    const result = await tool
+      .build({ file_path: 'src/main.ts', line: 3, symbol: 'parseConfig' })
+      .execute(abortSignal);
+
+    expect(result.error?.type).toBe(ToolErrorType.LSP_SYMBOL_NOT_FOUND);
+  });
+
+  it('should return an error when the server fails', async () => {
+    request.mockRejectedValue(new Error('server crashed'));
+
+    const result = await tool
+      .build({ file_path: 'src/main.ts', line: 3, symbol: 'parseConfig' })
+      .execute(abortSignal);
+
+    expect(result.error?.type).toBe(ToolErrorType.LSP_REQUEST_FAILED);
+    expect(result.llmContent).toBe('Error finding definition: server crashed');
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'node:path';
+import type { MessageBus } from '../confirmation-bus/message-bus.js';
+import type { Config } from '../config/config.js';
+import { makeRelative, shortenPath } from '../utils/paths.js';
+import { formatLocation, normalizeLocations } from '../lsp/lsp-utils.js';
+import type { Location, LocationLink } from '../lsp/types.js';
+import type { ToolInvocation, ToolLocation, ToolResult } from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+import { FIND_DEFINITION_TOOL_NAME } from './tool-names.js';
+import {
+  lspRequestFailedResult,
+  symbolNotFoundResult,
+  SYMBOL_POSITION_SCHEMA_PROPERTIES,
+  validateSymbolPositionParams,
+  type SymbolPositionParams,
+} from './lsp-tool-utils.js';
+
+class FindDefinitionToolInvocation extends BaseToolInvocation<
+  SymbolPositionParams,
+  ToolResult
+> {
+  private readonly resolvedPath: string;
+
+  constructor(
+    private readonly config: Config,
+    params: SymbolPositionParams,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ) {
+    super(params, messageBus, _toolName, _toolDisplayName);
+    this.resolvedPath = path.resolve(
+      this.config.getTargetDir(),
+      this.params.file_path,
+    );
+  }
+
+  getDescription(): string {
+    const relativePath = makeRelative(
+      this.resolvedPath,
+      this.config.getTargetDir(),
+    );
+    return `'${this.params.symbol}' in ${shortenPath(relativePath)}:${this.params.line}`;
+  }
+
+  override toolLocations(): ToolLocation[] {
+    return [{ path: this.resolvedPath, line: this.params.line }];
+  }
+
+  async execute(): Promise<ToolResult> {
+    try {
+      const located = await this.config
+        .getLspManager()
+        .locateSymbol(this.resolvedPath, this.params.line, this.params.symbol);
+      if (!located) {
+        return symbolNotFoundResult(this.params);
+      }
+      const locations = normalizeLocations(
+        await located.client.request<
+          Location | Location[] | LocationLink[] | null
+        >('textDocument/definition', located.position),
+      );
+      if (locations.length === 0) {
+        return {
+          llmContent: `No definition found for "${this.params.symbol}".`,
+          returnDisplay: 'No definition found',
+        };
+      }
+      const targetDir = this.config.getTargetDir();
+      return {
+        llmContent: `Definition(s) of "${this.params.symbol}":\n${locations
+          .map((location) => formatLocation(location, targetDir))
+          .join('\n')}`,
+        returnDisplay: `Found ${locations.length} definition(s)`,
+      };
+    } catch (error) {
+      return lspRequestFailedResult('finding definition', error);
+    }
+  }
+}
+
+/**
+ * Jumps to the definition of a symbol using the language server configured
+ * for the file's language.
+ */
+export class FindDefinitionTool extends BaseDeclarativeTool<
+  SymbolPositionParams,
+  ToolResult
+> {
+  static readonly Name = FIND_DEFINITION_TOOL_NAME;
+
+  constructor(
+    private readonly config: Config,
+    messageBus: MessageBus,
+  ) {
+    super(
+      FindDefinitionTool.Name,
+      'FindDefinition',
+      'Finds where a symbol (function, class, variable, type, ...) is defined, using a language server. Identify the symbol by the file and 1-based line where it is used and its name as written on that line. Returns file:line:column locations.',
+      Kind.Search,
+      {
+        type: 'object',
+        properties: SYMBOL_POSITION_SCHEMA_PROPERTIES,
+        required: ['file_path', 'line', 'symbol'],
+      },
+      messageBus,
+      false, // isOutputMarkdown
+      false, // canUpdateOutput
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: SymbolPositionParams,
+  ): string | null {
+    return validateSymbolPositionParams(this.config, params);
+  }
+
+  protected createInvocation(
+    params: SymbolPositionParams,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ): ToolInvocation<SymbolPositionParams, ToolResult> {
+    return new FindDefinitionToolInvocation(
+      this.config,
+      params,
+      messageBus,
+      _toolName,
+      _toolDisplayName,
+    );
+  }
+}
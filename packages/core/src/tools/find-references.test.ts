@@ -0,0 +1,80 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import path from 'node:path';
+import { FindReferencesTool } from './find-references.js';
+import type { Config } from '../config/config.js';
+import type { LspManager } from '../lsp/lsp-manager.js';
+import { pathToUri } from '../lsp/lsp-utils.js';
+import { createMockMessageBus } from '../test-utils/mock-message-bus.js';
+
+describe('FindReferencesTool', () => {
+  const rootDir = path.resolve('/workspace');
+  const abortSignal = new AbortController().signal;
+  const params = { file_path: 'src/main.ts', line: 3, symbol: 'total' };
+  let request: ReturnType<typeof vi.fn>;
+  let tool: FindReferencesTool;
+
+  const reference = (fileName: string, line: number) => ({
+    uri: pathToUri(path.join(rootDir, fileName)),
+    range: {
+      start: { line, character: 0 },
+      end: { line, character: 5 },
+    },
+  });
+
+  beforeEach(() => {
+    request = vi.fn().mockResolvedValue(null);
+    const mockConfig = {
+      getTargetDir: () => rootDir,
+      getLspManager: () =>
+        ({
+          locateSymbol: vi.fn().mockResolvedValue({
+            client: { request },
+            position: {
+              textDocument: { uri: pathToUri(path.join(rootDir, 'main.ts')) },
+              position: { line: 2, character: 0 },
+            },
+          }),
+          getServerName: () => 'tsserver',
+        }) as unknown as LspManager,
+      validatePathAccess: () => null,
+    } as unknown as Config;
+    tool = new FindReferencesTool(mockConfig, createMockMessageBus());
+  });
+
+  it('should request references including the declaration', async () => {
+    request.mockResolvedValue([reference('a.ts', 0), reference('b.ts', 4)]);
+
+    const result = await tool.build(params).execute(abortSignal);
+
+    expect(request).toHaveBeenCalledWith(
+      'textDocument/references',
+      expect.objectContaining({ context: { includeDeclaration: true } }),
+    );
+    expect(result.llmContent).toBe(
+      'Found 2 reference(s) to "total", including its declaration:\na.ts:1:1\nb.ts:5:1',
+    );
+    expect(result.returnDisplay).toBe('Found 2 reference(s)');
+  });
+
+  it('should truncate long reference lists', async () => {
+    request.mockResolvedValue(
+      Array.from({ length: 205 }, (_, i) => reference('a.ts', i)),
+    );
+
+    const result = await tool.build(params).execute(abortSignal);
+
+    expect(result.llmContent).toContain('a.ts:200:1\n(5 more not shown)');
+  });
+
+  it('should report when there are no references', async () => {
+    const result = await tool.build(params).execute(abortSignal);
+
+    expect(result.llmContent).toBe('No references found for "total".');
+  });
+});
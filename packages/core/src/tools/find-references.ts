@@ -0,0 +1,145 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'node:path';
+import type { MessageBus } from '../confirmation-bus/message-bus.js';
+import type { Config } from '../config/config.js';
+import { makeRelative, shortenPath } from '../utils/paths.js';
+import { formatLocation } from '../lsp/lsp-utils.js';
+import type { Location } from '../lsp/types.js';
+import type { ToolInvocation, ToolLocation, ToolResult } from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+import { FIND_REFERENCES_TOOL_NAME } from './tool-names.js';
+import {
+  lspRequestFailedResult,
+  symbolNotFoundResult,
+  SYMBOL_POSITION_SCHEMA_PROPERTIES,
+  validateSymbolPositionParams,
+  type SymbolPositionParams,
+} from './lsp-tool-utils.js';
+
+const MAX_REFERENCES = 200;
+
+class FindReferencesToolInvocation extends BaseToolInvocation<
+  SymbolPositionParams,
+  ToolResult
+> {
+  private readonly resolvedPath: string;
+
+  constructor(
+    private readonly config: Config,
+    params: SymbolPositionParams,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ) {
+    super(params, messageBus, _toolName, _toolDisplayName);
+    this.resolvedPath = path.resolve(
+      this.config.getTargetDir(),
+      this.params.file_path,
+    );
+  }
+
+  getDescription(): string {
+    const relativePath = makeRelative(
+      this.resolvedPath,
+      this.config.getTargetDir(),
+    );
+    return `'${this.params.symbol}' in ${shortenPath(relativePath)}:${this.params.line}`;
+  }
+
+  override toolLocations(): ToolLocation[] {
+    return [{ path: this.resolvedPath, line: this.params.line }];
+  }
+
+  async execute(): Promise<ToolResult> {
+    try {
+      const located = await this.config
+        .getLspManager()
+        .locateSymbol(this.resolvedPath, this.params.line, this.params.symbol);
+      if (!located) {
+        return symbolNotFoundResult(this.params);
+      }
+      const locations =
+        (await located.client.request<Location[] | null>(
+          'textDocument/references',
+          { ...located.position, context: { includeDeclaration: true } },
+        )) ?? [];
+      if (locations.length === 0) {
+        return {
+          llmContent: `No references found for "${this.params.symbol}".`,
+          returnDisplay: 'No references found',
+        };
+      }
+      const targetDir = this.config.getTargetDir();
+      const shown = locations.slice(0, MAX_REFERENCES);
+      let llmContent = `Found ${locations.length} reference(s) to "${this.params.symbol}", including its declaration:\n${shown
+        .map((location) => formatLocation(location, targetDir))
+        .join('\n')}`;
+      if (locations.length > shown.length) {
+        llmContent += `\n(${locations.length - shown.length} more not shown)`;
+      }
+      return {
+        llmContent,
+        returnDisplay: `Found ${locations.length} reference(s)`,
+      };
+    } catch (error) {
+      return lspRequestFailedResult('finding references', error);
+    }
+  }
+}
+
+/**
+ * Lists the usages of a symbol across the workspace using the language
+ * server configured for the file's language.
+ */
+export class FindReferencesTool extends BaseDeclarativeTool<
+  SymbolPositionParams,
+  ToolResult
+> {
+  static readonly Name = FIND_REFERENCES_TOOL_NAME;
+
+  constructor(
+    private readonly config: Config,
+    messageBus: MessageBus,
+  ) {
+    super(
+      FindReferencesTool.Name,
+      'FindReferences',
+      'Finds every reference to a symbol (function, class, variable, type, ...) across the workspace, using a language server. Identify the symbol by a file and 1-based line where it appears and its name as written on that line. Returns file:line:column locations, including the declaration.',
+      Kind.Search,
+      {
+        type: 'object',
+        properties: SYMBOL_POSITION_SCHEMA_PROPERTIES,
+        required: ['file_path', 'line', 'symbol'],
+      },
+      messageBus,
+      false, // isOutputMarkdown
+      false, // canUpdateOutput
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: SymbolPositionParams,
+  ): string | null {
+    return validateSymbolPositionParams(this.config, params);
+  }
+
+  protected createInvocation(
+    params: SymbolPositionParams,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ): ToolInvocation<SymbolPositionParams, ToolResult> {
+    return new FindReferencesToolInvocation(
+      this.config,
+      params,
+      messageBus,
+      _toolName,
+      _toolDisplayName,
+    );
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import path from 'node:path';
+import {
+  IdeDiagnosticsTool,
+  IdeFindDefinitionTool,
+  IdeFindReferencesTool,
+  IdeWorkspaceSymbolsTool,
+} from './ide-tools.js';
+import type { Config } from '../config/config.js';
+import { IdeClient } from '../ide/ide-client.js';
+import { ToolErrorType } from './tool-error.js';
+import { createMockMessageBus } from '../test-utils/mock-message-bus.js';
+
+vi.mock('../ide/ide-client.js', () => ({
+  IdeClient: { getInstance: vi.fn() },
+}));
+
+describe('IDE tools', () => {
+  const rootDir = path.resolve('/workspace');
+  const abortSignal = new AbortController().signal;
+  let callTool: ReturnType<typeof vi.fn>;
+  let mockConfig: Config;
+
+  beforeEach(() => {
+    callTool = vi.fn();
+    vi.mocked(IdeClient.getInstance).mockResolvedValue({
+      callTool,
+    } as unknown as IdeClient);
+    mockConfig = {
+      getTargetDir: () => rootDir,
+      validatePathAccess: (absolutePath: string) =>
+        absolutePath.startsWith(rootDir + path.sep)
+          ? null
+          : `Path not in workspace: ${absolutePath}`,
+    } as unknown as Config;
+  });
+
+  describe('IdeDiagnosticsTool', () => {
+    let tool: IdeDiagnosticsTool;
+
+    beforeEach(() => {
+      tool = new IdeDiagnosticsTool(mockConfig, createMockMessageBus());
+    });
+
+    it('should reject files outside the workspace', () => {
+      expect(() => tool.build({ file_path: '/etc/main.ts' })).toThrow(
+        'Path not in workspace',
+      );
+    });
+
+    it('should list the problems with errors first', async () => {
+      callTool.mockResolvedValue(
+        JSON.stringify({
+          diagnostics: [
+            {
+              filePath: path.join(rootDir, 'src', 'a.ts'),
+              line: 4,
+              character: 7,
+              severity: 'warning',
+              message: "'x' is unused",
+            },
+            {
+              filePath: path.join(rootDir, 'src', 'b.ts'),
+              line: 1,
+              character: 1,
+              severity: 'error',
+              message: 'Cannot find name',
+              source: 'ts',
+            },
+          ],
+        }),
+      );
+
+      const result = await tool
+        .build({ file_path: 'src/a.ts' })
+        .execute(abortSignal);
+
+      expect(callTool).toHaveBeenCalledWith('getDiagnostics', {
+        filePath: path.join(rootDir, 'src', 'a.ts'),
+      });
+      expect(result.llmContent).toBe(
+        [
+          'Problems reported by the IDE:',
+          `${path.join('src', 'b.ts')}:1:1 error: Cannot find name [ts]`,
+          `${path.join('src', 'a.ts')}:4:7 warning: 'x' is unused`,
+        ].join('\n'),
+      );
+      expect(result.returnDisplay).toBe('Found 2 problem(s)');
+    });
+
+    it('should report when there are no problems', async () => {
+      callTool.mockResolvedValue(JSON.stringify({ diagnostics: [] }));
+
+      const result = await tool.build({}).execute(abortSignal);
+
+      expect(callTool).toHaveBeenCalledWith('getDiagnostics', {
+        filePath: undefined,
+      });
+      expect(result.llmContent).toBe('The IDE reports no problems.');
+    });
+  });
+
+  describe.each([
+    [
+      IdeFindDefinitionTool.Name,
+      IdeFindDefinitionTool,
+      'getDefinition',
+      'Definition(s)',
+      'definition',
+    ],
+    [
+      IdeFindReferencesTool.Name,
+      IdeFindReferencesTool,
+      'getReferences',
+      'References',
+      'reference',
+    ],
+  ])('%s', (_name, ToolClass, ideToolName, heading, label) => {
+    let tool: IdeFindDefinitionTool | IdeFindReferencesTool;
+
+    beforeEach(() => {
+      tool = new ToolClass(mockConfig, createMockMessageBus());
+    });
+
+    it('should reject an empty symbol', () => {
+      expect(() =>
+        tool.build({ file_path: 'src/main.ts', line: 1, symbol: ' ' }),
+      ).toThrow("The 'symbol' parameter cannot be empty.");
+    });
+
+    it('should list the locations', async () => {
+      callTool.mockResolvedValue(
+        JSON.stringify({
+          locations: [
+            {
+              filePath: path.join(rootDir, 'src', 'config.ts'),
+              line: 10,
+              character: 17,
+            },
+          ],
+        }),
+      );
+
+      const result = await tool
+        .build({ file_path: 'src/main.ts', line: 3, symbol: 'parseConfig' })
+        .execute(abortSignal);
+
+      expect(callTool).toHaveBeenCalledWith(ideToolName, {
+        filePath: path.join(rootDir, 'src', 'main.ts'),
+        line: 3,
+        symbol: 'parseConfig',
+      });
+      expect(result.llmContent).toBe(
+        `${heading} of "parseConfig":\n${path.join('src', 'config.ts')}:10:17`,
+      );
+      expect(result.returnDisplay).toBe(`Found 1 ${label}(s)`);
+    });
+
+    it('should return an error when the IDE call fails', async () => {
+      callTool.mockRejectedValue(new Error('Symbol not found'));
+
+      const result = await tool
+        .build({ file_path: 'src/main.ts', line: 3, symbol: 'parseConfig' })
+        .execute(abortSignal);
+
+      expect(result.error?.type).toBe(ToolErrorType.IDE_TOOL_ERROR);
+      expect(result.llmContent).toBe(
+        `Error finding ${label}s: Symbol not found`,
+      );
+    });
+  });
+
+  describe('IdeWorkspaceSymbolsTool', () => {
+    let tool: IdeWorkspaceSymbolsTool;
+
+    beforeEach(() => {
+      tool = new IdeWorkspaceSymbolsTool(mockConfig, createMockMessageBus());
+    });
+
+    it('should reject an empty query', () => {
+      expect(() => tool.build({ query: '' })).toThrow(
+        "The 'query' parameter cannot be empty.",
+      );
+    });
+
+    it('should list the matching symbols', async () => {
+      callTool.mockResolvedValue(
+        JSON.stringify({
+          symbols: [
+            {
+              filePath: path.join(rootDir, 'src', 'config.ts'),
+              line: 5,
+              character: 3,
+              name: 'load',
+              kind: 'method',
+              containerName: 'ConfigLoader',
+            },
+          ],
+        }),
+      );
+
+      const result = await tool.build({ query: 'load' }).execute(abortSignal);
+
+      expect(callTool).toHaveBeenCalledWith('findSymbols', { query: 'load' });
+      expect(result.llmContent).toBe(
+        `Symbols matching "load":\n${path.join('src', 'config.ts')}:5:3 method load in ConfigLoader`,
+      );
+    });
+
+    it('should return an error for a malformed response', async () => {
+      callTool.mockResolvedValue('not json');
+
+      const result = await tool.build({ query: 'load' }).execute(abortSignal);
+
+      expect(result.error?.type).toBe(ToolErrorType.IDE_TOOL_ERROR);
+    });
+  });
+});
@@ -0,0 +1,504 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'node:path';
+import type { z } from 'zod';
+import type { MessageBus } from '../confirmation-bus/message-bus.js';
+import type { Config } from '../config/config.js';
+import { IdeClient } from '../ide/ide-client.js';
+import {
+  FindSymbolsResponseSchema,
+  GetDiagnosticsResponseSchema,
+  LocationsResponseSchema,
+  type IdeLocationSchema,
+} from '../ide/types.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { makeRelative, shortenPath } from '../utils/paths.js';
+import type { ToolInvocation, ToolLocation, ToolResult } from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+import { ToolErrorType } from './tool-error.js';
+import {
+  IDE_DIAGNOSTICS_TOOL_NAME,
+  IDE_FIND_DEFINITION_TOOL_NAME,
+  IDE_FIND_REFERENCES_TOOL_NAME,
+  IDE_WORKSPACE_SYMBOLS_TOOL_NAME,
+} from './tool-names.js';
+import {
+  SYMBOL_POSITION_SCHEMA_PROPERTIES,
+  type SymbolPositionParams,
+} from './lsp-tool-utils.js';
+
+/** Caps the entries listed in a result so large workspaces stay readable. */
+const MAX_RESULTS = 200;
+
+export interface IdeDiagnosticsParams {
+  /** Limits the diagnostics to this file. */
+  file_path?: string;
+}
+
+export interface IdeWorkspaceSymbolsParams {
+  /** The symbol name, or part of it, to search for. */
+  query: string;
+}
+
+function formatIdeLocation(
+  location: z.infer<typeof IdeLocationSchema>,
+  targetDir: string,
+): string {
+  return `${makeRelative(location.filePath, targetDir)}:${location.line}:${location.character}`;
+}
+
+function listResults(entries: string[]): string {
+  const listed = entries.slice(0, MAX_RESULTS).join('\n');
+  return entries.length > MAX_RESULTS
+    ? `${listed}\n... ${entries.length - MAX_RESULTS} more not shown`
+    : listed;
+}
+
+function validateFilePath(config: Config, filePath: string): string | null {
+  return config.validatePathAccess(
+    path.resolve(config.getTargetDir(), filePath),
+    'read',
+  );
+}
+
+/**
+ * Calls a tool on the IDE companion's MCP server and returns its text
+ * response.
+ */
+async function callIdeTool(
+  name: string,
+  args: Record<string, unknown>,
+): Promise<string> {
+  const ideClient = await IdeClient.getInstance();
+  return ideClient.callTool(name, args);
+}
+
+function ideToolFailedResult(action: string, error: unknown): ToolResult {
+  const message = `Error ${action}: ${getErrorMessage(error)}`;
+  return {
+    llmContent: message,
+    returnDisplay: `Error: ${getErrorMessage(error)}`,
+    error: { message, type: ToolErrorType.IDE_TOOL_ERROR },
+  };
+}
+
+class IdeDiagnosticsToolInvocation extends BaseToolInvocation<
+  IdeDiagnosticsParams,
+  ToolResult
+> {
+  private readonly resolvedPath: string | undefined;
+
+  constructor(
+    private readonly config: Config,
+    params: IdeDiagnosticsParams,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ) {
+    super(params, messageBus, _toolName, _toolDisplayName);
+    this.resolvedPath = this.params.file_path
+      ? path.resolve(this.config.getTargetDir(), this.params.file_path)
+      : undefined;
+  }
+
+  getDescription(): string {
+    if (!this.resolvedPath) {
+      return 'all files';
+    }
+    return shortenPath(
+      makeRelative(this.resolvedPath, this.config.getTargetDir()),
+    );
+  }
+
+  override toolLocations(): ToolLocation[] {
+    return this.resolvedPath ? [{ path: this.resolvedPath }] : [];
+  }
+
+  async execute(): Promise<ToolResult> {
+    try {
+      const { diagnostics } = GetDiagnosticsResponseSchema.parse(
+        JSON.parse(
+          await callIdeTool(IdeDiagnosticsTool.IdeToolName, {
+            filePath: this.resolvedPath,
+          }),
+        ),
+      );
+      if (diagnostics.length === 0) {
+        return {
+          llmContent: 'The IDE reports no problems.',
+          returnDisplay: 'No problems found',
+        };
+      }
+      const severityOrder = ['error', 'warning', 'info', 'hint'];
+      const targetDir = this.config.getTargetDir();
+      const entries = [...diagnostics]
+        .sort(
+          (a, b) =>
+            severityOrder.indexOf(a.severity) -
+            severityOrder.indexOf(b.severity),
+        )
+        .map((diagnostic) => {
+          const source = diagnostic.source ? ` [${diagnostic.source}]` : '';
+          return `${formatIdeLocation(diagnostic, targetDir)} ${diagnostic.severity}: ${diagnostic.message}${source}`;
+        });
+      return {
+        llmContent: `Problems reported by the IDE:\n${listResults(entries)}`,
+        returnDisplay: `Found ${diagnostics.length} problem(s)`,
+      };
+    } catch (error) {
+      return ideToolFailedResult('getting diagnostics from the IDE', error);
+    }
+  }
+}
+
+/**
+ * Lists the problems (errors, warnings, ...) the connected IDE currently
+ * reports, as shown in its problems panel.
+ */
+export class IdeDiagnosticsTool extends BaseDeclarativeTool<
+  IdeDiagnosticsParams,
+  ToolResult
+> {
+  static readonly Name = IDE_DIAGNOSTICS_TOOL_NAME;
+  /** The companion tool this tool calls. */
+  static readonly IdeToolName = 'getDiagnostics';
+
+  constructor(
+    private readonly config: Config,
+    messageBus: MessageBus,
+  ) {
+    super(
+      IdeDiagnosticsTool.Name,
+      'IdeDiagnostics',
+      "Lists the problems (compile errors, lint warnings, ...) the user's IDE currently reports, as shown in its problems panel. Pass a file path to only list the problems in that file. Returns file:line:column entries with their severity and message.",
+      Kind.Search,
+      {
+        type: 'object',
+        properties: {
+          file_path: {
+            type: 'string',
+            description:
+              'Optional: the path of a file to list the problems of. Lists the problems of all files when omitted.',
+          },
+        },
+      },
+      messageBus,
+      false, // isOutputMarkdown
+      false, // canUpdateOutput
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: IdeDiagnosticsParams,
+  ): string | null {
+    return params.file_path
+      ? validateFilePath(this.config, params.file_path)
+      : null;
+  }
+
+  protected createInvocation(
+    params: IdeDiagnosticsParams,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ): ToolInvocation<IdeDiagnosticsParams, ToolResult> {
+    return new IdeDiagnosticsToolInvocation(
+      this.config,
+      params,
+      messageBus,
+      _toolName,
+      _toolDisplayName,
+    );
+  }
+}
+
+class IdeSymbolLocationsToolInvocation extends BaseToolInvocation<
+  SymbolPositionParams,
+  ToolResult
+> {
+  private readonly resolvedPath: string;
+
+  constructor(
+    private readonly config: Config,
+    private readonly ideToolName: string,
+    private readonly resultLabel: 'definition' | 'reference',
+    params: SymbolPositionParams,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ) {
+    super(params, messageBus, _toolName, _toolDisplayName);
+    this.resolvedPath = path.resolve(
+      this.config.getTargetDir(),
+      this.params.file_path,
+    );
+  }
+
+  getDescription(): string {
+    const relativePath = makeRelative(
+      this.resolvedPath,
+      this.config.getTargetDir(),
+    );
+    return `'${this.params.symbol}' in ${shortenPath(relativePath)}:${this.params.line}`;
+  }
+
+  override toolLocations(): ToolLocation[] {
+    return [{ path: this.resolvedPath, line: this.params.line }];
+  }
+
+  async execute(): Promise<ToolResult> {
+    try {
+      const { locations } = LocationsResponseSchema.parse(
+        JSON.parse(
+          await callIdeTool(this.ideToolName, {
+            filePath: this.resolvedPath,
+            line: this.params.line,
+            symbol: this.params.symbol,
+          }),
+        ),
+      );
+      if (locations.length === 0) {
+        return {
+          llmContent: `No ${this.resultLabel} found for "${this.params.symbol}".`,
+          returnDisplay: `No ${this.resultLabel} found`,
+        };
+      }
+      const targetDir = this.config.getTargetDir();
+      const heading =
+        this.resultLabel === 'definition' ? 'Definition(s)' : 'References';
+      return {
+        llmContent: `${heading} of "${this.params.symbol}":\n${listResults(
+          locations.map((location) => formatIdeLocation(location, targetDir)),
+        )}`,
+        returnDisplay: `Found ${locations.length} ${this.resultLabel}(s)`,
+      };
+    } catch (error) {
+      return ideToolFailedResult(`finding ${this.resultLabel}s`, error);
+    }
+  }
+}
+
+/**
+ * Base for the tools that resolve a symbol position through the connected
+ * IDE's language features.
+ */
+abstract class IdeSymbolLocationsTool extends BaseDeclarativeTool<
+  SymbolPositionParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    private readonly ideToolName: string,
+    private readonly resultLabel: 'definition' | 'reference',
+    name: string,
+    displayName: string,
+    description: string,
+    messageBus: MessageBus,
+  ) {
+    super(
+      name,
+      displayName,
+      description,
+      Kind.Search,
+      {
+        type: 'object',
+        properties: SYMBOL_POSITION_SCHEMA_PROPERTIES,
+        required: ['file_path', 'line', 'symbol'],
+      },
+      messageBus,
+      false, // isOutputMarkdown
+      false, // canUpdateOutput
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: SymbolPositionParams,
+  ): string | null {
+    if (params.symbol.trim() === '') {
+      return "The 'symbol' parameter cannot be empty.";
+    }
+    return validateFilePath(this.config, params.file_path);
+  }
+
+  protected createInvocation(
+    params: SymbolPositionParams,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ): ToolInvocation<SymbolPositionParams, ToolResult> {
+    return new IdeSymbolLocationsToolInvocation(
+      this.config,
+      this.ideToolName,
+      this.resultLabel,
+      params,
+      messageBus,
+      _toolName,
+      _toolDisplayName,
+    );
+  }
+}
+
+/**
+ * Jumps to the definition of a symbol using the connected IDE's language
+ * features.
+ */
+export class IdeFindDefinitionTool extends IdeSymbolLocationsTool {
+  static readonly Name = IDE_FIND_DEFINITION_TOOL_NAME;
+  static readonly IdeToolName = 'getDefinition';
+
+  constructor(config: Config, messageBus: MessageBus) {
+    super(
+      config,
+      IdeFindDefinitionTool.IdeToolName,
+      'definition',
+      IdeFindDefinitionTool.Name,
+      'IdeFindDefinition',
+      "Finds where a symbol (function, class, variable, type, ...) is defined, using the language support of the user's IDE. Identify the symbol by the file and 1-based line where it is used and its name as written on that line. Returns file:line:column locations.",
+      messageBus,
+    );
+  }
+}
+
+/**
+ * Lists the references to a symbol using the connected IDE's language
+ * features.
+ */
+export class IdeFindReferencesTool extends IdeSymbolLocationsTool {
+  static readonly Name = IDE_FIND_REFERENCES_TOOL_NAME;
+  static readonly IdeToolName = 'getReferences';
+
+  constructor(config: Config, messageBus: MessageBus) {
+    super(
+      config,
+      IdeFindReferencesTool.IdeToolName,
+      'reference',
+      IdeFindReferencesTool.Name,
+      'IdeFindReferences',
+      "Finds all references to a symbol across the workspace, using the language support of the user's IDE. Identify the symbol by the file and 1-based line where it appears and its name as written on that line. Returns file:line:column locations.",
+      messageBus,
+    );
+  }
+}
+
+class IdeWorkspaceSymbolsToolInvocation extends BaseToolInvocation<
+  IdeWorkspaceSymbolsParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    params: IdeWorkspaceSymbolsParams,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ) {
+    super(params, messageBus, _toolName, _toolDisplayName);
+  }
+
+  getDescription(): string {
+    return `'${this.params.query}'`;
+  }
+
+  async execute(): Promise<ToolResult> {
+    try {
+      const { symbols } = FindSymbolsResponseSchema.parse(
+        JSON.parse(
+          await callIdeTool(IdeWorkspaceSymbolsTool.IdeToolName, {
+            query: this.params.query,
+          }),
+        ),
+      );
+      if (symbols.length === 0) {
+        return {
+          llmContent: `No symbols found matching "${this.params.query}".`,
+          returnDisplay: 'No symbols found',
+        };
+      }
+      const targetDir = this.config.getTargetDir();
+      const entries = symbols.map((symbol) => {
+        const container = symbol.containerName
+          ? ` in ${symbol.containerName}`
+          : '';
+        return `${formatIdeLocation(symbol, targetDir)} ${symbol.kind} ${symbol.name}${container}`;
+      });
+      return {
+        llmContent: `Symbols matching "${this.params.query}":\n${listResults(entries)}`,
+        returnDisplay: `Found ${symbols.length} symbol(s)`,
+      };
+    } catch (error) {
+      return ideToolFailedResult('searching workspace symbols', error);
+    }
+  }
+}
+
+/**
+ * Searches the symbols of the whole workspace using the connected IDE's
+ * language features.
+ */
+export class IdeWorkspaceSymbolsTool extends BaseDeclarativeTool<
+  IdeWorkspaceSymbolsParams,
+  ToolResult
+> {
+  static readonly Name = IDE_WORKSPACE_SYMBOLS_TOOL_NAME;
+  static readonly IdeToolName = 'findSymbols';
+
+  constructor(
+    private readonly config: Config,
+    messageBus: MessageBus,
+  ) {
+    super(
+      IdeWorkspaceSymbolsTool.Name,
+      'IdeWorkspaceSymbols',
+      "Searches the functions, classes, variables and other symbols declared anywhere in the workspace by name, using the language support of the user's IDE. Matching is fuzzy, so a partial name works. Returns file:line:column locations with the kind of each symbol.",
+      Kind.Search,
+      {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'The symbol name, or part of it, to search for.',
+          },
+        },
+        required: ['query'],
+      },
+      messageBus,
+      false, // isOutputMarkdown
+      false, // canUpdateOutput
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: IdeWorkspaceSymbolsParams,
+  ): string | null {
+    if (params.query.trim() === '') {
+      return "The 'query' parameter cannot be empty.";
+    }
+    return null;
+  }
+
+  protected createInvocation(
+    params: IdeWorkspaceSymbolsParams,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ): ToolInvocation<IdeWorkspaceSymbolsParams, ToolResult> {
+    return new IdeWorkspaceSymbolsToolInvocation(
+      this.config,
+      params,
+      messageBus,
+      _toolName,
+      _toolDisplayName,
+    );
+  }
+}
+
+/** The tools backed by the IDE companion, in registration order. */
+export const IDE_TOOL_CLASSES = [
+  IdeDiagnosticsTool,
+  IdeFindDefinitionTool,
+  IdeFindReferencesTool,
+  IdeWorkspaceSymbolsTool,
+];
@@ -0,0 +1,71 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { KillShellTool } from './kill-shell.js';
+import {
+  ShellExecutionService,
+  type BackgroundProcessOutput,
+} from '../services/shellExecutionService.js';
+import { ToolErrorType } from './tool-error.js';
+import { createMockMessageBus } from '../test-utils/mock-message-bus.js';
+
+vi.mock('../services/shellExecutionService.js', () => ({
+  ShellExecutionService: {
+    getBackgroundOutput: vi.fn(),
+    kill: vi.fn(),
+  },
+}));
+
+describe('KillShellTool', () => {
+  const abortSignal = new AbortController().signal;
+  let snapshot: BackgroundProcessOutput | undefined;
+  let tool: KillShellTool;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    snapshot = {
+      output: 'listening on 3000',
+      acceptsInput: true,
+      exited: false,
+      exitCode: null,
+      signal: null,
+    };
+    vi.mocked(ShellExecutionService.getBackgroundOutput).mockImplementation(
+      () => snapshot,
+    );
+    tool = new KillShellTool(createMockMessageBus());
+  });
+
+  it('should kill a running background process', async () => {
+    const result = await tool.build({ pid: 42 }).execute(abortSignal);
+
+    expect(ShellExecutionService.kill).toHaveBeenCalledWith(42);
+    expect(result.llmContent).toBe(
+      'Stopped background process 42 and its child processes.',
+    );
+  });
+
+  it('should not kill a process that has already exited', async () => {
+    snapshot = { ...snapshot!, exited: true, exitCode: 0 };
+
+    const result = await tool.build({ pid: 42 }).execute(abortSignal);
+
+    expect(ShellExecutionService.kill).not.toHaveBeenCalled();
+    expect(result.llmContent).toBe(
+      'Background process 42 has already exited with code 0.',
+    );
+  });
+
+  it('should return an error for an unknown process', async () => {
+    snapshot = undefined;
+
+    const result = await tool.build({ pid: 42 }).execute(abortSignal);
+
+    expect(ShellExecutionService.kill).not.toHaveBeenCalled();
+    expect(result.error?.type).toBe(ToolErrorType.BACKGROUND_PROCESS_NOT_FOUND);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { MessageBus } from '../confirmation-bus/message-bus.js';
+import { ShellExecutionService } from '../services/shellExecutionService.js';
+import type { ToolInvocation, ToolResult } from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+import { KILL_SHELL_TOOL_NAME } from './tool-names.js';
+import {
+  describeProcessStatus,
+  PID_SCHEMA_PROPERTY,
+  processNotFoundResult,
+  type BackgroundProcessParams,
+} from './background-shell-utils.js';
+
+class KillShellToolInvocation extends BaseToolInvocation<
+  BackgroundProcessParams,
+  ToolResult
+> {
+  getDescription(): string {
+    return `PID ${this.params.pid}`;
+  }
+
+  async execute(): Promise<ToolResult> {
+    const { pid } = this.params;
+    const snapshot = ShellExecutionService.getBackgroundOutput(pid);
+    if (!snapshot) {
+      return processNotFoundResult(pid);
+    }
+    if (snapshot.exited) {
+      const message = `Background process ${pid} has already ${describeProcessStatus(snapshot)}.`;
+      return { llmContent: message, returnDisplay: message };
+    }
+
+    ShellExecutionService.kill(pid);
+    return {
+      llmContent: `Stopped background process ${pid} and its child processes.`,
+      returnDisplay: `Stopped process ${pid}`,
+    };
+  }
+}
+
+/**
+ * Stops a command that run_shell_command moved to the background, together
+ * with its process group.
+ */
+export class KillShellTool extends BaseDeclarativeTool<
+  BackgroundProcessParams,
+  ToolResult
+> {
+  static readonly Name = KILL_SHELL_TOOL_NAME;
+
+  constructor(messageBus: MessageBus) {
+    super(
+      KillShellTool.Name,
+      'KillShell',
+      `Stops a background process started with run_shell_command and 'is_background: true', along with any processes it started. Use this to shut down dev servers and watchers once they are no longer needed.`,
+      Kind.Execute,
+      {
+        type: 'object',
+        properties: {
+          pid: PID_SCHEMA_PROPERTY,
+        },
+        required: ['pid'],
+      },
+      messageBus,
+      false, // isOutputMarkdown
+      false, // canUpdateOutput
+    );
+  }
+
+  protected createInvocation(
+    params: BackgroundProcessParams,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ): ToolInvocation<BackgroundProcessParams, ToolResult> {
+    return new KillShellToolInvocation(
+      params,
+      messageBus,
+      _toolName,
+      _toolDisplayName,
+    );
+  }
+}
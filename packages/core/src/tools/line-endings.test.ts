@@ -30,6 +30,7 @@ import {
   ensureCorrectFileContent,
 } from '../utils/editCorrector.js';
 import { StandardFileSystemService } from '../services/fileSystemService.js';
+import { LspManager } from '../lsp/lsp-manager.js';
 import { WorkspaceContext } from '../utils/workspaceContext.js';
 import {
   createMockMessageBus,
@@ -64,6 +65,7 @@ const mockConfigInternal = {
   getGeminiClient: vi.fn(),
   getBaseLlmClient: vi.fn(),
   getFileSystemService: () => fsService,
+  getLspManager: () => new LspManager(rootDir),
   getIdeMode: vi.fn(() => false),
   getWorkspaceContext: () => new WorkspaceContext(rootDir),
   getApiKey: () => 'test-key',
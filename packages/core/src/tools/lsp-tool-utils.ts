@@ -0,0 +1,95 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'node:path';
+import type { Config } from '../config/config.js';
+import { getErrorMessage } from '../utils/errors.js';
+import type { ToolResult } from './tools.js';
+import { ToolErrorType } from './tool-error.js';
+
+export interface SymbolPositionParams {
+  /** The path of the file containing the symbol. */
+  file_path: string;
+  /** The 1-based line the symbol appears on. */
+  line: number;
+  /** The symbol as written on that line. */
+  symbol: string;
+}
+
+export const SYMBOL_POSITION_SCHEMA_PROPERTIES = {
+  file_path: {
+    type: 'string',
+    description: 'The path of the file containing the symbol.',
+  },
+  line: {
+    type: 'integer',
+    minimum: 1,
+    description: 'The 1-based line number the symbol appears on.',
+  },
+  symbol: {
+    type: 'string',
+    description:
+      'The identifier exactly as written on that line, e.g. "parseConfig".',
+  },
+};
+
+/**
+ * Checks that a file is readable and handled by a configured language server.
+ */
+export function validateLspFilePath(
+  config: Config,
+  filePath: string,
+): string | null {
+  const resolvedPath = path.resolve(config.getTargetDir(), filePath);
+  const accessError = config.validatePathAccess(resolvedPath, 'read');
+  if (accessError) {
+    return accessError;
+  }
+  if (!config.getLspManager().getServerName(resolvedPath)) {
+    return `No language server is configured for ${filePath}.`;
+  }
+  return null;
+}
+
+/**
+ * Validates the parameters shared by the symbol navigation tools.
+ */
+export function validateSymbolPositionParams(
+  config: Config,
+  params: SymbolPositionParams,
+): string | null {
+  if (params.symbol.trim() === '') {
+    return "The 'symbol' parameter cannot be empty.";
+  }
+  return validateLspFilePath(config, params.file_path);
+}
+
+/**
+ * Builds the error result returned when `symbol` is not on the given line.
+ */
+export function symbolNotFoundResult(params: SymbolPositionParams): ToolResult {
+  const message = `Symbol "${params.symbol}" not found on line ${params.line} of ${params.file_path}.`;
+  return {
+    llmContent: message,
+    returnDisplay: message,
+    error: { message, type: ToolErrorType.LSP_SYMBOL_NOT_FOUND },
+  };
+}
+
+/**
+ * Builds the error result returned when a language server request fails.
+ */
+export function lspRequestFailedResult(
+  action: string,
+  error: unknown,
+): ToolResult {
+  const message = `Error ${action}: ${getErrorMessage(error)}`;
+  return {
+    llmContent: message,
+    returnDisplay: `Error: ${getErrorMessage(error)}`,
+    error: { message, type: ToolErrorType.LSP_REQUEST_FAILED },
+  };
+}
@@ -18,7 +18,12 @@ import { MCPOAuthProvider } from '../mcp/oauth-provider.js';
 import { MCPOAuthTokenStorage } from '../mcp/oauth-token-storage.js';
 import { OAuthUtils } from '../mcp/oauth-utils.js';
 import type { PromptRegistry } from '../prompts/prompt-registry.js';
-import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ListRootsRequestSchema,
+  ToolListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 import { ApprovalMode, PolicyDecision } from '../policy/types.js';
 
 import { WorkspaceContext } from '../utils/workspaceContext.js';
@@ -790,6 +795,99 @@ describe('mcp-client', () => {
       );
     });
 
+    it('subscribes to resources and caches contents on update notifications', async () => {
+      let resourceUpdatedHandler:
+        | ((notification: unknown) => Promise<void> | void)
+        | undefined;
+      const mockedClient = {
+        connect: vi.fn(),
+        discover: vi.fn(),
+        disconnect: vi.fn(),
+        getStatus: vi.fn(),
+        registerCapabilities: vi.fn(),
+        setRequestHandler: vi.fn(),
+        setNotificationHandler: vi.fn((_, handler) => {
+          resourceUpdatedHandler = handler;
+        }),
+        getServerCapabilities: vi
+          .fn()
+          .mockReturnValue({ resources: { subscribe: true } }),
+        subscribeResource: vi.fn().mockResolvedValue({}),
+        unsubscribeResource: vi.fn().mockResolvedValue({}),
+        request: vi.fn().mockImplementation(({ method }) => {
+          if (method === 'resources/list') {
+            return Promise.resolve({
+              resources: [{ uri: 'file:///tmp/one.txt', name: 'one' }],
+            });
+          }
+          if (method === 'resources/read') {
+            return Promise.resolve({
+              contents: [{ uri: 'file:///tmp/one.txt', text: 'updated' }],
+            });
+          }
+          return Promise.resolve({ prompts: [] });
+        }),
+      } as unknown as ClientLib.Client;
+      vi.mocked(ClientLib.Client).mockReturnValue(mockedClient);
+      vi.spyOn(SdkClientStdioLib, 'StdioClientTransport').mockReturnValue(
+        {} as SdkClientStdioLib.StdioClientTransport,
+      );
+      const mockedToolRegistry = {
+        registerTool: vi.fn(),
+        sortTools: vi.fn(),
+        getMessageBus: vi.fn().mockReturnValue(undefined),
+      } as unknown as ToolRegistry;
+      const promptRegistry = {
+        registerPrompt: vi.fn(),
+        removePromptsByServer: vi.fn(),
+      } as unknown as PromptRegistry;
+      const resourceRegistry = {
+        setResourcesForServer: vi.fn(),
+        setResourceContents: vi.fn(),
+        removeResourcesByServer: vi.fn(),
+      } as unknown as ResourceRegistry;
+      const client = new McpClient(
+        'test-server',
+        {
+          command: 'test-command',
+        },
+        mockedToolRegistry,
+        promptRegistry,
+        resourceRegistry,
+        workspaceContext,
+        { sanitizationConfig: EMPTY_CONFIG } as Config,
+        false,
+        '0.0.1',
+      );
+      await client.connect();
+      await client.discover({} as Config);
+
+      expect(mockedClient.subscribeResource).toHaveBeenCalledWith({
+        uri: 'file:///tmp/one.txt',
+      });
+      expect(resourceUpdatedHandler).toBeDefined();
+
+      await resourceUpdatedHandler?.({
+        method: 'notifications/resources/updated',
+        params: { uri: 'file:///tmp/one.txt' },
+      });
+
+      expect(resourceRegistry.setResourceContents).toHaveBeenCalledWith(
+        'test-server',
+        'file:///tmp/one.txt',
+        {
+          contents: [{ uri: 'file:///tmp/one.txt', text: 'updated' }],
+        },
+      );
+
+      // Updates for resources that were never subscribed are ignored.
+      await resourceUpdatedHandler?.({
+        method: 'notifications/resources/updated',
+        params: { uri: 'file:///tmp/other.txt' },
+      });
+      expect(resourceRegistry.setResourceContents).toHaveBeenCalledTimes(1);
+    });
+
     it('refreshes prompts when prompt list change notification is received', async () => {
       let listCallCount = 0;
       let promptListHandler:
@@ -2312,3 +2410,76 @@ describe('connectToMcpServer - OAuth with transport fallback', () => {
     expect(mockAuthProvider.authenticate).toHaveBeenCalledOnce();
   });
 });
+
+describe('connectToMcpServer - server requests', () => {
+  let mockedClient: ClientLib.Client;
+  let workspaceContext: WorkspaceContext;
+  const cliConfig = { sanitizationConfig: EMPTY_CONFIG } as Config;
+
+  beforeEach(() => {
+    mockedClient = {
+      connect: vi.fn(),
+      close: vi.fn(),
+      registerCapabilities: vi.fn(),
+      setRequestHandler: vi.fn(),
+      onclose: vi.fn(),
+      notification: vi.fn(),
+    } as unknown as ClientLib.Client;
+    vi.mocked(ClientLib.Client).mockImplementation(() => mockedClient);
+    vi.spyOn(SdkClientStdioLib, 'StdioClientTransport').mockReturnValue(
+      {} as SdkClientStdioLib.StdioClientTransport,
+    );
+    workspaceContext = new WorkspaceContext(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'gemini-agent-test-')),
+    );
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const getRequestSchemas = () =>
+    vi
+      .mocked(mockedClient.setRequestHandler)
+      .mock.calls.map(([schema]) => schema);
+
+  it('should advertise form elicitation but not sampling by default', async () => {
+    await connectToMcpServer(
+      '0.0.1',
+      'test-server',
+      { command: 'test-command' },
+      false,
+      workspaceContext,
+      EMPTY_CONFIG,
+      cliConfig,
+    );
+
+    expect(mockedClient.registerCapabilities).toHaveBeenCalledWith({
+      elicitation: { form: { applyDefaults: true } },
+    });
+    expect(mockedClient.registerCapabilities).not.toHaveBeenCalledWith({
+      sampling: {},
+    });
+    expect(getRequestSchemas()).toEqual([
+      ListRootsRequestSchema,
+      ElicitRequestSchema,
+    ]);
+  });
+
+  it('should advertise sampling when the server opts in', async () => {
+    await connectToMcpServer(
+      '0.0.1',
+      'test-server',
+      { command: 'test-command', allowSampling: true },
+      false,
+      workspaceContext,
+      EMPTY_CONFIG,
+      cliConfig,
+    );
+
+    expect(mockedClient.registerCapabilities).toHaveBeenCalledWith({
+      sampling: {},
+    });
+    expect(getRequestSchemas()).toContain(CreateMessageRequestSchema);
+  });
+});
@@ -24,10 +24,15 @@ import type {
   Resource,
 } from '@modelcontextprotocol/sdk/types.js';
 import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ErrorCode,
   ListResourcesResultSchema,
   ListRootsRequestSchema,
+  McpError,
   ReadResourceResultSchema,
   ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
   ToolListChangedNotificationSchema,
   PromptListChangedNotificationSchema,
   type Tool as McpTool,
@@ -43,15 +48,21 @@ import { AuthProviderType } from '../config/config.js';
 import { GoogleCredentialProvider } from '../mcp/google-auth-provider.js';
 import { ServiceAccountImpersonationProvider } from '../mcp/sa-impersonation-provider.js';
 import { DiscoveredMCPTool } from './mcp-tool.js';
+import type {
+  McpToolCallOptions,
+  ProgressReportingCallableTool,
+} from './mcp-tool.js';
 import { XcodeMcpBridgeFixTransport } from './xcode-mcp-fix-transport.js';
 
-import type { CallableTool, FunctionCall, Part, Tool } from '@google/genai';
+import type { FunctionCall, Part, Tool } from '@google/genai';
 import { basename } from 'node:path';
 import { pathToFileURL } from 'node:url';
 import type { McpAuthProvider } from '../mcp/auth-provider.js';
 import { MCPOAuthProvider } from '../mcp/oauth-provider.js';
 import { MCPOAuthTokenStorage } from '../mcp/oauth-token-storage.js';
 import { OAuthUtils } from '../mcp/oauth-utils.js';
+import { handleElicitationRequest } from '../mcp/elicitation.js';
+import { handleSamplingRequest } from '../mcp/sampling.js';
 import type { PromptRegistry } from '../prompts/prompt-registry.js';
 import {
   getErrorMessage,
@@ -121,6 +132,7 @@ export class McpClient {
   private pendingResourceRefresh: boolean = false;
   private isRefreshingPrompts: boolean = false;
   private pendingPromptRefresh: boolean = false;
+  private subscribedResourceUris: Set<string> = new Set();
 
   constructor(
     private readonly serverName: string,
@@ -153,6 +165,7 @@ export class McpClient {
         this.debugMode,
         this.workspaceContext,
         this.cliConfig.sanitizationConfig,
+        this.cliConfig,
       );
       this.client = client;
       this.transport = transport;
@@ -197,6 +210,7 @@ export class McpClient {
     const tools = await this.discoverTools(cliConfig);
     const resources = await this.discoverResources();
     this.updateResourceRegistry(resources);
+    await this.syncResourceSubscriptions(resources);
 
     if (prompts.length === 0 && tools.length === 0 && resources.length === 0) {
       throw new Error('No prompts, tools, or resources found on the server.');
@@ -221,6 +235,7 @@ export class McpClient {
     this.toolRegistry.removeMcpToolsByServer(this.serverName);
     this.promptRegistry.removePromptsByServer(this.serverName);
     this.resourceRegistry.removeResourcesByServer(this.serverName);
+    this.subscribedResourceUris.clear();
     this.updateStatus(MCPServerStatus.DISCONNECTING);
     const client = this.client;
     this.client = undefined;
@@ -286,6 +301,73 @@ export class McpClient {
     this.resourceRegistry.setResourcesForServer(this.serverName, resources);
   }
 
+  /**
+   * Subscribes to `notifications/resources/updated` for every listed resource
+   * that is not yet subscribed, and drops subscriptions for resources the
+   * server no longer lists. No-op unless the server advertises
+   * `resources.subscribe`.
+   */
+  private async syncResourceSubscriptions(
+    resources: Resource[],
+  ): Promise<void> {
+    if (!this.client?.getServerCapabilities()?.resources?.subscribe) {
+      return;
+    }
+    const listedUris = new Set(resources.map((resource) => resource.uri));
+
+    for (const uri of Array.from(this.subscribedResourceUris)) {
+      if (listedUris.has(uri)) {
+        continue;
+      }
+      this.subscribedResourceUris.delete(uri);
+      try {
+        await this.client.unsubscribeResource({ uri });
+      } catch (error) {
+        debugLogger.warn(
+          `Failed to unsubscribe from resource '${uri}' on '${this.serverName}': ${getErrorMessage(error)}`,
+        );
+      }
+    }
+
+    for (const uri of listedUris) {
+      if (!uri || this.subscribedResourceUris.has(uri)) {
+        continue;
+      }
+      try {
+        await this.client.subscribeResource({ uri });
+        this.subscribedResourceUris.add(uri);
+      } catch (error) {
+        debugLogger.warn(
+          `Failed to subscribe to resource '${uri}' on '${this.serverName}': ${getErrorMessage(error)}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Re-reads a subscribed resource after the server reports it changed and
+   * caches the new contents in the ResourceRegistry.
+   */
+  private async refreshResourceContents(uri: string): Promise<void> {
+    if (
+      this.status !== MCPServerStatus.CONNECTED ||
+      !this.subscribedResourceUris.has(uri)
+    ) {
+      return;
+    }
+    const timeoutMs = this.serverConfig.timeout ?? MCP_DEFAULT_TIMEOUT_MSEC;
+    try {
+      const contents = await this.readResource(uri, {
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      this.resourceRegistry.setResourceContents(this.serverName, uri, contents);
+    } catch (error) {
+      debugLogger.error(
+        `Failed to refresh resource '${uri}' from '${this.serverName}': ${getErrorMessage(error)}`,
+      );
+    }
+  }
+
   async readResource(
     uri: string,
     options?: { signal?: AbortSignal },
@@ -344,6 +426,22 @@ export class McpClient {
       );
     }
 
+    if (capabilities?.resources?.subscribe) {
+      debugLogger.log(
+        `Server '${this.serverName}' supports resource subscriptions. Listening for updates...`,
+      );
+
+      this.client.setNotificationHandler(
+        ResourceUpdatedNotificationSchema,
+        async (notification) => {
+          debugLogger.log(
+            `🔔 Received resource updated notification for '${notification.params.uri}' from '${this.serverName}'`,
+          );
+          await this.refreshResourceContents(notification.params.uri);
+        },
+      );
+    }
+
     if (capabilities?.prompts?.listChanged) {
       debugLogger.log(
         `Server '${this.serverName}' supports prompt updates. Listening for changes...`,
@@ -401,6 +499,7 @@ export class McpClient {
         }
 
         this.updateResourceRegistry(newResources);
+        await this.syncResourceSubscriptions(newResources);
 
         clearTimeout(timeoutId);
 
@@ -936,6 +1035,7 @@ export async function connectAndDiscover(
       debugMode,
       workspaceContext,
       cliConfig.sanitizationConfig,
+      cliConfig,
     );
     mcpClient = result.client;
     transport = result.transport;
@@ -1094,7 +1194,7 @@ export async function discoverTools(
   }
 }
 
-class McpCallableTool implements CallableTool {
+class McpCallableTool implements ProgressReportingCallableTool {
   constructor(
     private readonly client: Client,
     private readonly toolDef: McpTool,
@@ -1113,7 +1213,10 @@ class McpCallableTool implements CallableTool {
     };
   }
 
-  async callTool(functionCalls: FunctionCall[]): Promise<Part[]> {
+  async callTool(
+    functionCalls: FunctionCall[],
+    options?: McpToolCallOptions,
+  ): Promise<Part[]> {
     // We only expect one function call at a time for MCP tools in this context
     if (functionCalls.length !== 1) {
       throw new Error('McpCallableTool only supports single function call');
@@ -1128,7 +1231,16 @@ class McpCallableTool implements CallableTool {
           arguments: call.args as Record<string, unknown>,
         },
         undefined,
-        { timeout: this.timeout },
+        {
+          timeout: this.timeout,
+          // Supplying onprogress makes the SDK attach a progress token to the
+          // request; long-running tools that report progress keep their
+          // timeout alive.
+          ...(options?.onProgress && {
+            onprogress: options.onProgress,
+            resetTimeoutOnProgress: true,
+          }),
+        },
       );
 
       return [
@@ -1462,6 +1574,45 @@ async function retryWithOAuth(
   }
 }
 
+/**
+ * Lets the server ask the user for input through elicitation and, when the
+ * server has opted in with `allowSampling`, request completions from the
+ * model through sampling. Must run before the client connects so that the
+ * capabilities are advertised during initialization.
+ */
+function registerServerRequestHandlers(
+  mcpClient: Client,
+  mcpServerName: string,
+  mcpServerConfig: MCPServerConfig,
+  cliConfig: Config,
+): void {
+  // URL mode elicitation is not supported, so only forms are advertised.
+  mcpClient.registerCapabilities({
+    elicitation: { form: { applyDefaults: true } },
+  });
+  mcpClient.setRequestHandler(ElicitRequestSchema, async (request) => {
+    if (request.params.mode === 'url') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'URL mode elicitation is not supported.',
+      );
+    }
+    return handleElicitationRequest(mcpServerName, request.params, cliConfig);
+  });
+
+  if (mcpServerConfig.allowSampling) {
+    mcpClient.registerCapabilities({ sampling: {} });
+    mcpClient.setRequestHandler(CreateMessageRequestSchema, (request, extra) =>
+      handleSamplingRequest(
+        mcpServerName,
+        request.params,
+        cliConfig,
+        extra.signal,
+      ),
+    );
+  }
+}
+
 /**
  * Creates and connects an MCP client to a server based on the provided configuration.
  * It determines the appropriate transport (Stdio, SSE, or Streamable HTTP) and
@@ -1469,6 +1620,7 @@ async function retryWithOAuth(
  *
  * @param mcpServerName The name of the MCP server, used for logging and identification.
  * @param mcpServerConfig The configuration specifying how to connect to the server.
+ * @param cliConfig When provided, the server may use elicitation and sampling.
  * @returns A promise that resolves to a connected MCP `Client` instance and its transport.
  * @throws An error if the connection fails or the configuration is invalid.
  */
@@ -1479,6 +1631,7 @@ export async function connectToMcpServer(
   debugMode: boolean,
   workspaceContext: WorkspaceContext,
   sanitizationConfig: EnvironmentSanitizationConfig,
+  cliConfig?: Config,
 ): Promise<{ client: Client; transport: Transport }> {
   const mcpClient = new Client(
     {
@@ -1510,6 +1663,15 @@ export async function connectToMcpServer(
     };
   });
 
+  if (cliConfig) {
+    registerServerRequestHandlers(
+      mcpClient,
+      mcpServerName,
+      mcpServerConfig,
+      cliConfig,
+    );
+  }
+
   let unlistenDirectories: Unsubscribe | undefined =
     workspaceContext.onDirectoriesChanged(async () => {
       try {
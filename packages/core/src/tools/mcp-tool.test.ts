@@ -8,7 +8,12 @@
 import type { Mocked } from 'vitest';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { safeJsonStringify } from '../utils/safeJsonStringify.js';
-import { DiscoveredMCPTool, generateValidName } from './mcp-tool.js'; // Added getStringifiedResultForDisplay
+import {
+  DiscoveredMCPTool,
+  formatMcpProgress,
+  generateValidName,
+  type McpToolCallOptions,
+} from './mcp-tool.js';
 import type { ToolResult } from './tools.js';
 import { ToolConfirmationOutcome } from './tools.js'; // Added ToolConfirmationOutcome
 import type { CallableTool, Part } from '@google/genai';
@@ -147,9 +152,10 @@ describe('DiscoveredMCPTool', () => {
         new AbortController().signal,
       );
 
-      expect(mockCallTool).toHaveBeenCalledWith([
-        { name: serverToolName, args: params },
-      ]);
+      expect(mockCallTool).toHaveBeenCalledWith(
+        [{ name: serverToolName, args: params }],
+        undefined,
+      );
 
       const stringifiedResponseContent = JSON.stringify(
         mockToolSuccessResultObject,
@@ -160,6 +166,30 @@ describe('DiscoveredMCPTool', () => {
       expect(toolResult.returnDisplay).toBe(stringifiedResponseContent);
     });
 
+    it('should stream progress notifications to updateOutput', async () => {
+      mockCallTool.mockImplementation(
+        async (_calls: unknown, options?: McpToolCallOptions) => {
+          options?.onProgress?.({ progress: 1, total: 4, message: 'Step 1' });
+          options?.onProgress?.({ progress: 2 });
+          return createSdkResponse(serverToolName, {
+            content: [{ type: 'text', text: 'done' }],
+          });
+        },
+      );
+      const updateOutput = vi.fn();
+
+      const invocation = tool.build({ param: 'testValue' });
+      const toolResult = await invocation.execute(
+        new AbortController().signal,
+        updateOutput,
+      );
+
+      expect(tool.canUpdateOutput).toBe(true);
+      expect(updateOutput).toHaveBeenNthCalledWith(1, '[25%] Step 1');
+      expect(updateOutput).toHaveBeenNthCalledWith(2, '[2/?]');
+      expect(toolResult.returnDisplay).toBe('done');
+    });
+
     it('should handle empty result from getStringifiedResultForDisplay', async () => {
       const params = { param: 'testValue' };
       const mockMcpToolResponsePartsEmpty: Part[] = [];
@@ -363,9 +393,10 @@ describe('DiscoveredMCPTool', () => {
       expect(toolResult.returnDisplay).toBe(successMessage);
 
       // 3. Verify that the underlying callTool was made correctly.
-      expect(mockCallTool).toHaveBeenCalledWith([
-        { name: serverToolName, args: params },
-      ]);
+      expect(mockCallTool).toHaveBeenCalledWith(
+        [{ name: serverToolName, args: params }],
+        undefined,
+      );
     });
 
     it('should handle an AudioBlock response', async () => {
@@ -665,9 +696,10 @@ describe('DiscoveredMCPTool', () => {
 
         expect(result.llmContent).toEqual([{ text: 'Success' }]);
         expect(result.returnDisplay).toBe('Success');
-        expect(mockCallTool).toHaveBeenCalledWith([
-          { name: serverToolName, args: params },
-        ]);
+        expect(mockCallTool).toHaveBeenCalledWith(
+          [{ name: serverToolName, args: params }],
+          undefined,
+        );
       });
 
       it('should handle tool error even when abort signal is provided', async () => {
@@ -933,3 +965,19 @@ describe('DiscoveredMCPTool', () => {
     });
   });
 });
+
+describe('formatMcpProgress', () => {
+  it('shows a clamped percentage when the total is known', () => {
+    expect(formatMcpProgress({ progress: 45, total: 100 })).toBe('[45%]');
+    expect(formatMcpProgress({ progress: 7, total: 5, message: 'Done' })).toBe(
+      '[100%] Done',
+    );
+  });
+
+  it('shows the raw progress value when the total is unknown', () => {
+    expect(formatMcpProgress({ progress: 3, message: 'Indexing' })).toBe(
+      '[3/?] Indexing',
+    );
+    expect(formatMcpProgress({ progress: 3, total: 0 })).toBe('[3/?]');
+  });
+});
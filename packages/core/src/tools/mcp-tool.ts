@@ -31,6 +31,31 @@ export const MCP_QUALIFIED_NAME_SEPARATOR = '__';
 
 type ToolParams = Record<string, unknown>;
 
+/**
+ * A progress update reported by an MCP server through `notifications/progress`
+ * while a tool call is running.
+ */
+export interface McpToolProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export interface McpToolCallOptions {
+  /** Invoked for every progress notification tied to this call. */
+  onProgress?: (progress: McpToolProgress) => void;
+}
+
+/**
+ * A `CallableTool` whose calls can report MCP progress notifications.
+ */
+export interface ProgressReportingCallableTool extends CallableTool {
+  callTool(
+    functionCalls: FunctionCall[],
+    options?: McpToolCallOptions,
+  ): Promise<Part[]>;
+}
+
 // Discriminated union for MCP Content Blocks to ensure type safety.
 type McpTextBlock = {
   type: 'text';
@@ -72,7 +97,7 @@ export class DiscoveredMCPToolInvocation extends BaseToolInvocation<
   private static readonly allowlist: Set<string> = new Set();
 
   constructor(
-    private readonly mcpTool: CallableTool,
+    private readonly mcpTool: ProgressReportingCallableTool,
     readonly serverName: string,
     readonly serverToolName: string,
     readonly displayName: string,
@@ -166,7 +191,10 @@ export class DiscoveredMCPToolInvocation extends BaseToolInvocation<
     return false;
   }
 
-  async execute(signal: AbortSignal): Promise<ToolResult> {
+  async execute(
+    signal: AbortSignal,
+    updateOutput?: (output: string) => void,
+  ): Promise<ToolResult> {
     const functionCalls: FunctionCall[] = [
       {
         name: this.serverToolName,
@@ -193,8 +221,18 @@ export class DiscoveredMCPToolInvocation extends BaseToolInvocation<
       };
       signal.addEventListener('abort', onAbort, { once: true });
 
+      const callOptions: McpToolCallOptions | undefined = updateOutput
+        ? {
+            onProgress: (progress) => {
+              if (!signal.aborted) {
+                updateOutput(formatMcpProgress(progress));
+              }
+            },
+          }
+        : undefined;
+
       this.mcpTool
-        .callTool(functionCalls)
+        .callTool(functionCalls, callOptions)
         .then((res) => {
           cleanup();
           resolve(res);
@@ -240,7 +278,7 @@ export class DiscoveredMCPTool extends BaseDeclarativeTool<
   ToolResult
 > {
   constructor(
-    private readonly mcpTool: CallableTool,
+    private readonly mcpTool: ProgressReportingCallableTool,
     readonly serverName: string,
     readonly serverToolName: string,
     description: string,
@@ -261,7 +299,7 @@ export class DiscoveredMCPTool extends BaseDeclarativeTool<
       parameterSchema,
       messageBus,
       true, // isOutputMarkdown
-      false, // canUpdateOutput,
+      true, // canUpdateOutput
       extensionName,
       extensionId,
     );
@@ -445,6 +483,24 @@ function getStringifiedResultForDisplay(rawResponse: Part[]): string {
   return displayParts.join('\n');
 }
 
+/**
+ * Renders an MCP progress notification as a single line for the live output
+ * display, e.g. `[45%] Indexing files` or `[3/?] Indexing files`.
+ */
+export function formatMcpProgress(progress: McpToolProgress): string {
+  let prefix: string;
+  if (progress.total !== undefined && progress.total > 0) {
+    const percent = Math.min(
+      100,
+      Math.max(0, Math.round((progress.progress / progress.total) * 100)),
+    );
+    prefix = `[${percent}%]`;
+  } else {
+    prefix = `[${progress.progress}/?]`;
+  }
+  return progress.message ? `${prefix} ${progress.message}` : prefix;
+}
+
 /** Visible for testing */
 export function generateValidName(name: string) {
   // Replace invalid characters (based on 400 error message from Gemini API) with underscores
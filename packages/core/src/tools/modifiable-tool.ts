@@ -39,6 +39,13 @@ export interface ModifyContext<ToolParams> {
     modifiedProposedContent: string,
     originalParams: ToolParams,
   ) => ToolParams;
+
+  /**
+   * Computes the diff to display for the updated params. Tools whose proposed
+   * content is not the file content itself (e.g. a patch) provide this so the
+   * user sees the resulting file changes rather than a diff of their input.
+   */
+  getUpdatedDiff?: (updatedParams: ToolParams) => Promise<string | undefined>;
 }
 
 export interface ModifyResult<ToolParams> {
@@ -205,8 +212,14 @@ export async function modifyWithEditor<ToolParams>(
       originalParams,
       modifyContext,
     );
+    const updatedDiff = await modifyContext.getUpdatedDiff?.(
+      result.updatedParams,
+    );
 
-    return result;
+    return {
+      updatedParams: result.updatedParams,
+      updatedDiff: updatedDiff ?? result.updatedDiff,
+    };
   } finally {
     deleteTempFiles(oldPath, newPath, dirPath);
   }
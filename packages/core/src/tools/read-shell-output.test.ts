@@ -0,0 +1,155 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ReadShellOutputTool } from './read-shell-output.js';
+import {
+  ShellExecutionService,
+  type BackgroundProcessOutput,
+  type ShellOutputEvent,
+} from '../services/shellExecutionService.js';
+import { ToolErrorType } from './tool-error.js';
+import { createMockMessageBus } from '../test-utils/mock-message-bus.js';
+
+vi.mock('../services/shellExecutionService.js', () => ({
+  ShellExecutionService: {
+    getBackgroundOutput: vi.fn(),
+    subscribe: vi.fn(),
+  },
+}));
+
+describe('ReadShellOutputTool', () => {
+  const abortSignal = new AbortController().signal;
+  let snapshot: BackgroundProcessOutput | undefined;
+  let listener: ((event: ShellOutputEvent) => void) | undefined;
+  let unsubscribe: ReturnType<typeof vi.fn>;
+  let tool: ReadShellOutputTool;
+
+  const running = (output: string): BackgroundProcessOutput => ({
+    output,
+    acceptsInput: true,
+    exited: false,
+    exitCode: null,
+    signal: null,
+  });
+
+  beforeEach(() => {
+    snapshot = running('starting\n');
+    listener = undefined;
+    unsubscribe = vi.fn();
+    vi.mocked(ShellExecutionService.getBackgroundOutput).mockImplementation(
+      () => snapshot,
+    );
+    vi.mocked(ShellExecutionService.subscribe).mockImplementation(
+      (_pid, newListener) => {
+        listener = newListener;
+        return unsubscribe;
+      },
+    );
+    tool = new ReadShellOutputTool(createMockMessageBus());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should reject an invalid wait_for pattern', () => {
+    expect(() => tool.build({ pid: 42, wait_for: '(' })).toThrow(
+      "Invalid regular expression provided in 'wait_for': (.",
+    );
+  });
+
+  it('should return an error for an unknown process', async () => {
+    snapshot = undefined;
+
+    const result = await tool.build({ pid: 42 }).execute(abortSignal);
+
+    expect(result.error?.type).toBe(ToolErrorType.BACKGROUND_PROCESS_NOT_FOUND);
+  });
+
+  it('should read the output after the offset', async () => {
+    snapshot = running('starting\nready\n');
+
+    const result = await tool
+      .build({ pid: 42, offset: 9 })
+      .execute(abortSignal);
+
+    expect(result.llmContent).toBe(
+      'Output: ready\n\nStatus: running\nNext offset: 15',
+    );
+  });
+
+  it('should report how an exited process ended', async () => {
+    snapshot = {
+      output: 'done',
+      acceptsInput: false,
+      exited: true,
+      exitCode: 1,
+      signal: null,
+    };
+
+    const result = await tool
+      .build({ pid: 42, offset: 4 })
+      .execute(abortSignal);
+
+    expect(result.llmContent).toBe(
+      'Output: (no new output)\nStatus: exited with code 1\nNext offset: 4',
+    );
+  });
+
+  it('should wait until the pattern appears in new output', async () => {
+    const resultPromise = tool
+      .build({ pid: 42, offset: 9, wait_for: 'listening on \\d+' })
+      .execute(abortSignal);
+
+    expect(listener).toBeDefined();
+    snapshot = running('starting\ncompiling\n');
+    listener!({ type: 'data', chunk: 'compiling\n' });
+    snapshot = running('starting\ncompiling\nlistening on 3000\n');
+    listener!({ type: 'data', chunk: 'listening on 3000\n' });
+
+    const result = await resultPromise;
+    expect(unsubscribe).toHaveBeenCalled();
+    expect(result.llmContent).toBe(
+      'Output: compiling\nlistening on 3000\n\nStatus: running\nNext offset: 37',
+    );
+  });
+
+  it('should stop waiting when the process exits', async () => {
+    const resultPromise = tool
+      .build({ pid: 42, wait_for: 'listening' })
+      .execute(abortSignal);
+
+    snapshot = {
+      output: 'starting\nError: port in use',
+      acceptsInput: false,
+      exited: true,
+      exitCode: 1,
+      signal: null,
+    };
+    listener!({ type: 'exit', exitCode: 1, signal: null });
+
+    const result = await resultPromise;
+    expect(result.llmContent).toContain(
+      'The process exited before /listening/ appeared.\nStatus: exited with code 1',
+    );
+  });
+
+  it('should time out when the pattern does not appear', async () => {
+    vi.useFakeTimers();
+    const resultPromise = tool
+      .build({ pid: 42, wait_for: 'listening', timeout_seconds: 5 })
+      .execute(abortSignal);
+
+    await vi.advanceTimersByTimeAsync(5000);
+
+    const result = await resultPromise;
+    expect(result.llmContent).toContain(
+      'Timed out after 5s waiting for /listening/.',
+    );
+    expect(unsubscribe).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { MessageBus } from '../confirmation-bus/message-bus.js';
+import {
+  ShellExecutionService,
+  type BackgroundProcessOutput,
+} from '../services/shellExecutionService.js';
+import { getErrorMessage } from '../utils/errors.js';
+import type { ToolInvocation, ToolResult } from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+import { READ_SHELL_OUTPUT_TOOL_NAME } from './tool-names.js';
+import {
+  describeProcessStatus,
+  PID_SCHEMA_PROPERTY,
+  processNotFoundResult,
+  type BackgroundProcessParams,
+} from './background-shell-utils.js';
+
+const DEFAULT_TIMEOUT_SECONDS = 30;
+const MAX_TIMEOUT_SECONDS = 600;
+const MAX_OUTPUT_LENGTH = 20000;
+
+export interface ReadShellOutputToolParams extends BackgroundProcessParams {
+  /** The character offset to read from, as returned by a previous call. */
+  offset?: number;
+  /** A regular expression to wait for in the output after `offset`. */
+  wait_for?: string;
+  /** How long to wait for `wait_for` to appear. */
+  timeout_seconds?: number;
+}
+
+class ReadShellOutputToolInvocation extends BaseToolInvocation<
+  ReadShellOutputToolParams,
+  ToolResult
+> {
+  getDescription(): string {
+    let description = `PID ${this.params.pid}`;
+    if (this.params.wait_for) {
+      description += ` (waiting for /${this.params.wait_for}/)`;
+    }
+    return description;
+  }
+
+  /**
+   * Resolves once the output after `offset` matches `pattern`, the process
+   * exits, the timeout elapses or the call is cancelled.
+   */
+  private waitForPattern(
+    pattern: RegExp,
+    offset: number,
+    signal: AbortSignal,
+  ): Promise<{ snapshot?: BackgroundProcessOutput; timedOut: boolean }> {
+    const { pid } = this.params;
+    const timeoutMs =
+      (this.params.timeout_seconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
+
+    return new Promise((resolve) => {
+      let settled = false;
+      let unsubscribe: (() => void) | undefined;
+      const finish = (
+        snapshot: BackgroundProcessOutput | undefined,
+        timedOut: boolean,
+      ) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        signal.removeEventListener('abort', onAbort);
+        unsubscribe?.();
+        resolve({ snapshot, timedOut });
+      };
+      const check = () => {
+        const snapshot = ShellExecutionService.getBackgroundOutput(pid);
+        if (
+          !snapshot ||
+          snapshot.exited ||
+          pattern.test(snapshot.output.slice(offset))
+        ) {
+          finish(snapshot, false);
+        }
+      };
+      const onAbort = () =>
+        finish(ShellExecutionService.getBackgroundOutput(pid), false);
+      const timer = setTimeout(
+        () => finish(ShellExecutionService.getBackgroundOutput(pid), true),
+        timeoutMs,
+      );
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      check();
+      if (!settled) {
+        unsubscribe = ShellExecutionService.subscribe(pid, () => check());
+        if (settled) {
+          unsubscribe();
+        }
+      }
+    });
+  }
+
+  async execute(signal: AbortSignal): Promise<ToolResult> {
+    const { pid, wait_for } = this.params;
+    let snapshot = ShellExecutionService.getBackgroundOutput(pid);
+    if (!snapshot) {
+      return processNotFoundResult(pid);
+    }
+
+    const offset = Math.min(this.params.offset ?? 0, snapshot.output.length);
+    let waitMessage = '';
+    if (wait_for) {
+      const waited = await this.waitForPattern(
+        new RegExp(wait_for),
+        offset,
+        signal,
+      );
+      if (!waited.snapshot) {
+        return processNotFoundResult(pid);
+      }
+      snapshot = waited.snapshot;
+      if (waited.timedOut) {
+        waitMessage = `Timed out after ${this.params.timeout_seconds ?? DEFAULT_TIMEOUT_SECONDS}s waiting for /${wait_for}/.`;
+      } else if (signal.aborted) {
+        waitMessage = `Cancelled while waiting for /${wait_for}/.`;
+      } else if (!new RegExp(wait_for).test(snapshot.output.slice(offset))) {
+        waitMessage = `The process exited before /${wait_for}/ appeared.`;
+      }
+    }
+
+    const available = snapshot.output.slice(offset);
+    const output = available.slice(0, MAX_OUTPUT_LENGTH);
+    const nextOffset = offset + output.length;
+    const status = describeProcessStatus(snapshot);
+
+    const llmContentParts = [`Output: ${output || '(no new output)'}`];
+    if (output.length < available.length) {
+      llmContentParts.push(
+        `Output truncated: ${available.length - output.length} more characters are available.`,
+      );
+    }
+    if (waitMessage) {
+      llmContentParts.push(waitMessage);
+    }
+    llmContentParts.push(`Status: ${status}`);
+    if (!snapshot.exited && !snapshot.acceptsInput) {
+      llmContentParts.push('Input: not supported');
+    }
+    llmContentParts.push(`Next offset: ${nextOffset}`);
+
+    return {
+      llmContent: llmContentParts.join('\n'),
+      returnDisplay:
+        waitMessage || `Read ${output.length} characters (${status})`,
+    };
+  }
+}
+
+/**
+ * Reads the output of a command that run_shell_command moved to the
+ * background, optionally waiting for a pattern to appear.
+ */
+export class ReadShellOutputTool extends BaseDeclarativeTool<
+  ReadShellOutputToolParams,
+  ToolResult
+> {
+  static readonly Name = READ_SHELL_OUTPUT_TOOL_NAME;
+
+  constructor(messageBus: MessageBus) {
+    super(
+      ReadShellOutputTool.Name,
+      'ReadShellOutput',
+      `Reads the output of a background process started with run_shell_command and 'is_background: true'. Pass the 'Next offset' of the previous call as 'offset' to read only new output. Set 'wait_for' to a regular expression to wait until it appears in the new output, e.g. to wait for a dev server to print that it is listening; the call also returns when the process exits or 'timeout_seconds' elapses.`,
+      Kind.Read,
+      {
+        type: 'object',
+        properties: {
+          pid: PID_SCHEMA_PROPERTY,
+          offset: {
+            type: 'integer',
+            minimum: 0,
+            description:
+              "The character offset to read from, as returned in 'Next offset' by a previous call. Defaults to 0, the start of the output.",
+          },
+          wait_for: {
+            type: 'string',
+            description:
+              'Optional: A regular expression (JavaScript syntax) to wait for in the output after the offset.',
+          },
+          timeout_seconds: {
+            type: 'number',
+            minimum: 1,
+            maximum: MAX_TIMEOUT_SECONDS,
+            description: `Optional: How long to wait for 'wait_for', in seconds. Defaults to ${DEFAULT_TIMEOUT_SECONDS}.`,
+          },
+        },
+        required: ['pid'],
+      },
+      messageBus,
+      false, // isOutputMarkdown
+      false, // canUpdateOutput
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: ReadShellOutputToolParams,
+  ): string | null {
+    if (params.wait_for !== undefined) {
+      if (params.wait_for === '') {
+        return "The 'wait_for' parameter cannot be empty.";
+      }
+      try {
+        new RegExp(params.wait_for);
+      } catch (error) {
+        return `Invalid regular expression provided in 'wait_for': ${params.wait_for}. Error: ${getErrorMessage(error)}`;
+      }
+    }
+    return null;
+  }
+
+  protected createInvocation(
+    params: ReadShellOutputToolParams,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ): ToolInvocation<ReadShellOutputToolParams, ToolResult> {
+    return new ReadShellOutputToolInvocation(
+      params,
+      messageBus,
+      _toolName,
+      _toolDisplayName,
+    );
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { RenameSymbolTool } from './rename-symbol.js';
+import type { Config } from '../config/config.js';
+import type { LspManager } from '../lsp/lsp-manager.js';
+import { pathToUri } from '../lsp/lsp-utils.js';
+import { ApprovalMode } from '../policy/types.js';
+import { StandardFileSystemService } from '../services/fileSystemService.js';
+import { ToolErrorType } from './tool-error.js';
+import type { ToolEditConfirmationDetails } from './tools.js';
+import {
+  createMockMessageBus,
+  getMockMessageBusInstance,
+} from '../test-utils/mock-message-bus.js';
+
+describe('RenameSymbolTool', () => {
+  const abortSignal = new AbortController().signal;
+  let rootDir: string;
+  let request: ReturnType<typeof vi.fn>;
+  let approvalMode: ApprovalMode;
+  let tool: RenameSymbolTool;
+
+  const params = {
+    file_path: 'a.ts',
+    line: 1,
+    symbol: 'count',
+    new_name: 'total',
+  };
+
+  const edit = (line: number, start: number) => ({
+    range: {
+      start: { line, character: start },
+      end: { line, character: start + 5 },
+    },
+    newText: 'total',
+  });
+
+  beforeEach(() => {
+    rootDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'rename-symbol-test-')),
+    );
+    fs.writeFileSync(path.join(rootDir, 'a.ts'), 'export const count = 1;\n');
+    fs.writeFileSync(
+      path.join(rootDir, 'b.ts'),
+      "import { count } from './a';\nconsole.log(count);\n",
+    );
+    request = vi.fn().mockResolvedValue({
+      changes: {
+        [pathToUri(path.join(rootDir, 'a.ts'))]: [edit(0, 13)],
+        [pathToUri(path.join(rootDir, 'b.ts'))]: [edit(0, 9), edit(1, 12)],
+      },
+    });
+    approvalMode = ApprovalMode.DEFAULT;
+    const fileSystemService = new StandardFileSystemService();
+    const mockConfig = {
+      getTargetDir: () => rootDir,
+      getApprovalMode: () => approvalMode,
+      setApprovalMode: vi.fn(),
+      getFileSystemService: () => fileSystemService,
+      getLspManager: () =>
+        ({
+          getServerName: () => 'tsserver',
+          locateSymbol: vi.fn().mockResolvedValue({
+            client: { request },
+            position: {
+              textDocument: { uri: pathToUri(path.join(rootDir, 'a.ts')) },
+              position: { line: 0, character: 13 },
+            },
+          }),
+        }) as unknown as LspManager,
+      validatePathAccess: (absolutePath: string) =>
+        absolutePath.startsWith(rootDir + path.sep)
+          ? null
+          : `Path not in workspace: ${absolutePath}`,
+    } as unknown as Config;
+    const bus = createMockMessageBus();
+    getMockMessageBusInstance(bus).defaultToolDecision = 'ask_user';
+    tool = new RenameSymbolTool(mockConfig, bus);
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should reject a new name equal to the symbol', () => {
+    expect(() => tool.build({ ...params, new_name: 'count' })).toThrow(
+      "The 'new_name' parameter must differ from 'symbol'.",
+    );
+  });
+
+  it('should show every edited file in the confirmation', async () => {
+    const details = (await tool
+      .build(params)
+      .shouldConfirmExecute(abortSignal)) as ToolEditConfirmationDetails;
+
+    expect(request).toHaveBeenCalledWith(
+      'textDocument/rename',
+      expect.objectContaining({ newName: 'total' }),
+    );
+    expect(details.title).toBe('Confirm Rename: count => total');
+    expect(details.fileName).toBe('2 files');
+    expect(details.fileDiff).toContain('+export const total = 1;');
+    expect(details.fileDiff).toContain('+console.log(total);');
+    expect(fs.readFileSync(path.join(rootDir, 'a.ts'), 'utf-8')).toBe(
+      'export const count = 1;\n',
+    );
+  });
+
+  it('should not ask for confirmation in auto edit mode', async () => {
+    approvalMode = ApprovalMode.AUTO_EDIT;
+
+    expect(await tool.build(params).shouldConfirmExecute(abortSignal)).toBe(
+      false,
+    );
+  });
+
+  it('should write the renamed files', async () => {
+    const result = await tool.build(params).execute(abortSignal);
+
+    expect(result.llmContent).toBe(
+      'Renamed "count" to "total" in 2 file(s): a.ts, b.ts.',
+    );
+    expect(fs.readFileSync(path.join(rootDir, 'a.ts'), 'utf-8')).toBe(
+      'export const total = 1;\n',
+    );
+    expect(fs.readFileSync(path.join(rootDir, 'b.ts'), 'utf-8')).toBe(
+      "import { total } from './a';\nconsole.log(total);\n",
+    );
+  });
+
+  it('should refuse edits outside the workspace', async () => {
+    request.mockResolvedValue({
+      changes: { [pathToUri('/etc/other.ts')]: [edit(0, 0)] },
+    });
+
+    const result = await tool.build(params).execute(abortSignal);
+
+    expect(result.error?.type).toBe(ToolErrorType.LSP_REQUEST_FAILED);
+    expect(result.llmContent).toContain('Path not in workspace');
+    expect(fs.readFileSync(path.join(rootDir, 'a.ts'), 'utf-8')).toBe(
+      'export const count = 1;\n',
+    );
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { MessageBus } from '../confirmation-bus/message-bus.js';
+import type { Config } from '../config/config.js';
+import { ApprovalMode } from '../policy/types.js';
+import { getErrorMessage, isNodeError } from '../utils/errors.js';
+import { debugLogger } from '../utils/debugLogger.js';
+import { makeRelative, shortenPath } from '../utils/paths.js';
+import { applyTextEdits, getWorkspaceEditsByFile } from '../lsp/lsp-utils.js';
+import type { WorkspaceEdit } from '../lsp/types.js';
+import type {
+  FileDiff,
+  ToolCallConfirmationDetails,
+  ToolEditConfirmationDetails,
+  ToolInvocation,
+  ToolLocation,
+  ToolResult,
+} from './tools.js';
+import {
+  BaseDeclarativeTool,
+  BaseToolInvocation,
+  Kind,
+  ToolConfirmationOutcome,
+} from './tools.js';
+import { ToolErrorType } from './tool-error.js';
+import { RENAME_SYMBOL_TOOL_NAME } from './tool-names.js';
+import { createCombinedDiff, type PatchedFile } from './apply-patch.js';
+import {
+  lspRequestFailedResult,
+  symbolNotFoundResult,
+  SYMBOL_POSITION_SCHEMA_PROPERTIES,
+  validateSymbolPositionParams,
+  type SymbolPositionParams,
+} from './lsp-tool-utils.js';
+
+export interface RenameSymbolToolParams extends SymbolPositionParams {
+  /** The new name for the symbol. */
+  new_name: string;
+}
+
+type CalculatedRename =
+  | { files: PatchedFile[]; error?: undefined }
+  | { files?: undefined; error: ToolResult };
+
+class RenameSymbolToolInvocation extends BaseToolInvocation<
+  RenameSymbolToolParams,
+  ToolResult
+> {
+  private readonly resolvedPath: string;
+
+  constructor(
+    private readonly config: Config,
+    params: RenameSymbolToolParams,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ) {
+    super(params, messageBus, _toolName, _toolDisplayName);
+    this.resolvedPath = path.resolve(
+      this.config.getTargetDir(),
+      this.params.file_path,
+    );
+  }
+
+  getDescription(): string {
+    const relativePath = makeRelative(
+      this.resolvedPath,
+      this.config.getTargetDir(),
+    );
+    return `'${this.params.symbol}' => '${this.params.new_name}' from ${shortenPath(relativePath)}:${this.params.line}`;
+  }
+
+  override toolLocations(): ToolLocation[] {
+    return [{ path: this.resolvedPath, line: this.params.line }];
+  }
+
+  /**
+   * Asks the language server for the rename and applies its edits to the
+   * current file contents in memory. Every edited file must be writable.
+   */
+  private async calculateRename(): Promise<CalculatedRename> {
+    let workspaceEdit: WorkspaceEdit | null;
+    try {
+      const located = await this.config
+        .getLspManager()
+        .locateSymbol(this.resolvedPath, this.params.line, this.params.symbol);
+      if (!located) {
+        return { error: symbolNotFoundResult(this.params) };
+      }
+      workspaceEdit = await located.client.request<WorkspaceEdit | null>(
+        'textDocument/rename',
+        { ...located.position, newName: this.params.new_name },
+      );
+    } catch (error) {
+      return { error: lspRequestFailedResult('renaming symbol', error) };
+    }
+
+    const files: PatchedFile[] = [];
+    try {
+      const editsByFile = getWorkspaceEditsByFile(workspaceEdit ?? {});
+      for (const [filePath, edits] of editsByFile) {
+        const accessError = this.config.validatePathAccess(filePath);
+        if (accessError) {
+          throw new Error(accessError);
+        }
+        const originalContent = await fs.readFile(filePath, 'utf-8');
+        files.push({
+          oldPath: filePath,
+          newPath: filePath,
+          originalContent,
+          newContent: applyTextEdits(originalContent, edits),
+        });
+      }
+    } catch (error) {
+      return { error: lspRequestFailedResult('renaming symbol', error) };
+    }
+    return { files };
+  }
+
+  protected override async getConfirmationDetails(
+    _abortSignal: AbortSignal,
+  ): Promise<ToolCallConfirmationDetails | false> {
+    if (this.config.getApprovalMode() === ApprovalMode.AUTO_EDIT) {
+      return false;
+    }
+
+    const result = await this.calculateRename();
+    if (result.error || result.files.length === 0) {
+      debugLogger.log(
+        `Error: ${result.error?.returnDisplay ?? 'rename has no edits'}`,
+      );
+      return false;
+    }
+
+    const { files } = result;
+    const targetDir = this.config.getTargetDir();
+    const fileName =
+      files.length === 1
+        ? makeRelative(files[0].newPath!, targetDir)
+        : `${files.length} files`;
+    const confirmationDetails: ToolEditConfirmationDetails = {
+      type: 'edit',
+      title: `Confirm Rename: ${this.params.symbol} => ${this.params.new_name}`,
+      fileName,
+      filePath: files[0].newPath!,
+      fileDiff: createCombinedDiff(files, targetDir, 'Current', 'Proposed'),
+      originalContent: files[0].originalContent,
+      newContent: files[0].newContent!,
+      onConfirm: async (outcome: ToolConfirmationOutcome) => {
+        if (outcome === ToolConfirmationOutcome.ProceedAlways) {
+          this.config.setApprovalMode(ApprovalMode.AUTO_EDIT);
+        } else {
+          await this.publishPolicyUpdate(outcome);
+        }
+      },
+    };
+    return confirmationDetails;
+  }
+
+  async execute(_abortSignal: AbortSignal): Promise<ToolResult> {
+    const result = await this.calculateRename();
+    if (result.error) {
+      return result.error;
+    }
+    const { files } = result;
+    if (files.length === 0) {
+      const message = `The language server returned no edits for renaming "${this.params.symbol}".`;
+      return { llmContent: message, returnDisplay: message };
+    }
+
+    const written: PatchedFile[] = [];
+    try {
+      for (const file of files) {
+        await this.config
+          .getFileSystemService()
+          .writeTextFile(file.newPath!, file.newContent!);
+        written.push(file);
+      }
+    } catch (error) {
+      for (const file of written) {
+        try {
+          await this.config
+            .getFileSystemService()
+            .writeTextFile(file.oldPath!, file.originalContent!);
+        } catch (restoreError) {
+          debugLogger.error(`Failed to restore ${file.oldPath}:`, restoreError);
+        }
+      }
+      const errorMsg = `Error writing renamed files: ${getErrorMessage(error)}. Changes were rolled back.`;
+      return {
+        llmContent: errorMsg,
+        returnDisplay: errorMsg,
+        error: {
+          message: errorMsg,
+          type:
+            isNodeError(error) && error.code === 'ENOSPC'
+              ? ToolErrorType.NO_SPACE_LEFT
+              : ToolErrorType.FILE_WRITE_FAILURE,
+        },
+      };
+    }
+
+    const targetDir = this.config.getTargetDir();
+    const [firstFile] = files;
+    const displayResult: FileDiff = {
+      fileDiff: createCombinedDiff(files, targetDir, 'Original', 'Written'),
+      fileName:
+        files.length === 1
+          ? makeRelative(firstFile.newPath!, targetDir)
+          : `${files.length} files`,
+      filePath: firstFile.newPath!,
+      originalContent: firstFile.originalContent,
+      newContent: firstFile.newContent!,
+    };
+    return {
+      llmContent: `Renamed "${this.params.symbol}" to "${this.params.new_name}" in ${files.length} file(s): ${files
+        .map((file) => makeRelative(file.newPath!, targetDir))
+        .join(', ')}.`,
+      returnDisplay: displayResult,
+    };
+  }
+}
+
+/**
+ * Renames a symbol and all of its references across the workspace using the
+ * language server configured for the file's language.
+ */
+export class RenameSymbolTool extends BaseDeclarativeTool<
+  RenameSymbolToolParams,
+  ToolResult
+> {
+  static readonly Name = RENAME_SYMBOL_TOOL_NAME;
+
+  constructor(
+    private readonly config: Config,
+    messageBus: MessageBus,
+  ) {
+    super(
+      RenameSymbolTool.Name,
+      'RenameSymbol',
+      'Renames a symbol (function, class, variable, type, ...) and every reference to it across the workspace, using a language server. This is safer than text replacement because only real references are changed. Identify the symbol by a file and 1-based line where it appears and its name as written on that line.',
+      Kind.Edit,
+      {
+        type: 'object',
+        properties: {
+          ...SYMBOL_POSITION_SCHEMA_PROPERTIES,
+          new_name: {
+            type: 'string',
+            description: 'The new name for the symbol.',
+          },
+        },
+        required: ['file_path', 'line', 'symbol', 'new_name'],
+      },
+      messageBus,
+      true, // isOutputMarkdown
+      false, // canUpdateOutput
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: RenameSymbolToolParams,
+  ): string | null {
+    if (params.new_name.trim() === '') {
+      return "The 'new_name' parameter cannot be empty.";
+    }
+    if (params.new_name === params.symbol) {
+      return "The 'new_name' parameter must differ from 'symbol'.";
+    }
+    return validateSymbolPositionParams(this.config, params);
+  }
+
+  protected createInvocation(
+    params: RenameSymbolToolParams,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ): ToolInvocation<RenameSymbolToolParams, ToolResult> {
+    return new RenameSymbolToolInvocation(
+      this.config,
+      params,
+      messageBus,
+      _toolName,
+      _toolDisplayName,
+    );
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import path from 'node:path';
+import {
+  ReportFindingTool,
+  type ReportFindingToolParams,
+} from './report-finding.js';
+import type { Config } from '../config/config.js';
+import { RunReport } from '../output/run-report.js';
+import { createMockMessageBus } from '../test-utils/mock-message-bus.js';
+
+describe('ReportFindingTool', () => {
+  const rootDir = path.resolve('/workspace');
+  let runReport: RunReport;
+  let tool: ReportFindingTool;
+
+  const params: ReportFindingToolParams = {
+    file_path: 'src/db.ts',
+    start_line: 10,
+    end_line: 12,
+    severity: 'error',
+    message: 'Query is built from user input.',
+    rule_id: 'sql-injection',
+  };
+
+  beforeEach(() => {
+    runReport = new RunReport();
+    const mockConfig = {
+      getTargetDir: () => rootDir,
+      getRunReport: () => runReport,
+      validatePathAccess: (absolutePath: string) =>
+        absolutePath.startsWith(rootDir + path.sep)
+          ? null
+          : `Path not in workspace: ${absolutePath}`,
+    } as unknown as Config;
+    tool = new ReportFindingTool(mockConfig, createMockMessageBus());
+  });
+
+  describe('build', () => {
+    it('should reject an empty file path', () => {
+      expect(() => tool.build({ ...params, file_path: ' ' })).toThrow(
+        "The 'file_path' parameter must be non-empty.",
+      );
+    });
+
+    it('should reject an empty message', () => {
+      expect(() => tool.build({ ...params, message: '' })).toThrow(
+        "The 'message' parameter must be non-empty.",
+      );
+    });
+
+    it('should reject an end line before the start line', () => {
+      expect(() => tool.build({ ...params, end_line: 9 })).toThrow(
+        "The 'end_line' parameter must not be before 'start_line'.",
+      );
+    });
+
+    it('should reject an unknown severity', () => {
+      expect(() =>
+        tool.build({
+          ...params,
+          severity: 'fatal',
+        } as unknown as ReportFindingToolParams),
+      ).toThrow('params/severity must be equal to one of the allowed values');
+    });
+
+    it('should reject paths outside the workspace', () => {
+      expect(() =>
+        tool.build({ ...params, file_path: '../outside.ts' }),
+      ).toThrow('Path not in workspace');
+    });
+  });
+
+  describe('execute', () => {
+    it('should record the finding relative to the workspace', async () => {
+      const result = await tool
+        .build({ ...params, file_path: path.join(rootDir, 'src', 'db.ts') })
+        .execute(new AbortController().signal);
+
+      expect(runReport.getFindings()).toEqual([
+        {
+          filePath: path.join('src', 'db.ts'),
+          startLine: 10,
+          endLine: 12,
+          severity: 'error',
+          message: 'Query is built from user input.',
+          ruleId: 'sql-injection',
+        },
+      ]);
+      expect(result.llmContent).toBe(
+        `Recorded error finding at ${path.join('src', 'db.ts')}:10.`,
+      );
+    });
+
+    it('should describe the invocation by severity and location', () => {
+      const invocation = tool.build(params);
+
+      expect(invocation.getDescription()).toBe(
+        `error: ${path.join('src', 'db.ts')}:10`,
+      );
+      expect(invocation.toolLocations()).toEqual([
+        { path: path.join(rootDir, 'src', 'db.ts'), line: 10 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'node:path';
+import type { MessageBus } from '../confirmation-bus/message-bus.js';
+import type { Config } from '../config/config.js';
+import type { FindingSeverity } from '../output/types.js';
+import { makeRelative, shortenPath } from '../utils/paths.js';
+import type { ToolInvocation, ToolLocation, ToolResult } from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+import { REPORT_FINDING_TOOL_NAME } from './tool-names.js';
+
+const FINDING_SEVERITIES: readonly FindingSeverity[] = [
+  'error',
+  'warning',
+  'note',
+];
+
+export const REPORT_FINDING_DESCRIPTION = `Records a single finding, such as a bug, vulnerability, or code quality issue, at a location in the codebase. Recorded findings are emitted as the machine-readable report for this run, so call this tool once for every issue you want reported instead of (or in addition to) describing it in your response.
+
+- Use 'error' for defects that must be fixed, 'warning' for likely problems, and 'note' for suggestions.
+- Keep the message self-contained: state the problem and, when possible, how to fix it.
+- Use a short, stable rule_id (e.g. 'sql-injection', 'unused-variable') so similar findings are grouped.`;
+
+export interface ReportFindingToolParams {
+  /** The path of the file containing the finding. */
+  file_path: string;
+  /** The 1-based line the finding starts on. */
+  start_line: number;
+  /** The 1-based line the finding ends on, if it spans several lines. */
+  end_line?: number;
+  severity: FindingSeverity;
+  message: string;
+  rule_id?: string;
+}
+
+class ReportFindingToolInvocation extends BaseToolInvocation<
+  ReportFindingToolParams,
+  ToolResult
+> {
+  private readonly resolvedPath: string;
+
+  constructor(
+    private readonly config: Config,
+    params: ReportFindingToolParams,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ) {
+    super(params, messageBus, _toolName, _toolDisplayName);
+    this.resolvedPath = path.resolve(
+      this.config.getTargetDir(),
+      this.params.file_path,
+    );
+  }
+
+  getDescription(): string {
+    const relativePath = makeRelative(
+      this.resolvedPath,
+      this.config.getTargetDir(),
+    );
+    return `${this.params.severity}: ${shortenPath(relativePath)}:${this.params.start_line}`;
+  }
+
+  override toolLocations(): ToolLocation[] {
+    return [{ path: this.resolvedPath, line: this.params.start_line }];
+  }
+
+  async execute(): Promise<ToolResult> {
+    const filePath = makeRelative(
+      this.resolvedPath,
+      this.config.getTargetDir(),
+    );
+    this.config.getRunReport().addFinding({
+      filePath,
+      startLine: this.params.start_line,
+      endLine: this.params.end_line,
+      severity: this.params.severity,
+      message: this.params.message,
+      ruleId: this.params.rule_id,
+    });
+
+    const location = `${filePath}:${this.params.start_line}`;
+    return {
+      llmContent: `Recorded ${this.params.severity} finding at ${location}.`,
+      returnDisplay: `Recorded ${this.params.severity} at ${location}`,
+    };
+  }
+}
+
+/**
+ * Structured-output tool that collects findings for the SARIF output format.
+ */
+export class ReportFindingTool extends BaseDeclarativeTool<
+  ReportFindingToolParams,
+  ToolResult
+> {
+  static readonly Name = REPORT_FINDING_TOOL_NAME;
+
+  constructor(
+    private readonly config: Config,
+    messageBus: MessageBus,
+  ) {
+    super(
+      ReportFindingTool.Name,
+      'ReportFinding',
+      REPORT_FINDING_DESCRIPTION,
+      Kind.Other,
+      {
+        type: 'object',
+        properties: {
+          file_path: {
+            type: 'string',
+            description: 'The path of the file containing the finding.',
+          },
+          start_line: {
+            type: 'integer',
+            minimum: 1,
+            description: 'The 1-based line number the finding starts on.',
+          },
+          end_line: {
+            type: 'integer',
+            minimum: 1,
+            description:
+              'Optional: the 1-based line number the finding ends on, for findings spanning several lines.',
+          },
+          severity: {
+            type: 'string',
+            enum: FINDING_SEVERITIES,
+            description: 'How serious the finding is.',
+          },
+          message: {
+            type: 'string',
+            description: 'A description of the problem and how to fix it.',
+          },
+          rule_id: {
+            type: 'string',
+            description:
+              'Optional: a short identifier for the kind of finding, used to group similar findings.',
+          },
+        },
+        required: ['file_path', 'start_line', 'severity', 'message'],
+        additionalProperties: false,
+      },
+      messageBus,
+      false, // isOutputMarkdown
+      false, // canUpdateOutput
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: ReportFindingToolParams,
+  ): string | null {
+    if (params.file_path.trim() === '') {
+      return "The 'file_path' parameter must be non-empty.";
+    }
+    if (params.message.trim() === '') {
+      return "The 'message' parameter must be non-empty.";
+    }
+    if (params.end_line !== undefined && params.end_line < params.start_line) {
+      return "The 'end_line' parameter must not be before 'start_line'.";
+    }
+
+    return this.config.validatePathAccess(
+      path.resolve(this.config.getTargetDir(), params.file_path),
+      'read',
+    );
+  }
+
+  protected createInvocation(
+    params: ReportFindingToolParams,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ): ToolInvocation<ReportFindingToolParams, ToolResult> {
+    return new ReportFindingToolInvocation(
+      this.config,
+      params,
+      messageBus,
+      _toolName,
+      _toolDisplayName,
+    );
+  }
+}
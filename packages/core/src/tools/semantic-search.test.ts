@@ -0,0 +1,96 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import path from 'node:path';
+import { SemanticSearchTool } from './semantic-search.js';
+import type { Config } from '../config/config.js';
+import type { SemanticIndexService } from '../services/semanticIndexService.js';
+import { ToolErrorType } from './tool-error.js';
+import { createMockMessageBus } from '../test-utils/mock-message-bus.js';
+
+describe('SemanticSearchTool', () => {
+  const rootDir = path.resolve('/workspace');
+  const abortSignal = new AbortController().signal;
+  let search: ReturnType<typeof vi.fn>;
+  let tool: SemanticSearchTool;
+
+  beforeEach(() => {
+    search = vi.fn().mockResolvedValue([]);
+    const mockConfig = {
+      getTargetDir: () => rootDir,
+      getSemanticIndexService: () =>
+        ({ search }) as unknown as SemanticIndexService,
+      validatePathAccess: (absolutePath: string) =>
+        absolutePath.startsWith(rootDir + path.sep)
+          ? null
+          : `Path not in workspace: ${absolutePath}`,
+    } as unknown as Config;
+    tool = new SemanticSearchTool(mockConfig, createMockMessageBus());
+  });
+
+  describe('build', () => {
+    it('should reject an empty query', () => {
+      expect(() => tool.build({ query: '  ' })).toThrow(
+        "The 'query' parameter cannot be empty.",
+      );
+    });
+
+    it('should reject a directory outside the workspace', () => {
+      expect(() => tool.build({ query: 'retry', dir_path: '/etc' })).toThrow(
+        'Path not in workspace',
+      );
+    });
+  });
+
+  it('should format ranked snippets', async () => {
+    search.mockResolvedValue([
+      {
+        filePath: path.join(rootDir, 'src', 'retry.ts'),
+        startLine: 1,
+        endLine: 3,
+        score: 0.87,
+        content: 'export function retryWithBackoff() {}',
+      },
+    ]);
+
+    const result = await tool
+      .build({ query: 'retry logic', dir_path: 'src', max_results: 3 })
+      .execute(abortSignal);
+
+    expect(search).toHaveBeenCalledWith('retry logic', {
+      maxResults: 3,
+      directory: path.join(rootDir, 'src'),
+      signal: abortSignal,
+    });
+    expect(result.llmContent).toContain(
+      `File: ${path.join('src', 'retry.ts')} (lines 1-3, score 0.87)`,
+    );
+    expect(result.llmContent).toContain('retryWithBackoff');
+    expect(result.returnDisplay).toBe('Found 1 related snippet(s)');
+  });
+
+  it('should report when nothing is indexed', async () => {
+    const result = await tool.build({ query: 'retry' }).execute(abortSignal);
+
+    expect(search).toHaveBeenCalledWith(
+      'retry',
+      expect.objectContaining({ maxResults: 10, directory: undefined }),
+    );
+    expect(result.returnDisplay).toBe('No matches found');
+  });
+
+  it('should return an error when the search fails', async () => {
+    search.mockRejectedValue(new Error('quota exceeded'));
+
+    const result = await tool.build({ query: 'retry' }).execute(abortSignal);
+
+    expect(result.error?.type).toBe(ToolErrorType.SEMANTIC_SEARCH_FAILED);
+    expect(result.llmContent).toBe(
+      'Error during semantic search: quota exceeded',
+    );
+  });
+});
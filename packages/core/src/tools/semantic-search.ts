@@ -0,0 +1,182 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'node:path';
+import type { MessageBus } from '../confirmation-bus/message-bus.js';
+import type { Config } from '../config/config.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { debugLogger } from '../utils/debugLogger.js';
+import { makeRelative, shortenPath } from '../utils/paths.js';
+import type { ToolInvocation, ToolResult } from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+import { ToolErrorType } from './tool-error.js';
+import { GREP_TOOL_NAME, SEMANTIC_SEARCH_TOOL_NAME } from './tool-names.js';
+
+const DEFAULT_MAX_RESULTS = 10;
+const MAX_RESULTS_LIMIT = 50;
+
+export const SEMANTIC_SEARCH_DESCRIPTION = `Searches the workspace for code that is conceptually related to a natural language query, such as "where are API retries configured" or "code that parses user settings". Returns the most relevant code snippets with their file paths and line ranges, ranked by similarity.
+
+Use this tool when you do not know the exact names or strings to search for. Prefer '${GREP_TOOL_NAME}' for exact identifiers or text, and read the returned files for full context.`;
+
+export interface SemanticSearchToolParams {
+  /** A natural language description of the code to find. */
+  query: string;
+  /** Optional directory to restrict the search to. */
+  dir_path?: string;
+  /** Optional maximum number of snippets to return. */
+  max_results?: number;
+}
+
+class SemanticSearchToolInvocation extends BaseToolInvocation<
+  SemanticSearchToolParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    params: SemanticSearchToolParams,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ) {
+    super(params, messageBus, _toolName, _toolDisplayName);
+  }
+
+  getDescription(): string {
+    let description = `'${this.params.query}'`;
+    if (this.params.dir_path) {
+      const searchDir = path.resolve(
+        this.config.getTargetDir(),
+        this.params.dir_path,
+      );
+      description += ` within ${shortenPath(
+        makeRelative(searchDir, this.config.getTargetDir()),
+      )}`;
+    }
+    return description;
+  }
+
+  async execute(signal: AbortSignal): Promise<ToolResult> {
+    try {
+      const results = await this.config
+        .getSemanticIndexService()
+        .search(this.params.query, {
+          maxResults: this.params.max_results ?? DEFAULT_MAX_RESULTS,
+          directory: this.params.dir_path
+            ? path.resolve(this.config.getTargetDir(), this.params.dir_path)
+            : undefined,
+          signal,
+        });
+
+      if (results.length === 0) {
+        return {
+          llmContent: `No indexed code found for query "${this.params.query}".`,
+          returnDisplay: 'No matches found',
+        };
+      }
+
+      const snippets = results.map((result) => {
+        const filePath = makeRelative(
+          result.filePath,
+          this.config.getTargetDir(),
+        );
+        return `File: ${filePath} (lines ${result.startLine}-${result.endLine}, score ${result.score.toFixed(2)})\n---\n${result.content}\n---`;
+      });
+      return {
+        llmContent: `Found ${results.length} snippet(s) related to "${this.params.query}", most relevant first:\n\n${snippets.join('\n\n')}`,
+        returnDisplay: `Found ${results.length} related snippet(s)`,
+      };
+    } catch (error) {
+      debugLogger.warn('Semantic search failed', error);
+      const errorMessage = `Error during semantic search: ${getErrorMessage(error)}`;
+      return {
+        llmContent: errorMessage,
+        returnDisplay: `Error: ${getErrorMessage(error)}`,
+        error: {
+          message: errorMessage,
+          type: ToolErrorType.SEMANTIC_SEARCH_FAILED,
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Finds code related to a natural language query using an embedding index of
+ * the workspace.
+ */
+export class SemanticSearchTool extends BaseDeclarativeTool<
+  SemanticSearchToolParams,
+  ToolResult
+> {
+  static readonly Name = SEMANTIC_SEARCH_TOOL_NAME;
+
+  constructor(
+    private readonly config: Config,
+    messageBus: MessageBus,
+  ) {
+    super(
+      SemanticSearchTool.Name,
+      'SemanticSearch',
+      SEMANTIC_SEARCH_DESCRIPTION,
+      Kind.Search,
+      {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'A natural language description of the code to find.',
+          },
+          dir_path: {
+            type: 'string',
+            description:
+              'Optional: the directory to restrict the search to. Defaults to all workspace directories.',
+          },
+          max_results: {
+            type: 'integer',
+            minimum: 1,
+            maximum: MAX_RESULTS_LIMIT,
+            description: `Optional: the maximum number of snippets to return. Defaults to ${DEFAULT_MAX_RESULTS}.`,
+          },
+        },
+        required: ['query'],
+      },
+      messageBus,
+      false, // isOutputMarkdown
+      false, // canUpdateOutput
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: SemanticSearchToolParams,
+  ): string | null {
+    if (params.query.trim() === '') {
+      return "The 'query' parameter cannot be empty.";
+    }
+    if (params.dir_path) {
+      return this.config.validatePathAccess(
+        path.resolve(this.config.getTargetDir(), params.dir_path),
+        'read',
+      );
+    }
+    return null;
+  }
+
+  protected createInvocation(
+    params: SemanticSearchToolParams,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ): ToolInvocation<SemanticSearchToolParams, ToolResult> {
+    return new SemanticSearchToolInvocation(
+      this.config,
+      params,
+      messageBus,
+      _toolName,
+      _toolDisplayName,
+    );
+  }
+}
@@ -129,6 +129,10 @@ describe('ShellTool', () => {
       },
       getGeminiClient: vi.fn().mockReturnValue({}),
       getShellToolInactivityTimeout: vi.fn().mockReturnValue(1000),
+      getShellSandbox: vi.fn().mockReturnValue(undefined),
+      getPolicyEngine: vi.fn().mockReturnValue({
+        getShellExecution: vi.fn().mockResolvedValue(undefined),
+      }),
       getEnableInteractiveShell: vi.fn().mockReturnValue(false),
       getEnableShellOutputEfficiency: vi.fn().mockReturnValue(true),
       sanitizationConfig: {},
@@ -326,6 +330,51 @@ describe('ShellTool', () => {
       );
     });
 
+    describe('shell sandbox', () => {
+      const sandbox = {
+        name: 'docker',
+        wrap: vi.fn(),
+        dispose: vi.fn(),
+      };
+
+      const runCommand = async (command: string) => {
+        const invocation = shellTool.build({ command });
+        const promise = invocation.execute(mockAbortSignal);
+        await vi.waitFor(() =>
+          expect(mockShellExecutionService).toHaveBeenCalled(),
+        );
+        resolveShellExecution();
+        await promise;
+        return mockShellExecutionService.mock.calls[0][5];
+      };
+
+      beforeEach(() => {
+        (mockConfig.getShellSandbox as Mock).mockReturnValue(sandbox);
+      });
+
+      it('should run the command in the shell sandbox', async () => {
+        expect(await runCommand('ls')).toEqual(
+          expect.objectContaining({ sandbox }),
+        );
+        expect(
+          mockConfig.getPolicyEngine().getShellExecution,
+        ).toHaveBeenCalledWith({
+          name: 'run_shell_command',
+          args: { command: 'ls' },
+        });
+      });
+
+      it('should run the command on the host if a policy asks for it', async () => {
+        (
+          mockConfig.getPolicyEngine().getShellExecution as Mock
+        ).mockResolvedValue('host');
+
+        expect(await runCommand('docker ps')).toEqual(
+          expect.objectContaining({ sandbox: undefined }),
+        );
+      });
+    });
+
     it('should handle is_background parameter by calling ShellExecutionService.background', async () => {
       vi.useFakeTimers();
       const invocation = shellTool.build({
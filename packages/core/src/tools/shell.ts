@@ -41,7 +41,12 @@ import {
   parseCommandDetails,
   hasRedirection,
 } from '../utils/shell-utils.js';
-import { SHELL_TOOL_NAME } from './tool-names.js';
+import {
+  KILL_SHELL_TOOL_NAME,
+  READ_SHELL_OUTPUT_TOOL_NAME,
+  SHELL_TOOL_NAME,
+  WRITE_SHELL_INPUT_TOOL_NAME,
+} from './tool-names.js';
 import type { MessageBus } from '../confirmation-bus/message-bus.js';
 import { getShellDefinition } from './definitions/coreTools.js';
 import { resolveToolDeclaration } from './definitions/resolver.js';
@@ -147,6 +152,17 @@ export class ShellToolInvocation extends BaseToolInvocation<
     return confirmationDetails;
   }
 
+  /**
+   * Whether a policy rule asks for the command to run on the host rather
+   * than in the shell sandbox.
+   */
+  private async runsOnHost(): Promise<boolean> {
+    const execution = await this.config
+      .getPolicyEngine()
+      .getShellExecution({ name: SHELL_TOOL_NAME, args: { ...this.params } });
+    return execution === 'host';
+  }
+
   async execute(
     signal: AbortSignal,
     updateOutput?: (output: string | AnsiOutput) => void,
@@ -222,6 +238,10 @@ export class ShellToolInvocation extends BaseToolInvocation<
         once: true,
       });
 
+      const shellSandbox = this.config.getShellSandbox();
+      const sandbox =
+        shellSandbox && !(await this.runsOnHost()) ? shellSandbox : undefined;
+
       // Start timeout
       resetTimeout();
 
@@ -275,6 +295,7 @@ export class ShellToolInvocation extends BaseToolInvocation<
           {
             ...shellExecutionConfig,
             pager: 'cat',
+            sandbox,
             sanitizationConfig:
               shellExecutionConfig?.sanitizationConfig ??
               this.config.sanitizationConfig,
@@ -345,7 +366,7 @@ export class ShellToolInvocation extends BaseToolInvocation<
           llmContent += ' There was no output before it was cancelled.';
         }
       } else if (this.params.is_background || result.backgrounded) {
-        llmContent = `Command moved to background (PID: ${result.pid}). Output hidden. Press Ctrl+B to view.`;
+        llmContent = `Command moved to background (PID: ${result.pid}). Output hidden. Press Ctrl+B to view. Use ${READ_SHELL_OUTPUT_TOOL_NAME} to read its output or wait for it to print something, ${WRITE_SHELL_INPUT_TOOL_NAME} to send it input and ${KILL_SHELL_TOOL_NAME} to stop it.`;
         data = {
           pid: result.pid,
           command: this.params.command,
@@ -43,6 +43,10 @@ export enum ToolErrorType {
   EDIT_NO_CHANGE = 'edit_no_change',
   EDIT_NO_CHANGE_LLM_JUDGEMENT = 'edit_no_change_llm_judgement',
 
+  // ApplyPatch-specific Errors
+  PATCH_PARSE_FAILURE = 'patch_parse_failure',
+  PATCH_APPLY_FAILURE = 'patch_apply_failure',
+
   // Glob-specific Errors
   GLOB_EXECUTION_ERROR = 'glob_execution_error',
 
@@ -64,6 +68,8 @@ export enum ToolErrorType {
 
   // Shell errors
   SHELL_EXECUTE_ERROR = 'shell_execute_error',
+  BACKGROUND_PROCESS_NOT_FOUND = 'background_process_not_found',
+  BACKGROUND_PROCESS_NO_INPUT = 'background_process_no_input',
 
   // DiscoveredTool-specific Errors
   DISCOVERED_TOOL_EXECUTION_ERROR = 'discovered_tool_execution_error',
@@ -72,10 +78,21 @@ export enum ToolErrorType {
   WEB_FETCH_NO_URL_IN_PROMPT = 'web_fetch_no_url_in_prompt',
   WEB_FETCH_FALLBACK_FAILED = 'web_fetch_fallback_failed',
   WEB_FETCH_PROCESSING_ERROR = 'web_fetch_processing_error',
+  WEB_FETCH_CRAWL_FAILED = 'web_fetch_crawl_failed',
 
   // WebSearch-specific Errors
   WEB_SEARCH_FAILED = 'web_search_failed',
 
+  // SemanticSearch-specific Errors
+  SEMANTIC_SEARCH_FAILED = 'semantic_search_failed',
+
+  // Language server tool Errors
+  LSP_SYMBOL_NOT_FOUND = 'lsp_symbol_not_found',
+  LSP_REQUEST_FAILED = 'lsp_request_failed',
+
+  // IDE tool Errors
+  IDE_TOOL_ERROR = 'ide_tool_error',
+
   // Hook-specific Errors
   STOP_EXECUTION = 'stop_execution',
 }
@@ -30,13 +30,33 @@ export const WRITE_TODOS_TOOL_NAME = 'write_todos';
 export const WEB_SEARCH_TOOL_NAME = 'google_web_search';
 export const WEB_FETCH_TOOL_NAME = 'web_fetch';
 export const EDIT_TOOL_NAME = 'replace';
+export const APPLY_PATCH_TOOL_NAME = 'apply_patch';
 export const READ_MANY_FILES_TOOL_NAME = 'read_many_files';
+export const REPORT_FINDING_TOOL_NAME = 'report_finding';
+export const SEMANTIC_SEARCH_TOOL_NAME = 'semantic_search';
+export const FIND_DEFINITION_TOOL_NAME = 'find_definition';
+export const FIND_REFERENCES_TOOL_NAME = 'find_references';
+export const DOCUMENT_SYMBOLS_TOOL_NAME = 'document_symbols';
+export const RENAME_SYMBOL_TOOL_NAME = 'rename_symbol';
+export const IDE_DIAGNOSTICS_TOOL_NAME = 'ide_diagnostics';
+export const IDE_FIND_DEFINITION_TOOL_NAME = 'ide_find_definition';
+export const IDE_FIND_REFERENCES_TOOL_NAME = 'ide_find_references';
+export const IDE_WORKSPACE_SYMBOLS_TOOL_NAME = 'ide_workspace_symbols';
+export const READ_SHELL_OUTPUT_TOOL_NAME = 'read_shell_output';
+export const WRITE_SHELL_INPUT_TOOL_NAME = 'write_shell_input';
+export const KILL_SHELL_TOOL_NAME = 'kill_shell';
+export const RUN_AGENTS_IN_PARALLEL_TOOL_NAME = 'run_agents_in_parallel';
 export const LS_TOOL_NAME_LEGACY = 'list_directory'; // Just to be safe if anything used the old exported name directly
 
 export const MEMORY_TOOL_NAME = 'save_memory';
 export const GET_INTERNAL_DOCS_TOOL_NAME = 'get_internal_docs';
 export const ACTIVATE_SKILL_TOOL_NAME = 'activate_skill';
-export const EDIT_TOOL_NAMES = new Set([EDIT_TOOL_NAME, WRITE_FILE_TOOL_NAME]);
+export const EDIT_TOOL_NAMES = new Set([
+  EDIT_TOOL_NAME,
+  WRITE_FILE_TOOL_NAME,
+  APPLY_PATCH_TOOL_NAME,
+  RENAME_SYMBOL_TOOL_NAME,
+]);
 export const ASK_USER_TOOL_NAME = 'ask_user';
 export const ASK_USER_DISPLAY_NAME = 'Ask User';
 export const EXIT_PLAN_MODE_TOOL_NAME = 'exit_plan_mode';
@@ -86,6 +106,7 @@ export const ALL_BUILTIN_TOOL_NAMES = [
   WEB_SEARCH_TOOL_NAME,
   WEB_FETCH_TOOL_NAME,
   EDIT_TOOL_NAME,
+  APPLY_PATCH_TOOL_NAME,
   SHELL_TOOL_NAME,
   GREP_TOOL_NAME,
   READ_MANY_FILES_TOOL_NAME,
@@ -94,6 +115,19 @@ export const ALL_BUILTIN_TOOL_NAMES = [
   MEMORY_TOOL_NAME,
   ACTIVATE_SKILL_TOOL_NAME,
   ASK_USER_TOOL_NAME,
+  REPORT_FINDING_TOOL_NAME,
+  SEMANTIC_SEARCH_TOOL_NAME,
+  FIND_DEFINITION_TOOL_NAME,
+  FIND_REFERENCES_TOOL_NAME,
+  DOCUMENT_SYMBOLS_TOOL_NAME,
+  RENAME_SYMBOL_TOOL_NAME,
+  IDE_DIAGNOSTICS_TOOL_NAME,
+  IDE_FIND_DEFINITION_TOOL_NAME,
+  IDE_FIND_REFERENCES_TOOL_NAME,
+  IDE_WORKSPACE_SYMBOLS_TOOL_NAME,
+  READ_SHELL_OUTPUT_TOOL_NAME,
+  WRITE_SHELL_INPUT_TOOL_NAME,
+  KILL_SHELL_TOOL_NAME,
 ] as const;
 
 /**
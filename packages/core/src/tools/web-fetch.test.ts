@@ -26,15 +26,20 @@ import {
   logWebFetchFallbackAttempt,
   WebFetchFallbackAttemptEvent,
 } from '../telemetry/index.js';
-import { convert } from 'html-to-text';
+import { htmlToMarkdown } from '../utils/htmlToMarkdown.js';
+import { crawl } from '../utils/webCrawler.js';
 
 const mockGenerateContent = vi.fn();
 const mockGetGeminiClient = vi.fn(() => ({
   generateContent: mockGenerateContent,
 }));
 
-vi.mock('html-to-text', () => ({
-  convert: vi.fn((text) => `Converted: ${text}`),
+vi.mock('../utils/htmlToMarkdown.js', () => ({
+  htmlToMarkdown: vi.fn((text) => `Converted: ${text}`),
+}));
+
+vi.mock('../utils/webCrawler.js', () => ({
+  crawl: vi.fn(),
 }));
 
 vi.mock('../telemetry/index.js', () => ({
@@ -142,6 +147,7 @@ describe('WebFetchTool', () => {
       getProxy: vi.fn(),
       getGeminiClient: mockGetGeminiClient,
       getRetryFetchErrors: vi.fn().mockReturnValue(false),
+      getWebFetchSettings: vi.fn().mockReturnValue({}),
       modelConfigService: {
         getResolvedConfig: vi.fn().mockImplementation(({ model }) => ({
           model,
@@ -270,7 +276,7 @@ describe('WebFetchTool', () => {
 
     it.each([
       {
-        name: 'HTML content using html-to-text',
+        name: 'HTML content as Markdown',
         content: '<html><body><h1>Hello</h1></body></html>',
         contentType: 'text/html; charset=utf-8',
         shouldConvert: true,
@@ -319,22 +325,120 @@ describe('WebFetchTool', () => {
         const result = await invocation.execute(new AbortController().signal);
 
         if (shouldConvert) {
-          expect(convert).toHaveBeenCalledWith(content, {
-            wordwrap: false,
-            selectors: [
-              { selector: 'a', options: { ignoreHref: true } },
-              { selector: 'img', format: 'skip' },
-            ],
-          });
+          expect(htmlToMarkdown).toHaveBeenCalledWith(content);
           expect(result.llmContent).toContain(`Converted: ${content}`);
         } else {
-          expect(convert).not.toHaveBeenCalled();
+          expect(htmlToMarkdown).not.toHaveBeenCalled();
           expect(result.llmContent).toContain(content);
         }
       },
     );
   });
 
+  describe('execute (crawl)', () => {
+    it('should crawl the first URL and return the pages without calling the model', async () => {
+      vi.mocked(crawl).mockResolvedValue({
+        pages: [
+          {
+            url: 'https://docs.example.com/',
+            title: 'Docs',
+            content: '# Docs',
+            fromCache: false,
+          },
+          {
+            url: 'https://docs.example.com/api',
+            content: '# API',
+            fromCache: true,
+          },
+        ],
+        skipped: [
+          { url: 'https://docs.example.com/admin', reason: 'disallowed' },
+        ],
+      });
+
+      const tool = new WebFetchTool(mockConfig, bus);
+      const invocation = tool.build({
+        prompt: 'read https://docs.example.com',
+        crawl_depth: 1,
+      });
+      const result = await invocation.execute(new AbortController().signal);
+
+      expect(crawl).toHaveBeenCalledWith(
+        'https://docs.example.com/',
+        expect.objectContaining({
+          maxDepth: 1,
+          maxPages: 20,
+          respectRobotsTxt: true,
+          cacheDir: expect.any(String),
+        }),
+      );
+      expect(mockGenerateContent).not.toHaveBeenCalled();
+      expect(result.llmContent).toBe(
+        [
+          '## Docs (https://docs.example.com/)',
+          '',
+          '# Docs',
+          '',
+          '---',
+          '',
+          '## https://docs.example.com/api (https://docs.example.com/api)',
+          '',
+          '# API',
+          '',
+          'Skipped pages:',
+          '- https://docs.example.com/admin: disallowed',
+        ].join('\n'),
+      );
+      expect(result.returnDisplay).toBe(
+        'Fetched 2 page(s) from https://docs.example.com/.',
+      );
+    });
+
+    it('should cap the depth and page budget with the settings', async () => {
+      vi.mocked(mockConfig.getWebFetchSettings).mockReturnValue({
+        maxCrawlDepth: 1,
+        maxCrawlPages: 5,
+        respectRobotsTxt: false,
+        cache: false,
+      });
+      vi.mocked(crawl).mockResolvedValue({ pages: [], skipped: [] });
+
+      const tool = new WebFetchTool(mockConfig, bus);
+      const invocation = tool.build({
+        prompt: 'read https://docs.example.com',
+        crawl_depth: 3,
+        max_pages: 50,
+      });
+      const result = await invocation.execute(new AbortController().signal);
+
+      expect(crawl).toHaveBeenCalledWith('https://docs.example.com/', {
+        maxDepth: 1,
+        maxPages: 5,
+        respectRobotsTxt: false,
+        cacheDir: undefined,
+        signal: expect.any(AbortSignal),
+      });
+      expect(result.error?.type).toBe(ToolErrorType.WEB_FETCH_CRAWL_FAILED);
+      expect(result.llmContent).toContain('No pages could be fetched.');
+    });
+
+    it('should ask to confirm a web crawl', async () => {
+      const tool = new WebFetchTool(mockConfig, bus);
+      const invocation = tool.build({
+        prompt: 'read https://github.com/google/gemini-react/blob/main/docs',
+        crawl_depth: 1,
+      });
+      const confirmationDetails = await invocation.shouldConfirmExecute(
+        new AbortController().signal,
+      );
+
+      expect(confirmationDetails).toMatchObject({
+        title: 'Confirm Web Crawl',
+        urls: ['https://github.com/google/gemini-react/blob/main/docs'],
+      });
+    });
+  });
+
   describe('shouldConfirmExecute', () => {
     it('should return confirmation details with the correct prompt and parsed urls', async () => {
       const tool = new WebFetchTool(mockConfig, bus);
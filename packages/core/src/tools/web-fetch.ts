@@ -22,7 +22,9 @@ import type { Config } from '../config/config.js';
 import { ApprovalMode } from '../policy/types.js';
 import { getResponseText } from '../utils/partUtils.js';
 import { fetchWithTimeout, isPrivateIp } from '../utils/fetch.js';
-import { convert } from 'html-to-text';
+import { htmlToMarkdown } from '../utils/htmlToMarkdown.js';
+import { crawl } from '../utils/webCrawler.js';
+import { Storage } from '../config/storage.js';
 import {
   logWebFetchFallbackAttempt,
   WebFetchFallbackAttemptEvent,
@@ -33,6 +35,22 @@ import { retryWithBackoff } from '../utils/retry.js';
 
 const URL_FETCH_TIMEOUT_MS = 10000;
 const MAX_CONTENT_LENGTH = 100000;
+const DEFAULT_MAX_CRAWL_DEPTH = 2;
+const DEFAULT_MAX_CRAWL_PAGES = 20;
+
+/**
+ * Settings limiting how far the web fetch tool crawls a site.
+ */
+export interface WebFetchSettings {
+  /** The deepest `crawl_depth` the model may request. */
+  maxCrawlDepth?: number;
+  /** The most pages one crawl may fetch. */
+  maxCrawlPages?: number;
+  /** Whether crawls skip pages disallowed by robots.txt. Defaults to true. */
+  respectRobotsTxt?: boolean;
+  /** Whether crawled pages are cached on disk. Defaults to true. */
+  cache?: boolean;
+}
 
 /**
  * Parses a prompt to extract valid URLs and identify malformed ones.
@@ -101,6 +119,17 @@ export interface WebFetchToolParams {
    * The prompt containing URL(s) (up to 20) and instructions for processing their content.
    */
   prompt: string;
+
+  /**
+   * When set, crawls the site of the first URL, following same-origin links
+   * this many levels deep, and returns the pages as Markdown.
+   */
+  crawl_depth?: number;
+
+  /**
+   * The maximum number of pages to fetch when crawling.
+   */
+  max_pages?: number;
 }
 
 interface ErrorWithStatus extends Error {
@@ -155,18 +184,12 @@ class WebFetchToolInvocation extends BaseToolInvocation<
       const contentType = response.headers.get('content-type') || '';
       let textContent: string;
 
-      // Only use html-to-text if content type is HTML, or if no content type is provided (assume HTML)
+      // Only extract Markdown if content type is HTML, or if no content type is provided (assume HTML)
       if (
         contentType.toLowerCase().includes('text/html') ||
         contentType === ''
       ) {
-        textContent = convert(rawContent, {
-          wordwrap: false,
-          selectors: [
-            { selector: 'a', options: { ignoreHref: true } },
-            { selector: 'img', format: 'skip' },
-          ],
-        });
+        textContent = htmlToMarkdown(rawContent);
       } else {
         // For other content types (text/plain, application/json, etc.), use raw text
         textContent = rawContent;
@@ -208,11 +231,81 @@ ${textContent}
     }
   }
 
+  private async executeCrawl(signal: AbortSignal): Promise<ToolResult> {
+    const { validUrls } = parsePrompt(this.params.prompt);
+    const url = validUrls[0];
+    const settings = this.config.getWebFetchSettings();
+    const maxPages = settings.maxCrawlPages ?? DEFAULT_MAX_CRAWL_PAGES;
+
+    try {
+      const { pages, skipped } = await crawl(url, {
+        maxDepth: Math.min(
+          this.params.crawl_depth ?? 0,
+          settings.maxCrawlDepth ?? DEFAULT_MAX_CRAWL_DEPTH,
+        ),
+        maxPages: Math.min(this.params.max_pages ?? maxPages, maxPages),
+        respectRobotsTxt: settings.respectRobotsTxt ?? true,
+        cacheDir:
+          settings.cache === false ? undefined : Storage.getWebCacheDir(),
+        signal,
+      });
+      if (pages.length === 0) {
+        const reasons = skipped.map((page) => `${page.url}: ${page.reason}`);
+        throw new Error(
+          reasons.length > 0
+            ? `No pages could be fetched.\n${reasons.join('\n')}`
+            : 'No pages could be fetched.',
+        );
+      }
+
+      const sections = pages.map(
+        (page) =>
+          `## ${page.title ?? page.url} (${page.url})\n\n${page.content}`,
+      );
+      let llmContent = sections.join('\n\n---\n\n');
+      if (llmContent.length > MAX_CONTENT_LENGTH) {
+        llmContent =
+          llmContent.substring(0, MAX_CONTENT_LENGTH) +
+          '\n\n[Content truncated]';
+      }
+      if (skipped.length > 0) {
+        llmContent += `\n\nSkipped pages:\n${skipped
+          .map((page) => `- ${page.url}: ${page.reason}`)
+          .join('\n')}`;
+      }
+
+      debugLogger.debug(
+        `[WebFetchTool] Crawled ${pages.length} page(s) from ${url}, skipped ${skipped.length}.`,
+      );
+      return {
+        llmContent,
+        returnDisplay: `Fetched ${pages.length} page(s) from ${url}.`,
+      };
+    } catch (error: unknown) {
+      const errorMessage = `Error crawling ${url}: ${getErrorMessage(error)}`;
+      return {
+        llmContent: `Error: ${errorMessage}`,
+        returnDisplay: `Error: ${errorMessage}`,
+        error: {
+          message: errorMessage,
+          type: ToolErrorType.WEB_FETCH_CRAWL_FAILED,
+        },
+      };
+    }
+  }
+
+  private isCrawl(): boolean {
+    return this.params.crawl_depth !== undefined;
+  }
+
   getDescription(): string {
     const displayPrompt =
       this.params.prompt.length > 100
         ? this.params.prompt.substring(0, 97) + '...'
         : this.params.prompt;
+    if (this.isCrawl()) {
+      return `Crawling ${this.params.crawl_depth} level(s) deep from prompt: "${displayPrompt}"`;
+    }
     return `Processing URLs and instructions from prompt: "${displayPrompt}"`;
   }
 
@@ -229,6 +322,9 @@ ${textContent}
     // URL and the actual URL to be fetched.
     const { validUrls } = parsePrompt(this.params.prompt);
     const urls = validUrls.map((url) => {
+      if (this.isCrawl()) {
+        return url;
+      }
       if (url.includes('github.com') && url.includes('/blob/')) {
         return url
           .replace('github.com', 'raw.githubusercontent.com')
@@ -239,7 +335,7 @@ ${textContent}
 
     const confirmationDetails: ToolCallConfirmationDetails = {
       type: 'info',
-      title: `Confirm Web Fetch`,
+      title: this.isCrawl() ? `Confirm Web Crawl` : `Confirm Web Fetch`,
       prompt: this.params.prompt,
       urls,
       onConfirm: async (outcome: ToolConfirmationOutcome) => {
@@ -256,6 +352,10 @@ ${textContent}
   }
 
   async execute(signal: AbortSignal): Promise<ToolResult> {
+    if (this.isCrawl()) {
+      return this.executeCrawl(signal);
+    }
+
     const userPrompt = this.params.prompt;
     const { validUrls: urls } = parsePrompt(userPrompt);
     const url = urls[0];
@@ -414,7 +514,7 @@ export class WebFetchTool extends BaseDeclarativeTool<
     super(
       WebFetchTool.Name,
       'WebFetch',
-      "Processes content from URL(s), including local and private network addresses (e.g., localhost), embedded in a prompt. Include up to 20 URLs and instructions (e.g., summarize, extract specific data) directly in the 'prompt' parameter.",
+      "Processes content from URL(s), including local and private network addresses (e.g., localhost), embedded in a prompt. Include up to 20 URLs and instructions (e.g., summarize, extract specific data) directly in the 'prompt' parameter. Set 'crawl_depth' to instead read a documentation site: the first URL and the same-site pages it links to are returned as Markdown.",
       Kind.Fetch,
       {
         properties: {
@@ -423,6 +523,18 @@ export class WebFetchTool extends BaseDeclarativeTool<
               'A comprehensive prompt that includes the URL(s) (up to 20) to fetch and specific instructions on how to process their content (e.g., "Summarize https://example.com/article and extract key points from https://another.com/data"). All URLs to be fetched must be valid and complete, starting with "http://" or "https://", and be fully-formed with a valid hostname (e.g., a domain name like "example.com" or an IP address). For example, "https://example.com" is valid, but "example.com" is not.',
             type: 'string',
           },
+          crawl_depth: {
+            description:
+              'Optional: Crawls the site of the first URL in the prompt and returns the main content of its pages as Markdown, instead of processing the prompt. Links to pages on the same origin are followed this many levels deep; 0 fetches only the first URL.',
+            type: 'integer',
+            minimum: 0,
+          },
+          max_pages: {
+            description:
+              'Optional: The maximum number of pages to fetch when crawling.',
+            type: 'integer',
+            minimum: 1,
+          },
         },
         required: ['prompt'],
         type: 'object',
@@ -0,0 +1,221 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  afterEach,
+} from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  createWebSearchProvider,
+  toWebSearchResponse,
+  type WebSearchSettings,
+} from './web-search-providers.js';
+import { WebSearchTool } from './web-search.js';
+import type { Config } from '../config/config.js';
+import { createMockMessageBus } from '../test-utils/mock-message-bus.js';
+
+describe('web search providers', () => {
+  const abortSignal = new AbortController().signal;
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: http.IncomingMessage[];
+  let responseStatus: number;
+  let responseBody: unknown;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(req);
+      res.writeHead(responseStatus, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(responseBody));
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    responseStatus = 200;
+    responseBody = {};
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const configWith = (webSearch: WebSearchSettings) =>
+    ({
+      getWebSearchSettings: () => webSearch,
+      getGeminiClient: vi.fn(),
+    }) as unknown as Config;
+
+  it('should query SearXNG and cite each result', async () => {
+    responseBody = {
+      results: [
+        {
+          title: 'Vitest',
+          url: 'https://vitest.dev',
+          content: 'Next generation testing framework',
+        },
+        { title: 'No URL' },
+        { title: 'Jest', url: 'https://jestjs.io', content: 'Testing' },
+      ],
+    };
+    const provider = createWebSearchProvider(
+      configWith({ provider: 'searxng', endpoint: `${baseUrl}/search` }),
+    );
+
+    const response = await provider.search('test runner', abortSignal);
+
+    expect(requests[0].url).toBe('/search?q=test+runner&format=json');
+    expect(response.text).toBe(
+      '1. Vitest: Next generation testing framework\n2. Jest: Testing',
+    );
+    expect(response.sources).toEqual([
+      { web: { uri: 'https://vitest.dev', title: 'Vitest' } },
+      { web: { uri: 'https://jestjs.io', title: 'Jest' } },
+    ]);
+  });
+
+  it('should send the API key and read Brave results', async () => {
+    vi.stubEnv('WEB_SEARCH_API_KEY', 'secret');
+    responseBody = {
+      web: {
+        results: [
+          { title: 'Node.js', url: 'https://nodejs.org', description: 'JS' },
+        ],
+      },
+    };
+    const provider = createWebSearchProvider(
+      configWith({ provider: 'brave', endpoint: baseUrl, maxResults: 5 }),
+    );
+
+    const response = await provider.search('node', abortSignal);
+
+    expect(requests[0].url).toBe('/?q=node&count=5');
+    expect(requests[0].headers['x-subscription-token']).toBe('secret');
+    expect(response.text).toBe('1. Node.js: JS');
+  });
+
+  it('should fill in the HTTP template and read the configured results path', async () => {
+    responseBody = {
+      data: {
+        items: [
+          { name: 'One', link: 'https://one.example' },
+          { name: 'Two', link: 'https://two.example' },
+        ],
+      },
+    };
+    const provider = createWebSearchProvider(
+      configWith({
+        provider: 'http',
+        endpoint: `${baseUrl}/api?query={query}`,
+        headers: { 'X-Team': 'docs' },
+        resultsPath: 'data.items',
+        maxResults: 1,
+      }),
+    );
+
+    const response = await provider.search('a&b', abortSignal);
+
+    expect(requests[0].url).toBe('/api?query=a%26b');
+    expect(requests[0].headers['x-team']).toBe('docs');
+    expect(response.text).toBe('1. One');
+  });
+
+  it('should fail on an HTTP error status', async () => {
+    responseStatus = 503;
+    const provider = createWebSearchProvider(
+      configWith({ provider: 'searxng', endpoint: baseUrl }),
+    );
+
+    await expect(provider.search('query', abortSignal)).rejects.toThrow(
+      'Search API returned HTTP 503',
+    );
+  });
+
+  it('should fail when the response has no results array', async () => {
+    responseBody = { hits: [] };
+    const provider = createWebSearchProvider(
+      configWith({ provider: 'searxng', endpoint: baseUrl }),
+    );
+
+    await expect(provider.search('query', abortSignal)).rejects.toThrow(
+      "Search API response has no results array at 'results'.",
+    );
+  });
+
+  it('should require an endpoint for self-hosted providers', () => {
+    expect(() =>
+      createWebSearchProvider(configWith({ provider: 'searxng' })),
+    ).toThrow(
+      "The 'searxng' web search provider requires tools.webSearch.endpoint to be set.",
+    );
+    expect(() =>
+      createWebSearchProvider(
+        configWith({ provider: 'http', endpoint: baseUrl }),
+      ),
+    ).toThrow("requires a '{query}' placeholder");
+  });
+
+  it('should cite the results in the web search tool output', async () => {
+    responseBody = {
+      results: [
+        { title: 'Café', url: 'https://cafe.example', content: 'Crème' },
+        { title: 'Bar', url: 'https://bar.example', content: 'Drinks' },
+      ],
+    };
+    const tool = new WebSearchTool(
+      configWith({ provider: 'searxng', endpoint: baseUrl }),
+      createMockMessageBus(),
+    );
+
+    const result = await tool.build({ query: 'food' }).execute(abortSignal);
+
+    expect(result.llmContent).toBe(
+      [
+        'Web search results for "food":',
+        '',
+        '1. Café: Crème[1]',
+        '2. Bar: Drinks[2]',
+        '',
+        'Sources:',
+        '[1] Café (https://cafe.example)',
+        '[2] Bar (https://bar.example)',
+      ].join('\n'),
+    );
+    expect(result.error).toBeUndefined();
+  });
+
+  it('should build grounding supports that end each result line', () => {
+    const response = toWebSearchResponse([
+      { title: 'Ünï', url: 'https://a.example', snippet: '' },
+      { title: 'B', url: 'https://b.example', snippet: 'b' },
+    ]);
+
+    const bytes = new TextEncoder().encode(response.text);
+    const decode = (start: number, end: number) =>
+      new TextDecoder().decode(bytes.subarray(start, end));
+    expect(
+      response.supports?.map(({ segment }) =>
+        decode(segment!.startIndex, segment!.endIndex),
+      ),
+    ).toEqual(['1. Ünï', '2. B: b']);
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Config } from '../config/config.js';
+import { getResponseText } from '../utils/partUtils.js';
+
+const WEB_SEARCH_TIMEOUT_MS = 15000;
+const DEFAULT_MAX_RESULTS = 10;
+const DEFAULT_BRAVE_ENDPOINT = 'https://api.search.brave.com/res/v1/web/search';
+
+/** Environment variable holding the API key sent to search APIs. */
+export const WEB_SEARCH_API_KEY_ENV_VAR = 'WEB_SEARCH_API_KEY';
+
+export interface GroundingChunkWeb {
+  uri?: string;
+  title?: string;
+}
+
+export interface GroundingChunkItem {
+  web?: GroundingChunkWeb;
+  // Other properties might exist if needed in the future
+}
+
+export interface GroundingSupportSegment {
+  startIndex: number;
+  endIndex: number;
+  text?: string; // text is optional as per the example
+}
+
+export interface GroundingSupportItem {
+  segment?: GroundingSupportSegment;
+  groundingChunkIndices?: number[];
+  confidenceScores?: number[]; // Optional as per example
+}
+
+export type WebSearchProviderName = 'gemini' | 'searxng' | 'brave' | 'http';
+
+/**
+ * Settings choosing where the web search tool gets its results.
+ */
+export interface WebSearchSettings {
+  /** The search backend. Defaults to Google Search grounding via Gemini. */
+  provider?: WebSearchProviderName;
+  /**
+   * The URL of the search API. For the `http` provider, `{query}` is
+   * replaced with the URL-encoded query.
+   */
+  endpoint?: string;
+  /** Extra HTTP headers sent with every search request. */
+  headers?: Record<string, string>;
+  /**
+   * For the `http` provider, the dot-separated path of the results array in
+   * the JSON response, such as `data.items`. Defaults to `results`.
+   */
+  resultsPath?: string;
+  /** The maximum number of results passed to the model. */
+  maxResults?: number;
+}
+
+/**
+ * A search response in the shape of Gemini's grounding metadata, so every
+ * provider's results are cited the same way.
+ */
+export interface WebSearchResponse {
+  text: string;
+  sources?: GroundingChunkItem[];
+  supports?: GroundingSupportItem[];
+}
+
+export interface WebSearchProvider {
+  search(query: string, signal: AbortSignal): Promise<WebSearchResponse>;
+}
+
+export interface SearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+}
+
+/**
+ * Searches with Google Search grounding through the Gemini API.
+ */
+class GeminiWebSearchProvider implements WebSearchProvider {
+  constructor(private readonly config: Config) {}
+
+  async search(query: string, signal: AbortSignal): Promise<WebSearchResponse> {
+    const response = await this.config
+      .getGeminiClient()
+      .generateContent(
+        { model: 'web-search' },
+        [{ role: 'user', parts: [{ text: query }] }],
+        signal,
+      );
+    const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
+    return {
+      text: getResponseText(response) ?? '',
+      sources: groundingMetadata?.groundingChunks as
+        | GroundingChunkItem[]
+        | undefined,
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+      supports: groundingMetadata?.groundingSupports as
+        | GroundingSupportItem[]
+        | undefined,
+    };
+  }
+}
+
+function getField(value: unknown, key: string): unknown {
+  return typeof value === 'object' && value !== null
+    ? (Reflect.get(value, key) as unknown)
+    : undefined;
+}
+
+/**
+ * Reads a result object, accepting the field names common search APIs use.
+ */
+function toSearchResult(item: unknown): SearchResult | undefined {
+  const readString = (...keys: string[]) => {
+    for (const key of keys) {
+      const value = getField(item, key);
+      if (typeof value === 'string' && value.trim()) {
+        return value.trim();
+      }
+    }
+    return '';
+  };
+  const url = readString('url', 'link', 'href');
+  if (!url) {
+    return undefined;
+  }
+  return {
+    url,
+    title: readString('title', 'name') || url,
+    snippet: readString('snippet', 'content', 'description'),
+  };
+}
+
+function getPath(value: unknown, path: string): unknown {
+  return path.split('.').filter(Boolean).reduce(getField, value);
+}
+
+/**
+ * Lists the results one per line, with a grounding support ending each line
+ * so the results are cited like grounded answers.
+ */
+export function toWebSearchResponse(
+  results: SearchResult[],
+): WebSearchResponse {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  const supports: GroundingSupportItem[] = [];
+  let byteLength = 0;
+  results.forEach((result, index) => {
+    const line = result.snippet
+      ? `${index + 1}. ${result.title}: ${result.snippet}`
+      : `${index + 1}. ${result.title}`;
+    const startIndex = byteLength + (index > 0 ? 1 : 0);
+    byteLength = startIndex + encoder.encode(line).length;
+    lines.push(line);
+    supports.push({
+      segment: { startIndex, endIndex: byteLength },
+      groundingChunkIndices: [index],
+    });
+  });
+  return {
+    text: lines.join('\n'),
+    sources: results.map((result) => ({
+      web: { uri: result.url, title: result.title },
+    })),
+    supports,
+  };
+}
+
+/**
+ * Searches a JSON search API, such as a self-hosted SearXNG instance, the
+ * Brave Search API or any API described by a URL template.
+ */
+class JsonApiWebSearchProvider implements WebSearchProvider {
+  constructor(
+    private readonly buildUrl: (query: string) => string,
+    private readonly headers: Record<string, string>,
+    private readonly resultsPath: string,
+    private readonly maxResults: number,
+  ) {}
+
+  async search(query: string, signal: AbortSignal): Promise<WebSearchResponse> {
+    const response = await fetch(this.buildUrl(query), {
+      headers: { Accept: 'application/json', ...this.headers },
+      signal: AbortSignal.any([
+        signal,
+        AbortSignal.timeout(WEB_SEARCH_TIMEOUT_MS),
+      ]),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Search API returned HTTP ${response.status} ${response.statusText}`,
+      );
+    }
+    const items: unknown = getPath(await response.json(), this.resultsPath);
+    if (!Array.isArray(items)) {
+      throw new Error(
+        `Search API response has no results array at '${this.resultsPath}'.`,
+      );
+    }
+    const results = items
+      .map(toSearchResult)
+      .filter((result): result is SearchResult => result !== undefined)
+      .slice(0, this.maxResults);
+    return toWebSearchResponse(results);
+  }
+}
+
+/**
+ * Creates the provider selected by the `tools.webSearch` settings. Throws if
+ * the settings are incomplete.
+ */
+export function createWebSearchProvider(config: Config): WebSearchProvider {
+  const settings = config.getWebSearchSettings();
+  const provider = settings.provider ?? 'gemini';
+  if (provider === 'gemini') {
+    return new GeminiWebSearchProvider(config);
+  }
+
+  const maxResults = settings.maxResults ?? DEFAULT_MAX_RESULTS;
+  const apiKey = process.env[WEB_SEARCH_API_KEY_ENV_VAR];
+  const endpoint =
+    settings.endpoint ??
+    (provider === 'brave' ? DEFAULT_BRAVE_ENDPOINT : undefined);
+  if (!endpoint) {
+    throw new Error(
+      `The '${provider}' web search provider requires tools.webSearch.endpoint to be set.`,
+    );
+  }
+  const withQuery = (params: Record<string, string>) => {
+    const url = new URL(endpoint);
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+    return url.toString();
+  };
+
+  switch (provider) {
+    case 'searxng':
+      return new JsonApiWebSearchProvider(
+        (query) => withQuery({ q: query, format: 'json' }),
+        {
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          ...settings.headers,
+        },
+        'results',
+        maxResults,
+      );
+    case 'brave':
+      return new JsonApiWebSearchProvider(
+        (query) => withQuery({ q: query, count: String(maxResults) }),
+        {
+          ...(apiKey ? { 'X-Subscription-Token': apiKey } : {}),
+          ...settings.headers,
+        },
+        'web.results',
+        maxResults,
+      );
+    case 'http':
+      if (!endpoint.includes('{query}')) {
+        throw new Error(
+          "The 'http' web search provider requires a '{query}' placeholder in tools.webSearch.endpoint.",
+        );
+      }
+      return new JsonApiWebSearchProvider(
+        (query) => endpoint.replaceAll('{query}', encodeURIComponent(query)),
+        {
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          ...settings.headers,
+        },
+        settings.resultsPath ?? 'results',
+        maxResults,
+      );
+    default:
+      throw new Error(`Unknown web search provider: ${provider}`);
+  }
+}
@@ -13,30 +13,12 @@ import { ToolErrorType } from './tool-error.js';
 
 import { getErrorMessage } from '../utils/errors.js';
 import { type Config } from '../config/config.js';
-import { getResponseText } from '../utils/partUtils.js';
 import { debugLogger } from '../utils/debugLogger.js';
-
-interface GroundingChunkWeb {
-  uri?: string;
-  title?: string;
-}
-
-interface GroundingChunkItem {
-  web?: GroundingChunkWeb;
-  // Other properties might exist if needed in the future
-}
-
-interface GroundingSupportSegment {
-  startIndex: number;
-  endIndex: number;
-  text?: string; // text is optional as per the example
-}
-
-interface GroundingSupportItem {
-  segment?: GroundingSupportSegment;
-  groundingChunkIndices?: number[];
-  confidenceScores?: number[]; // Optional as per example
-}
+import {
+  createWebSearchProvider,
+  type GroundingChunkItem,
+  type GroundingSupportItem,
+} from './web-search-providers.js';
 
 /**
  * Parameters for the WebSearchTool.
@@ -77,25 +59,16 @@ class WebSearchToolInvocation extends BaseToolInvocation<
   }
 
   async execute(signal: AbortSignal): Promise<WebSearchToolResult> {
-    const geminiClient = this.config.getGeminiClient();
-
     try {
-      const response = await geminiClient.generateContent(
-        { model: 'web-search' },
-        [{ role: 'user', parts: [{ text: this.params.query }] }],
+      const {
+        text: responseText,
+        sources,
+        supports: groundingSupports,
+      } = await createWebSearchProvider(this.config).search(
+        this.params.query,
         signal,
       );
 
-      const responseText = getResponseText(response);
-      const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
-      const sources = groundingMetadata?.groundingChunks as
-        | GroundingChunkItem[]
-        | undefined;
-      // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
-      const groundingSupports = groundingMetadata?.groundingSupports as
-        | GroundingSupportItem[]
-        | undefined;
-
       if (!responseText || !responseText.trim()) {
         return {
           llmContent: `No search results or information found for query: "${this.params.query}"`,
@@ -183,7 +156,8 @@ class WebSearchToolInvocation extends BaseToolInvocation<
 }
 
 /**
- * A tool to perform web searches using Google Search via the Gemini API.
+ * A tool to perform web searches using Google Search via the Gemini API, or
+ * the search API configured in the `tools.webSearch` settings.
  */
 export class WebSearchTool extends BaseDeclarativeTool<
   WebSearchToolParams,
@@ -198,7 +172,9 @@ export class WebSearchTool extends BaseDeclarativeTool<
     super(
       WebSearchTool.Name,
       'GoogleSearch',
-      'Performs a web search using Google Search (via the Gemini API) and returns the results. This tool is useful for finding information on the internet based on a query.',
+      (config.getWebSearchSettings().provider ?? 'gemini') === 'gemini'
+        ? 'Performs a web search using Google Search (via the Gemini API) and returns the results. This tool is useful for finding information on the internet based on a query.'
+        : 'Performs a web search using the configured search engine and returns the top results with their sources. This tool is useful for finding information on the internet based on a query.',
       Kind.Search,
       {
         type: 'object',
@@ -39,6 +39,7 @@ import {
   ensureCorrectFileContent,
 } from '../utils/editCorrector.js';
 import { StandardFileSystemService } from '../services/fileSystemService.js';
+import { LspManager } from '../lsp/lsp-manager.js';
 import type { DiffUpdateResult } from '../ide/ide-client.js';
 import { IdeClient } from '../ide/ide-client.js';
 import { WorkspaceContext } from '../utils/workspaceContext.js';
@@ -86,6 +87,7 @@ const mockConfigInternal = {
   getGeminiClient: vi.fn(), // Initialize as a plain mock function
   getBaseLlmClient: vi.fn(), // Initialize as a plain mock function
   getFileSystemService: () => fsService,
+  getLspManager: () => new LspManager(rootDir),
   getIdeMode: vi.fn(() => false),
   getWorkspaceContext: () => new WorkspaceContext(rootDir, [plansDir]),
   getApiKey: () => 'test-key',
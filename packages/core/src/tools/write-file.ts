@@ -355,6 +355,12 @@ class WriteFileToolInvocation extends BaseToolInvocation<
           `User modified the \`content\` to be: ${content}`,
         );
       }
+      const diagnostics = await this.config
+        .getLspManager()
+        .getDiagnosticsAfterEdit(this.resolvedPath);
+      if (diagnostics) {
+        llmSuccessMessageParts.push(`\n\n${diagnostics}`);
+      }
 
       // Log file operation for telemetry (without diff_stat to avoid double-counting)
       const mimetype = getSpecificMimeType(this.resolvedPath);
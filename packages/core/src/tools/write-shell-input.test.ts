@@ -0,0 +1,80 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { WriteShellInputTool } from './write-shell-input.js';
+import {
+  ShellExecutionService,
+  type BackgroundProcessOutput,
+} from '../services/shellExecutionService.js';
+import { ToolErrorType } from './tool-error.js';
+import { createMockMessageBus } from '../test-utils/mock-message-bus.js';
+
+vi.mock('../services/shellExecutionService.js', () => ({
+  ShellExecutionService: {
+    getBackgroundOutput: vi.fn(),
+    writeToPty: vi.fn(),
+  },
+}));
+
+describe('WriteShellInputTool', () => {
+  const abortSignal = new AbortController().signal;
+  let snapshot: BackgroundProcessOutput | undefined;
+  let tool: WriteShellInputTool;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    snapshot = {
+      output: '> ',
+      acceptsInput: true,
+      exited: false,
+      exitCode: null,
+      signal: null,
+    };
+    vi.mocked(ShellExecutionService.getBackgroundOutput).mockImplementation(
+      () => snapshot,
+    );
+    tool = new WriteShellInputTool(createMockMessageBus());
+  });
+
+  it('should reject empty input', () => {
+    expect(() => tool.build({ pid: 42, input: '' })).toThrow(
+      "The 'input' parameter cannot be empty.",
+    );
+  });
+
+  it('should write the input to the process terminal', async () => {
+    const result = await tool
+      .build({ pid: 42, input: 'help\n' })
+      .execute(abortSignal);
+
+    expect(ShellExecutionService.writeToPty).toHaveBeenCalledWith(42, 'help\n');
+    expect(result.llmContent).toBe(
+      'Wrote 5 character(s) to background process 42. Use read_shell_output to see how it responded.',
+    );
+  });
+
+  it('should refuse processes that do not accept input', async () => {
+    snapshot = { ...snapshot!, acceptsInput: false };
+
+    const result = await tool
+      .build({ pid: 42, input: 'y\n' })
+      .execute(abortSignal);
+
+    expect(ShellExecutionService.writeToPty).not.toHaveBeenCalled();
+    expect(result.error?.type).toBe(ToolErrorType.BACKGROUND_PROCESS_NO_INPUT);
+  });
+
+  it('should return an error for an unknown process', async () => {
+    snapshot = undefined;
+
+    const result = await tool
+      .build({ pid: 42, input: 'y\n' })
+      .execute(abortSignal);
+
+    expect(result.error?.type).toBe(ToolErrorType.BACKGROUND_PROCESS_NOT_FOUND);
+  });
+});
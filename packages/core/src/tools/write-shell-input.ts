@@ -0,0 +1,116 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { MessageBus } from '../confirmation-bus/message-bus.js';
+import { ShellExecutionService } from '../services/shellExecutionService.js';
+import type { ToolInvocation, ToolResult } from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+import { ToolErrorType } from './tool-error.js';
+import {
+  READ_SHELL_OUTPUT_TOOL_NAME,
+  WRITE_SHELL_INPUT_TOOL_NAME,
+} from './tool-names.js';
+import {
+  PID_SCHEMA_PROPERTY,
+  processNotFoundResult,
+  type BackgroundProcessParams,
+} from './background-shell-utils.js';
+
+export interface WriteShellInputToolParams extends BackgroundProcessParams {
+  /** The text to write to the process's terminal. */
+  input: string;
+}
+
+class WriteShellInputToolInvocation extends BaseToolInvocation<
+  WriteShellInputToolParams,
+  ToolResult
+> {
+  getDescription(): string {
+    return `${JSON.stringify(this.params.input)} to PID ${this.params.pid}`;
+  }
+
+  async execute(): Promise<ToolResult> {
+    const { pid, input } = this.params;
+    const snapshot = ShellExecutionService.getBackgroundOutput(pid);
+    if (!snapshot) {
+      return processNotFoundResult(pid);
+    }
+    if (snapshot.exited || !snapshot.acceptsInput) {
+      const message = snapshot.exited
+        ? `Background process ${pid} has already exited.`
+        : `Background process ${pid} does not accept input because it is not running in a pseudo-terminal.`;
+      return {
+        llmContent: message,
+        returnDisplay: message,
+        error: { message, type: ToolErrorType.BACKGROUND_PROCESS_NO_INPUT },
+      };
+    }
+
+    ShellExecutionService.writeToPty(pid, input);
+    return {
+      llmContent: `Wrote ${input.length} character(s) to background process ${pid}. Use ${READ_SHELL_OUTPUT_TOOL_NAME} to see how it responded.`,
+      returnDisplay: `Wrote ${input.length} character(s)`,
+    };
+  }
+}
+
+/**
+ * Writes input to the terminal of a command that run_shell_command moved to
+ * the background.
+ */
+export class WriteShellInputTool extends BaseDeclarativeTool<
+  WriteShellInputToolParams,
+  ToolResult
+> {
+  static readonly Name = WRITE_SHELL_INPUT_TOOL_NAME;
+
+  constructor(messageBus: MessageBus) {
+    super(
+      WriteShellInputTool.Name,
+      'WriteShellInput',
+      `Writes text to the terminal of a background process started with run_shell_command and 'is_background: true', as if it were typed. Include "\\n" to press Enter, or control characters such as "\\u0003" (Ctrl+C). Use read_shell_output afterwards to see the response.`,
+      Kind.Execute,
+      {
+        type: 'object',
+        properties: {
+          pid: PID_SCHEMA_PROPERTY,
+          input: {
+            type: 'string',
+            description:
+              'The text to write. It is sent exactly as given, so end it with "\\n" to submit a line.',
+          },
+        },
+        required: ['pid', 'input'],
+      },
+      messageBus,
+      false, // isOutputMarkdown
+      false, // canUpdateOutput
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: WriteShellInputToolParams,
+  ): string | null {
+    if (params.input === '') {
+      return "The 'input' parameter cannot be empty.";
+    }
+    return null;
+  }
+
+  protected createInvocation(
+    params: WriteShellInputToolParams,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ): ToolInvocation<WriteShellInputToolParams, ToolResult> {
+    return new WriteShellInputToolInvocation(
+      params,
+      messageBus,
+      _toolName,
+      _toolDisplayName,
+    );
+  }
+}
@@ -13,6 +13,7 @@ import {
   getTruncatedCheckpointNames,
   processRestorableToolCalls,
   getCheckpointInfoList,
+  getCheckpointToolCallsByCommit,
 } from './checkpointUtils.js';
 import type { GitService } from '../services/gitService.js';
 import type { GeminiClient } from '../core/client.js';
@@ -93,6 +94,23 @@ describe('checkpoint utils', () => {
       const actual = generateCheckpointFileName(toolCall);
       expect(actual).toBeNull();
     });
+
+    it('should name apply_patch checkpoints after the patch', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2025-01-01T12:00:00.000Z'));
+      const toolCall = {
+        callId: '1',
+        name: 'apply_patch',
+        args: { patch: '--- a/x\n+++ b/x\n' },
+        isClientInitiated: false,
+        prompt_id: 'p1',
+      } as ToolCallRequestInfo;
+
+      const actual = generateCheckpointFileName(toolCall);
+      expect(actual).toBe('2025-01-01T12-00-00_000Z-patch-apply_patch');
+
+      vi.useRealTimers();
+    });
   });
 
   describe('formatCheckpointDisplayList and getTruncatedCheckpointNames', () => {
@@ -302,4 +320,26 @@ describe('checkpoint utils', () => {
       expect(actual).toEqual(expected);
     });
   });
+
+  describe('getCheckpointToolCallsByCommit', () => {
+    it('should group tool calls by their snapshot commit', () => {
+      const toolCall = (name: string, commitHash?: string) =>
+        JSON.stringify({ toolCall: { name, args: {} }, commitHash });
+      const checkpointFiles = new Map([
+        ['a-replace.json', toolCall('replace', 'hash1')],
+        ['b-write_file.json', toolCall('write_file', 'hash1')],
+        ['c-replace.json', toolCall('replace', 'hash2')],
+        ['no-hash.json', toolCall('replace')],
+        ['invalid.json', 'not-json'],
+      ]);
+
+      const actual = getCheckpointToolCallsByCommit(checkpointFiles);
+
+      expect([...actual.keys()]).toEqual(['hash1', 'hash2']);
+      expect(actual.get('hash1')).toEqual([
+        { checkpoint: 'a-replace', toolName: 'replace', args: {} },
+        { checkpoint: 'b-write_file', toolName: 'write_file', args: {} },
+      ]);
+    });
+  });
 });
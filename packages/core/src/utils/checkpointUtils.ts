@@ -11,6 +11,7 @@ import { getErrorMessage } from './errors.js';
 import { z } from 'zod';
 import type { Content } from '@google/genai';
 import type { ToolCallRequestInfo } from '../scheduler/types.js';
+import { APPLY_PATCH_TOOL_NAME } from '../tools/tool-names.js';
 
 export interface ToolCallData<HistoryType = unknown, ArgsType = unknown> {
   history?: HistoryType;
@@ -49,8 +50,12 @@ export function generateCheckpointFileName(
   toolCall: ToolCallRequestInfo,
 ): string | null {
   const toolArgs = toolCall.args;
-  // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
-  const toolFilePath = toolArgs['file_path'] as string;
+  // A patch can touch many files, so its checkpoint is named after the tool.
+  const toolFilePath =
+    toolCall.name === APPLY_PATCH_TOOL_NAME
+      ? 'patch'
+      : // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+        (toolArgs['file_path'] as string);
 
   if (!toolFilePath) {
     return null;
@@ -182,3 +187,40 @@ export function getCheckpointInfoList(
   }
   return checkpointInfoList;
 }
+
+export interface CheckpointToolCall {
+  checkpoint: string;
+  toolName: string;
+  args: unknown;
+}
+
+/**
+ * Groups the tool calls recorded in checkpoint files by the commit hash of
+ * the snapshot taken before they ran. Several tool calls share a snapshot
+ * when no files changed between them.
+ */
+export function getCheckpointToolCallsByCommit(
+  checkpointFiles: Map<string, string>,
+): Map<string, CheckpointToolCall[]> {
+  const toolCallsByCommit = new Map<string, CheckpointToolCall[]>();
+
+  for (const [file, content] of checkpointFiles) {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+      const toolCallData = JSON.parse(content) as ToolCallData;
+      if (!toolCallData.commitHash || !toolCallData.toolCall) {
+        continue;
+      }
+      const toolCalls = toolCallsByCommit.get(toolCallData.commitHash) ?? [];
+      toolCalls.push({
+        checkpoint: file.replace('.json', ''),
+        toolName: toolCallData.toolCall.name,
+        args: toolCallData.toolCall.args,
+      });
+      toolCallsByCommit.set(toolCallData.commitHash, toolCalls);
+    } catch (_e) {
+      // Ignore invalid JSON files
+    }
+  }
+  return toolCallsByCommit;
+}
@@ -156,6 +156,7 @@ export enum CoreEvent {
   RequestEditorSelection = 'request-editor-selection',
   EditorSelected = 'editor-selected',
   QuotaChanged = 'quota-changed',
+  IdeToolsChanged = 'ide-tools-changed',
 }
 
 /**
@@ -185,6 +186,7 @@ export interface CoreEvents extends ExtensionEvents {
   [CoreEvent.AgentsDiscovered]: [AgentsDiscoveredPayload];
   [CoreEvent.RequestEditorSelection]: never[];
   [CoreEvent.EditorSelected]: [EditorSelectedPayload];
+  [CoreEvent.IdeToolsChanged]: never[];
 }
 
 type EventBacklogItem = {
@@ -293,6 +295,14 @@ export class CoreEventEmitter extends EventEmitter<CoreEvents> {
     this.emit(CoreEvent.AgentsRefreshed);
   }
 
+  /**
+   * Notifies subscribers that the tools the connected IDE provides have
+   * changed.
+   */
+  emitIdeToolsChanged(): void {
+    this.emit(CoreEvent.IdeToolsChanged);
+  }
+
   /**
    * Notifies subscribers that admin settings have changed.
    */
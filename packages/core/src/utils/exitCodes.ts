@@ -9,5 +9,6 @@ export const ExitCodes = {
   FATAL_AUTHENTICATION_ERROR: 41,
   FATAL_INPUT_ERROR: 42,
   FATAL_CONFIG_ERROR: 52,
+  FATAL_BUDGET_EXCEEDED_ERROR: 55,
   FATAL_CANCELLATION_ERROR: 130,
 } as const;
@@ -0,0 +1,71 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getHtmlTitle, htmlToMarkdown } from './htmlToMarkdown.js';
+
+describe('htmlToMarkdown', () => {
+  it('should extract the main content and drop page chrome', () => {
+    const html = `<html><body>
+      <header><a href="/">Home</a></header>
+      <nav><ul><li>Menu</li></ul></nav>
+      <main>
+        <h1>Install</h1>
+        <p>Run <code>npm install</code> with <strong>Node 20</strong>.</p>
+      </main>
+      <script>track();</script>
+      <footer>Copyright</footer>
+    </body></html>`;
+
+    expect(htmlToMarkdown(html)).toBe(
+      '# Install\n\nRun `npm install` with **Node 20**.',
+    );
+  });
+
+  it('should keep code blocks verbatim with their language', () => {
+    const html = `<article><pre><code class="language-ts">const a = 1;
+if (a) {
+  log(a);
+}
+</code></pre></article>`;
+
+    expect(htmlToMarkdown(html)).toBe(
+      '```ts\nconst a = 1;\nif (a) {\n  log(a);\n}\n```',
+    );
+  });
+
+  it('should convert tables to pipe tables', () => {
+    const html = `<table>
+      <thead><tr><th>Option</th><th>Default</th></tr></thead>
+      <tbody>
+        <tr><td>depth</td><td>2</td></tr>
+        <tr><td>a|b</td><td></td></tr>
+      </tbody>
+    </table>`;
+
+    expect(htmlToMarkdown(html)).toBe(
+      [
+        '| Option | Default |',
+        '| --- | --- |',
+        '| depth | 2 |',
+        '| a\\|b |  |',
+      ].join('\n'),
+    );
+  });
+
+  it('should convert lists and fall back to the body', () => {
+    const html = '<body><h2>Steps</h2><ul><li>One</li><li>Two</li></ul></body>';
+
+    expect(htmlToMarkdown(html)).toBe('## Steps\n\n- One\n- Two');
+  });
+});
+
+describe('getHtmlTitle', () => {
+  it('should return the normalized title', () => {
+    expect(getHtmlTitle('<title>\n  My   Docs </title>')).toBe('My Docs');
+    expect(getHtmlTitle('<p>No title</p>')).toBeUndefined();
+  });
+});
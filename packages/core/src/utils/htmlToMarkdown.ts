@@ -0,0 +1,224 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  compile,
+  type DomNode,
+  type FormatCallback,
+  type HtmlToTextOptions,
+} from 'html-to-text';
+
+/**
+ * Elements that hold the main content of a page, most specific first. The
+ * first one found in a page is converted; `body` is the last resort.
+ */
+const MAIN_CONTENT_SELECTORS = [
+  'main',
+  '[role="main"]',
+  'article',
+  '#content',
+  '.content',
+  'body',
+];
+
+/** Page chrome that is never part of the main content. */
+const SKIPPED_SELECTORS = [
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'svg',
+  'img',
+  'nav',
+  'body > header',
+  'body > footer',
+  'body > aside',
+  'form',
+  'button',
+  '[role="navigation"]',
+  '[aria-hidden="true"]',
+];
+
+function textOf(node: DomNode): string {
+  if (node.type === 'text') {
+    return node.data ?? '';
+  }
+  return (node.children ?? []).map(textOf).join('');
+}
+
+function findLanguage(node: DomNode): string {
+  const className: unknown = node.attribs?.class;
+  const match =
+    typeof className === 'string'
+      ? /(?:^|\s)(?:language|lang)-([\w+#-]+)/.exec(className)
+      : null;
+  if (match) {
+    return match[1];
+  }
+  for (const child of node.children ?? []) {
+    const language = findLanguage(child);
+    if (language) {
+      return language;
+    }
+  }
+  return '';
+}
+
+const formatHeading: FormatCallback = (elem, walk, builder, formatOptions) => {
+  builder.openBlock({ leadingLineBreaks: 2 });
+  builder.addLiteral(`${'#'.repeat(Number(formatOptions['level']))} `);
+  walk(elem.children, builder);
+  builder.closeBlock({ trailingLineBreaks: 2 });
+};
+
+/** Emits a fenced code block with the text of the element kept verbatim. */
+const formatCodeBlock: FormatCallback = (elem, _walk, builder) => {
+  const code = textOf(elem).replace(/\n+$/, '');
+  const longestFence = Math.max(
+    2,
+    ...(code.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const fence = '`'.repeat(longestFence + 1);
+  builder.openBlock({ leadingLineBreaks: 2, isPre: true });
+  builder.addLiteral(`${fence}${findLanguage(elem)}\n${code}\n${fence}`);
+  builder.closeBlock({ trailingLineBreaks: 2 });
+};
+
+const formatInlineCode: FormatCallback = (elem, _walk, builder) => {
+  const code = textOf(elem).replace(/\s+/g, ' ');
+  const fence = code.includes('`') ? '``' : '`';
+  builder.addInline(`${fence}${code}${fence}`, { noWordTransform: true });
+};
+
+function escapeTableCell(text: string): string {
+  return text
+    .replace(/\s*\n\s*/g, ' ')
+    .replace(/\|/g, '\\|')
+    .trim();
+}
+
+/** Emits a table as a pipe table, treating the first row as the header. */
+const formatTable: FormatCallback = (elem, walk, builder) => {
+  const rows: DomNode[] = [];
+  const collectRows = (node: DomNode) => {
+    for (const child of node.children ?? []) {
+      if (child.name === 'tr') {
+        rows.push(child);
+      } else if (['thead', 'tbody', 'tfoot'].includes(child.name ?? '')) {
+        collectRows(child);
+      }
+    }
+  };
+  collectRows(elem);
+  if (rows.length === 0) {
+    return;
+  }
+
+  builder.openTable();
+  for (const row of rows) {
+    builder.openTableRow();
+    for (const cell of row.children ?? []) {
+      if (cell.name !== 'td' && cell.name !== 'th') {
+        continue;
+      }
+      builder.openTableCell();
+      walk(cell.children, builder);
+      builder.closeTableCell();
+    }
+    builder.closeTableRow();
+  }
+  builder.closeTable({
+    leadingLineBreaks: 2,
+    trailingLineBreaks: 2,
+    tableToString: (cells) => {
+      const columns = Math.max(...cells.map((row) => row.length));
+      const toLine = (texts: string[]) =>
+        `| ${Array.from({ length: columns }, (_, i) => texts[i] ?? '').join(' | ')} |`;
+      const [header, ...body] = cells.map((row) =>
+        row.map((cell) => escapeTableCell(cell.text)),
+      );
+      return [
+        toLine(header),
+        toLine(Array.from({ length: columns }, () => '---')),
+        ...body.map(toLine),
+      ].join('\n');
+    },
+  });
+};
+
+function createConverter(baseSelector: string): (html: string) => string {
+  const options: HtmlToTextOptions = {
+    wordwrap: false,
+    baseElements: {
+      selectors: [baseSelector],
+      // Fragments without a body are converted whole.
+      returnDomByDefault: baseSelector === 'body',
+    },
+    formatters: {
+      mdHeading: formatHeading,
+      mdCodeBlock: formatCodeBlock,
+      mdInlineCode: formatInlineCode,
+      mdTable: formatTable,
+    },
+    selectors: [
+      ...[1, 2, 3, 4, 5, 6].map((level) => ({
+        selector: `h${level}`,
+        format: 'mdHeading',
+        options: { level },
+      })),
+      { selector: 'pre', format: 'mdCodeBlock' },
+      { selector: 'code', format: 'mdInlineCode' },
+      { selector: 'table', format: 'mdTable' },
+      { selector: 'a', options: { ignoreHref: true } },
+      { selector: 'ul', options: { itemPrefix: '- ' } },
+      {
+        selector: 'strong',
+        format: 'inlineSurround',
+        options: { prefix: '**', suffix: '**' },
+      },
+      {
+        selector: 'b',
+        format: 'inlineSurround',
+        options: { prefix: '**', suffix: '**' },
+      },
+      {
+        selector: 'em',
+        format: 'inlineSurround',
+        options: { prefix: '_', suffix: '_' },
+      },
+      { selector: 'hr', options: { length: 3 } },
+      ...SKIPPED_SELECTORS.map((selector) => ({ selector, format: 'skip' })),
+    ],
+  };
+  return compile(options);
+}
+
+let converters: Array<(html: string) => string> | undefined;
+
+/**
+ * Extracts the main content of an HTML page as Markdown, keeping headings,
+ * lists, code blocks and tables, and dropping navigation, scripts and other
+ * page chrome.
+ */
+export function htmlToMarkdown(html: string): string {
+  converters ??= MAIN_CONTENT_SELECTORS.map(createConverter);
+  for (const convert of converters) {
+    const markdown = convert(html).trim();
+    if (markdown) {
+      return markdown;
+    }
+  }
+  return '';
+}
+
+/**
+ * Returns the title of an HTML page, if it has one.
+ */
+export function getHtmlTitle(html: string): string | undefined {
+  const match = /<title[^>]*>([^<]*)<\/title>/i.exec(html);
+  const title = match?.[1].replace(/\s+/g, ' ').trim();
+  return title || undefined;
+}
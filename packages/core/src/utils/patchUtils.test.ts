@@ -0,0 +1,216 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as Diff from 'diff';
+import {
+  applyHunks,
+  parseUnifiedDiff,
+  PatchApplyError,
+  PatchParseError,
+  reverseHunk,
+} from './patchUtils.js';
+
+describe('parseUnifiedDiff', () => {
+  it('should parse a multi-file git diff with a/ and b/ prefixes', () => {
+    const patch = [
+      'diff --git a/src/a.ts b/src/a.ts',
+      'index 83db48f..bf269f4 100644',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -1,2 +1,2 @@',
+      ' one',
+      '-two',
+      '+TWO',
+      'diff --git a/src/b.ts b/src/b.ts',
+      '--- a/src/b.ts',
+      '+++ b/src/b.ts',
+      '@@ -3 +3 @@',
+      '-three',
+      '+THREE',
+      '',
+    ].join('\n');
+
+    const filePatches = parseUnifiedDiff(patch);
+
+    expect(filePatches).toHaveLength(2);
+    expect(filePatches[0]).toEqual({
+      oldPath: 'src/a.ts',
+      newPath: 'src/a.ts',
+      hunks: [
+        {
+          header: '@@ -1,2 +1,2 @@',
+          oldStart: 1,
+          oldLines: 2,
+          newStart: 1,
+          newLines: 2,
+          lines: [' one', '-two', '+TWO'],
+        },
+      ],
+    });
+    expect(filePatches[1].newPath).toBe('src/b.ts');
+    expect(filePatches[1].hunks[0]).toMatchObject({
+      oldLines: 1,
+      newLines: 1,
+      lines: ['-three', '+THREE'],
+    });
+  });
+
+  it('should parse plain diff -u output with timestamps', () => {
+    const patch = [
+      '--- notes.txt\t2026-01-01 10:00:00.000000000 +0000',
+      '+++ notes.txt\t2026-01-02 10:00:00.000000000 +0000',
+      '@@ -1 +1 @@',
+      '-old',
+      '+new',
+    ].join('\n');
+
+    const [filePatch] = parseUnifiedDiff(patch);
+
+    expect(filePatch.oldPath).toBe('notes.txt');
+    expect(filePatch.newPath).toBe('notes.txt');
+  });
+
+  it('should recognise created, deleted and renamed files', () => {
+    const patch = [
+      '--- /dev/null',
+      '+++ b/new.txt',
+      '@@ -0,0 +1 @@',
+      '+hello',
+      '--- a/old.txt',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-bye',
+      'diff --git a/from.txt b/to.txt',
+      'similarity index 100%',
+      'rename from from.txt',
+      'rename to to.txt',
+      'diff --git a/empty.txt b/empty.txt',
+      'new file mode 100644',
+      'index 0000000..e69de29',
+    ].join('\n');
+
+    const filePatches = parseUnifiedDiff(patch);
+
+    expect(
+      filePatches.map(({ oldPath, newPath }) => ({ oldPath, newPath })),
+    ).toEqual([
+      { oldPath: null, newPath: 'new.txt' },
+      { oldPath: 'old.txt', newPath: null },
+      { oldPath: 'from.txt', newPath: 'to.txt' },
+      { oldPath: null, newPath: 'empty.txt' },
+    ]);
+    expect(filePatches[2].hunks).toEqual([]);
+  });
+
+  it('should treat empty lines inside a hunk as blank context', () => {
+    const patch = [
+      '--- a.txt',
+      '+++ a.txt',
+      '@@ -1,3 +1,3 @@',
+      ' first',
+      '',
+      '-last',
+      '+LAST',
+      '',
+    ].join('\n');
+
+    const [filePatch] = parseUnifiedDiff(patch);
+
+    expect(filePatch.hunks[0].lines).toEqual([' first', ' ', '-last', '+LAST']);
+  });
+
+  it('should ignore text outside of file sections', () => {
+    const patch = [
+      'Here is the change:',
+      '--- a.txt',
+      '+++ a.txt',
+      '@@ -1 +1 @@',
+      '-a',
+      '+b',
+    ].join('\n');
+
+    expect(parseUnifiedDiff(patch)).toHaveLength(1);
+  });
+
+  it('should return no file patches for text without a diff', () => {
+    expect(parseUnifiedDiff('nothing to see here')).toEqual([]);
+  });
+
+  it('should reject a hunk without a file header', () => {
+    expect(() => parseUnifiedDiff('@@ -1 +1 @@\n-a\n+b\n')).toThrow(
+      PatchParseError,
+    );
+  });
+
+  it('should reject a malformed hunk header', () => {
+    expect(() =>
+      parseUnifiedDiff('--- a.txt\n+++ a.txt\n@@ -x +1 @@\n-a\n+b\n'),
+    ).toThrow('Invalid hunk header: @@ -x +1 @@');
+  });
+});
+
+describe('applyHunks', () => {
+  const hunksFor = (oldStr: string, newStr: string) =>
+    parseUnifiedDiff(Diff.createPatch('file', oldStr, newStr))[0].hunks;
+
+  it('should round-trip patches created by the diff library', () => {
+    const oldStr = 'a\nb\nc\nd\ne\nf\ng\nh\ni\nj\nk\n';
+    const newStr = 'a\nB\nc\nd\ne\nf\ng\nh\ni\nJ\nk\nl\n';
+
+    expect(applyHunks(oldStr, hunksFor(oldStr, newStr))).toBe(newStr);
+  });
+
+  it('should create content from an empty file', () => {
+    expect(applyHunks('', hunksFor('', 'one\ntwo\n'))).toBe('one\ntwo\n');
+  });
+
+  it('should apply hunks whose line numbers are off', () => {
+    const hunks = hunksFor('x\ny\nz\n', 'x\nY\nz\n');
+
+    expect(applyHunks('header\nmore\nx\ny\nz\n', hunks)).toBe(
+      'header\nmore\nx\nY\nz\n',
+    );
+  });
+
+  it('should tolerate trailing whitespace differences in context', () => {
+    const hunks = hunksFor('x\ny\nz\n', 'x\nY\nz\n');
+
+    expect(applyHunks('x  \ny\nz\n', hunks)).toBe('x  \nY\nz\n');
+  });
+
+  it('should preserve CRLF line endings', () => {
+    const hunks = hunksFor('a\nb\n', 'a\nB\n');
+
+    expect(applyHunks('a\r\nb\r\n', hunks)).toBe('a\r\nB\r\n');
+  });
+
+  it('should honour missing newline markers', () => {
+    expect(applyHunks('a\nb', hunksFor('a\nb', 'a\nc\n'))).toBe('a\nc\n');
+    expect(applyHunks('a\nb\n', hunksFor('a\nb\n', 'a\nc'))).toBe('a\nc');
+  });
+
+  it('should throw when the context does not match', () => {
+    const hunks = hunksFor('a\nb\nc\n', 'a\nB\nc\n');
+
+    expect(() => applyHunks('x\ny\nz\n', hunks)).toThrow(PatchApplyError);
+  });
+});
+
+describe('reverseHunk', () => {
+  it('should produce a hunk that undoes the original', () => {
+    const oldStr = 'a\nb\nc\n';
+    const newStr = 'a\nB\nc\nd\n';
+    const [{ hunks }] = parseUnifiedDiff(
+      Diff.createPatch('file', oldStr, newStr),
+    );
+
+    const reversed = hunks.map(reverseHunk);
+
+    expect(reversed[0].header).toBe('@@ -1,4 +1,3 @@');
+    expect(applyHunks(newStr, reversed)).toBe(oldStr);
+  });
+});
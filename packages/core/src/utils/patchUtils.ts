@@ -0,0 +1,385 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { detectLineEnding } from './textUtils.js';
+
+const HUNK_HEADER_REGEX = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+const GIT_DIFF_HEADER_REGEX = /^diff --git a\/(.+) b\/(.+)$/;
+const NO_NEWLINE_MARKER = '\\';
+
+/**
+ * A single hunk of a unified diff. `lines` keep their leading ' ', '-', '+'
+ * or '\' marker so they can be replayed against the original file.
+ */
+export interface PatchHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[];
+}
+
+/**
+ * The changes a unified diff makes to one file. A `null` path stands for
+ * `/dev/null`, i.e. the file is created (`oldPath`) or deleted (`newPath`).
+ */
+export interface FilePatch {
+  oldPath: string | null;
+  newPath: string | null;
+  hunks: PatchHunk[];
+}
+
+export class PatchParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PatchParseError';
+  }
+}
+
+export class PatchApplyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PatchApplyError';
+  }
+}
+
+interface PendingFilePatch extends FilePatch {
+  hasFileHeaders: boolean;
+  isNewFile: boolean;
+  isDeletedFile: boolean;
+}
+
+function stripCarriageReturn(line: string): string {
+  return line.endsWith('\r') ? line.slice(0, -1) : line;
+}
+
+function parseHeaderPath(raw: string): string | null {
+  // Drop the optional timestamp that `diff -u` appends after a tab.
+  let filePath = stripCarriageReturn(raw).split('\t')[0].trim();
+  if (
+    filePath.length > 1 &&
+    filePath.startsWith('"') &&
+    filePath.endsWith('"')
+  ) {
+    filePath = filePath.slice(1, -1);
+  }
+  return filePath === '/dev/null' ? null : filePath;
+}
+
+function isFileHeaderAt(lines: string[], index: number): boolean {
+  return (
+    lines[index].startsWith('--- ') &&
+    index + 1 < lines.length &&
+    lines[index + 1].startsWith('+++ ')
+  );
+}
+
+function isSectionStart(lines: string[], index: number): boolean {
+  const line = lines[index];
+  return (
+    line.startsWith('@@ ') ||
+    line.startsWith('diff --git ') ||
+    line.startsWith('Index: ') ||
+    isFileHeaderAt(lines, index)
+  );
+}
+
+function stripGitPrefixes(filePatch: PendingFilePatch): void {
+  const { oldPath, newPath } = filePatch;
+  const oldHasPrefix = oldPath === null || oldPath.startsWith('a/');
+  const newHasPrefix = newPath === null || newPath.startsWith('b/');
+  if (oldHasPrefix && newHasPrefix && (oldPath ?? newPath) !== null) {
+    filePatch.oldPath = oldPath?.slice(2) ?? null;
+    filePatch.newPath = newPath?.slice(2) ?? null;
+  }
+}
+
+function finalizeFilePatch(filePatch: PendingFilePatch): FilePatch {
+  const oldPath = filePatch.isNewFile ? null : filePatch.oldPath;
+  const newPath = filePatch.isDeletedFile ? null : filePatch.newPath;
+  if (oldPath === null && newPath === null) {
+    throw new PatchParseError(
+      'Patch contains a file section without a file path.',
+    );
+  }
+  return { oldPath, newPath, hunks: filePatch.hunks };
+}
+
+function parseHunk(
+  lines: string[],
+  start: number,
+): { hunk: PatchHunk; next: number } {
+  const header = stripCarriageReturn(lines[start]);
+  const match = HUNK_HEADER_REGEX.exec(header);
+  if (!match) {
+    throw new PatchParseError(`Invalid hunk header: ${header}`);
+  }
+
+  const hunkLines: string[] = [];
+  let index = start + 1;
+  while (index < lines.length && !isSectionStart(lines, index)) {
+    const line = lines[index];
+    if (line === '' || line === '\r') {
+      // Editors and models frequently strip the leading space from blank
+      // context lines, so treat an empty line as blank context.
+      hunkLines.push(' ');
+    } else if (' -+\\'.includes(line[0])) {
+      hunkLines.push(line);
+    } else {
+      break;
+    }
+    index++;
+  }
+
+  // Trailing blank lines are almost always separators between sections
+  // rather than context, so only keep the ones the header accounts for.
+  const oldLines = match[2] === undefined ? 1 : parseInt(match[2], 10);
+  const newLines = match[4] === undefined ? 1 : parseInt(match[4], 10);
+  const countLines = (prefix: string) =>
+    hunkLines.filter((line) => line[0] === ' ' || line[0] === prefix).length;
+  while (
+    hunkLines.length > 0 &&
+    hunkLines[hunkLines.length - 1] === ' ' &&
+    (countLines('-') > oldLines || countLines('+') > newLines)
+  ) {
+    hunkLines.pop();
+  }
+
+  if (!hunkLines.some((line) => line[0] !== NO_NEWLINE_MARKER)) {
+    throw new PatchParseError(`Hunk has no content: ${header}`);
+  }
+
+  return {
+    hunk: {
+      header,
+      oldStart: parseInt(match[1], 10),
+      oldLines,
+      newStart: parseInt(match[3], 10),
+      newLines,
+      lines: hunkLines,
+    },
+    next: index,
+  };
+}
+
+/**
+ * Parses a (possibly multi-file) unified diff, as produced by `diff -u` or
+ * `git diff`. Git extended headers for new, deleted and renamed files are
+ * understood; any other text between file sections is ignored.
+ */
+export function parseUnifiedDiff(patch: string): FilePatch[] {
+  const lines = patch.split('\n');
+  const filePatches: FilePatch[] = [];
+  let current: PendingFilePatch | undefined;
+
+  const startFilePatch = (): PendingFilePatch => {
+    if (current) {
+      filePatches.push(finalizeFilePatch(current));
+    }
+    current = {
+      oldPath: null,
+      newPath: null,
+      hunks: [],
+      hasFileHeaders: false,
+      isNewFile: false,
+      isDeletedFile: false,
+    };
+    return current;
+  };
+
+  let index = 0;
+  while (index < lines.length) {
+    const line = stripCarriageReturn(lines[index]);
+
+    if (line.startsWith('diff --git ')) {
+      const filePatch = startFilePatch();
+      const match = GIT_DIFF_HEADER_REGEX.exec(line);
+      if (match) {
+        filePatch.oldPath = match[1];
+        filePatch.newPath = match[2];
+      }
+      index++;
+      continue;
+    }
+
+    if (isFileHeaderAt(lines, index)) {
+      let filePatch = current;
+      if (!filePatch || filePatch.hasFileHeaders || filePatch.hunks.length) {
+        filePatch = startFilePatch();
+      }
+      filePatch.oldPath = parseHeaderPath(line.slice(4));
+      filePatch.newPath = parseHeaderPath(lines[index + 1].slice(4));
+      filePatch.hasFileHeaders = true;
+      stripGitPrefixes(filePatch);
+      index += 2;
+      continue;
+    }
+
+    if (line.startsWith('@@')) {
+      if (!current || (current.oldPath === null && current.newPath === null)) {
+        throw new PatchParseError(`Hunk found before any file header: ${line}`);
+      }
+      const { hunk, next } = parseHunk(lines, index);
+      current.hunks.push(hunk);
+      index = next;
+      continue;
+    }
+
+    if (current && current.hunks.length === 0) {
+      if (line.startsWith('rename from ')) {
+        current.oldPath = line.slice('rename from '.length);
+      } else if (line.startsWith('rename to ')) {
+        current.newPath = line.slice('rename to '.length);
+      } else if (line.startsWith('new file mode')) {
+        current.isNewFile = true;
+      } else if (line.startsWith('deleted file mode')) {
+        current.isDeletedFile = true;
+      }
+    }
+    index++;
+  }
+
+  if (current) {
+    filePatches.push(finalizeFilePatch(current));
+  }
+  return filePatches;
+}
+
+/**
+ * Returns the hunk that undoes `hunk`, i.e. with additions and removals
+ * swapped.
+ */
+export function reverseHunk(hunk: PatchHunk): PatchHunk {
+  const swap: Record<string, string> = { '-': '+', '+': '-' };
+  return {
+    header: `@@ -${hunk.newStart},${hunk.newLines} +${hunk.oldStart},${hunk.oldLines} @@`,
+    oldStart: hunk.newStart,
+    oldLines: hunk.newLines,
+    newStart: hunk.oldStart,
+    newLines: hunk.oldLines,
+    lines: hunk.lines.map((line) =>
+      line[0] in swap ? swap[line[0]] + line.slice(1) : line,
+    ),
+  };
+}
+
+function findHunkPosition(
+  fileLines: string[],
+  oldLines: string[],
+  expected: number,
+  minIndex: number,
+): number {
+  const maxIndex = fileLines.length - oldLines.length;
+  if (maxIndex < minIndex) {
+    return -1;
+  }
+  const clamped = Math.min(Math.max(expected, minIndex), maxIndex);
+
+  const matchesAt = (pos: number, normalize: (line: string) => string) =>
+    oldLines.every(
+      (line, i) => normalize(fileLines[pos + i]) === normalize(line),
+    );
+
+  // Prefer an exact match, then fall back to ignoring trailing whitespace.
+  // In both passes the match closest to the position in the hunk header wins.
+  for (const normalize of [
+    (line: string) => line,
+    (line: string) => line.trimEnd(),
+  ]) {
+    for (let distance = 0; ; distance++) {
+      const before = clamped - distance;
+      const after = clamped + distance;
+      if (before < minIndex && after > maxIndex) {
+        break;
+      }
+      if (before >= minIndex && matchesAt(before, normalize)) {
+        return before;
+      }
+      if (
+        after <= maxIndex &&
+        after !== before &&
+        matchesAt(after, normalize)
+      ) {
+        return after;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Applies the hunks of a single file patch to `content`. Hunks may be offset
+ * from the line numbers in their headers; the line ending style of the
+ * original content is preserved.
+ *
+ * @throws {PatchApplyError} if a hunk's context cannot be found.
+ */
+export function applyHunks(content: string, hunks: PatchHunk[]): string {
+  const lineEnding = detectLineEnding(content);
+  const normalized = content.replace(/\r\n/g, '\n');
+  let hasTrailingNewline = normalized === '' || normalized.endsWith('\n');
+  const fileLines =
+    normalized === ''
+      ? []
+      : (hasTrailingNewline ? normalized.slice(0, -1) : normalized).split('\n');
+
+  let delta = 0;
+  let minIndex = 0;
+  for (const hunk of hunks) {
+    const oldLines: string[] = [];
+    const newLines: string[] = [];
+    // Index into oldLines for each new line that is unchanged context.
+    const contextIndices = new Map<number, number>();
+    let oldMissingNewline = false;
+    let newMissingNewline = false;
+    let previousPrefix = '';
+
+    for (const rawLine of hunk.lines) {
+      const line = stripCarriageReturn(rawLine);
+      const prefix = line[0];
+      const text = line.slice(1);
+      if (prefix === NO_NEWLINE_MARKER) {
+        if (previousPrefix !== '+') oldMissingNewline = true;
+        if (previousPrefix !== '-') newMissingNewline = true;
+        continue;
+      }
+      if (prefix === ' ') contextIndices.set(newLines.length, oldLines.length);
+      if (prefix !== '+') oldLines.push(text);
+      if (prefix !== '-') newLines.push(text);
+      previousPrefix = prefix;
+    }
+
+    // For pure insertions the header names the line *after* which to insert.
+    const expected =
+      (oldLines.length === 0 ? hunk.oldStart : hunk.oldStart - 1) + delta;
+    const position = findHunkPosition(fileLines, oldLines, expected, minIndex);
+    if (position === -1) {
+      throw new PatchApplyError(
+        `Hunk "${hunk.header}" does not match the current file content.`,
+      );
+    }
+
+    // Context may have matched loosely, so keep the file's own version of it.
+    for (const [newIndex, oldIndex] of contextIndices) {
+      newLines[newIndex] = fileLines[position + oldIndex];
+    }
+    const touchesEnd = position + oldLines.length === fileLines.length;
+    fileLines.splice(position, oldLines.length, ...newLines);
+    if (touchesEnd && (oldMissingNewline || newMissingNewline)) {
+      hasTrailingNewline = !newMissingNewline;
+    }
+
+    delta += newLines.length - oldLines.length;
+    minIndex = position + newLines.length;
+  }
+
+  let result = fileLines.join('\n');
+  if (hasTrailingNewline && fileLines.length > 0) {
+    result += '\n';
+  }
+  return lineEnding === '\r\n' ? result.replace(/\n/g, '\r\n') : result;
+}
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RobotsTxt } from './robotsTxt.js';
+
+describe('RobotsTxt', () => {
+  const robots = RobotsTxt.parse(
+    [
+      '# Keep crawlers out of drafts',
+      'User-agent: *',
+      'Disallow: /drafts/',
+      'Allow: /drafts/public',
+      'Disallow: /*.pdf$',
+      '',
+      'User-agent: BadBot',
+      'User-agent: gemini-cli',
+      'Disallow: /private',
+    ].join('\n'),
+  );
+
+  it('should apply the longest matching rule of the wildcard group', () => {
+    expect(robots.isAllowed('/docs/intro', 'other-bot')).toBe(true);
+    expect(robots.isAllowed('/drafts/secret', 'other-bot')).toBe(false);
+    expect(robots.isAllowed('/drafts/public/page', 'other-bot')).toBe(true);
+  });
+
+  it('should support * and $ in patterns', () => {
+    expect(robots.isAllowed('/files/guide.pdf', 'other-bot')).toBe(false);
+    expect(robots.isAllowed('/files/guide.pdf?download=1', 'other-bot')).toBe(
+      true,
+    );
+  });
+
+  it('should use only the group naming the user agent', () => {
+    expect(robots.isAllowed('/private/notes', 'gemini-cli')).toBe(false);
+    expect(robots.isAllowed('/drafts/secret', 'gemini-cli')).toBe(true);
+  });
+
+  it('should prefer allow rules of the same length', () => {
+    const tie = RobotsTxt.parse(
+      ['User-agent: *', 'Disallow: /page', 'Allow: /page'].join('\n'),
+    );
+    expect(tie.isAllowed('/page', 'gemini-cli')).toBe(true);
+  });
+
+  it('should allow everything when there are no rules', () => {
+    expect(RobotsTxt.parse('').isAllowed('/', 'gemini-cli')).toBe(true);
+    expect(
+      RobotsTxt.parse('User-agent: *\nDisallow:').isAllowed('/', 'gemini-cli'),
+    ).toBe(true);
+  });
+});
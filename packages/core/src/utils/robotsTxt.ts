@@ -0,0 +1,97 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+}
+
+function toRegex(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * The rules of a robots.txt file, as described in RFC 9309.
+ */
+export class RobotsTxt {
+  private constructor(private readonly groups: RobotsGroup[]) {}
+
+  static parse(content: string): RobotsTxt {
+    const groups: RobotsGroup[] = [];
+    let current: RobotsGroup | undefined;
+    let lastWasUserAgent = false;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator === -1) {
+        continue;
+      }
+      const key = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (key === 'user-agent') {
+        // Consecutive user-agent lines share one group.
+        if (!current || !lastWasUserAgent) {
+          current = { userAgents: [], rules: [] };
+          groups.push(current);
+        }
+        current.userAgents.push(value.toLowerCase());
+        lastWasUserAgent = true;
+        continue;
+      }
+      lastWasUserAgent = false;
+      if (current && (key === 'allow' || key === 'disallow') && value) {
+        current.rules.push({
+          allow: key === 'allow',
+          pattern: value,
+          regex: toRegex(value),
+        });
+      }
+    }
+    return new RobotsTxt(groups);
+  }
+
+  /**
+   * Returns whether `userAgent` may fetch `path` (including its query
+   * string). The longest matching rule wins, and `Allow` wins ties.
+   */
+  isAllowed(path: string, userAgent: string): boolean {
+    const agent = userAgent.toLowerCase();
+    let groups = this.groups.filter((group) =>
+      group.userAgents.some((name) => name !== '*' && agent.includes(name)),
+    );
+    if (groups.length === 0) {
+      groups = this.groups.filter((group) => group.userAgents.includes('*'));
+    }
+
+    let match: RobotsRule | undefined;
+    for (const rule of groups.flatMap((group) => group.rules)) {
+      if (!rule.regex.test(path)) {
+        continue;
+      }
+      if (
+        !match ||
+        rule.pattern.length > match.pattern.length ||
+        (rule.pattern.length === match.pattern.length && rule.allow)
+      ) {
+        match = rule;
+      }
+    }
+    return match?.allow ?? true;
+  }
+}
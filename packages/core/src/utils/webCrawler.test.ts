@@ -0,0 +1,257 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  afterEach,
+  vi,
+} from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { crawl, extractLinks, type CrawlOptions } from './webCrawler.js';
+import { isPrivateIp } from './fetch.js';
+
+vi.mock('./fetch.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./fetch.js')>();
+  return { ...actual, isPrivateIp: vi.fn(actual.isPrivateIp) };
+});
+
+interface StubPage {
+  body: string;
+  redirect?: string;
+  contentType?: string;
+  etag?: string;
+}
+
+describe('crawl', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let pages: Record<string, StubPage>;
+  let requests: http.IncomingMessage[];
+  let cacheDir: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(req);
+      const page = pages[req.url ?? ''];
+      if (!page) {
+        res.writeHead(404);
+        res.end();
+        return;
+      }
+      if (page.redirect) {
+        res.writeHead(302, { Location: page.redirect });
+        res.end();
+        return;
+      }
+      if (page.etag && req.headers['if-none-match'] === page.etag) {
+        res.writeHead(304);
+        res.end();
+        return;
+      }
+      res.writeHead(200, {
+        'Content-Type': page.contentType ?? 'text/html',
+        ...(page.etag ? { ETag: page.etag } : {}),
+      });
+      res.end(page.body);
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    requests = [];
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'web-cache-'));
+    pages = {
+      '/docs/': {
+        body: `<html><head><title>Docs</title></head><body>
+          <nav><a href="/docs/nav">Nav</a></nav>
+          <main><h1>Guide</h1><a href="intro">Intro</a>
+          <a href="/docs/api#methods">API</a>
+          <a href="https://other.example/">Elsewhere</a></main>
+        </body></html>`,
+      },
+      '/docs/nav': { body: '<p>Navigation page</p>' },
+      '/docs/intro': {
+        body: '<main><h2>Intro</h2><a href="/docs/deep">Deep</a></main>',
+      },
+      '/docs/api': { body: '<main><h2>API</h2></main>' },
+      '/docs/deep': { body: '<main><h3>Deep</h3></main>' },
+    };
+  });
+
+  afterEach(async () => {
+    vi.mocked(isPrivateIp).mockReset();
+    await fs.rm(cacheDir, { recursive: true, force: true });
+  });
+
+  const options = (overrides: Partial<CrawlOptions> = {}): CrawlOptions => ({
+    maxDepth: 1,
+    maxPages: 10,
+    respectRobotsTxt: true,
+    cacheDir,
+    signal: new AbortController().signal,
+    ...overrides,
+  });
+
+  it('should follow same-origin links to the requested depth', async () => {
+    const result = await crawl(`${baseUrl}/docs/`, options());
+
+    expect(result.pages.map((page) => page.url)).toEqual([
+      `${baseUrl}/docs/`,
+      `${baseUrl}/docs/nav`,
+      `${baseUrl}/docs/intro`,
+      `${baseUrl}/docs/api`,
+    ]);
+    expect(result.pages[0].title).toBe('Docs');
+    expect(result.pages[0].content).toBe('# Guide\n\nIntro API Elsewhere');
+    expect(requests.map((req) => req.url)).not.toContain('/docs/deep');
+  });
+
+  it('should stop at the page budget', async () => {
+    const result = await crawl(
+      `${baseUrl}/docs/`,
+      options({ maxDepth: 5, maxPages: 2 }),
+    );
+
+    expect(result.pages).toHaveLength(2);
+  });
+
+  it('should skip pages disallowed by robots.txt', async () => {
+    pages['/robots.txt'] = {
+      body: 'User-agent: *\nDisallow: /docs/api',
+      contentType: 'text/plain',
+    };
+
+    const result = await crawl(`${baseUrl}/docs/`, options());
+
+    expect(result.pages.map((page) => page.url)).not.toContain(
+      `${baseUrl}/docs/api`,
+    );
+    expect(result.skipped).toEqual([
+      { url: `${baseUrl}/docs/api`, reason: 'disallowed by robots.txt' },
+    ]);
+    expect(requests[0].headers['user-agent']).toBe('gemini-cli');
+  });
+
+  it('should revalidate cached pages with their ETag', async () => {
+    pages['/docs/api'].etag = '"v1"';
+    await crawl(`${baseUrl}/docs/api`, options());
+    pages['/docs/api'].body = '<main><h2>Changed</h2></main>';
+    requests = [];
+
+    const result = await crawl(`${baseUrl}/docs/api`, options());
+
+    const pageRequest = requests.find((req) => req.url === '/docs/api');
+    expect(pageRequest?.headers['if-none-match']).toBe('"v1"');
+    expect(result.pages[0]).toMatchObject({
+      content: '## API',
+      fromCache: true,
+    });
+  });
+
+  it('should follow redirects within the same network', async () => {
+    pages['/old'] = { body: '', redirect: '/docs/api' };
+
+    const result = await crawl(`${baseUrl}/old`, options({ maxDepth: 0 }));
+
+    expect(result.pages).toEqual([
+      { url: `${baseUrl}/old`, content: '## API', fromCache: false },
+    ]);
+  });
+
+  it('should not request private addresses a public site redirects to', async () => {
+    // Treat the stub server as public, except for its /internal pages.
+    vi.mocked(isPrivateIp).mockImplementation((url) =>
+      new URL(url).pathname.startsWith('/internal'),
+    );
+    pages['/robots.txt'] = { body: '', redirect: '/internal/robots.txt' };
+    pages['/docs/api'] = { body: '', redirect: `${baseUrl}/internal/secret` };
+    pages['/internal/secret'] = {
+      body: '<main>Secret</main>',
+      etag: '"secret"',
+    };
+
+    const result = await crawl(`${baseUrl}/docs/`, options());
+
+    expect(result.skipped).toEqual([
+      {
+        url: `${baseUrl}/docs/api`,
+        reason: 'redirected to a private address',
+      },
+    ]);
+    expect(requests.map((req) => req.url)).not.toContain('/internal/secret');
+    expect(requests.map((req) => req.url)).not.toContain(
+      '/internal/robots.txt',
+    );
+    expect(await fs.readdir(cacheDir).catch(() => [])).toEqual([]);
+  });
+
+  it('should give up after too many redirects', async () => {
+    pages['/loop'] = { body: '', redirect: '/loop' };
+
+    const result = await crawl(`${baseUrl}/loop`, options());
+
+    expect(result.skipped).toEqual([
+      { url: `${baseUrl}/loop`, reason: 'too many redirects (more than 5)' },
+    ]);
+    expect(requests.filter((req) => req.url === '/loop')).toHaveLength(6);
+  });
+
+  it('should report failed pages and keep raw text for non-HTML pages', async () => {
+    pages['/notes.txt'] = {
+      body: 'Plain <b>text</b>',
+      contentType: 'text/plain',
+    };
+    pages['/index'] = {
+      body: '<a href="/notes.txt">Notes</a><a href="/missing">Missing</a>',
+    };
+
+    const result = await crawl(`${baseUrl}/index`, options());
+
+    expect(result.pages[1]).toMatchObject({
+      url: `${baseUrl}/notes.txt`,
+      content: 'Plain <b>text</b>',
+    });
+    expect(result.skipped).toEqual([
+      {
+        url: `${baseUrl}/missing`,
+        reason: 'Request failed with status code 404 Not Found',
+      },
+    ]);
+  });
+});
+
+describe('extractLinks', () => {
+  it('should resolve links and drop fragments and other protocols', () => {
+    const html = `
+      <a href="guide.html#setup">Guide</a>
+      <a class="x" href='/api'>API</a>
+      <a href=https://example.com/page>Page</a>
+      <a href="mailto:docs@example.com">Mail</a>
+      <a name="anchor">No href</a>`;
+
+    expect(extractLinks(html, 'https://example.com/docs/')).toEqual([
+      'https://example.com/docs/guide.html',
+      'https://example.com/api',
+      'https://example.com/page',
+    ]);
+  });
+});
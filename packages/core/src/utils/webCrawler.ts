@@ -0,0 +1,348 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { debugLogger } from './debugLogger.js';
+import { getErrorMessage, isNodeError } from './errors.js';
+import { isPrivateIp } from './fetch.js';
+import { getHtmlTitle, htmlToMarkdown } from './htmlToMarkdown.js';
+import { RobotsTxt } from './robotsTxt.js';
+
+/** The user agent sent with crawl requests and matched in robots.txt. */
+export const CRAWLER_USER_AGENT = 'gemini-cli';
+
+const PAGE_FETCH_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 5;
+
+export interface CrawlOptions {
+  /** How many links away from the start page to follow. 0 fetches one page. */
+  maxDepth: number;
+  /** The maximum number of pages to fetch. */
+  maxPages: number;
+  /** Whether to skip pages that robots.txt disallows. */
+  respectRobotsTxt: boolean;
+  /** Where fetched pages are cached. No cache is used when unset. */
+  cacheDir?: string;
+  signal: AbortSignal;
+}
+
+export interface CrawledPage {
+  url: string;
+  title?: string;
+  /**
+   * The main content of the page as Markdown, or the raw text of non-HTML
+   * pages.
+   */
+  content: string;
+  /** Whether the page was served from the cache after revalidation. */
+  fromCache: boolean;
+}
+
+export interface SkippedPage {
+  url: string;
+  reason: string;
+}
+
+export interface CrawlResult {
+  pages: CrawledPage[];
+  skipped: SkippedPage[];
+}
+
+interface CachedPage {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  contentType: string;
+  body: string;
+}
+
+interface FetchedPage {
+  finalUrl: string;
+  contentType: string;
+  body: string;
+  fromCache: boolean;
+}
+
+/**
+ * Stores fetched pages with their validators, so unchanged pages are served
+ * from disk after a conditional request.
+ */
+class PageCache {
+  constructor(private readonly dir: string | undefined) {}
+
+  private pathFor(url: string): string | undefined {
+    if (!this.dir) {
+      return undefined;
+    }
+    const hash = crypto.createHash('sha256').update(url).digest('hex');
+    return path.join(this.dir, `${hash}.json`);
+  }
+
+  async get(url: string): Promise<CachedPage | undefined> {
+    const file = this.pathFor(url);
+    if (!file) {
+      return undefined;
+    }
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+      const entry = JSON.parse(await fs.readFile(file, 'utf-8')) as CachedPage;
+      return entry.url === url ? entry : undefined;
+    } catch (error) {
+      if (!isNodeError(error) || error.code !== 'ENOENT') {
+        debugLogger.debug(
+          `[WebCrawler] Ignoring unreadable cache entry for ${url}: ${getErrorMessage(error)}`,
+        );
+      }
+      return undefined;
+    }
+  }
+
+  async set(entry: CachedPage): Promise<void> {
+    const file = this.pathFor(entry.url);
+    if (!file || (!entry.etag && !entry.lastModified)) {
+      return;
+    }
+    try {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, JSON.stringify(entry), 'utf-8');
+    } catch (error) {
+      debugLogger.debug(
+        `[WebCrawler] Could not cache ${entry.url}: ${getErrorMessage(error)}`,
+      );
+    }
+  }
+}
+
+function isHtml(contentType: string): boolean {
+  const type = contentType.toLowerCase();
+  return type === '' || type.includes('text/html') || type.includes('xhtml');
+}
+
+function isText(contentType: string): boolean {
+  const type = contentType.toLowerCase();
+  return (
+    isHtml(type) ||
+    type.startsWith('text/') ||
+    type.includes('json') ||
+    type.includes('xml')
+  );
+}
+
+/**
+ * Returns the absolute http(s) URLs of the links in a page, without
+ * fragments.
+ */
+export function extractLinks(html: string, pageUrl: string): string[] {
+  const links = new Set<string>();
+  const anchor = /<a\s[^>]*?href\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+  for (const match of html.matchAll(anchor)) {
+    const href = (match[1] ?? match[2] ?? match[3]).trim();
+    try {
+      const url = new URL(href, pageUrl);
+      if (url.protocol === 'http:' || url.protocol === 'https:') {
+        url.hash = '';
+        links.add(url.href);
+      }
+    } catch {
+      // Ignore malformed links.
+    }
+  }
+  return [...links];
+}
+
+/**
+ * Fetches `url`, following redirects one hop at a time so that each target
+ * is checked before it is requested. Unless `allowPrivate` is set, a
+ * redirect to a private address fails the request.
+ */
+async function fetchCheckingRedirects(
+  url: string,
+  init: RequestInit,
+  allowPrivate: boolean,
+): Promise<{ response: Response; finalUrl: string }> {
+  let currentUrl = url;
+  for (let redirects = 0; ; redirects++) {
+    const response = await fetch(currentUrl, { ...init, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, finalUrl: currentUrl };
+    }
+    await response.body?.cancel();
+    if (redirects === MAX_REDIRECTS) {
+      throw new Error(`too many redirects (more than ${MAX_REDIRECTS})`);
+    }
+    currentUrl = new URL(location, currentUrl).href;
+    if (!allowPrivate && isPrivateIp(currentUrl)) {
+      throw new Error('redirected to a private address');
+    }
+  }
+}
+
+/**
+ * Fetches pages starting at `startUrl` and following links breadth-first to
+ * other pages of the same origin, within the depth and page budget.
+ *
+ * When the start page is on a public address, redirects to a private address
+ * are not followed, so a public site cannot make the crawler read from the
+ * local network.
+ */
+export async function crawl(
+  startUrl: string,
+  options: CrawlOptions,
+): Promise<CrawlResult> {
+  const origin = new URL(startUrl).origin;
+  const allowPrivate = isPrivateIp(startUrl);
+  const cache = new PageCache(options.cacheDir);
+  const pages: CrawledPage[] = [];
+  const skipped: SkippedPage[] = [];
+  const seen = new Set<string>([new URL(startUrl).href]);
+  const queue: Array<{ url: string; depth: number }> = [
+    { url: new URL(startUrl).href, depth: 0 },
+  ];
+  let robots: RobotsTxt | undefined;
+  if (options.respectRobotsTxt) {
+    robots = await fetchRobotsTxt(origin, allowPrivate, options.signal);
+  }
+
+  while (queue.length > 0 && pages.length < options.maxPages) {
+    options.signal.throwIfAborted();
+    const { url, depth } = queue.shift()!;
+    const { pathname, search } = new URL(url);
+    if (robots && !robots.isAllowed(pathname + search, CRAWLER_USER_AGENT)) {
+      skipped.push({ url, reason: 'disallowed by robots.txt' });
+      continue;
+    }
+
+    let fetched: FetchedPage;
+    try {
+      fetched = await fetchPage(url, cache, allowPrivate, options.signal);
+    } catch (error) {
+      if (options.signal.aborted) {
+        throw error;
+      }
+      skipped.push({ url, reason: getErrorMessage(error) });
+      continue;
+    }
+    if (!isText(fetched.contentType)) {
+      skipped.push({
+        url,
+        reason: `unsupported content type ${fetched.contentType}`,
+      });
+      continue;
+    }
+
+    const html = isHtml(fetched.contentType);
+    pages.push({
+      url,
+      title: html ? getHtmlTitle(fetched.body) : undefined,
+      content: html ? htmlToMarkdown(fetched.body) : fetched.body,
+      fromCache: fetched.fromCache,
+    });
+
+    // Links are only followed from pages that stayed on the origin.
+    if (
+      html &&
+      depth < options.maxDepth &&
+      new URL(fetched.finalUrl).origin === origin
+    ) {
+      for (const link of extractLinks(fetched.body, fetched.finalUrl)) {
+        if (new URL(link).origin === origin && !seen.has(link)) {
+          seen.add(link);
+          queue.push({ url: link, depth: depth + 1 });
+        }
+      }
+    }
+  }
+  return { pages, skipped };
+}
+
+async function fetchRobotsTxt(
+  origin: string,
+  allowPrivate: boolean,
+  signal: AbortSignal,
+): Promise<RobotsTxt | undefined> {
+  try {
+    const { response } = await fetchCheckingRedirects(
+      `${origin}/robots.txt`,
+      {
+        headers: { 'User-Agent': CRAWLER_USER_AGENT },
+        signal: AbortSignal.any([
+          signal,
+          AbortSignal.timeout(PAGE_FETCH_TIMEOUT_MS),
+        ]),
+      },
+      allowPrivate,
+    );
+    // A missing robots.txt allows everything.
+    return response.ok ? RobotsTxt.parse(await response.text()) : undefined;
+  } catch (error) {
+    if (signal.aborted) {
+      throw error;
+    }
+    debugLogger.debug(
+      `[WebCrawler] Could not fetch robots.txt for ${origin}: ${getErrorMessage(error)}`,
+    );
+    return undefined;
+  }
+}
+
+async function fetchPage(
+  url: string,
+  cache: PageCache,
+  allowPrivate: boolean,
+  signal: AbortSignal,
+): Promise<FetchedPage> {
+  const cached = await cache.get(url);
+  const headers: Record<string, string> = { 'User-Agent': CRAWLER_USER_AGENT };
+  if (cached?.etag) {
+    headers['If-None-Match'] = cached.etag;
+  }
+  if (cached?.lastModified) {
+    headers['If-Modified-Since'] = cached.lastModified;
+  }
+
+  const { response, finalUrl } = await fetchCheckingRedirects(
+    url,
+    {
+      headers,
+      signal: AbortSignal.any([
+        signal,
+        AbortSignal.timeout(PAGE_FETCH_TIMEOUT_MS),
+      ]),
+    },
+    allowPrivate,
+  );
+  if (response.status === 304 && cached) {
+    return {
+      finalUrl,
+      contentType: cached.contentType,
+      body: cached.body,
+      fromCache: true,
+    };
+  }
+  if (!response.ok) {
+    throw new Error(
+      `Request failed with status code ${response.status} ${response.statusText}`,
+    );
+  }
+
+  const contentType = response.headers.get('content-type') ?? '';
+  if (!isText(contentType)) {
+    await response.body?.cancel();
+    return { finalUrl, contentType, body: '', fromCache: false };
+  }
+  const body = await response.text();
+  await cache.set({
+    url,
+    etag: response.headers.get('etag') ?? undefined,
+    lastModified: response.headers.get('last-modified') ?? undefined,
+    contentType,
+    body,
+  });
+  return { finalUrl, contentType, body, fromCache: false };
+}
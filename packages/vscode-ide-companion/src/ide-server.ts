@@ -27,6 +27,7 @@ import { tmpdir } from '@google/gemini-cli-core';
 import type { z } from 'zod';
 import type { DiffManager } from './diff-manager.js';
 import { OpenFilesManager } from './open-files-manager.js';
+import { registerLanguageTools } from './language-tools.js';
 
 class CORSError extends Error {
   constructor(message: string) {
@@ -477,5 +478,6 @@ const createMcpServer = (
       };
     },
   );
+  registerLanguageTools(server, log);
   return server;
 };
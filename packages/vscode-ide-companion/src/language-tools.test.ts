@@ -0,0 +1,179 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import * as vscode from 'vscode';
+import {
+  findSymbols,
+  getDiagnostics,
+  getSymbolLocations,
+} from './language-tools.js';
+
+vi.mock('vscode', () => ({
+  Uri: {
+    file: (fsPath: string) => ({ fsPath }),
+  },
+  Position: class {
+    constructor(
+      readonly line: number,
+      readonly character: number,
+    ) {}
+  },
+  DiagnosticSeverity: { Error: 0, Warning: 1, Information: 2, Hint: 3 },
+  SymbolKind: { 4: 'Class', 11: 'Function' },
+  languages: {
+    getDiagnostics: vi.fn(),
+  },
+  workspace: {
+    openTextDocument: vi.fn(),
+  },
+  commands: {
+    executeCommand: vi.fn(),
+  },
+}));
+
+const range = (line: number, character: number) => ({
+  start: { line, character },
+});
+
+describe('language tools', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getDiagnostics', () => {
+    it('should return 1-based diagnostics for a file', () => {
+      vi.mocked(vscode.languages.getDiagnostics).mockReturnValue([
+        {
+          range: range(2, 4),
+          severity: vscode.DiagnosticSeverity.Warning,
+          message: 'unused variable',
+          source: 'ts',
+        },
+      ] as unknown as ReturnType<typeof vscode.languages.getDiagnostics>);
+
+      expect(getDiagnostics('/ws/a.ts')).toEqual({
+        diagnostics: [
+          {
+            filePath: '/ws/a.ts',
+            line: 3,
+            character: 5,
+            severity: 'warning',
+            message: 'unused variable',
+            source: 'ts',
+          },
+        ],
+      });
+    });
+
+    it('should return the diagnostics of every file when no file is given', () => {
+      vi.mocked(vscode.languages.getDiagnostics).mockReturnValue([
+        [
+          { fsPath: '/ws/a.ts' },
+          [
+            {
+              range: range(0, 0),
+              severity: vscode.DiagnosticSeverity.Error,
+              message: 'oops',
+            },
+          ],
+        ],
+        [{ fsPath: '/ws/b.ts' }, []],
+      ] as unknown as ReturnType<typeof vscode.languages.getDiagnostics>);
+
+      expect(getDiagnostics().diagnostics).toEqual([
+        expect.objectContaining({ filePath: '/ws/a.ts', severity: 'error' }),
+      ]);
+    });
+  });
+
+  describe('getSymbolLocations', () => {
+    beforeEach(() => {
+      vi.mocked(vscode.workspace.openTextDocument).mockResolvedValue({
+        lineCount: 2,
+        lineAt: (line: number) => ({
+          text: ['const config = loadConfig();', 'use(config);'][line],
+        }),
+      } as unknown as vscode.TextDocument);
+    });
+
+    it('should run the provider at the whole-word position of the symbol', async () => {
+      vi.mocked(vscode.commands.executeCommand).mockResolvedValue([
+        { uri: { fsPath: '/ws/config.ts' }, range: range(9, 16) },
+        {
+          targetUri: { fsPath: '/ws/other.ts' },
+          targetRange: range(0, 0),
+          targetSelectionRange: range(1, 2),
+        },
+      ]);
+
+      const result = await getSymbolLocations(
+        'vscode.executeDefinitionProvider',
+        { filePath: '/ws/a.ts', line: 1, symbol: 'config' },
+      );
+
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        'vscode.executeDefinitionProvider',
+        { fsPath: '/ws/a.ts' },
+        { line: 0, character: 6 },
+      );
+      expect(result.locations).toEqual([
+        { filePath: '/ws/config.ts', line: 10, character: 17 },
+        { filePath: '/ws/other.ts', line: 2, character: 3 },
+      ]);
+    });
+
+    it('should fail if the symbol is not on the line', async () => {
+      await expect(
+        getSymbolLocations('vscode.executeReferenceProvider', {
+          filePath: '/ws/a.ts',
+          line: 2,
+          symbol: 'loadConfig',
+        }),
+      ).rejects.toThrow('Symbol "loadConfig" not found on line 2 of /ws/a.ts.');
+    });
+
+    it('should fail if the line is past the end of the file', async () => {
+      await expect(
+        getSymbolLocations('vscode.executeReferenceProvider', {
+          filePath: '/ws/a.ts',
+          line: 5,
+          symbol: 'config',
+        }),
+      ).rejects.toThrow('Line 5 is past the end of /ws/a.ts (2 lines).');
+    });
+  });
+
+  describe('findSymbols', () => {
+    it('should return the matching workspace symbols', async () => {
+      vi.mocked(vscode.commands.executeCommand).mockResolvedValue([
+        {
+          name: 'loadConfig',
+          kind: 11,
+          containerName: '',
+          location: { uri: { fsPath: '/ws/config.ts' }, range: range(4, 0) },
+        },
+      ]);
+
+      expect(await findSymbols('loadConf')).toEqual({
+        symbols: [
+          {
+            filePath: '/ws/config.ts',
+            line: 5,
+            character: 1,
+            name: 'loadConfig',
+            kind: 'function',
+            containerName: undefined,
+          },
+        ],
+      });
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        'vscode.executeWorkspaceSymbolProvider',
+        'loadConf',
+      );
+    });
+  });
+});
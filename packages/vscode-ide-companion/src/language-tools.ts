@@ -0,0 +1,234 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as vscode from 'vscode';
+import {
+  FindSymbolsRequestSchema,
+  GetDiagnosticsRequestSchema,
+  SymbolPositionRequestSchema,
+  type FindSymbolsResponseSchema,
+  type GetDiagnosticsResponseSchema,
+  type IdeLocationSchema,
+  type LocationsResponseSchema,
+} from '@google/gemini-cli-core/src/ide/types.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { z } from 'zod';
+
+type IdeLocation = z.infer<typeof IdeLocationSchema>;
+type SymbolPositionRequest = z.infer<typeof SymbolPositionRequestSchema>;
+
+/** Limits the entries returned so a broad query can't flood the CLI. */
+const MAX_RESULTS = 500;
+
+function severityLabel(
+  severity: vscode.DiagnosticSeverity,
+): 'error' | 'warning' | 'info' | 'hint' {
+  switch (severity) {
+    case vscode.DiagnosticSeverity.Warning:
+      return 'warning';
+    case vscode.DiagnosticSeverity.Information:
+      return 'info';
+    case vscode.DiagnosticSeverity.Hint:
+      return 'hint';
+    default:
+      return 'error';
+  }
+}
+
+function toIdeLocation(
+  uri: vscode.Uri,
+  position: vscode.Position,
+): IdeLocation {
+  return {
+    filePath: uri.fsPath,
+    line: position.line + 1,
+    character: position.character + 1,
+  };
+}
+
+/**
+ * Lists the diagnostics shown in the problems panel, for one file or for
+ * every file.
+ */
+export function getDiagnostics(
+  filePath?: string,
+): z.infer<typeof GetDiagnosticsResponseSchema> {
+  const entries: Array<[vscode.Uri, readonly vscode.Diagnostic[]]> = filePath
+    ? [
+        [
+          vscode.Uri.file(filePath),
+          vscode.languages.getDiagnostics(vscode.Uri.file(filePath)),
+        ],
+      ]
+    : vscode.languages.getDiagnostics();
+  const diagnostics = entries.flatMap(([uri, fileDiagnostics]) =>
+    fileDiagnostics.map((diagnostic) => ({
+      ...toIdeLocation(uri, diagnostic.range.start),
+      severity: severityLabel(diagnostic.severity),
+      message: diagnostic.message,
+      source: diagnostic.source,
+    })),
+  );
+  return { diagnostics: diagnostics.slice(0, MAX_RESULTS) };
+}
+
+/**
+ * Finds `symbol` on the given 1-based line, matching whole identifiers only.
+ */
+async function locateSymbol({
+  filePath,
+  line,
+  symbol,
+}: SymbolPositionRequest): Promise<{
+  uri: vscode.Uri;
+  position: vscode.Position;
+}> {
+  const uri = vscode.Uri.file(filePath);
+  const document = await vscode.workspace.openTextDocument(uri);
+  if (line > document.lineCount) {
+    throw new Error(
+      `Line ${line} is past the end of ${filePath} (${document.lineCount} lines).`,
+    );
+  }
+  const escaped = symbol.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = new RegExp(`(?<![\\w$])${escaped}(?![\\w$])`).exec(
+    document.lineAt(line - 1).text,
+  );
+  if (!match) {
+    throw new Error(
+      `Symbol "${symbol}" not found on line ${line} of ${filePath}.`,
+    );
+  }
+  return { uri, position: new vscode.Position(line - 1, match.index) };
+}
+
+/**
+ * Runs a location provider command, such as the definition or reference
+ * provider, for a symbol.
+ */
+export async function getSymbolLocations(
+  command:
+    | 'vscode.executeDefinitionProvider'
+    | 'vscode.executeReferenceProvider',
+  request: SymbolPositionRequest,
+): Promise<z.infer<typeof LocationsResponseSchema>> {
+  const { uri, position } = await locateSymbol(request);
+  const results =
+    (await vscode.commands.executeCommand<
+      Array<vscode.Location | vscode.LocationLink> | undefined
+    >(command, uri, position)) ?? [];
+  const locations = results.map((result) =>
+    'targetUri' in result
+      ? toIdeLocation(
+          result.targetUri,
+          (result.targetSelectionRange ?? result.targetRange).start,
+        )
+      : toIdeLocation(result.uri, result.range.start),
+  );
+  return { locations: locations.slice(0, MAX_RESULTS) };
+}
+
+/**
+ * Searches the symbols of every file in the workspace.
+ */
+export async function findSymbols(
+  query: string,
+): Promise<z.infer<typeof FindSymbolsResponseSchema>> {
+  const results =
+    (await vscode.commands.executeCommand<
+      vscode.SymbolInformation[] | undefined
+    >('vscode.executeWorkspaceSymbolProvider', query)) ?? [];
+  const symbols = results.map((symbol) => ({
+    ...toIdeLocation(symbol.location.uri, symbol.location.range.start),
+    name: symbol.name,
+    kind: vscode.SymbolKind[symbol.kind].toLowerCase(),
+    containerName: symbol.containerName || undefined,
+  }));
+  return { symbols: symbols.slice(0, MAX_RESULTS) };
+}
+
+async function toToolResult(
+  compute: () => unknown | Promise<unknown>,
+): Promise<CallToolResult> {
+  try {
+    return {
+      content: [{ type: 'text', text: JSON.stringify(await compute()) }],
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: error instanceof Error ? error.message : String(error),
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Registers the tools that expose the editor's language features:
+ * diagnostics, go to definition, find references and workspace symbols.
+ */
+export function registerLanguageTools(
+  server: McpServer,
+  log: (message: string) => void,
+): void {
+  server.registerTool(
+    'getDiagnostics',
+    {
+      description:
+        '(IDE Tool) List the problems shown in the problems panel, for one file or for the whole workspace.',
+      inputSchema: GetDiagnosticsRequestSchema.shape,
+    },
+    async ({ filePath }: z.infer<typeof GetDiagnosticsRequestSchema>) => {
+      log(`Received getDiagnostics request for filePath: ${filePath}`);
+      return toToolResult(() => getDiagnostics(filePath));
+    },
+  );
+  server.registerTool(
+    'getDefinition',
+    {
+      description:
+        '(IDE Tool) Find the definition of the symbol on a 1-based line of a file.',
+      inputSchema: SymbolPositionRequestSchema.shape,
+    },
+    async (request: SymbolPositionRequest) => {
+      log(`Received getDefinition request for symbol: ${request.symbol}`);
+      return toToolResult(() =>
+        getSymbolLocations('vscode.executeDefinitionProvider', request),
+      );
+    },
+  );
+  server.registerTool(
+    'getReferences',
+    {
+      description:
+        '(IDE Tool) Find the references to the symbol on a 1-based line of a file.',
+      inputSchema: SymbolPositionRequestSchema.shape,
+    },
+    async (request: SymbolPositionRequest) => {
+      log(`Received getReferences request for symbol: ${request.symbol}`);
+      return toToolResult(() =>
+        getSymbolLocations('vscode.executeReferenceProvider', request),
+      );
+    },
+  );
+  server.registerTool(
+    'findSymbols',
+    {
+      description:
+        '(IDE Tool) Search the symbols declared in the workspace by name.',
+      inputSchema: FindSymbolsRequestSchema.shape,
+    },
+    async ({ query }: z.infer<typeof FindSymbolsRequestSchema>) => {
+      log(`Received findSymbols request for query: ${query}`);
+      return toToolResult(() => findSymbols(query));
+    },
+  );
+}